@@ -53,6 +53,12 @@ const copyWasmFiles = {
 				"php",
 				"swift",
 				"kotlin",
+				"scala",
+				"elixir",
+				"zig",
+				"ocaml",
+				"css",
+				"toml",
 			]
 
 			languages.forEach((lang) => {
@@ -187,12 +193,28 @@ const extensionConfig = {
 	external: ["vscode"],
 }
 
+const cliConfig = {
+	bundle: true,
+	minify: production,
+	sourcemap: !production,
+	logLevel: "silent",
+	plugins: [esbuildProblemMatcherPlugin],
+	entryPoints: ["src/cli/index.ts"],
+	format: "cjs",
+	sourcesContent: false,
+	platform: "node",
+	outfile: "dist/cli.js",
+	banner: { js: "#!/usr/bin/env node" },
+}
+
 async function main() {
 	const extensionCtx = await esbuild.context(extensionConfig)
+	const cliCtx = await esbuild.context(cliConfig)
 
 	if (watch) {
 		// Start the esbuild watcher
 		await extensionCtx.watch()
+		await cliCtx.watch()
 
 		// Copy and watch locale files
 		console.log("Copying locale files initially...")
@@ -203,6 +225,8 @@ async function main() {
 	} else {
 		await extensionCtx.rebuild()
 		await extensionCtx.dispose()
+		await cliCtx.rebuild()
+		await cliCtx.dispose()
 	}
 }
 
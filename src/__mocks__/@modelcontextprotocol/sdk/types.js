@@ -26,6 +26,10 @@ const ReadResourceResultSchema = {
 	}),
 }
 
+const JSONRPCMessageSchema = {
+	parse: jest.fn((message) => message),
+}
+
 const ErrorCode = {
 	InvalidRequest: "InvalidRequest",
 	MethodNotFound: "MethodNotFound",
@@ -46,6 +50,7 @@ module.exports = {
 	ListResourcesResultSchema,
 	ListResourceTemplatesResultSchema,
 	ReadResourceResultSchema,
+	JSONRPCMessageSchema,
 	ErrorCode,
 	McpError,
 }
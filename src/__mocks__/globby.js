@@ -8,3 +8,6 @@ globby.sync = function (patterns, options) {
 
 module.exports = globby
 module.exports.default = globby
+module.exports.isGitIgnored = function (options) {
+	return Promise.resolve(() => false)
+}
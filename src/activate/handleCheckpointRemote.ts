@@ -0,0 +1,103 @@
+import * as vscode from "vscode"
+
+import { historyItemSchema } from "../schemas"
+import { ClineProvider } from "../core/webview/ClineProvider"
+import { ShadowCheckpointService } from "../services/checkpoints/ShadowCheckpointService"
+import { GlobalFileNames } from "../shared/globalFileNames"
+import { t } from "../i18n"
+
+/**
+ * Returns the git remote that task checkpoints are shared through, asking for
+ * one if it isn't configured yet.
+ */
+const getCheckpointRemote = async (): Promise<string | undefined> => {
+	const config = vscode.workspace.getConfiguration("roo-cline")
+	const remote = config.get<string>("checkpointRemote", "")
+
+	if (remote) {
+		return remote
+	}
+
+	const result = await vscode.window.showInputBox({
+		placeHolder: t("common:checkpoints.remote_placeholder"),
+		prompt: t("common:checkpoints.prompt_remote"),
+		validateInput: (input) => (input.trim() ? null : t("common:checkpoints.enter_remote")),
+	})
+
+	if (!result) {
+		return undefined
+	}
+
+	await config.update("checkpointRemote", result.trim(), vscode.ConfigurationTarget.Global)
+	return result.trim()
+}
+
+export const handleExportTaskCheckpoints = async (provider: ClineProvider) => {
+	const taskId = provider.getCurrentCline()?.taskId
+
+	if (!taskId) {
+		vscode.window.showErrorMessage(t("common:errors.no_task_checkpoints_to_export"))
+		return
+	}
+
+	const remote = await getCheckpointRemote()
+
+	if (!remote) {
+		return
+	}
+
+	try {
+		await provider.exportTaskCheckpoints(taskId, remote)
+		vscode.window.showInformationMessage(t("common:info.task_checkpoints_exported", { remote }))
+	} catch (error) {
+		vscode.window.showErrorMessage(
+			t("common:errors.export_task_checkpoints", {
+				error: error instanceof Error ? error.message : String(error),
+			}),
+		)
+	}
+}
+
+export const handleImportTaskCheckpoints = async (provider: ClineProvider) => {
+	const remote = await getCheckpointRemote()
+
+	if (!remote) {
+		return
+	}
+
+	try {
+		const tasks = await ShadowCheckpointService.listRemoteTasks(remote, GlobalFileNames.historyItem)
+
+		const items = tasks.flatMap(({ taskId, content }) => {
+			try {
+				const historyItem = historyItemSchema.parse(JSON.parse(content))
+				return [{ label: historyItem.task, description: new Date(historyItem.ts).toLocaleString(), taskId }]
+			} catch (error) {
+				return []
+			}
+		})
+
+		if (items.length === 0) {
+			vscode.window.showInformationMessage(t("common:info.no_remote_tasks", { remote }))
+			return
+		}
+
+		const item = await vscode.window.showQuickPick(items, {
+			placeHolder: t("common:checkpoints.select_task"),
+			matchOnDescription: true,
+		})
+
+		if (!item) {
+			return
+		}
+
+		await provider.importTaskCheckpoints(item.taskId, remote)
+		await provider.showTaskWithId(item.taskId)
+	} catch (error) {
+		vscode.window.showErrorMessage(
+			t("common:errors.import_task_checkpoints", {
+				error: error instanceof Error ? error.message : String(error),
+			}),
+		)
+	}
+}
@@ -17,6 +17,7 @@ export function getVisibleProviderOrLog(outputChannel: vscode.OutputChannel): Cl
 
 import { registerHumanRelayCallback, unregisterHumanRelayCallback, handleHumanRelayResponse } from "./humanRelay"
 import { handleNewTask } from "./handleTask"
+import { handleExportTaskCheckpoints, handleImportTaskCheckpoints } from "./handleCheckpointRemote"
 
 // Store panel references in both modes
 let sidebarPanel: vscode.WebviewView | undefined = undefined
@@ -114,6 +115,16 @@ const getCommandsMap = ({ context, outputChannel, provider }: RegisterCommandOpt
 			const { promptForCustomStoragePath } = await import("../shared/storagePathManager")
 			await promptForCustomStoragePath()
 		},
+		"roo-cline.exportTaskCheckpoints": () => {
+			const visibleProvider = getVisibleProviderOrLog(outputChannel)
+			if (!visibleProvider) return
+			return handleExportTaskCheckpoints(visibleProvider)
+		},
+		"roo-cline.importTaskCheckpoints": () => {
+			const visibleProvider = getVisibleProviderOrLog(outputChannel)
+			if (!visibleProvider) return
+			return handleImportTaskCheckpoints(visibleProvider)
+		},
 		"roo-cline.focusInput": () => {
 			provider.postMessageToWebview({ type: "action", action: "focusInput" })
 		},
@@ -26,8 +26,30 @@ export interface SingleCompletionHandler {
 	completePrompt(prompt: string): Promise<string>
 }
 
+/**
+ * A tool the model can call natively instead of writing XML tool tags.
+ * The parameters are described with a JSON schema of string properties.
+ */
+export interface ApiToolDefinition {
+	name: string
+	description: string
+	parameters: {
+		type: "object"
+		properties: Record<string, { type: "string"; description: string }>
+		required: string[]
+	}
+}
+
+export interface ApiHandlerCreateMessageMetadata {
+	tools?: ApiToolDefinition[]
+}
+
 export interface ApiHandler {
-	createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream
+	createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream
 	getModel(): { id: string; info: ModelInfo }
 
 	/**
@@ -39,6 +61,12 @@ export interface ApiHandler {
 	 * @returns A promise resolving to the token count
 	 */
 	countTokens(content: Array<Anthropic.Messages.ContentBlockParam>): Promise<number>
+
+	/**
+	 * Whether the handler can send tool definitions to the model and stream
+	 * its tool calls back as `tool_call` chunks.
+	 */
+	supportsNativeTools?(): boolean
 }
 
 export function buildApiHandler(configuration: ApiConfiguration): ApiHandler {
@@ -137,6 +137,68 @@ describe("AnthropicHandler", () => {
 			// Verify API
 			expect(mockCreate).toHaveBeenCalled()
 		})
+
+		it("should send native tools and stream tool calls", async () => {
+			const tools = [
+				{
+					name: "read_file",
+					description: "Read a file.",
+					parameters: {
+						type: "object" as const,
+						properties: { path: { type: "string" as const, description: "The path." } },
+						required: ["path"],
+					},
+				},
+			]
+
+			mockCreate.mockImplementationOnce(async () => ({
+				async *[Symbol.asyncIterator]() {
+					yield {
+						type: "content_block_start",
+						index: 1,
+						content_block: { type: "tool_use", id: "toolu_1", name: "read_file", input: {} },
+					}
+					yield {
+						type: "content_block_delta",
+						index: 1,
+						delta: { type: "input_json_delta", partial_json: '{"pa' },
+					}
+					yield {
+						type: "content_block_delta",
+						index: 1,
+						delta: { type: "input_json_delta", partial_json: 'th":"a.ts"}' },
+					}
+				},
+			}))
+
+			const chunks: any[] = []
+			for await (const chunk of handler.createMessage(systemPrompt, [{ role: "user", content: "Hi" }], {
+				tools,
+			})) {
+				chunks.push(chunk)
+			}
+
+			expect(mockCreate.mock.calls[0][0].tools).toEqual([
+				{ name: "read_file", description: "Read a file.", input_schema: tools[0].parameters },
+			])
+			expect(chunks).toEqual([
+				{ type: "tool_call", index: 1, id: "toolu_1", name: "read_file" },
+				{ type: "tool_call", index: 1, arguments: '{"pa' },
+				{ type: "tool_call", index: 1, arguments: 'th":"a.ts"}' },
+			])
+		})
+	})
+
+	describe("supportsNativeTools", () => {
+		it("supports native tools unless extended thinking is enabled", () => {
+			expect(handler.supportsNativeTools()).toBe(true)
+
+			const thinkingHandler = new AnthropicHandler({
+				apiKey: "test-api-key",
+				apiModelId: "claude-3-7-sonnet-20250219:thinking",
+			})
+			expect(thinkingHandler.supportsNativeTools()).toBe(false)
+		})
 	})
 
 	describe("completePrompt", () => {
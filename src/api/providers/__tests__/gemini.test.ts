@@ -4,6 +4,7 @@ import { GoogleGenerativeAI } from "@google/generative-ai"
 
 // Mock the Google Generative AI SDK
 jest.mock("@google/generative-ai", () => ({
+	...jest.requireActual("@google/generative-ai"),
 	GoogleGenerativeAI: jest.fn().mockImplementation(() => ({
 		getGenerativeModel: jest.fn().mockReturnValue({
 			generateContentStream: jest.fn(),
@@ -60,7 +61,10 @@ describe("GeminiHandler", () => {
 		it("should handle text messages correctly", async () => {
 			// Mock the stream response
 			const mockStream = {
-				stream: [{ text: () => "Hello" }, { text: () => " world!" }],
+				stream: [
+					{ text: () => "Hello", functionCalls: () => undefined },
+					{ text: () => " world!", functionCalls: () => undefined },
+				],
 				response: {
 					usageMetadata: {
 						promptTokenCount: 10,
@@ -121,6 +125,64 @@ describe("GeminiHandler", () => {
 			)
 		})
 
+		it("should send native tools and stream function calls", async () => {
+			const mockGetGenerativeModel = jest.fn().mockReturnValue({
+				generateContentStream: jest.fn().mockResolvedValue({
+					stream: [
+						{
+							text: () => "",
+							functionCalls: () => [{ name: "read_file", args: { path: "a.ts" } }],
+						},
+					],
+					response: { usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5 } },
+				}),
+			})
+
+			;(handler["client"] as any).getGenerativeModel = mockGetGenerativeModel
+
+			const tools = [
+				{
+					name: "read_file",
+					description: "Read a file.",
+					parameters: {
+						type: "object" as const,
+						properties: { path: { type: "string" as const, description: "The path." } },
+						required: ["path"],
+					},
+				},
+			]
+
+			const chunks = []
+			for await (const chunk of handler.createMessage(systemPrompt, mockMessages, { tools })) {
+				chunks.push(chunk)
+			}
+
+			expect(mockGetGenerativeModel.mock.calls[0][0].tools).toEqual([
+				{
+					functionDeclarations: [
+						{
+							name: "read_file",
+							description: "Read a file.",
+							parameters: {
+								type: "OBJECT",
+								properties: { path: { type: "STRING", description: "The path." } },
+								required: ["path"],
+							},
+						},
+					],
+				},
+			])
+
+			// The tool name prefix of the id is used to answer the call.
+			expect(chunks[1]).toEqual({
+				type: "tool_call",
+				index: 0,
+				id: expect.stringMatching(/^read_file-/),
+				name: "read_file",
+				arguments: '{"path":"a.ts"}',
+			})
+		})
+
 		it("should handle API errors", async () => {
 			const mockError = new Error("Gemini API error")
 			const mockGenerateContentStream = jest.fn().mockRejectedValue(mockError)
@@ -11,7 +11,7 @@ import {
 import { ApiStream } from "../transform/stream"
 import { BaseProvider } from "./base-provider"
 import { ANTHROPIC_DEFAULT_MAX_TOKENS } from "./constants"
-import { SingleCompletionHandler, getModelParams } from "../index"
+import { SingleCompletionHandler, ApiHandlerCreateMessageMetadata, ApiToolDefinition, getModelParams } from "../index"
 
 export class AnthropicHandler extends BaseProvider implements SingleCompletionHandler {
 	private options: ApiHandlerOptions
@@ -26,10 +26,15 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		})
 	}
 
-	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
 		let stream: AnthropicStream<Anthropic.Messages.RawMessageStreamEvent>
 		const cacheControl: CacheControlEphemeral = { type: "ephemeral" }
 		let { id: modelId, maxTokens, thinking, temperature, virtualId } = this.getModel()
+		const tools = metadata?.tools?.length ? metadata.tools.map(convertToAnthropicTool) : undefined
 
 		switch (modelId) {
 			case "claude-3-7-sonnet-20250219":
@@ -73,9 +78,8 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 							}
 							return message
 						}),
-						// tools, // cache breakpoints go from tools > system > messages, and since tools dont change, we can just set the breakpoint at the end of system (this avoids having to set a breakpoint at the end of tools which by itself does not meet min requirements for haiku caching)
-						// tool_choice: { type: "auto" },
-						// tools: tools,
+						// Cache breakpoints go from tools > system > messages, and since tools dont change, we can just set the breakpoint at the end of system (this avoids having to set a breakpoint at the end of tools which by itself does not meet min requirements for haiku caching).
+						tools,
 						stream: true,
 					},
 					(() => {
@@ -115,8 +119,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 					temperature,
 					system: [{ text: systemPrompt, type: "text" }],
 					messages,
-					// tools,
-					// tool_choice: { type: "auto" },
+					tools,
 					stream: true,
 				})) as any
 				break
@@ -171,6 +174,14 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 
 							yield { type: "text", text: chunk.content_block.text }
 							break
+						case "tool_use":
+							yield {
+								type: "tool_call",
+								index: chunk.index,
+								id: chunk.content_block.id,
+								name: chunk.content_block.name,
+							}
+							break
 					}
 					break
 				case "content_block_delta":
@@ -181,6 +192,9 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 						case "text_delta":
 							yield { type: "text", text: chunk.delta.text }
 							break
+						case "input_json_delta":
+							yield { type: "tool_call", index: chunk.index, arguments: chunk.delta.partial_json }
+							break
 					}
 
 					break
@@ -190,6 +204,15 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		}
 	}
 
+	/**
+	 * With extended thinking enabled, tool calls must be preceded by the
+	 * signed thinking blocks of the same turn, which we don't keep in the
+	 * conversation history.
+	 */
+	supportsNativeTools() {
+		return !this.getModel().thinking
+	}
+
 	getModel() {
 		const modelId = this.options.apiModelId
 		let id = modelId && modelId in anthropicModels ? (modelId as AnthropicModelId) : anthropicDefaultModelId
@@ -260,3 +283,7 @@ export class AnthropicHandler extends BaseProvider implements SingleCompletionHa
 		}
 	}
 }
+
+function convertToAnthropicTool({ name, description, parameters }: ApiToolDefinition): Anthropic.Messages.Tool {
+	return { name, description, input_schema: parameters }
+}
@@ -1,5 +1,5 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import { ApiHandler } from ".."
+import { ApiHandler, ApiHandlerCreateMessageMetadata } from ".."
 import { ModelInfo } from "../../shared/api"
 import { ApiStream } from "../transform/stream"
 import { Tiktoken } from "js-tiktoken/lite"
@@ -14,7 +14,11 @@ const TOKEN_FUDGE_FACTOR = 1.5
 export abstract class BaseProvider implements ApiHandler {
 	// Cache the Tiktoken encoder instance since it's stateless
 	private encoder: Tiktoken | null = null
-	abstract createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream
+	abstract createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream
 	abstract getModel(): { id: string; info: ModelInfo }
 
 	/**
@@ -6,7 +6,7 @@ import {
 } from "@aws-sdk/client-bedrock-runtime"
 import { fromIni } from "@aws-sdk/credential-providers"
 import { Anthropic } from "@anthropic-ai/sdk"
-import { SingleCompletionHandler } from "../"
+import { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../"
 import {
 	BedrockModelId,
 	ModelInfo as SharedModelInfo,
@@ -23,9 +23,13 @@ import { Message, SystemContentBlock } from "@aws-sdk/client-bedrock-runtime"
 import { MultiPointStrategy } from "../transform/cache-strategy/multi-point-strategy"
 import { ModelInfo as CacheModelInfo } from "../transform/cache-strategy/types"
 import { AMAZON_BEDROCK_REGION_INFO } from "../../shared/aws_regions"
+import { convertToBedrockTool } from "../transform/bedrock-converse-format"
 
 const BEDROCK_DEFAULT_TEMPERATURE = 0.3
 const BEDROCK_MAX_TOKENS = 4096
+// Model families that support tool use with the Converse API.
+const BEDROCK_NATIVE_TOOLS_MODEL_PATTERN =
+	/anthropic\.claude|amazon\.nova|meta\.llama3-[1-3]|mistral\.mistral-large|cohere\.command-r/
 
 /************************************************************************************
  *
@@ -52,12 +56,19 @@ export interface StreamEvent {
 	contentBlockStart?: {
 		start?: {
 			text?: string
+			toolUse?: {
+				toolUseId?: string
+				name?: string
+			}
 		}
 		contentBlockIndex?: number
 	}
 	contentBlockDelta?: {
 		delta?: {
 			text?: string
+			toolUse?: {
+				input?: string
+			}
 		}
 		contentBlockIndex?: number
 	}
@@ -182,7 +193,11 @@ export class AwsBedrockHandler extends BaseProvider implements SingleCompletionH
 		this.client = new BedrockRuntimeClient(clientConfig)
 	}
 
-	override async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	override async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
 		let modelConfig = this.getModel()
 		// Handle cross-region inference
 		const usePromptCache = Boolean(this.options.awsUsePromptCache && this.supportsAwsPromptCache(modelConfig))
@@ -218,6 +233,7 @@ export class AwsBedrockHandler extends BaseProvider implements SingleCompletionH
 			messages: formatted.messages,
 			system: formatted.system,
 			inferenceConfig,
+			toolConfig: metadata?.tools?.length ? { tools: metadata.tools.map(convertToBedrockTool) } : undefined,
 		}
 
 		// Create AbortController with 10 minute timeout
@@ -330,6 +346,16 @@ export class AwsBedrockHandler extends BaseProvider implements SingleCompletionH
 					continue
 				}
 
+				if (streamEvent.contentBlockStart?.start?.toolUse) {
+					yield {
+						type: "tool_call",
+						index: streamEvent.contentBlockStart.contentBlockIndex ?? 0,
+						id: streamEvent.contentBlockStart.start.toolUse.toolUseId,
+						name: streamEvent.contentBlockStart.start.toolUse.name,
+					}
+					continue
+				}
+
 				// Handle content deltas
 				if (streamEvent.contentBlockDelta?.delta?.text) {
 					yield {
@@ -338,6 +364,15 @@ export class AwsBedrockHandler extends BaseProvider implements SingleCompletionH
 					}
 					continue
 				}
+
+				if (streamEvent.contentBlockDelta?.delta?.toolUse) {
+					yield {
+						type: "tool_call",
+						index: streamEvent.contentBlockDelta.contentBlockIndex ?? 0,
+						arguments: streamEvent.contentBlockDelta.delta.toolUse.input,
+					}
+					continue
+				}
 				// Handle message stop
 				if (streamEvent.messageStop) {
 					continue
@@ -660,6 +695,10 @@ export class AwsBedrockHandler extends BaseProvider implements SingleCompletionH
 		return modelConfig as { id: BedrockModelId | string; info: SharedModelInfo }
 	}
 
+	supportsNativeTools(): boolean {
+		return BEDROCK_NATIVE_TOOLS_MODEL_PATTERN.test(this.getModel().id)
+	}
+
 	/************************************************************************************
 	 *
 	 *     CACHE
@@ -1,8 +1,8 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { GoogleGenerativeAI } from "@google/generative-ai"
-import { SingleCompletionHandler } from "../"
+import { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../"
 import { ApiHandlerOptions, geminiDefaultModelId, GeminiModelId, geminiModels, ModelInfo } from "../../shared/api"
-import { convertAnthropicMessageToGemini } from "../transform/gemini-format"
+import { convertAnthropicMessageToGemini, convertToGeminiFunctionDeclaration } from "../transform/gemini-format"
 import { ApiStream } from "../transform/stream"
 import { BaseProvider } from "./base-provider"
 
@@ -18,11 +18,18 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 		this.client = new GoogleGenerativeAI(options.geminiApiKey ?? "not-provided")
 	}
 
-	override async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	override async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
 		const model = this.client.getGenerativeModel(
 			{
 				model: this.getModel().id,
 				systemInstruction: systemPrompt,
+				tools: metadata?.tools?.length
+					? [{ functionDeclarations: metadata.tools.map(convertToGeminiFunctionDeclaration) }]
+					: undefined,
 			},
 			{
 				baseUrl: this.options.googleGeminiBaseUrl || undefined,
@@ -36,11 +43,26 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 			},
 		})
 
+		let toolCallIndex = 0
+
 		for await (const chunk of result.stream) {
 			yield {
 				type: "text",
 				text: chunk.text(),
 			}
+
+			// Gemini sends function calls in one piece and doesn't assign them
+			// ids. The name prefix lets `convertAnthropicMessageToGemini` map
+			// the tool results back to the function.
+			for (const { name, args } of chunk.functionCalls() ?? []) {
+				yield {
+					type: "tool_call",
+					index: toolCallIndex,
+					id: `${name}-${Date.now()}-${toolCallIndex++}`,
+					name,
+					arguments: JSON.stringify(args),
+				}
+			}
 		}
 
 		const response = await result.response
@@ -51,6 +73,10 @@ export class GeminiHandler extends BaseProvider implements SingleCompletionHandl
 		}
 	}
 
+	supportsNativeTools(): boolean {
+		return true
+	}
+
 	override getModel(): { id: GeminiModelId; info: ModelInfo } {
 		const modelId = this.options.apiModelId
 		if (modelId && modelId in geminiModels) {
@@ -1,6 +1,6 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import OpenAI from "openai"
-import { SingleCompletionHandler } from "../"
+import { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../"
 import {
 	ApiHandlerOptions,
 	ModelInfo,
@@ -8,7 +8,7 @@ import {
 	OpenAiNativeModelId,
 	openAiNativeModels,
 } from "../../shared/api"
-import { convertToOpenAiMessages } from "../transform/openai-format"
+import { convertToOpenAiMessages, convertToOpenAiTool } from "../transform/openai-format"
 import { ApiStream } from "../transform/stream"
 import { BaseProvider } from "./base-provider"
 
@@ -25,8 +25,13 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 		this.client = new OpenAI({ apiKey })
 	}
 
-	override async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	override async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
 		const modelId = this.getModel().id
+		const tools = metadata?.tools?.length ? metadata.tools.map(convertToOpenAiTool) : undefined
 
 		if (modelId.startsWith("o1")) {
 			yield* this.handleO1FamilyMessage(modelId, systemPrompt, messages)
@@ -34,11 +39,17 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 		}
 
 		if (modelId.startsWith("o3-mini")) {
-			yield* this.handleO3FamilyMessage(modelId, systemPrompt, messages)
+			yield* this.handleO3FamilyMessage(modelId, systemPrompt, messages, tools)
 			return
 		}
 
-		yield* this.handleDefaultModelMessage(modelId, systemPrompt, messages)
+		yield* this.handleDefaultModelMessage(modelId, systemPrompt, messages, tools)
+	}
+
+	// The o1 family is sent the system prompt as a user message and is
+	// left to the XML tool format.
+	supportsNativeTools(): boolean {
+		return !this.getModel().id.startsWith("o1")
 	}
 
 	private async *handleO1FamilyMessage(
@@ -69,6 +80,7 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 		modelId: string,
 		systemPrompt: string,
 		messages: Anthropic.Messages.MessageParam[],
+		tools?: OpenAI.Chat.ChatCompletionTool[],
 	): ApiStream {
 		const stream = await this.client.chat.completions.create({
 			model: "o3-mini",
@@ -82,6 +94,7 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 			stream: true,
 			stream_options: { include_usage: true },
 			reasoning_effort: this.getModel().info.reasoningEffort,
+			tools,
 		})
 
 		yield* this.handleStreamResponse(stream)
@@ -91,6 +104,7 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 		modelId: string,
 		systemPrompt: string,
 		messages: Anthropic.Messages.MessageParam[],
+		tools?: OpenAI.Chat.ChatCompletionTool[],
 	): ApiStream {
 		const stream = await this.client.chat.completions.create({
 			model: modelId,
@@ -98,6 +112,7 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 			messages: [{ role: "system", content: systemPrompt }, ...convertToOpenAiMessages(messages)],
 			stream: true,
 			stream_options: { include_usage: true },
+			tools,
 		})
 
 		yield* this.handleStreamResponse(stream)
@@ -125,6 +140,16 @@ export class OpenAiNativeHandler extends BaseProvider implements SingleCompletio
 				}
 			}
 
+			for (const toolCall of delta?.tool_calls ?? []) {
+				yield {
+					type: "tool_call",
+					index: toolCall.index,
+					id: toolCall.id,
+					name: toolCall.function?.name,
+					arguments: toolCall.function?.arguments,
+				}
+			}
+
 			if (chunk.usage) {
 				yield {
 					type: "usage",
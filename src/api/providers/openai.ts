@@ -8,8 +8,8 @@ import {
 	ModelInfo,
 	openAiModelInfoSaneDefaults,
 } from "../../shared/api"
-import { SingleCompletionHandler } from "../index"
-import { convertToOpenAiMessages } from "../transform/openai-format"
+import { SingleCompletionHandler, ApiHandlerCreateMessageMetadata } from "../index"
+import { convertToOpenAiMessages, convertToOpenAiTool } from "../transform/openai-format"
 import { convertToR1Format } from "../transform/r1-format"
 import { convertToSimpleMessages } from "../transform/simple-format"
 import { ApiStream, ApiStreamUsageChunk } from "../transform/stream"
@@ -72,7 +72,11 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 		}
 	}
 
-	override async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+	override async *createMessage(
+		systemPrompt: string,
+		messages: Anthropic.Messages.MessageParam[],
+		metadata?: ApiHandlerCreateMessageMetadata,
+	): ApiStream {
 		const modelInfo = this.getModel().info
 		const modelUrl = this.options.openAiBaseUrl ?? ""
 		const modelId = this.options.openAiModelId ?? ""
@@ -149,6 +153,9 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 			if (this.options.includeMaxTokens) {
 				requestOptions.max_tokens = modelInfo.maxTokens
 			}
+			if (metadata?.tools?.length && this.supportsNativeTools()) {
+				requestOptions.tools = metadata.tools.map(convertToOpenAiTool)
+			}
 
 			const stream = await this.client.chat.completions.create(
 				requestOptions,
@@ -181,6 +188,17 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 						text: (delta.reasoning_content as string | undefined) || "",
 					}
 				}
+
+				for (const toolCall of delta.tool_calls ?? []) {
+					yield {
+						type: "tool_call",
+						index: toolCall.index,
+						id: toolCall.id,
+						name: toolCall.function?.name,
+						arguments: toolCall.function?.arguments,
+					}
+				}
+
 				if (chunk.usage) {
 					lastUsage = chunk.usage
 				}
@@ -231,6 +249,24 @@ export class OpenAiHandler extends BaseProvider implements SingleCompletionHandl
 		}
 	}
 
+	/**
+	 * Tool calls are only read from streamed responses in the regular chat
+	 * completions format; the reasoner and legacy formats flatten messages.
+	 */
+	supportsNativeTools(): boolean {
+		const modelUrl = this.options.openAiBaseUrl ?? ""
+		const modelId = this.options.openAiModelId ?? ""
+
+		return (
+			(this.options.openAiStreamingEnabled ?? true) &&
+			!modelId.startsWith("o3-mini") &&
+			!modelId.includes("deepseek-reasoner") &&
+			!this.options.openAiR1FormatEnabled &&
+			!this.options.openAiLegacyFormat &&
+			!modelUrl.includes(".volces.com")
+		)
+	}
+
 	override getModel(): { id: string; info: ModelInfo } {
 		return {
 			id: this.options.openAiModelId ?? "",
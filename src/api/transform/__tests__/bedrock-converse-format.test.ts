@@ -97,7 +97,7 @@ describe("convertToBedrockConverseMessages", () => {
 			expect(toolBlock.toolUse).toEqual({
 				toolUseId: "test-id",
 				name: "read_file",
-				input: "<read_file>\n<path>\ntest.txt\n</path>\n</read_file>",
+				input: { path: "test.txt" },
 			})
 		} else {
 			fail("Expected tool use block not found")
@@ -1,7 +1,8 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import { ConversationRole, Message, ContentBlock } from "@aws-sdk/client-bedrock-runtime"
+import { ConversationRole, Message, ContentBlock, Tool } from "@aws-sdk/client-bedrock-runtime"
 
 import { MessageContent } from "../../shared/api"
+import { ApiToolDefinition } from ".."
 
 /**
  * Convert Anthropic messages to Bedrock Converse format
@@ -22,154 +23,156 @@ export function convertToBedrockConverseMessages(anthropicMessages: Anthropic.Me
 			}
 		}
 
-		// Process complex content types
-		const content = anthropicMessage.content.map((block) => {
-			const messageBlock = block as MessageContent & {
-				id?: string
-				tool_use_id?: string
-				content?: Array<{ type: string; text: string }>
-				output?: string | Array<{ type: string; text: string }>
-			}
-
-			if (messageBlock.type === "text") {
-				return {
-					text: messageBlock.text || "",
-				} as ContentBlock
-			}
-
-			if (messageBlock.type === "image" && messageBlock.source) {
-				// Convert base64 string to byte array if needed
-				let byteArray: Uint8Array
-				if (typeof messageBlock.source.data === "string") {
-					const binaryString = atob(messageBlock.source.data)
-					byteArray = new Uint8Array(binaryString.length)
-					for (let i = 0; i < binaryString.length; i++) {
-						byteArray[i] = binaryString.charCodeAt(i)
-					}
-				} else {
-					byteArray = messageBlock.source.data
-				}
-
-				// Extract format from media_type (e.g., "image/jpeg" -> "jpeg")
-				const format = messageBlock.source.media_type.split("/")[1]
-				if (!["png", "jpeg", "gif", "webp"].includes(format)) {
-					throw new Error(`Unsupported image format: ${format}`)
-				}
+		return {
+			role,
+			content: anthropicMessage.content.map(convertToBedrockContentBlock),
+		}
+	})
+}
 
-				return {
-					image: {
-						format: format as "png" | "jpeg" | "gif" | "webp",
-						source: {
-							bytes: byteArray,
-						},
-					},
-				} as ContentBlock
+/**
+ * Convert a single Anthropic content block to a Bedrock Converse content block
+ */
+export function convertToBedrockContentBlock(block: Anthropic.Messages.ContentBlockParam): ContentBlock {
+	const messageBlock = block as MessageContent & {
+		id?: string
+		tool_use_id?: string
+		content?: Array<{ type: string; text: string }>
+		output?: string | Array<{ type: string; text: string }>
+	}
+
+	if (messageBlock.type === "text") {
+		return {
+			text: messageBlock.text || "",
+		} as ContentBlock
+	}
+
+	if (messageBlock.type === "image" && messageBlock.source) {
+		// Convert base64 string to byte array if needed
+		let byteArray: Uint8Array
+		if (typeof messageBlock.source.data === "string") {
+			const binaryString = atob(messageBlock.source.data)
+			byteArray = new Uint8Array(binaryString.length)
+			for (let i = 0; i < binaryString.length; i++) {
+				byteArray[i] = binaryString.charCodeAt(i)
 			}
+		} else {
+			byteArray = messageBlock.source.data
+		}
 
-			if (messageBlock.type === "tool_use") {
-				// Convert tool use to XML format
-				const toolParams = Object.entries(messageBlock.input || {})
-					.map(([key, value]) => `<${key}>\n${value}\n</${key}>`)
-					.join("\n")
-
-				return {
-					toolUse: {
-						toolUseId: messageBlock.id || "",
-						name: messageBlock.name || "",
-						input: `<${messageBlock.name}>\n${toolParams}\n</${messageBlock.name}>`,
-					},
-				} as ContentBlock
-			}
+		// Extract format from media_type (e.g., "image/jpeg" -> "jpeg")
+		const format = messageBlock.source.media_type.split("/")[1]
+		if (!["png", "jpeg", "gif", "webp"].includes(format)) {
+			throw new Error(`Unsupported image format: ${format}`)
+		}
 
-			if (messageBlock.type === "tool_result") {
-				// First try to use content if available
-				if (messageBlock.content && Array.isArray(messageBlock.content)) {
-					return {
-						toolResult: {
-							toolUseId: messageBlock.tool_use_id || "",
-							content: messageBlock.content.map((item) => ({
-								text: item.text,
-							})),
-							status: "success",
-						},
-					} as ContentBlock
-				}
+		return {
+			image: {
+				format: format as "png" | "jpeg" | "gif" | "webp",
+				source: {
+					bytes: byteArray,
+				},
+			},
+		} as ContentBlock
+	}
+
+	if (messageBlock.type === "tool_use") {
+		return {
+			toolUse: {
+				toolUseId: messageBlock.id || "",
+				name: messageBlock.name || "",
+				input: messageBlock.input || {},
+			},
+		} as ContentBlock
+	}
+
+	if (messageBlock.type === "tool_result") {
+		// First try to use content if available
+		if (messageBlock.content && Array.isArray(messageBlock.content)) {
+			return {
+				toolResult: {
+					toolUseId: messageBlock.tool_use_id || "",
+					content: messageBlock.content.map((item) =>
+						// Images in tool results are sent separately.
+						item.type === "image" ? { text: "(see following message for image)" } : { text: item.text },
+					),
+					status: "success",
+				},
+			} as ContentBlock
+		}
 
-				// Fall back to output handling if content is not available
-				if (messageBlock.output && typeof messageBlock.output === "string") {
-					return {
-						toolResult: {
-							toolUseId: messageBlock.tool_use_id || "",
-							content: [
-								{
-									text: messageBlock.output,
-								},
-							],
-							status: "success",
-						},
-					} as ContentBlock
-				}
-				// Handle array of content blocks if output is an array
-				if (Array.isArray(messageBlock.output)) {
-					return {
-						toolResult: {
-							toolUseId: messageBlock.tool_use_id || "",
-							content: messageBlock.output.map((part) => {
-								if (typeof part === "object" && "text" in part) {
-									return { text: part.text }
-								}
-								// Skip images in tool results as they're handled separately
-								if (typeof part === "object" && "type" in part && part.type === "image") {
-									return { text: "(see following message for image)" }
-								}
-								return { text: String(part) }
-							}),
-							status: "success",
+		// Fall back to output handling if content is not available
+		if (messageBlock.output && typeof messageBlock.output === "string") {
+			return {
+				toolResult: {
+					toolUseId: messageBlock.tool_use_id || "",
+					content: [
+						{
+							text: messageBlock.output,
 						},
-					} as ContentBlock
-				}
-
-				// Default case
-				return {
-					toolResult: {
-						toolUseId: messageBlock.tool_use_id || "",
-						content: [
-							{
-								text: String(messageBlock.output || ""),
-							},
-						],
-						status: "success",
-					},
-				} as ContentBlock
-			}
-
-			if (messageBlock.type === "video") {
-				const videoContent = messageBlock.s3Location
-					? {
-							s3Location: {
-								uri: messageBlock.s3Location.uri,
-								bucketOwner: messageBlock.s3Location.bucketOwner,
-							},
+					],
+					status: "success",
+				},
+			} as ContentBlock
+		}
+		// Handle array of content blocks if output is an array
+		if (Array.isArray(messageBlock.output)) {
+			return {
+				toolResult: {
+					toolUseId: messageBlock.tool_use_id || "",
+					content: messageBlock.output.map((part) => {
+						if (typeof part === "object" && "text" in part) {
+							return { text: part.text }
 						}
-					: messageBlock.source
+						// Skip images in tool results as they're handled separately
+						if (typeof part === "object" && "type" in part && part.type === "image") {
+							return { text: "(see following message for image)" }
+						}
+						return { text: String(part) }
+					}),
+					status: "success",
+				},
+			} as ContentBlock
+		}
 
-				return {
-					video: {
-						format: "mp4", // Default to mp4, adjust based on actual format if needed
-						source: videoContent,
+		// Default case
+		return {
+			toolResult: {
+				toolUseId: messageBlock.tool_use_id || "",
+				content: [
+					{
+						text: String(messageBlock.output || ""),
 					},
-				} as ContentBlock
-			}
-
-			// Default case for unknown block types
-			return {
-				text: "[Unknown Block Type]",
-			} as ContentBlock
-		})
+				],
+				status: "success",
+			},
+		} as ContentBlock
+	}
+
+	if (messageBlock.type === "video") {
+		const videoContent = messageBlock.s3Location
+			? {
+					s3Location: {
+						uri: messageBlock.s3Location.uri,
+						bucketOwner: messageBlock.s3Location.bucketOwner,
+					},
+				}
+			: messageBlock.source
 
 		return {
-			role,
-			content,
-		}
-	})
+			video: {
+				format: "mp4", // Default to mp4, adjust based on actual format if needed
+				source: videoContent,
+			},
+		} as ContentBlock
+	}
+
+	// Default case for unknown block types
+	return {
+		text: "[Unknown Block Type]",
+	} as ContentBlock
+}
+
+export function convertToBedrockTool({ name, description, parameters }: ApiToolDefinition): Tool {
+	return { toolSpec: { name, description, inputSchema: { json: parameters } } }
 }
@@ -2,6 +2,7 @@ import { Anthropic } from "@anthropic-ai/sdk"
 import { ContentBlock, SystemContentBlock, Message, ConversationRole } from "@aws-sdk/client-bedrock-runtime"
 import { CacheStrategyConfig, CacheResult, CachePointPlacement } from "./types"
 import { logger } from "../../../utils/logging"
+import { convertToBedrockContentBlock } from "../bedrock-converse-format"
 
 export abstract class CacheStrategy {
 	/**
@@ -70,6 +71,9 @@ export abstract class CacheStrategy {
 						if ("text" in block) {
 							return { text: block.text } as unknown as ContentBlock
 						}
+						if (block.type === "tool_use" || block.type === "tool_result") {
+							return convertToBedrockContentBlock(block)
+						}
 						// Handle other content types if needed
 						return { text: "[Unsupported Content]" } as unknown as ContentBlock
 					})
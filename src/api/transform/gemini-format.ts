@@ -1,5 +1,16 @@
 import { Anthropic } from "@anthropic-ai/sdk"
-import { Content, FunctionCallPart, FunctionResponsePart, InlineDataPart, Part, TextPart } from "@google/generative-ai"
+import {
+	Content,
+	FunctionCallPart,
+	FunctionDeclaration,
+	FunctionResponsePart,
+	InlineDataPart,
+	Part,
+	SchemaType,
+	TextPart,
+} from "@google/generative-ai"
+
+import { ApiToolDefinition } from ".."
 
 function convertAnthropicContentToGemini(content: Anthropic.Messages.MessageParam["content"]): Part[] {
 	if (typeof content === "string") {
@@ -81,3 +92,24 @@ export function convertAnthropicMessageToGemini(message: Anthropic.Messages.Mess
 		parts: convertAnthropicContentToGemini(message.content),
 	}
 }
+
+export function convertToGeminiFunctionDeclaration({
+	name,
+	description,
+	parameters,
+}: ApiToolDefinition): FunctionDeclaration {
+	return {
+		name,
+		description,
+		parameters: {
+			type: SchemaType.OBJECT,
+			properties: Object.fromEntries(
+				Object.entries(parameters.properties).map(([key, property]) => [
+					key,
+					{ type: SchemaType.STRING, description: property.description },
+				]),
+			),
+			required: parameters.required,
+		},
+	}
+}
@@ -1,6 +1,8 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import OpenAI from "openai"
 
+import { ApiToolDefinition } from ".."
+
 export function convertToOpenAiMessages(
 	anthropicMessages: Anthropic.Messages.MessageParam[],
 ): OpenAI.Chat.ChatCompletionMessageParam[] {
@@ -144,3 +146,11 @@ export function convertToOpenAiMessages(
 
 	return openAiMessages
 }
+
+export function convertToOpenAiTool({
+	name,
+	description,
+	parameters,
+}: ApiToolDefinition): OpenAI.Chat.ChatCompletionTool {
+	return { type: "function", function: { name, description, parameters } }
+}
@@ -1,5 +1,5 @@
 export type ApiStream = AsyncGenerator<ApiStreamChunk>
-export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamUsageChunk | ApiStreamReasoningChunk
+export type ApiStreamChunk = ApiStreamTextChunk | ApiStreamUsageChunk | ApiStreamReasoningChunk | ApiStreamToolCallChunk
 
 export interface ApiStreamTextChunk {
 	type: "text"
@@ -19,3 +19,16 @@ export interface ApiStreamUsageChunk {
 	cacheReadTokens?: number
 	totalCost?: number // openrouter
 }
+
+/**
+ * A piece of a native tool call. Providers stream the arguments of a call as
+ * JSON fragments; all chunks with the same index belong to the same call and
+ * the id and name are only sent with the first of them.
+ */
+export interface ApiStreamToolCallChunk {
+	type: "tool_call"
+	index: number
+	id?: string
+	name?: string
+	arguments?: string
+}
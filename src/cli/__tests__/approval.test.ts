@@ -0,0 +1,54 @@
+import { ClineMessage } from "../../schemas"
+import { decideAskResponse } from "../approval"
+
+const ask = (ask: ClineMessage["ask"], text?: string): ClineMessage => ({ ts: Date.now(), type: "ask", ask, text })
+const toolAsk = (tool: string, extra: object = {}) => ask("tool", JSON.stringify({ tool, path: "src/a.ts", ...extra }))
+
+describe("decideAskResponse", () => {
+	it("rejects everything that needs approval with the none policy", () => {
+		expect(decideAskResponse("none", toolAsk("readFile"))).toEqual({
+			action: "respond",
+			response: "noButtonClicked",
+		})
+		expect(decideAskResponse("none", ask("command", "ls"))).toMatchObject({ response: "noButtonClicked" })
+	})
+
+	it("approves reads but not edits with the read-only policy", () => {
+		expect(decideAskResponse("read-only", toolAsk("searchFiles"))).toMatchObject({ response: "yesButtonClicked" })
+		expect(decideAskResponse("read-only", toolAsk("appliedDiff"))).toMatchObject({ response: "noButtonClicked" })
+	})
+
+	it("approves edits but not commands with the edit policy", () => {
+		expect(decideAskResponse("edit", toolAsk("newFileCreated"))).toMatchObject({ response: "yesButtonClicked" })
+		expect(decideAskResponse("edit", toolAsk("switchMode"))).toMatchObject({ response: "yesButtonClicked" })
+		expect(decideAskResponse("edit", ask("command", "npm test"))).toMatchObject({ response: "noButtonClicked" })
+		expect(decideAskResponse("edit", ask("use_mcp_server"))).toMatchObject({ response: "noButtonClicked" })
+	})
+
+	it("only approves files outside the workspace with the all policy", () => {
+		const outside = toolAsk("readFile", { isOutsideWorkspace: true })
+
+		expect(decideAskResponse("edit", outside)).toMatchObject({ response: "noButtonClicked" })
+		expect(decideAskResponse("all", outside)).toMatchObject({ response: "yesButtonClicked" })
+		expect(decideAskResponse("all", ask("command", "npm test"))).toMatchObject({ response: "yesButtonClicked" })
+	})
+
+	it("answers follow-up questions", () => {
+		expect(decideAskResponse("none", ask("followup", "Which file?"))).toMatchObject({
+			action: "respond",
+			response: "messageResponse",
+			text: expect.stringContaining("non-interactively"),
+		})
+	})
+
+	it("fails on unrecoverable asks and waits on the others", () => {
+		expect(decideAskResponse("all", ask("api_req_failed", "401 Unauthorized"))).toEqual({
+			action: "fail",
+			reason: "API request failed: 401 Unauthorized",
+		})
+		expect(decideAskResponse("all", ask("mistake_limit_reached"))).toMatchObject({ action: "fail" })
+		expect(decideAskResponse("all", ask("budget_limit_reached"))).toMatchObject({ action: "fail" })
+		expect(decideAskResponse("all", ask("completion_result"))).toEqual({ action: "wait" })
+		expect(decideAskResponse("all", ask("command_output"))).toEqual({ action: "wait" })
+	})
+})
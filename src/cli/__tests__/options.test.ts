@@ -0,0 +1,68 @@
+import * as path from "path"
+
+import { CliUsageError, parseCliArgs } from "../options"
+
+describe("parseCliArgs", () => {
+	const cwd = path.resolve("/projects/app")
+
+	it("applies defaults", () => {
+		expect(parseCliArgs(["fix", "the", "tests"], cwd)).toEqual({
+			prompt: "fix the tests",
+			mode: undefined,
+			profile: undefined,
+			approve: "none",
+			workspace: cwd,
+			socket: undefined,
+			code: "code",
+			timeout: undefined,
+		})
+	})
+
+	it("parses all options", () => {
+		const options = parseCliArgs(
+			[
+				"-m",
+				"architect",
+				"--profile",
+				"ci",
+				"--approve",
+				"edit",
+				"-w",
+				"../lib",
+				"--socket",
+				"/tmp/roo.sock",
+				"--code",
+				"code-insiders",
+				"--timeout",
+				"90",
+				"Plan the release",
+			],
+			cwd,
+		)
+
+		expect(options).toEqual({
+			prompt: "Plan the release",
+			mode: "architect",
+			profile: "ci",
+			approve: "edit",
+			workspace: path.resolve("/projects/lib"),
+			socket: "/tmp/roo.sock",
+			code: "code-insiders",
+			timeout: 90,
+		})
+	})
+
+	it("returns nothing when help is requested", () => {
+		expect(parseCliArgs(["--help"], cwd)).toBeUndefined()
+	})
+
+	it.each([
+		[[], "A prompt is required."],
+		[["--approve", "some", "task"], 'Invalid approval policy "some"'],
+		[["--timeout", "soon", "task"], 'Invalid timeout "soon"'],
+		[["--unknown", "task"], "--unknown"],
+	])("rejects %j", (args, message) => {
+		expect(() => parseCliArgs(args, cwd)).toThrow(CliUsageError)
+		expect(() => parseCliArgs(args, cwd)).toThrow(message)
+	})
+})
@@ -0,0 +1,141 @@
+import EventEmitter from "events"
+
+import { ClineMessage, RooCodeEventName } from "../../schemas"
+import { IpcMessageType, TaskCommandName, TaskEvent } from "../../schemas/ipc"
+import type { IpcClient } from "../../exports/ipc"
+import { ExitCode, RunTaskOptions, runTask } from "../runner"
+
+const usage = {
+	totalTokensIn: 10,
+	totalTokensOut: 20,
+	totalCost: 0.01,
+	contextTokens: 30,
+}
+
+class FakeClient extends EventEmitter {
+	isConnected = true
+	sendCommand = jest.fn()
+
+	taskEvent(data: TaskEvent) {
+		this.emit(IpcMessageType.TaskEvent, data)
+	}
+
+	message(taskId: string, message: ClineMessage) {
+		this.taskEvent({ eventName: RooCodeEventName.Message, payload: [{ taskId, action: "created", message }] })
+	}
+}
+
+describe("runTask", () => {
+	let client: FakeClient
+	let write: jest.Mock
+	let log: jest.Mock
+
+	const run = (options: Partial<RunTaskOptions> = {}) =>
+		runTask({
+			client: client as unknown as IpcClient,
+			prompt: "Write a haiku",
+			approve: "read-only",
+			write,
+			log,
+			...options,
+		})
+
+	beforeEach(() => {
+		jest.useFakeTimers()
+		client = new FakeClient()
+		write = jest.fn()
+		log = jest.fn()
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it("starts the task with the mode and profile and disables auto-approval for this task only", async () => {
+		const result = run({ mode: "ask", profile: "ci" })
+
+		expect(client.sendCommand).toHaveBeenCalledWith({
+			commandName: TaskCommandName.StartNewTask,
+			data: {
+				configuration: { autoApprovalEnabled: false, mode: "ask", currentApiConfigName: "ci" },
+				text: "Write a haiku",
+				newTab: true,
+				restoreConfiguration: true,
+			},
+		})
+
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-1"] })
+		client.taskEvent({ eventName: RooCodeEventName.TaskCompleted, payload: ["task-1", usage] })
+
+		await expect(result).resolves.toBe(ExitCode.Completed)
+	})
+
+	it("writes complete messages as JSON lines and answers asks once", async () => {
+		const result = run()
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-1"] })
+
+		client.message("task-1", { ts: 1, type: "say", say: "text", text: "Let me", partial: true })
+		client.message("task-1", { ts: 1, type: "say", say: "text", text: "Let me look" })
+
+		const readFile: ClineMessage = { ts: 2, type: "ask", ask: "tool", text: JSON.stringify({ tool: "readFile" }) }
+		client.message("task-1", readFile)
+		client.message("task-1", readFile)
+
+		expect(write.mock.calls.map(([line]) => JSON.parse(line).message.ts)).toEqual([1, 2, 2])
+		expect(client.sendCommand).toHaveBeenCalledTimes(2)
+		expect(client.sendCommand).toHaveBeenLastCalledWith({
+			commandName: TaskCommandName.RespondToAsk,
+			data: { taskId: "task-1", response: "yesButtonClicked", text: undefined },
+		})
+
+		client.taskEvent({ eventName: RooCodeEventName.TaskCompleted, payload: ["task-1", usage] })
+		await expect(result).resolves.toBe(ExitCode.Completed)
+	})
+
+	it("ignores the completion of subtasks", async () => {
+		const result = run()
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-1"] })
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-2"] })
+		client.taskEvent({ eventName: RooCodeEventName.TaskCompleted, payload: ["task-2", usage] })
+		client.taskEvent({ eventName: RooCodeEventName.TaskAborted, payload: ["task-1"] })
+
+		await expect(result).resolves.toBe(ExitCode.Failed)
+	})
+
+	it("cancels the task when an ask can't be recovered from", async () => {
+		const result = run()
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-1"] })
+		client.message("task-1", { ts: 3, type: "ask", ask: "api_req_failed", text: "Rate limited" })
+
+		await expect(result).resolves.toBe(ExitCode.Failed)
+		expect(log).toHaveBeenCalledWith("API request failed: Rate limited")
+		expect(client.sendCommand).toHaveBeenLastCalledWith({ commandName: TaskCommandName.CancelTask, data: "task-1" })
+	})
+
+	it("cancels the task when it times out", async () => {
+		const result = run({ timeout: 5 })
+		client.taskEvent({ eventName: RooCodeEventName.TaskStarted, payload: ["task-1"] })
+
+		jest.advanceTimersByTime(5_000)
+
+		await expect(result).resolves.toBe(ExitCode.TimedOut)
+		expect(client.sendCommand).toHaveBeenLastCalledWith({ commandName: TaskCommandName.CancelTask, data: "task-1" })
+	})
+
+	it("fails if the task never starts", async () => {
+		const result = run()
+
+		jest.advanceTimersByTime(60_000)
+
+		await expect(result).resolves.toBe(ExitCode.Failed)
+		expect(log).toHaveBeenCalledWith(expect.stringContaining("didn't start"))
+	})
+
+	it("fails if the connection is lost", async () => {
+		const result = run()
+		client.isConnected = false
+		client.emit(IpcMessageType.Disconnect)
+
+		await expect(result).resolves.toBe(ExitCode.Failed)
+	})
+})
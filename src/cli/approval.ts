@@ -0,0 +1,103 @@
+import type { ClineMessage } from "../schemas"
+import type { TaskAskResponse } from "../schemas/ipc"
+
+export const approvalPolicies = ["none", "read-only", "edit", "all"] as const
+
+export type ApprovalPolicy = (typeof approvalPolicies)[number]
+
+export type AskDecision =
+	| { action: "respond"; response: TaskAskResponse; text?: string }
+	| { action: "wait" }
+	| { action: "fail"; reason: string }
+
+const READ_ONLY_TOOLS = [
+	"readFile",
+	"fetchInstructions",
+	"listFilesTopLevel",
+	"listFilesRecursive",
+	"listCodeDefinitionNames",
+	"searchFiles",
+	"codebaseSearch",
+	"goToDefinition",
+	"findReferences",
+	"getHover",
+	"searchWorkspaceSymbols",
+	"readProcessOutput",
+	"listCodeActions",
+]
+
+const EDIT_TOOLS = [
+	"editedExistingFile",
+	"appliedDiff",
+	"newFileCreated",
+	"renamedSymbol",
+	"appliedCodeAction",
+	"switchMode",
+	"newTask",
+	"finishTask",
+]
+
+const FOLLOWUP_ANSWER =
+	"This task is running non-interactively, so nobody can answer questions. Continue using your best judgement."
+
+const rank = (policy: ApprovalPolicy) => approvalPolicies.indexOf(policy)
+
+const approveIf = (allowed: boolean): AskDecision => ({
+	action: "respond",
+	response: allowed ? "yesButtonClicked" : "noButtonClicked",
+})
+
+const parseTool = (text?: string): { tool?: string; isOutsideWorkspace?: boolean } => {
+	try {
+		return JSON.parse(text ?? "{}")
+	} catch {
+		return {}
+	}
+}
+
+/**
+ * Decides how a headless run answers an ask, given the approval policy.
+ *
+ * Approvals are granted cumulatively: `read-only` allows tools that only read
+ * the workspace, `edit` additionally allows file edits, mode switches and
+ * subtasks, and `all` allows everything, including commands, the browser,
+ * MCP servers and files outside the workspace. Anything not allowed is
+ * rejected so that the model can try something else.
+ */
+export function decideAskResponse(policy: ApprovalPolicy, message: ClineMessage): AskDecision {
+	switch (message.ask) {
+		case "followup":
+			return { action: "respond", response: "messageResponse", text: FOLLOWUP_ANSWER }
+		case "tool": {
+			const { tool, isOutsideWorkspace } = parseTool(message.text)
+
+			if (isOutsideWorkspace) {
+				return approveIf(rank(policy) >= rank("all"))
+			}
+
+			if (tool && READ_ONLY_TOOLS.includes(tool)) {
+				return approveIf(rank(policy) >= rank("read-only"))
+			}
+
+			if (tool && EDIT_TOOLS.includes(tool)) {
+				return approveIf(rank(policy) >= rank("edit"))
+			}
+
+			return approveIf(rank(policy) >= rank("all"))
+		}
+		case "command":
+		case "browser_action_launch":
+		case "use_mcp_server":
+			return approveIf(rank(policy) >= rank("all"))
+		case "api_req_failed":
+			return { action: "fail", reason: `API request failed: ${message.text ?? "unknown error"}` }
+		case "mistake_limit_reached":
+			return { action: "fail", reason: "The model made too many consecutive mistakes." }
+		case "budget_limit_reached":
+			return { action: "fail", reason: "The task reached a budget limit." }
+		default:
+			// `completion_result`, `command_output` and the resume asks don't
+			// block the task on a decision.
+			return { action: "wait" }
+	}
+}
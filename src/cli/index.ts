@@ -0,0 +1,94 @@
+import * as crypto from "crypto"
+import * as os from "os"
+import * as path from "path"
+import { spawn } from "child_process"
+
+import pWaitFor from "p-wait-for"
+
+import { IpcClient } from "../exports/ipc"
+import { TaskCommandName } from "../schemas/ipc"
+
+import { CliOptions, CliUsageError, parseCliArgs, usage } from "./options"
+import { ExitCode, runTask } from "./runner"
+
+const CONNECT_TIMEOUT_MS = 30_000
+
+const log = (message: string) => process.stderr.write(`[roo] ${message}\n`)
+
+/**
+ * Opens a new VS Code window for the workspace with the extension's IPC
+ * server listening on `socketPath`.
+ */
+function launchEditor({ code, workspace }: CliOptions, socketPath: string) {
+	const editor = spawn(code, ["-n", workspace], {
+		env: { ...process.env, ROO_CODE_IPC_SOCKET_PATH: socketPath },
+		detached: true,
+		stdio: "ignore",
+		shell: process.platform === "win32",
+	})
+
+	editor.on("error", (error) => log(`Failed to launch ${code}: ${error.message}`))
+	editor.unref()
+}
+
+async function main(args: string[]): Promise<ExitCode> {
+	let options: CliOptions | undefined
+
+	try {
+		options = parseCliArgs(args)
+	} catch (error) {
+		if (error instanceof CliUsageError) {
+			log(error.message)
+			process.stderr.write(`\n${usage}\n`)
+			return ExitCode.UsageError
+		}
+
+		throw error
+	}
+
+	if (!options) {
+		process.stdout.write(`${usage}\n`)
+		return ExitCode.Completed
+	}
+
+	const socketPath =
+		options.socket ?? path.join(os.tmpdir(), `roo-code-cli-${crypto.randomBytes(4).toString("hex")}.sock`)
+
+	if (!options.socket) {
+		launchEditor(options, socketPath)
+	}
+
+	const client = new IpcClient(socketPath, () => {})
+
+	try {
+		await pWaitFor(() => client.isReady, { interval: 250, timeout: CONNECT_TIMEOUT_MS })
+	} catch {
+		// The extension doesn't run in workspaces that aren't trusted.
+		log(`Unable to connect to ${socketPath}, check that the workspace is trusted in VS Code.`)
+		client.disconnect()
+		return ExitCode.Failed
+	}
+
+	const exitCode = await runTask({
+		...options,
+		client,
+		write: (line) => process.stdout.write(`${line}\n`),
+		log,
+	})
+
+	// Close the window this run opened; a running instance is left alone.
+	if (!options.socket && client.isConnected) {
+		client.sendCommand({ commandName: TaskCommandName.CloseTask, data: "" })
+	}
+
+	client.disconnect()
+	return exitCode
+}
+
+main(process.argv.slice(2)).then(
+	(exitCode) => process.exit(exitCode),
+	(error) => {
+		log(error instanceof Error ? error.message : String(error))
+		process.exit(ExitCode.Failed)
+	},
+)
@@ -0,0 +1,106 @@
+import * as path from "path"
+import { parseArgs } from "util"
+
+import { ApprovalPolicy, approvalPolicies } from "./approval"
+
+export type CliOptions = {
+	prompt: string
+	mode?: string
+	profile?: string
+	approve: ApprovalPolicy
+	workspace: string
+	socket?: string
+	code: string
+	timeout?: number
+}
+
+export class CliUsageError extends Error {}
+
+export const usage = `Usage: roo [options] <prompt>
+
+Runs a Roo Code task and streams its messages to stdout as JSON lines.
+
+Options:
+  -m, --mode <slug>        Mode to run the task in
+  -p, --profile <name>     Provider profile to use
+  -a, --approve <policy>   What to approve without asking: ${approvalPolicies.join(", ")} (default: none)
+  -w, --workspace <path>   Workspace folder to open (default: current directory)
+      --socket <path>      Connect to a running instance listening on this IPC socket
+                           instead of launching VS Code
+      --code <path>        VS Code executable to launch (default: code)
+  -t, --timeout <seconds>  Cancel the task after this many seconds
+  -h, --help               Show this help
+
+Exit codes: 0 when the task finishes with attempt_completion, 1 when it fails
+or is aborted, 2 for invalid arguments and 124 when the timeout is reached.`
+
+/**
+ * Parses the command line arguments of the `roo` CLI.
+ * Returns `undefined` if only the help text was requested.
+ */
+export function parseCliArgs(args: string[], cwd = process.cwd()): CliOptions | undefined {
+	let parsed: ReturnType<typeof parse>
+
+	try {
+		parsed = parse(args)
+	} catch (error) {
+		throw new CliUsageError(error instanceof Error ? error.message : String(error))
+	}
+
+	const { values, positionals } = parsed
+
+	if (values.help) {
+		return undefined
+	}
+
+	const prompt = positionals.join(" ").trim()
+
+	if (!prompt) {
+		throw new CliUsageError("A prompt is required.")
+	}
+
+	const approve = (values.approve ?? "none") as ApprovalPolicy
+
+	if (!approvalPolicies.includes(approve)) {
+		throw new CliUsageError(
+			`Invalid approval policy "${approve}", expected one of: ${approvalPolicies.join(", ")}.`,
+		)
+	}
+
+	let timeout: number | undefined
+
+	if (values.timeout !== undefined) {
+		timeout = Number(values.timeout)
+
+		if (!Number.isFinite(timeout) || timeout <= 0) {
+			throw new CliUsageError(`Invalid timeout "${values.timeout}", expected a positive number of seconds.`)
+		}
+	}
+
+	return {
+		prompt,
+		mode: values.mode,
+		profile: values.profile,
+		approve,
+		workspace: path.resolve(cwd, values.workspace ?? "."),
+		socket: values.socket,
+		code: values.code ?? "code",
+		timeout,
+	}
+}
+
+const parse = (args: string[]) =>
+	parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			mode: { type: "string", short: "m" },
+			profile: { type: "string", short: "p" },
+			approve: { type: "string", short: "a" },
+			workspace: { type: "string", short: "w" },
+			socket: { type: "string" },
+			code: { type: "string" },
+			timeout: { type: "string", short: "t" },
+			help: { type: "boolean", short: "h" },
+		},
+	})
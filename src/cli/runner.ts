@@ -0,0 +1,155 @@
+import { RooCodeEventName, RooCodeSettings } from "../schemas"
+import { IpcMessageType, TaskCommandName, TaskEvent } from "../schemas/ipc"
+import type { IpcClient } from "../exports/ipc"
+
+import { ApprovalPolicy, decideAskResponse } from "./approval"
+
+export enum ExitCode {
+	Completed = 0,
+	Failed = 1,
+	UsageError = 2,
+	TimedOut = 124,
+}
+
+// How long to wait for the extension to start the task before giving up,
+// e.g. because the mode or provider profile doesn't exist.
+const START_TIMEOUT_MS = 60_000
+
+export type RunTaskOptions = {
+	client: IpcClient
+	prompt: string
+	mode?: string
+	profile?: string
+	approve: ApprovalPolicy
+	timeout?: number
+	write: (line: string) => void
+	log: (message: string) => void
+}
+
+/**
+ * Starts a task through the IPC server of a running extension, writes its
+ * messages as JSON lines, answers its asks according to the approval policy
+ * and resolves with the exit code once the task is finished.
+ */
+export function runTask({
+	client,
+	prompt,
+	mode,
+	profile,
+	approve,
+	timeout,
+	write,
+	log,
+}: RunTaskOptions): Promise<ExitCode> {
+	return new Promise((resolve) => {
+		let rootTaskId: string | undefined
+		const answeredAsks = new Set<number>()
+		const timers: NodeJS.Timeout[] = []
+
+		const finish = (exitCode: ExitCode) => {
+			timers.forEach(clearTimeout)
+			client.off(IpcMessageType.TaskEvent, onTaskEvent)
+			client.off(IpcMessageType.Disconnect, onDisconnect)
+
+			if (exitCode !== ExitCode.Completed && rootTaskId && client.isConnected) {
+				client.sendCommand({ commandName: TaskCommandName.CancelTask, data: rootTaskId })
+			}
+
+			resolve(exitCode)
+		}
+
+		const onTaskEvent = ({ eventName, payload }: TaskEvent) => {
+			switch (eventName) {
+				case RooCodeEventName.TaskStarted:
+					rootTaskId ??= payload[0]
+					break
+				case RooCodeEventName.Message: {
+					const [{ taskId, message }] = payload
+
+					if (message.partial) {
+						break
+					}
+
+					write(JSON.stringify(payload[0]))
+
+					if (message.type !== "ask" || answeredAsks.has(message.ts)) {
+						break
+					}
+
+					const decision = decideAskResponse(approve, message)
+
+					if (decision.action === "respond") {
+						answeredAsks.add(message.ts)
+						const { response, text } = decision
+						client.sendCommand({
+							commandName: TaskCommandName.RespondToAsk,
+							data: { taskId, response, text },
+						})
+					} else if (decision.action === "fail") {
+						log(decision.reason)
+						finish(ExitCode.Failed)
+					}
+
+					break
+				}
+				case RooCodeEventName.TaskCompleted:
+					if (payload[0] === rootTaskId) {
+						finish(ExitCode.Completed)
+					}
+
+					break
+				case RooCodeEventName.TaskAborted:
+					if (payload[0] === rootTaskId) {
+						log("The task was aborted.")
+						finish(ExitCode.Failed)
+					}
+
+					break
+			}
+		}
+
+		const onDisconnect = () => {
+			log("Lost the connection to the extension.")
+			finish(ExitCode.Failed)
+		}
+
+		client.on(IpcMessageType.TaskEvent, onTaskEvent)
+		client.on(IpcMessageType.Disconnect, onDisconnect)
+
+		timers.push(
+			setTimeout(() => {
+				if (!rootTaskId) {
+					log("The task didn't start, check that the mode and provider profile exist.")
+					finish(ExitCode.Failed)
+				}
+			}, START_TIMEOUT_MS),
+		)
+
+		if (timeout) {
+			timers.push(
+				setTimeout(() => {
+					log(`The task didn't finish within ${timeout} seconds.`)
+					finish(ExitCode.TimedOut)
+				}, timeout * 1_000),
+			)
+		}
+
+		// Asks are answered by this runner, so the extension mustn't
+		// auto-approve anything on its own. The configuration only applies
+		// to this task, the user's settings are restored once it ends.
+		const configuration: RooCodeSettings = { autoApprovalEnabled: false }
+
+		if (mode) {
+			configuration.mode = mode
+		}
+
+		if (profile) {
+			configuration.currentApiConfigName = profile
+		}
+
+		client.sendCommand({
+			commandName: TaskCommandName.StartNewTask,
+			data: { configuration, text: prompt, newTab: true, restoreConfiguration: true },
+		})
+	})
+}
@@ -12,33 +12,43 @@ import getFolderSize from "get-folder-size"
 import { serializeError } from "serialize-error"
 import * as vscode from "vscode"
 
-import { TokenUsage } from "../schemas"
+import { ModeConfig, TokenUsage } from "../schemas"
 import { ApiHandler, buildApiHandler } from "../api"
 import { ApiStream } from "../api/transform/stream"
 import { DIFF_VIEW_URI_SCHEME, DiffViewProvider } from "../integrations/editor/DiffViewProvider"
 import {
 	CheckpointServiceOptions,
+	MultiRootCheckpointService,
 	RepoPerTaskCheckpointService,
 	RepoPerWorkspaceCheckpointService,
 } from "../services/checkpoints"
-import { findToolName, formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
+import { formatContentBlockToMarkdown } from "../integrations/misc/export-markdown"
 import { fetchInstructionsTool } from "./tools/fetchInstructionsTool"
 import { listFilesTool } from "./tools/listFilesTool"
 import { readFileTool } from "./tools/readFileTool"
-import { ExitCodeDetails } from "../integrations/terminal/TerminalProcess"
+import { ExitCodeDetails, TerminalProcessResultPromise } from "../integrations/terminal/TerminalProcess"
+import { SandboxProcessResultPromise, runInSandbox } from "../integrations/terminal/SandboxProcess"
+import { SandboxConfig, describeSandbox } from "../integrations/terminal/sandbox"
 import { Terminal } from "../integrations/terminal/Terminal"
 import { TerminalRegistry } from "../integrations/terminal/TerminalRegistry"
+import { BackgroundProcessManager, formatProcessStatus } from "../integrations/terminal/BackgroundProcessManager"
 import { UrlContentFetcher } from "../services/browser/UrlContentFetcher"
 import { listFiles } from "../services/glob/list-files"
 import { CheckpointStorage } from "../shared/checkpoints"
+import { DEFAULT_API_FAILOVER_COOLDOWN_SECONDS, DEFAULT_API_FAILOVER_THRESHOLD } from "../shared/apiFailover"
+import { isRepoMapEnabledForMode } from "../shared/repoMap"
+import { DEFAULT_COMMAND_SANDBOX_IMAGE, getCommandSandboxForMode } from "../shared/commandSandbox"
 import { ApiConfiguration } from "../shared/api"
 import { findLastIndex } from "../shared/array"
 import { combineApiRequests } from "../shared/combineApiRequests"
 import { combineCommandSequences } from "../shared/combineCommandSequences"
 import {
+	ClineApiProviderSwitchInfo,
 	ClineApiReqCancelReason,
 	ClineApiReqInfo,
 	ClineAsk,
+	ClineBudgetLimitInfo,
+	ClineContextCondenseInfo,
 	ClineMessage,
 	ClineSay,
 	ToolProgressStatus,
@@ -48,7 +58,7 @@ import { HistoryItem } from "../shared/HistoryItem"
 import { ClineAskResponse } from "../shared/WebviewMessage"
 import { GlobalFileNames } from "../shared/globalFileNames"
 import { defaultModeSlug, getModeBySlug, getFullModeDetails } from "../shared/modes"
-import { EXPERIMENT_IDS, experiments as Experiments, ExperimentId } from "../shared/experiments"
+import { EXPERIMENT_IDS, experimentDefault, experiments as Experiments, ExperimentId } from "../shared/experiments"
 import { calculateApiCostAnthropic } from "../utils/cost"
 import { fileExistsAtPath } from "../utils/fs"
 import { arePathsEqual } from "../utils/path"
@@ -56,9 +66,14 @@ import { parseMentions } from "./mentions"
 import { FileContextTracker } from "./context-tracking/FileContextTracker"
 import { RooIgnoreController } from "./ignore/RooIgnoreController"
 import { AssistantMessageContent, parseAssistantMessage, ToolParamName, ToolUseName } from "./assistant-message"
+import { flattenToolBlocks, formatNativeToolResults, NativeToolCalls } from "./assistant-message/native-tool-calls"
 import { formatResponse } from "./prompts/responses"
 import { SYSTEM_PROMPT } from "./prompts/system"
-import { truncateConversationIfNeeded } from "./sliding-window"
+import { getToolSchemasForMode } from "./prompts/tools"
+import { condenseConversation, getContextWindowUsage, truncateConversationIfNeeded } from "./sliding-window"
+import { ApiFailover, ApiFailoverSwitch, getApiFailoverChain } from "./api-failover"
+import { BudgetGuard, getDailyBudgetUsage } from "./budget"
+import { VerificationCommandResult } from "./verification"
 import { ClineProvider } from "./webview/ClineProvider"
 import { BrowserSession } from "../services/browser/BrowserSession"
 import { formatLanguage } from "../shared/language"
@@ -66,15 +81,24 @@ import { McpHub } from "../services/mcp/McpHub"
 import { DiffStrategy, getDiffStrategy } from "./diff/DiffStrategy"
 import { telemetryService } from "../services/telemetry/TelemetryService"
 import { validateToolUse, isToolAllowedForMode, ToolName } from "./mode-validator"
-import { getWorkspacePath } from "../utils/path"
+import { getOtherWorkspaceRoots, getWorkspacePath, resolveWorkspacePath, toWorkspaceRelativePath } from "../utils/path"
 import { writeToFileTool } from "./tools/writeToFileTool"
 import { applyDiffTool } from "./tools/applyDiffTool"
 import { insertContentTool } from "./tools/insertContentTool"
 import { searchAndReplaceTool } from "./tools/searchAndReplaceTool"
 import { listCodeDefinitionNamesTool } from "./tools/listCodeDefinitionNamesTool"
 import { searchFilesTool } from "./tools/searchFilesTool"
+import { codebaseSearchTool } from "./tools/codebaseSearchTool"
+import {
+	findReferencesTool,
+	getHoverTool,
+	goToDefinitionTool,
+	searchWorkspaceSymbolsTool,
+} from "./tools/languageServerTools"
+import { applyCodeActionTool, renameSymbolTool } from "./tools/refactorTools"
 import { browserActionTool } from "./tools/browserActionTool"
 import { executeCommandTool } from "./tools/executeCommandTool"
+import { readProcessOutputTool, stopProcessTool } from "./tools/processTools"
 import { useMcpToolTool } from "./tools/useMcpToolTool"
 import { accessMcpResourceTool } from "./tools/accessMcpResourceTool"
 import { askFollowupQuestionTool } from "./tools/askFollowupQuestionTool"
@@ -134,6 +158,10 @@ export class Cline extends EventEmitter<ClineEvents> {
 	private fileContextTracker: FileContextTracker
 	private urlContentFetcher: UrlContentFetcher
 	browserSession: BrowserSession
+	processManager: BackgroundProcessManager
+	// Sandboxed commands that are still running, killed with the task.
+	private sandboxProcesses = new Set<SandboxProcessResultPromise>()
+	private repoMap?: Promise<string | undefined>
 	didEditFile: boolean = false
 	customInstructions?: string
 	diffStrategy?: DiffStrategy
@@ -152,18 +180,25 @@ export class Cline extends EventEmitter<ClineEvents> {
 	consecutiveMistakeLimit: number
 	consecutiveMistakeCountForApplyDiff: Map<string, number> = new Map()
 	// Not private since it needs to be accessible by tools.
+	failedVerificationCount: number = 0
+	// Not private since it needs to be accessible by tools.
 	providerRef: WeakRef<ClineProvider>
 	private abort: boolean = false
 	didFinishAbortingStream = false
 	abandoned = false
 	diffViewProvider: DiffViewProvider
 	private lastApiRequestTime?: number
+	private apiFailover = new ApiFailover()
+	private budgetGuard = new BudgetGuard()
 	isInitialized = false
 
 	// checkpoints
 	private enableCheckpoints: boolean
 	private checkpointStorage: CheckpointStorage
-	private checkpointService?: RepoPerTaskCheckpointService | RepoPerWorkspaceCheckpointService
+	private checkpointService?:
+		| RepoPerTaskCheckpointService
+		| RepoPerWorkspaceCheckpointService
+		| MultiRootCheckpointService
 
 	// streaming
 	isWaitingForFirstChunk = false
@@ -221,7 +256,24 @@ export class Cline extends EventEmitter<ClineEvents> {
 		this.fuzzyMatchThreshold = fuzzyMatchThreshold
 		this.consecutiveMistakeLimit = consecutiveMistakeLimit
 		this.providerRef = new WeakRef(provider)
-		this.diffViewProvider = new DiffViewProvider(this.cwd)
+		this.processManager = new BackgroundProcessManager(this.taskId, () => {
+			this.providerRef.deref()?.postStateToWebview()
+		})
+		this.diffViewProvider = new DiffViewProvider(this.cwd, async () => {
+			const {
+				diagnosticsEnabled = true,
+				diagnosticsDelayMs = 2000,
+				diagnosticsIncludeWarnings = false,
+				diagnosticsScope = "workspace",
+			} = (await this.providerRef.deref()?.getState()) ?? {}
+
+			return {
+				enabled: diagnosticsEnabled,
+				delayMs: diagnosticsDelayMs,
+				includeWarnings: diagnosticsIncludeWarnings,
+				scope: diagnosticsScope,
+			}
+		})
 		this.enableCheckpoints = enableCheckpoints
 		this.checkpointStorage = checkpointStorage
 
@@ -272,14 +324,47 @@ export class Cline extends EventEmitter<ClineEvents> {
 	}
 
 	// Add method to update diffStrategy.
-	async updateDiffStrategy(experiments: Partial<Record<ExperimentId, boolean>>) {
+	async updateDiffStrategy(experiments: Partial<Record<ExperimentId, boolean>>, modeConfig?: ModeConfig) {
+		const { id, info } = this.api.getModel()
+
 		this.diffStrategy = getDiffStrategy({
-			model: this.api.getModel().id,
+			model: id,
 			experiments,
 			fuzzyMatchThreshold: this.fuzzyMatchThreshold,
+			modelInfo: info,
+			modeConfig,
 		})
 	}
 
+	// `codebase_search` is only offered while the codebase index is enabled.
+	private isCodebaseSearchEnabled(): boolean {
+		const state = this.providerRef.deref()?.codeIndexManager?.state
+		return state !== undefined && state !== "disabled"
+	}
+
+	// The repository map is only built for the modes it's enabled for. A task
+	// keeps the first map it got, since a new map would change the system
+	// prompt and defeat prompt caching.
+	private async getRepoMap(mode: string): Promise<string | undefined> {
+		const provider = this.providerRef.deref()
+		const state = await provider?.getState()
+
+		if (!state || !isRepoMapEnabledForMode(mode, state)) {
+			return undefined
+		}
+
+		this.repoMap ??= (async () => {
+			try {
+				return await provider?.repoMapManager?.getRepoMap(state.repoMapMaxTokens)
+			} catch (error) {
+				console.error(`Failed to build the repository map: ${error instanceof Error ? error.message : error}`)
+				return undefined
+			}
+		})()
+
+		return this.repoMap
+	}
+
 	// Storing task to disk for history
 
 	private async ensureTaskDirectoryExists(): Promise<string> {
@@ -707,37 +792,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			await this.getSavedApiConversationHistory()
 
 		// v2.0 xml tags refactor caveat: since we don't use tools anymore, we need to replace all tool use blocks with a text block since the API disallows conversations with tool uses and no tool schema
-		const conversationWithoutToolBlocks = existingApiConversationHistory.map((message) => {
-			if (Array.isArray(message.content)) {
-				const newContent = message.content.map((block) => {
-					if (block.type === "tool_use") {
-						// it's important we convert to the new tool schema format so the model doesn't get confused about how to invoke tools
-						const inputAsXml = Object.entries(block.input as Record<string, string>)
-							.map(([key, value]) => `<${key}>\n${value}\n</${key}>`)
-							.join("\n")
-						return {
-							type: "text",
-							text: `<${block.name}>\n${inputAsXml}\n</${block.name}>`,
-						} as Anthropic.Messages.TextBlockParam
-					} else if (block.type === "tool_result") {
-						// Convert block.content to text block array, removing images
-						const contentAsTextBlocks = Array.isArray(block.content)
-							? block.content.filter((item) => item.type === "text")
-							: [{ type: "text", text: block.content }]
-						const textContent = contentAsTextBlocks.map((item) => item.text).join("\n\n")
-						const toolName = findToolName(block.tool_use_id, existingApiConversationHistory)
-						return {
-							type: "text",
-							text: `[${toolName} Result]\n\n${textContent}`,
-						} as Anthropic.Messages.TextBlockParam
-					}
-					return block
-				})
-				return { ...message, content: newContent }
-			}
-			return message
-		})
-		existingApiConversationHistory = conversationWithoutToolBlocks
+		existingApiConversationHistory = flattenToolBlocks(existingApiConversationHistory)
 
 		// FIXME: remove tool use blocks altogether
 
@@ -926,7 +981,10 @@ export class Cline extends EventEmitter<ClineEvents> {
 			this.pauseInterval = undefined
 		}
 
-		// Release any terminals associated with this task.
+		// Stop the background processes and sandboxed commands of this task
+		// and release any other terminals associated with it.
+		this.processManager.dispose()
+		this.sandboxProcesses.forEach((process) => process.kill("SIGKILL"))
 		TerminalRegistry.releaseTerminalsForTask(this.taskId)
 
 		this.urlContentFetcher.closeBrowser()
@@ -936,22 +994,69 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 		// If we're not streaming then `abortStream` (which reverts the diff
 		// view changes) won't be called, so we need to revert the changes here.
-		if (this.isStreaming && this.diffViewProvider.isEditing) {
+		// A multi-file review waits for the user after streaming ended, so its
+		// changes are reverted either way.
+		if (this.diffViewProvider.isEditing && (this.isStreaming || this.diffViewProvider.hasMultiFileReview)) {
 			await this.diffViewProvider.revertChanges()
 		}
 	}
 
 	// Tools
 
-	async executeCommandTool(command: string, customCwd?: string): Promise<[boolean, ToolResponse]> {
-		let workingDir: string
+	/**
+	 * Returns the sandbox that commands run in for the current mode, if any,
+	 * along with the workspace folders that commands can write to
+	 */
+	private async getCommandSandbox(): Promise<{ config: SandboxConfig; workspacePaths: string[] } | undefined> {
+		const state = await this.providerRef.deref()?.getState()
+		const backend = getCommandSandboxForMode(state?.mode ?? defaultModeSlug, state ?? {})
+
+		if (!state || backend === "none") {
+			return undefined
+		}
+
+		return {
+			config: {
+				backend,
+				network: state.commandSandboxNetworkEnabled ?? false,
+				writablePaths: state.commandSandboxWritablePaths ?? [],
+				image: state.commandSandboxImage || DEFAULT_COMMAND_SANDBOX_IMAGE,
+			},
+			workspacePaths: [this.cwd, ...getOtherWorkspaceRoots(this.cwd).map((root) => root.path)],
+		}
+	}
+
+	/**
+	 * Runs a command in the sandbox of the mode and tracks it until it exits,
+	 * so that aborting the task stops it.
+	 */
+	private startSandboxedCommand(
+		command: string,
+		cwd: string,
+		sandbox: { config: SandboxConfig; workspacePaths: string[] },
+	): SandboxProcessResultPromise {
+		const process = runInSandbox(command, { cwd, ...sandbox })
+		this.sandboxProcesses.add(process)
+
+		const untrack = () => this.sandboxProcesses.delete(process)
+		process.once("completed", untrack)
+		process.once("error", untrack)
+
+		return process
+	}
+
+	private resolveCommandCwd(customCwd?: string): string {
 		if (!customCwd) {
-			workingDir = this.cwd
+			return this.cwd
 		} else if (path.isAbsolute(customCwd)) {
-			workingDir = customCwd
+			return customCwd
 		} else {
-			workingDir = path.resolve(this.cwd, customCwd)
+			return resolveWorkspacePath(this.cwd, customCwd)
 		}
+	}
+
+	async executeCommandTool(command: string, customCwd?: string): Promise<[boolean, ToolResponse]> {
+		let workingDir = this.resolveCommandCwd(customCwd)
 
 		// Check if directory exists
 		try {
@@ -960,16 +1065,28 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return [false, `Working directory '${workingDir}' does not exist.`]
 		}
 
-		const terminalInfo = await TerminalRegistry.getOrCreateTerminal(workingDir, !!customCwd, this.taskId)
+		const sandbox = await this.getCommandSandbox()
+		let terminalInfo: Terminal | undefined
+		let process: TerminalProcessResultPromise | SandboxProcessResultPromise
+
+		if (sandbox) {
+			process = this.startSandboxedCommand(command, workingDir, sandbox)
+		} else {
+			terminalInfo = await TerminalRegistry.getOrCreateTerminal(workingDir, !!customCwd, this.taskId)
+
+			// Update the working directory in case the terminal we asked for has
+			// a different working directory so that the model will know where the
+			// command actually executed:
+			workingDir = terminalInfo.getCurrentWorkingDirectory()
 
-		// Update the working directory in case the terminal we asked for has
-		// a different working directory so that the model will know where the
-		// command actually executed:
-		workingDir = terminalInfo.getCurrentWorkingDirectory()
+			terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
+			process = terminalInfo.runCommand(command)
+		}
 
+		// The tool result says where the command ran, so that the model knows
+		// whether it ran in a sandbox.
+		const location = sandbox ? `the ${describeSandbox(sandbox.config)}` : `terminal ${terminalInfo!.id}`
 		const workingDirInfo = workingDir ? ` from '${workingDir.toPosix()}'` : ""
-		terminalInfo.terminal.show() // weird visual bug when creating new terminals (even manually) where there's an empty space at the top.
-		const process = terminalInfo.runCommand(command)
 
 		let userFeedback: { text?: string; images?: string[] } | undefined
 		let didContinue = false
@@ -1031,7 +1148,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return [
 				true,
 				formatResponse.toolResult(
-					`Command is still running in terminal ${terminalInfo.id}${workingDirInfo}.${
+					`Command is still running in ${location}${workingDirInfo}.${
 						result.length > 0 ? `\nHere's the output so far:\n${result}` : ""
 					}\n\nThe user provided the following feedback:\n<feedback>\n${userFeedback.text}\n</feedback>`,
 					userFeedback.images,
@@ -1060,33 +1177,188 @@ export class Cline extends EventEmitter<ClineEvents> {
 			}
 
 			let workingDirInfo: string = workingDir ? ` within working directory '${workingDir.toPosix()}'` : ""
-			const newWorkingDir = terminalInfo.getCurrentWorkingDirectory()
+			const newWorkingDir = terminalInfo?.getCurrentWorkingDirectory() ?? workingDir
 
 			if (newWorkingDir !== workingDir) {
 				workingDirInfo += `\nNOTICE: Your command changed the working directory for this terminal to '${newWorkingDir.toPosix()}' so you MUST adjust future commands accordingly because they will be executed in this directory`
 			}
 
 			const outputInfo = `\nOutput:\n${result}`
-			return [
-				false,
-				`Command executed in terminal ${terminalInfo.id}${workingDirInfo}. ${exitStatus}${outputInfo}`,
-			]
+			return [false, `Command executed in ${location}${workingDirInfo}. ${exitStatus}${outputInfo}`]
 		} else {
 			return [
 				false,
-				`Command is still running in terminal ${terminalInfo.id}${workingDirInfo}.${
+				`Command is still running in ${location}${workingDirInfo}.${
 					result.length > 0 ? `\nHere's the output so far:\n${result}` : ""
-				}\n\nYou will be updated on the terminal status and new output in the future.`,
+				}${
+					sandbox
+						? "\n\nOutput of commands running in a sandbox is not reported after this. Run long-running commands as background processes to read their output later."
+						: "\n\nYou will be updated on the terminal status and new output in the future."
+				}`,
 			]
 		}
 	}
 
+	/**
+	 * Starts a command as a named background process of the task and returns
+	 * its status and the output it printed while starting.
+	 */
+	async startBackgroundProcess(name: string, command: string, customCwd?: string): Promise<ToolResponse> {
+		const workingDir = this.resolveCommandCwd(customCwd)
+
+		try {
+			await fs.access(workingDir)
+		} catch (error) {
+			return formatResponse.toolError(`Working directory '${workingDir}' does not exist.`)
+		}
+
+		const sandbox = await this.getCommandSandbox()
+		const entry = await this.processManager.start({ name, command, cwd: workingDir, sandbox })
+
+		const { terminalOutputLineLimit = 500 } = (await this.providerRef.deref()?.getState()) ?? {}
+		const { lines } = this.processManager.read(entry, { mode: "since_last", lines: terminalOutputLineLimit })
+		const output = lines.map(({ text }) => text).join("\n")
+
+		if (output) {
+			await this.say("command_output", output)
+		}
+
+		const status = formatProcessStatus(entry)
+		const outputInfo = output ? `\nOutput so far:\n${output}` : "\n(No output yet)"
+
+		if (entry.status === "running") {
+			const location = sandbox ? `the ${describeSandbox(sandbox.config)}` : `terminal ${entry.terminal!.id}`
+			return `Started background process "${name}" in ${location} within working directory '${workingDir.toPosix()}', it is ${status}.${outputInfo}\n\nUse read_process_output to check its output later and stop_process to stop it.`
+		}
+
+		return `Background process "${name}" ${status} while starting within working directory '${workingDir.toPosix()}'.${outputInfo}`
+	}
+
+	/**
+	 * Runs one of the project's verification commands in the sandbox of the
+	 * mode, or in the task's terminal if the mode has none. Unlike
+	 * `executeCommandTool`, the output is not streamed to the chat since the
+	 * verification reports its own progress.
+	 */
+	async runVerificationCommand(command: string): Promise<VerificationCommandResult> {
+		const sandbox = await this.getCommandSandbox()
+		let process: TerminalProcessResultPromise | SandboxProcessResultPromise
+
+		if (sandbox) {
+			process = this.startSandboxedCommand(command, this.cwd, sandbox)
+		} else {
+			const terminalInfo = await TerminalRegistry.getOrCreateTerminal(this.cwd, false, this.taskId)
+			terminalInfo.terminal.show()
+			process = terminalInfo.runCommand(command)
+		}
+
+		let output = ""
+		let exitCode: number | undefined
+
+		process.once("completed", (result?: string) => {
+			output = result ?? ""
+		})
+
+		process.once("shell_execution_complete", (details: ExitCodeDetails) => {
+			exitCode = details.exitCode
+		})
+
+		process.once("no_shell_integration", async (message: string) => {
+			await this.say("shell_integration_warning", message)
+		})
+
+		try {
+			await process
+		} catch (error) {
+			// The sandbox could not run the command, which fails the verification.
+			return { exitCode: undefined, output: error instanceof Error ? error.message : String(error) }
+		}
+
+		const { terminalOutputLineLimit = 500 } = (await this.providerRef.deref()?.getState()) ?? {}
+
+		return { exitCode, output: Terminal.compressTerminalOutput(output, terminalOutputLineLimit) }
+	}
+
+	/**
+	 * Summarizes the oldest part of the conversation history once it no longer
+	 * fits in the context window. The summary is generated by the profile
+	 * selected in the context management settings (or the task's own profile
+	 * if none is selected) and is reported to the webview as a
+	 * `condense_context` message.
+	 */
+	private async condenseContextIfNeeded({
+		totalTokens,
+		maxTokens,
+		contextWindow,
+	}: {
+		totalTokens: number
+		maxTokens?: number | null
+		contextWindow: number
+	}) {
+		const provider = this.providerRef.deref()
+		const { condensingApiConfigId, listApiConfigMeta } = (await provider?.getState()) ?? {}
+
+		let condensingApiHandler: ApiHandler = this.api
+
+		if (provider && condensingApiConfigId) {
+			const config = listApiConfigMeta?.find((c) => c.id === condensingApiConfigId)
+
+			if (config?.name) {
+				try {
+					const loadedConfig = await provider.providerSettingsManager.loadConfig(config.name)
+
+					if (loadedConfig.apiProvider) {
+						condensingApiHandler = buildApiHandler(loadedConfig)
+					}
+				} catch (error) {
+					console.error(`[Cline#condenseContextIfNeeded] failed to load profile "${config.name}":`, error)
+				}
+			}
+		}
+
+		const options = {
+			messages: this.apiConversationHistory,
+			totalTokens,
+			maxTokens,
+			contextWindow,
+			apiHandler: this.api,
+			condensingApiHandler,
+		}
+
+		const { effectiveTokens, isExceeded } = await getContextWindowUsage(options)
+
+		if (!isExceeded) {
+			return
+		}
+
+		// Summarizing can take a while, so show a placeholder until it's done.
+		await this.say("condense_context", undefined, undefined, true)
+
+		const { messages, ...condenseInfo } = await condenseConversation(options, effectiveTokens)
+		await this.overwriteApiConversationHistory(messages)
+
+		const info: ClineContextCondenseInfo = condenseInfo
+		await this.say("condense_context", JSON.stringify(info), undefined, false)
+		await provider?.recordBudgetUsage({ cost: info.cost, tokensIn: 0, requests: 0 })
+	}
+
 	async *attemptApiRequest(previousApiReqIndex: number, retryAttempt: number = 0): ApiStream {
 		let mcpHub: McpHub | undefined
 
-		const { apiConfiguration, mcpEnabled, alwaysApproveResubmit, requestDelaySeconds } =
+		const { apiConfiguration, mcpEnabled, alwaysApproveResubmit, requestDelaySeconds, apiFailoverCooldownSeconds } =
 			(await this.providerRef.deref()?.getState()) ?? {}
 
+		// Go back to the primary profile once a fallback profile has been used
+		// for long enough.
+		const restored = this.apiFailover.restorePrimary(
+			this.api,
+			(apiFailoverCooldownSeconds ?? DEFAULT_API_FAILOVER_COOLDOWN_SECONDS) * 1000,
+		)
+
+		if (restored) {
+			await this.switchApiHandler(restored)
+		}
+
 		let rateLimitDelay = 0
 
 		// Only apply rate limiting if this isn't the first request
@@ -1131,8 +1403,22 @@ export class Cline extends EventEmitter<ClineEvents> {
 			enableMcpServerCreation,
 			browserToolEnabled,
 			language,
+			contextManagementStrategy,
 		} = (await this.providerRef.deref()?.getState()) ?? {}
 		const { customModes } = (await this.providerRef.deref()?.getState()) ?? {}
+		const codebaseSearchEnabled = this.isCodebaseSearchEnabled()
+		const repoMap = await this.getRepoMap(mode ?? defaultModeSlug)
+
+		// The mode may have changed since the last request, and modes can
+		// require a different diff format.
+		this.updateDiffStrategy(experiments ?? {}, getModeBySlug(mode ?? defaultModeSlug, customModes))
+
+		const supportsComputerUse =
+			(this.api.getModel().info.supportsComputerUse ?? false) && (browserToolEnabled ?? true)
+		const nativeTools =
+			Experiments.isEnabled(experiments ?? experimentDefault, EXPERIMENT_IDS.NATIVE_TOOL_CALLING) &&
+			(this.api.supportsNativeTools?.() ?? false)
+
 		const systemPrompt = await (async () => {
 			const provider = this.providerRef.deref()
 			if (!provider) {
@@ -1141,7 +1427,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return SYSTEM_PROMPT(
 				provider.context,
 				this.cwd,
-				(this.api.getModel().info.supportsComputerUse ?? false) && (browserToolEnabled ?? true),
+				supportsComputerUse,
 				mcpHub,
 				this.diffStrategy,
 				browserViewportSize,
@@ -1154,6 +1440,9 @@ export class Cline extends EventEmitter<ClineEvents> {
 				enableMcpServerCreation,
 				language,
 				rooIgnoreInstructions,
+				codebaseSearchEnabled,
+				nativeTools,
+				repoMap,
 			)
 		})()
 
@@ -1179,23 +1468,34 @@ export class Cline extends EventEmitter<ClineEvents> {
 				? this.apiConfiguration.modelMaxTokens || DEFAULT_THINKING_MODEL_MAX_TOKENS
 				: modelInfo.maxTokens
 			const contextWindow = modelInfo.contextWindow
-			const trimmedMessages = await truncateConversationIfNeeded({
-				messages: this.apiConversationHistory,
-				totalTokens,
-				maxTokens,
-				contextWindow,
-				apiHandler: this.api,
-			})
 
-			if (trimmedMessages !== this.apiConversationHistory) {
-				await this.overwriteApiConversationHistory(trimmedMessages)
+			if (contextManagementStrategy === "condense") {
+				await this.condenseContextIfNeeded({ totalTokens, maxTokens, contextWindow })
+			} else {
+				const trimmedMessages = await truncateConversationIfNeeded({
+					messages: this.apiConversationHistory,
+					totalTokens,
+					maxTokens,
+					contextWindow,
+					apiHandler: this.api,
+				})
+
+				if (trimmedMessages !== this.apiConversationHistory) {
+					await this.overwriteApiConversationHistory(trimmedMessages)
+				}
 			}
 		}
 
 		// Clean conversation history by:
 		// 1. Converting to Anthropic.MessageParam by spreading only the API-required properties
 		// 2. Converting image blocks to text descriptions if model doesn't support images
-		const cleanConversationHistory = this.apiConversationHistory.map(({ role, content }) => {
+		// Tool use blocks can only be sent along with the tool definitions, so
+		// they are converted to text when the request doesn't use native tools.
+		const conversationHistory = nativeTools
+			? this.apiConversationHistory
+			: flattenToolBlocks(this.apiConversationHistory)
+
+		const cleanConversationHistory = conversationHistory.map(({ role, content }) => {
 			// Handle array content (could contain image blocks)
 			if (Array.isArray(content)) {
 				if (!this.api.getModel().info.supportsImages) {
@@ -1217,16 +1517,38 @@ export class Cline extends EventEmitter<ClineEvents> {
 			return { role, content }
 		})
 
-		const stream = this.api.createMessage(systemPrompt, cleanConversationHistory)
+		const tools = nativeTools
+			? getToolSchemasForMode(
+					mode ?? defaultModeSlug,
+					this.cwd,
+					supportsComputerUse,
+					this.diffEnabled ? this.diffStrategy : undefined,
+					browserViewportSize,
+					mcpHub,
+					customModes,
+					experiments,
+					codebaseSearchEnabled,
+				)
+			: undefined
+
+		const stream = this.api.createMessage(systemPrompt, cleanConversationHistory, { tools })
 		const iterator = stream[Symbol.asyncIterator]()
 
 		try {
 			// Awaiting first chunk to see if it will throw an error.
 			this.isWaitingForFirstChunk = true
 			const firstChunk = await iterator.next()
+			this.apiFailover.recordSuccess()
 			yield firstChunk.value
 			this.isWaitingForFirstChunk = false
 		} catch (error) {
+			// If the profile keeps failing and a fallback profile is configured,
+			// retry on the fallback profile right away.
+			if (await this.failOverApiRequest(error)) {
+				yield* this.attemptApiRequest(previousApiReqIndex)
+				return
+			}
+
 			// note that this api_req_failed ask is unique in that we only present this option if the api hasn't streamed any content yet (ie it fails on the first chunk due), as it would allow them to hit a retry button. However if the api failed mid-stream, it could be in any arbitrary state where some tools may have executed, so that error is handled differently and requires cancelling the task entirely.
 			if (alwaysApproveResubmit) {
 				let errorMsg
@@ -1301,6 +1623,84 @@ export class Cline extends EventEmitter<ClineEvents> {
 		yield* iterator
 	}
 
+	/**
+	 * Records a failed API request and switches to the next profile of the
+	 * fallback chain of the current mode or profile once the configured number
+	 * of requests failed. Returns whether the handler was switched.
+	 */
+	private async failOverApiRequest(error: unknown): Promise<boolean> {
+		const provider = this.providerRef.deref()
+
+		if (!provider) {
+			return false
+		}
+
+		const {
+			mode,
+			currentApiConfigName,
+			listApiConfigMeta,
+			apiConfigFallbacks,
+			modeApiConfigFallbacks,
+			apiFailoverThreshold,
+		} = await provider.getState()
+
+		const profileId = listApiConfigMeta?.find((c) => c.name === currentApiConfigName)?.id
+		const chain = getApiFailoverChain({ mode, profileId, apiConfigFallbacks, modeApiConfigFallbacks })
+
+		if (chain.length === 0) {
+			return false
+		}
+
+		const failover = await this.apiFailover.recordFailure(error, {
+			current: { id: profileId, name: currentApiConfigName ?? "default", handler: this.api },
+			chain,
+			threshold: apiFailoverThreshold ?? DEFAULT_API_FAILOVER_THRESHOLD,
+			loadProfile: async (id) => {
+				try {
+					const { name, config } = await provider.providerSettingsManager.getConfigById(id)
+					return config.apiProvider ? { id, name, handler: buildApiHandler(config) } : undefined
+				} catch (error) {
+					console.error(`[Cline#failOverApiRequest] failed to load fallback profile "${id}":`, error)
+					return undefined
+				}
+			},
+		})
+
+		if (!failover) {
+			return false
+		}
+
+		await this.switchApiHandler(failover)
+		return true
+	}
+
+	private async getExceededBudget(): Promise<ClineBudgetLimitInfo | undefined> {
+		const { taskBudget, dailyBudget, budgetUsage } = (await this.providerRef.deref()?.getState()) ?? {}
+		const { totalCost, totalTokensIn } = getApiMetrics(
+			combineApiRequests(combineCommandSequences(this.clineMessages.slice(1))),
+		)
+
+		return this.budgetGuard.getExceededLimit({
+			taskUsage: {
+				cost: totalCost,
+				tokensIn: totalTokensIn,
+				requests: this.clineMessages.filter((m) => m.say === "api_req_started").length,
+			},
+			dailyUsage: getDailyBudgetUsage(budgetUsage),
+			taskBudget,
+			dailyBudget,
+		})
+	}
+
+	// Usage and cost of the following requests are computed with the model of
+	// the new handler.
+	private async switchApiHandler({ handler, from, to, reason }: ApiFailoverSwitch) {
+		this.api = handler
+
+		const info: ClineApiProviderSwitchInfo = { from, to, reason, modelId: handler.getModel().id }
+		await this.say("api_provider_switched", JSON.stringify(info))
+	}
+
 	async presentAssistantMessage() {
 		if (this.abort) {
 			throw new Error(`[Cline#presentAssistantMessage] task ${this.taskId}.${this.instanceId} aborted`)
@@ -1393,10 +1793,25 @@ export class Cline extends EventEmitter<ClineEvents> {
 							return `[${block.name} for '${block.params.path}']`
 						case "search_and_replace":
 							return `[${block.name} for '${block.params.path}']`
+						case "rename_symbol":
+							return `[${block.name} for '${block.params.symbol ?? `${block.params.path}:${block.params.line}`}' to '${block.params.new_name}']`
+						case "apply_code_action":
+							return `[${block.name} for '${block.params.path}'${block.params.action ? `: '${block.params.action}'` : ""}]`
 						case "list_files":
 							return `[${block.name} for '${block.params.path}']`
 						case "list_code_definition_names":
 							return `[${block.name} for '${block.params.path}']`
+						case "codebase_search":
+							return `[${block.name} for '${block.params.query}']`
+						case "go_to_definition":
+						case "find_references":
+						case "get_hover":
+							return `[${block.name} for '${block.params.symbol ?? `${block.params.path}:${block.params.line}`}']`
+						case "search_workspace_symbols":
+							return `[${block.name} for '${block.params.query}']`
+						case "read_process_output":
+						case "stop_process":
+							return `[${block.name} for '${block.params.name}']`
 						case "browser_action":
 							return `[${block.name} for '${block.params.action}']`
 						case "use_mcp_tool":
@@ -1553,6 +1968,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 						customModes ?? [],
 						{
 							apply_diff: this.diffEnabled,
+							codebase_search: this.isCodebaseSearchEnabled(),
 						},
 						block.params,
 					)
@@ -1605,6 +2021,75 @@ export class Cline extends EventEmitter<ClineEvents> {
 					case "search_files":
 						await searchFilesTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
 						break
+					case "codebase_search":
+						await codebaseSearchTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "rename_symbol":
+						await renameSymbolTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
+					case "apply_code_action":
+						await applyCodeActionTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "go_to_definition":
+						await goToDefinitionTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "find_references":
+						await findReferencesTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "get_hover":
+						await getHoverTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
+					case "search_workspace_symbols":
+						await searchWorkspaceSymbolsTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "read_process_output":
+						await readProcessOutputTool(
+							this,
+							block,
+							askApproval,
+							handleError,
+							pushToolResult,
+							removeClosingTag,
+						)
+						break
+					case "stop_process":
+						await stopProcessTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
+						break
 					case "browser_action":
 						await browserActionTool(this, block, askApproval, handleError, pushToolResult, removeClosingTag)
 						break
@@ -1747,6 +2232,28 @@ export class Cline extends EventEmitter<ClineEvents> {
 			this.consecutiveMistakeCount = 0
 		}
 
+		// Pause the task once it, or all tasks of the last 24 hours together,
+		// reached a budget limit.
+		let exceededBudget: ClineBudgetLimitInfo | undefined
+
+		while ((exceededBudget = await this.getExceededBudget())) {
+			const { response, text, images } = await this.ask("budget_limit_reached", JSON.stringify(exceededBudget))
+
+			if (response === "messageResponse") {
+				userContent.push(
+					...[
+						{
+							type: "text",
+							text: formatResponse.budgetLimitReached(text),
+						} as Anthropic.Messages.TextBlockParam,
+						...formatResponse.imageBlocks(images),
+					],
+				)
+			}
+
+			this.budgetGuard.continuePast(exceededBudget)
+		}
+
 		// Get previous api req's index to check token usage and determine if we
 		// need to truncate conversation history.
 		const previousApiReqIndex = findLastIndex(this.clineMessages, (m) => m.say === "api_req_started")
@@ -1813,6 +2320,16 @@ export class Cline extends EventEmitter<ClineEvents> {
 			// update api_req_started. we can't use api_req_finished anymore since it's a unique case where it could come after a streaming message (ie in the middle of being updated or executed)
 			// fortunately api_req_finished was always parsed out for the gui anyways, so it remains solely for legacy purposes to keep track of prices in tasks from history
 			// (it's worth removing a few months from now)
+			const getApiReqCost = () =>
+				totalCost ??
+				calculateApiCostAnthropic(
+					this.api.getModel().info,
+					inputTokens,
+					outputTokens,
+					cacheWriteTokens,
+					cacheReadTokens,
+				)
+
 			const updateApiReqMsg = (cancelReason?: ClineApiReqCancelReason, streamingFailedMessage?: string) => {
 				this.clineMessages[lastApiReqIndex].text = JSON.stringify({
 					...JSON.parse(this.clineMessages[lastApiReqIndex].text || "{}"),
@@ -1820,20 +2337,17 @@ export class Cline extends EventEmitter<ClineEvents> {
 					tokensOut: outputTokens,
 					cacheWrites: cacheWriteTokens,
 					cacheReads: cacheReadTokens,
-					cost:
-						totalCost ??
-						calculateApiCostAnthropic(
-							this.api.getModel().info,
-							inputTokens,
-							outputTokens,
-							cacheWriteTokens,
-							cacheReadTokens,
-						),
+					cost: getApiReqCost(),
 					cancelReason,
 					streamingFailedMessage,
 				} satisfies ClineApiReqInfo)
 			}
 
+			const recordBudgetUsage = () =>
+				this.providerRef
+					.deref()
+					?.recordBudgetUsage({ cost: getApiReqCost(), tokensIn: inputTokens, requests: 1 })
+
 			const abortStream = async (cancelReason: ClineApiReqCancelReason, streamingFailedMessage?: string) => {
 				if (this.diffViewProvider.isEditing) {
 					await this.diffViewProvider.revertChanges() // closes diff view
@@ -1870,6 +2384,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 				// update api_req_started to have cancelled and cost, so that we can display the cost of the partial stream
 				updateApiReqMsg(cancelReason, streamingFailedMessage)
 				await this.saveClineMessages()
+				await recordBudgetUsage()
 
 				// signals to provider that it can retrieve the saved messages from disk, as abortTask can not be awaited on in nature
 				this.didFinishAbortingStream = true
@@ -1893,6 +2408,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			const stream = this.attemptApiRequest(previousApiReqIndex)
 			let assistantMessage = ""
 			let reasoningMessage = ""
+			const nativeToolCalls = new NativeToolCalls()
 			this.isStreaming = true
 
 			try {
@@ -1925,6 +2441,10 @@ export class Cline extends EventEmitter<ClineEvents> {
 							// present content to user
 							this.presentAssistantMessage()
 							break
+						case "tool_call":
+							// Native tool calls are presented once their arguments are complete.
+							nativeToolCalls.add(chunk)
+							break
 					}
 
 					if (this.abort) {
@@ -1981,6 +2501,12 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 			this.didCompleteReadingStream = true
 
+			const nativeToolUses = nativeToolCalls.getToolUses()
+			if (nativeToolUses.length > 0) {
+				this.assistantMessageContent.push(...nativeToolUses)
+				this.userMessageContentReady = false
+			}
+
 			// set any blocks to be complete to allow presentAssistantMessage to finish and set userMessageContentReady to true
 			// (could be a text block that had no subsequent tool uses, or a text block at the very end, or an invalid tool use, etc. whatever the case, presentAssistantMessage relies on these blocks either to be completed or the user to reject a block in order to proceed and eventually set userMessageContentReady to true)
 			const partialBlocks = this.assistantMessageContent.filter((block) => block.partial)
@@ -1988,21 +2514,26 @@ export class Cline extends EventEmitter<ClineEvents> {
 				block.partial = false
 			})
 			// this.assistantMessageContent.forEach((e) => (e.partial = false)) // cant just do this bc a tool could be in the middle of executing ()
-			if (partialBlocks.length > 0) {
+			if (partialBlocks.length > 0 || nativeToolUses.length > 0) {
 				this.presentAssistantMessage() // if there is content to update then it will complete and update this.userMessageContentReady to true, which we pwaitfor before making the next request. all this is really doing is presenting the last partial message that we just set to complete
 			}
 
 			updateApiReqMsg()
 			await this.saveClineMessages()
+			await recordBudgetUsage()
 			await this.providerRef.deref()?.postStateToWebview()
 
 			// now add to apiconversationhistory
 			// need to save assistant responses to file before proceeding to tool use since user can exit at any moment and we wouldn't be able to save the assistant's response
 			let didEndLoop = false
-			if (assistantMessage.length > 0) {
+			const toolUseBlocks = nativeToolCalls.getToolUseBlocks()
+			if (assistantMessage.length > 0 || toolUseBlocks.length > 0) {
 				await this.addToApiConversationHistory({
 					role: "assistant",
-					content: [{ type: "text", text: assistantMessage }],
+					content: [
+						...(assistantMessage.length > 0 ? [{ type: "text" as const, text: assistantMessage }] : []),
+						...toolUseBlocks,
+					],
 				})
 				telemetryService.captureConversationMessage(this.taskId, "assistant")
 
@@ -2026,7 +2557,12 @@ export class Cline extends EventEmitter<ClineEvents> {
 					this.consecutiveMistakeCount++
 				}
 
-				const recDidEndLoop = await this.recursivelyMakeClineRequests(this.userMessageContent)
+				// Every native tool call has to be answered with a tool result.
+				const recDidEndLoop = await this.recursivelyMakeClineRequests(
+					toolUseBlocks.length > 0
+						? formatNativeToolResults(toolUseBlocks, this.userMessageContent)
+						: this.userMessageContent,
+				)
 				didEndLoop = recDidEndLoop
 			} else {
 				// if there's no assistant_responses, that means we got no text or tool_use content blocks from API which we should assume is an error
@@ -2128,7 +2664,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		const visibleFilePaths = vscode.window.visibleTextEditors
 			?.map((editor) => editor.document?.uri?.fsPath)
 			.filter(Boolean)
-			.map((absolutePath) => path.relative(this.cwd, absolutePath))
+			.map((absolutePath) => toWorkspaceRelativePath(absolutePath, this.cwd))
 			.slice(0, maxWorkspaceFiles)
 
 		// Filter paths through rooIgnoreController
@@ -2149,7 +2685,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 			.flatMap((group) => group.tabs)
 			.map((tab) => (tab.input as vscode.TabInputText)?.uri?.fsPath)
 			.filter(Boolean)
-			.map((absolutePath) => path.relative(this.cwd, absolutePath).toPosix())
+			.map((absolutePath) => toWorkspaceRelativePath(absolutePath, this.cwd))
 			.slice(0, maxTabs)
 
 		// Filter paths through rooIgnoreController
@@ -2279,6 +2815,19 @@ export class Cline extends EventEmitter<ClineEvents> {
 			details += terminalDetails
 		}
 
+		const backgroundProcesses = this.processManager.list()
+
+		if (backgroundProcesses.length > 0) {
+			details += "\n\n# Background Processes"
+
+			for (const process of backgroundProcesses) {
+				const unread = process.unreadLines > 0 ? `, ${process.unreadLines} unread lines` : ""
+				details += `\n- ${process.name}: \`${process.command}\` (${formatProcessStatus(process)}${unread})`
+			}
+
+			details += "\n(Use read_process_output to see their output and stop_process to stop them.)"
+		}
+
 		// Add current time information with timezone
 		const now = new Date()
 		const formatter = new Intl.DateTimeFormat(undefined, {
@@ -2342,6 +2891,18 @@ export class Cline extends EventEmitter<ClineEvents> {
 			details += `\n\nNOTE: You are currently in '${currentModeName}' mode, which does not allow write operations. To write files, the user will need to switch to a mode that supports file writing, such as '${defaultModeName}' mode.`
 		}
 
+		// In a multi-root workspace the files of the other roots are referred
+		// to with root-qualified paths.
+		const otherRoots = getOtherWorkspaceRoots(this.cwd)
+
+		if (otherRoots.length > 0) {
+			details += `\n\n# Workspace Roots\nThis is a multi-root workspace. Paths are relative to the current workspace directory (${this.cwd.toPosix()}) unless they start with the name of another root and a colon, e.g. \`${otherRoots[0].name}:src/index.ts\` for \`src/index.ts\` in the ${otherRoots[0].name} root. Use such root-qualified paths to read, search and edit the files of the other roots.`
+
+			for (const root of otherRoots) {
+				details += `\n- ${root.name}: ${root.path.toPosix()}`
+			}
+		}
+
 		if (includeFileDetails) {
 			details += `\n\n# Current Workspace Directory (${this.cwd.toPosix()}) Files\n`
 			const isDesktop = arePathsEqual(this.cwd, path.join(os.homedir(), "Desktop"))
@@ -2360,6 +2921,18 @@ export class Cline extends EventEmitter<ClineEvents> {
 					showRooIgnoredFiles,
 				)
 				details += result
+
+				for (const root of otherRoots) {
+					const [files, didHitLimit] = await listFiles(root.path, true, maxFiles)
+					details += `\n\n# Workspace Root ${root.name} (${root.path.toPosix()}) Files (prefix these paths with \`${root.name}:\`)\n`
+					details += formatResponse.formatFilesList(
+						root.path,
+						files,
+						didHitLimit,
+						this.rooIgnoreController,
+						showRooIgnoredFiles,
+					)
+				}
 			}
 		}
 
@@ -2418,7 +2991,12 @@ export class Cline extends EventEmitter<ClineEvents> {
 			// 		? RepoPerTaskCheckpointService.create(options)
 			// 		: RepoPerWorkspaceCheckpointService.create(options)
 
-			const service = RepoPerTaskCheckpointService.create(options)
+			// Checkpoints of multi-root workspaces snapshot all roots together.
+			const otherRoots = getOtherWorkspaceRoots(workspaceDir)
+			const service =
+				otherRoots.length > 0
+					? MultiRootCheckpointService.create({ ...options, otherRoots })
+					: RepoPerTaskCheckpointService.create(options)
 
 			service.on("initialize", () => {
 				try {
@@ -2503,7 +3081,7 @@ export class Cline extends EventEmitter<ClineEvents> {
 		ts: number
 		previousCommitHash?: string
 		commitHash: string
-		mode: "full" | "checkpoint"
+		mode: "full" | "checkpoint" | "compare"
 	}) {
 		const service = await this.getInitializedCheckpointService()
 
@@ -2532,7 +3110,11 @@ export class Cline extends EventEmitter<ClineEvents> {
 
 			await vscode.commands.executeCommand(
 				"vscode.changes",
-				mode === "full" ? "Changes since task started" : "Changes since previous checkpoint",
+				mode === "full"
+					? "Changes since task started"
+					: mode === "checkpoint"
+						? "Changes since previous checkpoint"
+						: "Changes between checkpoints",
 				changes.map((change) => [
 					vscode.Uri.file(change.paths.absolute),
 					vscode.Uri.parse(`${DIFF_VIEW_URI_SCHEME}:${change.paths.relative}`).with({
@@ -2644,6 +3226,33 @@ export class Cline extends EventEmitter<ClineEvents> {
 		}
 	}
 
+	public async checkpointChangedFiles({ commitHash }: { commitHash: string }): Promise<string[]> {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			return []
+		}
+
+		try {
+			return await service.getChangedFiles({ from: commitHash })
+		} catch (err) {
+			this.providerRef.deref()?.log(`[checkpointChangedFiles] failed to list changed files: ${err}`)
+			return []
+		}
+	}
+
+	public async checkpointRestoreFiles({ commitHash, paths }: { commitHash: string; paths: string[] }) {
+		const service = await this.getInitializedCheckpointService()
+
+		if (!service) {
+			throw new Error("Checkpoints are not available for this task")
+		}
+
+		await service.restoreFiles(commitHash, paths)
+
+		telemetryService.captureCheckpointRestored(this.taskId)
+	}
+
 	// Public accessor for fileContextTracker
 	public getFileContextTracker(): FileContextTracker {
 		return this.fileContextTracker
@@ -319,6 +319,8 @@ describe("Cline", () => {
 				model: "claude-3-5-sonnet-20241022",
 				experiments: {},
 				fuzzyMatchThreshold: 0.9,
+				modelInfo: expect.objectContaining({ contextWindow: expect.any(Number) }),
+				modeConfig: undefined,
 			})
 		})
 
@@ -340,6 +342,8 @@ describe("Cline", () => {
 				model: "claude-3-5-sonnet-20241022",
 				experiments: {},
 				fuzzyMatchThreshold: 1.0,
+				modelInfo: expect.objectContaining({ contextWindow: expect.any(Number) }),
+				modeConfig: undefined,
 			})
 		})
 
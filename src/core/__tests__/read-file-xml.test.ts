@@ -3,6 +3,7 @@ import { countFileLines } from "../../integrations/misc/line-counter"
 import { readLines } from "../../integrations/misc/read-lines"
 import { extractTextFromFile, addLineNumbers } from "../../integrations/misc/extract-text"
 import { parseSourceCodeDefinitionsForFile } from "../../services/tree-sitter"
+import { findSymbolDefinitionsInFile } from "../../services/tree-sitter/symbols"
 import { isBinaryFile } from "isbinaryfile"
 import { ReadFileToolUse } from "../assistant-message"
 import { Cline } from "../Cline"
@@ -33,6 +34,7 @@ const addLineNumbersSpy = jest.requireMock("../../integrations/misc/extract-text
 // Variable to control what content is used by the mock
 let mockInputContent = ""
 jest.mock("../../services/tree-sitter")
+jest.mock("../../services/tree-sitter/symbols")
 jest.mock("isbinaryfile")
 jest.mock("../ignore/RooIgnoreController", () => ({
 	RooIgnoreController: class {
@@ -77,6 +79,9 @@ describe("read_file tool XML output structure", () => {
 	const mockedParseSourceCodeDefinitionsForFile = parseSourceCodeDefinitionsForFile as jest.MockedFunction<
 		typeof parseSourceCodeDefinitionsForFile
 	>
+	const mockedFindSymbolDefinitionsInFile = findSymbolDefinitionsInFile as jest.MockedFunction<
+		typeof findSymbolDefinitionsInFile
+	>
 	const mockedIsBinaryFile = isBinaryFile as jest.MockedFunction<typeof isBinaryFile>
 	const mockedPathResolve = path.resolve as jest.MockedFunction<typeof path.resolve>
 
@@ -412,6 +417,82 @@ describe("read_file tool XML output structure", () => {
 		})
 	})
 
+	describe("Symbol and Multiple Range Tests", () => {
+		it("should read every range of comma-separated start_line and end_line lists", async () => {
+			// Setup
+			mockedReadLines.mockResolvedValueOnce("Line 1\nLine 2\n").mockResolvedValueOnce("Line 4\nLine 5")
+
+			// Execute
+			const result = await executeReadFileTool({ start_line: "1,4", end_line: "2,5" })
+
+			// Verify
+			expect(mockedReadLines).toHaveBeenNthCalledWith(1, absoluteFilePath, 1, 0)
+			expect(mockedReadLines).toHaveBeenNthCalledWith(2, absoluteFilePath, 4, 3)
+			expect(result).toBe(
+				`<file><path>${testFilePath}</path>\n` +
+					`<content lines="1-2">\n1 | Line 1\n2 | Line 2\n</content>\n` +
+					`<content lines="4-5">\n4 | Line 4\n5 | Line 5\n</content>\n</file>`,
+			)
+		})
+
+		it("should return an error when the line lists have different lengths", async () => {
+			// Execute
+			const result = await executeReadFileTool(
+				{ start_line: "1,4", end_line: "2" },
+				{ skipAddLineNumbersCheck: true },
+			)
+
+			// Verify
+			expect(result).toBe(
+				`<file><path>${testFilePath}</path><error>start_line and end_line must list the same number of line numbers</error></file>`,
+			)
+			expect(mockCline.say).toHaveBeenCalledWith("error", expect.stringContaining("Failed to parse line ranges"))
+		})
+
+		it("should read the definitions of a symbol", async () => {
+			// Setup
+			mockedFindSymbolDefinitionsInFile.mockResolvedValue([
+				{ name: "UserService.save", startLine: 1, endLine: 3 },
+			])
+			mockedReadLines.mockResolvedValue("Line 2\nLine 3\nLine 4\n")
+
+			// Execute
+			const result = await executeReadFileTool({ symbol: "UserService.save", start_line: "1", end_line: "1" })
+
+			// Verify
+			expect(mockedFindSymbolDefinitionsInFile).toHaveBeenCalledWith(absoluteFilePath, "UserService.save")
+			expect(mockedReadLines).toHaveBeenCalledWith(absoluteFilePath, 3, 1)
+			expect(result).toBe(
+				`<file><path>${testFilePath}</path>\n<content lines="2-4" symbol="UserService.save">\n2 | Line 2\n3 | Line 3\n4 | Line 4\n</content>\n</file>`,
+			)
+		})
+
+		it("should list the definitions of the file when the symbol is not found", async () => {
+			// Setup
+			mockedFindSymbolDefinitionsInFile.mockResolvedValue([])
+			mockedParseSourceCodeDefinitionsForFile.mockResolvedValue(sourceCodeDef)
+
+			// Execute
+			const result = await executeReadFileTool({ symbol: "missing" }, { skipAddLineNumbersCheck: true })
+
+			// Verify
+			expect(result).toBe(
+				`<file><path>${testFilePath}</path><error>Symbol "missing" not found</error>\n<list_code_definition_names>${sourceCodeDef}</list_code_definition_names>\n</file>`,
+			)
+		})
+
+		it("should return an error for file types without symbol support", async () => {
+			// Setup
+			mockedFindSymbolDefinitionsInFile.mockResolvedValue(undefined)
+
+			// Execute
+			const result = await executeReadFileTool({ symbol: "main" }, { skipAddLineNumbersCheck: true })
+
+			// Verify
+			expect(result).toContain("<error>Reading symbols is not supported for this file type")
+		})
+	})
+
 	describe("Notice and Definition Tags Tests", () => {
 		it("should include notice tag for truncated files", async () => {
 			// Setup
@@ -0,0 +1,149 @@
+import { ApiHandler } from "../../../api"
+import { ApiFailover, ApiProfile, getApiFailoverChain, isFailoverError } from "../index"
+
+const createHandler = (id: string) => ({ getModel: () => ({ id, info: {} }) }) as unknown as ApiHandler
+
+describe("getApiFailoverChain", () => {
+	it("prefers the chain of the mode over the chain of the profile", () => {
+		expect(
+			getApiFailoverChain({
+				mode: "code",
+				profileId: "primary",
+				modeApiConfigFallbacks: { code: ["mode-backup"] },
+				apiConfigFallbacks: { primary: ["profile-backup"] },
+			}),
+		).toEqual(["mode-backup"])
+	})
+
+	it("falls back to the chain of the profile", () => {
+		expect(
+			getApiFailoverChain({
+				mode: "ask",
+				profileId: "primary",
+				modeApiConfigFallbacks: { code: ["mode-backup"], ask: [] },
+				apiConfigFallbacks: { primary: ["profile-backup"] },
+			}),
+		).toEqual(["profile-backup"])
+	})
+
+	it("returns an empty chain when nothing is configured", () => {
+		expect(getApiFailoverChain({ mode: "code", profileId: "primary" })).toEqual([])
+	})
+})
+
+describe("isFailoverError", () => {
+	it.each([
+		[{ status: 429 }, true],
+		[{ status: 500 }, true],
+		[{ status: 503 }, true],
+		[{ $metadata: { httpStatusCode: 502 } }, true],
+		[{ code: "ETIMEDOUT" }, true],
+		[{ name: "APIConnectionTimeoutError", message: "Request timed out." }, true],
+		[new Error("Request timed out"), true],
+		[{ status: 400 }, false],
+		[{ status: 401, message: "Invalid API key" }, false],
+		[new Error("Something went wrong"), false],
+	])("classifies %j", (error, expected) => {
+		expect(isFailoverError(error)).toBe(expected)
+	})
+})
+
+describe("ApiFailover", () => {
+	const primaryHandler = createHandler("primary-model")
+	const primary: ApiProfile = { id: "primary", name: "Primary", handler: primaryHandler }
+	const profiles: Record<string, ApiProfile> = {
+		backup1: { id: "backup1", name: "Backup 1", handler: createHandler("backup1-model") },
+		backup2: { id: "backup2", name: "Backup 2", handler: createHandler("backup2-model") },
+	}
+	const loadProfile = jest.fn(async (id: string) => profiles[id])
+	const rateLimited = { status: 429 }
+
+	let failover: ApiFailover
+
+	beforeEach(() => {
+		failover = new ApiFailover()
+		loadProfile.mockClear()
+	})
+
+	it("switches to the first fallback once the threshold is reached", async () => {
+		const options = { current: primary, chain: ["backup1", "backup2"], threshold: 2, loadProfile, now: 0 }
+
+		expect(await failover.recordFailure(rateLimited, options)).toBeUndefined()
+
+		const result = await failover.recordFailure(rateLimited, options)
+
+		expect(result).toEqual({
+			handler: profiles.backup1.handler,
+			from: "Primary",
+			to: "Backup 1",
+			reason: "failed",
+		})
+		expect(failover.activeProfile?.name).toBe("Backup 1")
+	})
+
+	it("does not count errors that are not worth failing over", async () => {
+		const options = { current: primary, chain: ["backup1"], threshold: 1, loadProfile }
+
+		expect(await failover.recordFailure({ status: 401 }, options)).toBeUndefined()
+		expect(loadProfile).not.toHaveBeenCalled()
+	})
+
+	it("resets the failure count after a successful request", async () => {
+		const options = { current: primary, chain: ["backup1"], threshold: 2, loadProfile }
+
+		await failover.recordFailure(rateLimited, options)
+		failover.recordSuccess()
+
+		expect(await failover.recordFailure(rateLimited, options)).toBeUndefined()
+	})
+
+	it("moves along the chain and skips profiles that cannot be loaded", async () => {
+		const chain = ["primary", "missing", "backup1", "backup2"]
+
+		const first = await failover.recordFailure(rateLimited, { current: primary, chain, threshold: 1, loadProfile })
+		expect(first?.to).toBe("Backup 1")
+		expect(loadProfile).not.toHaveBeenCalledWith("primary")
+
+		const second = await failover.recordFailure(rateLimited, {
+			current: { ...primary, handler: first!.handler },
+			chain,
+			threshold: 1,
+			loadProfile,
+		})
+		expect(second).toMatchObject({ from: "Backup 1", to: "Backup 2" })
+
+		const third = await failover.recordFailure(rateLimited, {
+			current: { ...primary, handler: second!.handler },
+			chain,
+			threshold: 1,
+			loadProfile,
+		})
+		expect(third).toBeUndefined()
+	})
+
+	it("returns to the primary profile after the cool-down", async () => {
+		const result = await failover.recordFailure(rateLimited, {
+			current: primary,
+			chain: ["backup1"],
+			threshold: 1,
+			loadProfile,
+			now: 1_000,
+		})
+
+		expect(failover.restorePrimary(result!.handler, 60_000, 30_000)).toBeUndefined()
+		expect(failover.restorePrimary(result!.handler, 60_000, 61_000)).toEqual({
+			handler: primaryHandler,
+			from: "Backup 1",
+			to: "Primary",
+			reason: "cooldown",
+		})
+		expect(failover.activeProfile).toBeUndefined()
+	})
+
+	it("forgets the fallback when the handler was replaced from outside", async () => {
+		await failover.recordFailure(rateLimited, { current: primary, chain: ["backup1"], threshold: 1, loadProfile })
+
+		expect(failover.restorePrimary(createHandler("other-model"), 0)).toBeUndefined()
+		expect(failover.activeProfile).toBeUndefined()
+	})
+})
@@ -0,0 +1,205 @@
+import { ApiHandler } from "../../api"
+
+/**
+ * An API profile that requests can be sent to.
+ */
+export interface ApiProfile {
+	id?: string
+	name: string
+	handler: ApiHandler
+}
+
+export interface ApiFailoverSwitch {
+	handler: ApiHandler
+	from: string
+	to: string
+	reason: "failed" | "cooldown"
+}
+
+/**
+ * Returns the ordered fallback profile ids for a request. A fallback chain
+ * configured for the mode takes precedence over the one configured for the
+ * primary profile.
+ */
+export function getApiFailoverChain({
+	mode,
+	profileId,
+	modeApiConfigFallbacks,
+	apiConfigFallbacks,
+}: {
+	mode?: string
+	profileId?: string
+	modeApiConfigFallbacks?: Record<string, string[]>
+	apiConfigFallbacks?: Record<string, string[]>
+}): string[] {
+	const modeChain = mode ? modeApiConfigFallbacks?.[mode] : undefined
+
+	if (modeChain?.length) {
+		return modeChain
+	}
+
+	return (profileId ? apiConfigFallbacks?.[profileId] : undefined) ?? []
+}
+
+const TIMEOUT_ERROR_CODES = ["ETIMEDOUT", "ESOCKETTIMEDOUT", "ECONNABORTED", "ECONNRESET", "UND_ERR_CONNECT_TIMEOUT"]
+
+// The fields in which the SDKs of the providers report HTTP statuses and
+// network errors.
+type ApiErrorLike = {
+	status?: unknown
+	statusCode?: unknown
+	response?: { status?: unknown }
+	$metadata?: { httpStatusCode?: unknown }
+	code?: unknown
+	cause?: { code?: unknown }
+	name?: unknown
+	message?: unknown
+}
+
+/**
+ * Whether an API error is worth retrying on another provider: rate limits
+ * (429), server errors (5xx) and timeouts. Other errors, such as an invalid
+ * API key or a malformed request, are left to the user.
+ */
+export function isFailoverError(error: unknown): boolean {
+	if (typeof error !== "object" || error === null) {
+		return false
+	}
+
+	const apiError = error as ApiErrorLike
+	const status =
+		apiError.status ?? apiError.statusCode ?? apiError.response?.status ?? apiError.$metadata?.httpStatusCode
+
+	if (typeof status === "number") {
+		return status === 429 || (status >= 500 && status < 600)
+	}
+
+	const code = apiError.code ?? apiError.cause?.code
+
+	if (typeof code === "string" && TIMEOUT_ERROR_CODES.includes(code)) {
+		return true
+	}
+
+	if (apiError.name === "TimeoutError" || apiError.name === "APIConnectionTimeoutError") {
+		return true
+	}
+
+	return typeof apiError.message === "string" && /\btimed? ?out\b/i.test(apiError.message)
+}
+
+/**
+ * Tracks failed API requests of a task and decides when to move to the next
+ * profile of its fallback chain and when to go back to the primary profile.
+ */
+export class ApiFailover {
+	private failures = 0
+	private primary?: ApiProfile
+	private active?: ApiProfile & { chainIndex: number; switchedAt: number }
+
+	/**
+	 * The fallback profile requests are currently sent to, if any.
+	 */
+	get activeProfile(): ApiProfile | undefined {
+		return this.active
+	}
+
+	/**
+	 * Called before each request. Returns the primary profile's handler once
+	 * the cool-down has passed.
+	 */
+	restorePrimary(current: ApiHandler, cooldownMs: number, now = Date.now()): ApiFailoverSwitch | undefined {
+		if (!this.active || !this.primary) {
+			return undefined
+		}
+
+		// The handler was replaced from outside (e.g. the user picked another
+		// profile), so there is nothing to go back to.
+		if (current !== this.active.handler) {
+			this.reset()
+			return undefined
+		}
+
+		if (now - this.active.switchedAt < cooldownMs) {
+			return undefined
+		}
+
+		const restored: ApiFailoverSwitch = {
+			handler: this.primary.handler,
+			from: this.active.name,
+			to: this.primary.name,
+			reason: "cooldown",
+		}
+
+		this.reset()
+		return restored
+	}
+
+	recordSuccess() {
+		this.failures = 0
+	}
+
+	/**
+	 * Records a failed request. Once `threshold` consecutive requests failed
+	 * with a retryable error, returns the handler of the next profile in the
+	 * chain that can be loaded.
+	 */
+	async recordFailure(
+		error: unknown,
+		{
+			current,
+			chain,
+			threshold,
+			loadProfile,
+			now = Date.now(),
+		}: {
+			current: ApiProfile
+			chain: string[]
+			threshold: number
+			loadProfile: (id: string) => Promise<ApiProfile | undefined>
+			now?: number
+		},
+	): Promise<ApiFailoverSwitch | undefined> {
+		if (this.active && current.handler !== this.active.handler) {
+			this.reset()
+		}
+
+		if (!isFailoverError(error)) {
+			return undefined
+		}
+
+		this.failures++
+
+		if (this.failures < Math.max(1, threshold)) {
+			return undefined
+		}
+
+		const primary = this.active ? this.primary! : current
+		const from = this.active?.name ?? current.name
+
+		for (let i = this.active ? this.active.chainIndex + 1 : 0; i < chain.length; i++) {
+			if (chain[i] === primary.id) {
+				continue
+			}
+
+			const profile = await loadProfile(chain[i])
+
+			if (!profile) {
+				continue
+			}
+
+			this.primary = primary
+			this.active = { ...profile, chainIndex: i, switchedAt: now }
+			this.failures = 0
+
+			return { handler: profile.handler, from, to: profile.name, reason: "failed" }
+		}
+
+		return undefined
+	}
+
+	private reset() {
+		this.failures = 0
+		this.primary = undefined
+		this.active = undefined
+	}
+}
@@ -0,0 +1,164 @@
+// npx jest src/core/assistant-message/__tests__/native-tool-calls.test.ts
+
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { flattenToolBlocks, formatNativeToolResults, NativeToolCalls } from "../native-tool-calls"
+
+describe("NativeToolCalls", () => {
+	it("joins the streamed arguments of each call", () => {
+		const calls = new NativeToolCalls()
+
+		calls.add({ type: "tool_call", index: 0, id: "call_1", name: "read_file" })
+		calls.add({ type: "tool_call", index: 0, arguments: '{"path":' })
+		calls.add({ type: "tool_call", index: 0, arguments: '"src/app.ts","start_line":10}' })
+
+		expect(calls.getToolUseBlocks()).toEqual([
+			{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "src/app.ts", start_line: 10 } },
+		])
+		expect(calls.getToolUses()).toEqual([
+			{
+				type: "tool_use",
+				name: "read_file",
+				params: { path: "src/app.ts", start_line: "10" },
+				partial: false,
+			},
+		])
+	})
+
+	it("keeps interleaved calls apart", () => {
+		const calls = new NativeToolCalls()
+
+		calls.add({ type: "tool_call", index: 1, id: "a", name: "list_files" })
+		calls.add({ type: "tool_call", index: 2, id: "b", name: "read_file" })
+		calls.add({ type: "tool_call", index: 1, arguments: '{"path":"src"}' })
+		calls.add({ type: "tool_call", index: 2, arguments: '{"path":"a.ts"}' })
+
+		expect(calls.getToolUses().map(({ name, params }) => ({ name, params }))).toEqual([
+			{ name: "list_files", params: { path: "src" } },
+			{ name: "read_file", params: { path: "a.ts" } },
+		])
+	})
+
+	it("serializes structured arguments and drops unknown parameters", () => {
+		const calls = new NativeToolCalls()
+
+		calls.add({
+			type: "tool_call",
+			index: 0,
+			id: "call_1",
+			name: "insert_content",
+			arguments: JSON.stringify({ path: "a.ts", operations: [{ start_line: 1, content: "x" }], foo: "bar" }),
+		})
+
+		expect(calls.getToolUses()[0].params).toEqual({
+			path: "a.ts",
+			operations: '[{"start_line":1,"content":"x"}]',
+		})
+	})
+
+	it("answers malformed arguments with empty parameters", () => {
+		const calls = new NativeToolCalls()
+
+		calls.add({ type: "tool_call", index: 0, id: "call_1", name: "read_file", arguments: '{"path": "a.ts' })
+
+		expect(calls.getToolUseBlocks()[0].input).toEqual({})
+		expect(calls.getToolUses()[0].params).toEqual({})
+	})
+
+	it("leaves calls of unknown tools out of the tool uses", () => {
+		const calls = new NativeToolCalls()
+
+		calls.add({ type: "tool_call", index: 0, id: "call_1", name: "delete_everything", arguments: "{}" })
+
+		expect(calls.getToolUseBlocks()).toHaveLength(1)
+		expect(calls.getToolUses()).toEqual([])
+	})
+})
+
+describe("formatNativeToolResults", () => {
+	const toolUseBlocks: Anthropic.Messages.ToolUseBlockParam[] = [
+		{ type: "tool_use", id: "call_1", name: "read_file", input: { path: "a.ts" } },
+		{ type: "tool_use", id: "call_2", name: "read_file", input: { path: "b.ts" } },
+	]
+
+	it("answers the first call with the user content and skips the others", () => {
+		const results = formatNativeToolResults(toolUseBlocks, [
+			{ type: "text", text: "[read_file for 'a.ts'] Result:" },
+			{ type: "text", text: "1 | const a = 1" },
+		])
+
+		expect(results).toEqual([
+			{
+				type: "tool_result",
+				tool_use_id: "call_1",
+				content: [
+					{ type: "text", text: "[read_file for 'a.ts'] Result:" },
+					{ type: "text", text: "1 | const a = 1" },
+				],
+			},
+			{
+				type: "tool_result",
+				tool_use_id: "call_2",
+				content: [
+					{
+						type: "text",
+						text: "Tool [read_file] was not executed because only one tool may be used per message.",
+					},
+				],
+			},
+		])
+	})
+})
+
+describe("flattenToolBlocks", () => {
+	it("converts tool blocks to the XML tool format", () => {
+		const image: Anthropic.Messages.ImageBlockParam = {
+			type: "image",
+			source: { type: "base64", media_type: "image/png", data: "abc" },
+		}
+
+		const messages = flattenToolBlocks([
+			{ role: "user", content: "Fix the bug" },
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Let me look." },
+					{ type: "tool_use", id: "call_1", name: "browser_action", input: { action: "launch", url: "x" } },
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{
+						type: "tool_result",
+						tool_use_id: "call_1",
+						content: [{ type: "text", text: "Launched" }, image],
+					},
+					{ type: "text", text: "<environment_details />" },
+				],
+			},
+		])
+
+		expect(messages).toEqual([
+			{ role: "user", content: "Fix the bug" },
+			{
+				role: "assistant",
+				content: [
+					{ type: "text", text: "Let me look." },
+					{
+						type: "text",
+						text: "<browser_action>\n<action>\nlaunch\n</action>\n<url>\nx\n</url>\n</browser_action>",
+					},
+				],
+			},
+			{
+				role: "user",
+				content: [
+					{ type: "text", text: "[browser_action Result]\n\nLaunched" },
+					image,
+					{ type: "text", text: "<environment_details />" },
+				],
+			},
+		])
+	})
+})
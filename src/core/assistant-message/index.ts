@@ -15,9 +15,18 @@ export const toolUseNames = [
 	"apply_diff",
 	"insert_content",
 	"search_and_replace",
+	"rename_symbol",
+	"apply_code_action",
 	"search_files",
 	"list_files",
 	"list_code_definition_names",
+	"codebase_search",
+	"go_to_definition",
+	"find_references",
+	"get_hover",
+	"search_workspace_symbols",
+	"read_process_output",
+	"stop_process",
 	"browser_action",
 	"use_mcp_tool",
 	"access_mcp_resource",
@@ -61,6 +70,17 @@ export const toolParamNames = [
 	"follow_up",
 	"task",
 	"size",
+	"files",
+	"query",
+	"symbol",
+	"line",
+	"column",
+	"new_name",
+	"selector",
+	"status",
+	"background",
+	"name",
+	"lines",
 ] as const
 
 export type ToolParamName = (typeof toolParamNames)[number]
@@ -76,12 +96,22 @@ export interface ToolUse {
 export interface ExecuteCommandToolUse extends ToolUse {
 	name: "execute_command"
 	// Pick<Record<ToolParamName, string>, "command"> makes "command" required, but Partial<> makes it optional
-	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd">>
+	params: Partial<Pick<Record<ToolParamName, string>, "command" | "cwd" | "background" | "name">>
+}
+
+export interface ReadProcessOutputToolUse extends ToolUse {
+	name: "read_process_output"
+	params: Partial<Pick<Record<ToolParamName, string>, "name" | "mode" | "lines" | "regex">>
+}
+
+export interface StopProcessToolUse extends ToolUse {
+	name: "stop_process"
+	params: Partial<Pick<Record<ToolParamName, string>, "name">>
 }
 
 export interface ReadFileToolUse extends ToolUse {
 	name: "read_file"
-	params: Partial<Pick<Record<ToolParamName, string>, "path" | "start_line" | "end_line">>
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "start_line" | "end_line" | "symbol">>
 }
 
 export interface FetchInstructionsToolUse extends ToolUse {
@@ -99,6 +129,16 @@ export interface InsertCodeBlockToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "path" | "operations">>
 }
 
+export interface RenameSymbolToolUse extends ToolUse {
+	name: "rename_symbol"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "symbol" | "line" | "column" | "new_name">>
+}
+
+export interface ApplyCodeActionToolUse extends ToolUse {
+	name: "apply_code_action"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "start_line" | "end_line" | "action">>
+}
+
 export interface SearchFilesToolUse extends ToolUse {
 	name: "search_files"
 	params: Partial<Pick<Record<ToolParamName, string>, "path" | "regex" | "file_pattern">>
@@ -114,9 +154,39 @@ export interface ListCodeDefinitionNamesToolUse extends ToolUse {
 	params: Partial<Pick<Record<ToolParamName, string>, "path">>
 }
 
+export interface CodebaseSearchToolUse extends ToolUse {
+	name: "codebase_search"
+	params: Partial<Pick<Record<ToolParamName, string>, "query" | "path">>
+}
+
+export interface GoToDefinitionToolUse extends ToolUse {
+	name: "go_to_definition"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "symbol" | "line" | "column">>
+}
+
+export interface FindReferencesToolUse extends ToolUse {
+	name: "find_references"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "symbol" | "line" | "column">>
+}
+
+export interface GetHoverToolUse extends ToolUse {
+	name: "get_hover"
+	params: Partial<Pick<Record<ToolParamName, string>, "path" | "symbol" | "line" | "column">>
+}
+
+export interface SearchWorkspaceSymbolsToolUse extends ToolUse {
+	name: "search_workspace_symbols"
+	params: Partial<Pick<Record<ToolParamName, string>, "query">>
+}
+
 export interface BrowserActionToolUse extends ToolUse {
 	name: "browser_action"
-	params: Partial<Pick<Record<ToolParamName, string>, "action" | "url" | "coordinate" | "text" | "size">>
+	params: Partial<
+		Pick<
+			Record<ToolParamName, string>,
+			"action" | "url" | "coordinate" | "selector" | "text" | "size" | "path" | "status"
+		>
+	>
 }
 
 export interface UseMcpToolToolUse extends ToolUse {
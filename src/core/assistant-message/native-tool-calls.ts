@@ -0,0 +1,163 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { ApiStreamToolCallChunk } from "../../api/transform/stream"
+import { ToolParamName, ToolUse, ToolUseName, toolParamNames, toolUseNames } from "."
+
+type UserContent = Array<Anthropic.Messages.ContentBlockParam>
+
+interface NativeToolCall {
+	id: string
+	name: string
+	arguments: string
+}
+
+/**
+ * Collects the streamed `tool_call` chunks of a response and turns them into
+ * the same `ToolUse` blocks that are parsed from XML tool tags, so they can
+ * be presented and executed the same way.
+ */
+export class NativeToolCalls {
+	private calls = new Map<number, NativeToolCall>()
+
+	add({ index, id, name, arguments: args }: ApiStreamToolCallChunk) {
+		const call = this.calls.get(index) ?? { id: "", name: "", arguments: "" }
+
+		this.calls.set(index, {
+			id: call.id || id || "",
+			name: call.name || name || "",
+			arguments: call.arguments + (args ?? ""),
+		})
+	}
+
+	get size() {
+		return this.calls.size
+	}
+
+	/**
+	 * The tool calls as `tool_use` blocks for the conversation history.
+	 */
+	getToolUseBlocks(): Anthropic.Messages.ToolUseBlockParam[] {
+		return Array.from(this.calls.values()).map((call, index) => ({
+			type: "tool_use",
+			id: call.id || `${call.name}-${index}`,
+			name: call.name,
+			input: parseToolCallArguments(call.arguments),
+		}))
+	}
+
+	/**
+	 * The tool calls as complete `ToolUse` blocks. Calls of unknown tools are
+	 * left out; their `tool_use` blocks are still answered with a tool result.
+	 */
+	getToolUses(): ToolUse[] {
+		return this.getToolUseBlocks()
+			.filter(({ name }) => toolUseNames.includes(name as ToolUseName))
+			.map(({ name, input }) => ({
+				type: "tool_use",
+				name: name as ToolUseName,
+				params: toToolParams(input as Record<string, unknown>),
+				partial: false,
+			}))
+	}
+}
+
+function parseToolCallArguments(args: string): Record<string, unknown> {
+	try {
+		const input = JSON.parse(args || "{}")
+		return input && typeof input === "object" && !Array.isArray(input) ? input : {}
+	} catch (error) {
+		// Missing parameters are reported back to the model by the tool itself.
+		return {}
+	}
+}
+
+function toToolParams(input: Record<string, unknown>): ToolUse["params"] {
+	const params: ToolUse["params"] = {}
+
+	for (const [key, value] of Object.entries(input)) {
+		if (!toolParamNames.includes(key as ToolParamName) || value === undefined || value === null) {
+			continue
+		}
+
+		params[key as ToolParamName] = typeof value === "string" ? value : JSON.stringify(value)
+	}
+
+	return params
+}
+
+/**
+ * Wraps the results of a response's tool calls into `tool_result` blocks.
+ * Only one tool is executed per message, so the whole user content answers
+ * the first call and the other calls are marked as not executed.
+ */
+export function formatNativeToolResults(
+	toolUseBlocks: Anthropic.Messages.ToolUseBlockParam[],
+	userContent: UserContent,
+): UserContent {
+	const content = userContent.filter(
+		(block): block is Anthropic.Messages.TextBlockParam | Anthropic.Messages.ImageBlockParam =>
+			block.type === "text" || block.type === "image",
+	)
+
+	return toolUseBlocks.map(({ id, name }, index) => ({
+		type: "tool_result",
+		tool_use_id: id,
+		content:
+			index === 0
+				? content
+				: [
+						{
+							type: "text",
+							text: `Tool [${name}] was not executed because only one tool may be used per message.`,
+						},
+					],
+	}))
+}
+
+/**
+ * Replaces `tool_use` and `tool_result` blocks with text blocks in the XML
+ * tool format, for requests that are sent without native tools.
+ */
+export function flattenToolBlocks(messages: Anthropic.Messages.MessageParam[]): Anthropic.Messages.MessageParam[] {
+	const toolNames = new Map<string, string>()
+
+	return messages.map((message) => {
+		if (!Array.isArray(message.content)) {
+			return message
+		}
+
+		const content = message.content.flatMap((block): Anthropic.Messages.ContentBlockParam[] => {
+			if (block.type === "tool_use") {
+				toolNames.set(block.id, block.name)
+
+				const inputAsXml = Object.entries(block.input as Record<string, unknown>)
+					.map(
+						([key, value]) =>
+							`<${key}>\n${typeof value === "string" ? value : JSON.stringify(value)}\n</${key}>`,
+					)
+					.join("\n")
+
+				return [{ type: "text", text: `<${block.name}>\n${inputAsXml}\n</${block.name}>` }]
+			}
+
+			if (block.type === "tool_result") {
+				const items = Array.isArray(block.content) ? block.content : []
+				const textContent = Array.isArray(block.content)
+					? items.flatMap((item) => (item.type === "text" ? [item.text] : [])).join("\n\n")
+					: (block.content ?? "")
+
+				return [
+					{
+						type: "text",
+						text: `[${toolNames.get(block.tool_use_id) ?? "Unknown Tool"} Result]\n\n${textContent}`,
+					},
+					...items.filter((item) => item.type === "image"),
+				]
+			}
+
+			return [block]
+		})
+
+		return { ...message, content }
+	})
+}
@@ -0,0 +1,96 @@
+import { addBudgetUsage, BudgetGuard, getDailyBudgetUsage } from "../index"
+
+const HOUR_MS = 60 * 60 * 1000
+
+describe("addBudgetUsage", () => {
+	it("adds the usage to the bucket of the current hour", () => {
+		const now = 10 * HOUR_MS + 1_000
+		const buckets = addBudgetUsage([], { cost: 0.5, tokensIn: 100, requests: 1 }, now)
+
+		expect(addBudgetUsage(buckets, { cost: 0.25, tokensIn: 50, requests: 1 }, now + 1_000)).toEqual([
+			{ hour: 10, cost: 0.75, tokensIn: 150, requests: 2 },
+		])
+	})
+
+	it("starts a new bucket every hour and drops buckets older than a day", () => {
+		const buckets = [
+			{ hour: 1, cost: 1, tokensIn: 10, requests: 1 },
+			{ hour: 20, cost: 2, tokensIn: 20, requests: 2 },
+		]
+
+		expect(addBudgetUsage(buckets, { cost: 3, tokensIn: 30, requests: 3 }, 25 * HOUR_MS)).toEqual([
+			{ hour: 20, cost: 2, tokensIn: 20, requests: 2 },
+			{ hour: 25, cost: 3, tokensIn: 30, requests: 3 },
+		])
+	})
+})
+
+describe("getDailyBudgetUsage", () => {
+	it("sums the buckets of the last 24 hours", () => {
+		const buckets = [
+			{ hour: 1, cost: 1, tokensIn: 10, requests: 1 },
+			{ hour: 20, cost: 2, tokensIn: 20, requests: 2 },
+			{ hour: 25, cost: 3, tokensIn: 30, requests: 3 },
+		]
+
+		expect(getDailyBudgetUsage(buckets, 25 * HOUR_MS)).toEqual({ cost: 5, tokensIn: 50, requests: 5 })
+	})
+
+	it("returns zero usage without buckets", () => {
+		expect(getDailyBudgetUsage(undefined)).toEqual({ cost: 0, tokensIn: 0, requests: 0 })
+	})
+})
+
+describe("BudgetGuard", () => {
+	const noUsage = { cost: 0, tokensIn: 0, requests: 0 }
+
+	let guard: BudgetGuard
+
+	beforeEach(() => {
+		guard = new BudgetGuard()
+	})
+
+	it("returns nothing without limits", () => {
+		expect(
+			guard.getExceededLimit({ taskUsage: { cost: 100, tokensIn: 1e9, requests: 1e3 }, dailyUsage: noUsage }),
+		).toBeUndefined()
+	})
+
+	it("reports the first task limit that was reached", () => {
+		expect(
+			guard.getExceededLimit({
+				taskUsage: { cost: 1, tokensIn: 5_000, requests: 10 },
+				dailyUsage: noUsage,
+				taskBudget: { maxCost: 2, maxRequests: 10 },
+			}),
+		).toEqual({ scope: "task", metric: "requests", limit: 10, value: 10 })
+	})
+
+	it("reports daily limits", () => {
+		expect(
+			guard.getExceededLimit({
+				taskUsage: noUsage,
+				dailyUsage: { cost: 5.5, tokensIn: 0, requests: 0 },
+				dailyBudget: { maxCost: 5 },
+			}),
+		).toEqual({ scope: "daily", metric: "cost", limit: 5, value: 5.5 })
+	})
+
+	it("ignores limits of zero", () => {
+		expect(
+			guard.getExceededLimit({ taskUsage: noUsage, dailyUsage: noUsage, taskBudget: { maxCost: 0 } }),
+		).toBeUndefined()
+	})
+
+	it("only reaches a limit again after another full limit once continued past it", () => {
+		const taskBudget = { maxRequests: 10 }
+		const check = (requests: number) =>
+			guard.getExceededLimit({ taskUsage: { ...noUsage, requests }, dailyUsage: noUsage, taskBudget })
+
+		guard.continuePast(check(10)!)
+
+		expect(check(11)).toBeUndefined()
+		expect(check(19)).toBeUndefined()
+		expect(check(20)).toEqual({ scope: "task", metric: "requests", limit: 10, value: 20 })
+	})
+})
@@ -0,0 +1,104 @@
+import { BudgetLimits, BudgetUsage } from "../../schemas"
+import { BudgetMetric, BudgetTotals, ClineBudgetLimitInfo } from "../../shared/ExtensionMessage"
+import { BUDGET_LIMIT_KEYS } from "../../shared/budget"
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Daily limits apply to a rolling window of this many hours.
+const BUDGET_WINDOW_HOURS = 24
+
+const getHour = (now: number) => Math.floor(now / HOUR_MS)
+
+/**
+ * Adds the usage of an API request to the hourly buckets and drops the
+ * buckets that are no longer part of the rolling window.
+ */
+export function addBudgetUsage(buckets: BudgetUsage[] = [], usage: BudgetTotals, now = Date.now()): BudgetUsage[] {
+	const hour = getHour(now)
+	const recent = buckets.filter((bucket) => bucket.hour > hour - BUDGET_WINDOW_HOURS)
+	const current = recent.find((bucket) => bucket.hour === hour)
+
+	if (current) {
+		return recent.map((bucket) =>
+			bucket === current
+				? {
+						hour,
+						cost: bucket.cost + usage.cost,
+						tokensIn: bucket.tokensIn + usage.tokensIn,
+						requests: bucket.requests + usage.requests,
+					}
+				: bucket,
+		)
+	}
+
+	return [...recent, { hour, ...usage }]
+}
+
+/**
+ * Sums the usage of the last 24 hours.
+ */
+export function getDailyBudgetUsage(buckets: BudgetUsage[] = [], now = Date.now()): BudgetTotals {
+	const hour = getHour(now)
+
+	return buckets
+		.filter((bucket) => bucket.hour > hour - BUDGET_WINDOW_HOURS)
+		.reduce(
+			(totals, bucket) => ({
+				cost: totals.cost + bucket.cost,
+				tokensIn: totals.tokensIn + bucket.tokensIn,
+				requests: totals.requests + bucket.requests,
+			}),
+			{ cost: 0, tokensIn: 0, requests: 0 },
+		)
+}
+
+const getBudgetKey = ({ scope, metric }: Pick<ClineBudgetLimitInfo, "scope" | "metric">) => `${scope}.${metric}`
+
+/**
+ * Keeps track of the budget limits the user chose to continue past. Once
+ * continued, a limit is only reached again after spending the same amount
+ * once more.
+ */
+export class BudgetGuard {
+	private continuedAt = new Map<string, number>()
+
+	getExceededLimit({
+		taskUsage,
+		dailyUsage,
+		taskBudget,
+		dailyBudget,
+	}: {
+		taskUsage: BudgetTotals
+		dailyUsage: BudgetTotals
+		taskBudget?: BudgetLimits
+		dailyBudget?: BudgetLimits
+	}): ClineBudgetLimitInfo | undefined {
+		const scopes = [
+			{ scope: "task", usage: taskUsage, limits: taskBudget },
+			{ scope: "daily", usage: dailyUsage, limits: dailyBudget },
+		] as const
+
+		for (const { scope, usage, limits } of scopes) {
+			for (const metric of Object.keys(BUDGET_LIMIT_KEYS) as BudgetMetric[]) {
+				const limit = limits?.[BUDGET_LIMIT_KEYS[metric]]
+
+				if (!limit || limit <= 0) {
+					continue
+				}
+
+				const value = usage[metric]
+				const continuedAt = this.continuedAt.get(getBudgetKey({ scope, metric }))
+
+				if (value >= limit && (continuedAt === undefined || value - continuedAt >= limit)) {
+					return { scope, metric, limit, value }
+				}
+			}
+		}
+
+		return undefined
+	}
+
+	continuePast(info: ClineBudgetLimitInfo) {
+		this.continuedAt.set(getBudgetKey(info), info.value)
+	}
+}
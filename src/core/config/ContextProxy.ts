@@ -28,6 +28,7 @@ export const isPassThroughStateKey = (key: string) => PASS_THROUGH_STATE_KEYS.in
 
 const globalSettingsExportSchema = globalSettingsSchema.omit({
 	taskHistory: true,
+	budgetUsage: true,
 	listApiConfigMeta: true,
 	currentApiConfigName: true,
 })
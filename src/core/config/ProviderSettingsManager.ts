@@ -221,6 +221,29 @@ export class ProviderSettingsManager {
 		}
 	}
 
+	/**
+	 * Get a config by ID without making it the current config.
+	 */
+	public async getConfigById(id: string) {
+		try {
+			return await this.lock(async () => {
+				const providerProfiles = await this.load()
+				const providerSettings = Object.entries(providerProfiles.apiConfigs).find(
+					([_, apiConfig]) => apiConfig.id === id,
+				)
+
+				if (!providerSettings) {
+					throw new Error(`Config with ID '${id}' not found`)
+				}
+
+				const [name, apiConfig] = providerSettings
+				return { config: apiConfig, name }
+			})
+		} catch (error) {
+			throw new Error(`Failed to get config by ID: ${error}`)
+		}
+	}
+
 	/**
 	 * Delete a config by name.
 	 */
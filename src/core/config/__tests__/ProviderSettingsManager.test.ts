@@ -439,6 +439,39 @@ describe("ProviderSettingsManager", () => {
 		})
 	})
 
+	describe("GetConfigById", () => {
+		it("should get config without updating current config name", async () => {
+			mockSecrets.get.mockResolvedValue(
+				JSON.stringify({
+					currentApiConfigName: "default",
+					apiConfigs: {
+						default: { apiProvider: "anthropic", id: "default-id" },
+						backup: { apiProvider: "openrouter", id: "backup-id" },
+					},
+				}),
+			)
+			mockSecrets.store.mockClear()
+
+			const result = await providerSettingsManager.getConfigById("backup-id")
+
+			expect(result).toEqual({ name: "backup", config: { apiProvider: "openrouter", id: "backup-id" } })
+			expect(mockSecrets.store).not.toHaveBeenCalled()
+		})
+
+		it("should throw error when config does not exist", async () => {
+			mockSecrets.get.mockResolvedValue(
+				JSON.stringify({
+					currentApiConfigName: "default",
+					apiConfigs: { default: { apiProvider: "anthropic", id: "default-id" } },
+				}),
+			)
+
+			await expect(providerSettingsManager.getConfigById("missing-id")).rejects.toThrow(
+				"Config with ID 'missing-id' not found",
+			)
+		})
+	})
+
 	describe("ResetAllConfigs", () => {
 		it("should delete all stored configs", async () => {
 			// Setup initial config
@@ -0,0 +1,48 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { loadProjectCommandPolicy, PROJECT_COMMAND_POLICY_FILE } from "../projectCommandPolicy"
+
+describe("loadProjectCommandPolicy", () => {
+	let cwd: string
+
+	const writePolicy = async (content: string) => {
+		await fs.mkdir(path.join(cwd, ".roo"), { recursive: true })
+		await fs.writeFile(path.join(cwd, PROJECT_COMMAND_POLICY_FILE), content)
+	}
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "command-policy-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("returns undefined if the project has no policy", async () => {
+		await expect(loadProjectCommandPolicy(cwd)).resolves.toBeUndefined()
+		await expect(loadProjectCommandPolicy("")).resolves.toBeUndefined()
+	})
+
+	it("loads a valid policy", async () => {
+		const policy = { allow: ["npm test"], deny: ["git push*"], modes: { test: { allow: ["npx jest"] } } }
+		await writePolicy(JSON.stringify(policy))
+
+		await expect(loadProjectCommandPolicy(cwd)).resolves.toEqual(policy)
+	})
+
+	it("throws for malformed JSON", async () => {
+		await writePolicy("{ deny: [")
+
+		await expect(loadProjectCommandPolicy(cwd)).rejects.toThrow("Failed to read")
+	})
+
+	it("throws for an invalid policy", async () => {
+		await writePolicy(JSON.stringify({ deny: "git push", denied: [] }))
+
+		await expect(loadProjectCommandPolicy(cwd)).rejects.toThrow(
+			/Invalid .*command-policy\.json: deny: Expected array/,
+		)
+	})
+})
@@ -0,0 +1,48 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { loadProjectVerification, PROJECT_VERIFICATION_FILE } from "../projectVerification"
+
+describe("loadProjectVerification", () => {
+	let cwd: string
+
+	const writeConfig = async (content: string) => {
+		await fs.mkdir(path.join(cwd, ".roo"), { recursive: true })
+		await fs.writeFile(path.join(cwd, PROJECT_VERIFICATION_FILE), content)
+	}
+
+	beforeEach(async () => {
+		cwd = await fs.mkdtemp(path.join(os.tmpdir(), "verification-"))
+	})
+
+	afterEach(async () => {
+		await fs.rm(cwd, { recursive: true, force: true })
+	})
+
+	it("returns undefined if the project has no verification commands", async () => {
+		await expect(loadProjectVerification(cwd)).resolves.toBeUndefined()
+		await expect(loadProjectVerification("")).resolves.toBeUndefined()
+	})
+
+	it("loads a valid configuration", async () => {
+		const config = { commands: ["npm run lint", "npm test"], maxRetries: 2 }
+		await writeConfig(JSON.stringify(config))
+
+		await expect(loadProjectVerification(cwd)).resolves.toEqual(config)
+	})
+
+	it("throws for malformed JSON", async () => {
+		await writeConfig("{ commands: [")
+
+		await expect(loadProjectVerification(cwd)).rejects.toThrow("Failed to read")
+	})
+
+	it("throws for an invalid configuration", async () => {
+		await writeConfig(JSON.stringify({ commands: "npm test", maxRetries: -1 }))
+
+		await expect(loadProjectVerification(cwd)).rejects.toThrow(
+			/Invalid .*verification\.json: commands: Expected array.*maxRetries/,
+		)
+	})
+})
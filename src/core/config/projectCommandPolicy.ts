@@ -0,0 +1,41 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { CommandPolicy, commandPolicySchema } from "../../schemas"
+import { fileExistsAtPath } from "../../utils/fs"
+
+export const PROJECT_COMMAND_POLICY_FILE = path.join(".roo", "command-policy.json")
+
+/**
+ * Loads the command policy that a project shares in
+ * `.roo/command-policy.json`, if there is one.
+ *
+ * Throws if the file is malformed, since ignoring it would silently drop the
+ * commands it denies.
+ */
+export async function loadProjectCommandPolicy(cwd: string): Promise<CommandPolicy | undefined> {
+	const filePath = path.join(cwd, PROJECT_COMMAND_POLICY_FILE)
+
+	if (!cwd || !(await fileExistsAtPath(filePath))) {
+		return undefined
+	}
+
+	let content: unknown
+
+	try {
+		content = JSON.parse(await fs.readFile(filePath, "utf-8"))
+	} catch (error) {
+		throw new Error(
+			`Failed to read ${PROJECT_COMMAND_POLICY_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+	}
+
+	const result = commandPolicySchema.strict().safeParse(content)
+
+	if (!result.success) {
+		const issues = result.error.errors.map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+		throw new Error(`Invalid ${PROJECT_COMMAND_POLICY_FILE}: ${issues.join(", ")}`)
+	}
+
+	return result.data
+}
@@ -0,0 +1,41 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { VerificationConfig, verificationConfigSchema } from "../../schemas"
+import { fileExistsAtPath } from "../../utils/fs"
+
+export const PROJECT_VERIFICATION_FILE = path.join(".roo", "verification.json")
+
+/**
+ * Loads the commands that a project requires to pass before a task is
+ * completed from `.roo/verification.json`, if there is one.
+ *
+ * Throws if the file is malformed, since ignoring it would let unverified
+ * work through.
+ */
+export async function loadProjectVerification(cwd: string): Promise<VerificationConfig | undefined> {
+	const filePath = path.join(cwd, PROJECT_VERIFICATION_FILE)
+
+	if (!cwd || !(await fileExistsAtPath(filePath))) {
+		return undefined
+	}
+
+	let content: unknown
+
+	try {
+		content = JSON.parse(await fs.readFile(filePath, "utf-8"))
+	} catch (error) {
+		throw new Error(
+			`Failed to read ${PROJECT_VERIFICATION_FILE}: ${error instanceof Error ? error.message : String(error)}`,
+		)
+	}
+
+	const result = verificationConfigSchema.strict().safeParse(content)
+
+	if (!result.success) {
+		const issues = result.error.errors.map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`)
+		throw new Error(`Invalid ${PROJECT_VERIFICATION_FILE}: ${issues.join(", ")}`)
+	}
+
+	return result.data
+}
@@ -3,6 +3,7 @@ import * as vscode from "vscode"
 import { getTaskDirectoryPath } from "../../shared/storagePathManager"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { fileExistsAtPath } from "../../utils/fs"
+import { resolveWorkspacePath } from "../../utils/path"
 import fs from "fs/promises"
 import { ContextProxy } from "../config/ContextProxy"
 import type { FileMetadataEntry, RecordSource, TaskMetadata } from "./FileContextTrackerTypes"
@@ -56,7 +57,7 @@ export class FileContextTracker {
 		}
 
 		// Create a file system watcher for this specific file
-		const fileUri = vscode.Uri.file(path.resolve(cwd, filePath))
+		const fileUri = vscode.Uri.file(resolveWorkspacePath(cwd, filePath))
 		const watcher = vscode.workspace.createFileSystemWatcher(
 			new vscode.RelativePattern(path.dirname(fileUri.fsPath), path.basename(fileUri.fsPath)),
 		)
@@ -93,6 +94,25 @@ export class FileContextTracker {
 		}
 	}
 
+	// Tracks the same operation for several files, e.g. all files changed by a batched edit,
+	// with a single metadata update.
+	async trackFileContexts(filePaths: string[], operation: RecordSource) {
+		try {
+			const cwd = this.getCwd()
+			if (!cwd || filePaths.length === 0) {
+				return
+			}
+
+			await this.addFilesToFileContextTracker(this.taskId, filePaths, operation)
+
+			for (const filePath of filePaths) {
+				await this.setupFileWatcher(filePath)
+			}
+		} catch (error) {
+			console.error("Failed to track file operations:", error)
+		}
+	}
+
 	public getContextProxy(): ContextProxy | undefined {
 		const provider = this.providerRef.deref()
 		if (!provider) {
@@ -140,61 +160,73 @@ export class FileContextTracker {
 	// This handles the business logic of determining if the file is new, stale, or active.
 	// It also updates the metadata with the latest read/edit dates.
 	async addFileToFileContextTracker(taskId: string, filePath: string, source: RecordSource) {
+		await this.addFilesToFileContextTracker(taskId, [filePath], source)
+	}
+
+	// Adds several files to the metadata tracker, reading and saving the metadata only once.
+	async addFilesToFileContextTracker(taskId: string, filePaths: string[], source: RecordSource) {
 		try {
 			const metadata = await this.getTaskMetadata(taskId)
 			const now = Date.now()
 
-			// Mark existing entries for this file as stale
-			metadata.files_in_context.forEach((entry) => {
-				if (entry.path === filePath && entry.record_state === "active") {
-					entry.record_state = "stale"
-				}
-			})
+			for (const filePath of filePaths) {
+				this.addMetadataEntry(metadata, filePath, source, now)
+			}
 
-			// Helper to get the latest date for a specific field and file
-			const getLatestDateForField = (path: string, field: keyof FileMetadataEntry): number | null => {
-				const relevantEntries = metadata.files_in_context
-					.filter((entry) => entry.path === path && entry[field])
-					.sort((a, b) => (b[field] as number) - (a[field] as number))
+			await this.saveTaskMetadata(taskId, metadata)
+		} catch (error) {
+			console.error("Failed to add file to metadata:", error)
+		}
+	}
 
-				return relevantEntries.length > 0 ? (relevantEntries[0][field] as number) : null
+	private addMetadataEntry(metadata: TaskMetadata, filePath: string, source: RecordSource, now: number) {
+		// Mark existing entries for this file as stale
+		metadata.files_in_context.forEach((entry) => {
+			if (entry.path === filePath && entry.record_state === "active") {
+				entry.record_state = "stale"
 			}
+		})
 
-			let newEntry: FileMetadataEntry = {
-				path: filePath,
-				record_state: "active",
-				record_source: source,
-				roo_read_date: getLatestDateForField(filePath, "roo_read_date"),
-				roo_edit_date: getLatestDateForField(filePath, "roo_edit_date"),
-				user_edit_date: getLatestDateForField(filePath, "user_edit_date"),
-			}
+		// Helper to get the latest date for a specific field and file
+		const getLatestDateForField = (path: string, field: keyof FileMetadataEntry): number | null => {
+			const relevantEntries = metadata.files_in_context
+				.filter((entry) => entry.path === path && entry[field])
+				.sort((a, b) => (b[field] as number) - (a[field] as number))
 
-			switch (source) {
-				// user_edited: The user has edited the file
-				case "user_edited":
-					newEntry.user_edit_date = now
-					this.recentlyModifiedFiles.add(filePath)
-					break
-
-				// roo_edited: Roo has edited the file
-				case "roo_edited":
-					newEntry.roo_read_date = now
-					newEntry.roo_edit_date = now
-					this.checkpointPossibleFiles.add(filePath)
-					break
-
-				// read_tool/file_mentioned: Roo has read the file via a tool or file mention
-				case "read_tool":
-				case "file_mentioned":
-					newEntry.roo_read_date = now
-					break
-			}
+			return relevantEntries.length > 0 ? (relevantEntries[0][field] as number) : null
+		}
 
-			metadata.files_in_context.push(newEntry)
-			await this.saveTaskMetadata(taskId, metadata)
-		} catch (error) {
-			console.error("Failed to add file to metadata:", error)
+		let newEntry: FileMetadataEntry = {
+			path: filePath,
+			record_state: "active",
+			record_source: source,
+			roo_read_date: getLatestDateForField(filePath, "roo_read_date"),
+			roo_edit_date: getLatestDateForField(filePath, "roo_edit_date"),
+			user_edit_date: getLatestDateForField(filePath, "user_edit_date"),
 		}
+
+		switch (source) {
+			// user_edited: The user has edited the file
+			case "user_edited":
+				newEntry.user_edit_date = now
+				this.recentlyModifiedFiles.add(filePath)
+				break
+
+			// roo_edited: Roo has edited the file
+			case "roo_edited":
+				newEntry.roo_read_date = now
+				newEntry.roo_edit_date = now
+				this.checkpointPossibleFiles.add(filePath)
+				break
+
+			// read_tool/file_mentioned: Roo has read the file via a tool or file mention
+			case "read_tool":
+			case "file_mentioned":
+				newEntry.roo_read_date = now
+				break
+		}
+
+		metadata.files_in_context.push(newEntry)
 	}
 
 	// Returns (and then clears) the set of recently modified files
@@ -1,22 +1,36 @@
 import type { DiffStrategy } from "./types"
 import { MultiSearchReplaceDiffStrategy } from "./strategies/multi-search-replace"
+import { UnifiedDiffStrategy } from "./strategies/unified-diff"
 import { ExperimentId } from "../../shared/experiments"
+import type { DiffStrategyName, ModeConfig, ModelInfo } from "../../schemas"
 
-export type { DiffStrategy }
-
-/**
- * Get the appropriate diff strategy for the given model
- * @param model The name of the model being used (e.g., 'gpt-4', 'claude-3-opus')
- * @returns The appropriate diff strategy for the model
- */
-
-export type DiffStrategyName = "multi-search-and-replace"
+export type { DiffStrategy, DiffStrategyName }
 
 type GetDiffStrategyOptions = {
 	model: string
 	experiments: Partial<Record<ExperimentId, boolean>>
 	fuzzyMatchThreshold?: number
+	modelInfo?: ModelInfo
+	modeConfig?: ModeConfig
 }
 
-export const getDiffStrategy = ({ fuzzyMatchThreshold, experiments }: GetDiffStrategyOptions): DiffStrategy =>
-	new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+/**
+ * Get the appropriate diff strategy for the given model and mode
+ * A strategy configured on the mode takes precedence over the one preferred
+ * by the model; search/replace blocks are used otherwise.
+ * @returns The appropriate diff strategy
+ */
+export const getDiffStrategy = ({
+	fuzzyMatchThreshold,
+	modelInfo,
+	modeConfig,
+}: GetDiffStrategyOptions): DiffStrategy => {
+	const name: DiffStrategyName = modeConfig?.diffStrategy ?? modelInfo?.diffStrategy ?? "multi-search-and-replace"
+
+	switch (name) {
+		case "unified":
+			return new UnifiedDiffStrategy(fuzzyMatchThreshold)
+		case "multi-search-and-replace":
+			return new MultiSearchReplaceDiffStrategy(fuzzyMatchThreshold)
+	}
+}
@@ -0,0 +1,50 @@
+import { parseBatchDiffs } from "../batch"
+import { parseAssistantMessage } from "../../assistant-message"
+
+describe("parseBatchDiffs", () => {
+	it("parses one entry per file", () => {
+		const files = [
+			"<file>",
+			"<path>src/a.ts</path>",
+			"<diff>",
+			"<<<<<<< SEARCH",
+			"const a = 1",
+			"=======",
+			"const a = 2",
+			">>>>>>> REPLACE",
+			"</diff>",
+			"</file>",
+			"<file><path> src/b.ts </path><diff>@@ -1 +1 @@\n-b\n+c</diff></file>",
+		].join("\n")
+
+		expect(parseBatchDiffs(files)).toEqual([
+			{ path: "src/a.ts", diff: "<<<<<<< SEARCH\nconst a = 1\n=======\nconst a = 2\n>>>>>>> REPLACE" },
+			{ path: "src/b.ts", diff: "@@ -1 +1 @@\n-b\n+c" },
+		])
+	})
+
+	it("returns the received part of an entry that is still streaming", () => {
+		const files =
+			"<file><path>src/a.ts</path><diff>@@ -1 +1 @@\n-a\n+b</diff></file>\n<file><path>src/b.ts</path><diff>@@ -1"
+
+		expect(parseBatchDiffs(files)).toEqual([
+			{ path: "src/a.ts", diff: "@@ -1 +1 @@\n-a\n+b" },
+			{ path: "src/b.ts", diff: "@@ -1" },
+		])
+	})
+
+	it("ignores entries without a path", () => {
+		expect(parseBatchDiffs("<file><path></path><diff>-a\n+b</diff></file>")).toEqual([])
+	})
+
+	it("receives the files parameter of apply_diff unparsed", () => {
+		const message =
+			"<apply_diff>\n<files>\n<file><path>src/a.ts</path><diff>-a\n+b</diff></file>\n</files>\n</apply_diff>"
+		const toolUse = parseAssistantMessage(message).find((block) => block.type === "tool_use")
+
+		expect(toolUse).toMatchObject({ name: "apply_diff", partial: false })
+		expect(toolUse?.type === "tool_use" && parseBatchDiffs(toolUse.params.files!)).toEqual([
+			{ path: "src/a.ts", diff: "-a\n+b" },
+		])
+	})
+})
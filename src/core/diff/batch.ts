@@ -0,0 +1,18 @@
+import type { FilePatch } from "./types"
+
+const FILE_ENTRY_REGEX = /<file>\s*<path>([\s\S]*?)<\/path>\s*<diff>([\s\S]*?)(?:<\/diff>\s*<\/file>|$)/g
+
+/**
+ * Parses the `files` parameter of a batched `apply_diff` call:
+ *
+ * <file><path>src/a.ts</path><diff>...</diff></file>
+ * <file><path>src/b.ts</path><diff>...</diff></file>
+ *
+ * While the tool call is still streaming the last entry may be incomplete;
+ * its diff is returned as far as it has been received.
+ */
+export function parseBatchDiffs(files: string): FilePatch[] {
+	return [...files.matchAll(FILE_ENTRY_REGEX)]
+		.map(([, path, diff]) => ({ path: path.trim(), diff: diff.replace(/^\r?\n/, "").trimEnd() }))
+		.filter(({ path }) => path.length > 0)
+}
@@ -0,0 +1,298 @@
+import { UnifiedDiffStrategy, parsePatch } from "../unified-diff"
+import { MultiSearchReplaceDiffStrategy } from "../multi-search-replace"
+import { getDiffStrategy } from "../../DiffStrategy"
+import { ModeConfig, ModelInfo } from "../../../../schemas"
+
+const original = [
+	"function add(a, b) {",
+	"    return a + b",
+	"}",
+	"",
+	"function subtract(a, b) {",
+	"    return a - b",
+	"}",
+	"",
+	"function multiply(a, b) {",
+	"    return a * b",
+	"}",
+].join("\n")
+
+describe("UnifiedDiffStrategy", () => {
+	let strategy: UnifiedDiffStrategy
+
+	beforeEach(() => {
+		strategy = new UnifiedDiffStrategy()
+	})
+
+	describe("parsePatch", () => {
+		it("parses file headers and hunks", () => {
+			const patches = parsePatch(
+				[
+					"diff --git a/src/math.js b/src/math.js",
+					"index 1234567..89abcde 100644",
+					"--- a/src/math.js",
+					"+++ b/src/math.js",
+					"@@ -1,3 +1,3 @@",
+					" function add(a, b) {",
+					"-    return a + b",
+					"+    return b + a",
+					" }",
+					"\\ No newline at end of file",
+				].join("\n"),
+			)
+
+			expect(patches).toEqual([
+				{
+					path: "src/math.js",
+					hunks: [
+						{
+							header: "@@ -1,3 +1,3 @@",
+							oldStart: 1,
+							oldLines: ["function add(a, b) {", "    return a + b", "}"],
+							newLines: ["function add(a, b) {", "    return b + a", "}"],
+						},
+					],
+				},
+			])
+		})
+
+		it("accepts hunks without file headers or line numbers", () => {
+			const patches = parsePatch("@@ ... @@\n-old\n+new\n")
+
+			expect(patches).toHaveLength(1)
+			expect(patches[0].path).toBeUndefined()
+			expect(patches[0].hunks[0]).toMatchObject({ oldStart: undefined, oldLines: ["old"], newLines: ["new"] })
+		})
+
+		it("ignores a surrounding code fence", () => {
+			const patches = parsePatch("```diff\n@@ -1 +1 @@\n-old\n+new\n```")
+			expect(patches[0].hunks[0]).toMatchObject({ oldLines: ["old"], newLines: ["new"] })
+		})
+	})
+
+	describe("applyDiff", () => {
+		it("applies a hunk at the given line", async () => {
+			const diff = [
+				"--- a/math.js",
+				"+++ b/math.js",
+				"@@ -5,3 +5,3 @@",
+				" function subtract(a, b) {",
+				"-    return a - b",
+				"+    return b - a",
+				" }",
+			].join("\n")
+
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content).toBe(original.replace("return a - b", "return b - a"))
+			}
+		})
+
+		it("applies multiple hunks and adjusts for lines added by earlier hunks", async () => {
+			const diff = [
+				"@@ -1,3 +1,4 @@",
+				" function add(a, b) {",
+				"+    // Addition",
+				"     return a + b",
+				" }",
+				"@@ -9,3 +10,3 @@",
+				" function multiply(a, b) {",
+				"-    return a * b",
+				"+    return b * a",
+				" }",
+			].join("\n")
+
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				const lines = result.content.split("\n")
+				expect(lines[1]).toBe("    // Addition")
+				expect(lines[10]).toBe("    return b * a")
+			}
+		})
+
+		it("tolerates drifted line numbers", async () => {
+			const diff = [
+				"@@ -1,3 +1,3 @@",
+				" function multiply(a, b) {",
+				"-    return a * b",
+				"+    return b * a",
+				" }",
+			].join("\n")
+
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content).toBe(original.replace("return a * b", "return b * a"))
+			}
+		})
+
+		it("applies fuzzy matches above the threshold", async () => {
+			strategy = new UnifiedDiffStrategy(0.9)
+			const diff = [
+				"@@ -5,3 +5,3 @@",
+				" function subtract(a, b) {",
+				"-    return a - b;",
+				"+    return b - a",
+				" }",
+			].join("\n")
+
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content).toContain("    return b - a\n}")
+			}
+		})
+
+		it("inserts lines for hunks without context", async () => {
+			const result = await strategy.applyDiff(original, "@@ -3,0 +4,2 @@\n+\n+// Subtraction")
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content.split("\n").slice(2, 6)).toEqual(["}", "", "// Subtraction", ""])
+			}
+		})
+
+		it("reports hunks that can't be applied while applying the others", async () => {
+			const diff = [
+				"@@ -1,3 +1,3 @@",
+				" function add(a, b) {",
+				"-    return a + b",
+				"+    return b + a",
+				" }",
+				"@@ -5,3 +5,3 @@",
+				" function divide(a, b) {",
+				"-    return a / b",
+				"+    return b / a",
+				" }",
+			].join("\n")
+
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content).toContain("return b + a")
+				expect(result.failParts).toHaveLength(1)
+				expect(result.failParts![0]).toMatchObject({ success: false })
+				expect((result.failParts![0] as { error: string }).error).toContain("@@ -5,3 +5,3 @@")
+			}
+		})
+
+		it("fails if no hunk can be applied", async () => {
+			const result = await strategy.applyDiff(
+				original,
+				"@@ -1,1 +1,1 @@\n-function divide(a, b) {\n+function div(a, b) {",
+			)
+
+			expect(result.success).toBe(false)
+			expect(result.failParts).toHaveLength(1)
+		})
+
+		it("fails for content without hunks", async () => {
+			const result = await strategy.applyDiff(original, "just some text")
+
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.error).toContain("no hunks found")
+			}
+		})
+
+		it("refuses patches for several files", async () => {
+			const diff =
+				"--- a/one.js\n+++ b/one.js\n@@ -1 +1 @@\n-a\n+b\n--- a/two.js\n+++ b/two.js\n@@ -1 +1 @@\n-c\n+d"
+			const result = await strategy.applyDiff(original, diff)
+
+			expect(result.success).toBe(false)
+			if (!result.success) {
+				expect(result.error).toContain("one.js, two.js")
+			}
+		})
+
+		it("preserves CRLF line endings", async () => {
+			const result = await strategy.applyDiff(
+				original.replace(/\n/g, "\r\n"),
+				"@@ -1,2 +1,2 @@\n function add(a, b) {\n-    return a + b\n+    return b + a",
+			)
+
+			expect(result.success).toBe(true)
+			if (result.success) {
+				expect(result.content.startsWith("function add(a, b) {\r\n    return b + a\r\n}")).toBe(true)
+			}
+		})
+	})
+
+	describe("getFilePatches", () => {
+		it("splits a multi-file patch", () => {
+			const diff = [
+				"diff --git a/one.js b/one.js",
+				"--- a/one.js",
+				"+++ b/one.js",
+				"@@ -1 +1 @@",
+				"-a",
+				"+b",
+				"--- two.js\t2024-01-01 00:00:00",
+				"+++ two.js\t2024-01-02 00:00:00",
+				"@@ -1 +1 @@",
+				"-c",
+				"+d",
+			].join("\n")
+
+			expect(strategy.getFilePatches(diff)).toEqual([
+				{
+					path: "one.js",
+					diff: "diff --git a/one.js b/one.js\n--- a/one.js\n+++ b/one.js\n@@ -1 +1 @@\n-a\n+b",
+				},
+				{
+					path: "two.js",
+					diff: "--- two.js\t2024-01-01 00:00:00\n+++ two.js\t2024-01-02 00:00:00\n@@ -1 +1 @@\n-c\n+d",
+				},
+			])
+		})
+
+		it("returns nothing for patches without file headers", () => {
+			expect(strategy.getFilePatches("@@ -1 +1 @@\n-a\n+b")).toEqual([])
+		})
+	})
+
+	describe("getDiffStrategy", () => {
+		const modelInfo: ModelInfo = { contextWindow: 128_000, supportsPromptCache: false }
+		const modeConfig: ModeConfig = {
+			slug: "patch",
+			name: "Patch",
+			roleDefinition: "You write patches.",
+			groups: [],
+		}
+
+		it("uses search/replace blocks by default", () => {
+			expect(getDiffStrategy({ model: "test", experiments: {}, modelInfo, modeConfig })).toBeInstanceOf(
+				MultiSearchReplaceDiffStrategy,
+			)
+		})
+
+		it("uses the strategy preferred by the model", () => {
+			const strategy = getDiffStrategy({
+				model: "test",
+				experiments: {},
+				modelInfo: { ...modelInfo, diffStrategy: "unified" },
+			})
+
+			expect(strategy).toBeInstanceOf(UnifiedDiffStrategy)
+		})
+
+		it("prefers the strategy configured on the mode", () => {
+			const strategy = getDiffStrategy({
+				model: "test",
+				experiments: {},
+				modelInfo: { ...modelInfo, diffStrategy: "unified" },
+				modeConfig: { ...modeConfig, diffStrategy: "multi-search-and-replace" },
+			})
+
+			expect(strategy).toBeInstanceOf(MultiSearchReplaceDiffStrategy)
+		})
+	})
+})
@@ -6,7 +6,7 @@ import { ToolUse } from "../../assistant-message"
 
 const BUFFER_LINES = 40 // Number of extra context lines to show before and after matches
 
-function getSimilarity(original: string, search: string): number {
+export function getSimilarity(original: string, search: string): number {
 	if (search === "") {
 		return 1
 	}
@@ -33,7 +33,7 @@ function getSimilarity(original: string, search: string): number {
  * Performs a "middle-out" search of `lines` (between [startIndex, endIndex]) to find
  * the slice that is most similar to `searchChunk`. Returns the best score, index, and matched text.
  */
-function fuzzySearch(lines: string[], searchChunk: string, startIndex: number, endIndex: number) {
+export function fuzzySearch(lines: string[], searchChunk: string, startIndex: number, endIndex: number) {
 	let bestScore = 0
 	let bestMatchIndex = -1
 	let bestMatchContent = ""
@@ -180,6 +180,24 @@ Your search/replace content here
 You can use multi search/replace block in one diff block, but make sure to include the line numbers for each block.
 Only use a single line of '=======' between search and replacement content, because multiple '=======' will corrupt the file.
 </diff>
+</apply_diff>
+
+To edit several files in a single request, pass a <files> parameter instead of <path> and <diff>. Prefer this for related changes across multiple files; the user reviews all files together and can accept or reject the changes to each file individually:
+<apply_diff>
+<files>
+<file>
+<path>First file path here</path>
+<diff>
+Search/replace blocks for the first file
+</diff>
+</file>
+<file>
+<path>Second file path here</path>
+<diff>
+Search/replace blocks for the second file
+</diff>
+</file>
+</files>
 </apply_diff>`
 	}
 
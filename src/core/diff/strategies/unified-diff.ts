@@ -0,0 +1,396 @@
+import { DiffStrategy, DiffResult, FilePatch } from "../types"
+import { addLineNumbers } from "../../../integrations/misc/extract-text"
+import { ToolProgressStatus } from "../../../shared/ExtensionMessage"
+import { ToolUse } from "../../assistant-message"
+import { fuzzySearch, getSimilarity } from "./multi-search-replace"
+
+const BUFFER_LINES = 40 // Number of lines around the expected position to search before falling back to the whole file
+
+// Line numbers are optional; models sometimes emit bare "@@ ... @@" headers.
+const HUNK_HEADER_REGEX = /^@@(?:\s*-(\d+)(?:,(\d+))?\s+\+(\d+)(?:,(\d+))?)?[^@]*@@/
+
+type Hunk = {
+	header: string
+	oldStart?: number
+	oldLines: string[]
+	newLines: string[]
+}
+
+type ParsedFilePatch = {
+	path?: string
+	hunks: Hunk[]
+}
+
+/**
+ * Strips the `a/` and `b/` prefixes git adds to paths, as well as the
+ * timestamp `diff -u` appends after a tab.
+ */
+function parseHeaderPath(line: string): string | undefined {
+	const path = line.slice(4).split("\t")[0].trim()
+
+	if (!path || path === "/dev/null") {
+		return undefined
+	}
+
+	return /^[ab]\//.test(path) ? path.slice(2) : path
+}
+
+function isFileHeader(lines: string[], index: number) {
+	return lines[index].startsWith("--- ") && lines[index + 1]?.startsWith("+++ ")
+}
+
+/**
+ * Parses a (possibly multi-file) unified diff. Hunk line counts are ignored
+ * since models frequently get them wrong; a hunk ends at the next hunk or
+ * file header instead.
+ */
+export function parsePatch(diffContent: string): ParsedFilePatch[] {
+	const lines = diffContent.split(/\r?\n/)
+
+	// Tolerate patches wrapped in a markdown code fence.
+	if (lines[0]?.startsWith("```")) {
+		lines.shift()
+	}
+
+	while (lines.length > 0 && (lines[lines.length - 1].trim() === "" || lines[lines.length - 1].startsWith("```"))) {
+		lines.pop()
+	}
+
+	const patches: ParsedFilePatch[] = []
+	let currentPatch: ParsedFilePatch | undefined
+	let currentHunk: Hunk | undefined
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]
+
+		if (line.startsWith("diff --git ")) {
+			currentPatch = undefined
+			currentHunk = undefined
+			continue
+		}
+
+		if (isFileHeader(lines, i)) {
+			currentPatch = { path: parseHeaderPath(lines[i + 1]) ?? parseHeaderPath(line), hunks: [] }
+			patches.push(currentPatch)
+			currentHunk = undefined
+			i++
+			continue
+		}
+
+		const header = line.match(HUNK_HEADER_REGEX)
+
+		if (header) {
+			if (!currentPatch) {
+				currentPatch = { hunks: [] }
+				patches.push(currentPatch)
+			}
+
+			currentHunk = {
+				header: header[0],
+				oldStart: header[1] !== undefined ? Number(header[1]) : undefined,
+				oldLines: [],
+				newLines: [],
+			}
+
+			currentPatch.hunks.push(currentHunk)
+			continue
+		}
+
+		// Git metadata (index, mode and rename lines) before the first hunk.
+		if (!currentHunk) {
+			continue
+		}
+
+		if (line.startsWith("\\")) {
+			// "\ No newline at end of file"
+			continue
+		}
+
+		if (line.startsWith("-")) {
+			currentHunk.oldLines.push(line.slice(1))
+		} else if (line.startsWith("+")) {
+			currentHunk.newLines.push(line.slice(1))
+		} else {
+			// Context lines; editors and models often drop the leading space
+			// of blank lines.
+			const content = line.startsWith(" ") ? line.slice(1) : line
+			currentHunk.oldLines.push(content)
+			currentHunk.newLines.push(content)
+		}
+	}
+
+	return patches
+}
+
+export class UnifiedDiffStrategy implements DiffStrategy {
+	private fuzzyThreshold: number
+	private bufferLines: number
+
+	getName(): string {
+		return "UnifiedDiff"
+	}
+
+	constructor(fuzzyThreshold?: number, bufferLines?: number) {
+		// Note: fuzzyThreshold is inverted in UI (0% = 1.0, 10% = 0.9)
+		this.fuzzyThreshold = fuzzyThreshold ?? 1.0
+		this.bufferLines = bufferLines ?? BUFFER_LINES
+	}
+
+	getToolDescription(args: { cwd: string; toolOptions?: { [key: string]: string } }): string {
+		return `## apply_diff
+Description: Request to modify existing files by applying a patch in the unified diff format (the format produced by \`diff -u\` and \`git diff\`).
+Each hunk is located using its context and removed lines, so the line numbers in the hunk headers only need to be approximately right. Hunks that can't be located are reported individually while the remaining hunks are still applied.
+Include at least 3 lines of unchanged context around each change so the hunk can be located unambiguously, and reproduce context and removed lines exactly, including whitespace and indentation.
+If you're not confident in the exact content of the file, use the read_file tool first.
+ALWAYS make as many changes in a single 'apply_diff' request as possible using multiple hunks.
+
+Parameters:
+- path: (required) The path of the file to modify (relative to the current workspace directory ${args.cwd}). If the patch contains \`---\`/\`+++\` headers for several files, the paths in the headers are used instead.
+- diff: (required) The unified diff to apply.
+
+Diff format:
+\`\`\`
+--- a/path/to/file
++++ b/path/to/file
+@@ -[start line],[line count] +[start line],[line count] @@
+ [unchanged context line]
+-[line to remove]
++[line to add]
+ [unchanged context line]
+\`\`\`
+
+Example:
+
+Original file:
+\`\`\`
+1 | def calculate_total(items):
+2 |     total = 0
+3 |     for item in items:
+4 |         total += item
+5 |     return total
+\`\`\`
+
+Unified diff:
+\`\`\`
+--- a/calculator.py
++++ b/calculator.py
+@@ -1,5 +1,3 @@
+ def calculate_total(items):
+-    total = 0
+-    for item in items:
+-        total += item
+-    return total
++    """Calculate total with 10% markup"""
++    return sum(item * 1.1 for item in items)
+\`\`\`
+
+Usage:
+<apply_diff>
+<path>File path here</path>
+<diff>
+Your unified diff here
+</diff>
+</apply_diff>
+
+To edit several files in a single request, pass a <files> parameter instead of <path> and <diff>. Prefer this for related changes across multiple files; the user reviews all files together and can accept or reject the changes to each file individually:
+<apply_diff>
+<files>
+<file>
+<path>First file path here</path>
+<diff>
+Unified diff for the first file
+</diff>
+</file>
+<file>
+<path>Second file path here</path>
+<diff>
+Unified diff for the second file
+</diff>
+</file>
+</files>
+</apply_diff>`
+	}
+
+	getFilePatches(diffContent: string): FilePatch[] {
+		const lines = diffContent.split(/\r?\n/)
+		const patches: FilePatch[] = []
+		let start = -1
+		let path: string | undefined
+
+		const flush = (end: number) => {
+			if (start !== -1 && path) {
+				patches.push({ path, diff: lines.slice(start, end).join("\n") })
+			}
+		}
+
+		for (let i = 0; i < lines.length; i++) {
+			if (isFileHeader(lines, i)) {
+				// Keep a preceding "diff --git" line with its file.
+				const headerStart = i > 0 && lines[i - 1].startsWith("diff --git ") ? i - 1 : i
+				flush(headerStart)
+				start = headerStart
+				path = parseHeaderPath(lines[i + 1]) ?? parseHeaderPath(lines[i])
+				i++
+			}
+		}
+
+		flush(lines.length)
+		return patches
+	}
+
+	async applyDiff(originalContent: string, diffContent: string): Promise<DiffResult> {
+		const patches = parsePatch(diffContent)
+
+		if (patches.length > 1) {
+			return {
+				success: false,
+				error: `The patch modifies ${patches.length} files (${patches.map((p) => p.path ?? "(unknown)").join(", ")}), but only one file can be patched at a time.`,
+			}
+		}
+
+		const hunks = patches[0]?.hunks ?? []
+
+		if (hunks.length === 0) {
+			return {
+				success: false,
+				error: `Invalid diff format - no hunks found\n\nDebug Info:\n- Expected Format: --- a/file\\n+++ b/file\\n@@ -start,count +start,count @@\\n followed by context (' '), removed ('-') and added ('+') lines\n- Tip: Make sure every hunk starts with an @@ header on its own line`,
+			}
+		}
+
+		const lineEnding = originalContent.includes("\r\n") ? "\r\n" : "\n"
+		let resultLines = originalContent.split(/\r?\n/)
+		let delta = 0
+		const diffResults: DiffResult[] = []
+		let appliedCount = 0
+
+		// Hunks without line numbers keep their relative order at the front.
+		const sortedHunks = [...hunks].sort((a, b) => (a.oldStart ?? 0) - (b.oldStart ?? 0))
+
+		for (const hunk of sortedHunks) {
+			if (hunk.oldLines.join("\n") === hunk.newLines.join("\n")) {
+				diffResults.push({
+					success: false,
+					error: `Hunk ${hunk.header} doesn't change anything - it has no added or removed lines`,
+				})
+				continue
+			}
+
+			const expectedIndex = hunk.oldStart !== undefined ? Math.max(0, hunk.oldStart - 1 + delta) : undefined
+
+			if (hunk.oldLines.length === 0) {
+				// A pure insertion; "@@ -n,0 ..." inserts after line n.
+				if (hunk.oldStart === undefined) {
+					diffResults.push({
+						success: false,
+						error: `Hunk ${hunk.header} has no context lines and no line numbers, so it can't be located`,
+					})
+					continue
+				}
+
+				const insertIndex = Math.min(resultLines.length, hunk.oldStart + delta)
+				resultLines = [
+					...resultLines.slice(0, insertIndex),
+					...hunk.newLines,
+					...resultLines.slice(insertIndex),
+				]
+				delta += hunk.newLines.length
+				appliedCount++
+				continue
+			}
+
+			const { matchIndex, bestScore, bestMatchContent } = this.locateHunk(resultLines, hunk, expectedIndex)
+
+			if (matchIndex === -1 || bestScore < this.fuzzyThreshold) {
+				const bestMatchSection = bestMatchContent
+					? `\n\nBest Match Found:\n${addLineNumbers(bestMatchContent, matchIndex + 1)}`
+					: `\n\nBest Match Found:\n(no match)`
+
+				diffResults.push({
+					success: false,
+					error: `No sufficiently similar match found for hunk ${hunk.header} (${Math.floor(bestScore * 100)}% similar, needs ${Math.floor(this.fuzzyThreshold * 100)}%)\n\nDebug Info:\n- Similarity Score: ${Math.floor(bestScore * 100)}%\n- Required Threshold: ${Math.floor(this.fuzzyThreshold * 100)}%\n- Tip: Use the read_file tool to get the latest content of the file before attempting to use the apply_diff tool again, as the file content may have changed\n\nHunk Content:\n${hunk.oldLines.join("\n")}${bestMatchSection}`,
+					details: {
+						similarity: bestScore,
+						threshold: this.fuzzyThreshold,
+						searchContent: hunk.oldLines.join("\n"),
+						bestMatch: bestMatchContent,
+					},
+				})
+				continue
+			}
+
+			resultLines = [
+				...resultLines.slice(0, matchIndex),
+				...hunk.newLines,
+				...resultLines.slice(matchIndex + hunk.oldLines.length),
+			]
+
+			delta += hunk.newLines.length - hunk.oldLines.length
+			appliedCount++
+		}
+
+		if (appliedCount === 0) {
+			return { success: false, failParts: diffResults }
+		}
+
+		return { success: true, content: resultLines.join(lineEnding), failParts: diffResults }
+	}
+
+	/**
+	 * Finds where a hunk applies: at the line its header names (adjusted for
+	 * previously applied hunks), then near it, then anywhere in the file.
+	 */
+	private locateHunk(lines: string[], hunk: Hunk, expectedIndex?: number) {
+		const searchChunk = hunk.oldLines.join("\n")
+		const searchLength = hunk.oldLines.length
+
+		if (expectedIndex !== undefined) {
+			const originalChunk = lines.slice(expectedIndex, expectedIndex + searchLength).join("\n")
+			const similarity = getSimilarity(originalChunk, searchChunk)
+
+			if (similarity >= this.fuzzyThreshold) {
+				return { matchIndex: expectedIndex, bestScore: similarity, bestMatchContent: originalChunk }
+			}
+
+			const nearby = fuzzySearch(
+				lines,
+				searchChunk,
+				Math.max(0, expectedIndex - this.bufferLines),
+				Math.min(lines.length, expectedIndex + searchLength + this.bufferLines),
+			)
+
+			if (nearby.bestScore >= this.fuzzyThreshold) {
+				return {
+					matchIndex: nearby.bestMatchIndex,
+					bestScore: nearby.bestScore,
+					bestMatchContent: nearby.bestMatchContent,
+				}
+			}
+		}
+
+		const { bestScore, bestMatchIndex, bestMatchContent } = fuzzySearch(lines, searchChunk, 0, lines.length)
+		return { matchIndex: bestMatchIndex, bestScore, bestMatchContent }
+	}
+
+	getProgressStatus(toolUse: ToolUse, result?: DiffResult): ToolProgressStatus {
+		const diffContent = toolUse.params.diff
+
+		if (diffContent) {
+			const icon = "diff-multiple"
+			const hunkCount = (diffContent.match(/^@@/gm) || []).length
+
+			if (toolUse.partial) {
+				if (diffContent.length < 1000 || (diffContent.length / 50) % 10 === 0) {
+					return { icon, text: `${hunkCount}` }
+				}
+			} else if (result) {
+				if (result.failParts?.length) {
+					return { icon, text: `${hunkCount - result.failParts.length}/${hunkCount}` }
+				} else {
+					return { icon, text: `${hunkCount}` }
+				}
+			}
+		}
+
+		return {}
+	}
+}
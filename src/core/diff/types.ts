@@ -19,6 +19,12 @@ export type DiffResult =
 			}
 			failParts?: DiffResult[]
 	  } & ({ error: string } | { failParts: DiffResult[] }))
+
+export type FilePatch = {
+	path: string
+	diff: string
+}
+
 export interface DiffStrategy {
 	/**
 	 * Get the name of this diff strategy for analytics and debugging
@@ -43,5 +49,12 @@ export interface DiffStrategy {
 	 */
 	applyDiff(originalContent: string, diffContent: string, startLine?: number, endLine?: number): Promise<DiffResult>
 
+	/**
+	 * Split a diff that targets several files into one diff per file
+	 * @param diffContent The diff content in the strategy's format
+	 * @returns The per-file diffs, or an empty array if the diff doesn't name its target files
+	 */
+	getFilePatches?(diffContent: string): FilePatch[]
+
 	getProgressStatus?(toolUse: ToolUse, result?: any): ToolProgressStatus
 }
@@ -3,9 +3,15 @@ import { fileExistsAtPath } from "../../utils/fs"
 import fs from "fs/promises"
 import ignore, { Ignore } from "ignore"
 import * as vscode from "vscode"
+import { getOtherWorkspaceRoots, getWorkspaceRootForPath, resolveWorkspacePath, WorkspaceRoot } from "../../utils/path"
 
 export const LOCK_TEXT_SYMBOL = "\u{1F512}"
 
+type IgnoreRoot = WorkspaceRoot & {
+	ignoreInstance: Ignore
+	content: string | undefined
+}
+
 /**
  * Controls LLM access to files by enforcing ignore patterns.
  * Designed to be instantiated once in Cline.ts and passed to file manipulation services.
@@ -13,16 +19,27 @@ export const LOCK_TEXT_SYMBOL = "\u{1F512}"
  */
 export class RooIgnoreController {
 	private cwd: string
-	private ignoreInstance: Ignore
+	private roots: IgnoreRoot[]
 	private disposables: vscode.Disposable[] = []
-	rooIgnoreContent: string | undefined
 
 	constructor(cwd: string) {
 		this.cwd = cwd
-		this.ignoreInstance = ignore()
-		this.rooIgnoreContent = undefined
-		// Set up file watcher for .rooignore
-		this.setupFileWatcher()
+		// The other roots of a multi-root workspace have their own .rooignore
+		// files, which apply to the files in that root.
+		this.roots = [{ name: path.basename(cwd), path: cwd }, ...getOtherWorkspaceRoots(cwd)].map((root) => ({
+			...root,
+			ignoreInstance: ignore(),
+			content: undefined,
+		}))
+		// Set up file watchers for .rooignore
+		this.roots.forEach((root) => this.setupFileWatcher(root))
+	}
+
+	/**
+	 * The content of the .rooignore file in the cwd, if it exists
+	 */
+	get rooIgnoreContent(): string | undefined {
+		return this.roots[0].content
 	}
 
 	/**
@@ -30,26 +47,26 @@ export class RooIgnoreController {
 	 * Must be called after construction and before using the controller
 	 */
 	async initialize(): Promise<void> {
-		await this.loadRooIgnore()
+		await Promise.all(this.roots.map((root) => this.loadRooIgnore(root)))
 	}
 
 	/**
 	 * Set up the file watcher for .rooignore changes
 	 */
-	private setupFileWatcher(): void {
-		const rooignorePattern = new vscode.RelativePattern(this.cwd, ".rooignore")
+	private setupFileWatcher(root: IgnoreRoot): void {
+		const rooignorePattern = new vscode.RelativePattern(root.path, ".rooignore")
 		const fileWatcher = vscode.workspace.createFileSystemWatcher(rooignorePattern)
 
 		// Watch for changes and updates
 		this.disposables.push(
 			fileWatcher.onDidChange(() => {
-				this.loadRooIgnore()
+				this.loadRooIgnore(root)
 			}),
 			fileWatcher.onDidCreate(() => {
-				this.loadRooIgnore()
+				this.loadRooIgnore(root)
 			}),
 			fileWatcher.onDidDelete(() => {
-				this.loadRooIgnore()
+				this.loadRooIgnore(root)
 			}),
 		)
 
@@ -58,20 +75,20 @@ export class RooIgnoreController {
 	}
 
 	/**
-	 * Load custom patterns from .rooignore if it exists
+	 * Load custom patterns from the .rooignore of a root if it exists
 	 */
-	private async loadRooIgnore(): Promise<void> {
+	private async loadRooIgnore(root: IgnoreRoot): Promise<void> {
 		try {
 			// Reset ignore instance to prevent duplicate patterns
-			this.ignoreInstance = ignore()
-			const ignorePath = path.join(this.cwd, ".rooignore")
+			root.ignoreInstance = ignore()
+			const ignorePath = path.join(root.path, ".rooignore")
 			if (await fileExistsAtPath(ignorePath)) {
 				const content = await fs.readFile(ignorePath, "utf8")
-				this.rooIgnoreContent = content
-				this.ignoreInstance.add(content)
-				this.ignoreInstance.add(".rooignore")
+				root.content = content
+				root.ignoreInstance.add(content)
+				root.ignoreInstance.add(".rooignore")
 			} else {
-				this.rooIgnoreContent = undefined
+				root.content = undefined
 			}
 		} catch (error) {
 			// Should never happen: reading file failed even though it exists
@@ -81,24 +98,29 @@ export class RooIgnoreController {
 
 	/**
 	 * Check if a file should be accessible to the LLM
-	 * @param filePath - Path to check (relative to cwd)
+	 * @param filePath - Path to check (relative to cwd, root-qualified or absolute)
 	 * @returns true if file is accessible, false if ignored
 	 */
 	validateAccess(filePath: string): boolean {
-		// Always allow access if .rooignore does not exist
-		if (!this.rooIgnoreContent) {
+		// Always allow access if no .rooignore exists
+		if (!this.hasRooIgnore()) {
 			return true
 		}
 		try {
-			// Normalize path to be relative to cwd and use forward slashes
-			const absolutePath = path.resolve(this.cwd, filePath)
-			const relativePath = path.relative(this.cwd, absolutePath).toPosix()
+			const absolutePath = resolveWorkspacePath(this.cwd, filePath)
+			const root = getWorkspaceRootForPath(absolutePath, this.roots)
+
+			// We are allowing access to all files outside the workspace roots.
+			if (!root?.content) {
+				return true
+			}
 
-			// Ignore expects paths to be path.relative()'d
-			return !this.ignoreInstance.ignores(relativePath)
+			// Ignore expects paths to be path.relative()'d and use forward slashes
+			const relativePath = path.relative(root.path, absolutePath).toPosix()
+			return !root.ignoreInstance.ignores(relativePath)
 		} catch (error) {
 			// console.error(`Error validating access for ${filePath}:`, error)
-			// Ignore is designed to work with relative file paths, so will throw error for paths outside cwd. We are allowing access to all files outside cwd.
+			// Ignore is designed to work with relative file paths, so will throw error for paths it can't handle. We are allowing access to those.
 			return true
 		}
 	}
@@ -110,7 +132,7 @@ export class RooIgnoreController {
 	 */
 	validateCommand(command: string): string | undefined {
 		// Always allow if no .rooignore exists
-		if (!this.rooIgnoreContent) {
+		if (!this.hasRooIgnore()) {
 			return undefined
 		}
 
@@ -192,10 +214,29 @@ export class RooIgnoreController {
 	 * @returns Formatted instructions or undefined if .rooignore doesn't exist
 	 */
 	getInstructions(): string | undefined {
-		if (!this.rooIgnoreContent) {
+		if (!this.hasRooIgnore()) {
 			return undefined
 		}
 
-		return `# .rooignore\n\n(The following is provided by a root-level .rooignore file where the user has specified files and directories that should not be accessed. When using list_files, you'll notice a ${LOCK_TEXT_SYMBOL} next to files that are blocked. Attempting to access the file's contents e.g. through read_file will result in an error.)\n\n${this.rooIgnoreContent}\n.rooignore`
+		const [cwdRoot, ...otherRoots] = this.roots
+		const sections = []
+
+		if (cwdRoot.content) {
+			sections.push(
+				`# .rooignore\n\n(The following is provided by a root-level .rooignore file where the user has specified files and directories that should not be accessed. When using list_files, you'll notice a ${LOCK_TEXT_SYMBOL} next to files that are blocked. Attempting to access the file's contents e.g. through read_file will result in an error.)\n\n${cwdRoot.content}\n.rooignore`,
+			)
+		}
+
+		for (const root of otherRoots.filter((root) => root.content)) {
+			sections.push(
+				`# ${root.name}:.rooignore\n\n(The following .rooignore file applies to the files in the "${root.name}" workspace root, which are blocked in the same way.)\n\n${root.content}\n.rooignore`,
+			)
+		}
+
+		return sections.join("\n\n")
+	}
+
+	private hasRooIgnore() {
+		return this.roots.some((root) => root.content)
 	}
 }
@@ -217,6 +217,48 @@ describe("RooIgnoreController", () => {
 		})
 	})
 
+	describe("multi-root workspaces", () => {
+		const OTHER_ROOT = "/test/other"
+
+		beforeEach(async () => {
+			// @ts-expect-error - Mocking
+			vscode.workspace.workspaceFolders = [
+				{ name: "path", uri: { fsPath: TEST_CWD } },
+				{ name: "other", uri: { fsPath: OTHER_ROOT } },
+			]
+
+			mockFileExists.mockImplementation(async (filePath) => filePath === path.join(OTHER_ROOT, ".rooignore"))
+			mockReadFile.mockResolvedValue("secrets/**")
+
+			controller = new RooIgnoreController(TEST_CWD)
+			await controller.initialize()
+		})
+
+		afterEach(() => {
+			// @ts-expect-error - Mocking
+			delete vscode.workspace.workspaceFolders
+		})
+
+		it("should apply the .rooignore of each root to its files", () => {
+			expect(vscode.workspace.createFileSystemWatcher).toHaveBeenCalledWith(
+				expect.objectContaining({ base: OTHER_ROOT, pattern: ".rooignore" }),
+			)
+
+			expect(controller.validateAccess("other:secrets/keys.json")).toBe(false)
+			expect(controller.validateAccess(path.join(OTHER_ROOT, "secrets/keys.json"))).toBe(false)
+			expect(controller.validateAccess("other:src/app.ts")).toBe(true)
+			expect(controller.validateAccess("secrets/keys.json")).toBe(true)
+		})
+
+		it("should include the .rooignore of other roots in the instructions", () => {
+			const instructions = controller.getInstructions()
+
+			expect(controller.rooIgnoreContent).toBeUndefined()
+			expect(instructions).toContain("# other:.rooignore")
+			expect(instructions).toContain("secrets/**")
+		})
+	})
+
 	describe("validateCommand", () => {
 		beforeEach(async () => {
 			// Setup .rooignore content
@@ -84,8 +84,9 @@ import { parseMentions, openMention } from "../index"
 import { UrlContentFetcher } from "../../../services/browser/UrlContentFetcher"
 import * as git from "../../../utils/git"
 
-import { getWorkspacePath } from "../../../utils/path"
+import { getWorkspacePath, resolveWorkspacePath } from "../../../utils/path"
 ;(getWorkspacePath as jest.Mock).mockReturnValue("/test/workspace")
+;(resolveWorkspacePath as jest.Mock).mockImplementation(jest.requireActual("../../../utils/path").resolveWorkspacePath)
 
 describe("mentions", () => {
 	const mockCwd = "/test/workspace"
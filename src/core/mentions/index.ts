@@ -9,7 +9,7 @@ import { isBinaryFile } from "isbinaryfile"
 import { diagnosticsToProblemsString } from "../../integrations/diagnostics"
 import { getCommitInfo, getWorkingState } from "../../utils/git"
 import { getLatestTerminalOutput } from "../../integrations/terminal/get-latest-output"
-import { getWorkspacePath } from "../../utils/path"
+import { getWorkspacePath, resolveWorkspacePath } from "../../utils/path"
 import { FileContextTracker } from "../context-tracking/FileContextTracker"
 
 export async function openMention(mention?: string): Promise<void> {
@@ -24,7 +24,7 @@ export async function openMention(mention?: string): Promise<void> {
 
 	if (mention.startsWith("/")) {
 		const relPath = mention.slice(1)
-		const absPath = path.resolve(cwd, relPath)
+		const absPath = resolveWorkspacePath(cwd, relPath)
 		if (mention.endsWith("/")) {
 			vscode.commands.executeCommand("revealInExplorer", vscode.Uri.file(absPath))
 		} else {
@@ -156,7 +156,7 @@ export async function parseMentions(
 }
 
 async function getFileOrFolderContent(mentionPath: string, cwd: string): Promise<string> {
-	const absPath = path.resolve(cwd, mentionPath)
+	const absPath = resolveWorkspacePath(cwd, mentionPath)
 
 	try {
 		const stats = await fs.stat(absPath)
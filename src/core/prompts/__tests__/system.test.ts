@@ -87,6 +87,7 @@ jest.mock("vscode", () => ({
 	env: {
 		language: "en",
 	},
+	workspace: {},
 }))
 
 jest.mock("../../../utils/shell", () => ({
@@ -0,0 +1,66 @@
+// npx jest src/core/prompts/__tests__/tool-schemas.test.ts
+
+import { getToolSchemasForMode } from "../tools"
+import { getSharedToolUseSection } from "../sections"
+import { MultiSearchReplaceDiffStrategy } from "../../diff/strategies/multi-search-replace"
+import { toolParamNames } from "../../assistant-message"
+
+describe("getToolSchemasForMode", () => {
+	const cwd = "/test/path"
+
+	it("returns the schemas of the tools available in the mode", () => {
+		const names = getToolSchemasForMode("ask", cwd, false).map(({ name }) => name)
+
+		expect(names).toContain("read_file")
+		expect(names).toContain("attempt_completion")
+		expect(names).not.toContain("write_to_file")
+		expect(names).not.toContain("execute_command")
+	})
+
+	it("only includes tools whose requirements are met", () => {
+		const withoutOptionalTools = getToolSchemasForMode("code", cwd, false).map(({ name }) => name)
+		expect(withoutOptionalTools).not.toContain("browser_action")
+		expect(withoutOptionalTools).not.toContain("apply_diff")
+		expect(withoutOptionalTools).not.toContain("codebase_search")
+
+		const withOptionalTools = getToolSchemasForMode(
+			"code",
+			cwd,
+			true,
+			new MultiSearchReplaceDiffStrategy(),
+			"900x600",
+			undefined,
+			undefined,
+			undefined,
+			true,
+		).map(({ name }) => name)
+		expect(withOptionalTools).toContain("browser_action")
+		expect(withOptionalTools).toContain("apply_diff")
+		expect(withOptionalTools).toContain("codebase_search")
+	})
+
+	it("describes the parameters as JSON schemas of known tool parameters", () => {
+		const schemas = getToolSchemasForMode("code", cwd, true, new MultiSearchReplaceDiffStrategy(), "900x600")
+
+		for (const { parameters } of schemas) {
+			expect(parameters.type).toBe("object")
+
+			for (const [key, property] of Object.entries(parameters.properties)) {
+				expect(toolParamNames).toContain(key)
+				expect(property.type).toBe("string")
+			}
+
+			for (const key of parameters.required) {
+				expect(parameters.properties).toHaveProperty(key)
+			}
+		}
+	})
+})
+
+describe("getSharedToolUseSection", () => {
+	it("asks for function calls instead of XML with native tools", () => {
+		expect(getSharedToolUseSection()).toContain("Tool use is formatted using XML-style tags")
+		expect(getSharedToolUseSection(true)).not.toContain("Tool use is formatted using XML-style tags")
+		expect(getSharedToolUseSection(true)).toContain("function calling")
+	})
+})
@@ -17,6 +17,15 @@ export const formatResponse = {
 	rooIgnoreError: (path: string) =>
 		`Access to ${path} is blocked by the .rooignore file settings. You must try to continue in the task without using this file, or ask the user to update the .rooignore file.`,
 
+	commandDeniedByPolicy: (command: string, rule: string) =>
+		`The command \`${command}\` is blocked by the command policy (rule: \`${rule}\`). Do not try to run it in another way; find an alternative approach or ask the user to run it.`,
+
+	verificationFailed: (command: string, exitCode: number | undefined, output: string) =>
+		`The task cannot be completed yet because the project's verification command \`${command}\` failed (exit code: ${exitCode ?? "unknown"}). Fix the cause and then attempt completion again.\n<output>\n${output}\n</output>`,
+
+	newProblems: (problems: string) =>
+		`\n\nNew problems were introduced by this edit. Fix them before moving on unless they are expected:\n<new_problems>\n${problems}\n</new_problems>`,
+
 	noToolsUsed: () =>
 		`[ERROR] You did not use a tool in your previous response! Please retry with a tool use.
 
@@ -32,6 +41,9 @@ Otherwise, if you have not completed the task and do not need additional informa
 	tooManyMistakes: (feedback?: string) =>
 		`You seem to be having trouble proceeding. The user has provided the following feedback to help guide you:\n<feedback>\n${feedback}\n</feedback>`,
 
+	budgetLimitReached: (feedback?: string) =>
+		`The task was paused because it reached a budget limit. The user chose to continue and provided the following feedback:\n<feedback>\n${feedback}\n</feedback>`,
+
 	missingToolParameterError: (paramName: string) =>
 		`Missing value for required parameter '${paramName}'. Please retry with complete response.\n\n${toolUseInstructionsReminder}`,
 
@@ -512,6 +512,32 @@ describe("addCustomInstructions", () => {
 		expect(result).toContain("Rules from .clinerules-test-mode:\nmode specific rules from cline file")
 	})
 
+	it("should add the rules of the other workspace roots", async () => {
+		statMock.mockRejectedValue({ code: "ENOENT" })
+
+		readFileMock.mockImplementation((filePath: PathLike) => {
+			if (filePath.toString() === "/fake/backend/.roorules") {
+				return Promise.resolve("backend rules")
+			}
+			if (filePath.toString() === "/fake/backend/.roorules-test-mode") {
+				return Promise.resolve("backend mode rules")
+			}
+			return Promise.reject({ code: "ENOENT" })
+		})
+
+		const result = await addCustomInstructions("", "", "/fake/path", "test-mode", {
+			otherWorkspaceRoots: [
+				{ name: "backend", path: "/fake/backend" },
+				{ name: "docs", path: "/fake/docs" },
+			],
+		})
+
+		expect(result).toContain(
+			'# Rules for the files in the "backend" workspace root (/fake/backend):\n\n# Rules from .roorules-test-mode:\nbackend mode rules\n\n# Rules from .roorules:\nbackend rules',
+		)
+		expect(result).not.toContain('"docs" workspace root')
+	})
+
 	it("should correctly format content from directories when using .roo/rules-test-mode/", async () => {
 		// Need to reset mockImplementation first to avoid interference from previous tests
 		statMock.mockReset()
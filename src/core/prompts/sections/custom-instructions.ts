@@ -2,6 +2,7 @@ import fs from "fs/promises"
 import path from "path"
 
 import { LANGUAGES, isLanguage } from "../../../shared/language"
+import type { WorkspaceRoot } from "../../../utils/path"
 import { Dirent } from "fs"
 
 /**
@@ -178,45 +179,41 @@ export async function loadRuleFiles(cwd: string): Promise<string> {
 	return ""
 }
 
+/**
+ * Load the mode-specific rule files from the specified directory
+ */
+async function loadModeRuleFiles(cwd: string, mode: string): Promise<string> {
+	// Check for .roo/rules-${mode}/ directory
+	const modeRulesDir = path.join(cwd, ".roo", `rules-${mode}`)
+	if (await directoryExists(modeRulesDir)) {
+		const files = await readTextFilesFromDirectory(modeRulesDir)
+		if (files.length > 0) {
+			return formatDirectoryContent(modeRulesDir, files).trim()
+		}
+	}
+
+	// If no directory exists, fall back to existing behavior
+	for (const file of [`.roorules-${mode}`, `.clinerules-${mode}`]) {
+		const content = await safeReadFile(path.join(cwd, file))
+		if (content) {
+			return `# Rules from ${file}:\n${content}`
+		}
+	}
+
+	return ""
+}
+
 export async function addCustomInstructions(
 	modeCustomInstructions: string,
 	globalCustomInstructions: string,
 	cwd: string,
 	mode: string,
-	options: { language?: string; rooIgnoreInstructions?: string } = {},
+	options: { language?: string; rooIgnoreInstructions?: string; otherWorkspaceRoots?: WorkspaceRoot[] } = {},
 ): Promise<string> {
 	const sections = []
 
 	// Load mode-specific rules if mode is provided
-	let modeRuleContent = ""
-	let usedRuleFile = ""
-
-	if (mode) {
-		// Check for .roo/rules-${mode}/ directory
-		const modeRulesDir = path.join(cwd, ".roo", `rules-${mode}`)
-		if (await directoryExists(modeRulesDir)) {
-			const files = await readTextFilesFromDirectory(modeRulesDir)
-			if (files.length > 0) {
-				modeRuleContent = formatDirectoryContent(modeRulesDir, files)
-				usedRuleFile = modeRulesDir
-			}
-		}
-
-		// If no directory exists, fall back to existing behavior
-		if (!modeRuleContent) {
-			const rooModeRuleFile = `.roorules-${mode}`
-			modeRuleContent = await safeReadFile(path.join(cwd, rooModeRuleFile))
-			if (modeRuleContent) {
-				usedRuleFile = rooModeRuleFile
-			} else {
-				const clineModeRuleFile = `.clinerules-${mode}`
-				modeRuleContent = await safeReadFile(path.join(cwd, clineModeRuleFile))
-				if (modeRuleContent) {
-					usedRuleFile = clineModeRuleFile
-				}
-			}
-		}
-	}
+	const modeRuleContent = mode ? await loadModeRuleFiles(cwd, mode) : ""
 
 	// Add language preference if provided
 	if (options.language) {
@@ -240,12 +237,8 @@ export async function addCustomInstructions(
 	const rules = []
 
 	// Add mode-specific rules first if they exist
-	if (modeRuleContent && modeRuleContent.trim()) {
-		if (usedRuleFile.includes(path.join(".roo", `rules-${mode}`))) {
-			rules.push(modeRuleContent.trim())
-		} else {
-			rules.push(`# Rules from ${usedRuleFile}:\n${modeRuleContent}`)
-		}
+	if (modeRuleContent) {
+		rules.push(modeRuleContent)
 	}
 
 	if (options.rooIgnoreInstructions) {
@@ -258,6 +251,19 @@ export async function addCustomInstructions(
 		rules.push(genericRuleContent.trim())
 	}
 
+	// Add the rules of the other roots of a multi-root workspace
+	for (const root of options.otherWorkspaceRoots ?? []) {
+		const rootRules = [
+			mode ? await loadModeRuleFiles(root.path, mode) : "",
+			(await loadRuleFiles(root.path)).trim(),
+		].filter(Boolean)
+		if (rootRules.length > 0) {
+			rules.push(
+				`# Rules for the files in the "${root.name}" workspace root (${root.path}):\n\n${rootRules.join("\n\n")}`,
+			)
+		}
+	}
+
 	if (rules.length > 0) {
 		sections.push(`Rules:\n\n${rules.join("\n\n")}`)
 	}
@@ -1,5 +1,6 @@
 export { getRulesSection } from "./rules"
 export { getSystemInfoSection } from "./system-info"
+export { getRepoMapSection } from "./repo-map"
 export { getObjectiveSection } from "./objective"
 export { addCustomInstructions } from "./custom-instructions"
 export { getSharedToolUseSection } from "./tool-use"
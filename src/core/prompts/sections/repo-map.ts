@@ -0,0 +1,17 @@
+// The section ends with blank lines since it's left out of the prompt when
+// there is no map.
+export function getRepoMapSection(repoMap?: string): string {
+	if (!repoMap) {
+		return ""
+	}
+
+	return `====
+
+REPOSITORY MAP
+
+The repository map below lists the most referenced top-level definitions in the current workspace directory, with the first line of each definition and the line numbers it spans. Definitions referenced most often across the workspace come first. Use it to find the files relevant to the task and read those files for details; the map is refreshed from time to time, so it may not reflect the latest changes.
+
+${repoMap}
+
+`
+}
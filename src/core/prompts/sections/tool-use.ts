@@ -1,4 +1,16 @@
-export function getSharedToolUseSection(): string {
+export function getSharedToolUseSection(nativeTools?: boolean): string {
+	if (nativeTools) {
+		return `====
+
+TOOL USE
+
+You have access to a set of tools that are executed upon the user's approval. You can use one tool per message, and will receive the result of that tool use in the user's response. You use tools step-by-step to accomplish a given task, with each tool use informed by the result of the previous tool use.
+
+# Tool Use Formatting
+
+The tools are provided to you as functions. Call them with the function calling interface and never write tool calls as XML tags in your response. The tool descriptions below show each tool's parameters in an XML notation; pass the same parameters as the arguments of the function call.`
+	}
+
 	return `====
 
 TOOL USE
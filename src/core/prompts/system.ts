@@ -16,6 +16,7 @@ import * as vscode from "vscode"
 import {
 	getRulesSection,
 	getSystemInfoSection,
+	getRepoMapSection,
 	getObjectiveSection,
 	getSharedToolUseSection,
 	getMcpServersSection,
@@ -26,6 +27,7 @@ import {
 } from "./sections"
 import { loadSystemPromptFile } from "./sections/custom-system-prompt"
 import { formatLanguage } from "../../shared/language"
+import { getOtherWorkspaceRoots } from "../../utils/path"
 
 async function generatePrompt(
 	context: vscode.ExtensionContext,
@@ -43,6 +45,9 @@ async function generatePrompt(
 	enableMcpServerCreation?: boolean,
 	language?: string,
 	rooIgnoreInstructions?: string,
+	codebaseSearchEnabled?: boolean,
+	nativeTools?: boolean,
+	repoMap?: string,
 ): Promise<string> {
 	if (!context) {
 		throw new Error("Extension context is required for generating system prompt")
@@ -64,7 +69,7 @@ async function generatePrompt(
 
 	const basePrompt = `${roleDefinition}
 
-${getSharedToolUseSection()}
+${getSharedToolUseSection(nativeTools)}
 
 ${getToolDescriptionsForMode(
 	mode,
@@ -75,9 +80,10 @@ ${getToolDescriptionsForMode(
 	mcpHub,
 	customModeConfigs,
 	experiments,
+	codebaseSearchEnabled,
 )}
 
-${getToolUseGuidelinesSection()}
+${getToolUseGuidelinesSection(nativeTools)}
 
 ${mcpServersSection}
 
@@ -89,9 +95,9 @@ ${getRulesSection(cwd, supportsComputerUse, effectiveDiffStrategy, experiments)}
 
 ${getSystemInfoSection(cwd, mode, customModeConfigs)}
 
-${getObjectiveSection()}
+${getRepoMapSection(repoMap)}${getObjectiveSection()}
 
-${await addCustomInstructions(promptComponent?.customInstructions || modeConfig.customInstructions || "", globalCustomInstructions || "", cwd, mode, { language: language ?? formatLanguage(vscode.env.language), rooIgnoreInstructions })}`
+${await addCustomInstructions(promptComponent?.customInstructions || modeConfig.customInstructions || "", globalCustomInstructions || "", cwd, mode, { language: language ?? formatLanguage(vscode.env.language), rooIgnoreInstructions, otherWorkspaceRoots: getOtherWorkspaceRoots(cwd) })}`
 
 	return basePrompt
 }
@@ -112,6 +118,9 @@ export const SYSTEM_PROMPT = async (
 	enableMcpServerCreation?: boolean,
 	language?: string,
 	rooIgnoreInstructions?: string,
+	codebaseSearchEnabled?: boolean,
+	nativeTools?: boolean,
+	repoMap?: string,
 ): Promise<string> => {
 	if (!context) {
 		throw new Error("Extension context is required for generating system prompt")
@@ -141,7 +150,11 @@ export const SYSTEM_PROMPT = async (
 			globalCustomInstructions || "",
 			cwd,
 			mode,
-			{ language: language ?? formatLanguage(vscode.env.language), rooIgnoreInstructions },
+			{
+				language: language ?? formatLanguage(vscode.env.language),
+				rooIgnoreInstructions,
+				otherWorkspaceRoots: getOtherWorkspaceRoots(cwd),
+			},
 		)
 		// For file-based prompts, don't include the tool sections
 		return `${roleDefinition}
@@ -170,5 +183,8 @@ ${customInstructions}`
 		enableMcpServerCreation,
 		language,
 		rooIgnoreInstructions,
+		codebaseSearchEnabled,
+		nativeTools,
+		repoMap,
 	)
 }
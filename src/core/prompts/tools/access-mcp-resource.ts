@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getAccessMcpResourceDescription(args: ToolArgs): string | undefined {
 	if (!args.mcpHub) {
@@ -22,3 +22,21 @@ Example: Requesting to access an MCP resource
 <uri>weather://san-francisco/current</uri>
 </access_mcp_resource>`
 }
+
+export function getAccessMcpResourceToolSchema(args: ToolArgs): ToolSchema | undefined {
+	if (!args.mcpHub) {
+		return undefined
+	}
+	return {
+		name: "access_mcp_resource",
+		description: "Access a resource provided by a connected MCP server.",
+		parameters: {
+			type: "object",
+			properties: {
+				server_name: { type: "string", description: "The name of the MCP server providing the resource." },
+				uri: { type: "string", description: "The URI identifying the specific resource to access." },
+			},
+			required: ["server_name", "uri"],
+		},
+	}
+}
@@ -0,0 +1,61 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getApplyCodeActionDescription(args: ToolArgs): string {
+	return `## apply_code_action
+Description: Request to list or apply the code actions that the language servers of the editor offer for a range of lines, such as quick fixes for errors (e.g. adding a missing import) and refactorings (e.g. extracting a function or organizing imports). Call it without an action to list the available code actions, then call it again with the title of the one to apply. The changes are shown to the user for approval before they are saved.
+Parameters:
+- path: (required) The path of the file (relative to the current workspace directory ${args.cwd})
+- start_line: (required) The first line of the range (1-based).
+- end_line: (optional) The last line of the range (1-based, inclusive). Defaults to start_line.
+- action: (optional) The exact title of the code action to apply, as listed by this tool. Lists the available code actions if omitted.
+Usage:
+<apply_code_action>
+<path>File path here</path>
+<start_line>Start line here</start_line>
+<end_line>End line here (optional)</end_line>
+<action>Code action title here (optional)</action>
+</apply_code_action>
+
+Examples:
+
+1. Listing the quick fixes for an error on line 12:
+<apply_code_action>
+<path>src/app.ts</path>
+<start_line>12</start_line>
+</apply_code_action>
+
+2. Applying one of the listed code actions:
+<apply_code_action>
+<path>src/app.ts</path>
+<start_line>12</start_line>
+<action>Add import from "./utils"</action>
+</apply_code_action>`
+}
+
+export function getApplyCodeActionToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "apply_code_action",
+		description:
+			"List the code actions (quick fixes and refactorings) available for a range of lines, or apply one of them by its title.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file (relative to the current workspace directory ${args.cwd})`,
+				},
+				start_line: { type: "string", description: "The first line of the range (1-based)." },
+				end_line: {
+					type: "string",
+					description: "The last line of the range (1-based, inclusive). Defaults to start_line.",
+				},
+				action: {
+					type: "string",
+					description:
+						"The exact title of the code action to apply. Lists the available code actions if omitted.",
+				},
+			},
+			required: ["path", "start_line"],
+		},
+	}
+}
@@ -1,3 +1,5 @@
+import { ToolSchema } from "./types"
+
 export function getAskFollowupQuestionDescription(): string {
 	return `## ask_followup_question
 Description: Ask the user a question to gather additional information needed to complete the task. This tool should be used when you encounter ambiguities, need clarification, or require more details to proceed effectively. It allows for interactive problem-solving by enabling direct communication with the user. Use this tool judiciously to maintain a balance between gathering necessary information and avoiding excessive back-and-forth.
@@ -27,3 +29,24 @@ Example: Requesting to ask the user for the path to the frontend-config.json fil
 </follow_up>
 </ask_followup_question>`
 }
+
+export function getAskFollowupQuestionToolSchema(): ToolSchema {
+	return {
+		name: "ask_followup_question",
+		description: "Ask the user a question to gather additional information needed to complete the task.",
+		parameters: {
+			type: "object",
+			properties: {
+				question: {
+					type: "string",
+					description: "A clear, specific question that addresses the information you need.",
+				},
+				follow_up: {
+					type: "string",
+					description: "2-4 complete suggested answers, each in its own <suggest> tag, ordered by priority.",
+				},
+			},
+			required: ["question", "follow_up"],
+		},
+	}
+}
@@ -1,3 +1,5 @@
+import { ToolSchema } from "./types"
+
 export function getAttemptCompletionDescription(): string {
 	return `## attempt_completion
 Description: After each tool use, the user will respond with the result of that tool use, i.e. if it succeeded or failed, along with any reasons for failure. Once you've received the results of tool uses and can confirm that the task is complete, use this tool to present the result of your work to the user. Optionally you may provide a CLI command to showcase the result of your work. The user may respond with feedback if they are not satisfied with the result, which you can use to make improvements and try again.
@@ -21,3 +23,25 @@ I've updated the CSS
 <command>open index.html</command>
 </attempt_completion>`
 }
+
+export function getAttemptCompletionToolSchema(): ToolSchema {
+	return {
+		name: "attempt_completion",
+		description:
+			"Present the result of the task to the user once all previous tool uses have been confirmed successful.",
+		parameters: {
+			type: "object",
+			properties: {
+				result: {
+					type: "string",
+					description: "The final result of the task, without questions or offers for further assistance.",
+				},
+				command: {
+					type: "string",
+					description: "A CLI command that shows a live demo of the result to the user.",
+				},
+			},
+			required: ["result"],
+		},
+	}
+}
@@ -1,48 +1,78 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getBrowserActionDescription(args: ToolArgs): string | undefined {
 	if (!args.supportsComputerUse) {
 		return undefined
 	}
 	return `## browser_action
-Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\`, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
+Description: Request to interact with a Puppeteer-controlled browser. Every action, except \`close\` and the actions that query the recorded network traffic and console messages, will be responded to with a screenshot of the browser's current state, along with any new console logs. You may only perform one browser action per message, and wait for the user's response including a screenshot and logs to determine the next action.
 - The sequence of actions **must always start with** launching the browser at a URL, and **must always end with** closing the browser. If you need to visit a new URL that is not possible to navigate to from the current webpage, you must first close the browser, then launch again at the new URL.
 - While the browser is active, only the \`browser_action\` tool can be used. No other tools should be called during this time. You may proceed to use other tools only after closing the browser. For example if you run into an error and need to fix a file, you must close the browser, then use other tools to make the necessary changes, then re-launch the browser to verify the result.
 - The browser window has a resolution of **${args.browserViewportSize}** pixels. When performing any click actions, ensure the coordinates are within this resolution range.
-- Before clicking on any elements such as icons, links, or buttons, you must consult the provided screenshot of the page to determine the coordinates of the element. The click should be targeted at the **center of the element**, not on its edges.
+- Elements can be targeted either by coordinates or by a selector. When using coordinates, you must consult the provided screenshot of the page to determine the coordinates of the element, and target the **center of the element**, not its edges. Selectors are more reliable, especially the element refs of a \`snapshot\`.
 Parameters:
 - action: (required) The action to perform. The available actions are:
     * launch: Launch a new Puppeteer-controlled browser instance at the specified URL. This **must always be the first action**.
         - Use with the \`url\` parameter to provide the URL.
         - Ensure the URL is valid and includes the appropriate protocol (e.g. http://localhost:3000/page, file:///path/to/file.html, etc.)
-    * hover: Move the cursor to a specific x,y coordinate.
-        - Use with the \`coordinate\` parameter to specify the location.
-        - Always move to the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
-    * click: Click at a specific x,y coordinate.
-        - Use with the \`coordinate\` parameter to specify the location.
-        - Always click in the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
+    * snapshot: Capture the accessibility tree of the page, listing its elements with their roles and names. Interactive elements get refs like \`e12\` that stay the same across snapshots and can be used as selectors.
+    * hover: Move the cursor to an element.
+        - Use with the \`selector\` parameter, or with the \`coordinate\` parameter to specify the location.
+        - When using coordinates, always move to the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
+    * click: Click on an element.
+        - Use with the \`selector\` parameter, or with the \`coordinate\` parameter to specify the location.
+        - When using coordinates, always click in the center of an element (icon, button, link, etc.) based on coordinates derived from a screenshot.
     * type: Type a string of text on the keyboard. You might use this after clicking on a text field to input text.
         - Use with the \`text\` parameter to provide the string to type.
+        - Use with the \`selector\` parameter to focus an element before typing.
+    * press: Press a key or a key combination, e.g. \`Enter\`, \`Escape\`, \`ArrowDown\` or \`Control+A\`.
+        - Use with the \`text\` parameter to provide the key or key combination.
+        - Use with the \`selector\` parameter to focus an element before pressing.
+    * select_option: Select an option of a \`<select>\` element.
+        - Use with the \`selector\` parameter for the element and the \`text\` parameter for the value or label of the option.
+    * upload_file: Set the file of an \`<input type="file">\` element.
+        - Use with the \`selector\` parameter for the element and the \`path\` parameter for the file (relative to the current workspace directory ${args.cwd}).
+    * wait_for: Wait up to 10 seconds for an element or some text to appear on the page.
+        - Use with the \`selector\` parameter to wait for an element, or with the \`text\` parameter to wait for text.
+    * network_log: List the requests made since the browser was launched, with their status codes, sizes and durations. The request and response bodies (up to 64 KB) are included when at most 5 requests match.
+        - Use with the \`url\` parameter to only list requests whose URL contains the text or matches a pattern with \`*\` wildcards.
+        - Use with the \`status\` parameter to only list requests with a status code (e.g. \`404\`), a class of status codes (e.g. \`5xx\`), or \`failed\` for requests that failed or got an error status.
+    * console_log: List the console messages and uncaught exceptions since the browser was launched.
+        - Use with the \`url\` parameter to only list messages from scripts whose URL contains the text or matches a pattern with \`*\` wildcards.
+        - Use with the \`text\` parameter to only list messages containing the text. Use \`error\` for errors and uncaught exceptions.
+    * export_har: Save the requests made since the browser was launched as a HAR file.
+        - Use with the \`path\` parameter for the file (relative to the current workspace directory ${args.cwd}).
     * resize: Resize the viewport to a specific w,h size.
         - Use with the \`size\` parameter to specify the new size.
     * scroll_down: Scroll down the page by one page height.
     * scroll_up: Scroll up the page by one page height.
     * close: Close the Puppeteer-controlled browser instance. This **must always be the final browser action**.
         - Example: \`<action>close</action>\`
-- url: (optional) Use this for providing the URL for the \`launch\` action.
+- url: (optional) Use this for providing the URL for the \`launch\` action, or the URL pattern for the \`network_log\` and \`console_log\` actions.
     * Example: <url>https://example.com</url>
+    * Example: <url>*/api/*</url>
 - coordinate: (optional) The X and Y coordinates for the \`click\` and \`hover\` actions. Coordinates should be within the **${args.browserViewportSize}** resolution.
     * Example: <coordinate>450,300</coordinate>
+- selector: (optional) The element to act on. Use \`ref=<ref>\` for an element ref of a snapshot, \`text=<text>\` for the smallest element containing some text, \`aria/<name>[role="<role>"]\` for the accessible name and role of an element, or a CSS selector.
+    * Example: <selector>ref=e12</selector>
+    * Example: <selector>aria/Sign in[role="button"]</selector>
+    * Example: <selector>#email</selector>
 - size: (optional) The width and height for the \`resize\` action.
     * Example: <size>1280,720</size>
-- text: (optional) Use this for providing the text for the \`type\` action.
+- status: (optional) The status filter for the \`network_log\` action.
+    * Example: <status>failed</status>
+- text: (optional) Use this for providing the text for the \`type\`, \`press\`, \`select_option\`, \`wait_for\` and \`console_log\` actions.
     * Example: <text>Hello, world!</text>
+- path: (optional) The file for the \`upload_file\` and \`export_har\` actions.
+    * Example: <path>fixtures/avatar.png</path>
 Usage:
 <browser_action>
-<action>Action to perform (e.g., launch, click, type, scroll_down, scroll_up, close)</action>
+<action>Action to perform (e.g., launch, snapshot, click, type, press, network_log, scroll_down, scroll_up, close)</action>
 <url>URL to launch the browser at (optional)</url>
 <coordinate>x,y coordinates (optional)</coordinate>
+<selector>Element selector (optional)</selector>
 <text>Text to type (optional)</text>
+<status>Status filter (optional)</status>
 </browser_action>
 
 Example: Requesting to launch a browser at https://example.com
@@ -55,5 +85,69 @@ Example: Requesting to click on the element at coordinates 450,300
 <browser_action>
 <action>click</action>
 <coordinate>450,300</coordinate>
+</browser_action>
+
+Example: Requesting to click on the element with the ref e12 from a snapshot
+<browser_action>
+<action>click</action>
+<selector>ref=e12</selector>
+</browser_action>
+
+Example: Requesting to list the API requests that failed
+<browser_action>
+<action>network_log</action>
+<url>*/api/*</url>
+<status>failed</status>
 </browser_action>`
 }
+
+export function getBrowserActionToolSchema(args: ToolArgs): ToolSchema | undefined {
+	if (!args.supportsComputerUse) {
+		return undefined
+	}
+	return {
+		name: "browser_action",
+		description:
+			"Interact with a Puppeteer-controlled browser. Every action except close, network_log, console_log and export_har responds with a screenshot and the new console logs.",
+		parameters: {
+			type: "object",
+			properties: {
+				action: {
+					type: "string",
+					description:
+						"The action to perform: launch, snapshot, hover, click, type, press, select_option, upload_file, wait_for, network_log, console_log, export_har, resize, scroll_down, scroll_up or close. snapshot returns the accessibility tree of the page with refs for its interactive elements. network_log and console_log list the requests and console messages recorded since launch, and export_har saves the requests as a HAR file.",
+				},
+				url: {
+					type: "string",
+					description:
+						"The URL for the launch action, or a URL substring or pattern with * wildcards to filter the network_log and console_log actions.",
+				},
+				coordinate: {
+					type: "string",
+					description: `The x,y coordinates for the click and hover actions, within the ${args.browserViewportSize} resolution (e.g. "450,300").`,
+				},
+				selector: {
+					type: "string",
+					description:
+						'The element for the click, hover, type, press, select_option, upload_file and wait_for actions: ref=<ref> for a ref of a snapshot, text=<text>, aria/<name>[role="<role>"] or a CSS selector.',
+				},
+				status: {
+					type: "string",
+					description:
+						'The status filter for the network_log action: a status code (e.g. "404"), a class (e.g. "5xx") or "failed".',
+				},
+				size: { type: "string", description: 'The w,h size for the resize action (e.g. "1280,720").' },
+				text: {
+					type: "string",
+					description:
+						"The text for the type action, the key or key combination for the press action (e.g. Control+A), the option for the select_option action, the text to wait for, or the text to filter the console_log action by.",
+				},
+				path: {
+					type: "string",
+					description: `The file for the upload_file and export_har actions, relative to ${args.cwd}.`,
+				},
+			},
+			required: ["action"],
+		},
+	}
+}
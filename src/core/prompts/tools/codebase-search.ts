@@ -0,0 +1,46 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getCodebaseSearchDescription(args: ToolArgs): string | undefined {
+	if (!args.codebaseSearchEnabled) {
+		return undefined
+	}
+	return `## codebase_search
+Description: Request to find code by meaning rather than by exact text, using a semantic index of the workspace. Use this tool first when you don't know where something is implemented or which files are relevant, e.g. "where are user sessions validated" or "retry logic for failed API requests". Results are ranked by relevance and include the file path, line range, and the source code of the matching function, class or section. Use search_files instead when you know the exact text or pattern to look for.
+Parameters:
+- query: (required) A natural language description of the code you are looking for.
+- path: (optional) Limit the search to this directory (relative to the current working directory ${args.cwd}). Defaults to the whole workspace.
+Usage:
+<codebase_search>
+<query>Your search query here</query>
+<path>Directory path here (optional)</path>
+</codebase_search>
+
+Example: Requesting to find where authentication tokens are refreshed
+<codebase_search>
+<query>refresh expired authentication tokens</query>
+</codebase_search>`
+}
+
+export function getCodebaseSearchToolSchema(args: ToolArgs): ToolSchema | undefined {
+	if (!args.codebaseSearchEnabled) {
+		return undefined
+	}
+	return {
+		name: "codebase_search",
+		description: "Find code by meaning rather than by exact text, using a semantic index of the workspace.",
+		parameters: {
+			type: "object",
+			properties: {
+				query: {
+					type: "string",
+					description: "A natural language description of the code you are looking for.",
+				},
+				path: {
+					type: "string",
+					description: `Limit the search to this directory (relative to the current working directory ${args.cwd}). Defaults to the whole workspace.`,
+				},
+			},
+			required: ["query"],
+		},
+	}
+}
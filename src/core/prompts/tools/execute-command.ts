@@ -1,20 +1,31 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getExecuteCommandDescription(args: ToolArgs): string | undefined {
 	return `## execute_command
-Description: Request to execute a CLI command on the system. Use this when you need to perform system operations or run specific commands to accomplish any step in the user's task. You must tailor your command to the user's system and provide a clear explanation of what the command does. For command chaining, use the appropriate chaining syntax for the user's shell. Prefer to execute complex CLI commands over creating executable scripts, as they are more flexible and easier to run. Prefer relative commands and paths that avoid location sensitivity for terminal consistency, e.g: \`touch ./testdata/example.file\`, \`dir ./examples/model1/data/yaml\`, or \`go test ./cmd/front --config ./cmd/front/config.yml\`. If directed by the user, you may open a terminal in a different directory by using the \`cwd\` parameter.
+Description: Request to execute a CLI command on the system. Use this when you need to perform system operations or run specific commands to accomplish any step in the user's task. You must tailor your command to the user's system and provide a clear explanation of what the command does. For command chaining, use the appropriate chaining syntax for the user's shell. Prefer to execute complex CLI commands over creating executable scripts, as they are more flexible and easier to run. Prefer relative commands and paths that avoid location sensitivity for terminal consistency, e.g: \`touch ./testdata/example.file\`, \`dir ./examples/model1/data/yaml\`, or \`go test ./cmd/front --config ./cmd/front/config.yml\`. If directed by the user, you may open a terminal in a different directory by using the \`cwd\` parameter. Commands that keep running, like dev servers and watchers, should be started as named background processes: they run in a terminal of their own, their output is kept so you can read it with read_process_output, and they can be stopped with stop_process.
 Parameters:
 - command: (required) The CLI command to execute. This should be valid for the current operating system. Ensure the command is properly formatted and does not contain any harmful instructions.
 - cwd: (optional) The working directory to execute the command in (default: ${args.cwd})
+- background: (optional) Set to "true" to start the command as a background process. The tool returns once the process has started printing output or exited.
+- name: (required when background is "true") A short unique name for the background process, e.g. "dev-server".
 Usage:
 <execute_command>
 <command>Your command here</command>
 <cwd>Working directory path (optional)</cwd>
+<background>true or false (optional)</background>
+<name>Process name (required for background processes)</name>
 </execute_command>
 
-Example: Requesting to execute npm run dev
+Example: Requesting to execute npm run build
+<execute_command>
+<command>npm run build</command>
+</execute_command>
+
+Example: Requesting to start a dev server in the background
 <execute_command>
 <command>npm run dev</command>
+<background>true</background>
+<name>dev-server</name>
 </execute_command>
 
 Example: Requesting to execute ls in a specific directory if directed
@@ -23,3 +34,32 @@ Example: Requesting to execute ls in a specific directory if directed
 <cwd>/home/user/projects</cwd>
 </execute_command>`
 }
+
+export function getExecuteCommandToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "execute_command",
+		description: "Execute a CLI command on the system and return its output.",
+		parameters: {
+			type: "object",
+			properties: {
+				command: {
+					type: "string",
+					description: "The CLI command to execute. This should be valid for the current operating system.",
+				},
+				cwd: {
+					type: "string",
+					description: `The working directory to execute the command in (default: ${args.cwd})`,
+				},
+				background: {
+					type: "string",
+					description: '"true" to start a long-running command, like a dev server, as a background process.',
+				},
+				name: {
+					type: "string",
+					description: 'A short unique name for the background process, required when background is "true".',
+				},
+			},
+			required: ["command"],
+		},
+	}
+}
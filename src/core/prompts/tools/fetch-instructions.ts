@@ -1,3 +1,5 @@
+import { ToolSchema } from "./types"
+
 export function getFetchInstructionsDescription(): string {
 	return `## fetch_instructions
 Description: Request to fetch instructions to perform a task
@@ -12,3 +14,20 @@ Example: Requesting instructions to create an MCP Server
 <task>create_mcp_server</task>
 </fetch_instructions>`
 }
+
+export function getFetchInstructionsToolSchema(): ToolSchema {
+	return {
+		name: "fetch_instructions",
+		description: "Fetch instructions to perform a task.",
+		parameters: {
+			type: "object",
+			properties: {
+				task: {
+					type: "string",
+					description: "The task to get instructions for: create_mcp_server or create_mode.",
+				},
+			},
+			required: ["task"],
+		},
+	}
+}
@@ -0,0 +1,49 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getFindReferencesDescription(args: ToolArgs): string {
+	return `## find_references
+Description: Request to find all references to a symbol across the workspace, using the language server of the file type (the same as "Find All References" in the editor). Use this before changing the signature or behavior of a function, class or variable to find every place that needs to be updated; unlike search_files, it doesn't match unrelated symbols with the same name. Returns the file path, line and column of each reference with the surrounding lines.
+Parameters:
+- path: (required) The path of a file containing the symbol (relative to the current workspace directory ${args.cwd})
+- symbol: (optional) The name of the symbol, qualified with the names of its enclosing definitions if needed (e.g. UserService.save). Its first occurrence in the file is used.
+- line: (optional) The line of the symbol (1-based). Required if symbol is not provided.
+- column: (optional) The column of the symbol on the line (1-based). Defaults to the first non-whitespace character of the line.
+Usage:
+<find_references>
+<path>File path here</path>
+<symbol>Symbol name here (optional)</symbol>
+<line>Line number (optional)</line>
+<column>Column number (optional)</column>
+</find_references>
+
+Example: Finding all callers of a method
+<find_references>
+<path>src/services/user-service.ts</path>
+<symbol>UserService.save</symbol>
+</find_references>`
+}
+
+export function getFindReferencesToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "find_references",
+		description:
+			"Find all references to a symbol across the workspace using the language server, identified by its name or position in a file.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of a file containing the symbol (relative to the current workspace directory ${args.cwd})`,
+				},
+				symbol: {
+					type: "string",
+					description:
+						"The name of the symbol, qualified with its enclosing definitions if needed (e.g. UserService.save).",
+				},
+				line: { type: "string", description: "The line of the symbol (1-based). Required without symbol." },
+				column: { type: "string", description: "The column of the symbol on the line (1-based)." },
+			},
+			required: ["path"],
+		},
+	}
+}
@@ -0,0 +1,50 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getGetHoverDescription(args: ToolArgs): string {
+	return `## get_hover
+Description: Request the information the editor shows when hovering over a symbol, using the language server of the file type. This usually includes the inferred type or signature of the symbol and its documentation, which is useful to understand variables without explicit types or the API of a dependency without reading its source.
+Parameters:
+- path: (required) The path of the file containing the symbol (relative to the current workspace directory ${args.cwd})
+- symbol: (optional) The name of the symbol, qualified with the names of its enclosing definitions if needed (e.g. UserService.save). Its first occurrence in the file is used.
+- line: (optional) The line of the symbol (1-based). Required if symbol is not provided.
+- column: (optional) The column of the symbol on the line (1-based). Defaults to the first non-whitespace character of the line.
+Usage:
+<get_hover>
+<path>File path here</path>
+<symbol>Symbol name here (optional)</symbol>
+<line>Line number (optional)</line>
+<column>Column number (optional)</column>
+</get_hover>
+
+Example: Getting the type of the variable at line 18, column 9
+<get_hover>
+<path>src/app.ts</path>
+<line>18</line>
+<column>9</column>
+</get_hover>`
+}
+
+export function getGetHoverToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "get_hover",
+		description:
+			"Get the type, signature and documentation of a symbol that the editor shows on hover, identified by its name or position in a file.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file containing the symbol (relative to the current workspace directory ${args.cwd})`,
+				},
+				symbol: {
+					type: "string",
+					description:
+						"The name of the symbol, qualified with its enclosing definitions if needed (e.g. UserService.save).",
+				},
+				line: { type: "string", description: "The line of the symbol (1-based). Required without symbol." },
+				column: { type: "string", description: "The column of the symbol on the line (1-based)." },
+			},
+			required: ["path"],
+		},
+	}
+}
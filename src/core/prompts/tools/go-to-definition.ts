@@ -0,0 +1,58 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getGoToDefinitionDescription(args: ToolArgs): string {
+	return `## go_to_definition
+Description: Request to find where a symbol is defined, using the language server of the file type (the same as "Go to Definition" in the editor). Unlike text search, this follows imports and resolves the exact declaration, also in dependencies. The symbol is identified by its name or by its position in a file where it is used. Returns the file path, line and column of each definition with the surrounding lines.
+Parameters:
+- path: (required) The path of the file containing the symbol (relative to the current workspace directory ${args.cwd})
+- symbol: (optional) The name of the symbol, qualified with the names of its enclosing definitions if needed (e.g. UserService.save). Its first occurrence in the file is used.
+- line: (optional) The line of the symbol (1-based). Required if symbol is not provided.
+- column: (optional) The column of the symbol on the line (1-based). Defaults to the first non-whitespace character of the line.
+Usage:
+<go_to_definition>
+<path>File path here</path>
+<symbol>Symbol name here (optional)</symbol>
+<line>Line number (optional)</line>
+<column>Column number (optional)</column>
+</go_to_definition>
+
+Examples:
+
+1. Finding the definition of a function called in a file:
+<go_to_definition>
+<path>src/app.ts</path>
+<symbol>createServer</symbol>
+</go_to_definition>
+
+2. Finding the definition of the symbol at line 42, column 15:
+<go_to_definition>
+<path>src/app.ts</path>
+<line>42</line>
+<column>15</column>
+</go_to_definition>`
+}
+
+export function getGoToDefinitionToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "go_to_definition",
+		description:
+			"Find where a symbol is defined using the language server, identified by its name or position in a file.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file containing the symbol (relative to the current workspace directory ${args.cwd})`,
+				},
+				symbol: {
+					type: "string",
+					description:
+						"The name of the symbol, qualified with its enclosing definitions if needed (e.g. UserService.save).",
+				},
+				line: { type: "string", description: "The line of the symbol (1-based). Required without symbol." },
+				column: { type: "string", description: "The column of the symbol on the line (1-based)." },
+			},
+			required: ["path"],
+		},
+	}
+}
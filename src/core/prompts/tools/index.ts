@@ -1,24 +1,36 @@
-import { getExecuteCommandDescription } from "./execute-command"
-import { getReadFileDescription } from "./read-file"
-import { getFetchInstructionsDescription } from "./fetch-instructions"
-import { getWriteToFileDescription } from "./write-to-file"
-import { getSearchFilesDescription } from "./search-files"
-import { getListFilesDescription } from "./list-files"
-import { getInsertContentDescription } from "./insert-content"
-import { getSearchAndReplaceDescription } from "./search-and-replace"
-import { getListCodeDefinitionNamesDescription } from "./list-code-definition-names"
-import { getBrowserActionDescription } from "./browser-action"
-import { getAskFollowupQuestionDescription } from "./ask-followup-question"
-import { getAttemptCompletionDescription } from "./attempt-completion"
-import { getUseMcpToolDescription } from "./use-mcp-tool"
-import { getAccessMcpResourceDescription } from "./access-mcp-resource"
-import { getSwitchModeDescription } from "./switch-mode"
-import { getNewTaskDescription } from "./new-task"
+import { getExecuteCommandDescription, getExecuteCommandToolSchema } from "./execute-command"
+import { getReadFileDescription, getReadFileToolSchema } from "./read-file"
+import { getFetchInstructionsDescription, getFetchInstructionsToolSchema } from "./fetch-instructions"
+import { getWriteToFileDescription, getWriteToFileToolSchema } from "./write-to-file"
+import { getSearchFilesDescription, getSearchFilesToolSchema } from "./search-files"
+import { getListFilesDescription, getListFilesToolSchema } from "./list-files"
+import { getInsertContentDescription, getInsertContentToolSchema } from "./insert-content"
+import { getSearchAndReplaceDescription, getSearchAndReplaceToolSchema } from "./search-and-replace"
+import { getRenameSymbolDescription, getRenameSymbolToolSchema } from "./rename-symbol"
+import { getApplyCodeActionDescription, getApplyCodeActionToolSchema } from "./apply-code-action"
+import {
+	getListCodeDefinitionNamesDescription,
+	getListCodeDefinitionNamesToolSchema,
+} from "./list-code-definition-names"
+import { getCodebaseSearchDescription, getCodebaseSearchToolSchema } from "./codebase-search"
+import { getGoToDefinitionDescription, getGoToDefinitionToolSchema } from "./go-to-definition"
+import { getFindReferencesDescription, getFindReferencesToolSchema } from "./find-references"
+import { getGetHoverDescription, getGetHoverToolSchema } from "./get-hover"
+import { getSearchWorkspaceSymbolsDescription, getSearchWorkspaceSymbolsToolSchema } from "./search-workspace-symbols"
+import { getReadProcessOutputDescription, getReadProcessOutputToolSchema } from "./read-process-output"
+import { getStopProcessDescription, getStopProcessToolSchema } from "./stop-process"
+import { getBrowserActionDescription, getBrowserActionToolSchema } from "./browser-action"
+import { getAskFollowupQuestionDescription, getAskFollowupQuestionToolSchema } from "./ask-followup-question"
+import { getAttemptCompletionDescription, getAttemptCompletionToolSchema } from "./attempt-completion"
+import { getUseMcpToolDescription, getUseMcpToolToolSchema } from "./use-mcp-tool"
+import { getAccessMcpResourceDescription, getAccessMcpResourceToolSchema } from "./access-mcp-resource"
+import { getSwitchModeDescription, getSwitchModeToolSchema } from "./switch-mode"
+import { getNewTaskDescription, getNewTaskToolSchema } from "./new-task"
 import { DiffStrategy } from "../../diff/DiffStrategy"
 import { McpHub } from "../../../services/mcp/McpHub"
 import { Mode, ModeConfig, getModeConfig, isToolAllowedForMode, getGroupName } from "../../../shared/modes"
 import { ToolName, TOOL_GROUPS, ALWAYS_AVAILABLE_TOOLS } from "../../../shared/tool-groups"
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 // Map of tool names to their description functions
 const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined> = {
@@ -29,6 +41,13 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	search_files: (args) => getSearchFilesDescription(args),
 	list_files: (args) => getListFilesDescription(args),
 	list_code_definition_names: (args) => getListCodeDefinitionNamesDescription(args),
+	codebase_search: (args) => getCodebaseSearchDescription(args),
+	go_to_definition: (args) => getGoToDefinitionDescription(args),
+	find_references: (args) => getFindReferencesDescription(args),
+	get_hover: (args) => getGetHoverDescription(args),
+	search_workspace_symbols: () => getSearchWorkspaceSymbolsDescription(),
+	read_process_output: () => getReadProcessOutputDescription(),
+	stop_process: () => getStopProcessDescription(),
 	browser_action: (args) => getBrowserActionDescription(args),
 	ask_followup_question: () => getAskFollowupQuestionDescription(),
 	attempt_completion: () => getAttemptCompletionDescription(),
@@ -38,29 +57,70 @@ const toolDescriptionMap: Record<string, (args: ToolArgs) => string | undefined>
 	new_task: (args) => getNewTaskDescription(args),
 	insert_content: (args) => getInsertContentDescription(args),
 	search_and_replace: (args) => getSearchAndReplaceDescription(args),
+	rename_symbol: (args) => getRenameSymbolDescription(args),
+	apply_code_action: (args) => getApplyCodeActionDescription(args),
 	apply_diff: (args) =>
 		args.diffStrategy ? args.diffStrategy.getToolDescription({ cwd: args.cwd, toolOptions: args.toolOptions }) : "",
 }
 
-export function getToolDescriptionsForMode(
+// Map of tool names to their schema functions, used for native tool calling
+const toolSchemaMap: Record<string, (args: ToolArgs) => ToolSchema | undefined> = {
+	execute_command: (args) => getExecuteCommandToolSchema(args),
+	read_file: (args) => getReadFileToolSchema(args),
+	fetch_instructions: () => getFetchInstructionsToolSchema(),
+	write_to_file: (args) => getWriteToFileToolSchema(args),
+	search_files: (args) => getSearchFilesToolSchema(args),
+	list_files: (args) => getListFilesToolSchema(args),
+	list_code_definition_names: (args) => getListCodeDefinitionNamesToolSchema(args),
+	codebase_search: (args) => getCodebaseSearchToolSchema(args),
+	go_to_definition: (args) => getGoToDefinitionToolSchema(args),
+	find_references: (args) => getFindReferencesToolSchema(args),
+	get_hover: (args) => getGetHoverToolSchema(args),
+	search_workspace_symbols: () => getSearchWorkspaceSymbolsToolSchema(),
+	read_process_output: () => getReadProcessOutputToolSchema(),
+	stop_process: () => getStopProcessToolSchema(),
+	browser_action: (args) => getBrowserActionToolSchema(args),
+	ask_followup_question: () => getAskFollowupQuestionToolSchema(),
+	attempt_completion: () => getAttemptCompletionToolSchema(),
+	use_mcp_tool: (args) => getUseMcpToolToolSchema(args),
+	access_mcp_resource: (args) => getAccessMcpResourceToolSchema(args),
+	switch_mode: () => getSwitchModeToolSchema(),
+	new_task: () => getNewTaskToolSchema(),
+	insert_content: (args) => getInsertContentToolSchema(args),
+	search_and_replace: (args) => getSearchAndReplaceToolSchema(args),
+	rename_symbol: (args) => getRenameSymbolToolSchema(args),
+	apply_code_action: (args) => getApplyCodeActionToolSchema(args),
+	apply_diff: (args) =>
+		args.diffStrategy
+			? {
+					name: "apply_diff",
+					description:
+						"Apply changes to an existing file. The diff must follow the format described in the apply_diff tool description.",
+					parameters: {
+						type: "object",
+						properties: {
+							path: {
+								type: "string",
+								description: `The path of the file to modify (relative to the current workspace directory ${args.cwd})`,
+							},
+							diff: { type: "string", description: "The changes to apply to the file." },
+						},
+						required: ["path", "diff"],
+					},
+				}
+			: undefined,
+}
+
+/**
+ * Returns the tools available in a mode: the tools of the mode's groups
+ * that are allowed for it, and the tools that are always available.
+ */
+function getToolNamesForMode(
 	mode: Mode,
-	cwd: string,
-	supportsComputerUse: boolean,
-	diffStrategy?: DiffStrategy,
-	browserViewportSize?: string,
-	mcpHub?: McpHub,
 	customModes?: ModeConfig[],
 	experiments?: Record<string, boolean>,
-): string {
+): Set<string> {
 	const config = getModeConfig(mode, customModes)
-	const args: ToolArgs = {
-		cwd,
-		supportsComputerUse,
-		diffStrategy,
-		browserViewportSize,
-		mcpHub,
-	}
-
 	const tools = new Set<string>()
 
 	// Add tools from mode's groups
@@ -79,6 +139,31 @@ export function getToolDescriptionsForMode(
 	// Add always available tools
 	ALWAYS_AVAILABLE_TOOLS.forEach((tool) => tools.add(tool))
 
+	return tools
+}
+
+export function getToolDescriptionsForMode(
+	mode: Mode,
+	cwd: string,
+	supportsComputerUse: boolean,
+	diffStrategy?: DiffStrategy,
+	browserViewportSize?: string,
+	mcpHub?: McpHub,
+	customModes?: ModeConfig[],
+	experiments?: Record<string, boolean>,
+	codebaseSearchEnabled?: boolean,
+): string {
+	const args: ToolArgs = {
+		cwd,
+		supportsComputerUse,
+		diffStrategy,
+		browserViewportSize,
+		mcpHub,
+		codebaseSearchEnabled,
+	}
+
+	const tools = getToolNamesForMode(mode, customModes, experiments)
+
 	// Map tool descriptions for allowed tools
 	const descriptions = Array.from(tools).map((toolName) => {
 		const descriptionFn = toolDescriptionMap[toolName]
@@ -95,6 +180,31 @@ export function getToolDescriptionsForMode(
 	return `# Tools\n\n${descriptions.filter(Boolean).join("\n\n")}`
 }
 
+export function getToolSchemasForMode(
+	mode: Mode,
+	cwd: string,
+	supportsComputerUse: boolean,
+	diffStrategy?: DiffStrategy,
+	browserViewportSize?: string,
+	mcpHub?: McpHub,
+	customModes?: ModeConfig[],
+	experiments?: Record<string, boolean>,
+	codebaseSearchEnabled?: boolean,
+): ToolSchema[] {
+	const args: ToolArgs = {
+		cwd,
+		supportsComputerUse,
+		diffStrategy,
+		browserViewportSize,
+		mcpHub,
+		codebaseSearchEnabled,
+	}
+
+	return Array.from(getToolNamesForMode(mode, customModes, experiments)).flatMap(
+		(toolName) => toolSchemaMap[toolName]?.(args) ?? [],
+	)
+}
+
 // Export individual description functions for backward compatibility
 export {
 	getExecuteCommandDescription,
@@ -104,6 +214,13 @@ export {
 	getSearchFilesDescription,
 	getListFilesDescription,
 	getListCodeDefinitionNamesDescription,
+	getCodebaseSearchDescription,
+	getGoToDefinitionDescription,
+	getFindReferencesDescription,
+	getGetHoverDescription,
+	getSearchWorkspaceSymbolsDescription,
+	getReadProcessOutputDescription,
+	getStopProcessDescription,
 	getBrowserActionDescription,
 	getAskFollowupQuestionDescription,
 	getAttemptCompletionDescription,
@@ -112,4 +229,6 @@ export {
 	getSwitchModeDescription,
 	getInsertContentDescription,
 	getSearchAndReplaceDescription,
+	getRenameSymbolDescription,
+	getApplyCodeActionDescription,
 }
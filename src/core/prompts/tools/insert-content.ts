@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getInsertContentDescription(args: ToolArgs): string {
 	return `## insert_content
@@ -33,3 +33,24 @@ Example: Insert a new function and its import statement
 ]</operations>
 </insert_content>`
 }
+
+export function getInsertContentToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "insert_content",
+		description: "Insert content at specific line positions in a file without overwriting existing content.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file to insert content into (relative to the current workspace directory ${args.cwd.toPosix()})`,
+				},
+				operations: {
+					type: "string",
+					description: "A JSON array of insertion operations, each an object with start_line and content.",
+				},
+			},
+			required: ["path", "operations"],
+		},
+	}
+}
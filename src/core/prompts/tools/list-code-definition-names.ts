@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getListCodeDefinitionNamesDescription(args: ToolArgs): string {
 	return `## list_code_definition_names
@@ -22,3 +22,21 @@ Examples:
 <path>src/</path>
 </list_code_definition_names>`
 }
+
+export function getListCodeDefinitionNamesToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "list_code_definition_names",
+		description:
+			"List definition names (classes, functions, methods, etc.) from a source file or the top-level source files of a directory.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file or directory to analyze (relative to the current working directory ${args.cwd})`,
+				},
+			},
+			required: ["path"],
+		},
+	}
+}
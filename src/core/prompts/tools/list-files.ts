@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getListFilesDescription(args: ToolArgs): string {
 	return `## list_files
@@ -18,3 +18,24 @@ Example: Requesting to list all files in the current directory
 <recursive>false</recursive>
 </list_files>`
 }
+
+export function getListFilesToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "list_files",
+		description: "List the files and directories within a directory.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the directory to list contents for (relative to the current workspace directory ${args.cwd})`,
+				},
+				recursive: {
+					type: "string",
+					description: '"true" to list files recursively, "false" or omitted for the top level only.',
+				},
+			},
+			required: ["path"],
+		},
+	}
+}
@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getNewTaskDescription(args: ToolArgs): string {
 	return `## new_task
@@ -21,3 +21,21 @@ Example:
 </new_task>
 `
 }
+
+export function getNewTaskToolSchema(): ToolSchema {
+	return {
+		name: "new_task",
+		description: "Create a new task with a specified starting mode and initial message.",
+		parameters: {
+			type: "object",
+			properties: {
+				mode: {
+					type: "string",
+					description: 'The slug of the mode to start the new task in (e.g. "code", "ask", "architect").',
+				},
+				message: { type: "string", description: "The initial user message or instructions for the new task." },
+			},
+			required: ["mode", "message"],
+		},
+	}
+}
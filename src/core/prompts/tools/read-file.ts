@@ -1,17 +1,19 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getReadFileDescription(args: ToolArgs): string {
 	return `## read_file
-Description: Request to read the contents of a file at the specified path. Use this when you need to examine the contents of an existing file you do not know the contents of, for example to analyze code, review text files, or extract information from configuration files. The output includes line numbers prefixed to each line (e.g. "1 | const x = 1"), making it easier to reference specific lines when creating diffs or discussing code. By specifying start_line and end_line parameters, you can efficiently read specific portions of large files without loading the entire file into memory. Automatically extracts raw text from PDF and DOCX files. May not be suitable for other types of binary files, as it returns the raw content as a string.
+Description: Request to read the contents of a file at the specified path. Use this when you need to examine the contents of an existing file you do not know the contents of, for example to analyze code, review text files, or extract information from configuration files. The output includes line numbers prefixed to each line (e.g. "1 | const x = 1"), making it easier to reference specific lines when creating diffs or discussing code. By specifying start_line and end_line parameters, you can efficiently read specific portions of large files without loading the entire file into memory. By specifying a symbol, you can read a single function, class or method by name without knowing its line numbers. Automatically extracts raw text from PDF and DOCX files. May not be suitable for other types of binary files, as it returns the raw content as a string.
 Parameters:
 - path: (required) The path of the file to read (relative to the current workspace directory ${args.cwd})
-- start_line: (optional) The starting line number to read from (1-based). If not provided, it starts from the beginning of the file.
+- start_line: (optional) The starting line number to read from (1-based). If not provided, it starts from the beginning of the file. Several ranges can be read at once with comma-separated lists of start_line and end_line values.
 - end_line: (optional) The ending line number to read to (1-based, inclusive). If not provided, it reads to the end of the file.
+- symbol: (optional) The name of a function, class, method or other definition to read, qualified with the names of its enclosing definitions if needed (e.g. UserService.save). Takes precedence over start_line and end_line.
 Usage:
 <read_file>
 <path>File path here</path>
 <start_line>Starting line number (optional)</start_line>
 <end_line>Ending line number (optional)</end_line>
+<symbol>Definition name (optional)</symbol>
 </read_file>
 
 Examples:
@@ -41,5 +43,50 @@ Examples:
 <end_line>68</end_line>
 </read_file>
 
+5. Reading a method of a class by name:
+<read_file>
+<path>src/services/user-service.ts</path>
+<symbol>UserService.save</symbol>
+</read_file>
+
+6. Reading lines 10-20 and 120-135 of a file in one call:
+<read_file>
+<path>src/app.ts</path>
+<start_line>10,120</start_line>
+<end_line>20,135</end_line>
+</read_file>
+
 Note: When both start_line and end_line are provided, this tool efficiently streams only the requested lines, making it suitable for processing large files like logs, CSV files, and other large datasets without memory issues.`
 }
+
+export function getReadFileToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "read_file",
+		description: "Read the contents of a file. Each line of the output is prefixed with its line number.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file to read (relative to the current workspace directory ${args.cwd})`,
+				},
+				start_line: {
+					type: "string",
+					description:
+						"The starting line number to read from (1-based). Reads from the beginning of the file if omitted. Comma-separated lists of start_line and end_line values read several ranges at once.",
+				},
+				end_line: {
+					type: "string",
+					description:
+						"The ending line number to read to (1-based, inclusive). Reads to the end of the file if omitted.",
+				},
+				symbol: {
+					type: "string",
+					description:
+						"The name of a definition to read, qualified with its enclosing definitions if needed (e.g. UserService.save). Takes precedence over start_line and end_line.",
+				},
+			},
+			required: ["path"],
+		},
+	}
+}
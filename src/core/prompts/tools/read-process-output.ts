@@ -0,0 +1,52 @@
+import { ToolSchema } from "./types"
+
+export function getReadProcessOutputDescription(): string {
+	return `## read_process_output
+Description: Request to read the output of a background process started with execute_command. The output of each process is kept while it runs and after it exits, and the environment details list the background processes with the number of lines you haven't read yet.
+Parameters:
+- name: (required) The name of the background process.
+- mode: (optional) How to select the lines to read: "tail" for the last lines (default), "since_last" for the lines printed since the last time you read them in this mode, or "grep" for the last lines matching a regular expression.
+- lines: (optional) The maximum number of lines to return (default: 50, or 200 in "since_last" mode).
+- regex: (required in "grep" mode) The regular expression to match lines against, in JavaScript regex syntax.
+Usage:
+<read_process_output>
+<name>Process name here</name>
+<mode>tail, since_last or grep (optional)</mode>
+<lines>Maximum number of lines (optional)</lines>
+<regex>Regular expression (grep mode only)</regex>
+</read_process_output>
+
+Example: Reading the new output of a dev server
+<read_process_output>
+<name>dev-server</name>
+<mode>since_last</mode>
+</read_process_output>
+
+Example: Finding the errors a watcher reported
+<read_process_output>
+<name>watch</name>
+<mode>grep</mode>
+<regex>error|warning</regex>
+</read_process_output>`
+}
+
+export function getReadProcessOutputToolSchema(): ToolSchema {
+	return {
+		name: "read_process_output",
+		description: "Read the output of a background process started with execute_command.",
+		parameters: {
+			type: "object",
+			properties: {
+				name: { type: "string", description: "The name of the background process." },
+				mode: {
+					type: "string",
+					description:
+						'"tail" for the last lines (default), "since_last" for the lines printed since the last read in this mode, or "grep" for the last lines matching a regex.',
+				},
+				lines: { type: "string", description: "The maximum number of lines to return." },
+				regex: { type: "string", description: 'The regular expression to match lines against in "grep" mode.' },
+			},
+			required: ["name"],
+		},
+	}
+}
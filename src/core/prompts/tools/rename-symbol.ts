@@ -0,0 +1,53 @@
+import { ToolArgs, ToolSchema } from "./types"
+
+export function getRenameSymbolDescription(args: ToolArgs): string {
+	return `## rename_symbol
+Description: Request to rename a symbol (variable, function, class, method, property, ...) everywhere it is used, using the language server of the file type (the same as "Rename Symbol" in the editor). Prefer this tool over editing the files for renames: it updates every reference across the workspace, including imports and re-exports, and leaves unrelated symbols with the same name and shadowed variables untouched. The changes to all files are shown to the user for approval before they are saved.
+Parameters:
+- path: (required) The path of a file containing the symbol (relative to the current workspace directory ${args.cwd})
+- symbol: (optional) The current name of the symbol, qualified with the names of its enclosing definitions if needed (e.g. UserService.save). Its first occurrence in the file is used.
+- line: (optional) The line of the symbol (1-based). Required if symbol is not provided.
+- column: (optional) The column of the symbol on the line (1-based). Defaults to the first non-whitespace character of the line.
+- new_name: (required) The new name of the symbol.
+Usage:
+<rename_symbol>
+<path>File path here</path>
+<symbol>Symbol name here (optional)</symbol>
+<line>Line number (optional)</line>
+<column>Column number (optional)</column>
+<new_name>New name here</new_name>
+</rename_symbol>
+
+Example: Renaming a method and all its callers
+<rename_symbol>
+<path>src/services/user-service.ts</path>
+<symbol>UserService.save</symbol>
+<new_name>persist</new_name>
+</rename_symbol>`
+}
+
+export function getRenameSymbolToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "rename_symbol",
+		description:
+			"Rename a symbol everywhere it is used with the language server, identified by its name or position in a file.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of a file containing the symbol (relative to the current workspace directory ${args.cwd})`,
+				},
+				symbol: {
+					type: "string",
+					description:
+						"The current name of the symbol, qualified with its enclosing definitions if needed (e.g. UserService.save).",
+				},
+				line: { type: "string", description: "The line of the symbol (1-based). Required without symbol." },
+				column: { type: "string", description: "The column of the symbol on the line (1-based)." },
+				new_name: { type: "string", description: "The new name of the symbol." },
+			},
+			required: ["path", "new_name"],
+		},
+	}
+}
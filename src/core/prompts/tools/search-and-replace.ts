@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getSearchAndReplaceDescription(args: ToolArgs): string {
 	return `## search_and_replace
@@ -50,3 +50,25 @@ Example: Replace all occurrences of "old" with "new" using regex
 ]</operations>
 </search_and_replace>`
 }
+
+export function getSearchAndReplaceToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "search_and_replace",
+		description: "Perform search and replace operations on a file.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file to modify (relative to the current workspace directory ${args.cwd.toPosix()})`,
+				},
+				operations: {
+					type: "string",
+					description:
+						"A JSON array of search/replace operations, each an object with search and replace and optionally start_line, end_line, use_regex, ignore_case and regex_flags.",
+				},
+			},
+			required: ["path", "operations"],
+		},
+	}
+}
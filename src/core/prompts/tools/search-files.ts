@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getSearchFilesDescription(args: ToolArgs): string {
 	return `## search_files
@@ -21,3 +21,29 @@ Example: Requesting to search for all .ts files in the current directory
 <file_pattern>*.ts</file_pattern>
 </search_files>`
 }
+
+export function getSearchFilesToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "search_files",
+		description:
+			"Perform a recursive regex search across the files of a directory and show each match with its surrounding context.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the directory to search in (relative to the current workspace directory ${args.cwd})`,
+				},
+				regex: {
+					type: "string",
+					description: "The regular expression pattern to search for, in Rust regex syntax.",
+				},
+				file_pattern: {
+					type: "string",
+					description: "Glob pattern to filter files (e.g. '*.ts'). Searches all files if omitted.",
+				},
+			},
+			required: ["path", "regex"],
+		},
+	}
+}
@@ -0,0 +1,31 @@
+import { ToolSchema } from "./types"
+
+export function getSearchWorkspaceSymbolsDescription(): string {
+	return `## search_workspace_symbols
+Description: Request to find classes, functions, variables and other symbols by name across the whole workspace, using the language servers of the editor (the same as "Go to Symbol in Workspace"). The query is matched fuzzily against symbol names, so partial names work. Returns the kind, name, file path, line and column of each symbol with the surrounding lines.
+Parameters:
+- query: (required) The name or part of the name of the symbols to find.
+Usage:
+<search_workspace_symbols>
+<query>Symbol name here</query>
+</search_workspace_symbols>
+
+Example: Finding the classes and functions related to sessions
+<search_workspace_symbols>
+<query>Session</query>
+</search_workspace_symbols>`
+}
+
+export function getSearchWorkspaceSymbolsToolSchema(): ToolSchema {
+	return {
+		name: "search_workspace_symbols",
+		description: "Find classes, functions, variables and other symbols by name across the workspace.",
+		parameters: {
+			type: "object",
+			properties: {
+				query: { type: "string", description: "The name or part of the name of the symbols to find." },
+			},
+			required: ["query"],
+		},
+	}
+}
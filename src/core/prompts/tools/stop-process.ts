@@ -0,0 +1,31 @@
+import { ToolSchema } from "./types"
+
+export function getStopProcessDescription(): string {
+	return `## stop_process
+Description: Request to stop a background process started with execute_command. The process is interrupted (like pressing Ctrl+C) and its terminal is closed. Stop the background processes you started once they are no longer needed.
+Parameters:
+- name: (required) The name of the background process.
+Usage:
+<stop_process>
+<name>Process name here</name>
+</stop_process>
+
+Example: Stopping a dev server
+<stop_process>
+<name>dev-server</name>
+</stop_process>`
+}
+
+export function getStopProcessToolSchema(): ToolSchema {
+	return {
+		name: "stop_process",
+		description: "Stop a background process started with execute_command.",
+		parameters: {
+			type: "object",
+			properties: {
+				name: { type: "string", description: "The name of the background process." },
+			},
+			required: ["name"],
+		},
+	}
+}
@@ -1,3 +1,5 @@
+import { ToolSchema } from "./types"
+
 export function getSwitchModeDescription(): string {
 	return `## switch_mode
 Description: Request to switch to a different mode. This tool allows modes to request switching to another mode when needed, such as switching to Code mode to make code changes. The user must approve the mode switch.
@@ -16,3 +18,21 @@ Example: Requesting to switch to code mode
 <reason>Need to make code changes</reason>
 </switch_mode>`
 }
+
+export function getSwitchModeToolSchema(): ToolSchema {
+	return {
+		name: "switch_mode",
+		description: "Request to switch to a different mode. The user must approve the mode switch.",
+		parameters: {
+			type: "object",
+			properties: {
+				mode_slug: {
+					type: "string",
+					description: 'The slug of the mode to switch to (e.g. "code", "ask", "architect").',
+				},
+				reason: { type: "string", description: "The reason for switching modes." },
+			},
+			required: ["mode_slug"],
+		},
+	}
+}
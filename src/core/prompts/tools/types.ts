@@ -1,5 +1,7 @@
 import { DiffStrategy } from "../../diff/DiffStrategy"
 import { McpHub } from "../../../services/mcp/McpHub"
+import { ApiToolDefinition } from "../../../api"
+import { ToolUseName } from "../../assistant-message"
 
 export type ToolArgs = {
 	cwd: string
@@ -7,5 +9,12 @@ export type ToolArgs = {
 	diffStrategy?: DiffStrategy
 	browserViewportSize?: string
 	mcpHub?: McpHub
+	codebaseSearchEnabled?: boolean
 	toolOptions?: any
 }
+
+/**
+ * The JSON schema of a tool, sent to providers that support native tool
+ * calling. All parameters are strings, like the XML tool parameters.
+ */
+export type ToolSchema = ApiToolDefinition & { name: ToolUseName }
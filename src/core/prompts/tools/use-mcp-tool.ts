@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getUseMcpToolDescription(args: ToolArgs): string | undefined {
 	if (!args.mcpHub) {
@@ -35,3 +35,26 @@ Example: Requesting to use an MCP tool
 </arguments>
 </use_mcp_tool>`
 }
+
+export function getUseMcpToolToolSchema(args: ToolArgs): ToolSchema | undefined {
+	if (!args.mcpHub) {
+		return undefined
+	}
+	return {
+		name: "use_mcp_tool",
+		description: "Use a tool provided by a connected MCP server.",
+		parameters: {
+			type: "object",
+			properties: {
+				server_name: { type: "string", description: "The name of the MCP server providing the tool." },
+				tool_name: { type: "string", description: "The name of the tool to execute." },
+				arguments: {
+					type: "string",
+					description:
+						"A JSON object containing the tool's input parameters, following the tool's input schema.",
+				},
+			},
+			required: ["server_name", "tool_name", "arguments"],
+		},
+	}
+}
@@ -1,4 +1,4 @@
-import { ToolArgs } from "./types"
+import { ToolArgs, ToolSchema } from "./types"
 
 export function getWriteToFileDescription(args: ToolArgs): string {
 	return `## write_to_file
@@ -38,3 +38,27 @@ Example: Requesting to write to frontend-config.json
 <line_count>14</line_count>
 </write_to_file>`
 }
+
+export function getWriteToFileToolSchema(args: ToolArgs): ToolSchema {
+	return {
+		name: "write_to_file",
+		description:
+			"Write the full content to a file, creating it and any missing directories if needed. An existing file is overwritten.",
+		parameters: {
+			type: "object",
+			properties: {
+				path: {
+					type: "string",
+					description: `The path of the file to write to (relative to the current workspace directory ${args.cwd})`,
+				},
+				content: {
+					type: "string",
+					description:
+						"The COMPLETE intended content of the file, without any truncation or omissions and without line numbers.",
+				},
+				line_count: { type: "string", description: "The number of lines in the file." },
+			},
+			required: ["path", "content", "line_count"],
+		},
+	}
+}
@@ -0,0 +1,155 @@
+// npx jest src/core/sliding-window/__tests__/condense.test.ts
+
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { ModelInfo } from "../../../shared/api"
+import { ApiStream } from "../../../api/transform/stream"
+import { BaseProvider } from "../../../api/providers/base-provider"
+import { condenseConversation, getContextWindowUsage } from "../index"
+import { getCondenseEndIndex, summarizeConversation, SUMMARY_PROMPT } from "../condense"
+
+class MockApiHandler extends BaseProvider {
+	public requests: { systemPrompt: string; messages: Anthropic.Messages.MessageParam[] }[] = []
+
+	constructor(private readonly response: string | Error = "Summary of the conversation") {
+		super()
+	}
+
+	async *createMessage(systemPrompt: string, messages: Anthropic.Messages.MessageParam[]): ApiStream {
+		this.requests.push({ systemPrompt, messages })
+
+		if (this.response instanceof Error) {
+			throw this.response
+		}
+
+		yield { type: "text", text: this.response }
+		yield { type: "usage", inputTokens: 100, outputTokens: 20, totalCost: 0.05 }
+	}
+
+	getModel(): { id: string; info: ModelInfo } {
+		return {
+			id: "test-model",
+			info: { contextWindow: 100000, maxTokens: 50000, supportsPromptCache: true },
+		}
+	}
+}
+
+const messages: Anthropic.Messages.MessageParam[] = [
+	{ role: "user", content: "First message" },
+	{ role: "assistant", content: "Second message" },
+	{ role: "user", content: "Third message" },
+	{ role: "assistant", content: "Fourth message" },
+	{ role: "user", content: "Fifth message" },
+]
+
+describe("getCondenseEndIndex", () => {
+	it("should end the condensed span on an assistant message", () => {
+		expect(getCondenseEndIndex(messages, 0.5)).toBe(3)
+	})
+
+	it("should never separate a tool_use from its tool_result", () => {
+		const withTools: Anthropic.Messages.MessageParam[] = [
+			{ role: "user", content: "First message" },
+			{ role: "assistant", content: [{ type: "tool_use", id: "1", name: "read_file", input: {} }] },
+			{ role: "user", content: [{ type: "tool_result", tool_use_id: "1", content: "result" }] },
+			{ role: "assistant", content: "Fourth message" },
+			{ role: "user", content: "Fifth message" },
+		]
+
+		expect(getCondenseEndIndex(withTools, 0.25)).toBe(3)
+	})
+
+	it("should return -1 when there is nothing to condense", () => {
+		expect(getCondenseEndIndex(messages.slice(0, 2), 0.5)).toBe(-1)
+	})
+})
+
+describe("summarizeConversation", () => {
+	it("should replace the condensed span with a summary message", async () => {
+		const apiHandler = new MockApiHandler()
+		const result = await summarizeConversation(messages, apiHandler, 0.5)
+
+		expect(result).toBeDefined()
+		expect(result!.summary).toBe("Summary of the conversation")
+		expect(result!.cost).toBe(0.05)
+		expect(result!.removedMessages).toEqual(messages.slice(1, 4))
+		expect(result!.messages).toEqual([messages[0], result!.summaryMessage, messages[4]])
+		expect(result!.summaryMessage.role).toBe("assistant")
+	})
+
+	it("should send the condensed span followed by a summary request", async () => {
+		const apiHandler = new MockApiHandler()
+		await summarizeConversation(messages, apiHandler, 0.5)
+
+		expect(apiHandler.requests).toHaveLength(1)
+		expect(apiHandler.requests[0].systemPrompt).toBe(SUMMARY_PROMPT)
+		expect(apiHandler.requests[0].messages.slice(0, 4)).toEqual(messages.slice(0, 4))
+		expect(apiHandler.requests[0].messages[4].role).toBe("user")
+	})
+
+	it("should convert tool blocks to text", async () => {
+		const apiHandler = new MockApiHandler()
+
+		await summarizeConversation(
+			[
+				{ role: "user", content: "First message" },
+				{ role: "assistant", content: [{ type: "tool_use", id: "1", name: "read_file", input: {} }] },
+				{ role: "user", content: [{ type: "tool_result", tool_use_id: "1", content: "result" }] },
+				{ role: "assistant", content: "Fourth message" },
+				{ role: "user", content: "Fifth message" },
+			],
+			apiHandler,
+			0.5,
+		)
+
+		const blocks = apiHandler.requests[0].messages.flatMap(({ content }) => (Array.isArray(content) ? content : []))
+		expect(blocks.every((block) => block.type === "text")).toBe(true)
+	})
+
+	it("should throw if the summary is empty", async () => {
+		await expect(summarizeConversation(messages, new MockApiHandler("  "), 0.5)).rejects.toThrow("empty summary")
+	})
+})
+
+describe("condenseConversation", () => {
+	const options = {
+		messages,
+		contextWindow: 100000,
+		maxTokens: 30000,
+		apiHandler: new MockApiHandler(),
+	}
+
+	it("should only be needed if tokens are above the threshold", async () => {
+		expect((await getContextWindowUsage({ ...options, totalTokens: 1000 })).isExceeded).toBe(false)
+		expect((await getContextWindowUsage({ ...options, totalTokens: 70001 })).isExceeded).toBe(true)
+	})
+
+	it("should condense with the condensing handler", async () => {
+		const condensingApiHandler = new MockApiHandler()
+		const longMessages = messages.map((message, i) =>
+			i === messages.length - 1 ? message : { ...message, content: `${message.content} `.repeat(100) },
+		)
+
+		const condenseOptions = { ...options, messages: longMessages, totalTokens: 70001, condensingApiHandler }
+		const { effectiveTokens } = await getContextWindowUsage(condenseOptions)
+		const result = await condenseConversation(condenseOptions, effectiveTokens)
+
+		expect(condensingApiHandler.requests).toHaveLength(1)
+		expect(result.error).toBeUndefined()
+		expect(result.summary).toBe("Summary of the conversation")
+		expect(result.cost).toBe(0.05)
+		expect(result.messages).toHaveLength(3)
+		expect(result.prevContextTokens).toBe(effectiveTokens)
+		expect(result.newContextTokens).toBeLessThan(result.prevContextTokens)
+	})
+
+	it("should fall back to truncation if summarizing fails", async () => {
+		const condensingApiHandler = new MockApiHandler(new Error("Rate limited"))
+		const result = await condenseConversation({ ...options, totalTokens: 70001, condensingApiHandler }, 70100)
+
+		expect(result.error).toBe("Rate limited")
+		expect(result.summary).toBeUndefined()
+		expect(result.cost).toBe(0)
+		expect(result.messages).toEqual([messages[0], messages[3], messages[4]])
+	})
+})
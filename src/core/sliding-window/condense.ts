@@ -0,0 +1,162 @@
+import { Anthropic } from "@anthropic-ai/sdk"
+
+import { ApiHandler } from "../../api"
+import { calculateApiCostAnthropic } from "../../utils/cost"
+
+export const SUMMARY_PROMPT = `\
+You are a helpful AI assistant tasked with summarizing conversations between a user and an AI coding agent.
+
+Your summary replaces the summarized messages in the agent's context window, so it must preserve everything the agent needs to continue the task without re-doing work:
+
+1. The user's original request and any refinements or feedback they gave along the way.
+2. Important technical decisions, conventions and constraints that were established.
+3. Files that were read, created or modified, with the relevant details (paths, function names, key snippets) the agent will likely need again.
+4. Commands that were run and their relevant results, including errors and how they were resolved.
+5. Work that is still pending and the next step the agent was about to take.
+
+Be concise but complete. Write the summary in plain text and do not call any tools.`
+
+const SUMMARY_REQUEST =
+	"Summarize the conversation above according to your instructions. Respond only with the summary, without any preamble."
+
+export type SummarizeResult = {
+	messages: Anthropic.Messages.MessageParam[]
+	removedMessages: Anthropic.Messages.MessageParam[]
+	summaryMessage: Anthropic.Messages.MessageParam
+	summary: string
+	cost: number
+}
+
+/**
+ * Flattens the content of the given messages into a single array of content
+ * blocks (useful for token counting).
+ */
+export function flattenContent(messages: Anthropic.Messages.MessageParam[]): Anthropic.Messages.ContentBlockParam[] {
+	return messages.flatMap(({ content }) =>
+		Array.isArray(content) ? content : [{ type: "text", text: content } as Anthropic.Messages.TextBlockParam],
+	)
+}
+
+const hasToolResult = (message: Anthropic.Messages.MessageParam) =>
+	Array.isArray(message.content) && message.content.some((block) => block.type === "tool_result")
+
+/**
+ * Determines the index of the last message to condense. The first message is
+ * always retained, the condensed span must end with an assistant message so
+ * that the synthetic summary (an assistant message) is followed by a user
+ * message, and a tool_use must never be separated from its tool_result.
+ *
+ * @returns The index of the last message to condense, or -1 if nothing can be condensed.
+ */
+export function getCondenseEndIndex(messages: Anthropic.Messages.MessageParam[], fracToCondense: number): number {
+	let end = Math.max(1, Math.floor((messages.length - 1) * fracToCondense))
+
+	while (end < messages.length - 1 && (messages[end].role !== "assistant" || hasToolResult(messages[end + 1]))) {
+		end++
+	}
+
+	// The last message (the one about to be sent) is always retained.
+	return end < messages.length - 1 ? end : -1
+}
+
+/**
+ * Converts content blocks that can't be sent without tool definitions (or
+ * that are too expensive to resend) into plain text.
+ */
+function toSummarizableContent(
+	content: Anthropic.Messages.MessageParam["content"],
+): Anthropic.Messages.MessageParam["content"] {
+	if (!Array.isArray(content)) {
+		return content
+	}
+
+	return content.map((block): Anthropic.Messages.TextBlockParam => {
+		switch (block.type) {
+			case "text":
+				return block
+			case "image":
+				return { type: "text", text: "[Referenced image in conversation]" }
+			case "tool_use":
+				return { type: "text", text: `[Tool Use: ${block.name}]\n${JSON.stringify(block.input)}` }
+			case "tool_result": {
+				const text = Array.isArray(block.content)
+					? block.content.map((item) => (item.type === "text" ? item.text : "[image]")).join("\n")
+					: (block.content ?? "")
+				return { type: "text", text: `[Tool Result]\n${text}` }
+			}
+			default:
+				return { type: "text", text: "" }
+		}
+	})
+}
+
+/**
+ * Summarizes a fraction of the oldest messages (excluding the first) into a
+ * single synthetic assistant message using the provided API handler.
+ *
+ * @param {Anthropic.Messages.MessageParam[]} messages - The conversation messages.
+ * @param {ApiHandler} apiHandler - The API handler used to generate the summary.
+ * @param {number} fracToCondense - The fraction (between 0 and 1) of messages (excluding the first) to condense.
+ * @returns {Promise<SummarizeResult | undefined>} The condensed conversation, or undefined if there is nothing to condense.
+ */
+export async function summarizeConversation(
+	messages: Anthropic.Messages.MessageParam[],
+	apiHandler: ApiHandler,
+	fracToCondense: number,
+): Promise<SummarizeResult | undefined> {
+	const end = getCondenseEndIndex(messages, fracToCondense)
+
+	if (end < 1) {
+		return undefined
+	}
+
+	const removedMessages = messages.slice(1, end + 1)
+
+	const requestMessages: Anthropic.Messages.MessageParam[] = [
+		...messages.slice(0, end + 1).map(({ role, content }) => ({ role, content: toSummarizableContent(content) })),
+		{ role: "user", content: SUMMARY_REQUEST },
+	]
+
+	let summary = ""
+	let cost = 0
+
+	for await (const chunk of apiHandler.createMessage(SUMMARY_PROMPT, requestMessages)) {
+		if (chunk.type === "text") {
+			summary += chunk.text
+		} else if (chunk.type === "usage") {
+			cost +=
+				chunk.totalCost ??
+				calculateApiCostAnthropic(
+					apiHandler.getModel().info,
+					chunk.inputTokens,
+					chunk.outputTokens,
+					chunk.cacheWriteTokens,
+					chunk.cacheReadTokens,
+				)
+		}
+	}
+
+	summary = summary.trim()
+
+	if (!summary) {
+		throw new Error("The condensing model returned an empty summary.")
+	}
+
+	const summaryMessage: Anthropic.Messages.MessageParam = {
+		role: "assistant",
+		content: [
+			{
+				type: "text",
+				text: `[Context Condensed] The earlier part of this conversation was summarized to save context:\n\n${summary}`,
+			},
+		],
+	}
+
+	return {
+		messages: [messages[0], summaryMessage, ...messages.slice(end + 1)],
+		removedMessages,
+		summaryMessage,
+		summary,
+		cost,
+	}
+}
@@ -1,5 +1,6 @@
 import { Anthropic } from "@anthropic-ai/sdk"
 import { ApiHandler } from "../../api"
+import { flattenContent, summarizeConversation } from "./condense"
 
 /**
  * Default percentage of the context window to use as a buffer when deciding when to truncate
@@ -44,19 +45,7 @@ export function truncateConversation(
 	return truncatedMessages
 }
 
-/**
- * Conditionally truncates the conversation messages if the total token count
- * exceeds the model's limit, considering the size of incoming content.
- *
- * @param {Anthropic.Messages.MessageParam[]} messages - The conversation messages.
- * @param {number} totalTokens - The total number of tokens in the conversation (excluding the last user message).
- * @param {number} contextWindow - The context window size.
- * @param {number} maxTokens - The maximum number of tokens allowed.
- * @param {ApiHandler} apiHandler - The API handler to use for token counting.
- * @returns {Anthropic.Messages.MessageParam[]} The original or truncated conversation messages.
- */
-
-type TruncateOptions = {
+export type TruncateOptions = {
 	messages: Anthropic.Messages.MessageParam[]
 	totalTokens: number
 	contextWindow: number
@@ -65,19 +54,19 @@ type TruncateOptions = {
 }
 
 /**
- * Conditionally truncates the conversation messages if the total token count
- * exceeds the model's limit, considering the size of incoming content.
+ * Calculates the effective token count of the conversation (including the
+ * last user message) and whether it no longer fits in the context window.
  *
  * @param {TruncateOptions} options - The options for truncation
- * @returns {Promise<Anthropic.Messages.MessageParam[]>} The original or truncated conversation messages.
+ * @returns {Promise<{ effectiveTokens: number; isExceeded: boolean }>} The effective token count and whether the limit is exceeded.
  */
-export async function truncateConversationIfNeeded({
+export async function getContextWindowUsage({
 	messages,
 	totalTokens,
 	contextWindow,
 	maxTokens,
 	apiHandler,
-}: TruncateOptions): Promise<Anthropic.Messages.MessageParam[]> {
+}: TruncateOptions): Promise<{ effectiveTokens: number; isExceeded: boolean }> {
 	// Calculate the maximum tokens reserved for response
 	const reservedTokens = maxTokens || contextWindow * 0.2
 
@@ -95,6 +84,84 @@ export async function truncateConversationIfNeeded({
 	// Truncate if we're within TOKEN_BUFFER_PERCENTAGE of the context window
 	const allowedTokens = contextWindow * (1 - TOKEN_BUFFER_PERCENTAGE) - reservedTokens
 
+	return { effectiveTokens, isExceeded: effectiveTokens > allowedTokens }
+}
+
+/**
+ * Conditionally truncates the conversation messages if the total token count
+ * exceeds the model's limit, considering the size of incoming content.
+ *
+ * @param {TruncateOptions} options - The options for truncation
+ * @returns {Promise<Anthropic.Messages.MessageParam[]>} The original or truncated conversation messages.
+ */
+export async function truncateConversationIfNeeded(
+	options: TruncateOptions,
+): Promise<Anthropic.Messages.MessageParam[]> {
+	const { isExceeded } = await getContextWindowUsage(options)
+
 	// Determine if truncation is needed and apply if necessary
-	return effectiveTokens > allowedTokens ? truncateConversation(messages, 0.5) : messages
+	return isExceeded ? truncateConversation(options.messages, 0.5) : options.messages
+}
+
+export type CondenseOptions = TruncateOptions & {
+	condensingApiHandler: ApiHandler
+}
+
+export type CondenseResult = {
+	messages: Anthropic.Messages.MessageParam[]
+	summary?: string
+	cost: number
+	prevContextTokens: number
+	newContextTokens: number
+	error?: string
+}
+
+/**
+ * Condenses the conversation by summarizing the span of messages that
+ * truncation would otherwise drop into a single synthetic message generated by
+ * `condensingApiHandler`. If summarization fails the conversation is truncated
+ * as usual and the error is reported in the result.
+ *
+ * @param {CondenseOptions} options - The options for condensing
+ * @param {number} effectiveTokens - The current effective token count (see `getContextWindowUsage`)
+ * @returns {Promise<CondenseResult>} The condensed (or truncated) conversation.
+ */
+export async function condenseConversation(
+	{ messages, apiHandler, condensingApiHandler }: CondenseOptions,
+	effectiveTokens: number,
+): Promise<CondenseResult> {
+	try {
+		const result = await summarizeConversation(messages, condensingApiHandler, 0.5)
+
+		if (!result) {
+			throw new Error("The conversation is too short to be condensed.")
+		}
+
+		const [removedTokens, summaryTokens] = await Promise.all([
+			estimateTokenCount(flattenContent(result.removedMessages), apiHandler),
+			estimateTokenCount(flattenContent([result.summaryMessage]), apiHandler),
+		])
+
+		return {
+			messages: result.messages,
+			summary: result.summary,
+			cost: result.cost,
+			prevContextTokens: effectiveTokens,
+			newContextTokens: Math.max(0, effectiveTokens - removedTokens + summaryTokens),
+		}
+	} catch (error) {
+		const truncatedMessages = truncateConversation(messages, 0.5)
+		const removedTokens = await estimateTokenCount(
+			flattenContent(messages.slice(1, messages.length - truncatedMessages.length + 1)),
+			apiHandler,
+		)
+
+		return {
+			messages: truncatedMessages,
+			cost: 0,
+			prevContextTokens: effectiveTokens,
+			newContextTokens: Math.max(0, effectiveTokens - removedTokens),
+			error: error instanceof Error ? error.message : String(error),
+		}
+	}
 }
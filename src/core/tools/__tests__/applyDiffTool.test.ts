@@ -0,0 +1,157 @@
+// npx jest src/core/tools/__tests__/applyDiffTool.test.ts
+
+import fs from "fs/promises"
+
+import { applyDiffTool } from "../applyDiffTool"
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../assistant-message"
+import { fileExistsAtPath } from "../../../utils/fs"
+
+jest.mock("../../Cline")
+jest.mock("fs/promises", () => ({ readFile: jest.fn() }))
+jest.mock("../../../utils/fs", () => ({ fileExistsAtPath: jest.fn() }))
+
+describe("applyDiffTool with several files", () => {
+	let mockCline: any
+	let handleError: jest.Mock
+	let pushToolResult: jest.Mock
+	let mockProviderState: { mode?: string }
+
+	const batchBlock = (paths: string[]): ToolUse => ({
+		type: "tool_use",
+		name: "apply_diff",
+		params: { files: paths.map((path) => `<file><path>${path}</path><diff>${path} diff</diff></file>`).join("") },
+		partial: false,
+	})
+
+	const applyDiff = (paths: string[]) =>
+		applyDiffTool(
+			mockCline as Cline,
+			batchBlock(paths),
+			jest.fn(),
+			handleError,
+			pushToolResult,
+			(_, text) => text ?? "",
+		)
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+
+		mockProviderState = { mode: "code" }
+
+		jest.mocked(fileExistsAtPath).mockResolvedValue(true)
+		jest.mocked(fs.readFile).mockResolvedValue("original\n")
+
+		mockCline = {
+			cwd: "/project",
+			providerRef: { deref: () => ({ getState: jest.fn().mockResolvedValue(mockProviderState) }) },
+			consecutiveMistakeCount: 0,
+			consecutiveMistakeCountForApplyDiff: new Map(),
+			didRejectTool: false,
+			didEditFile: false,
+			rooIgnoreController: { validateAccess: jest.fn().mockReturnValue(true) },
+			diffStrategy: {
+				applyDiff: jest
+					.fn()
+					.mockImplementation(async (_: string, diff: string) =>
+						diff.startsWith("broken")
+							? { success: false, error: "No sufficiently similar match found" }
+							: { success: true, content: `changed by ${diff}\n` },
+					),
+			},
+			say: jest.fn().mockResolvedValue(undefined),
+			ask: jest.fn().mockResolvedValue({ response: "yesButtonClicked" }),
+			getFileContextTracker: () => ({ trackFileContexts: jest.fn().mockResolvedValue(undefined) }),
+			diffViewProvider: {
+				hasMultiFileReview: false,
+				openMultiFileReview: jest.fn().mockImplementation(async () => {
+					mockCline.diffViewProvider.hasMultiFileReview = true
+				}),
+				finishMultiFileReview: jest.fn().mockImplementation(async (approvedPaths: string[]) => {
+					mockCline.diffViewProvider.hasMultiFileReview = false
+					return {
+						newProblemsMessage: "",
+						files: approvedPaths.map((relPath) => ({ relPath, userEdits: undefined, finalContent: "" })),
+					}
+				}),
+				revertChanges: jest.fn().mockResolvedValue(undefined),
+				reset: jest.fn().mockResolvedValue(undefined),
+			},
+		}
+
+		handleError = jest.fn().mockResolvedValue(undefined)
+		pushToolResult = jest.fn()
+	})
+
+	it("reviews the other files when the mode or .rooignore blocks some of them", async () => {
+		mockProviderState.mode = "architect"
+		mockCline.rooIgnoreController.validateAccess.mockImplementation((relPath: string) => relPath !== "secret.md")
+
+		await applyDiff(["README.md", "src/index.ts", "secret.md"])
+
+		expect(mockCline.diffViewProvider.openMultiFileReview).toHaveBeenCalledWith([
+			{ relPath: "README.md", newContent: "changed by README.md diff\n" },
+		])
+		expect(mockCline.say).toHaveBeenCalledWith("rooignore_error", "secret.md")
+
+		const result = pushToolResult.mock.calls[0][0]
+		expect(result).toContain("Batch diff results: 1 applied, 0 partially applied, 2 failed, 0 rejected.")
+		expect(result).toContain('<file_result path="src/index.ts" status="failed">')
+		expect(result).toContain("can only edit files matching pattern")
+		expect(result).toContain('<file_result path="secret.md" status="failed">')
+		expect(result).toContain('<file_result path="README.md" status="applied"></file_result>')
+	})
+
+	it("saves only the files the user approved", async () => {
+		mockCline.ask.mockResolvedValue({
+			response: "objectResponse",
+			text: JSON.stringify({ "src/a.ts": true, "src/b.ts": false }),
+		})
+
+		await applyDiff(["src/a.ts", "src/b.ts"])
+
+		expect(mockCline.diffViewProvider.finishMultiFileReview).toHaveBeenCalledWith(["src/a.ts"])
+		expect(mockCline.didEditFile).toBe(true)
+		expect(mockCline.didRejectTool).toBe(false)
+
+		const result = pushToolResult.mock.calls[0][0]
+		expect(result).toContain("Batch diff results: 1 applied, 0 partially applied, 0 failed, 1 rejected.")
+		expect(result).toContain(
+			'<file_result path="src/b.ts" status="rejected">\nThe user rejected the changes to this file.\n</file_result>',
+		)
+	})
+
+	it("reverts every file when an error occurs during the review", async () => {
+		const error = new Error("Unable to save src/b.ts")
+		mockCline.diffViewProvider.finishMultiFileReview.mockRejectedValue(error)
+
+		await applyDiff(["src/a.ts", "src/b.ts"])
+
+		expect(mockCline.diffViewProvider.revertChanges).toHaveBeenCalled()
+		expect(handleError).toHaveBeenCalledWith("applying diff", error)
+		expect(pushToolResult).not.toHaveBeenCalled()
+	})
+
+	it("formats the result of every file", async () => {
+		await applyDiff(["src/a.ts", "broken.ts"])
+
+		expect(pushToolResult).toHaveBeenCalledWith(
+			[
+				"Batch diff results: 1 applied, 0 partially applied, 1 failed, 0 rejected.",
+				'<file_result path="broken.ts" status="failed">\n<error_details>\nNo sufficiently similar match found\n</error_details>\n</file_result>',
+				'<file_result path="src/a.ts" status="applied"></file_result>',
+			].join("\n\n"),
+		)
+		expect(mockCline.consecutiveMistakeCountForApplyDiff.get("broken.ts")).toBe(1)
+	})
+
+	it("counts a mistake when no file could be changed", async () => {
+		await applyDiff(["broken.ts"])
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(mockCline.diffViewProvider.openMultiFileReview).not.toHaveBeenCalled()
+		expect(pushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("Batch diff results: 0 applied, 0 partially applied, 1 failed, 0 rejected."),
+		)
+	})
+})
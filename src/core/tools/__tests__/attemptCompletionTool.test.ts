@@ -0,0 +1,171 @@
+// npx jest src/core/tools/__tests__/attemptCompletionTool.test.ts
+
+import { attemptCompletionTool } from "../attemptCompletionTool"
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../assistant-message"
+import { loadProjectVerification } from "../../config/projectVerification"
+import { loadProjectCommandPolicy } from "../../config/projectCommandPolicy"
+
+jest.mock("../../Cline")
+jest.mock("../../config/projectVerification", () => ({
+	...jest.requireActual("../../config/projectVerification"),
+	loadProjectVerification: jest.fn(),
+}))
+jest.mock("../../config/projectCommandPolicy", () => ({
+	loadProjectCommandPolicy: jest.fn(),
+}))
+jest.mock("../../../services/telemetry/TelemetryService", () => ({
+	telemetryService: { captureTaskCompleted: jest.fn() },
+}))
+
+describe("attemptCompletionTool", () => {
+	let mockCline: any
+	let askApproval: jest.Mock
+	let pushToolResult: jest.Mock
+	let mockProviderState: { deniedCommands?: string[]; mode?: string }
+
+	const block: ToolUse = {
+		type: "tool_use",
+		name: "attempt_completion",
+		params: { result: "Fixed the bug" },
+		partial: false,
+	}
+
+	const attemptCompletion = () =>
+		attemptCompletionTool(
+			mockCline as Cline,
+			block,
+			askApproval,
+			jest.fn(),
+			pushToolResult,
+			jest.fn(),
+			() => "[attempt_completion]",
+			jest.fn(),
+		)
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+
+		jest.mocked(loadProjectVerification).mockResolvedValue({
+			commands: ["npm run lint", "npm test"],
+			maxRetries: 1,
+		})
+
+		jest.mocked(loadProjectCommandPolicy).mockResolvedValue(undefined)
+		mockProviderState = { deniedCommands: [], mode: "code" }
+
+		mockCline = {
+			cwd: "/project",
+			providerRef: { deref: () => ({ getState: jest.fn().mockResolvedValue(mockProviderState) }) },
+			clineMessages: [],
+			consecutiveMistakeCount: 0,
+			failedVerificationCount: 0,
+			say: jest.fn().mockResolvedValue(undefined),
+			ask: jest.fn().mockResolvedValue({ response: "yesButtonClicked" }),
+			emit: jest.fn(),
+			getTokenUsage: jest.fn(),
+			runVerificationCommand: jest.fn().mockResolvedValue({ exitCode: 0, output: "" }),
+		}
+
+		askApproval = jest.fn().mockResolvedValue(true)
+		pushToolResult = jest.fn()
+	})
+
+	it("completes the task once the verification commands pass", async () => {
+		await attemptCompletion()
+
+		expect(mockCline.ask).toHaveBeenCalledWith("command", "npm run lint && npm test")
+		expect(mockCline.runVerificationCommand).toHaveBeenCalledTimes(2)
+		expect(mockCline.say).toHaveBeenCalledWith("completion_result", "Fixed the bug", undefined, false)
+	})
+
+	it("sends the model back to work when a verification command fails", async () => {
+		mockCline.runVerificationCommand.mockResolvedValueOnce({ exitCode: 2, output: "1 problem" })
+
+		await attemptCompletion()
+
+		expect(mockCline.failedVerificationCount).toBe(1)
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("`npm run lint` failed (exit code: 2)"))
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("1 problem"))
+		expect(mockCline.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+		expect(mockCline.say).toHaveBeenLastCalledWith(
+			"verification",
+			JSON.stringify({
+				attempt: 1,
+				maxRetries: 1,
+				steps: [
+					{ command: "npm run lint", status: "failed", exitCode: 2 },
+					{ command: "npm test", status: "skipped" },
+				],
+			}),
+			undefined,
+			false,
+		)
+	})
+
+	it("accepts the completion once the retries are used up", async () => {
+		mockCline.failedVerificationCount = 1
+		mockCline.runVerificationCommand.mockResolvedValue({ exitCode: 1, output: "" })
+
+		await attemptCompletion()
+
+		expect(mockCline.failedVerificationCount).toBe(0)
+		expect(mockCline.say).toHaveBeenCalledWith("completion_result", "Fixed the bug", undefined, false)
+	})
+
+	it("completes the task right away if the project has no verification commands", async () => {
+		jest.mocked(loadProjectVerification).mockResolvedValue(undefined)
+
+		await attemptCompletion()
+
+		expect(mockCline.ask).not.toHaveBeenCalledWith("command", expect.anything())
+		expect(mockCline.say).toHaveBeenCalledWith("completion_result", "Fixed the bug", undefined, false)
+	})
+
+	it("reports an invalid verification configuration as a tool error", async () => {
+		jest.mocked(loadProjectVerification).mockRejectedValue(new Error("Invalid .roo/verification.json"))
+
+		await attemptCompletion()
+
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Invalid .roo/verification.json"))
+		expect(mockCline.runVerificationCommand).not.toHaveBeenCalled()
+	})
+
+	it("skips the verification if the user rejects its commands", async () => {
+		mockCline.ask.mockResolvedValueOnce({ response: "noButtonClicked" })
+
+		await attemptCompletion()
+
+		expect(mockCline.runVerificationCommand).not.toHaveBeenCalled()
+		expect(mockCline.say).toHaveBeenCalledWith("completion_result", "Fixed the bug", undefined, false)
+	})
+
+	it("passes feedback given instead of running the verification to the model", async () => {
+		mockCline.ask.mockResolvedValueOnce({ response: "messageResponse", text: "Run the e2e tests too" })
+
+		await attemptCompletion()
+
+		expect(mockCline.runVerificationCommand).not.toHaveBeenCalled()
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Run the e2e tests too"))
+		expect(mockCline.say).not.toHaveBeenCalledWith("completion_result", expect.anything(), undefined, false)
+	})
+
+	it("skips verification commands denied by the command policy", async () => {
+		mockProviderState.deniedCommands = ["npm test"]
+
+		await attemptCompletion()
+
+		expect(mockCline.ask).not.toHaveBeenCalledWith("command", expect.anything())
+		expect(mockCline.runVerificationCommand).not.toHaveBeenCalled()
+		expect(mockCline.say).toHaveBeenCalledWith("error", expect.stringContaining("verificationSkipped"))
+		expect(mockCline.say).toHaveBeenCalledWith("completion_result", "Fixed the bug", undefined, false)
+	})
+
+	it("skips verification commands denied by the project policy of the current mode", async () => {
+		jest.mocked(loadProjectCommandPolicy).mockResolvedValue({ modes: { code: { deny: ["npm run lint"] } } })
+
+		await attemptCompletion()
+
+		expect(mockCline.runVerificationCommand).not.toHaveBeenCalled()
+	})
+})
@@ -7,10 +7,14 @@ import { ToolUse } from "../../assistant-message"
 import { formatResponse } from "../../prompts/responses"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "../types"
 import { ClineAsk } from "../../../schemas"
+import { loadProjectCommandPolicy } from "../../config/projectCommandPolicy"
 
 // Mock dependencies
 jest.mock("../../Cline")
 jest.mock("../../prompts/responses")
+jest.mock("../../config/projectCommandPolicy", () => ({
+	loadProjectCommandPolicy: jest.fn(),
+}))
 
 describe("executeCommandTool", () => {
 	// Setup common test variables
@@ -20,11 +24,16 @@ describe("executeCommandTool", () => {
 	let mockPushToolResult: jest.Mock
 	let mockRemoveClosingTag: jest.Mock
 	let mockToolUse: ToolUse
+	let mockProviderState: { deniedCommands?: string[]; mode?: string }
 
 	beforeEach(() => {
 		// Reset mocks
 		jest.clearAllMocks()
 
+		mockProviderState = { deniedCommands: [], mode: "code" }
+		// @ts-expect-error - Jest mock function type issues
+		;(loadProjectCommandPolicy as jest.Mock).mockResolvedValue(undefined)
+
 		// Create mock implementations with eslint directives to handle the type issues
 		mockCline = {
 			// @ts-expect-error - Jest mock function type issues
@@ -41,6 +50,8 @@ describe("executeCommandTool", () => {
 				// @ts-expect-error - Jest mock function type issues
 				validateCommand: jest.fn().mockReturnValue(null),
 			},
+			// @ts-expect-error - Jest mock function type issues
+			providerRef: { deref: () => ({ getState: jest.fn().mockResolvedValue(mockProviderState) }) },
 		}
 
 		// @ts-expect-error - Jest mock function type issues
@@ -266,4 +277,136 @@ describe("executeCommandTool", () => {
 			expect(mockCline.executeCommandTool).not.toHaveBeenCalled()
 		})
 	})
+
+	describe("Command policy", () => {
+		const execute = () =>
+			executeCommandTool(
+				mockCline as unknown as Cline,
+				mockToolUse,
+				mockAskApproval as unknown as AskApproval,
+				mockHandleError as unknown as HandleError,
+				mockPushToolResult as unknown as PushToolResult,
+				mockRemoveClosingTag as unknown as RemoveClosingTag,
+			)
+
+		beforeEach(() => {
+			;(formatResponse.commandDeniedByPolicy as jest.Mock).mockReturnValue("Denied by policy")
+			;(formatResponse.toolError as jest.Mock).mockImplementation((error) => `Tool error: ${error}`)
+		})
+
+		it("should block commands denied in the settings without asking", async () => {
+			mockToolUse.params.command = "npm test &amp;&amp; git push origin main"
+			mockProviderState.deniedCommands = ["git push"]
+
+			await execute()
+
+			expect(formatResponse.commandDeniedByPolicy).toHaveBeenCalledWith("git push origin main", "git push")
+			expect(mockCline.say).toHaveBeenCalledWith("error", expect.any(String))
+			expect(mockPushToolResult).toHaveBeenCalledWith("Tool error: Denied by policy")
+			expect(mockAskApproval).not.toHaveBeenCalled()
+			expect(mockCline.executeCommandTool).not.toHaveBeenCalled()
+		})
+
+		it("should apply the project policy of the current mode", async () => {
+			mockToolUse.params.command = "git push"
+			// @ts-expect-error - Jest mock function type issues
+			;(loadProjectCommandPolicy as jest.Mock).mockResolvedValue({ modes: { test: { deny: ["git push*"] } } })
+
+			await execute()
+			expect(mockCline.executeCommandTool).toHaveBeenCalledWith("git push", undefined)
+
+			mockProviderState.mode = "test"
+			await execute()
+			expect(formatResponse.commandDeniedByPolicy).toHaveBeenCalledWith("git push", "git push*")
+			expect(mockCline.executeCommandTool).toHaveBeenCalledTimes(1)
+		})
+
+		it("should not let the project policy override the user's denied commands", async () => {
+			mockToolUse.params.command = "git push"
+			mockProviderState.deniedCommands = ["git push"]
+			mockProviderState.mode = "code"
+			// @ts-expect-error - Jest mock function type issues
+			;(loadProjectCommandPolicy as jest.Mock).mockResolvedValue({ modes: { code: { allow: ["git push"] } } })
+
+			await execute()
+
+			expect(formatResponse.commandDeniedByPolicy).toHaveBeenCalledWith("git push", "git push")
+			expect(mockCline.executeCommandTool).not.toHaveBeenCalled()
+		})
+
+		it("should not run commands while the project policy is invalid", async () => {
+			// @ts-expect-error - Jest mock function type issues
+			;(loadProjectCommandPolicy as jest.Mock).mockRejectedValue(new Error("Invalid policy"))
+
+			await execute()
+
+			expect(mockPushToolResult).toHaveBeenCalledWith("Tool error: Invalid policy")
+			expect(mockAskApproval).not.toHaveBeenCalled()
+			expect(mockCline.executeCommandTool).not.toHaveBeenCalled()
+		})
+	})
+
+	describe("Background processes", () => {
+		const execute = () =>
+			executeCommandTool(
+				mockCline as unknown as Cline,
+				mockToolUse,
+				mockAskApproval as unknown as AskApproval,
+				mockHandleError as unknown as HandleError,
+				mockPushToolResult as unknown as PushToolResult,
+				mockRemoveClosingTag as unknown as RemoveClosingTag,
+			)
+
+		let mockProcessStatus: string | undefined
+
+		beforeEach(() => {
+			mockProcessStatus = undefined
+			mockToolUse.params = { command: "npm run dev", background: "true", name: "dev" }
+			Object.assign(mockCline, {
+				processManager: {
+					get: jest.fn(() => (mockProcessStatus ? { name: "dev", status: mockProcessStatus } : undefined)),
+				},
+				// @ts-expect-error - Jest mock function type issues
+				startBackgroundProcess: jest.fn().mockResolvedValue("Started background process"),
+			})
+			;(formatResponse.toolError as jest.Mock).mockImplementation((error) => `Tool error: ${error}`)
+		})
+
+		it("should start the command as a named background process", async () => {
+			await execute()
+
+			expect(mockAskApproval).toHaveBeenCalledWith("command", "npm run dev")
+			expect(mockCline.startBackgroundProcess).toHaveBeenCalledWith("dev", "npm run dev", undefined)
+			expect(mockCline.executeCommandTool).not.toHaveBeenCalled()
+			expect(mockPushToolResult).toHaveBeenCalledWith("Started background process")
+		})
+
+		it("should require a name for background processes", async () => {
+			mockToolUse.params.name = "  "
+
+			await execute()
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(mockCline.sayAndCreateMissingParamError).toHaveBeenCalledWith("execute_command", "name")
+			expect(mockAskApproval).not.toHaveBeenCalled()
+		})
+
+		it("should not start a process with the name of a running one", async () => {
+			mockProcessStatus = "running"
+
+			await execute()
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(mockPushToolResult).toHaveBeenCalledWith(expect.stringContaining('named "dev" is already running'))
+			expect(mockCline.startBackgroundProcess).not.toHaveBeenCalled()
+		})
+
+		it("should reuse the name of a process that exited", async () => {
+			mockProcessStatus = "exited"
+
+			await execute()
+
+			expect(mockCline.startBackgroundProcess).toHaveBeenCalledWith("dev", "npm run dev", undefined)
+		})
+	})
 })
@@ -0,0 +1,165 @@
+// npx jest src/core/tools/__tests__/processTools.test.ts
+
+import { readProcessOutputTool, stopProcessTool } from "../processTools"
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../assistant-message"
+
+jest.mock("../../Cline")
+
+describe("process tools", () => {
+	let mockCline: any
+	let askApproval: jest.Mock
+	let handleError: jest.Mock
+	let pushToolResult: jest.Mock
+	let processes: { name: string; command: string; status: string; exitCode?: number; startedAt: number }[]
+
+	const toolUse = (name: ToolUse["name"], params: ToolUse["params"]): ToolUse => ({
+		type: "tool_use",
+		name,
+		params,
+		partial: false,
+	})
+
+	const readProcessOutput = (params: ToolUse["params"]) =>
+		readProcessOutputTool(
+			mockCline as Cline,
+			toolUse("read_process_output", params),
+			askApproval,
+			handleError,
+			pushToolResult,
+			(_, text) => text ?? "",
+		)
+
+	const stopProcess = (params: ToolUse["params"]) =>
+		stopProcessTool(
+			mockCline as Cline,
+			toolUse("stop_process", params),
+			askApproval,
+			handleError,
+			pushToolResult,
+			(_, text) => text ?? "",
+		)
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+
+		processes = [
+			{ name: "dev", command: "npm run dev", status: "running", startedAt: Date.now() },
+			{ name: "build", command: "npm run build", status: "exited", exitCode: 0, startedAt: Date.now() },
+		]
+
+		mockCline = {
+			consecutiveMistakeCount: 0,
+			ask: jest.fn().mockResolvedValue(undefined),
+			sayAndCreateMissingParamError: jest.fn().mockResolvedValue("Missing parameter error"),
+			processManager: {
+				get: jest.fn((name: string) => processes.find((process) => process.name === name)),
+				list: jest.fn(() => processes),
+				read: jest.fn().mockReturnValue({ lines: [{ number: 1, text: "ready on port 3000" }], omitted: 0 }),
+				stop: jest.fn().mockResolvedValue(undefined),
+			},
+		}
+
+		askApproval = jest.fn().mockResolvedValue(true)
+		handleError = jest.fn().mockResolvedValue(undefined)
+		pushToolResult = jest.fn()
+	})
+
+	describe("readProcessOutputTool", () => {
+		it("returns the output of the process", async () => {
+			await readProcessOutput({ name: "dev", mode: "tail", lines: "20" })
+
+			expect(askApproval).toHaveBeenCalled()
+			expect(mockCline.processManager.read).toHaveBeenCalledWith(processes[0], {
+				mode: "tail",
+				lines: 20,
+				regex: undefined,
+			})
+			expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Output:\nready on port 3000"))
+		})
+
+		it.each([
+			[{ name: "dev", mode: "head" }, 'Invalid mode "head"'],
+			[{ name: "dev", mode: "grep", regex: "(" }, "Invalid regex"],
+			[{ name: "dev", lines: "0" }, 'Invalid lines "0"'],
+			[{ name: "dev", lines: "-5" }, 'Invalid lines "-5"'],
+		])("counts %j as a mistake", async (params, error) => {
+			await readProcessOutput(params)
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining(error))
+			expect(askApproval).not.toHaveBeenCalled()
+		})
+
+		it("requires a regex in grep mode", async () => {
+			await readProcessOutput({ name: "dev", mode: "grep" })
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(mockCline.sayAndCreateMissingParamError).toHaveBeenCalledWith("read_process_output", "regex")
+		})
+
+		it("lists the processes of the task for an unknown name", async () => {
+			await readProcessOutput({ name: "server" })
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(pushToolResult).toHaveBeenCalledWith(
+				expect.stringContaining('The background processes of this task are "dev", "build".'),
+			)
+			expect(askApproval).not.toHaveBeenCalled()
+		})
+
+		it("suggests starting a process when the task has none", async () => {
+			processes = []
+
+			await readProcessOutput({ name: "dev" })
+
+			expect(pushToolResult).toHaveBeenCalledWith(
+				expect.stringContaining("This task has no background processes, start one with execute_command."),
+			)
+		})
+	})
+
+	describe("stopProcessTool", () => {
+		it("stops a running process after approval", async () => {
+			await stopProcess({ name: "dev" })
+
+			expect(askApproval).toHaveBeenCalledWith(
+				"tool",
+				JSON.stringify({ tool: "stopProcess", processName: "dev", content: "npm run dev" }),
+			)
+			expect(mockCline.processManager.stop).toHaveBeenCalledWith(processes[0])
+			expect(pushToolResult).toHaveBeenCalledWith(
+				'Stopped background process "dev".\nOutput since the last read:\nready on port 3000',
+			)
+		})
+
+		it("doesn't stop the process when the user rejects it", async () => {
+			askApproval.mockResolvedValue(false)
+
+			await stopProcess({ name: "dev" })
+
+			expect(mockCline.processManager.stop).not.toHaveBeenCalled()
+			expect(pushToolResult).not.toHaveBeenCalled()
+		})
+
+		it("skips the approval for a process that already exited", async () => {
+			await stopProcess({ name: "build" })
+
+			expect(askApproval).not.toHaveBeenCalled()
+			expect(mockCline.processManager.stop).not.toHaveBeenCalled()
+			expect(pushToolResult).toHaveBeenCalledWith(
+				'Background process "build" is not running, it exited with code 0.',
+			)
+		})
+
+		it("lists the processes of the task for an unknown name", async () => {
+			await stopProcess({ name: "server" })
+
+			expect(mockCline.consecutiveMistakeCount).toBe(1)
+			expect(pushToolResult).toHaveBeenCalledWith(
+				expect.stringContaining('The background processes of this task are "dev", "build".'),
+			)
+			expect(askApproval).not.toHaveBeenCalled()
+		})
+	})
+})
@@ -0,0 +1,159 @@
+// npx jest src/core/tools/__tests__/refactorTools.test.ts
+
+import * as vscode from "vscode"
+
+import { renameSymbolTool } from "../refactorTools"
+import { Cline } from "../../Cline"
+import { ToolUse } from "../../assistant-message"
+import { getRenameEdit, getWorkspaceEditChanges, hasResourceOperations } from "../../../integrations/language-server"
+import { resolveToolPosition } from "../languageServerTools"
+
+jest.mock("../../Cline")
+jest.mock("../../../integrations/language-server", () => ({
+	getCodeActions: jest.fn(),
+	getRenameEdit: jest.fn(),
+	getWorkspaceEditChanges: jest.fn(),
+	hasResourceOperations: jest.fn(),
+}))
+jest.mock("../languageServerTools", () => ({
+	describeToolPosition: () => ({ readablePath: "src/user.ts", target: "User" }),
+	resolveToolPosition: jest.fn(),
+}))
+
+describe("renameSymbolTool", () => {
+	let mockCline: any
+	let handleError: jest.Mock
+	let pushToolResult: jest.Mock
+	let mockProviderState: { mode?: string }
+
+	const block: ToolUse = {
+		type: "tool_use",
+		name: "rename_symbol",
+		params: { path: "src/user.ts", symbol: "User", new_name: "Account" },
+		partial: false,
+	}
+
+	const change = (relPath: string) => ({
+		uri: vscode.Uri.file(`/project/${relPath}`),
+		originalContent: "class User {}\n",
+		newContent: "class Account {}\n",
+	})
+
+	const renameSymbol = () =>
+		renameSymbolTool(mockCline as Cline, block, jest.fn(), handleError, pushToolResult, (_, text) => text ?? "")
+
+	beforeEach(() => {
+		jest.clearAllMocks()
+
+		mockProviderState = { mode: "code" }
+
+		jest.mocked(resolveToolPosition).mockResolvedValue({
+			relPath: "src/user.ts",
+			uri: vscode.Uri.file("/project/src/user.ts"),
+			position: new vscode.Position(0, 6),
+		})
+		jest.mocked(getRenameEdit).mockResolvedValue({ size: 2 } as vscode.WorkspaceEdit)
+		jest.mocked(hasResourceOperations).mockResolvedValue(false)
+		jest.mocked(getWorkspaceEditChanges).mockResolvedValue([change("src/user.ts"), change("docs/user.md")])
+
+		mockCline = {
+			cwd: "/project",
+			providerRef: { deref: () => ({ getState: jest.fn().mockResolvedValue(mockProviderState) }) },
+			consecutiveMistakeCount: 0,
+			didRejectTool: false,
+			didEditFile: false,
+			rooIgnoreController: { validateAccess: jest.fn().mockReturnValue(true) },
+			say: jest.fn().mockResolvedValue(undefined),
+			ask: jest.fn().mockResolvedValue({ response: "yesButtonClicked" }),
+			getFileContextTracker: () => ({ trackFileContexts: jest.fn().mockResolvedValue(undefined) }),
+			diffViewProvider: {
+				hasMultiFileReview: false,
+				openMultiFileReview: jest.fn().mockImplementation(async () => {
+					mockCline.diffViewProvider.hasMultiFileReview = true
+				}),
+				finishMultiFileReview: jest.fn().mockImplementation(async (approvedPaths: string[]) => {
+					mockCline.diffViewProvider.hasMultiFileReview = false
+					return {
+						newProblemsMessage: "",
+						files: approvedPaths.map((relPath) => ({
+							relPath,
+							userEdits: undefined,
+							finalContent: "class Account {}\n",
+						})),
+					}
+				}),
+				revertChanges: jest.fn().mockResolvedValue(undefined),
+			},
+		}
+
+		handleError = jest.fn().mockResolvedValue(undefined)
+		pushToolResult = jest.fn()
+	})
+
+	it("applies the files approved in the review", async () => {
+		await renameSymbol()
+
+		expect(mockCline.diffViewProvider.openMultiFileReview).toHaveBeenCalledWith([
+			{ relPath: "src/user.ts", newContent: "class Account {}\n" },
+			{ relPath: "docs/user.md", newContent: "class Account {}\n" },
+		])
+		expect(mockCline.diffViewProvider.finishMultiFileReview).toHaveBeenCalledWith(["src/user.ts", "docs/user.md"])
+		expect(mockCline.didEditFile).toBe(true)
+		expect(pushToolResult).toHaveBeenCalledWith(
+			"Renamed User to Account in 2 files:\n\n- src/user.ts\n- docs/user.md",
+		)
+	})
+
+	it("rejects edits that create, rename or delete files", async () => {
+		jest.mocked(hasResourceOperations).mockResolvedValue(true)
+
+		await renameSymbol()
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("creates, renames or deletes files"))
+		expect(mockCline.diffViewProvider.openMultiFileReview).not.toHaveBeenCalled()
+	})
+
+	it("rejects the whole edit if it changes a file outside the workspace or blocked by .rooignore", async () => {
+		jest.mocked(getWorkspaceEditChanges).mockResolvedValue([
+			change("src/user.ts"),
+			{ ...change("user.ts"), uri: vscode.Uri.file("/elsewhere/user.ts") },
+			change("secrets/user.ts"),
+		])
+		mockCline.rooIgnoreController.validateAccess.mockImplementation(
+			(relPath: string) => !relPath.startsWith("secrets"),
+		)
+
+		await renameSymbol()
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult).toHaveBeenCalledWith(
+			expect.stringContaining("- ../elsewhere/user.ts\n- secrets/user.ts"),
+		)
+		expect(pushToolResult).toHaveBeenCalledWith(expect.not.stringContaining("- src/user.ts"))
+		expect(mockCline.diffViewProvider.openMultiFileReview).not.toHaveBeenCalled()
+	})
+
+	it("rejects the whole edit if the mode may not edit one of its files", async () => {
+		mockProviderState.mode = "architect"
+
+		await renameSymbol()
+
+		expect(mockCline.consecutiveMistakeCount).toBe(1)
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("this mode may not edit"))
+		expect(pushToolResult).toHaveBeenCalledWith(expect.stringContaining("Got: src/user.ts"))
+		expect(pushToolResult).toHaveBeenCalledWith(expect.not.stringContaining("Got: docs/user.md"))
+		expect(mockCline.diffViewProvider.openMultiFileReview).not.toHaveBeenCalled()
+	})
+
+	it("reverts the edit if the review fails", async () => {
+		const error = new Error("The webview was closed")
+		mockCline.ask.mockRejectedValue(error)
+
+		await renameSymbol()
+
+		expect(mockCline.diffViewProvider.revertChanges).toHaveBeenCalled()
+		expect(mockCline.diffViewProvider.finishMultiFileReview).not.toHaveBeenCalled()
+		expect(handleError).toHaveBeenCalledWith("renaming symbol", error)
+	})
+})
@@ -1,5 +1,5 @@
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { ToolUse } from "../assistant-message"
 import { Cline } from "../Cline"
 import { RemoveClosingTag } from "./types"
@@ -7,9 +7,12 @@ import { formatResponse } from "../prompts/responses"
 import { AskApproval, HandleError, PushToolResult } from "./types"
 import { fileExistsAtPath } from "../../utils/fs"
 import { addLineNumbers } from "../../integrations/misc/extract-text"
-import path from "path"
 import fs from "fs/promises"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
+import { DiffResult, FilePatch } from "../diff/types"
+import { parseBatchDiffs } from "../diff/batch"
+import { defaultModeSlug, isToolAllowedForMode } from "../../shared/modes"
+import { pushMultiFileReviewResult, reviewMultiFileChanges } from "./multiFileReview"
 
 export async function applyDiffTool(
 	cline: Cline,
@@ -21,6 +24,7 @@ export async function applyDiffTool(
 ) {
 	const relPath: string | undefined = block.params.path
 	const diffContent: string | undefined = block.params.diff
+	const files: string | undefined = block.params.files
 
 	const sharedMessageProps: ClineSayTool = {
 		tool: "appliedDiff",
@@ -29,6 +33,19 @@ export async function applyDiffTool(
 
 	try {
 		if (block.partial) {
+			if (files) {
+				const partialMessage = JSON.stringify({
+					tool: "appliedDiff",
+					batchDiffs: parseBatchDiffs(files).map(({ path, diff }) => ({
+						path: getReadablePath(cline.cwd, path),
+						diff,
+					})),
+				} satisfies ClineSayTool)
+
+				await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+				return
+			}
+
 			// update gui message
 			let toolProgressStatus
 			if (cline.diffStrategy && cline.diffStrategy.getProgressStatus) {
@@ -40,6 +57,23 @@ export async function applyDiffTool(
 			await cline.ask("tool", partialMessage, block.partial, toolProgressStatus).catch(() => {})
 			return
 		} else {
+			if (files) {
+				const filePatches = parseBatchDiffs(files)
+
+				if (filePatches.length === 0) {
+					cline.consecutiveMistakeCount++
+					pushToolResult(
+						formatResponse.toolError(
+							"The files parameter doesn't contain any <file> entries with a <path> and a <diff>.",
+						),
+					)
+					return
+				}
+
+				await applyBatchDiffs(cline, filePatches, pushToolResult)
+				return
+			}
+
 			if (!relPath) {
 				cline.consecutiveMistakeCount++
 				pushToolResult(await cline.sayAndCreateMissingParamError("apply_diff", "path"))
@@ -51,136 +85,315 @@ export async function applyDiffTool(
 				return
 			}
 
-			const accessAllowed = cline.rooIgnoreController?.validateAccess(relPath)
-			if (!accessAllowed) {
-				await cline.say("rooignore_error", relPath)
-				pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath)))
+			// A patch that names several files (e.g. a multi-file unified diff)
+			// is reviewed like a batched call.
+			const filePatches = cline.diffStrategy?.getFilePatches?.(diffContent) ?? []
 
+			if (filePatches.length > 1) {
+				await applyBatchDiffs(cline, filePatches, pushToolResult)
 				return
 			}
 
-			const absolutePath = path.resolve(cline.cwd, relPath)
-			const fileExists = await fileExistsAtPath(absolutePath)
+			await applyDiffToFile(cline, block, relPath, diffContent, askApproval, pushToolResult)
+			return
+		}
+	} catch (error) {
+		await handleError("applying diff", error)
+		await cline.diffViewProvider.reset()
+		return
+	}
+}
 
-			if (!fileExists) {
-				cline.consecutiveMistakeCount++
-				const formattedError = `File does not exist at path: ${absolutePath}\n\n<error_details>\nThe specified file could not be found. Please verify the file path and try again.\n</error_details>`
-				await cline.say("error", formattedError)
-				pushToolResult(formattedError)
-				return
-			}
+type BatchFileStatus = "applied" | "partially_applied" | "failed" | "rejected"
 
-			const originalContent = await fs.readFile(absolutePath, "utf-8")
-
-			// Apply the diff to the original content
-			const diffResult = (await cline.diffStrategy?.applyDiff(
-				originalContent,
-				diffContent,
-				parseInt(block.params.start_line ?? ""),
-				parseInt(block.params.end_line ?? ""),
-			)) ?? {
-				success: false,
-				error: "No diff strategy available",
-			}
-			let partResults = ""
+type BatchFileResult = {
+	path: string
+	status: BatchFileStatus
+	details?: string
+}
 
-			if (!diffResult.success) {
-				cline.consecutiveMistakeCount++
-				const currentCount = (cline.consecutiveMistakeCountForApplyDiff.get(relPath) || 0) + 1
-				cline.consecutiveMistakeCountForApplyDiff.set(relPath, currentCount)
-				let formattedError = ""
-				if (diffResult.failParts && diffResult.failParts.length > 0) {
-					for (const failPart of diffResult.failParts) {
-						if (failPart.success) {
-							continue
-						}
-						const errorDetails = failPart.details ? JSON.stringify(failPart.details, null, 2) : ""
-						formattedError = `<error_details>\n${
-							failPart.error
-						}${errorDetails ? `\n\nDetails:\n${errorDetails}` : ""}\n</error_details>`
-						partResults += formattedError
-					}
-				} else {
-					const errorDetails = diffResult.details ? JSON.stringify(diffResult.details, null, 2) : ""
-					formattedError = `Unable to apply diff to file: ${absolutePath}\n\n<error_details>\n${
-						diffResult.error
-					}${errorDetails ? `\n\nDetails:\n${errorDetails}` : ""}\n</error_details>`
-				}
+type PreparedFileDiff = {
+	path: string
+	diff: string
+	newContent: string
+	failParts: DiffResult[]
+}
 
-				if (currentCount >= 2) {
-					await cline.say("diff_error", formattedError)
-				}
-				pushToolResult(formattedError)
-				return
-			}
+const formatFailParts = (failParts: DiffResult[]) =>
+	failParts
+		.map((part) => (!part.success && part.error ? `<error_details>\n${part.error}\n</error_details>` : ""))
+		.filter(Boolean)
+		.join("\n")
 
-			cline.consecutiveMistakeCount = 0
-			cline.consecutiveMistakeCountForApplyDiff.delete(relPath)
-			// Show diff view before asking for approval
-			cline.diffViewProvider.editType = "modify"
-			await cline.diffViewProvider.open(relPath)
-			await cline.diffViewProvider.update(diffResult.content, true)
-			await cline.diffViewProvider.scrollToFirstDiff()
+/**
+ * Applies diffs to several files at once: every diff is applied in memory,
+ * the successful ones are shown together in a multi-file review, and the
+ * user decides per file which changes to keep.
+ */
+async function applyBatchDiffs(cline: Cline, filePatches: FilePatch[], pushToolResult: PushToolResult) {
+	const results: BatchFileResult[] = []
+	const prepared: PreparedFileDiff[] = []
+	const { mode, customModes } = (await cline.providerRef.deref()?.getState()) ?? {}
 
-			const completeMessage = JSON.stringify({
-				...sharedMessageProps,
-				diff: diffContent,
-			} satisfies ClineSayTool)
+	for (const { path: relPath, diff } of filePatches) {
+		try {
+			// Mode file restrictions are only validated against the `path` parameter.
+			isToolAllowedForMode("apply_diff", mode ?? defaultModeSlug, customModes ?? [], undefined, {
+				path: relPath,
+				diff,
+			})
+		} catch (error) {
+			results.push({ path: relPath, status: "failed", details: error.message })
+			continue
+		}
 
-			let toolProgressStatus
-			if (cline.diffStrategy && cline.diffStrategy.getProgressStatus) {
-				toolProgressStatus = cline.diffStrategy.getProgressStatus(block, diffResult)
-			}
+		if (!cline.rooIgnoreController?.validateAccess(relPath)) {
+			await cline.say("rooignore_error", relPath)
+			results.push({ path: relPath, status: "failed", details: formatResponse.rooIgnoreError(relPath) })
+			continue
+		}
 
-			const didApprove = await askApproval("tool", completeMessage, toolProgressStatus)
-			if (!didApprove) {
-				await cline.diffViewProvider.revertChanges() // cline likely handles closing the diff view
-				return
-			}
+		const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 
-			const { newProblemsMessage, userEdits, finalContent } = await cline.diffViewProvider.saveChanges()
-			// Track file edit operation
-			if (relPath) {
-				await cline.getFileContextTracker().trackFileContext(relPath, "roo_edited" as RecordSource)
-			}
-			cline.didEditFile = true // used to determine if we should wait for busy terminal to update before sending api request
-			let partFailHint = ""
-			if (diffResult.failParts && diffResult.failParts.length > 0) {
-				partFailHint = `But unable to apply all diff parts to file: ${absolutePath}, silently use <read_file> tool to check newest file version and re-apply diffs\n`
-			}
-			if (userEdits) {
-				await cline.say(
-					"user_feedback_diff",
-					JSON.stringify({
-						tool: fileExists ? "editedExistingFile" : "newFileCreated",
-						path: getReadablePath(cline.cwd, relPath),
-						diff: userEdits,
-					} satisfies ClineSayTool),
-				)
-				pushToolResult(
-					`The user made the following updates to your content:\n\n${userEdits}\n\n` +
-						partFailHint +
-						`The updated content, which includes both your original modifications and the user's edits, has been successfully saved to ${relPath.toPosix()}. Here is the full, updated content of the file, including line numbers:\n\n` +
-						`<final_file_content path="${relPath.toPosix()}">\n${addLineNumbers(
-							finalContent || "",
-						)}\n</final_file_content>\n\n` +
-						`Please note:\n` +
-						`1. You do not need to re-write the file with these changes, as they have already been applied.\n` +
-						`2. Proceed with the task using cline updated file content as the new baseline.\n` +
-						`3. If the user's edits have addressed part of the task or changed the requirements, adjust your approach accordingly.` +
-						`${newProblemsMessage}`,
-				)
-			} else {
-				pushToolResult(
-					`Changes successfully applied to ${relPath.toPosix()}:\n\n${newProblemsMessage}\n` + partFailHint,
-				)
+		if (!(await fileExistsAtPath(absolutePath))) {
+			results.push({ path: relPath, status: "failed", details: `File does not exist at path: ${absolutePath}` })
+			continue
+		}
+
+		const originalContent = await fs.readFile(absolutePath, "utf-8")
+
+		const diffResult = (await cline.diffStrategy?.applyDiff(originalContent, diff)) ?? {
+			success: false,
+			error: "No diff strategy available",
+		}
+
+		if (!diffResult.success) {
+			const currentCount = (cline.consecutiveMistakeCountForApplyDiff.get(relPath) || 0) + 1
+			cline.consecutiveMistakeCountForApplyDiff.set(relPath, currentCount)
+
+			results.push({
+				path: relPath,
+				status: "failed",
+				details: diffResult.failParts?.length
+					? formatFailParts(diffResult.failParts)
+					: `<error_details>\n${diffResult.error}\n</error_details>`,
+			})
+
+			continue
+		}
+
+		cline.consecutiveMistakeCountForApplyDiff.delete(relPath)
+		prepared.push({ path: relPath, diff, newContent: diffResult.content, failParts: diffResult.failParts ?? [] })
+	}
+
+	if (prepared.length === 0) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(formatBatchResults(results))
+		return
+	}
+
+	cline.consecutiveMistakeCount = 0
+
+	const completeMessage = JSON.stringify({
+		tool: "appliedDiff",
+		batchDiffs: prepared.map(({ path, diff }) => ({ path: getReadablePath(cline.cwd, path), diff })),
+	} satisfies ClineSayTool)
+
+	const review = await reviewMultiFileChanges(
+		cline,
+		prepared.map(({ path, newContent }) => ({ relPath: path, newContent })),
+		completeMessage,
+	)
+
+	for (const { path, failParts } of prepared) {
+		const saved = review.files.find(({ relPath }) => relPath === path)
+
+		if (!saved) {
+			results.push({ path, status: "rejected", details: "The user rejected the changes to this file." })
+			continue
+		}
+
+		const details: string[] = []
+
+		if (failParts.length > 0) {
+			details.push(
+				`Some diff parts could not be applied, silently use <read_file> tool to check the newest file version and re-apply them:\n${formatFailParts(failParts)}`,
+			)
+		}
+
+		if (saved.userEdits) {
+			details.push(
+				`The user made the following updates to your content:\n\n${saved.userEdits}\n\n` +
+					`Here is the full, updated content of the file, including line numbers:\n\n` +
+					`<final_file_content path="${path.toPosix()}">\n${addLineNumbers(saved.finalContent)}\n</final_file_content>`,
+			)
+		}
+
+		results.push({
+			path,
+			status: failParts.length > 0 ? "partially_applied" : "applied",
+			details: details.join("\n\n") || undefined,
+		})
+	}
+
+	pushMultiFileReviewResult(pushToolResult, formatBatchResults(results) + review.newProblemsMessage, review)
+}
+
+function formatBatchResults(results: BatchFileResult[]) {
+	const count = (status: BatchFileStatus) => results.filter((result) => result.status === status).length
+
+	const summary =
+		`Batch diff results: ${count("applied")} applied, ${count("partially_applied")} partially applied, ` +
+		`${count("failed")} failed, ${count("rejected")} rejected.`
+
+	const entries = results.map(
+		({ path, status, details }) =>
+			`<file_result path="${path.toPosix()}" status="${status}">${details ? `\n${details}\n` : ""}</file_result>`,
+	)
+
+	return [summary, ...entries].join("\n\n")
+}
+
+/**
+ * Applies a diff to a single file and reviews it with the user.
+ */
+async function applyDiffToFile(
+	cline: Cline,
+	block: ToolUse,
+	relPath: string,
+	diffContent: string,
+	askApproval: AskApproval,
+	pushToolResult: PushToolResult,
+): Promise<void> {
+	const sharedMessageProps: ClineSayTool = {
+		tool: "appliedDiff",
+		path: getReadablePath(cline.cwd, relPath),
+	}
+
+	const accessAllowed = cline.rooIgnoreController?.validateAccess(relPath)
+	if (!accessAllowed) {
+		await cline.say("rooignore_error", relPath)
+		pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath)))
+
+		return
+	}
+
+	const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
+	const fileExists = await fileExistsAtPath(absolutePath)
+
+	if (!fileExists) {
+		cline.consecutiveMistakeCount++
+		const formattedError = `File does not exist at path: ${absolutePath}\n\n<error_details>\nThe specified file could not be found. Please verify the file path and try again.\n</error_details>`
+		await cline.say("error", formattedError)
+		pushToolResult(formattedError)
+		return
+	}
+
+	const originalContent = await fs.readFile(absolutePath, "utf-8")
+
+	// Apply the diff to the original content
+	const diffResult = (await cline.diffStrategy?.applyDiff(
+		originalContent,
+		diffContent,
+		parseInt(block.params.start_line ?? ""),
+		parseInt(block.params.end_line ?? ""),
+	)) ?? {
+		success: false,
+		error: "No diff strategy available",
+	}
+	let partResults = ""
+
+	if (!diffResult.success) {
+		cline.consecutiveMistakeCount++
+		const currentCount = (cline.consecutiveMistakeCountForApplyDiff.get(relPath) || 0) + 1
+		cline.consecutiveMistakeCountForApplyDiff.set(relPath, currentCount)
+		let formattedError = ""
+		if (diffResult.failParts && diffResult.failParts.length > 0) {
+			for (const failPart of diffResult.failParts) {
+				if (failPart.success) {
+					continue
+				}
+				const errorDetails = failPart.details ? JSON.stringify(failPart.details, null, 2) : ""
+				formattedError = `<error_details>\n${
+					failPart.error
+				}${errorDetails ? `\n\nDetails:\n${errorDetails}` : ""}\n</error_details>`
+				partResults += formattedError
 			}
-			await cline.diffViewProvider.reset()
-			return
+		} else {
+			const errorDetails = diffResult.details ? JSON.stringify(diffResult.details, null, 2) : ""
+			formattedError = `Unable to apply diff to file: ${absolutePath}\n\n<error_details>\n${
+				diffResult.error
+			}${errorDetails ? `\n\nDetails:\n${errorDetails}` : ""}\n</error_details>`
 		}
-	} catch (error) {
-		await handleError("applying diff", error)
-		await cline.diffViewProvider.reset()
+
+		if (currentCount >= 2) {
+			await cline.say("diff_error", formattedError)
+		}
+		pushToolResult(formattedError)
 		return
 	}
+
+	cline.consecutiveMistakeCount = 0
+	cline.consecutiveMistakeCountForApplyDiff.delete(relPath)
+	// Show diff view before asking for approval
+	cline.diffViewProvider.editType = "modify"
+	await cline.diffViewProvider.open(relPath)
+	await cline.diffViewProvider.update(diffResult.content, true)
+	await cline.diffViewProvider.scrollToFirstDiff()
+
+	const completeMessage = JSON.stringify({
+		...sharedMessageProps,
+		diff: diffContent,
+	} satisfies ClineSayTool)
+
+	let toolProgressStatus
+	if (cline.diffStrategy && cline.diffStrategy.getProgressStatus) {
+		toolProgressStatus = cline.diffStrategy.getProgressStatus(block, diffResult)
+	}
+
+	const didApprove = await askApproval("tool", completeMessage, toolProgressStatus)
+	if (!didApprove) {
+		await cline.diffViewProvider.revertChanges() // cline likely handles closing the diff view
+		return
+	}
+
+	const { newProblemsMessage, userEdits, finalContent } = await cline.diffViewProvider.saveChanges()
+	// Track file edit operation
+	if (relPath) {
+		await cline.getFileContextTracker().trackFileContext(relPath, "roo_edited" as RecordSource)
+	}
+	cline.didEditFile = true // used to determine if we should wait for busy terminal to update before sending api request
+	let partFailHint = ""
+	if (diffResult.failParts && diffResult.failParts.length > 0) {
+		partFailHint = `But unable to apply all diff parts to file: ${absolutePath}, silently use <read_file> tool to check newest file version and re-apply diffs\n`
+	}
+	if (userEdits) {
+		await cline.say(
+			"user_feedback_diff",
+			JSON.stringify({
+				tool: fileExists ? "editedExistingFile" : "newFileCreated",
+				path: getReadablePath(cline.cwd, relPath),
+				diff: userEdits,
+			} satisfies ClineSayTool),
+		)
+		pushToolResult(
+			`The user made the following updates to your content:\n\n${userEdits}\n\n` +
+				partFailHint +
+				`The updated content, which includes both your original modifications and the user's edits, has been successfully saved to ${relPath.toPosix()}. Here is the full, updated content of the file, including line numbers:\n\n` +
+				`<final_file_content path="${relPath.toPosix()}">\n${addLineNumbers(
+					finalContent || "",
+				)}\n</final_file_content>\n\n` +
+				`Please note:\n` +
+				`1. You do not need to re-write the file with these changes, as they have already been applied.\n` +
+				`2. Proceed with the task using cline updated file content as the new baseline.\n` +
+				`3. If the user's edits have addressed part of the task or changed the requirements, adjust your approach accordingly.` +
+				`${newProblemsMessage}`,
+		)
+	} else {
+		pushToolResult(
+			`Changes successfully applied to ${relPath.toPosix()}:\n\n${newProblemsMessage}\n` + partFailHint,
+		)
+	}
+	await cline.diffViewProvider.reset()
+	return
 }
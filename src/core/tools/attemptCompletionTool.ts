@@ -1,3 +1,5 @@
+import * as path from "path"
+
 import { ToolResponse } from "../Cline"
 
 import { ToolUse } from "../assistant-message"
@@ -13,6 +15,13 @@ import {
 import { formatResponse } from "../prompts/responses"
 import { telemetryService } from "../../services/telemetry/TelemetryService"
 import Anthropic from "@anthropic-ai/sdk"
+import { loadProjectVerification, PROJECT_VERIFICATION_FILE } from "../config/projectVerification"
+import { loadProjectCommandPolicy } from "../config/projectCommandPolicy"
+import { getCommandDecision } from "../../shared/commandPolicy"
+import { DEFAULT_VERIFICATION_MAX_RETRIES, runVerification } from "../verification"
+import { ClineVerificationInfo } from "../../shared/ExtensionMessage"
+import { fileExistsAtPath } from "../../utils/fs"
+import { t } from "../../i18n"
 
 export async function attemptCompletionTool(
 	cline: Cline,
@@ -29,6 +38,11 @@ export async function attemptCompletionTool(
 	try {
 		const lastMessage = cline.clineMessages.at(-1)
 		if (block.partial) {
+			// The result is only shown once the project's verification commands passed.
+			if (await fileExistsAtPath(path.join(cline.cwd, PROJECT_VERIFICATION_FILE))) {
+				return
+			}
+
 			if (command) {
 				// the attempt_completion text is done, now we're getting command
 				// remove the previous partial attempt_completion ask, replace with say, post state to webview, then stream command
@@ -61,6 +75,10 @@ export async function attemptCompletionTool(
 
 			cline.consecutiveMistakeCount = 0
 
+			if (!(await verifyCompletion(cline, pushToolResult))) {
+				return
+			}
+
 			let commandResult: ToolResponse | undefined
 
 			if (command) {
@@ -150,3 +168,106 @@ export async function attemptCompletionTool(
 		return
 	}
 }
+
+/**
+ * Checks the verification commands against the command policy, since they
+ * come from the repository. Returns the reason they can't run, if any.
+ */
+async function getVerificationPolicyError(cline: Cline, commands: string[]): Promise<string | undefined> {
+	const { deniedCommands, mode } = (await cline.providerRef.deref()?.getState()) ?? {}
+
+	try {
+		const projectPolicy = await loadProjectCommandPolicy(cline.cwd)
+
+		for (const command of commands) {
+			const decision = getCommandDecision(command, { deniedCommands, projectPolicy, mode })
+
+			if (decision.action === "deny") {
+				return t("tools:executeCommand.deniedByPolicy", { command: decision.command, rule: decision.rule })
+			}
+		}
+	} catch (error) {
+		return t("tools:executeCommand.invalidPolicy", {
+			error: error instanceof Error ? error.message : String(error),
+		})
+	}
+
+	return undefined
+}
+
+/**
+ * Runs the verification commands of the project before the completion is
+ * accepted. Returns false if the model has to keep working, in which case
+ * the tool result has already been pushed. Verification is skipped if the
+ * command policy doesn't allow its commands or the user rejects them.
+ */
+async function verifyCompletion(cline: Cline, pushToolResult: PushToolResult): Promise<boolean> {
+	let config
+
+	try {
+		config = await loadProjectVerification(cline.cwd)
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error)
+		await cline.say("error", t("tools:attemptCompletion.invalidVerification", { error: message }))
+		pushToolResult(formatResponse.toolError(message))
+		return false
+	}
+
+	if (!config?.commands.length) {
+		return true
+	}
+
+	const policyError = await getVerificationPolicyError(cline, config.commands)
+
+	if (policyError) {
+		await cline.say("error", t("tools:attemptCompletion.verificationSkipped", { reason: policyError }))
+		return true
+	}
+
+	const { response, text, images } = await cline.ask("command", config.commands.join(" && "))
+
+	if (text) {
+		await cline.say("user_feedback", text, images)
+	}
+
+	if (response !== "yesButtonClicked") {
+		// Feedback sent instead of running the verification is for the model,
+		// otherwise rejecting only skips the verification.
+		if (text) {
+			pushToolResult(formatResponse.toolResult(formatResponse.toolDeniedWithFeedback(text), images))
+			return false
+		}
+
+		return true
+	}
+
+	const info: Omit<ClineVerificationInfo, "steps"> = {
+		attempt: cline.failedVerificationCount + 1,
+		maxRetries: config.maxRetries ?? DEFAULT_VERIFICATION_MAX_RETRIES,
+	}
+
+	const failure = await runVerification(
+		config.commands,
+		(command) => cline.runVerificationCommand(command),
+		(steps, partial) => cline.say("verification", JSON.stringify({ ...info, steps }), undefined, partial),
+	)
+
+	if (!failure) {
+		cline.failedVerificationCount = 0
+		return true
+	}
+
+	cline.failedVerificationCount++
+
+	// Once the retries are used up, the user gets to judge the result despite the failure.
+	if (cline.failedVerificationCount > info.maxRetries) {
+		cline.failedVerificationCount = 0
+		return true
+	}
+
+	pushToolResult(
+		formatResponse.toolError(formatResponse.verificationFailed(failure.command, failure.exitCode, failure.output)),
+	)
+
+	return false
+}
@@ -1,13 +1,80 @@
 import { Cline } from "../Cline"
-import { ToolUse } from "../assistant-message"
+import { BrowserActionToolUse, ToolUse } from "../assistant-message"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import {
 	BrowserAction,
 	BrowserActionResult,
 	browserActions,
 	ClineSayBrowserAction,
+	ClineSayTool,
 } from "../../shared/ExtensionMessage"
+import { defaultModeSlug, getModeBySlug, isToolAllowedForMode } from "../../shared/modes"
 import { formatResponse } from "../prompts/responses"
+import { fileExistsAtPath } from "../../utils/fs"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
+import { isPathOutsideWorkspace } from "../../utils/pathUtils"
+
+/**
+ * Returns the parameter that an action is missing, if any
+ */
+function getMissingParam(action: BrowserAction, params: BrowserActionToolUse["params"]): string | undefined {
+	switch (action) {
+		case "click":
+		case "hover":
+			return params.coordinate || params.selector ? undefined : "coordinate or selector"
+		case "type":
+		case "press":
+			return params.text ? undefined : "text"
+		case "select_option":
+			return !params.selector ? "selector" : !params.text ? "text" : undefined
+		case "upload_file":
+			return !params.selector ? "selector" : !params.path ? "path" : undefined
+		case "export_har":
+			return params.path ? undefined : "path"
+		case "wait_for":
+			return params.selector || params.text ? undefined : "selector or text"
+		case "resize":
+			return params.size ? undefined : "size"
+		default:
+			return undefined
+	}
+}
+
+/**
+ * Asks for approval to write a HAR file the same way as for other files, after
+ * checking that the mode can edit it. Returns whether the file can be written.
+ */
+async function approveHarFile(
+	cline: Cline,
+	relPath: string,
+	content: string,
+	askApproval: AskApproval,
+	pushToolResult: PushToolResult,
+): Promise<boolean> {
+	const { mode = defaultModeSlug, customModes = [] } = (await cline.providerRef.deref()?.getState()) ?? {}
+
+	try {
+		if (!isToolAllowedForMode("write_to_file", mode, customModes, undefined, { path: relPath, content })) {
+			const modeName = getModeBySlug(mode, customModes)?.name ?? mode
+			pushToolResult(formatResponse.toolError(`HAR files can't be written in ${modeName} mode.`))
+			return false
+		}
+	} catch (error) {
+		// The mode can only edit files matching a pattern.
+		pushToolResult(formatResponse.toolError(error instanceof Error ? error.message : String(error)))
+		return false
+	}
+
+	const fileExists = await fileExistsAtPath(resolveWorkspacePath(cline.cwd, relPath))
+
+	const completeMessage = JSON.stringify({
+		tool: fileExists ? "editedExistingFile" : "newFileCreated",
+		path: getReadablePath(cline.cwd, relPath),
+		content,
+	} satisfies ClineSayTool)
+
+	return askApproval("tool", completeMessage)
+}
 
 export async function browserActionTool(
 	cline: Cline,
@@ -20,8 +87,11 @@ export async function browserActionTool(
 	const action: BrowserAction | undefined = block.params.action as BrowserAction
 	const url: string | undefined = block.params.url
 	const coordinate: string | undefined = block.params.coordinate
+	const selector: string | undefined = block.params.selector
 	const text: string | undefined = block.params.text
 	const size: string | undefined = block.params.size
+	const relPath: string | undefined = block.params.path
+	const status: string | undefined = block.params.status
 	if (!action || !browserActions.includes(action)) {
 		// checking for action to ensure it is complete and valid
 		if (!block.partial) {
@@ -42,8 +112,12 @@ export async function browserActionTool(
 					"browser_action",
 					JSON.stringify({
 						action: action as BrowserAction,
+						url: removeClosingTag("url", url),
 						coordinate: removeClosingTag("coordinate", coordinate),
+						selector: removeClosingTag("selector", selector),
+						status: removeClosingTag("status", status),
 						text: removeClosingTag("text", text),
+						path: removeClosingTag("path", relPath),
 					} satisfies ClineSayBrowserAction),
 					undefined,
 					block.partial,
@@ -53,6 +127,7 @@ export async function browserActionTool(
 		} else {
 			// Initialize with empty object to avoid "used before assigned" errors
 			let browserActionResult: BrowserActionResult = {}
+			let har: { content: string; requestCount: number } | undefined
 			if (action === "launch") {
 				if (!url) {
 					cline.consecutiveMistakeCount++
@@ -73,27 +148,32 @@ export async function browserActionTool(
 				await cline.browserSession.launchBrowser()
 				browserActionResult = await cline.browserSession.navigateToUrl(url)
 			} else {
-				if (action === "click" || action === "hover") {
-					if (!coordinate) {
-						cline.consecutiveMistakeCount++
-						pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "coordinate"))
-						await cline.browserSession.closeBrowser()
-						return // can't be within an inner switch
-					}
+				const missingParam = getMissingParam(action, block.params)
+				if (missingParam) {
+					cline.consecutiveMistakeCount++
+					pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", missingParam))
+					await cline.browserSession.closeBrowser()
+					return
 				}
-				if (action === "type") {
-					if (!text) {
-						cline.consecutiveMistakeCount++
-						pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "text"))
-						await cline.browserSession.closeBrowser()
+				if (action === "upload_file" || action === "export_har") {
+					if (!cline.rooIgnoreController?.validateAccess(relPath!)) {
+						await cline.say("rooignore_error", relPath)
+						pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath!)))
+						return
+					}
+					if (isPathOutsideWorkspace(resolveWorkspacePath(cline.cwd, relPath!))) {
+						pushToolResult(
+							formatResponse.toolError(
+								`Only files in the workspace can be ${action === "upload_file" ? "uploaded" : "written"}, but ${relPath} is outside of it.`,
+							),
+						)
 						return
 					}
 				}
-				if (action === "resize") {
-					if (!size) {
-						cline.consecutiveMistakeCount++
-						pushToolResult(await cline.sayAndCreateMissingParamError("browser_action", "size"))
-						await cline.browserSession.closeBrowser()
+				if (action === "export_har") {
+					har = await cline.browserSession.createHar()
+
+					if (!(await approveHarFile(cline, relPath!, har.content, askApproval, pushToolResult))) {
 						return
 					}
 				}
@@ -102,21 +182,56 @@ export async function browserActionTool(
 					"browser_action",
 					JSON.stringify({
 						action: action as BrowserAction,
+						url,
 						coordinate,
+						selector,
+						element: selector ? cline.browserSession.describeElementRef(selector) : undefined,
+						status,
 						text,
+						path: relPath,
 					} satisfies ClineSayBrowserAction),
 					undefined,
 					false,
 				)
 				switch (action) {
 					case "click":
-						browserActionResult = await cline.browserSession.click(coordinate!)
+						browserActionResult = await cline.browserSession.click({ coordinate, selector })
 						break
 					case "hover":
-						browserActionResult = await cline.browserSession.hover(coordinate!)
+						browserActionResult = await cline.browserSession.hover({ coordinate, selector })
 						break
 					case "type":
-						browserActionResult = await cline.browserSession.type(text!)
+						browserActionResult = await cline.browserSession.type(text!, selector)
+						break
+					case "press":
+						browserActionResult = await cline.browserSession.press(text!, selector)
+						break
+					case "select_option":
+						browserActionResult = await cline.browserSession.selectOption(selector!, text!)
+						break
+					case "upload_file":
+						browserActionResult = await cline.browserSession.uploadFile(
+							selector!,
+							resolveWorkspacePath(cline.cwd, relPath!),
+						)
+						break
+					case "wait_for":
+						browserActionResult = await cline.browserSession.waitFor({ selector, text })
+						break
+					case "snapshot":
+						browserActionResult = await cline.browserSession.snapshot()
+						break
+					case "network_log":
+						browserActionResult = await cline.browserSession.networkLog({ url, status })
+						break
+					case "console_log":
+						browserActionResult = await cline.browserSession.consoleLog({ url, text })
+						break
+					case "export_har":
+						browserActionResult = await cline.browserSession.exportHar(
+							resolveWorkspacePath(cline.cwd, relPath!),
+							har!,
+						)
 						break
 					case "scroll_down":
 						browserActionResult = await cline.browserSession.scrollDown()
@@ -138,6 +253,11 @@ export async function browserActionTool(
 				case "click":
 				case "hover":
 				case "type":
+				case "press":
+				case "select_option":
+				case "upload_file":
+				case "wait_for":
+				case "snapshot":
 				case "scroll_down":
 				case "scroll_up":
 				case "resize":
@@ -146,11 +266,21 @@ export async function browserActionTool(
 						formatResponse.toolResult(
 							`The browser action has been executed. The console logs and screenshot have been captured for your analysis.\n\nConsole logs:\n${
 								browserActionResult?.logs || "(No new logs)"
+							}${
+								browserActionResult?.snapshot
+									? `\n\nAccessibility snapshot (use [ref=...] values as selectors, e.g. ref=e1):\n${browserActionResult.snapshot}`
+									: ""
 							}\n\n(REMEMBER: if you need to proceed to using non-\`browser_action\` tools or launch a new browser, you MUST first close cline browser. For example, if after analyzing the logs and screenshot you need to edit a file, you must first close the browser before you can use the write_to_file tool.)`,
 							browserActionResult?.screenshot ? [browserActionResult.screenshot] : [],
 						),
 					)
 					break
+				case "network_log":
+				case "console_log":
+				case "export_har":
+					await cline.say("browser_action_result", JSON.stringify(browserActionResult))
+					pushToolResult(formatResponse.toolResult(browserActionResult.output ?? ""))
+					break
 				case "close":
 					pushToolResult(
 						formatResponse.toolResult(
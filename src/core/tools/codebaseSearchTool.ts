@@ -0,0 +1,85 @@
+import { Cline } from "../Cline"
+import { ToolUse } from "../assistant-message"
+import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
+import { addLineNumbers } from "../../integrations/misc/extract-text"
+import { CodeSearchResult } from "../../services/code-index/types"
+
+const MAX_RESULTS = 10
+
+export async function codebaseSearchTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const query: string | undefined = block.params.query
+	const relDirPath: string | undefined = block.params.path
+	const sharedMessageProps: ClineSayTool = {
+		tool: "codebaseSearch",
+		query: removeClosingTag("query", query),
+		path: relDirPath ? getReadablePath(cline.cwd, removeClosingTag("path", relDirPath)) : undefined,
+	}
+
+	try {
+		if (block.partial) {
+			const partialMessage = JSON.stringify({ ...sharedMessageProps, content: "" } satisfies ClineSayTool)
+			await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+			return
+		}
+
+		if (!query) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("codebase_search", "query"))
+			return
+		}
+
+		const codeIndexManager = cline.providerRef.deref()?.codeIndexManager
+
+		if (!codeIndexManager) {
+			pushToolResult("The codebase index isn't available because no workspace folder is open.")
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const directory = relDirPath ? resolveWorkspacePath(cline.cwd, relDirPath) : undefined
+		const results = (await codeIndexManager.search(query, directory, MAX_RESULTS)).filter(
+			(result) => cline.rooIgnoreController?.validateAccess(result.filePath) ?? true,
+		)
+
+		let content = formatResults(query, results)
+
+		if (codeIndexManager.state === "indexing") {
+			content += "\n\n(The codebase is still being indexed, so results may be incomplete.)"
+		}
+
+		const completeMessage = JSON.stringify({ ...sharedMessageProps, content } satisfies ClineSayTool)
+		const didApprove = await askApproval("tool", completeMessage)
+
+		if (!didApprove) {
+			return
+		}
+
+		pushToolResult(content)
+	} catch (error) {
+		await handleError("searching the codebase", error)
+	}
+}
+
+function formatResults(query: string, results: CodeSearchResult[]): string {
+	if (results.length === 0) {
+		return `No results found for "${query}".`
+	}
+
+	const sections = results.map(
+		({ filePath, identifier, startLine, endLine, content, score }) =>
+			`# ${filePath}:${startLine}-${endLine}${identifier ? ` (${identifier})` : ""} | score ${score.toFixed(2)}\n` +
+			addLineNumbers(content, startLine),
+	)
+
+	return `Found ${results.length} result${results.length === 1 ? "" : "s"} for "${query}":\n\n${sections.join("\n\n")}`
+}
@@ -2,6 +2,9 @@ import { Cline } from "../Cline"
 import { ToolUse } from "../assistant-message"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import { formatResponse } from "../prompts/responses"
+import { loadProjectCommandPolicy } from "../config/projectCommandPolicy"
+import { CommandPolicyDecision, getCommandDecision } from "../../shared/commandPolicy"
+import { t } from "../../i18n"
 
 export async function executeCommandTool(
 	cline: Cline,
@@ -13,6 +16,8 @@ export async function executeCommandTool(
 ) {
 	let command: string | undefined = block.params.command
 	const customCwd: string | undefined = block.params.cwd
+	const background = block.params.background?.toLowerCase() === "true"
+	const name: string | undefined = block.params.name?.trim()
 	try {
 		if (block.partial) {
 			await cline.ask("command", removeClosingTag("command", command), block.partial).catch(() => {})
@@ -24,6 +29,22 @@ export async function executeCommandTool(
 				return
 			}
 
+			if (background && !name) {
+				cline.consecutiveMistakeCount++
+				pushToolResult(await cline.sayAndCreateMissingParamError("execute_command", "name"))
+				return
+			}
+
+			if (background && cline.processManager.get(name!)?.status === "running") {
+				cline.consecutiveMistakeCount++
+				pushToolResult(
+					formatResponse.toolError(
+						`A background process named "${name}" is already running. Stop it with stop_process or choose another name.`,
+					),
+				)
+				return
+			}
+
 			const ignoredFileAttemptedToAccess = cline.rooIgnoreController?.validateCommand(command)
 			if (ignoredFileAttemptedToAccess) {
 				await cline.say("rooignore_error", ignoredFileAttemptedToAccess)
@@ -35,12 +56,42 @@ export async function executeCommandTool(
 			// unescape html entities (e.g. &lt; -> <)
 			command = command.replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&")
 
+			const { deniedCommands, mode } = (await cline.providerRef.deref()?.getState()) ?? {}
+			let decision: CommandPolicyDecision
+
+			try {
+				const projectPolicy = await loadProjectCommandPolicy(cline.cwd)
+				decision = getCommandDecision(command, { deniedCommands, projectPolicy, mode })
+			} catch (error) {
+				const message = error instanceof Error ? error.message : String(error)
+				await cline.say("error", t("tools:executeCommand.invalidPolicy", { error: message }))
+				pushToolResult(formatResponse.toolError(message))
+				return
+			}
+
+			if (decision.action === "deny") {
+				await cline.say(
+					"error",
+					t("tools:executeCommand.deniedByPolicy", { command: decision.command, rule: decision.rule }),
+				)
+				pushToolResult(
+					formatResponse.toolError(formatResponse.commandDeniedByPolicy(decision.command, decision.rule)),
+				)
+				return
+			}
+
 			cline.consecutiveMistakeCount = 0
 
 			const didApprove = await askApproval("command", command)
 			if (!didApprove) {
 				return
 			}
+
+			if (background) {
+				pushToolResult(await cline.startBackgroundProcess(name!, command, customCwd))
+				return
+			}
+
 			const [userRejected, result] = await cline.executeCommandTool(command, customCwd)
 			if (userRejected) {
 				cline.didRejectTool = true
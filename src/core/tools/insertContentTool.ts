@@ -1,10 +1,9 @@
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { Cline } from "../Cline"
 import { ToolUse } from "../assistant-message"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import { formatResponse } from "../prompts/responses"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import path from "path"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { fileExistsAtPath } from "../../utils/fs"
 import { insertGroups } from "../diff/insert-groups"
@@ -47,7 +46,7 @@ export async function insertContentTool(
 			return
 		}
 
-		const absolutePath = path.resolve(cline.cwd, relPath)
+		const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 		const fileExists = await fileExistsAtPath(absolutePath)
 
 		if (!fileExists) {
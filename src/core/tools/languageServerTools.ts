@@ -0,0 +1,260 @@
+import * as vscode from "vscode"
+
+import { Cline } from "../Cline"
+import { ToolUse } from "../assistant-message"
+import { formatResponse } from "../prompts/responses"
+import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
+import { fileExistsAtPath } from "../../utils/fs"
+import {
+	formatLocations,
+	getDefinitions,
+	getHover,
+	getReferences,
+	getWorkspaceSymbols,
+	resolvePosition,
+} from "../../integrations/language-server"
+
+const MAX_RESULTS = 50
+
+type PositionTool = {
+	sayTool: ClineSayTool["tool"]
+	action: string
+	// Returns the formatted result, or `undefined` if nothing was found.
+	run: (cline: Cline, uri: vscode.Uri, position: vscode.Position, target: string) => Promise<string | undefined>
+}
+
+const isAccessAllowed = (cline: Cline) => (filePath: string) =>
+	cline.rooIgnoreController?.validateAccess(filePath) ?? true
+
+const goToDefinition: PositionTool = {
+	sayTool: "goToDefinition",
+	action: "finding the definition",
+	run: async (cline, uri, position, target) => {
+		const { content, count } = await formatLocations(
+			await getDefinitions(uri, position),
+			cline.cwd,
+			isAccessAllowed(cline),
+			MAX_RESULTS,
+		)
+
+		return count > 0 ? `Found ${count} definition${count === 1 ? "" : "s"} of ${target}:\n\n${content}` : undefined
+	},
+}
+
+const findReferences: PositionTool = {
+	sayTool: "findReferences",
+	action: "finding references",
+	run: async (cline, uri, position, target) => {
+		const { content, count } = await formatLocations(
+			await getReferences(uri, position),
+			cline.cwd,
+			isAccessAllowed(cline),
+			MAX_RESULTS,
+		)
+
+		return count > 0 ? `Found ${count} reference${count === 1 ? "" : "s"} to ${target}:\n\n${content}` : undefined
+	},
+}
+
+const hover: PositionTool = {
+	sayTool: "getHover",
+	action: "getting hover information",
+	run: async (_cline, uri, position, target) => {
+		const contents = await getHover(uri, position)
+		return contents.length > 0 ? `Hover information for ${target}:\n\n${contents.join("\n\n---\n\n")}` : undefined
+	},
+}
+
+export const goToDefinitionTool = createPositionTool(goToDefinition)
+export const findReferencesTool = createPositionTool(findReferences)
+export const getHoverTool = createPositionTool(hover)
+
+/**
+ * Describes the position of a tool that takes a `symbol` name or a `line` and
+ * optional `column`, for the messages shown to the user.
+ */
+export function describeToolPosition(cline: Cline, block: ToolUse, removeClosingTag: RemoveClosingTag) {
+	const { path: relPath, symbol, line, column } = block.params
+	const readablePath = getReadablePath(cline.cwd, removeClosingTag("path", relPath))
+	const target = removeClosingTag("symbol", symbol) || `${readablePath}:${line ?? ""}${column ? `:${column}` : ""}`
+
+	return { readablePath, target }
+}
+
+/**
+ * Resolves the position of a tool that takes a `symbol` name or a `line` and
+ * optional `column`. Invalid parameters are reported with `pushToolResult`.
+ *
+ * @returns The file and position, or `undefined` if they couldn't be
+ * resolved
+ */
+export async function resolveToolPosition(
+	cline: Cline,
+	block: ToolUse,
+	pushToolResult: PushToolResult,
+): Promise<{ relPath: string; uri: vscode.Uri; position: vscode.Position } | undefined> {
+	const relPath: string | undefined = block.params.path
+	const symbol: string | undefined = block.params.symbol
+	const line = block.params.line ? parseInt(block.params.line) : undefined
+	const column = block.params.column ? parseInt(block.params.column) : undefined
+
+	if (!relPath) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(await cline.sayAndCreateMissingParamError(block.name, "path"))
+		return undefined
+	}
+
+	if (!symbol && (line === undefined || isNaN(line))) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(await cline.sayAndCreateMissingParamError(block.name, "symbol", relPath))
+		return undefined
+	}
+
+	const accessAllowed = cline.rooIgnoreController?.validateAccess(relPath)
+	if (!accessAllowed) {
+		await cline.say("rooignore_error", relPath)
+		pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath)))
+		return undefined
+	}
+
+	const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
+
+	if (!(await fileExistsAtPath(absolutePath))) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(formatResponse.toolError(`File not found: ${absolutePath}`))
+		return undefined
+	}
+
+	const uri = vscode.Uri.file(absolutePath)
+	const document = await vscode.workspace.openTextDocument(uri)
+	const position = resolvePosition(document, {
+		symbol,
+		line,
+		column: column !== undefined && !isNaN(column) ? column : undefined,
+	})
+
+	if (!position) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(
+			formatResponse.toolError(
+				symbol
+					? `The symbol "${symbol}" was not found in ${relPath}.`
+					: `Line ${line} does not exist in ${relPath}, which has ${document.lineCount} lines.`,
+			),
+		)
+		return undefined
+	}
+
+	return { relPath, uri, position }
+}
+
+/**
+ * Creates a tool that asks the language server about the symbol at a
+ * position, given by a `symbol` name or a `line` and optional `column`.
+ */
+function createPositionTool({ sayTool, action, run }: PositionTool) {
+	return async function (
+		cline: Cline,
+		block: ToolUse,
+		askApproval: AskApproval,
+		handleError: HandleError,
+		pushToolResult: PushToolResult,
+		removeClosingTag: RemoveClosingTag,
+	) {
+		const { readablePath, target } = describeToolPosition(cline, block, removeClosingTag)
+		const sharedMessageProps: ClineSayTool = { tool: sayTool, path: readablePath, symbol: target }
+
+		try {
+			if (block.partial) {
+				const partialMessage = JSON.stringify({ ...sharedMessageProps, content: "" } satisfies ClineSayTool)
+				await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+				return
+			}
+
+			const resolved = await resolveToolPosition(cline, block, pushToolResult)
+
+			if (!resolved) {
+				return
+			}
+
+			const { uri, position } = resolved
+			cline.consecutiveMistakeCount = 0
+
+			const content =
+				(await run(cline, uri, position, target)) ??
+				`No results found for ${target}. The language server of this file type may not be installed or may still be starting.`
+
+			const completeMessage = JSON.stringify({ ...sharedMessageProps, content } satisfies ClineSayTool)
+			const didApprove = await askApproval("tool", completeMessage)
+
+			if (!didApprove) {
+				return
+			}
+
+			pushToolResult(content)
+		} catch (error) {
+			await handleError(action, error)
+		}
+	}
+}
+
+export async function searchWorkspaceSymbolsTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const query: string | undefined = block.params.query
+	const sharedMessageProps: ClineSayTool = {
+		tool: "searchWorkspaceSymbols",
+		query: removeClosingTag("query", query),
+	}
+
+	try {
+		if (block.partial) {
+			const partialMessage = JSON.stringify({ ...sharedMessageProps, content: "" } satisfies ClineSayTool)
+			await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+			return
+		}
+
+		if (!query) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("search_workspace_symbols", "query"))
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const symbols = await getWorkspaceSymbols(query)
+		const { content, count } = await formatLocations(
+			symbols.map(({ location }) => location),
+			cline.cwd,
+			isAccessAllowed(cline),
+			MAX_RESULTS,
+			symbols.map(
+				({ name, kind, containerName }) =>
+					`${vscode.SymbolKind[kind]} ${containerName ? `${containerName}.` : ""}${name}`,
+			),
+		)
+
+		const result =
+			count > 0
+				? `Found ${count} symbol${count === 1 ? "" : "s"} matching "${query}":\n\n${content}`
+				: `No symbols found matching "${query}".`
+
+		const completeMessage = JSON.stringify({ ...sharedMessageProps, content: result } satisfies ClineSayTool)
+		const didApprove = await askApproval("tool", completeMessage)
+
+		if (!didApprove) {
+			return
+		}
+
+		pushToolResult(result)
+	} catch (error) {
+		await handleError("searching workspace symbols", error)
+	}
+}
@@ -3,8 +3,7 @@ import { HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import { Cline } from "../Cline"
 import { AskApproval } from "./types"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import { getReadablePath } from "../../utils/path"
-import path from "path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import fs from "fs/promises"
 import { parseSourceCodeForDefinitionsTopLevel, parseSourceCodeDefinitionsForFile } from "../../services/tree-sitter"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
@@ -37,7 +36,7 @@ export async function listCodeDefinitionNamesTool(
 				return
 			}
 			cline.consecutiveMistakeCount = 0
-			const absolutePath = path.resolve(cline.cwd, relPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 			let result: string
 			try {
 				const stats = await fs.stat(absolutePath)
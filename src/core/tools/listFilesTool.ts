@@ -1,10 +1,9 @@
-import * as path from "path"
 import { Cline } from "../Cline"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
 import { ToolParamName, ToolUse } from "../assistant-message"
 import { formatResponse } from "../prompts/responses"
 import { listFiles } from "../../services/glob/list-files"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 /**
  * Implements the list_files tool.
@@ -50,7 +49,7 @@ export async function listFilesTool(
 				return
 			}
 			cline.consecutiveMistakeCount = 0
-			const absolutePath = path.resolve(cline.cwd, relDirPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relDirPath)
 			const [files, didHitLimit] = await listFiles(absolutePath, recursive, 200)
 			const { showRooIgnoredFiles = true } = (await cline.providerRef.deref()?.getState()) ?? {}
 			const result = formatResponse.formatFilesList(
@@ -0,0 +1,89 @@
+import { Cline } from "../Cline"
+import { formatResponse } from "../prompts/responses"
+import { PushToolResult } from "./types"
+import { MultiFileSaveResult } from "../../integrations/editor/DiffViewProvider"
+import { getReadablePath } from "../../utils/path"
+
+export type MultiFileReviewResult = {
+	approvedPaths: string[]
+	files: MultiFileSaveResult[]
+	newProblemsMessage: string
+	feedback?: string
+	images?: string[]
+}
+
+/**
+ * Shows the changes to several existing files in the multi-file diff view,
+ * asks the user which of them to keep and saves those. The other files are
+ * reverted, and so are all of them if the review fails.
+ */
+export async function reviewMultiFileChanges(
+	cline: Cline,
+	changes: { relPath: string; newContent: string }[],
+	completeMessage: string,
+): Promise<MultiFileReviewResult> {
+	let review: MultiFileReviewResult
+
+	try {
+		await cline.diffViewProvider.openMultiFileReview(changes)
+
+		const { response, text, images } = await cline.ask("tool", completeMessage, false)
+		const relPaths = changes.map(({ relPath }) => relPath)
+
+		let approvedPaths: string[] = []
+		let feedback: string | undefined
+
+		if (response === "yesButtonClicked") {
+			approvedPaths = relPaths
+			feedback = text
+		} else if (response === "objectResponse") {
+			// The webview sends a map from (readable) path to approval.
+			const approvals: Record<string, boolean> = JSON.parse(text ?? "{}")
+			approvedPaths = relPaths.filter((relPath) => approvals[getReadablePath(cline.cwd, relPath)])
+		} else {
+			feedback = text
+		}
+
+		const { newProblemsMessage, files } = await cline.diffViewProvider.finishMultiFileReview(approvedPaths)
+		review = { approvedPaths, files, newProblemsMessage, feedback, images }
+	} catch (error) {
+		// The changes are already in the documents.
+		if (cline.diffViewProvider.hasMultiFileReview) {
+			await cline.diffViewProvider.revertChanges()
+		}
+
+		throw error
+	}
+
+	if (review.approvedPaths.length === 0) {
+		cline.didRejectTool = true
+	} else {
+		await cline.getFileContextTracker().trackFileContexts(review.approvedPaths, "roo_edited")
+		cline.didEditFile = true
+	}
+
+	if (review.feedback) {
+		await cline.say("user_feedback", review.feedback, review.images)
+	}
+
+	return review
+}
+
+/**
+ * Pushes the result of a multi-file review, followed by the user's feedback.
+ */
+export function pushMultiFileReviewResult(
+	pushToolResult: PushToolResult,
+	result: string,
+	{ approvedPaths, feedback, images }: MultiFileReviewResult,
+) {
+	if (feedback) {
+		result +=
+			"\n\n" +
+			(approvedPaths.length > 0
+				? formatResponse.toolApprovedWithFeedback(feedback)
+				: formatResponse.toolDeniedWithFeedback(feedback))
+	}
+
+	pushToolResult(feedback && images?.length ? formatResponse.toolResult(result, images) : result)
+}
@@ -0,0 +1,198 @@
+import { Cline } from "../Cline"
+import { ToolUse } from "../assistant-message"
+import { formatResponse } from "../prompts/responses"
+import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import {
+	BackgroundProcess,
+	ProcessOutputLine,
+	ProcessOutputMode,
+	formatProcessStatus,
+} from "../../integrations/terminal/BackgroundProcessManager"
+
+const OUTPUT_MODES: ProcessOutputMode[] = ["tail", "since_last", "grep"]
+
+const DEFAULT_LINES: Record<ProcessOutputMode, number> = { tail: 50, since_last: 200, grep: 50 }
+const MAX_LINES = 1_000
+
+/**
+ * Looks up the process named in a tool call. Unknown names are reported with
+ * `pushToolResult`, along with the names of the task's processes.
+ */
+function getProcess(cline: Cline, name: string, pushToolResult: PushToolResult): BackgroundProcess | undefined {
+	const entry = cline.processManager.get(name)
+
+	if (!entry) {
+		const names = cline.processManager.list().map((process) => `"${process.name}"`)
+		cline.consecutiveMistakeCount++
+		pushToolResult(
+			formatResponse.toolError(
+				`There is no background process named "${name}". ${
+					names.length > 0
+						? `The background processes of this task are ${names.join(", ")}.`
+						: "This task has no background processes, start one with execute_command."
+				}`,
+			),
+		)
+	}
+
+	return entry
+}
+
+const formatLines = (lines: ProcessOutputLine[], withNumbers: boolean) =>
+	lines.map(({ number, text }) => (withNumbers ? `${number}: ${text}` : text)).join("\n")
+
+export async function readProcessOutputTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const name: string | undefined = block.params.name?.trim()
+	const mode = (block.params.mode?.trim() || "tail") as ProcessOutputMode
+	const regex: string | undefined = block.params.regex
+	const sharedMessageProps: ClineSayTool = {
+		tool: "readProcessOutput",
+		processName: removeClosingTag("name", name),
+		mode: removeClosingTag("mode", block.params.mode),
+		regex: removeClosingTag("regex", regex),
+	}
+
+	try {
+		if (block.partial) {
+			await cline.ask("tool", JSON.stringify(sharedMessageProps), block.partial).catch(() => {})
+			return
+		}
+
+		if (!name) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("read_process_output", "name"))
+			return
+		}
+
+		if (!OUTPUT_MODES.includes(mode)) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(
+				formatResponse.toolError(`Invalid mode "${mode}", expected one of ${OUTPUT_MODES.join(", ")}.`),
+			)
+			return
+		}
+
+		if (mode === "grep" && !regex) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("read_process_output", "regex"))
+			return
+		}
+
+		let pattern: RegExp | undefined
+
+		try {
+			pattern = regex ? new RegExp(regex) : undefined
+		} catch (error) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(formatResponse.toolError(`Invalid regex: ${(error as Error).message}`))
+			return
+		}
+
+		const lines = block.params.lines ? parseInt(block.params.lines, 10) : DEFAULT_LINES[mode]
+
+		if (isNaN(lines) || lines < 1) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(
+				formatResponse.toolError(`Invalid lines "${block.params.lines}", expected a positive number.`),
+			)
+			return
+		}
+
+		const entry = getProcess(cline, name, pushToolResult)
+
+		if (!entry) {
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		const didApprove = await askApproval("tool", JSON.stringify(sharedMessageProps))
+
+		if (!didApprove) {
+			return
+		}
+
+		const result = cline.processManager.read(entry, {
+			mode,
+			lines: Math.min(lines, MAX_LINES),
+			regex: pattern,
+		})
+
+		const header = `Background process "${entry.name}" (\`${entry.command}\`) is ${formatProcessStatus(entry)}.`
+		const emptyOutput = { tail: "(No output)", since_last: "(No new output)", grep: "(No matching lines)" }[mode]
+		const output = result.lines.length > 0 ? formatLines(result.lines, mode === "grep") : emptyOutput
+		const omitted =
+			result.omitted > 0 ? `\n(${result.omitted} earlier lines omitted, use tail or grep mode to see them)` : ""
+
+		pushToolResult(`${header}${omitted}\nOutput:\n${output}`)
+	} catch (error) {
+		await handleError("reading process output", error)
+	}
+}
+
+export async function stopProcessTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const name: string | undefined = block.params.name?.trim()
+
+	try {
+		if (block.partial) {
+			const partialMessage = JSON.stringify({
+				tool: "stopProcess",
+				processName: removeClosingTag("name", name),
+			} satisfies ClineSayTool)
+			await cline.ask("tool", partialMessage, block.partial).catch(() => {})
+			return
+		}
+
+		if (!name) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("stop_process", "name"))
+			return
+		}
+
+		const entry = getProcess(cline, name, pushToolResult)
+
+		if (!entry) {
+			return
+		}
+
+		cline.consecutiveMistakeCount = 0
+
+		if (entry.status !== "running") {
+			pushToolResult(`Background process "${entry.name}" is not running, it ${formatProcessStatus(entry)}.`)
+			return
+		}
+
+		const didApprove = await askApproval(
+			"tool",
+			JSON.stringify({ tool: "stopProcess", processName: name, content: entry.command } satisfies ClineSayTool),
+		)
+
+		if (!didApprove) {
+			return
+		}
+
+		await cline.processManager.stop(entry)
+
+		const { lines } = cline.processManager.read(entry, { mode: "since_last", lines: DEFAULT_LINES.tail })
+		const output = lines.length > 0 ? `\nOutput since the last read:\n${formatLines(lines, false)}` : ""
+
+		pushToolResult(`Stopped background process "${entry.name}".${output}`)
+	} catch (error) {
+		await handleError("stopping process", error)
+	}
+}
@@ -1,4 +1,3 @@
-import path from "path"
 import { Cline } from "../Cline"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
 import { ToolUse } from "../assistant-message"
@@ -7,11 +6,12 @@ import { t } from "../../i18n"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import { RecordSource } from "../context-tracking/FileContextTrackerTypes"
 import { isPathOutsideWorkspace } from "../../utils/pathUtils"
-import { getReadablePath } from "../../utils/path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { countFileLines } from "../../integrations/misc/line-counter"
 import { readLines } from "../../integrations/misc/read-lines"
 import { extractTextFromFile, addLineNumbers } from "../../integrations/misc/extract-text"
 import { parseSourceCodeDefinitionsForFile } from "../../services/tree-sitter"
+import { findSymbolDefinitionsInFile } from "../../services/tree-sitter/symbols"
 import { isBinaryFile } from "isbinaryfile"
 
 export async function readFileTool(
@@ -25,9 +25,10 @@ export async function readFileTool(
 	const relPath: string | undefined = block.params.path
 	const startLineStr: string | undefined = block.params.start_line
 	const endLineStr: string | undefined = block.params.end_line
+	const symbol: string | undefined = block.params.symbol
 
 	// Get the full path and determine if it's outside the workspace
-	const fullPath = relPath ? path.resolve(cline.cwd, removeClosingTag("path", relPath)) : ""
+	const fullPath = relPath ? resolveWorkspacePath(cline.cwd, removeClosingTag("path", relPath)) : ""
 	const isOutsideWorkspace = isPathOutsideWorkspace(fullPath)
 
 	const sharedMessageProps: ClineSayTool = {
@@ -51,6 +52,12 @@ export async function readFileTool(
 				return
 			}
 
+			// Symbols and lists of line ranges are read as separate snippets.
+			if (symbol || startLineStr?.includes(",") || endLineStr?.includes(",")) {
+				await readFileSnippets(cline, relPath, block, sharedMessageProps, askApproval, pushToolResult)
+				return
+			}
+
 			const { maxReadFileLine = 500 } = (await cline.providerRef.deref()?.getState()) ?? {}
 			const isFullRead = maxReadFileLine === -1
 
@@ -118,7 +125,7 @@ export async function readFileTool(
 			}
 
 			cline.consecutiveMistakeCount = 0
-			const absolutePath = path.resolve(cline.cwd, relPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
 
 			const completeMessage = JSON.stringify({
 				...sharedMessageProps,
@@ -235,3 +242,103 @@ export async function readFileTool(
 		await handleError("reading file", error)
 	}
 }
+
+type Snippet = { start: number; end: number; symbol?: string }
+
+/**
+ * Reads the definitions of a symbol or a list of line ranges, e.g.
+ * `<start_line>10,40</start_line><end_line>20,55</end_line>`, and returns
+ * each of them as a line-numbered `<content>` tag.
+ */
+async function readFileSnippets(
+	cline: Cline,
+	relPath: string,
+	block: ToolUse,
+	sharedMessageProps: ClineSayTool,
+	askApproval: AskApproval,
+	pushToolResult: PushToolResult,
+) {
+	const { symbol, start_line: startLineStr = "", end_line: endLineStr = "" } = block.params
+	let snippets: Snippet[] = []
+
+	if (!symbol) {
+		const starts = startLineStr.split(",").map((line) => parseInt(line))
+		const ends = endLineStr.split(",").map((line) => parseInt(line))
+
+		if (starts.length !== ends.length || [...starts, ...ends].some((line) => isNaN(line))) {
+			cline.consecutiveMistakeCount++
+			await cline.say("error", `Failed to parse line ranges: start_line=${startLineStr}, end_line=${endLineStr}`)
+			pushToolResult(
+				`<file><path>${relPath}</path><error>start_line and end_line must list the same number of line numbers</error></file>`,
+			)
+			return
+		}
+
+		// Convert to 0-based indexes
+		snippets = starts.map((start, i) => ({ start: start - 1, end: ends[i] - 1 }))
+	}
+
+	const accessAllowed = cline.rooIgnoreController?.validateAccess(relPath)
+	if (!accessAllowed) {
+		await cline.say("rooignore_error", relPath)
+		const errorMsg = formatResponse.rooIgnoreError(relPath)
+		pushToolResult(`<file><path>${relPath}</path><error>${errorMsg}</error></file>`)
+		return
+	}
+
+	cline.consecutiveMistakeCount = 0
+	const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
+
+	const completeMessage = JSON.stringify({
+		...sharedMessageProps,
+		content: absolutePath,
+		reason: symbol
+			? t("tools:readFile.symbol", { symbol })
+			: t("tools:readFile.linesRanges", {
+					ranges: snippets.map(({ start, end }) => `${start + 1}-${end + 1}`).join(", "),
+				}),
+	} satisfies ClineSayTool)
+
+	const didApprove = await askApproval("tool", completeMessage)
+	if (!didApprove) {
+		return
+	}
+
+	if (symbol) {
+		const definitions = await findSymbolDefinitionsInFile(absolutePath, symbol)
+
+		if (!definitions) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(
+				`<file><path>${relPath}</path><error>Reading symbols is not supported for this file type, use start_line and end_line instead</error></file>`,
+			)
+			return
+		}
+
+		if (definitions.length === 0) {
+			cline.consecutiveMistakeCount++
+			const sourceCodeDef = await parseSourceCodeDefinitionsForFile(absolutePath, cline.rooIgnoreController)
+			const definitionsInfo = sourceCodeDef
+				? `\n<list_code_definition_names>${sourceCodeDef}</list_code_definition_names>\n`
+				: ""
+			pushToolResult(
+				`<file><path>${relPath}</path><error>Symbol "${symbol}" not found</error>${definitionsInfo}</file>`,
+			)
+			return
+		}
+
+		snippets = definitions.map(({ startLine, endLine }) => ({ start: startLine, end: endLine, symbol }))
+	}
+
+	let contentTags = ""
+
+	for (const { start, end, symbol } of snippets) {
+		const content = addLineNumbers(await readLines(absolutePath, end, start), start + 1)
+		const symbolAttr = symbol ? ` symbol="${symbol}"` : ""
+		contentTags += `<content lines="${start + 1}-${end + 1}"${symbolAttr}>\n${content}</content>\n`
+	}
+
+	await cline.getFileContextTracker().trackFileContext(relPath, "read_tool" as RecordSource)
+
+	pushToolResult(`<file><path>${relPath}</path>\n${contentTags}</file>`)
+}
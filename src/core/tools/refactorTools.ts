@@ -0,0 +1,364 @@
+import path from "path"
+import * as vscode from "vscode"
+
+import { Cline } from "../Cline"
+import { ToolUse, ToolUseName } from "../assistant-message"
+import { formatResponse } from "../prompts/responses"
+import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
+import { ClineSayTool } from "../../shared/ExtensionMessage"
+import { defaultModeSlug, isToolAllowedForMode } from "../../shared/modes"
+import { getReadablePath, resolveWorkspacePath, toWorkspaceRelativePath } from "../../utils/path"
+import { fileExistsAtPath } from "../../utils/fs"
+import { addLineNumbers } from "../../integrations/misc/extract-text"
+import {
+	getCodeActions,
+	getRenameEdit,
+	getWorkspaceEditChanges,
+	hasResourceOperations,
+} from "../../integrations/language-server"
+import { describeToolPosition, resolveToolPosition } from "./languageServerTools"
+import { pushMultiFileReviewResult, reviewMultiFileChanges } from "./multiFileReview"
+
+// Code actions compute their edits lazily, so the edits of this many actions
+// are resolved when one of them is applied.
+const MAX_RESOLVED_CODE_ACTIONS = 50
+
+export async function renameSymbolTool(
+	cline: Cline,
+	block: ToolUse,
+	_askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const newName: string | undefined = block.params.new_name
+	const { readablePath, target } = describeToolPosition(cline, block, removeClosingTag)
+	const sharedMessageProps: ClineSayTool = {
+		tool: "renamedSymbol",
+		path: readablePath,
+		symbol: target,
+		newName: removeClosingTag("new_name", newName),
+	}
+
+	try {
+		if (block.partial) {
+			await cline
+				.ask("tool", JSON.stringify(sharedMessageProps satisfies ClineSayTool), block.partial)
+				.catch(() => {})
+			return
+		}
+
+		if (!newName) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("rename_symbol", "new_name"))
+			return
+		}
+
+		const resolved = await resolveToolPosition(cline, block, pushToolResult)
+
+		if (!resolved) {
+			return
+		}
+
+		let edit: vscode.WorkspaceEdit | undefined
+
+		try {
+			edit = await getRenameEdit(resolved.uri, resolved.position, newName)
+		} catch (error) {
+			// Language servers reject renames with a reason, e.g. for keywords.
+			cline.consecutiveMistakeCount++
+			const reason = error instanceof Error ? error.message : String(error)
+			pushToolResult(formatResponse.toolError(`${target} can't be renamed: ${reason}`))
+			return
+		}
+
+		if (!edit || edit.size === 0) {
+			pushToolResult(
+				formatResponse.toolError(
+					`No language server could rename ${target}. The language server of this file type may not be installed or may still be starting; edit the files instead.`,
+				),
+			)
+			return
+		}
+
+		await reviewWorkspaceEdit(
+			cline,
+			block.name,
+			edit,
+			sharedMessageProps,
+			`Renamed ${target} to ${newName}`,
+			pushToolResult,
+		)
+	} catch (error) {
+		await handleError("renaming symbol", error)
+	}
+}
+
+export async function applyCodeActionTool(
+	cline: Cline,
+	block: ToolUse,
+	askApproval: AskApproval,
+	handleError: HandleError,
+	pushToolResult: PushToolResult,
+	removeClosingTag: RemoveClosingTag,
+) {
+	const relPath: string | undefined = block.params.path
+	const title: string | undefined = block.params.action
+	const startLine = block.params.start_line ? parseInt(block.params.start_line) : undefined
+	const endLine = block.params.end_line ? parseInt(block.params.end_line) : startLine
+
+	const sharedMessageProps: ClineSayTool = {
+		tool: title ? "appliedCodeAction" : "listCodeActions",
+		path: getReadablePath(cline.cwd, removeClosingTag("path", relPath)),
+		codeAction: removeClosingTag("action", title),
+	}
+
+	try {
+		if (block.partial) {
+			await cline
+				.ask("tool", JSON.stringify(sharedMessageProps satisfies ClineSayTool), block.partial)
+				.catch(() => {})
+			return
+		}
+
+		if (!relPath) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("apply_code_action", "path"))
+			return
+		}
+
+		if (startLine === undefined || isNaN(startLine) || endLine === undefined || isNaN(endLine)) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(await cline.sayAndCreateMissingParamError("apply_code_action", "start_line", relPath))
+			return
+		}
+
+		const accessAllowed = cline.rooIgnoreController?.validateAccess(relPath)
+		if (!accessAllowed) {
+			await cline.say("rooignore_error", relPath)
+			pushToolResult(formatResponse.toolError(formatResponse.rooIgnoreError(relPath)))
+			return
+		}
+
+		const absolutePath = resolveWorkspacePath(cline.cwd, relPath)
+
+		if (!(await fileExistsAtPath(absolutePath))) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(formatResponse.toolError(`File not found: ${absolutePath}`))
+			return
+		}
+
+		const uri = vscode.Uri.file(absolutePath)
+		const document = await vscode.workspace.openTextDocument(uri)
+
+		if (startLine < 1 || endLine < startLine || endLine > document.lineCount) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(
+				formatResponse.toolError(
+					`Invalid line range ${startLine}-${endLine}: ${relPath} has ${document.lineCount} lines.`,
+				),
+			)
+			return
+		}
+
+		const range = new vscode.Range(startLine - 1, 0, endLine - 1, document.lineAt(endLine - 1).text.length)
+		const lines = `lines ${startLine}-${endLine} of ${relPath}`
+
+		if (!title) {
+			cline.consecutiveMistakeCount = 0
+
+			const actions = await getCodeActions(uri, range)
+			const content =
+				actions.length > 0
+					? `Code actions available for ${lines}:\n${formatCodeActions(actions)}\n\nApply one of them with its title as the action parameter.`
+					: `No code actions are available for ${lines}.`
+
+			const didApprove = await askApproval("tool", JSON.stringify({ ...sharedMessageProps, content }))
+
+			if (didApprove) {
+				pushToolResult(content)
+			}
+
+			return
+		}
+
+		const actions = await getCodeActions(uri, range, MAX_RESOLVED_CODE_ACTIONS)
+		const action =
+			actions.find((action) => action.title === title) ??
+			actions.find((action) => action.title.toLowerCase() === title.toLowerCase())
+
+		if (!action) {
+			cline.consecutiveMistakeCount++
+			pushToolResult(
+				formatResponse.toolError(
+					actions.length > 0
+						? `The code action "${title}" is not available for ${lines}. Available code actions:\n${formatCodeActions(actions)}`
+						: `No code actions are available for ${lines}.`,
+				),
+			)
+			return
+		}
+
+		if (action.disabled) {
+			pushToolResult(
+				formatResponse.toolError(`The code action "${action.title}" is disabled: ${action.disabled.reason}`),
+			)
+			return
+		}
+
+		if (!action.edit || action.edit.size === 0) {
+			pushToolResult(
+				formatResponse.toolError(
+					`The code action "${action.title}" runs an editor command instead of providing an edit, so its changes can't be reviewed. Make the change by editing the files instead.`,
+				),
+			)
+			return
+		}
+
+		await reviewWorkspaceEdit(
+			cline,
+			block.name,
+			action.edit,
+			{ ...sharedMessageProps, codeAction: action.title },
+			`Applied the code action "${action.title}"`,
+			pushToolResult,
+		)
+	} catch (error) {
+		await handleError("applying code action", error)
+	}
+}
+
+function formatCodeActions(actions: vscode.CodeAction[]) {
+	return actions
+		.map(
+			({ title, kind, isPreferred, disabled }) =>
+				`- ${title}${kind ? ` (${kind.value})` : ""}${isPreferred ? " [preferred]" : ""}${disabled ? ` [disabled: ${disabled.reason}]` : ""}`,
+		)
+		.join("\n")
+}
+
+/**
+ * Shows the changes of a workspace edit in the multi-file diff view and
+ * applies the files approved by the user, like a batched `apply_diff`.
+ */
+async function reviewWorkspaceEdit(
+	cline: Cline,
+	toolName: ToolUseName,
+	edit: vscode.WorkspaceEdit,
+	sharedMessageProps: ClineSayTool,
+	summary: string,
+	pushToolResult: PushToolResult,
+) {
+	// The review can only show changes to the content of existing files.
+	if (await hasResourceOperations(edit)) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(
+			formatResponse.toolError(
+				"The edit was not applied because it creates, renames or deletes files, which isn't supported. Make the changes with the file editing tools instead.",
+			),
+		)
+		return
+	}
+
+	const changes = (await getWorkspaceEditChanges(edit))
+		.filter(({ originalContent, newContent }) => originalContent !== newContent)
+		.map((change) => {
+			const relPath = toWorkspaceRelativePath(change.uri.fsPath, cline.cwd)
+			const diff = formatResponse.createPrettyPatch(relPath, change.originalContent, change.newContent)
+			return { ...change, relPath, diff }
+		})
+
+	// Applying only a part of an edit (e.g. a rename) would break the code, so
+	// edits touching files the agent may not change are rejected as a whole.
+	const blockedPaths = changes
+		.map(({ relPath }) => relPath)
+		.filter(
+			(relPath) =>
+				relPath.startsWith("..") ||
+				path.isAbsolute(relPath) ||
+				!(cline.rooIgnoreController?.validateAccess(relPath) ?? true),
+		)
+
+	if (blockedPaths.length > 0) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(
+			formatResponse.toolError(
+				`The edit was not applied because it changes files outside the workspace or blocked by the .rooignore file:\n${blockedPaths.map((p) => `- ${p.toPosix()}`).join("\n")}`,
+			),
+		)
+		return
+	}
+
+	const { mode, customModes } = (await cline.providerRef.deref()?.getState()) ?? {}
+	const restrictionErrors: string[] = []
+
+	for (const { relPath, diff } of changes) {
+		try {
+			// Mode file restrictions are only validated against the `path` parameter.
+			isToolAllowedForMode(toolName, mode ?? defaultModeSlug, customModes ?? [], undefined, {
+				path: relPath,
+				diff,
+			})
+		} catch (error) {
+			restrictionErrors.push(error.message)
+		}
+	}
+
+	if (restrictionErrors.length > 0) {
+		cline.consecutiveMistakeCount++
+		pushToolResult(
+			formatResponse.toolError(
+				`The edit was not applied because it changes files this mode may not edit:\n${restrictionErrors.map((error) => `- ${error}`).join("\n")}`,
+			),
+		)
+		return
+	}
+
+	if (changes.length === 0) {
+		pushToolResult(`${summary}: the edit didn't change any files.`)
+		return
+	}
+
+	cline.consecutiveMistakeCount = 0
+
+	const completeMessage = JSON.stringify({
+		...sharedMessageProps,
+		batchDiffs: changes.map(({ relPath, diff }) => ({ path: getReadablePath(cline.cwd, relPath), diff })),
+	} satisfies ClineSayTool)
+
+	const review = await reviewMultiFileChanges(
+		cline,
+		changes.map(({ relPath, newContent }) => ({ relPath, newContent })),
+		completeMessage,
+	)
+
+	const rejectedPaths = changes
+		.map(({ relPath }) => relPath)
+		.filter((relPath) => !review.approvedPaths.includes(relPath))
+	const sections: string[] = []
+
+	if (review.files.length > 0) {
+		sections.push(`${summary} in ${review.files.length} file${review.files.length === 1 ? "" : "s"}:`)
+		sections.push(review.files.map(({ relPath }) => `- ${relPath.toPosix()}`).join("\n"))
+	}
+
+	if (review.files.length === 0) {
+		sections.push("The user rejected the edit.")
+	} else if (rejectedPaths.length > 0) {
+		sections.push(
+			`The user rejected the changes to these files, so the code may be inconsistent:\n${rejectedPaths.map((p) => `- ${p.toPosix()}`).join("\n")}`,
+		)
+	}
+
+	for (const { relPath, userEdits, finalContent } of review.files) {
+		if (userEdits) {
+			sections.push(
+				`The user made the following updates to ${relPath.toPosix()}:\n\n${userEdits}\n\n` +
+					`Here is the full, updated content of the file, including line numbers:\n\n` +
+					`<final_file_content path="${relPath.toPosix()}">\n${addLineNumbers(finalContent)}\n</final_file_content>`,
+			)
+		}
+	}
+
+	pushMultiFileReviewResult(pushToolResult, sections.join("\n\n") + review.newProblemsMessage, review)
+}
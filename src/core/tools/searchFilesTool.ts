@@ -2,8 +2,7 @@ import { Cline } from "../Cline"
 import { ToolUse } from "../assistant-message"
 import { AskApproval, HandleError, PushToolResult, RemoveClosingTag } from "./types"
 import { ClineSayTool } from "../../shared/ExtensionMessage"
-import { getReadablePath } from "../../utils/path"
-import path from "path"
+import { getReadablePath, resolveWorkspacePath } from "../../utils/path"
 import { regexSearchFiles } from "../../services/ripgrep"
 
 export async function searchFilesTool(
@@ -43,7 +42,7 @@ export async function searchFilesTool(
 				return
 			}
 			cline.consecutiveMistakeCount = 0
-			const absolutePath = path.resolve(cline.cwd, relDirPath)
+			const absolutePath = resolveWorkspacePath(cline.cwd, relDirPath)
 			const results = await regexSearchFiles(
 				cline.cwd,
 				absolutePath,
@@ -0,0 +1,66 @@
+// npx jest src/core/verification/__tests__/index.test.ts
+
+import { ClineVerificationStep } from "../../../shared/ExtensionMessage"
+import { runVerification, VerificationCommandResult } from ".."
+
+describe("runVerification", () => {
+	const run = (results: Record<string, VerificationCommandResult>) =>
+		jest.fn(async (command: string) => results[command])
+
+	const recordProgress = () => {
+		const updates: { steps: ClineVerificationStep[]; partial: boolean }[] = []
+		const onProgress = async (steps: ClineVerificationStep[], partial: boolean) => {
+			updates.push({ steps: structuredClone(steps), partial })
+		}
+		return { updates, onProgress }
+	}
+
+	it("passes when every command exits with 0", async () => {
+		const runCommand = run({
+			"npm run lint": { exitCode: 0, output: "" },
+			"npm test": { exitCode: 0, output: "All tests passed" },
+		})
+		const { updates, onProgress } = recordProgress()
+
+		await expect(runVerification(["npm run lint", "npm test"], runCommand, onProgress)).resolves.toBeUndefined()
+
+		expect(runCommand).toHaveBeenCalledTimes(2)
+		expect(updates.map(({ steps }) => steps.map(({ status }) => status))).toEqual([
+			["running", "pending"],
+			["passed", "running"],
+			["passed", "passed"],
+		])
+		expect(updates.map(({ partial }) => partial)).toEqual([true, true, false])
+	})
+
+	it("stops at the first failing command", async () => {
+		const runCommand = run({
+			"npm run lint": { exitCode: 1, output: "src/a.ts: 'x' is unused" },
+			"npm test": { exitCode: 0, output: "" },
+		})
+		const { updates, onProgress } = recordProgress()
+
+		await expect(runVerification(["npm run lint", "npm test"], runCommand, onProgress)).resolves.toEqual({
+			command: "npm run lint",
+			exitCode: 1,
+			output: "src/a.ts: 'x' is unused",
+		})
+
+		expect(runCommand).toHaveBeenCalledTimes(1)
+		expect(updates.at(-1)).toEqual({
+			steps: [
+				{ command: "npm run lint", status: "failed", exitCode: 1 },
+				{ command: "npm test", status: "skipped" },
+			],
+			partial: false,
+		})
+	})
+
+	it("fails if the exit code is unknown", async () => {
+		const runCommand = run({ "npm test": { exitCode: undefined, output: "" } })
+
+		await expect(runVerification(["npm test"], runCommand, async () => {})).resolves.toMatchObject({
+			command: "npm test",
+		})
+	})
+})
@@ -0,0 +1,53 @@
+import { ClineVerificationStep } from "../../shared/ExtensionMessage"
+
+// How many times a failed verification sends the model back to work before
+// the completion is accepted anyway.
+export const DEFAULT_VERIFICATION_MAX_RETRIES = 3
+
+export type VerificationCommandResult = {
+	exitCode: number | undefined
+	output: string
+}
+
+export type VerificationFailure = VerificationCommandResult & {
+	command: string
+}
+
+/**
+ * Runs the verification commands one after another, like a `&&` chain: the
+ * first command that doesn't exit with 0 fails the verification and the
+ * remaining ones are skipped. `onProgress` receives the steps whenever one
+ * of them changes, with `partial` set until the verification is over.
+ */
+export async function runVerification(
+	commands: string[],
+	runCommand: (command: string) => Promise<VerificationCommandResult>,
+	onProgress: (steps: ClineVerificationStep[], partial: boolean) => Promise<void>,
+): Promise<VerificationFailure | undefined> {
+	const steps: ClineVerificationStep[] = commands.map((command) => ({ command, status: "pending" }))
+	let failure: VerificationFailure | undefined
+
+	for (const step of steps) {
+		if (failure) {
+			step.status = "skipped"
+			continue
+		}
+
+		step.status = "running"
+		await onProgress(steps, true)
+
+		const result = await runCommand(step.command)
+		step.exitCode = result.exitCode
+
+		if (result.exitCode === 0) {
+			step.status = "passed"
+		} else {
+			step.status = "failed"
+			failure = { command: step.command, ...result }
+		}
+	}
+
+	await onProgress(steps, false)
+
+	return failure
+}
@@ -9,7 +9,7 @@ import axios from "axios"
 import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
 
-import { GlobalState, ProviderSettings, RooCodeSettings } from "../../schemas"
+import { GlobalState, historyItemSchema, ProviderSettings, RooCodeSettings } from "../../schemas"
 import { t } from "../../i18n"
 import { setPanel } from "../../activate/registerCommands"
 import {
@@ -27,10 +27,17 @@ import { findLast } from "../../shared/array"
 import { supportPrompt } from "../../shared/support-prompt"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 import { HistoryItem } from "../../shared/HistoryItem"
-import { ExtensionMessage } from "../../shared/ExtensionMessage"
+import { BudgetTotals, ExtensionMessage } from "../../shared/ExtensionMessage"
 import { Mode, PromptComponent, defaultModeSlug, getModeBySlug, getGroupName } from "../../shared/modes"
 import { experimentDefault } from "../../shared/experiments"
 import { formatLanguage } from "../../shared/language"
+import {
+	CODE_INDEX_EMBEDDER_API_KEY_SECRET,
+	DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL,
+	DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID,
+} from "../../shared/codeIndex"
+import { DEFAULT_API_FAILOVER_COOLDOWN_SECONDS, DEFAULT_API_FAILOVER_THRESHOLD } from "../../shared/apiFailover"
+import { DEFAULT_REPO_MAP_MAX_TOKENS } from "../../shared/repoMap"
 import { Terminal, TERMINAL_SHELL_INTEGRATION_TIMEOUT } from "../../integrations/terminal/Terminal"
 import { downloadTask } from "../../integrations/misc/export-markdown"
 import { getTheme } from "../../integrations/theme/getTheme"
@@ -38,12 +45,16 @@ import WorkspaceTracker from "../../integrations/workspace/WorkspaceTracker"
 import { McpHub } from "../../services/mcp/McpHub"
 import { McpServerManager } from "../../services/mcp/McpServerManager"
 import { ShadowCheckpointService } from "../../services/checkpoints/ShadowCheckpointService"
+import { CodeIndexManager } from "../../services/code-index/CodeIndexManager"
+import { RepoMapManager } from "../../services/repo-map/RepoMapManager"
 import { fileExistsAtPath } from "../../utils/fs"
 import { setSoundEnabled } from "../../utils/sound"
 import { setTtsEnabled, setTtsSpeed } from "../../utils/tts"
 import { ContextProxy } from "../config/ContextProxy"
 import { ProviderSettingsManager } from "../config/ProviderSettingsManager"
 import { CustomModesManager } from "../config/CustomModesManager"
+import { loadProjectCommandPolicy } from "../config/projectCommandPolicy"
+import { addBudgetUsage, getDailyBudgetUsage } from "../budget"
 import { buildApiHandler } from "../../api"
 import { ACTION_NAMES } from "../CodeActionProvider"
 import { Cline, ClineOptions } from "../Cline"
@@ -74,6 +85,18 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 	public get workspaceTracker(): WorkspaceTracker | undefined {
 		return this._workspaceTracker
 	}
+	public get codeIndexManager(): CodeIndexManager | undefined {
+		const workspacePath = this.cwd
+		return workspacePath
+			? CodeIndexManager.getInstance(this.context.globalStorageUri.fsPath, workspacePath)
+			: undefined
+	}
+	public get repoMapManager(): RepoMapManager | undefined {
+		const workspacePath = this.cwd
+		return workspacePath
+			? RepoMapManager.getInstance(this.context.globalStorageUri.fsPath, workspacePath)
+			: undefined
+	}
 	protected mcpHub?: McpHub // Change from private to protected
 
 	public isViewLaunched = false
@@ -339,6 +362,8 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			await this.contextProxy.initialize()
 		}
 
+		this.updateCodeIndexConfiguration()
+
 		this.view = webviewView
 
 		// Set panel reference according to webview type
@@ -1126,6 +1151,63 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		await downloadTask(historyItem.ts, apiConversationHistory)
 	}
 
+	// The files that are shared with the checkpoints of a task, so that it can
+	// be opened on other machines.
+	private static readonly sharedTaskFileNames = [
+		GlobalFileNames.apiConversationHistory,
+		GlobalFileNames.uiMessages,
+		GlobalFileNames.taskMetadata,
+	]
+
+	async exportTaskCheckpoints(id: string, remote: string) {
+		const { historyItem, taskDirPath } = await this.getTaskWithId(id)
+		const files: Record<string, string> = { [GlobalFileNames.historyItem]: JSON.stringify(historyItem) }
+
+		for (const fileName of ClineProvider.sharedTaskFileNames) {
+			const filePath = path.join(taskDirPath, fileName)
+
+			if (await fileExistsAtPath(filePath)) {
+				files[fileName] = await fs.readFile(filePath, "utf8")
+			}
+		}
+
+		await ShadowCheckpointService.pushTask({
+			taskId: id,
+			globalStorageDir: this.contextProxy.globalStorageUri.fsPath,
+			workspaceDir: this.cwd,
+			remote,
+			files,
+		})
+
+		await this.updateTaskHistory({ ...historyItem, checkpointRemote: remote })
+		await this.postStateToWebview()
+	}
+
+	async importTaskCheckpoints(id: string, remote: string) {
+		const globalStorageDir = this.contextProxy.globalStorageUri.fsPath
+
+		const files = await ShadowCheckpointService.importTask({
+			taskId: id,
+			globalStorageDir,
+			workspaceDir: this.cwd,
+			remote,
+		})
+
+		const historyItem = historyItemSchema.parse(JSON.parse(files[GlobalFileNames.historyItem] ?? "null"))
+		const { getTaskDirectoryPath } = await import("../../shared/storagePathManager")
+		const taskDirPath = await getTaskDirectoryPath(globalStorageDir, id)
+
+		for (const fileName of ClineProvider.sharedTaskFileNames) {
+			if (files[fileName] !== undefined) {
+				await fs.writeFile(path.join(taskDirPath, fileName), files[fileName])
+			}
+		}
+
+		// The imported checkpoints belong to this workspace now.
+		await this.updateTaskHistory({ ...historyItem, id, workspace: this.cwd, checkpointRemote: remote })
+		await this.postStateToWebview()
+	}
+
 	// this function deletes a task from task hidtory, and deletes it's checkpoints and delete the task folder
 	async deleteTaskWithId(id: string) {
 		try {
@@ -1222,6 +1304,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy,
 			terminalZshP10k,
 			terminalZdotdir,
+			modeCommandSandboxes,
+			commandSandboxNetworkEnabled,
+			commandSandboxWritablePaths,
+			commandSandboxImage,
 			fuzzyMatchThreshold,
 			mcpEnabled,
 			enableMcpServerCreation,
@@ -1230,6 +1316,13 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			currentApiConfigName,
 			listApiConfigMeta,
 			pinnedApiConfigs,
+			apiConfigFallbacks,
+			modeApiConfigFallbacks,
+			apiFailoverThreshold,
+			apiFailoverCooldownSeconds,
+			taskBudget,
+			dailyBudget,
+			budgetUsage,
 			mode,
 			customModePrompts,
 			customSupportPrompts,
@@ -1243,6 +1336,19 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			showRooIgnoredFiles,
 			language,
 			maxReadFileLine,
+			contextManagementStrategy,
+			condensingApiConfigId,
+			diagnosticsEnabled,
+			diagnosticsDelayMs,
+			diagnosticsIncludeWarnings,
+			diagnosticsScope,
+			repoMapEnabled,
+			repoMapMaxTokens,
+			repoMapModes,
+			codebaseIndexEnabled,
+			codebaseIndexEmbedderBaseUrl,
+			codebaseIndexEmbedderModelId,
+			deniedCommands,
 		} = await this.getState()
 
 		const telemetryKey = process.env.POSTHOG_API_KEY
@@ -1268,6 +1374,7 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 				? (taskHistory || []).find((item: HistoryItem) => item.id === this.getCurrentCline()?.taskId)
 				: undefined,
 			clineMessages: this.getCurrentCline()?.clineMessages || [],
+			backgroundProcesses: this.getCurrentCline()?.processManager.list() ?? [],
 			taskHistory: (taskHistory || [])
 				.filter((item: HistoryItem) => item.ts && item.task)
 				.sort((a: HistoryItem, b: HistoryItem) => b.ts - a.ts),
@@ -1280,6 +1387,8 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			shouldShowAnnouncement:
 				telemetrySetting !== "unset" && lastShownAnnouncementId !== this.latestAnnouncementId,
 			allowedCommands,
+			deniedCommands,
+			projectCommandPolicy: await loadProjectCommandPolicy(cwd).catch(() => undefined),
 			soundVolume: soundVolume ?? 0.5,
 			browserViewportSize: browserViewportSize ?? "900x600",
 			screenshotQuality: screenshotQuality ?? 75,
@@ -1295,6 +1404,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy: terminalZshOhMy ?? false,
 			terminalZshP10k: terminalZshP10k ?? false,
 			terminalZdotdir: terminalZdotdir ?? false,
+			modeCommandSandboxes: modeCommandSandboxes ?? {},
+			commandSandboxNetworkEnabled: commandSandboxNetworkEnabled ?? false,
+			commandSandboxWritablePaths: commandSandboxWritablePaths ?? [],
+			commandSandboxImage,
 			fuzzyMatchThreshold: fuzzyMatchThreshold ?? 1.0,
 			mcpEnabled: mcpEnabled ?? true,
 			enableMcpServerCreation: enableMcpServerCreation ?? true,
@@ -1303,6 +1416,13 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			currentApiConfigName: currentApiConfigName ?? "default",
 			listApiConfigMeta: listApiConfigMeta ?? [],
 			pinnedApiConfigs: pinnedApiConfigs ?? {},
+			apiConfigFallbacks: apiConfigFallbacks ?? {},
+			modeApiConfigFallbacks: modeApiConfigFallbacks ?? {},
+			apiFailoverThreshold,
+			apiFailoverCooldownSeconds,
+			taskBudget: taskBudget ?? {},
+			dailyBudget: dailyBudget ?? {},
+			dailyBudgetUsage: getDailyBudgetUsage(budgetUsage),
 			mode: mode ?? defaultModeSlug,
 			customModePrompts: customModePrompts ?? {},
 			customSupportPrompts: customSupportPrompts ?? {},
@@ -1322,6 +1442,19 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			language,
 			renderContext: this.renderContext,
 			maxReadFileLine: maxReadFileLine ?? 500,
+			contextManagementStrategy: contextManagementStrategy ?? "truncate",
+			condensingApiConfigId,
+			diagnosticsEnabled: diagnosticsEnabled ?? true,
+			diagnosticsDelayMs: diagnosticsDelayMs ?? 2000,
+			diagnosticsIncludeWarnings: diagnosticsIncludeWarnings ?? false,
+			diagnosticsScope: diagnosticsScope ?? "workspace",
+			repoMapEnabled: repoMapEnabled ?? false,
+			repoMapMaxTokens: repoMapMaxTokens ?? DEFAULT_REPO_MAP_MAX_TOKENS,
+			repoMapModes,
+			codebaseIndexEnabled,
+			codebaseIndexEmbedderBaseUrl,
+			codebaseIndexEmbedderModelId,
+			codebaseIndexEmbedderApiKey: await this.context.secrets.get(CODE_INDEX_EMBEDDER_API_KEY_SECRET),
 			settingsImportedAt: this.settingsImportedAt,
 		}
 	}
@@ -1364,6 +1497,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			alwaysAllowSubtasks: stateValues.alwaysAllowSubtasks ?? false,
 			taskHistory: stateValues.taskHistory,
 			allowedCommands: stateValues.allowedCommands,
+			deniedCommands: stateValues.deniedCommands ?? [],
+			taskBudget: stateValues.taskBudget ?? {},
+			dailyBudget: stateValues.dailyBudget ?? {},
+			budgetUsage: stateValues.budgetUsage ?? [],
 			soundEnabled: stateValues.soundEnabled ?? false,
 			ttsEnabled: stateValues.ttsEnabled ?? false,
 			ttsSpeed: stateValues.ttsSpeed ?? 1.0,
@@ -1387,6 +1524,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			terminalZshOhMy: stateValues.terminalZshOhMy ?? false,
 			terminalZshP10k: stateValues.terminalZshP10k ?? false,
 			terminalZdotdir: stateValues.terminalZdotdir ?? false,
+			modeCommandSandboxes: stateValues.modeCommandSandboxes ?? {},
+			commandSandboxNetworkEnabled: stateValues.commandSandboxNetworkEnabled ?? false,
+			commandSandboxWritablePaths: stateValues.commandSandboxWritablePaths ?? [],
+			commandSandboxImage: stateValues.commandSandboxImage,
 			mode: stateValues.mode ?? defaultModeSlug,
 			language: stateValues.language ?? formatLanguage(vscode.env.language),
 			mcpEnabled: stateValues.mcpEnabled ?? true,
@@ -1396,6 +1537,10 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			currentApiConfigName: stateValues.currentApiConfigName ?? "default",
 			listApiConfigMeta: stateValues.listApiConfigMeta ?? [],
 			pinnedApiConfigs: stateValues.pinnedApiConfigs ?? {},
+			apiConfigFallbacks: stateValues.apiConfigFallbacks ?? {},
+			modeApiConfigFallbacks: stateValues.modeApiConfigFallbacks ?? {},
+			apiFailoverThreshold: stateValues.apiFailoverThreshold ?? DEFAULT_API_FAILOVER_THRESHOLD,
+			apiFailoverCooldownSeconds: stateValues.apiFailoverCooldownSeconds ?? DEFAULT_API_FAILOVER_COOLDOWN_SECONDS,
 			modeApiConfigs: stateValues.modeApiConfigs ?? ({} as Record<Mode, string>),
 			customModePrompts: stateValues.customModePrompts ?? {},
 			customSupportPrompts: stateValues.customSupportPrompts ?? {},
@@ -1410,6 +1555,50 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 			telemetrySetting: stateValues.telemetrySetting || "unset",
 			showRooIgnoredFiles: stateValues.showRooIgnoredFiles ?? true,
 			maxReadFileLine: stateValues.maxReadFileLine ?? 500,
+			contextManagementStrategy: stateValues.contextManagementStrategy ?? "truncate",
+			condensingApiConfigId: stateValues.condensingApiConfigId,
+			diagnosticsEnabled: stateValues.diagnosticsEnabled ?? true,
+			diagnosticsDelayMs: stateValues.diagnosticsDelayMs ?? 2000,
+			diagnosticsIncludeWarnings: stateValues.diagnosticsIncludeWarnings ?? false,
+			diagnosticsScope: stateValues.diagnosticsScope ?? "workspace",
+			repoMapEnabled: stateValues.repoMapEnabled ?? false,
+			repoMapMaxTokens: stateValues.repoMapMaxTokens ?? DEFAULT_REPO_MAP_MAX_TOKENS,
+			repoMapModes: stateValues.repoMapModes,
+			codebaseIndexEnabled: stateValues.codebaseIndexEnabled ?? false,
+			codebaseIndexEmbedderBaseUrl:
+				stateValues.codebaseIndexEmbedderBaseUrl ?? DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL,
+			codebaseIndexEmbedderModelId:
+				stateValues.codebaseIndexEmbedderModelId ?? DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID,
+		}
+	}
+
+	// Code index
+
+	/**
+	 * Applies the codebase index settings to the index of the current
+	 * workspace, which (re)builds the index if needed.
+	 */
+	async updateCodeIndexConfiguration() {
+		const codeIndexManager = this.codeIndexManager
+
+		if (!codeIndexManager) {
+			return
+		}
+
+		try {
+			const { codebaseIndexEnabled, codebaseIndexEmbedderBaseUrl, codebaseIndexEmbedderModelId } =
+				await this.getState()
+
+			await codeIndexManager.configure({
+				enabled: codebaseIndexEnabled,
+				baseUrl: codebaseIndexEmbedderBaseUrl,
+				modelId: codebaseIndexEmbedderModelId,
+				apiKey: await this.context.secrets.get(CODE_INDEX_EMBEDDER_API_KEY_SECRET),
+			})
+		} catch (error) {
+			this.log(
+				`Error configuring the codebase index: ${JSON.stringify(error, Object.getOwnPropertyNames(error), 2)}`,
+			)
 		}
 	}
 
@@ -1418,7 +1607,9 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		const existingItemIndex = history.findIndex((h) => h.id === item.id)
 
 		if (existingItemIndex !== -1) {
-			history[existingItemIndex] = item
+			// Keep the fields that tasks don't track themselves, like the remote
+			// their checkpoints were shared through.
+			history[existingItemIndex] = { ...history[existingItemIndex], ...item }
 		} else {
 			history.push(item)
 		}
@@ -1427,6 +1618,11 @@ export class ClineProvider extends EventEmitter<ClineProviderEvents> implements
 		return history
 	}
 
+	// Daily budget limits apply across tasks, so API usage is tracked here.
+	async recordBudgetUsage(usage: BudgetTotals) {
+		await this.updateGlobalState("budgetUsage", addBudgetUsage(this.getGlobalState("budgetUsage"), usage))
+	}
+
 	// ContextProxy
 
 	// @deprecated - Use `ContextProxy#setValue` instead.
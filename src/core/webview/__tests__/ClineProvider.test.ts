@@ -424,6 +424,13 @@ describe("ClineProvider", () => {
 			showRooIgnoredFiles: true,
 			renderContext: "sidebar",
 			maxReadFileLine: 500,
+			contextManagementStrategy: "truncate",
+			diagnosticsEnabled: true,
+			diagnosticsDelayMs: 2000,
+			diagnosticsIncludeWarnings: false,
+			diagnosticsScope: "workspace",
+			repoMapEnabled: false,
+			repoMapMaxTokens: 1024,
 		}
 
 		const message: ExtensionMessage = {
@@ -4,18 +4,31 @@ import pWaitFor from "p-wait-for"
 import * as vscode from "vscode"
 
 import { ClineProvider } from "./ClineProvider"
-import { CheckpointStorage, Language, ApiConfigMeta } from "../../schemas"
+import {
+	CheckpointStorage,
+	Language,
+	ApiConfigMeta,
+	isContextManagementStrategy,
+	isDiagnosticsScope,
+} from "../../schemas"
 import { changeLanguage, t } from "../../i18n"
 import { ApiConfiguration } from "../../shared/api"
 import { supportPrompt } from "../../shared/support-prompt"
 import { GlobalFileNames } from "../../shared/globalFileNames"
 
-import { checkoutDiffPayloadSchema, checkoutRestorePayloadSchema, WebviewMessage } from "../../shared/WebviewMessage"
+import {
+	checkoutDiffPayloadSchema,
+	checkoutRestorePayloadSchema,
+	checkpointFilesPayloadSchema,
+	checkpointRestoreFilesPayloadSchema,
+	WebviewMessage,
+} from "../../shared/WebviewMessage"
 import { checkExistKey } from "../../shared/checkExistApiConfig"
-import { EXPERIMENT_IDS, experimentDefault, ExperimentId } from "../../shared/experiments"
+import { EXPERIMENT_IDS, experimentDefault, ExperimentId, experiments as Experiments } from "../../shared/experiments"
 import { Terminal } from "../../integrations/terminal/Terminal"
 import { openFile, openImage } from "../../integrations/misc/open-file"
 import { selectImages } from "../../integrations/misc/process-images"
+import { saveBrowserSessionAsTest } from "../../integrations/misc/export-browser-test"
 import { getTheme } from "../../integrations/theme/getTheme"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "../../services/browser/browserDiscovery"
 import { searchWorkspaceFiles } from "../../services/search/file-search"
@@ -38,10 +51,12 @@ import { telemetryService } from "../../services/telemetry/TelemetryService"
 import { TelemetrySetting } from "../../shared/TelemetrySetting"
 import { getWorkspacePath } from "../../utils/path"
 import { Mode, defaultModeSlug, getModeBySlug, getGroupName } from "../../shared/modes"
+import { CODE_INDEX_EMBEDDER_API_KEY_SECRET } from "../../shared/codeIndex"
+import { isRepoMapEnabledForMode } from "../../shared/repoMap"
 import { getDiffStrategy } from "../diff/DiffStrategy"
 import { SYSTEM_PROMPT } from "../prompts/system"
 import { buildApiHandler } from "../../api"
-import { GlobalState } from "../../schemas"
+import { GlobalState, ModelInfo } from "../../schemas"
 
 export const webviewMessageHandler = async (provider: ClineProvider, message: WebviewMessage) => {
 	// Utility functions provided for concise get/update of global state via contextProxy API.
@@ -360,6 +375,22 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 		case "exportTaskWithId":
 			provider.exportTaskWithId(message.text!)
 			break
+		case "saveBrowserSessionAsTest": {
+			const timestamps = new Set(message.timestamps ?? [])
+			const messages = provider.getCurrentCline()?.clineMessages.filter(({ ts }) => timestamps.has(ts)) ?? []
+			const { browserViewportSize } = await provider.getState()
+			await saveBrowserSessionAsTest(messages, provider.cwd, browserViewportSize)
+			break
+		}
+		case "stopBackgroundProcess": {
+			const processManager = provider.getCurrentCline()?.processManager
+			const entry = message.text ? processManager?.get(message.text) : undefined
+
+			if (entry) {
+				await processManager!.stop(entry)
+			}
+			break
+		}
 		case "importSettings":
 			const { success } = await importSettings({
 				providerSettingsManager: provider.providerSettingsManager,
@@ -485,6 +516,45 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 
 			break
 		}
+		case "checkpointFiles": {
+			const result = checkpointFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				const filePaths = (await provider.getCurrentCline()?.checkpointChangedFiles(result.data)) ?? []
+				await provider.postMessageToWebview({
+					type: "checkpointFiles",
+					text: result.data.commitHash,
+					filePaths,
+				})
+			}
+
+			break
+		}
+		case "checkpointRestoreFiles": {
+			const result = checkpointRestoreFilesPayloadSchema.safeParse(message.payload)
+
+			if (result.success) {
+				const cline = provider.getCurrentCline()
+
+				try {
+					await cline?.checkpointRestoreFiles(result.data)
+					vscode.window.showInformationMessage(
+						t("common:info.checkpoint_files_restored", { count: result.data.paths.length }),
+					)
+				} catch (error) {
+					vscode.window.showErrorMessage(t("common:errors.checkpoint_failed"))
+				}
+
+				const filePaths = (await cline?.checkpointChangedFiles(result.data)) ?? []
+				await provider.postMessageToWebview({
+					type: "checkpointFiles",
+					text: result.data.commitHash,
+					filePaths,
+				})
+			}
+
+			break
+		}
 		case "cancelTask":
 			await provider.cancelTask()
 			break
@@ -495,6 +565,10 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 				.getConfiguration("roo-cline")
 				.update("allowedCommands", message.commands, vscode.ConfigurationTarget.Global)
 			break
+		case "deniedCommands":
+			await updateGlobalState("deniedCommands", message.commands ?? [])
+			await provider.postStateToWebview()
+			break
 		case "openMcpSettings": {
 			const mcpSettingsFilePath = await provider.getMcpHub()?.getMcpSettingsFilePath()
 			if (mcpSettingsFilePath) {
@@ -778,6 +852,22 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 				Terminal.setTerminalZdotdir(message.bool)
 			}
 			break
+		case "modeCommandSandboxes":
+			await updateGlobalState("modeCommandSandboxes", message.values ?? {})
+			await provider.postStateToWebview()
+			break
+		case "commandSandboxNetworkEnabled":
+			await updateGlobalState("commandSandboxNetworkEnabled", message.bool)
+			await provider.postStateToWebview()
+			break
+		case "commandSandboxWritablePaths":
+			await updateGlobalState("commandSandboxWritablePaths", message.paths ?? [])
+			await provider.postStateToWebview()
+			break
+		case "commandSandboxImage":
+			await updateGlobalState("commandSandboxImage", message.text)
+			await provider.postStateToWebview()
+			break
 		case "mode":
 			await provider.handleModeSwitch(message.text as Mode)
 			break
@@ -963,6 +1053,72 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 			await updateGlobalState("maxReadFileLine", message.value)
 			await provider.postStateToWebview()
 			break
+		case "contextManagementStrategy":
+			await updateGlobalState(
+				"contextManagementStrategy",
+				message.text && isContextManagementStrategy(message.text) ? message.text : "truncate",
+			)
+			await provider.postStateToWebview()
+			break
+		case "condensingApiConfigId":
+			await updateGlobalState("condensingApiConfigId", message.text)
+			await provider.postStateToWebview()
+			break
+		case "diagnosticsEnabled":
+			await updateGlobalState("diagnosticsEnabled", message.bool ?? true)
+			await provider.postStateToWebview()
+			break
+		case "diagnosticsDelayMs":
+			await updateGlobalState("diagnosticsDelayMs", message.value)
+			await provider.postStateToWebview()
+			break
+		case "diagnosticsIncludeWarnings":
+			await updateGlobalState("diagnosticsIncludeWarnings", message.bool ?? false)
+			await provider.postStateToWebview()
+			break
+		case "diagnosticsScope":
+			await updateGlobalState(
+				"diagnosticsScope",
+				message.text && isDiagnosticsScope(message.text) ? message.text : "workspace",
+			)
+			await provider.postStateToWebview()
+			break
+		case "repoMapEnabled":
+			await updateGlobalState("repoMapEnabled", message.bool ?? false)
+			await provider.postStateToWebview()
+			break
+		case "repoMapMaxTokens":
+			await updateGlobalState("repoMapMaxTokens", message.value)
+			await provider.postStateToWebview()
+			break
+		case "repoMapModes":
+			await updateGlobalState("repoMapModes", message.ids)
+			await provider.postStateToWebview()
+			break
+		case "codebaseIndexEnabled":
+			await updateGlobalState("codebaseIndexEnabled", message.bool ?? false)
+			await provider.updateCodeIndexConfiguration()
+			await provider.postStateToWebview()
+			break
+		case "codebaseIndexEmbedderBaseUrl":
+			await updateGlobalState("codebaseIndexEmbedderBaseUrl", message.text)
+			await provider.updateCodeIndexConfiguration()
+			await provider.postStateToWebview()
+			break
+		case "codebaseIndexEmbedderModelId":
+			await updateGlobalState("codebaseIndexEmbedderModelId", message.text)
+			await provider.updateCodeIndexConfiguration()
+			await provider.postStateToWebview()
+			break
+		case "codebaseIndexEmbedderApiKey":
+			if (message.text) {
+				await provider.context.secrets.store(CODE_INDEX_EMBEDDER_API_KEY_SECRET, message.text)
+			} else {
+				await provider.context.secrets.delete(CODE_INDEX_EMBEDDER_API_KEY_SECRET)
+			}
+			await provider.updateCodeIndexConfiguration()
+			await provider.postStateToWebview()
+			break
 		case "toggleApiConfigPin":
 			if (message.text) {
 				const currentPinned = getGlobalState("pinnedApiConfigs") ?? {}
@@ -978,6 +1134,30 @@ export const webviewMessageHandler = async (provider: ClineProvider, message: We
 				await provider.postStateToWebview()
 			}
 			break
+		case "apiConfigFallbacks":
+			await updateGlobalState("apiConfigFallbacks", message.values ?? {})
+			await provider.postStateToWebview()
+			break
+		case "modeApiConfigFallbacks":
+			await updateGlobalState("modeApiConfigFallbacks", message.values ?? {})
+			await provider.postStateToWebview()
+			break
+		case "apiFailoverThreshold":
+			await updateGlobalState("apiFailoverThreshold", message.value)
+			await provider.postStateToWebview()
+			break
+		case "apiFailoverCooldownSeconds":
+			await updateGlobalState("apiFailoverCooldownSeconds", message.value)
+			await provider.postStateToWebview()
+			break
+		case "taskBudget":
+			await updateGlobalState("taskBudget", message.values ?? {})
+			await provider.postStateToWebview()
+			break
+		case "dailyBudget":
+			await updateGlobalState("dailyBudget", message.values ?? {})
+			await provider.postStateToWebview()
+			break
 		case "enhancementApiConfigId":
 			await updateGlobalState("enhancementApiConfigId", message.text)
 			await provider.postStateToWebview()
@@ -1372,30 +1552,34 @@ const generateSystemPrompt = async (provider: ClineProvider, message: WebviewMes
 		enableMcpServerCreation,
 		browserToolEnabled,
 		language,
+		repoMapEnabled,
+		repoMapMaxTokens,
+		repoMapModes,
 	} = await provider.getState()
 
-	// Create diffStrategy based on current model and settings.
-	const diffStrategy = getDiffStrategy({
-		model: apiConfiguration.apiModelId || apiConfiguration.openRouterModelId || "",
-		experiments,
-		fuzzyMatchThreshold,
-	})
-
 	const cwd = provider.cwd
 
 	const mode = message.mode ?? defaultModeSlug
 	const customModes = await provider.customModesManager.getCustomModes()
 
 	const rooIgnoreInstructions = provider.getCurrentCline()?.rooIgnoreController?.getInstructions()
+	const codeIndexState = provider.codeIndexManager?.state
+	const repoMap = isRepoMapEnabledForMode(mode, { repoMapEnabled, repoMapModes })
+		? await provider.repoMapManager?.getRepoMap(repoMapMaxTokens).catch(() => undefined)
+		: undefined
 
 	// Determine if browser tools can be used based on model support, mode, and user settings
 	let modelSupportsComputerUse = false
+	let modelSupportsNativeTools = false
+	let modelInfo: ModelInfo | undefined
 
 	// Create a temporary API handler to check if the model supports computer use
 	// This avoids relying on an active Cline instance which might not exist during preview
 	try {
 		const tempApiHandler = buildApiHandler(apiConfiguration)
-		modelSupportsComputerUse = tempApiHandler.getModel().info.supportsComputerUse ?? false
+		modelInfo = tempApiHandler.getModel().info
+		modelSupportsComputerUse = modelInfo.supportsComputerUse ?? false
+		modelSupportsNativeTools = tempApiHandler.supportsNativeTools?.() ?? false
 	} catch (error) {
 		console.error("Error checking if model supports computer use:", error)
 	}
@@ -1408,6 +1592,15 @@ const generateSystemPrompt = async (provider: ClineProvider, message: WebviewMes
 	// and browser tools are enabled in settings
 	const canUseBrowserTool = modelSupportsComputerUse && modeSupportsBrowser && (browserToolEnabled ?? true)
 
+	// Create diffStrategy based on current model, mode and settings.
+	const diffStrategy = getDiffStrategy({
+		model: apiConfiguration.apiModelId || apiConfiguration.openRouterModelId || "",
+		experiments,
+		fuzzyMatchThreshold,
+		modelInfo,
+		modeConfig,
+	})
+
 	const systemPrompt = await SYSTEM_PROMPT(
 		provider.context,
 		cwd,
@@ -1424,6 +1617,9 @@ const generateSystemPrompt = async (provider: ClineProvider, message: WebviewMes
 		enableMcpServerCreation,
 		language,
 		rooIgnoreInstructions,
+		codeIndexState !== undefined && codeIndexState !== "disabled",
+		modelSupportsNativeTools && Experiments.isEnabled(experiments ?? {}, EXPERIMENT_IDS.NATIVE_TOOL_CALLING),
+		repoMap,
 	)
 	return systemPrompt
 }
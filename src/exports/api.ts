@@ -6,19 +6,28 @@ import * as path from "path"
 import { getWorkspacePath } from "../utils/path"
 import { ClineProvider } from "../core/webview/ClineProvider"
 import { openClineInNewTab } from "../activate/registerCommands"
-import { RooCodeSettings, RooCodeEvents, RooCodeEventName, ClineMessage } from "../schemas"
-import { IpcOrigin, IpcMessageType, TaskCommandName, TaskEvent } from "../schemas/ipc"
+import { ProviderSettings, RooCodeSettings, RooCodeEvents, RooCodeEventName, ClineMessage } from "../schemas"
+import { IpcOrigin, IpcMessageType, TaskCommandName, TaskEvent, TaskAskResponse } from "../schemas/ipc"
 
 import { RooCodeAPI } from "./interface"
 import { IpcServer } from "./ipc"
 import { outputChannelLog } from "./log"
 
+type ConfigurationSnapshot = {
+	provider: ClineProvider
+	values: RooCodeSettings
+	// Only set if the task activated a provider profile.
+	providerSettings?: ProviderSettings
+}
+
 export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 	private readonly outputChannel: vscode.OutputChannel
 	private readonly sidebarProvider: ClineProvider
 	private readonly context: vscode.ExtensionContext
 	private readonly ipc?: IpcServer
 	private readonly taskMap = new Map<string, ClineProvider>()
+	// Settings to restore once a task with a task-scoped configuration ends.
+	private readonly configurationSnapshots = new Map<string, ConfigurationSnapshot>()
 	private readonly log: (...args: unknown[]) => void
 	private logfile?: string
 
@@ -65,9 +74,14 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 						break
 					case TaskCommandName.CloseTask:
 						this.log(`[API] CloseTask -> ${data}`)
+						await this.restoreConfigurations()
 						await vscode.commands.executeCommand("workbench.action.files.saveFiles")
 						await vscode.commands.executeCommand("workbench.action.closeWindow")
 						break
+					case TaskCommandName.RespondToAsk:
+						this.log(`[API] RespondToAsk -> ${data.taskId}, ${data.response}`)
+						await this.respondToAsk(data)
+						break
 				}
 			})
 		}
@@ -87,11 +101,15 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		text,
 		images,
 		newTab,
+		restoreConfiguration,
 	}: {
 		configuration: RooCodeSettings
 		text?: string
 		images?: string[]
 		newTab?: boolean
+		// Whether the configuration only applies to this task, rather than
+		// changing the user's settings.
+		restoreConfiguration?: boolean
 	}) {
 		let provider: ClineProvider
 
@@ -107,10 +125,22 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 			provider = this.sidebarProvider
 		}
 
+		let snapshot: ConfigurationSnapshot | undefined
+
 		if (configuration) {
+			if (restoreConfiguration) {
+				snapshot = this.snapshotConfiguration(provider, configuration)
+			}
+
+			// Load the named provider profile first so that any provider
+			// settings passed explicitly still take precedence over it.
+			if (configuration.currentApiConfigName) {
+				await this.activateProfile(provider, configuration.currentApiConfigName)
+			}
+
 			await provider.setValues(configuration)
 
-			if (configuration.allowedCommands) {
+			if (configuration.allowedCommands && !restoreConfiguration) {
 				await vscode.workspace
 					.getConfiguration("roo-cline")
 					.update("allowedCommands", configuration.allowedCommands, vscode.ConfigurationTarget.Global)
@@ -122,9 +152,25 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		await provider.postMessageToWebview({ type: "action", action: "chatButtonClicked" })
 		await provider.postMessageToWebview({ type: "invoke", invoke: "newChat", text, images })
 
-		const { taskId } = await provider.initClineWithTask(text, images, undefined, {
-			consecutiveMistakeLimit: Number.MAX_SAFE_INTEGER,
-		})
+		let taskId: string
+
+		try {
+			const cline = await provider.initClineWithTask(text, images, undefined, {
+				consecutiveMistakeLimit: Number.MAX_SAFE_INTEGER,
+			})
+
+			taskId = cline.taskId
+		} catch (error) {
+			if (snapshot) {
+				await this.restoreSnapshot(snapshot)
+			}
+
+			throw error
+		}
+
+		if (snapshot) {
+			this.configurationSnapshots.set(taskId, snapshot)
+		}
 
 		return taskId
 	}
@@ -166,6 +212,85 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 		}
 	}
 
+	private async activateProfile(provider: ClineProvider, name: string) {
+		const providerSettings = await provider.providerSettingsManager.loadConfig(name)
+
+		await provider.setValues({
+			currentApiConfigName: name,
+			listApiConfigMeta: await provider.providerSettingsManager.listConfig(),
+		})
+
+		// Unlike `updateApiConfiguration` this doesn't make the profile the
+		// default of the current mode. The task is started afterwards, so there
+		// is no task whose API handler needs to be updated.
+		await provider.contextProxy.setProviderSettings(providerSettings)
+	}
+
+	/**
+	 * Returns the current values of the settings that starting a task with
+	 * `configuration` changes.
+	 */
+	private snapshotConfiguration(provider: ClineProvider, configuration: RooCodeSettings): ConfigurationSnapshot {
+		const values = provider.getValues()
+		const keys = Object.keys(configuration) as (keyof RooCodeSettings)[]
+
+		return {
+			provider,
+			values: Object.fromEntries(keys.map((key) => [key, values[key]])),
+			providerSettings: configuration.currentApiConfigName
+				? provider.contextProxy.getProviderSettings()
+				: undefined,
+		}
+	}
+
+	private async restoreConfiguration(taskId: string) {
+		const snapshot = this.configurationSnapshots.get(taskId)
+
+		if (!snapshot) {
+			return
+		}
+
+		this.configurationSnapshots.delete(taskId)
+		await this.restoreSnapshot(snapshot)
+		this.log(`[API] restored the configuration changed by ${taskId}`)
+	}
+
+	private async restoreSnapshot({ provider, values, providerSettings }: ConfigurationSnapshot) {
+		try {
+			if (providerSettings) {
+				await provider.contextProxy.setProviderSettings(providerSettings)
+			}
+
+			await provider.setValues(values)
+			await provider.postStateToWebview()
+		} catch (error) {
+			this.log(`[API] failed to restore the configuration: ${error}`)
+		}
+	}
+
+	private async restoreConfigurations() {
+		await Promise.all([...this.configurationSnapshots.keys()].map((taskId) => this.restoreConfiguration(taskId)))
+	}
+
+	private async respondToAsk({
+		taskId,
+		response,
+		text,
+	}: {
+		taskId: string
+		response: TaskAskResponse
+		text?: string
+	}) {
+		const cline = this.taskMap.get(taskId)?.getCurrentCline()
+
+		if (cline?.taskId !== taskId) {
+			this.log(`[API] RespondToAsk -> ${taskId} is not the current task`)
+			return
+		}
+
+		await cline.handleWebviewAskResponse(response, text)
+	}
+
 	public async sendMessage(text?: string, images?: string[]) {
 		await this.sidebarProvider.postMessageToWebview({ type: "invoke", invoke: "sendMessage", text, images })
 	}
@@ -291,14 +416,16 @@ export class API extends EventEmitter<RooCodeEvents> implements RooCodeAPI {
 
 			cline.on("taskAskResponded", () => this.emit(RooCodeEventName.TaskAskResponded, cline.taskId))
 
-			cline.on("taskAborted", () => {
+			cline.on("taskAborted", async () => {
 				this.emit(RooCodeEventName.TaskAborted, cline.taskId)
 				this.taskMap.delete(cline.taskId)
+				await this.restoreConfiguration(cline.taskId)
 			})
 
 			cline.on("taskCompleted", async (_, usage) => {
 				this.emit(RooCodeEventName.TaskCompleted, cline.taskId, usage)
 				this.taskMap.delete(cline.taskId)
+				await this.restoreConfiguration(cline.taskId)
 
 				await this.fileLog(
 					`[${new Date().toISOString()}] taskCompleted -> ${cline.taskId} | ${JSON.stringify(usage, null, 2)}\n`,
@@ -43,6 +43,7 @@ type ProviderSettings = {
 				minTokensPerCachePoint?: number | undefined
 				maxCachePoints?: number | undefined
 				cachableFields?: string[] | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  } | null)
 		| undefined
 	glamaApiKey?: string | undefined
@@ -65,6 +66,7 @@ type ProviderSettings = {
 				minTokensPerCachePoint?: number | undefined
 				maxCachePoints?: number | undefined
 				cachableFields?: string[] | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  } | null)
 		| undefined
 	openRouterBaseUrl?: string | undefined
@@ -107,6 +109,7 @@ type ProviderSettings = {
 				minTokensPerCachePoint?: number | undefined
 				maxCachePoints?: number | undefined
 				cachableFields?: string[] | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  } | null)
 		| undefined
 	openAiUseAzure?: boolean | undefined
@@ -152,6 +155,7 @@ type ProviderSettings = {
 				minTokensPerCachePoint?: number | undefined
 				maxCachePoints?: number | undefined
 				cachableFields?: string[] | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  } | null)
 		| undefined
 	requestyApiKey?: string | undefined
@@ -173,6 +177,7 @@ type ProviderSettings = {
 				minTokensPerCachePoint?: number | undefined
 				maxCachePoints?: number | undefined
 				cachableFields?: string[] | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  } | null)
 		| undefined
 	modelMaxTokens?: number | undefined
@@ -218,6 +223,18 @@ type GlobalSettings = {
 				[x: string]: boolean
 		  }
 		| undefined
+	apiConfigFallbacks?:
+		| {
+				[x: string]: string[]
+		  }
+		| undefined
+	modeApiConfigFallbacks?:
+		| {
+				[x: string]: string[]
+		  }
+		| undefined
+	apiFailoverThreshold?: number | undefined
+	apiFailoverCooldownSeconds?: number | undefined
 	lastShownAnnouncementId?: string | undefined
 	customInstructions?: string | undefined
 	taskHistory?:
@@ -233,6 +250,7 @@ type GlobalSettings = {
 				totalCost: number
 				size?: number | undefined
 				workspace?: string | undefined
+				checkpointRemote?: string | undefined
 		  }[]
 		| undefined
 	autoApprovalEnabled?: boolean | undefined
@@ -249,6 +267,29 @@ type GlobalSettings = {
 	alwaysAllowSubtasks?: boolean | undefined
 	alwaysAllowExecute?: boolean | undefined
 	allowedCommands?: string[] | undefined
+	deniedCommands?: string[] | undefined
+	taskBudget?:
+		| {
+				maxCost?: number | undefined
+				maxTokensIn?: number | undefined
+				maxRequests?: number | undefined
+		  }
+		| undefined
+	dailyBudget?:
+		| {
+				maxCost?: number | undefined
+				maxTokensIn?: number | undefined
+				maxRequests?: number | undefined
+		  }
+		| undefined
+	budgetUsage?:
+		| {
+				hour: number
+				cost: number
+				tokensIn: number
+				requests: number
+		  }[]
+		| undefined
 	browserToolEnabled?: boolean | undefined
 	browserViewportSize?: string | undefined
 	screenshotQuality?: number | undefined
@@ -265,6 +306,18 @@ type GlobalSettings = {
 	maxWorkspaceFiles?: number | undefined
 	showRooIgnoredFiles?: boolean | undefined
 	maxReadFileLine?: number | undefined
+	contextManagementStrategy?: ("truncate" | "condense") | undefined
+	condensingApiConfigId?: string | undefined
+	diagnosticsEnabled?: boolean | undefined
+	diagnosticsDelayMs?: number | undefined
+	diagnosticsIncludeWarnings?: boolean | undefined
+	diagnosticsScope?: ("editedFiles" | "workspace") | undefined
+	repoMapEnabled?: boolean | undefined
+	repoMapMaxTokens?: number | undefined
+	repoMapModes?: string[] | undefined
+	codebaseIndexEnabled?: boolean | undefined
+	codebaseIndexEmbedderBaseUrl?: string | undefined
+	codebaseIndexEmbedderModelId?: string | undefined
 	terminalOutputLineLimit?: number | undefined
 	terminalShellIntegrationTimeout?: number | undefined
 	terminalCommandDelay?: number | undefined
@@ -273,6 +326,14 @@ type GlobalSettings = {
 	terminalZshOhMy?: boolean | undefined
 	terminalZshP10k?: boolean | undefined
 	terminalZdotdir?: boolean | undefined
+	modeCommandSandboxes?:
+		| {
+				[x: string]: "none" | "bwrap" | "docker" | "podman"
+		  }
+		| undefined
+	commandSandboxNetworkEnabled?: boolean | undefined
+	commandSandboxWritablePaths?: string[] | undefined
+	commandSandboxImage?: string | undefined
 	rateLimitSeconds?: number | undefined
 	diffEnabled?: boolean | undefined
 	fuzzyMatchThreshold?: number | undefined
@@ -281,6 +342,7 @@ type GlobalSettings = {
 				search_and_replace: boolean
 				insert_content: boolean
 				powerSteering: boolean
+				nativeToolCalling: boolean
 		  }
 		| undefined
 	language?:
@@ -328,6 +390,7 @@ type GlobalSettings = {
 					  ]
 				)[]
 				source?: ("global" | "project") | undefined
+				diffStrategy?: ("multi-search-and-replace" | "unified") | undefined
 		  }[]
 		| undefined
 	customModePrompts?:
@@ -362,6 +425,7 @@ type ClineMessage = {
 				| "resume_task"
 				| "resume_completed_task"
 				| "mistake_limit_reached"
+				| "budget_limit_reached"
 				| "browser_action_launch"
 				| "use_mcp_server"
 				| "finishTask"
@@ -395,6 +459,9 @@ type ClineMessage = {
 				| "checkpoint_saved"
 				| "rooignore_error"
 				| "diff_error"
+				| "condense_context"
+				| "api_provider_switched"
+				| "verification"
 		  )
 		| undefined
 	text?: string | undefined
@@ -443,6 +510,7 @@ type RooCodeEvents = {
 							| "resume_task"
 							| "resume_completed_task"
 							| "mistake_limit_reached"
+							| "budget_limit_reached"
 							| "browser_action_launch"
 							| "use_mcp_server"
 							| "finishTask"
@@ -476,6 +544,9 @@ type RooCodeEvents = {
 							| "checkpoint_saved"
 							| "rooignore_error"
 							| "diff_error"
+							| "condense_context"
+							| "api_provider_switched"
+							| "verification"
 					  )
 					| undefined
 				text?: string | undefined
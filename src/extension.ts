@@ -19,6 +19,8 @@ import { ClineProvider } from "./core/webview/ClineProvider"
 import { CodeActionProvider } from "./core/CodeActionProvider"
 import { DIFF_VIEW_URI_SCHEME } from "./integrations/editor/DiffViewProvider"
 import { McpServerManager } from "./services/mcp/McpServerManager"
+import { CodeIndexManager } from "./services/code-index/CodeIndexManager"
+import { RepoMapManager } from "./services/repo-map/RepoMapManager"
 import { telemetryService } from "./services/telemetry/TelemetryService"
 import { TerminalRegistry } from "./integrations/terminal/TerminalRegistry"
 import { API } from "./exports/api"
@@ -133,4 +135,8 @@ export async function deactivate() {
 
 	// Clean up terminal handlers
 	TerminalRegistry.cleanup()
+
+	// Stop pending codebase index updates
+	CodeIndexManager.disposeAll()
+	RepoMapManager.disposeAll()
 }
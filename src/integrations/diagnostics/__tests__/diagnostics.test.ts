@@ -0,0 +1,138 @@
+// npx jest src/integrations/diagnostics/__tests__/diagnostics.test.ts
+
+import * as vscode from "vscode"
+
+import { getPostEditProblems, PostEditDiagnosticsSettings, waitForDiagnostics } from ".."
+
+jest.mock("vscode", () => ({
+	DiagnosticSeverity: { Error: 0, Warning: 1, Information: 2, Hint: 3 },
+	Uri: { file: (fsPath: string) => ({ fsPath }) },
+	languages: {
+		getDiagnostics: jest.fn(),
+		onDidChangeDiagnostics: jest.fn(),
+	},
+	workspace: {
+		openTextDocument: jest.fn().mockResolvedValue({ lineAt: () => ({ text: "const x: number = 'a'" }) }),
+	},
+}))
+
+const diagnostic = (message: string, severity: vscode.DiagnosticSeverity) =>
+	({ message, severity, source: "ts", range: { start: { line: 0, character: 0 } } }) as vscode.Diagnostic
+
+describe("getPostEditProblems", () => {
+	const cwd = "/project"
+	const editedFile = vscode.Uri.file("/project/src/a.ts")
+	const otherFile = vscode.Uri.file("/project/src/b.ts")
+	const oldError = diagnostic("Old error", vscode.DiagnosticSeverity.Error)
+
+	const settings: PostEditDiagnosticsSettings = {
+		enabled: true,
+		delayMs: 0,
+		includeWarnings: false,
+		scope: "workspace",
+	}
+
+	beforeEach(() => {
+		jest.mocked(vscode.languages.getDiagnostics).mockClear()
+		jest.mocked(vscode.languages.getDiagnostics).mockReturnValue([
+			[
+				editedFile,
+				[
+					oldError,
+					diagnostic("New error", vscode.DiagnosticSeverity.Error),
+					diagnostic("Unused variable", vscode.DiagnosticSeverity.Warning),
+				],
+			],
+			[otherFile, [diagnostic("Broken import", vscode.DiagnosticSeverity.Error)]],
+		] as any)
+	})
+
+	it("reports new errors in the whole workspace", async () => {
+		const problems = await getPostEditProblems([[editedFile, [oldError]]], [editedFile], settings, cwd)
+
+		expect(problems).toContain("New error")
+		expect(problems).toContain("src/b.ts")
+		expect(problems).not.toContain("Old error")
+		expect(problems).not.toContain("Unused variable")
+	})
+
+	it("only reports problems of the edited files when scoped to them", async () => {
+		const problems = await getPostEditProblems(
+			[[editedFile, [oldError]]],
+			[editedFile],
+			{ ...settings, scope: "editedFiles" },
+			cwd,
+		)
+
+		expect(problems).toContain("New error")
+		expect(problems).not.toContain("src/b.ts")
+	})
+
+	it("reports new warnings when enabled", async () => {
+		const problems = await getPostEditProblems(
+			[[editedFile, [oldError]]],
+			[editedFile],
+			{ ...settings, includeWarnings: true },
+			cwd,
+		)
+
+		expect(problems).toContain("[ts Warning] 1 | const x: number = 'a' : Unused variable")
+	})
+
+	it("reports nothing when disabled", async () => {
+		const problems = await getPostEditProblems([], [editedFile], { ...settings, enabled: false }, cwd)
+
+		expect(problems).toBe("")
+		expect(vscode.languages.getDiagnostics).not.toHaveBeenCalled()
+	})
+})
+
+describe("waitForDiagnostics", () => {
+	const editedFile = vscode.Uri.file("/project/src/a.ts")
+	let fireDiagnosticsChange: (event: vscode.DiagnosticChangeEvent) => void
+	const dispose = jest.fn()
+
+	beforeEach(() => {
+		jest.useFakeTimers()
+		dispose.mockClear()
+
+		jest.mocked(vscode.languages.onDidChangeDiagnostics).mockImplementation((listener: any) => {
+			fireDiagnosticsChange = listener
+			return { dispose }
+		})
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it("resolves once the diagnostics of the edited files settle", async () => {
+		const onDone = jest.fn()
+		waitForDiagnostics([editedFile], 5000).then(onDone)
+
+		fireDiagnosticsChange({ uris: [vscode.Uri.file("/project/src/unrelated.ts")] })
+		await jest.advanceTimersByTimeAsync(1000)
+		expect(onDone).not.toHaveBeenCalled()
+
+		fireDiagnosticsChange({ uris: [editedFile] })
+		await jest.advanceTimersByTimeAsync(200)
+		fireDiagnosticsChange({ uris: [editedFile] })
+		await jest.advanceTimersByTimeAsync(200)
+		expect(onDone).not.toHaveBeenCalled()
+
+		await jest.advanceTimersByTimeAsync(100)
+		expect(onDone).toHaveBeenCalled()
+		expect(dispose).toHaveBeenCalled()
+	})
+
+	it("resolves after the timeout if the diagnostics never change", async () => {
+		const onDone = jest.fn()
+		waitForDiagnostics([editedFile], 2000).then(onDone)
+
+		await jest.advanceTimersByTimeAsync(1999)
+		expect(onDone).not.toHaveBeenCalled()
+
+		await jest.advanceTimersByTimeAsync(1)
+		expect(onDone).toHaveBeenCalled()
+	})
+})
@@ -2,6 +2,19 @@ import * as vscode from "vscode"
 import * as path from "path"
 import deepEqual from "fast-deep-equal"
 
+import { DiagnosticsScope } from "../../schemas"
+import { arePathsEqual } from "../../utils/path"
+
+export type PostEditDiagnosticsSettings = {
+	enabled: boolean
+	delayMs: number
+	includeWarnings: boolean
+	scope: DiagnosticsScope
+}
+
+// Time without diagnostics updates after which language servers are considered settled.
+const DIAGNOSTICS_SETTLE_MS = 300
+
 export function getNewDiagnostics(
 	oldDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
 	newDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
@@ -110,3 +123,65 @@ export async function diagnosticsToProblemsString(
 	}
 	return result.trim()
 }
+
+/**
+ * Waits for language servers to publish diagnostics for the given files.
+ * Resolves once the diagnostics of these files stopped changing for a short
+ * while after their first update, or after `timeoutMs` at the latest.
+ */
+export function waitForDiagnostics(uris: vscode.Uri[], timeoutMs: number): Promise<void> {
+	if (timeoutMs <= 0) {
+		return Promise.resolve()
+	}
+
+	return new Promise((resolve) => {
+		let settleTimer: NodeJS.Timeout | undefined
+
+		const done = () => {
+			clearTimeout(settleTimer)
+			clearTimeout(timeoutTimer)
+			listener.dispose()
+			resolve()
+		}
+
+		const timeoutTimer = setTimeout(done, timeoutMs)
+
+		const listener = vscode.languages.onDidChangeDiagnostics((event) => {
+			if (event.uris.some((changed) => uris.some((uri) => arePathsEqual(changed.fsPath, uri.fsPath)))) {
+				clearTimeout(settleTimer)
+				settleTimer = setTimeout(done, DIAGNOSTICS_SETTLE_MS)
+			}
+		})
+	})
+}
+
+/**
+ * Lists the problems that appeared since `preDiagnostics` were taken, after
+ * the given files were edited. Returns an empty string if there are none.
+ */
+export async function getPostEditProblems(
+	preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][],
+	editedUris: vscode.Uri[],
+	settings: PostEditDiagnosticsSettings,
+	cwd: string,
+): Promise<string> {
+	if (!settings.enabled) {
+		return ""
+	}
+
+	await waitForDiagnostics(editedUris, settings.delayMs)
+
+	let newDiagnostics = getNewDiagnostics(preDiagnostics, vscode.languages.getDiagnostics())
+
+	if (settings.scope === "editedFiles") {
+		newDiagnostics = newDiagnostics.filter(([uri]) =>
+			editedUris.some((editedUri) => arePathsEqual(uri.fsPath, editedUri.fsPath)),
+		)
+	}
+
+	const severities = settings.includeWarnings
+		? [vscode.DiagnosticSeverity.Error, vscode.DiagnosticSeverity.Warning]
+		: [vscode.DiagnosticSeverity.Error]
+
+	return diagnosticsToProblemsString(newDiagnostics, severities, cwd)
+}
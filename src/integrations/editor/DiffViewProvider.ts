@@ -2,15 +2,36 @@ import * as vscode from "vscode"
 import * as path from "path"
 import * as fs from "fs/promises"
 import { createDirectoriesForFile } from "../../utils/fs"
-import { arePathsEqual } from "../../utils/path"
+import { arePathsEqual, resolveWorkspacePath } from "../../utils/path"
 import { formatResponse } from "../../core/prompts/responses"
 import { DecorationController } from "./DecorationController"
 import * as diff from "diff"
-import { diagnosticsToProblemsString, getNewDiagnostics } from "../diagnostics"
+import { getPostEditProblems, PostEditDiagnosticsSettings } from "../diagnostics"
 import stripBom from "strip-bom"
 
 export const DIFF_VIEW_URI_SCHEME = "cline-diff"
 
+const MULTI_FILE_REVIEW_TITLE = "Roo's Changes (Editable)"
+
+// Reports new errors right away when no settings are provided.
+const DEFAULT_DIAGNOSTICS_SETTINGS: PostEditDiagnosticsSettings = {
+	enabled: true,
+	delayMs: 0,
+	includeWarnings: false,
+	scope: "workspace",
+}
+
+type MultiFileReviewEntry = {
+	originalContent: string
+	newContent: string
+}
+
+export type MultiFileSaveResult = {
+	relPath: string
+	userEdits: string | undefined
+	finalContent: string
+}
+
 export class DiffViewProvider {
 	editType?: "create" | "modify"
 	isEditing = false
@@ -24,13 +45,18 @@ export class DiffViewProvider {
 	private activeLineController?: DecorationController
 	private streamedLines: string[] = []
 	private preDiagnostics: [vscode.Uri, vscode.Diagnostic[]][] = []
+	private multiFileReview = new Map<string, MultiFileReviewEntry>()
 
-	constructor(private cwd: string) {}
+	constructor(
+		private cwd: string,
+		private getDiagnosticsSettings: () => Promise<PostEditDiagnosticsSettings> = async () =>
+			DEFAULT_DIAGNOSTICS_SETTINGS,
+	) {}
 
 	async open(relPath: string): Promise<void> {
 		this.relPath = relPath
 		const fileExists = this.editType === "modify"
-		const absolutePath = path.resolve(this.cwd, relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, relPath)
 		this.isEditing = true
 		// if the file is already open, ensure it's not dirty before getting its contents
 		if (fileExists) {
@@ -149,7 +175,7 @@ export class DiffViewProvider {
 		if (!this.relPath || !this.newContent || !this.activeDiffEditor) {
 			return { newProblemsMessage: undefined, userEdits: undefined, finalContent: undefined }
 		}
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, this.relPath)
 		const updatedDocument = this.activeDiffEditor.document
 		const editedContent = updatedDocument.getText()
 		if (updatedDocument.isDirty) {
@@ -176,43 +202,185 @@ export class DiffViewProvider {
 		applying a fix, won't be notified, which is generally fine since the
 		initial fix is usually correct and it may just take time for linters to catch up.
 		*/
-		const postDiagnostics = vscode.languages.getDiagnostics()
-		const newProblems = await diagnosticsToProblemsString(
-			getNewDiagnostics(this.preDiagnostics, postDiagnostics),
-			[
-				vscode.DiagnosticSeverity.Error, // only including errors since warnings can be distracting (if user wants to fix warnings they can use the @problems mention)
-			],
-			this.cwd,
-		) // will be empty string if no errors
-		const newProblemsMessage =
-			newProblems.length > 0 ? `\n\nNew problems detected after saving the file:\n${newProblems}` : ""
+		const newProblemsMessage = await this.getNewProblemsMessage([vscode.Uri.file(absolutePath)])
+
+		const { userEdits, finalContent } = this.getUserEdits(this.relPath, this.newContent, editedContent)
+		return { newProblemsMessage, userEdits, finalContent }
+	}
 
+	private getUserEdits(relPath: string, newContent: string, editedContent: string) {
 		// If the edited content has different EOL characters, we don't want to show a diff with all the EOL differences.
-		const newContentEOL = this.newContent.includes("\r\n") ? "\r\n" : "\n"
+		const newContentEOL = newContent.includes("\r\n") ? "\r\n" : "\n"
 		const normalizedEditedContent = editedContent.replace(/\r\n|\n/g, newContentEOL).trimEnd() + newContentEOL // trimEnd to fix issue where editor adds in extra new line automatically
 		// just in case the new content has a mix of varying EOL characters
-		const normalizedNewContent = this.newContent.replace(/\r\n|\n/g, newContentEOL).trimEnd() + newContentEOL
+		const normalizedNewContent = newContent.replace(/\r\n|\n/g, newContentEOL).trimEnd() + newContentEOL
 		if (normalizedEditedContent !== normalizedNewContent) {
 			// user made changes before approving edit
 			const userEdits = formatResponse.createPrettyPatch(
-				this.relPath.toPosix(),
+				relPath.toPosix(),
 				normalizedNewContent,
 				normalizedEditedContent,
 			)
-			return { newProblemsMessage, userEdits, finalContent: normalizedEditedContent }
+			return { userEdits, finalContent: normalizedEditedContent }
 		} else {
 			// no changes to cline's edits
-			return { newProblemsMessage, userEdits: undefined, finalContent: normalizedEditedContent }
+			return { userEdits: undefined, finalContent: normalizedEditedContent }
+		}
+	}
+
+	get hasMultiFileReview(): boolean {
+		return this.multiFileReview.size > 0
+	}
+
+	/**
+	 * Shows the changes to several existing files in one multi-file diff editor.
+	 * The new content is applied to the unsaved documents, so the user can still
+	 * tweak it before deciding which files to keep.
+	 */
+	async openMultiFileReview(changes: { relPath: string; newContent: string }[]): Promise<void> {
+		this.isEditing = true
+		this.multiFileReview.clear()
+		this.preDiagnostics = vscode.languages.getDiagnostics()
+
+		const resources: [vscode.Uri, vscode.Uri, vscode.Uri][] = []
+
+		for (const { relPath, newContent } of changes) {
+			const uri = vscode.Uri.file(resolveWorkspacePath(this.cwd, relPath))
+			const document = await vscode.workspace.openTextDocument(uri)
+
+			if (document.isDirty) {
+				await document.save()
+			}
+
+			const originalContent = document.getText()
+			// Preserve empty last line if original content had one
+			const content =
+				originalContent.endsWith("\n") && !newContent.endsWith("\n") ? newContent + "\n" : newContent
+
+			const edit = new vscode.WorkspaceEdit()
+			edit.replace(uri, new vscode.Range(0, 0, document.lineCount, 0), this.stripAllBOMs(content))
+			await vscode.workspace.applyEdit(edit)
+
+			this.multiFileReview.set(relPath, { originalContent, newContent: content })
+
+			resources.push([
+				uri,
+				vscode.Uri.parse(`${DIFF_VIEW_URI_SCHEME}:${relPath}`).with({
+					query: Buffer.from(originalContent).toString("base64"),
+				}),
+				uri,
+			])
+		}
+
+		try {
+			await vscode.commands.executeCommand("vscode.changes", MULTI_FILE_REVIEW_TITLE, resources)
+		} catch (error) {
+			// The multi-file diff editor isn't available in older versions of VS Code.
+			for (const [uri, originalUri] of resources) {
+				await vscode.commands.executeCommand(
+					"vscode.diff",
+					originalUri,
+					uri,
+					`${path.basename(uri.fsPath)}: Original ↔ Roo's Changes (Editable)`,
+					{ preview: false },
+				)
+			}
 		}
 	}
 
+	/**
+	 * Saves the approved files of a multi-file review and reverts the others.
+	 */
+	async finishMultiFileReview(approvedPaths: string[]): Promise<{
+		newProblemsMessage: string
+		files: MultiFileSaveResult[]
+	}> {
+		const files: MultiFileSaveResult[] = []
+
+		for (const [relPath, { originalContent, newContent }] of this.multiFileReview) {
+			const uri = vscode.Uri.file(resolveWorkspacePath(this.cwd, relPath))
+			const document = await vscode.workspace.openTextDocument(uri)
+
+			if (approvedPaths.includes(relPath)) {
+				const editedContent = document.getText()
+
+				if (document.isDirty) {
+					await document.save()
+				}
+
+				files.push({ relPath, ...this.getUserEdits(relPath, newContent, editedContent) })
+			} else {
+				await this.revertDocument(document, originalContent)
+			}
+		}
+
+		await this.closeAllDiffViews()
+
+		const newProblemsMessage = await this.getNewProblemsMessage(
+			files.map(({ relPath }) => vscode.Uri.file(resolveWorkspacePath(this.cwd, relPath))),
+		)
+
+		await this.reset()
+
+		return { newProblemsMessage, files }
+	}
+
+	/**
+	 * Waits for the language servers to catch up with the saved files and
+	 * lists the problems that appeared since the edit started.
+	 */
+	private async getNewProblemsMessage(editedUris: vscode.Uri[]): Promise<string> {
+		const newProblems = await getPostEditProblems(
+			this.preDiagnostics,
+			editedUris,
+			await this.getDiagnosticsSettings(),
+			this.cwd,
+		)
+
+		return newProblems.length > 0 ? formatResponse.newProblems(newProblems) : ""
+	}
+
+	/**
+	 * Reverts every file of a multi-file review, e.g. when the task is aborted
+	 * before the user decided which files to keep.
+	 */
+	private async revertMultiFileReview(): Promise<void> {
+		const entries = [...this.multiFileReview]
+		this.multiFileReview.clear()
+
+		for (const [relPath, { originalContent }] of entries) {
+			try {
+				const uri = vscode.Uri.file(resolveWorkspacePath(this.cwd, relPath))
+				await this.revertDocument(await vscode.workspace.openTextDocument(uri), originalContent)
+			} catch (error) {
+				console.error(`[DiffViewProvider] failed to revert ${relPath}:`, error)
+			}
+		}
+
+		await this.closeAllDiffViews()
+		await this.reset()
+	}
+
+	private async revertDocument(document: vscode.TextDocument, originalContent: string): Promise<void> {
+		const edit = new vscode.WorkspaceEdit()
+		const fullRange = new vscode.Range(document.positionAt(0), document.positionAt(document.getText().length))
+		edit.replace(document.uri, fullRange, originalContent)
+		await vscode.workspace.applyEdit(edit)
+		await document.save()
+	}
+
 	async revertChanges(): Promise<void> {
+		if (this.multiFileReview.size > 0) {
+			await this.revertMultiFileReview()
+			return
+		}
+
 		if (!this.relPath || !this.activeDiffEditor) {
 			return
 		}
 		const fileExists = this.editType === "modify"
 		const updatedDocument = this.activeDiffEditor.document
-		const absolutePath = path.resolve(this.cwd, this.relPath)
+		const absolutePath = resolveWorkspacePath(this.cwd, this.relPath)
 		if (!fileExists) {
 			if (updatedDocument.isDirty) {
 				await updatedDocument.save()
@@ -254,8 +422,9 @@ export class DiffViewProvider {
 			.flatMap((tg) => tg.tabs)
 			.filter(
 				(tab) =>
-					tab.input instanceof vscode.TabInputTextDiff &&
-					tab.input?.original?.scheme === DIFF_VIEW_URI_SCHEME,
+					(tab.input instanceof vscode.TabInputTextDiff &&
+						tab.input?.original?.scheme === DIFF_VIEW_URI_SCHEME) ||
+					tab.label === MULTI_FILE_REVIEW_TITLE,
 			)
 		for (const tab of tabs) {
 			// trying to close dirty views results in save popup
@@ -269,7 +438,7 @@ export class DiffViewProvider {
 		if (!this.relPath) {
 			throw new Error("No file path set")
 		}
-		const uri = vscode.Uri.file(path.resolve(this.cwd, this.relPath))
+		const uri = vscode.Uri.file(resolveWorkspacePath(this.cwd, this.relPath))
 		// If this diff editor is already open (ie if a previous write file was interrupted) then we should activate that instead of opening a new diff
 		const diffTab = vscode.window.tabGroups.all
 			.flatMap((group) => group.tabs)
@@ -363,5 +532,6 @@ export class DiffViewProvider {
 		this.activeLineController = undefined
 		this.streamedLines = []
 		this.preDiagnostics = []
+		this.multiFileReview.clear()
 	}
 }
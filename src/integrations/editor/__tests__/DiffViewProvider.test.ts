@@ -5,10 +5,16 @@ import * as vscode from "vscode"
 jest.mock("vscode", () => ({
 	workspace: {
 		applyEdit: jest.fn(),
+		openTextDocument: jest.fn(),
 	},
 	window: {
 		createTextEditorDecorationType: jest.fn(),
+		tabGroups: { all: [] },
 	},
+	Uri: {
+		file: jest.fn((fsPath: string) => ({ fsPath })),
+	},
+	TabInputTextDiff: jest.fn(),
 	WorkspaceEdit: jest.fn().mockImplementation(() => ({
 		replace: jest.fn(),
 		delete: jest.fn(),
@@ -93,4 +99,31 @@ describe("DiffViewProvider", () => {
 			expect(mockWorkspaceEdit.replace).toHaveBeenCalledWith(expect.anything(), expect.anything(), "New content")
 		})
 	})
+	describe("revertChanges method", () => {
+		it("should revert every file of a multi-file review", async () => {
+			const documents = ["a.ts", "b.ts"].map((name) => ({
+				uri: { fsPath: `${mockCwd}/${name}` },
+				getText: jest.fn().mockReturnValue("changed"),
+				positionAt: jest.fn(),
+				save: jest.fn(),
+			}))
+			;(vscode.workspace.openTextDocument as jest.Mock).mockImplementation(async (uri: { fsPath: string }) =>
+				documents.find((document) => document.uri.fsPath === uri.fsPath),
+			)
+			;(diffViewProvider as any).multiFileReview = new Map([
+				["a.ts", { originalContent: "original a", newContent: "changed" }],
+				["b.ts", { originalContent: "original b", newContent: "changed" }],
+			])
+
+			expect(diffViewProvider.hasMultiFileReview).toBe(true)
+			await diffViewProvider.revertChanges()
+
+			expect(mockWorkspaceEdit.replace).toHaveBeenCalledWith(documents[0].uri, expect.anything(), "original a")
+			expect(mockWorkspaceEdit.replace).toHaveBeenCalledWith(documents[1].uri, expect.anything(), "original b")
+			expect(documents[0].save).toHaveBeenCalled()
+			expect(documents[1].save).toHaveBeenCalled()
+			expect(diffViewProvider.hasMultiFileReview).toBe(false)
+			expect(diffViewProvider.isEditing).toBe(false)
+		})
+	})
 })
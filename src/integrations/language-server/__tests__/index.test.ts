@@ -0,0 +1,227 @@
+// npx jest src/integrations/language-server/__tests__/index.test.ts
+
+import * as vscode from "vscode"
+
+import { fileExistsAtPath } from "../../../utils/fs"
+import {
+	formatLocations,
+	getCodeActions,
+	getDefinitions,
+	getHover,
+	getWorkspaceEditChanges,
+	hasResourceOperations,
+	resolvePosition,
+} from ".."
+
+jest.mock("../../../utils/fs", () => ({ fileExistsAtPath: jest.fn() }))
+
+jest.mock("vscode", () => {
+	class Position {
+		constructor(
+			public line: number,
+			public character: number,
+		) {}
+	}
+
+	class Range {
+		constructor(
+			public start: Position,
+			public end: Position,
+		) {}
+	}
+
+	class Location {
+		constructor(
+			public uri: { fsPath: string },
+			public range: Range,
+		) {}
+	}
+
+	return {
+		Position,
+		Range,
+		Location,
+		Uri: { file: (fsPath: string) => ({ scheme: "file", fsPath }) },
+		commands: { executeCommand: jest.fn() },
+		workspace: { openTextDocument: jest.fn() },
+	}
+})
+
+const source = ["class UserService {", "  load() {}", "", "  save() {", "    this.load()", "  }", "}", "save()"]
+
+// A minimal text document over the given lines.
+const createDocument = (lines: string[]) => {
+	const text = lines.join("\n")
+
+	return {
+		lineCount: lines.length,
+		getText: () => text,
+		lineAt: (line: number) => ({
+			text: lines[line],
+			firstNonWhitespaceCharacterIndex: lines[line].length - lines[line].trimStart().length,
+		}),
+		offsetAt: ({ line, character }: vscode.Position) =>
+			lines.slice(0, line).reduce((offset, text) => offset + text.length + 1, 0) + character,
+		positionAt: (offset: number) => {
+			const before = text.slice(0, offset).split("\n")
+			return new vscode.Position(before.length - 1, before[before.length - 1].length)
+		},
+	} as unknown as vscode.TextDocument
+}
+
+const location = (fsPath: string, line: number, character: number) => {
+	const position = new vscode.Position(line, character)
+	return new vscode.Location(vscode.Uri.file(fsPath), new vscode.Range(position, position))
+}
+
+describe("resolvePosition", () => {
+	const document = createDocument(source)
+
+	it("resolves a symbol to its first occurrence", () => {
+		expect(resolvePosition(document, { symbol: "save" })).toEqual({ line: 3, character: 2 })
+	})
+
+	it("resolves qualified symbols inside their qualifiers", () => {
+		expect(resolvePosition(document, { symbol: "UserService.load" })).toEqual({ line: 1, character: 2 })
+	})
+
+	it("resolves a line to its first non-whitespace character", () => {
+		expect(resolvePosition(document, { line: 5 })).toEqual({ line: 4, character: 4 })
+		expect(resolvePosition(document, { line: 5, column: 10 })).toEqual({ line: 4, character: 9 })
+	})
+
+	it("returns undefined for unknown symbols and lines", () => {
+		expect(resolvePosition(document, { symbol: "delete" })).toBeUndefined()
+		expect(resolvePosition(document, { line: 20 })).toBeUndefined()
+	})
+})
+
+describe("language server queries", () => {
+	const uri = vscode.Uri.file("/project/src/a.ts")
+	const position = new vscode.Position(4, 9)
+
+	it("converts location links to locations", async () => {
+		const target = location("/project/src/a.ts", 1, 2)
+		jest.mocked(vscode.commands.executeCommand).mockResolvedValue([
+			{ targetUri: target.uri, targetRange: target.range, targetSelectionRange: target.range },
+		])
+
+		expect(await getDefinitions(uri, position)).toEqual([target])
+		expect(vscode.commands.executeCommand).toHaveBeenCalledWith("vscode.executeDefinitionProvider", uri, position)
+	})
+
+	it("returns the hover contents as markdown", async () => {
+		jest.mocked(vscode.commands.executeCommand).mockResolvedValue([
+			{ contents: [{ language: "typescript", value: "(method) load(): void" }, { value: "Loads a user." }] },
+		])
+
+		expect(await getHover(uri, position)).toEqual(["```typescript\n(method) load(): void\n```", "Loads a user."])
+	})
+
+	it("leaves out code actions that only run a command", async () => {
+		const range = new vscode.Range(position, position)
+		const quickFix = { title: "Add missing import", edit: {} }
+		jest.mocked(vscode.commands.executeCommand).mockResolvedValue([
+			quickFix,
+			{ title: "Run linter", command: "eslint.executeAutofix" },
+		])
+
+		expect(await getCodeActions(uri, range, 10)).toEqual([quickFix])
+		expect(vscode.commands.executeCommand).toHaveBeenCalledWith(
+			"vscode.executeCodeActionProvider",
+			uri,
+			range,
+			undefined,
+			10,
+		)
+	})
+})
+
+describe("formatLocations", () => {
+	beforeEach(() => {
+		jest.mocked(vscode.workspace.openTextDocument).mockResolvedValue(createDocument(source))
+	})
+
+	it("formats locations with relative paths and line-numbered context", async () => {
+		const { content, count } = await formatLocations(
+			[location("/project/src/a.ts", 4, 9)],
+			"/project",
+			() => true,
+			10,
+		)
+
+		expect(count).toBe(1)
+		expect(content).toBe("# src/a.ts:5:10\n3 | \n4 |   save() {\n5 |     this.load()\n6 |   }\n7 | }")
+	})
+
+	it("leaves out locations in ignored files and limits the results", async () => {
+		const { content, count } = await formatLocations(
+			[
+				location("/project/src/a.ts", 0, 0),
+				location("/project/secrets/b.ts", 0, 0),
+				location("/project/src/c.ts", 0, 0),
+			],
+			"/project",
+			(filePath) => !filePath.includes("secrets"),
+			1,
+			["Class UserService", "Class Secret", "Function save"],
+		)
+
+		expect(count).toBe(2)
+		expect(content).toContain("# src/a.ts:1:1 | Class UserService")
+		expect(content).not.toContain("secrets")
+		expect(content).not.toContain("src/c.ts")
+		expect(content).toContain("(Showing 1 of 2 results.)")
+	})
+})
+
+describe("getWorkspaceEditChanges", () => {
+	const textEdit = (line: number, start: number, end: number, newText: string) => ({
+		range: new vscode.Range(new vscode.Position(line, start), new vscode.Position(line, end)),
+		newText,
+	})
+
+	it("applies the text edits of every file in memory", async () => {
+		jest.mocked(vscode.workspace.openTextDocument).mockResolvedValue(createDocument(source))
+		const uri = vscode.Uri.file("/project/src/a.ts")
+		const edit = {
+			entries: () => [[uri, [textEdit(3, 2, 6, "persist"), textEdit(7, 0, 4, "persist")]]],
+		} as unknown as vscode.WorkspaceEdit
+
+		const [change] = await getWorkspaceEditChanges(edit)
+
+		expect(change.uri).toBe(uri)
+		expect(change.originalContent).toBe(source.join("\n"))
+		expect(change.newContent.split("\n")).toEqual([
+			...source.slice(0, 3),
+			"  persist() {",
+			...source.slice(4, 7),
+			"persist()",
+		])
+	})
+})
+
+describe("hasResourceOperations", () => {
+	const uri = vscode.Uri.file("/project/src/a.ts")
+
+	it("is false for text edits of existing files", async () => {
+		jest.mocked(fileExistsAtPath).mockResolvedValue(true)
+		const edit = { size: 1, entries: () => [[uri, []]] } as unknown as vscode.WorkspaceEdit
+
+		expect(await hasResourceOperations(edit)).toBe(false)
+	})
+
+	it("detects files that are created", async () => {
+		jest.mocked(fileExistsAtPath).mockResolvedValue(false)
+		const edit = { size: 1, entries: () => [[uri, []]] } as unknown as vscode.WorkspaceEdit
+
+		expect(await hasResourceOperations(edit)).toBe(true)
+	})
+
+	it("detects files that are renamed or deleted without text edits", async () => {
+		jest.mocked(fileExistsAtPath).mockResolvedValue(true)
+		const edit = { size: 3, entries: () => [[uri, []]] } as unknown as vscode.WorkspaceEdit
+
+		expect(await hasResourceOperations(edit)).toBe(true)
+	})
+})
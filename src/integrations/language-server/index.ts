@@ -0,0 +1,256 @@
+import * as vscode from "vscode"
+
+import { addLineNumbers } from "../misc/extract-text"
+import { fileExistsAtPath } from "../../utils/fs"
+import { getReadablePath } from "../../utils/path"
+
+// Lines shown before and after every location.
+const CONTEXT_LINES = 2
+
+// A position in a file, given either by the name of a symbol or by a 1-based
+// line and column.
+export type SymbolPosition = { symbol?: string; line?: number; column?: number }
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+/**
+ * Resolves a symbol name or a line and column to a position in a document.
+ *
+ * Qualified names (`UserService.save`) are resolved to the first occurrence
+ * of their last segment after the occurrences of the qualifiers, so the
+ * position is inside the right class. Without a column, the first
+ * non-whitespace character of the line is used.
+ *
+ * @returns The position, or `undefined` if the symbol or line doesn't exist
+ */
+export function resolvePosition(
+	document: vscode.TextDocument,
+	{ symbol, line, column }: SymbolPosition,
+): vscode.Position | undefined {
+	if (symbol) {
+		const text = document.getText()
+		let offset = 0
+
+		for (const segment of symbol.split(".").filter(Boolean)) {
+			const match = new RegExp(`\\b${escapeRegExp(segment)}\\b`).exec(text.slice(offset))
+
+			if (!match) {
+				return undefined
+			}
+
+			offset += match.index
+		}
+
+		return document.positionAt(offset)
+	}
+
+	if (line === undefined || line < 1 || line > document.lineCount) {
+		return undefined
+	}
+
+	const textLine = document.lineAt(line - 1)
+	const character = column !== undefined ? column - 1 : textLine.firstNonWhitespaceCharacterIndex
+
+	return new vscode.Position(line - 1, Math.max(0, Math.min(character, textLine.text.length)))
+}
+
+export async function getDefinitions(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+	const results = await vscode.commands.executeCommand<(vscode.Location | vscode.LocationLink)[] | undefined>(
+		"vscode.executeDefinitionProvider",
+		uri,
+		position,
+	)
+
+	return (results ?? []).map((result) =>
+		"targetUri" in result
+			? new vscode.Location(result.targetUri, result.targetSelectionRange ?? result.targetRange)
+			: result,
+	)
+}
+
+export async function getReferences(uri: vscode.Uri, position: vscode.Position): Promise<vscode.Location[]> {
+	const results = await vscode.commands.executeCommand<vscode.Location[] | undefined>(
+		"vscode.executeReferenceProvider",
+		uri,
+		position,
+	)
+
+	return results ?? []
+}
+
+/**
+ * The hover contents at a position as markdown sections.
+ */
+export async function getHover(uri: vscode.Uri, position: vscode.Position): Promise<string[]> {
+	const hovers = await vscode.commands.executeCommand<vscode.Hover[] | undefined>(
+		"vscode.executeHoverProvider",
+		uri,
+		position,
+	)
+
+	return (hovers ?? [])
+		.flatMap(({ contents }) => contents)
+		.map((content) => {
+			if (typeof content === "string") {
+				return content
+			}
+
+			// Deprecated `MarkedString`s are code blocks with a language.
+			return "language" in content ? `\`\`\`${content.language}\n${content.value}\n\`\`\`` : content.value
+		})
+		.filter((content) => content.trim().length > 0)
+}
+
+export async function getWorkspaceSymbols(query: string): Promise<vscode.SymbolInformation[]> {
+	const results = await vscode.commands.executeCommand<vscode.SymbolInformation[] | undefined>(
+		"vscode.executeWorkspaceSymbolProvider",
+		query,
+	)
+
+	return results ?? []
+}
+
+/**
+ * Formats locations as `# path:line:column` headers followed by the
+ * line-numbered lines around them. Locations in files that `isAccessAllowed`
+ * rejects are left out.
+ *
+ * @param labels - Optional labels shown after the header of each location
+ */
+export async function formatLocations(
+	locations: vscode.Location[],
+	cwd: string,
+	isAccessAllowed: (filePath: string) => boolean,
+	maxResults: number,
+	labels: string[] = [],
+): Promise<{ content: string; count: number }> {
+	const allowed = locations
+		.map((location, i) => ({ location, label: labels[i] }))
+		.filter(({ location }) => isAccessAllowed(location.uri.fsPath))
+
+	const sections: string[] = []
+
+	for (const { location, label } of allowed.slice(0, maxResults)) {
+		const { uri, range } = location
+		const position = `${range.start.line + 1}:${range.start.character + 1}`
+		const header = `# ${getReadablePath(cwd, uri.fsPath)}:${position}${label ? ` | ${label}` : ""}`
+
+		try {
+			const document = await vscode.workspace.openTextDocument(uri)
+			const first = Math.max(0, range.start.line - CONTEXT_LINES)
+			const last = Math.min(document.lineCount - 1, range.start.line + CONTEXT_LINES)
+			const lines = Array.from({ length: last - first + 1 }, (_, i) => document.lineAt(first + i).text)
+
+			sections.push(`${header}\n${addLineNumbers(lines.join("\n"), first + 1).trimEnd()}`)
+		} catch (error) {
+			// E.g. virtual documents of libraries that can't be opened.
+			sections.push(header)
+		}
+	}
+
+	let content = sections.join("\n\n")
+
+	if (allowed.length > maxResults) {
+		content += `\n\n(Showing ${maxResults} of ${allowed.length} results.)`
+	}
+
+	return { content, count: allowed.length }
+}
+
+/**
+ * The edit that renames the symbol at a position, or `undefined` if no
+ * language server can rename it. Throws with the reason of the language
+ * server if the symbol can't be renamed.
+ */
+export async function getRenameEdit(
+	uri: vscode.Uri,
+	position: vscode.Position,
+	newName: string,
+): Promise<vscode.WorkspaceEdit | undefined> {
+	return vscode.commands.executeCommand<vscode.WorkspaceEdit | undefined>(
+		"vscode.executeDocumentRenameProvider",
+		uri,
+		position,
+		newName,
+	)
+}
+
+/**
+ * The code actions (quick fixes, refactorings, ...) available for a range.
+ * Bare commands are left out since their effects can't be previewed.
+ *
+ * @param resolveCount - How many actions to resolve, which computes the
+ * edits of actions that provide them lazily
+ */
+export async function getCodeActions(
+	uri: vscode.Uri,
+	range: vscode.Range,
+	resolveCount?: number,
+): Promise<vscode.CodeAction[]> {
+	const results = await vscode.commands.executeCommand<(vscode.CodeAction | vscode.Command)[] | undefined>(
+		"vscode.executeCodeActionProvider",
+		uri,
+		range,
+		undefined,
+		resolveCount,
+	)
+
+	return (results ?? []).filter((result): result is vscode.CodeAction => typeof result.command !== "string")
+}
+
+/**
+ * Whether a workspace edit creates, renames or deletes files. The API only
+ * exposes the text edits of a workspace edit, so these operations are
+ * detected by the resources they affect: resources without text edits, and
+ * files with text edits that don't exist yet.
+ */
+export async function hasResourceOperations(edit: vscode.WorkspaceEdit): Promise<boolean> {
+	const entries = edit.entries()
+
+	if (edit.size > entries.length) {
+		return true
+	}
+
+	for (const [uri] of entries) {
+		if (uri.scheme === "file" && !(await fileExistsAtPath(uri.fsPath))) {
+			return true
+		}
+	}
+
+	return false
+}
+
+/**
+ * The content of every file changed by a workspace edit before and after
+ * applying it, without applying it. Only text edits are included, see
+ * `hasResourceOperations`.
+ */
+export async function getWorkspaceEditChanges(
+	edit: vscode.WorkspaceEdit,
+): Promise<{ uri: vscode.Uri; originalContent: string; newContent: string }[]> {
+	const changes = []
+
+	for (const [uri, textEdits] of edit.entries()) {
+		const document = await vscode.workspace.openTextDocument(uri)
+		const originalContent = document.getText()
+
+		// Apply the edits from the end so the offsets of the others stay valid.
+		const sorted = textEdits
+			.map(({ range, newText }) => ({
+				start: document.offsetAt(range.start),
+				end: document.offsetAt(range.end),
+				newText,
+			}))
+			.sort((a, b) => b.start - a.start)
+
+		let newContent = originalContent
+
+		for (const { start, end, newText } of sorted) {
+			newContent = newContent.slice(0, start) + newText + newContent.slice(end)
+		}
+
+		changes.push({ uri, originalContent, newContent })
+	}
+
+	return changes
+}
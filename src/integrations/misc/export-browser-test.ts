@@ -0,0 +1,47 @@
+import * as path from "path"
+import * as vscode from "vscode"
+
+import { ClineMessage } from "../../shared/ExtensionMessage"
+import { generateTestScript, parseBrowserSession, TestFramework } from "../../services/browser/testScript"
+import { t } from "../../i18n"
+
+const frameworks: { label: string; framework: TestFramework; fileName: string; extension: string }[] = [
+	{ label: "Playwright", framework: "playwright", fileName: "browser-session.spec.ts", extension: "ts" },
+	{ label: "Puppeteer", framework: "puppeteer", fileName: "browser-session.test.mjs", extension: "mjs" },
+]
+
+/**
+ * Saves the browser session of the given messages as a Puppeteer or
+ * Playwright test in the workspace
+ */
+export async function saveBrowserSessionAsTest(messages: ClineMessage[], cwd: string, viewportSize: string) {
+	const steps = parseBrowserSession(messages)
+
+	if (!steps.some(({ action }) => action.action === "launch")) {
+		vscode.window.showErrorMessage(t("common:errors.no_browser_session_to_save"))
+		return
+	}
+
+	const item = await vscode.window.showQuickPick(frameworks, {
+		placeHolder: t("common:browser_test.select_framework"),
+	})
+
+	if (!item) {
+		return
+	}
+
+	const saveUri = await vscode.window.showSaveDialog({
+		filters: { [item.label]: [item.extension] },
+		defaultUri: vscode.Uri.file(path.join(cwd, "tests", item.fileName)),
+	})
+
+	if (!saveUri) {
+		return
+	}
+
+	const [width, height] = viewportSize.split("x").map(Number)
+	const script = generateTestScript({ steps, framework: item.framework, viewport: { width, height } })
+
+	await vscode.workspace.fs.writeFile(saveUri, Buffer.from(script))
+	vscode.window.showTextDocument(saveUri, { preview: false })
+}
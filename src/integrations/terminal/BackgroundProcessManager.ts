@@ -0,0 +1,363 @@
+import pWaitFor from "p-wait-for"
+
+import { BackgroundProcessInfo, BackgroundProcessStatus } from "../../shared/ExtensionMessage"
+import { Terminal } from "./Terminal"
+import { TerminalRegistry } from "./TerminalRegistry"
+import { ExitCodeDetails, TerminalProcessResultPromise } from "./TerminalProcess"
+import { SandboxProcessResultPromise, runInSandbox } from "./SandboxProcess"
+import { SandboxConfig } from "./sandbox"
+
+// The oldest lines of a process are dropped once it has printed this many.
+const MAX_BUFFERED_LINES = 5_000
+
+// Starting a process waits until it settles down or exits, so that the model
+// sees whether it came up, but never longer than this.
+const START_TIMEOUT_MS = 10_000
+
+// Stopping a process interrupts it first and only closes its terminal if it
+// doesn't exit within this time.
+const STOP_TIMEOUT_MS = 5_000
+
+export type ProcessOutputMode = "tail" | "since_last" | "grep"
+
+export type ProcessOutputLine = {
+	// 1-based number of the line in the whole output of the process.
+	number: number
+	text: string
+}
+
+/**
+ * Keeps the most recent lines printed by a process and remembers how far
+ * they have been read
+ */
+export class ProcessOutputBuffer {
+	private lines: string[] = []
+	private partialLine = ""
+	private droppedLines = 0
+	private readLines = 0
+
+	constructor(private readonly maxLines = MAX_BUFFERED_LINES) {}
+
+	append(chunk: string) {
+		const lines = (this.partialLine + chunk).split(/\r?\n/)
+		this.partialLine = lines.pop() ?? ""
+
+		for (const line of lines) {
+			// Progress bars redraw their line with carriage returns, only the last
+			// version of the line is kept.
+			this.lines.push(line.slice(line.lastIndexOf("\r") + 1))
+		}
+
+		if (this.lines.length > this.maxLines) {
+			const excess = this.lines.length - this.maxLines
+			this.lines.splice(0, excess)
+			this.droppedLines += excess
+		}
+	}
+
+	/**
+	 * Adds the last line if it didn't end with a line break
+	 */
+	flush() {
+		if (this.partialLine) {
+			this.append("\n")
+		}
+	}
+
+	get totalLines() {
+		return this.droppedLines + this.lines.length
+	}
+
+	get unreadLines() {
+		return this.totalLines - Math.max(this.readLines, this.droppedLines)
+	}
+
+	tail(count: number): ProcessOutputLine[] {
+		return this.linesFrom(Math.max(this.totalLines - count, this.droppedLines))
+	}
+
+	/**
+	 * Returns the lines that weren't read yet, or the last `count` of them, and
+	 * marks them as read
+	 */
+	sinceLastRead(count: number): { lines: ProcessOutputLine[]; omitted: number } {
+		const start = Math.max(this.readLines, this.droppedLines)
+		const shownStart = Math.max(start, this.totalLines - count)
+		this.readLines = this.totalLines
+
+		return { lines: this.linesFrom(shownStart), omitted: shownStart - start }
+	}
+
+	grep(regex: RegExp, count: number): ProcessOutputLine[] {
+		return this.linesFrom(this.droppedLines)
+			.filter(({ text }) => regex.test(text))
+			.slice(-count)
+	}
+
+	private linesFrom(start: number): ProcessOutputLine[] {
+		return this.lines.slice(start - this.droppedLines).map((text, index) => ({ number: start + index + 1, text }))
+	}
+}
+
+/**
+ * Describes the status of a process, e.g. `running for 2m 5s` or `exited with
+ * code 1`
+ */
+export function formatProcessStatus(
+	{ status, exitCode, startedAt }: Pick<BackgroundProcessInfo, "status" | "exitCode" | "startedAt">,
+	now = Date.now(),
+): string {
+	switch (status) {
+		case "running": {
+			const seconds = Math.max(0, Math.round((now - startedAt) / 1000))
+			return seconds < 60
+				? `running for ${seconds}s`
+				: `running for ${Math.floor(seconds / 60)}m ${seconds % 60}s`
+		}
+		case "exited":
+			return exitCode !== undefined ? `exited with code ${exitCode}` : "exited"
+		case "stopped":
+			return "stopped"
+	}
+}
+
+export type BackgroundProcess = {
+	name: string
+	command: string
+	cwd: string
+	// Processes that run in a sandbox have no terminal.
+	terminal?: Terminal
+	output: ProcessOutputBuffer
+	status: BackgroundProcessStatus
+	exitCode?: number
+	startedAt: number
+	endedAt?: number
+	isStopping: boolean
+	process: TerminalProcessResultPromise | SandboxProcessResultPromise
+}
+
+/**
+ * Runs the long-running commands of a task, like dev servers and watchers,
+ * each in a terminal of its own or in a sandbox. Unlike the terminals of `execute_command`
+ * these terminals are never reused, their output is kept so it can be read
+ * at any time, and they are closed with the task.
+ */
+export class BackgroundProcessManager {
+	private processes = new Map<string, BackgroundProcess>()
+
+	constructor(
+		private readonly taskId: string,
+		private readonly onDidChange?: () => void,
+	) {}
+
+	get(name: string): BackgroundProcess | undefined {
+		const entry = this.processes.get(name)
+
+		if (entry) {
+			this.refresh(entry)
+		}
+
+		return entry
+	}
+
+	list(): BackgroundProcessInfo[] {
+		return Array.from(this.processes.values()).map((entry) => {
+			this.refresh(entry)
+
+			return {
+				name: entry.name,
+				command: entry.command,
+				cwd: entry.cwd,
+				status: entry.status,
+				exitCode: entry.exitCode,
+				startedAt: entry.startedAt,
+				endedAt: entry.endedAt,
+				unreadLines: entry.output.unreadLines,
+			}
+		})
+	}
+
+	/**
+	 * Starts a command in a new terminal, or in a sandbox, and waits until it
+	 * exits or its output settles down. A process that ended is replaced by a
+	 * new one with the same name.
+	 */
+	async start({
+		name,
+		command,
+		cwd,
+		sandbox,
+	}: {
+		name: string
+		command: string
+		cwd: string
+		sandbox?: { config: SandboxConfig; workspacePaths: string[] }
+	}): Promise<BackgroundProcess> {
+		const existing = this.get(name)
+
+		if (existing?.status === "running") {
+			throw new Error(`A background process named "${name}" is already running.`)
+		}
+
+		if (existing) {
+			this.closeTerminal(existing)
+		}
+
+		let terminal: Terminal | undefined
+		let process: TerminalProcessResultPromise | SandboxProcessResultPromise
+
+		if (sandbox) {
+			process = runInSandbox(command, { cwd, ...sandbox })
+		} else {
+			terminal = TerminalRegistry.createTerminal(cwd, `Roo Code: ${name}`)
+			terminal.managed = true
+			terminal.taskId = this.taskId
+			process = terminal.runCommand(command)
+		}
+
+		const entry: BackgroundProcess = {
+			name,
+			command,
+			cwd,
+			terminal,
+			output: new ProcessOutputBuffer(),
+			status: "running",
+			startedAt: Date.now(),
+			isStopping: false,
+			process,
+		}
+
+		this.processes.set(name, entry)
+
+		process.on("line", (chunk) => entry.output.append(chunk))
+
+		process.once("shell_execution_complete", (details: ExitCodeDetails) => {
+			entry.exitCode = details.exitCode
+		})
+
+		// Without shell integration the output is unknown, so the message saying
+		// so is all the output there is.
+		process.once("no_shell_integration", (message: string) => {
+			entry.output.append(`${message}\n`)
+		})
+
+		process.once("completed", () => {
+			this.end(entry, entry.isStopping ? "stopped" : "exited")
+		})
+
+		// The process only settles once the command exits, errors are reported
+		// through its events.
+		process.catch(() => this.end(entry, "exited"))
+
+		terminal?.terminal.show(true)
+		this.onDidChange?.()
+
+		await pWaitFor(
+			() => {
+				this.collect(entry)
+				return entry.status !== "running" || (entry.output.totalLines > 0 && !process.isHot)
+			},
+			{ interval: 100, timeout: START_TIMEOUT_MS },
+		).catch(() => {})
+
+		return entry
+	}
+
+	/**
+	 * Returns the lines of output of a process: the last lines (`tail`), the
+	 * lines printed since the last time this mode was used (`since_last`), or
+	 * the last lines matching a regular expression (`grep`)
+	 */
+	read(
+		entry: BackgroundProcess,
+		{ mode, lines, regex }: { mode: ProcessOutputMode; lines: number; regex?: RegExp },
+	): { lines: ProcessOutputLine[]; omitted: number } {
+		this.collect(entry)
+
+		switch (mode) {
+			case "since_last":
+				return entry.output.sinceLastRead(lines)
+			case "grep":
+				return { lines: entry.output.grep(regex!, lines), omitted: 0 }
+			default:
+				return { lines: entry.output.tail(lines), omitted: 0 }
+		}
+	}
+
+	/**
+	 * Interrupts a process and closes its terminal
+	 */
+	async stop(entry: BackgroundProcess) {
+		entry.isStopping = true
+
+		if (entry.status === "running") {
+			if (entry.terminal) {
+				entry.terminal.terminal.sendText("\x03", false)
+			} else if ("kill" in entry.process) {
+				entry.process.kill("SIGINT")
+			}
+
+			await pWaitFor(() => entry.status !== "running", { interval: 100, timeout: STOP_TIMEOUT_MS }).catch(
+				() => {},
+			)
+		}
+
+		this.collect(entry)
+		this.closeTerminal(entry)
+		this.end(entry, "stopped")
+	}
+
+	/**
+	 * Closes the terminals of all processes, called when the task is aborted
+	 */
+	dispose() {
+		for (const entry of this.processes.values()) {
+			entry.isStopping = true
+			this.closeTerminal(entry)
+			this.end(entry, "stopped")
+		}
+	}
+
+	/**
+	 * Moves output that wasn't emitted yet to the buffer. Processes only emit
+	 * their output when more output arrives, so the last lines would otherwise
+	 * wait for the next ones.
+	 */
+	private collect(entry: BackgroundProcess) {
+		if (entry.status === "running") {
+			entry.output.append(entry.process.getUnretrievedOutput())
+		}
+	}
+
+	/**
+	 * Marks a process as stopped if the user closed its terminal
+	 */
+	private refresh(entry: BackgroundProcess) {
+		if (entry.status === "running" && entry.terminal && entry.terminal.terminal.exitStatus !== undefined) {
+			this.end(entry, "stopped")
+		}
+	}
+
+	private end(entry: BackgroundProcess, status: BackgroundProcessStatus) {
+		if (entry.status !== "running") {
+			return
+		}
+
+		entry.output.flush()
+		entry.status = status
+		entry.endedAt = Date.now()
+		this.onDidChange?.()
+	}
+
+	/**
+	 * Closes the terminal of a process, or kills its sandbox
+	 */
+	private closeTerminal(entry: BackgroundProcess) {
+		if (entry.terminal) {
+			entry.terminal.terminal.dispose()
+			TerminalRegistry.removeTerminal(entry.terminal.id)
+		} else if ("kill" in entry.process) {
+			entry.process.kill("SIGKILL")
+		}
+	}
+}
@@ -0,0 +1,194 @@
+import { ChildProcess, spawn } from "child_process"
+import { EventEmitter } from "events"
+import os from "os"
+import stripAnsi from "strip-ansi"
+
+import { ExitCodeDetails, TerminalProcess, TerminalProcessEvents, mergePromise } from "./TerminalProcess"
+import { SandboxConfig, SandboxInvocation, getContainerStopInvocation, getSandboxInvocation } from "./sandbox"
+
+// How long to wait after a process outputs anything before it is considered
+// cool again, like a process in a terminal.
+const PROCESS_HOT_TIMEOUT = 2_000
+
+// Output is emitted at most this often while the command is running.
+const EMIT_INTERVAL_MS = 100
+
+/**
+ * Runs a command in a sandbox rather than in a terminal. It emits the same
+ * events as a `TerminalProcess`, so that its output is handled the same way,
+ * but reads the output from the pipes of the sandbox instead of relying on
+ * shell integration.
+ */
+export class SandboxProcess extends EventEmitter<TerminalProcessEvents> {
+	private isListening = true
+	private hasExited = false
+	private lastEmitTime_ms = 0
+	private fullOutput = ""
+	private lastRetrievedIndex = 0
+	private hotTimer: NodeJS.Timeout | null = null
+	private child?: ChildProcess
+	private invocation?: SandboxInvocation
+	isHot = false
+	command = ""
+
+	run(command: string, invocation: SandboxInvocation) {
+		const { file, args } = invocation
+		this.command = command
+		this.invocation = invocation
+		this.isHot = true
+
+		const child = spawn(file, args, { stdio: ["ignore", "pipe", "pipe"] })
+		this.child = child
+
+		// Decoding the streams keeps characters split across chunks intact.
+		for (const stream of [child.stdout, child.stderr]) {
+			stream?.setEncoding("utf8")
+			stream?.on("data", (data: string) => this.append(data))
+		}
+
+		child.once("error", (error: NodeJS.ErrnoException) => {
+			this.exit()
+			this.emit(
+				"error",
+				new Error(
+					error.code === "ENOENT"
+						? `Could not run the command in a sandbox, \`${file}\` was not found. Install it or turn off the sandbox for this mode.`
+						: `Could not run the command in a sandbox: ${error.message}`,
+				),
+			)
+		})
+
+		child.once("close", (code: number | null, signal: NodeJS.Signals | null) => {
+			if (this.hasExited) {
+				return
+			}
+
+			this.exit()
+			this.emitRemainingBufferIfListening()
+
+			// Like shells, a command killed by a signal exits with 128 plus the
+			// number of the signal.
+			const exitCode = signal ? 128 + os.constants.signals[signal] : (code ?? undefined)
+			const exitDetails: ExitCodeDetails = TerminalProcess.interpretExitCode(exitCode)
+
+			this.emit("shell_execution_complete", exitDetails)
+			this.emit("completed", stripAnsi(this.fullOutput))
+			this.emit("continue")
+		})
+	}
+
+	continue() {
+		this.emitRemainingBufferIfListening()
+		this.isListening = false
+		this.removeAllListeners("line")
+		this.emit("continue")
+	}
+
+	/**
+	 * Stops the command. Bubblewrap passes the signal on to it, containers are
+	 * signalled by name.
+	 */
+	kill(signal: NodeJS.Signals = "SIGTERM") {
+		if (this.hasExited) {
+			return
+		}
+
+		const { file, containerName } = this.invocation ?? {}
+
+		if (!file || !containerName) {
+			this.child?.kill(signal)
+			return
+		}
+
+		const stop = getContainerStopInvocation({ file, containerName }, signal)
+		spawn(stop.file, stop.args, { stdio: "ignore" }).on("error", (error) =>
+			console.error(`[SandboxProcess] failed to stop container ${containerName}:`, error),
+		)
+
+		// Killing the client as well keeps a container that isn't created yet,
+		// e.g. while its image is pulled, from starting.
+		if (signal === "SIGKILL") {
+			this.child?.kill(signal)
+		}
+	}
+
+	hasUnretrievedOutput(): boolean {
+		return this.lastRetrievedIndex < this.fullOutput.length
+	}
+
+	/**
+	 * Returns the complete lines that weren't retrieved yet, or all remaining
+	 * output once the command exited
+	 */
+	getUnretrievedOutput(): string {
+		const output = this.fullOutput.slice(this.lastRetrievedIndex)
+		const endIndex = this.hasExited ? output.length : output.lastIndexOf("\n") + 1
+
+		this.lastRetrievedIndex += endIndex
+		return stripAnsi(output.slice(0, endIndex))
+	}
+
+	private append(data: string) {
+		this.fullOutput += data
+
+		const now = Date.now()
+
+		if (this.isListening && now - this.lastEmitTime_ms > EMIT_INTERVAL_MS) {
+			this.emitRemainingBufferIfListening()
+			this.lastEmitTime_ms = now
+		}
+
+		this.isHot = true
+
+		if (this.hotTimer) {
+			clearTimeout(this.hotTimer)
+		}
+
+		this.hotTimer = setTimeout(() => {
+			this.isHot = false
+		}, PROCESS_HOT_TIMEOUT)
+	}
+
+	private exit() {
+		this.hasExited = true
+		this.isHot = false
+
+		if (this.hotTimer) {
+			clearTimeout(this.hotTimer)
+			this.hotTimer = null
+		}
+	}
+
+	private emitRemainingBufferIfListening() {
+		if (this.isListening) {
+			const remainingBuffer = this.getUnretrievedOutput()
+
+			if (remainingBuffer !== "") {
+				this.emit("line", remainingBuffer)
+			}
+		}
+	}
+}
+
+export type SandboxProcessResultPromise = SandboxProcess & Promise<void>
+
+/**
+ * Runs a command in a sandbox with the workspace folders writable. The
+ * returned process settles like the processes of terminals: once the command
+ * exits or the user continues while it is running.
+ */
+export function runInSandbox(
+	command: string,
+	options: { cwd: string; workspacePaths: string[]; config: SandboxConfig },
+): SandboxProcessResultPromise {
+	const process = new SandboxProcess()
+
+	const promise = new Promise<void>((resolve, reject) => {
+		process.once("continue", () => resolve())
+		process.once("error", (error) => reject(error))
+	})
+
+	process.run(command, getSandboxInvocation(command, options))
+
+	return mergePromise(process, promise)
+}
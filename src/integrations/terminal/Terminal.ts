@@ -23,6 +23,8 @@ export class Terminal {
 	private streamClosed: boolean
 	public process?: TerminalProcess
 	public taskId?: string
+	// Terminals of background processes are only used by their process.
+	public managed: boolean = false
 	public cmdCounter: number = 0
 	public completedProcesses: TerminalProcess[] = []
 	private initialCwd: string
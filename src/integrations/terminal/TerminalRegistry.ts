@@ -122,7 +122,7 @@ export class TerminalRegistry {
 		}
 	}
 
-	static createTerminal(cwd: string | vscode.Uri): Terminal {
+	static createTerminal(cwd: string | vscode.Uri, name: string = "Roo Code"): Terminal {
 		const env: Record<string, string> = {
 			PAGER: "cat",
 
@@ -162,7 +162,7 @@ export class TerminalRegistry {
 
 		const terminal = vscode.window.createTerminal({
 			cwd,
-			name: "Roo Code",
+			name,
 			iconPath: new vscode.ThemeIcon("rocket"),
 			env,
 		})
@@ -265,6 +265,10 @@ export class TerminalRegistry {
 	 */
 	static getTerminals(busy: boolean, taskId?: string): Terminal[] {
 		return this.getAllTerminals().filter((t) => {
+			if (t.managed) {
+				return false
+			}
+
 			// Filter by busy state
 			if (t.busy !== busy) {
 				return false
@@ -292,7 +296,7 @@ export class TerminalRegistry {
 	static getBackgroundTerminals(busy?: boolean): Terminal[] {
 		return this.getAllTerminals().filter((t) => {
 			// Only get background terminals (taskId undefined)
-			if (t.taskId !== undefined) {
+			if (t.taskId !== undefined || t.managed) {
 				return false
 			}
 
@@ -479,7 +483,7 @@ unset ROO_ZDOTDIR
 	 * @returns A Terminal instance
 	 */
 	static async getOrCreateTerminal(cwd: string, requiredCwd: boolean = false, taskId?: string): Promise<Terminal> {
-		const terminals = this.getAllTerminals()
+		const terminals = this.getAllTerminals().filter((t) => !t.managed)
 		let terminal: Terminal | undefined
 
 		// First priority: Find a terminal already assigned to this task with matching directory
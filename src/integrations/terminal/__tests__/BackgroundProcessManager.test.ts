@@ -0,0 +1,86 @@
+// npx jest src/integrations/terminal/__tests__/BackgroundProcessManager.test.ts
+
+import { ProcessOutputBuffer, formatProcessStatus } from "../BackgroundProcessManager"
+
+const texts = (lines: { text: string }[]) => lines.map(({ text }) => text)
+
+describe("ProcessOutputBuffer", () => {
+	it("splits chunks into lines", () => {
+		const buffer = new ProcessOutputBuffer()
+		buffer.append("compiling...\r\nready on")
+		buffer.append(" http://localhost:3000\n")
+
+		expect(texts(buffer.tail(10))).toEqual(["compiling...", "ready on http://localhost:3000"])
+	})
+
+	it("keeps the last version of lines redrawn with carriage returns", () => {
+		const buffer = new ProcessOutputBuffer()
+		buffer.append("downloading 10%\rdownloading 50%\rdownloading 100%\n")
+
+		expect(texts(buffer.tail(10))).toEqual(["downloading 100%"])
+	})
+
+	it("adds the last line when flushed", () => {
+		const buffer = new ProcessOutputBuffer()
+		buffer.append("done\nexit")
+		expect(buffer.totalLines).toBe(1)
+
+		buffer.flush()
+		expect(texts(buffer.tail(1))).toEqual(["exit"])
+	})
+
+	it("returns the lines printed since the last read", () => {
+		const buffer = new ProcessOutputBuffer()
+		buffer.append("a\nb\n")
+		expect(texts(buffer.sinceLastRead(10).lines)).toEqual(["a", "b"])
+
+		buffer.append("c\nd\ne\n")
+		expect(buffer.unreadLines).toBe(3)
+		expect(buffer.sinceLastRead(2)).toEqual({
+			lines: [
+				{ number: 4, text: "d" },
+				{ number: 5, text: "e" },
+			],
+			omitted: 1,
+		})
+		expect(buffer.unreadLines).toBe(0)
+		expect(buffer.sinceLastRead(10).lines).toEqual([])
+	})
+
+	it("greps the last matching lines with their line numbers", () => {
+		const buffer = new ProcessOutputBuffer()
+		buffer.append("ERROR one\nok\nERROR two\nERROR three\n")
+
+		expect(buffer.grep(/error/i, 2)).toEqual([
+			{ number: 3, text: "ERROR two" },
+			{ number: 4, text: "ERROR three" },
+		])
+	})
+
+	it("drops the oldest lines but keeps counting them", () => {
+		const buffer = new ProcessOutputBuffer(3)
+		buffer.append("1\n2\n3\n4\n5\n")
+
+		expect(buffer.totalLines).toBe(5)
+		expect(buffer.tail(10)).toEqual([
+			{ number: 3, text: "3" },
+			{ number: 4, text: "4" },
+			{ number: 5, text: "5" },
+		])
+		expect(buffer.unreadLines).toBe(3)
+	})
+})
+
+describe("formatProcessStatus", () => {
+	const startedAt = Date.UTC(2025, 0, 1)
+
+	it("describes running processes with their uptime", () => {
+		expect(formatProcessStatus({ status: "running", startedAt }, startedAt + 42_000)).toBe("running for 42s")
+		expect(formatProcessStatus({ status: "running", startedAt }, startedAt + 125_000)).toBe("running for 2m 5s")
+	})
+
+	it("describes processes that ended", () => {
+		expect(formatProcessStatus({ status: "exited", exitCode: 1, startedAt })).toBe("exited with code 1")
+		expect(formatProcessStatus({ status: "stopped", startedAt })).toBe("stopped")
+	})
+})
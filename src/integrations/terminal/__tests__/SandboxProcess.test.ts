@@ -0,0 +1,109 @@
+// npx jest src/integrations/terminal/__tests__/SandboxProcess.test.ts
+
+import fs from "fs/promises"
+import os from "os"
+import * as path from "path"
+
+import { ExitCodeDetails } from "../TerminalProcess"
+import { SandboxProcess } from "../SandboxProcess"
+
+// The sandbox programs are replaced by `sh` so that the tests run anywhere.
+const run = (script: string) => {
+	const process = new SandboxProcess()
+	const lines: string[] = []
+	const events: string[] = []
+
+	process.on("line", (line) => lines.push(line))
+
+	const done = new Promise<{ output?: string; exitDetails?: ExitCodeDetails }>((resolve, reject) => {
+		let exitDetails: ExitCodeDetails | undefined
+
+		process.once("shell_execution_complete", (details) => {
+			events.push("shell_execution_complete")
+			exitDetails = details
+		})
+		process.once("completed", (output) => {
+			events.push("completed")
+			resolve({ output, exitDetails })
+		})
+		process.once("error", reject)
+	})
+
+	process.run(script, { file: "sh", args: ["-c", script] })
+
+	return { process, lines, events, done }
+}
+
+describe("SandboxProcess", () => {
+	it("emits the output and the exit code of the command", async () => {
+		const { lines, events, done } = run("echo hello; sleep 0.1; echo oops >&2; sleep 0.1; printf done; exit 3")
+		const { output, exitDetails } = await done
+
+		expect(lines.join("")).toBe("hello\noops\ndone")
+		expect(output).toBe("hello\noops\ndone")
+		expect(exitDetails).toEqual({ exitCode: 3 })
+		expect(events).toEqual(["shell_execution_complete", "completed"])
+	})
+
+	it("reports commands killed by a signal", async () => {
+		const { process, done } = run("echo started; exec sleep 10")
+
+		// Waits until the shell runs the command, so that the signal reaches `sleep`.
+		await new Promise((resolve) => process.once("line", resolve))
+		process.kill("SIGTERM")
+
+		const { exitDetails } = await done
+		expect(exitDetails).toMatchObject({ exitCode: 143, signal: 15, signalName: "SIGTERM" })
+	})
+
+	it("only returns complete lines while the command runs", async () => {
+		const { process, done } = run("printf 'a\\nb'; sleep 0.3; printf 'c\\n'")
+		process.continue()
+
+		await new Promise((resolve) => setTimeout(resolve, 150))
+		expect(process.getUnretrievedOutput()).toBe("a\n")
+
+		await done
+		expect(process.getUnretrievedOutput()).toBe("bc\n")
+		expect(process.hasUnretrievedOutput()).toBe(false)
+	})
+
+	it("fails with a helpful error if the sandbox is not installed", async () => {
+		const process = new SandboxProcess()
+		const error = new Promise<Error>((resolve) => process.once("error", resolve))
+
+		process.run("ls", { file: "roo-missing-sandbox", args: [] })
+
+		expect((await error).message).toContain("`roo-missing-sandbox` was not found")
+	})
+
+	it("stops containers through the container runtime", async () => {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-sandbox-"))
+		const runtime = path.join(dir, "runtime")
+		const log = path.join(dir, "log")
+
+		// Records how it was called, and runs the command until it is killed.
+		await fs.writeFile(runtime, `#!/bin/sh\necho "$@" >> ${log}\n[ "$1" = run ] && exec sleep 10\n`, {
+			mode: 0o755,
+		})
+
+		try {
+			const process = new SandboxProcess()
+			const completed = new Promise((resolve) => process.once("completed", resolve))
+
+			process.run("sleep 10", {
+				file: runtime,
+				args: ["run", "--name", "roo-code-test"],
+				containerName: "roo-code-test",
+			})
+			await new Promise((resolve) => setTimeout(resolve, 100))
+			process.kill("SIGKILL")
+			await completed
+			await new Promise((resolve) => setTimeout(resolve, 100))
+
+			expect((await fs.readFile(log, "utf8")).split("\n")).toContain("rm --force roo-code-test")
+		} finally {
+			await fs.rm(dir, { recursive: true, force: true })
+		}
+	})
+})
@@ -0,0 +1,128 @@
+// npx jest src/integrations/terminal/__tests__/sandbox.test.ts
+
+import os from "os"
+import * as path from "path"
+
+import {
+	SandboxConfig,
+	describeSandbox,
+	getContainerStopInvocation,
+	getSandboxInvocation,
+	resolveSandboxPath,
+} from "../sandbox"
+
+const config = (overrides: Partial<SandboxConfig> = {}): SandboxConfig => ({
+	backend: "bwrap",
+	network: false,
+	writablePaths: [],
+	image: "node:lts",
+	...overrides,
+})
+
+describe("resolveSandboxPath", () => {
+	it("expands the home directory", () => {
+		expect(resolveSandboxPath("~/.npm", "/home/user")).toBe(path.join("/home/user", ".npm"))
+		expect(resolveSandboxPath("~", "/home/user")).toBe(path.join("/home/user"))
+	})
+
+	it("resolves other paths", () => {
+		expect(resolveSandboxPath(" /var/cache ")).toBe(path.resolve("/var/cache"))
+	})
+})
+
+describe("getSandboxInvocation", () => {
+	const options = { cwd: "/work/app", workspacePaths: ["/work/app", "/work/lib"] }
+
+	it("runs bwrap with the workspace writable and the network disabled", () => {
+		const { file, args } = getSandboxInvocation("npm test", { ...options, config: config() })
+
+		expect(file).toBe("bwrap")
+		expect(args.slice(0, 3)).toEqual(["--ro-bind", "/", "/"])
+		expect(args.join(" ")).toContain("--bind /work/app /work/app --bind /work/lib /work/lib")
+		expect(args).toContain("--unshare-net")
+		expect(args.slice(-6)).toEqual(["--chdir", "/work/app", "--", "/bin/sh", "-c", "npm test"])
+	})
+
+	it("binds the writable paths if they exist", () => {
+		const { args } = getSandboxInvocation("npm test", {
+			...options,
+			config: config({ writablePaths: ["/var/cache", " ", "/work/app"], network: true }),
+		})
+
+		expect(args.join(" ")).toContain("--bind-try /var/cache /var/cache")
+		expect(args.filter((arg) => arg === "/work/app")).toHaveLength(3)
+		expect(args).not.toContain("--unshare-net")
+	})
+
+	it("runs containers with the workspace mounted at the same paths", () => {
+		const { file, args, containerName } = getSandboxInvocation("npm test", {
+			...options,
+			config: config({ backend: "podman", writablePaths: ["~/.npm"] }),
+			containerName: "roo-code-test",
+		})
+
+		expect(file).toBe("podman")
+		expect(containerName).toBe("roo-code-test")
+		expect(args).toEqual([
+			"run",
+			"--rm",
+			"--init",
+			"--name",
+			"roo-code-test",
+			"--network",
+			"none",
+			"--volume",
+			"/work/app:/work/app",
+			"--volume",
+			"/work/lib:/work/lib",
+			"--volume",
+			`${path.join(os.homedir(), ".npm")}:${path.join(os.homedir(), ".npm")}`,
+			"--workdir",
+			"/work/app",
+			"node:lts",
+			"sh",
+			"-c",
+			"npm test",
+		])
+	})
+
+	it("names containers uniquely", () => {
+		const first = getSandboxInvocation("npm test", { ...options, config: config({ backend: "docker" }) })
+		const second = getSandboxInvocation("npm test", { ...options, config: config({ backend: "docker" }) })
+
+		expect(first.containerName).toMatch(/^roo-code-/)
+		expect(first.args).toContain(first.containerName)
+		expect(first.containerName).not.toBe(second.containerName)
+		expect(getSandboxInvocation("npm test", { ...options, config: config() }).containerName).toBeUndefined()
+	})
+
+	it("runs docker containers as the user", () => {
+		const { args } = getSandboxInvocation("npm test", { ...options, config: config({ backend: "docker" }) })
+
+		if (process.platform !== "win32") {
+			expect(args).toContain(`${os.userInfo().uid}:${os.userInfo().gid}`)
+		}
+	})
+})
+
+describe("getContainerStopInvocation", () => {
+	it("removes containers that are killed and signals them otherwise", () => {
+		expect(getContainerStopInvocation({ file: "docker", containerName: "roo-code-test" }, "SIGKILL")).toEqual({
+			file: "docker",
+			args: ["rm", "--force", "roo-code-test"],
+		})
+		expect(getContainerStopInvocation({ file: "podman", containerName: "roo-code-test" }, "SIGINT")).toEqual({
+			file: "podman",
+			args: ["kill", "--signal", "SIGINT", "roo-code-test"],
+		})
+	})
+})
+
+describe("describeSandbox", () => {
+	it("names the sandbox and whether the network is enabled", () => {
+		expect(describeSandbox(config())).toBe("bwrap sandbox with the network disabled")
+		expect(describeSandbox(config({ backend: "docker", image: "python:3", network: true }))).toBe(
+			"docker container (python:3) with the network enabled",
+		)
+	})
+})
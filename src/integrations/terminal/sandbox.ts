@@ -0,0 +1,146 @@
+import crypto from "crypto"
+import os from "os"
+import * as path from "path"
+
+import { CommandSandbox } from "../../schemas"
+
+export type SandboxBackend = Exclude<CommandSandbox, "none">
+
+export type SandboxConfig = {
+	backend: SandboxBackend
+	// Whether commands can reach the network.
+	network: boolean
+	// Paths outside the workspace that commands can write to.
+	writablePaths: string[]
+	// Image of the container, only used by container runtimes.
+	image: string
+}
+
+export type SandboxInvocation = {
+	file: string
+	args: string[]
+	// Name of the container, which is how it is stopped.
+	containerName?: string
+}
+
+/**
+ * Resolves a configured writable path, which may start with `~`
+ */
+export function resolveSandboxPath(value: string, home = os.homedir()): string {
+	const trimmed = value.trim()
+
+	if (trimmed === "~" || trimmed.startsWith("~/")) {
+		return path.join(home, trimmed.slice(1))
+	}
+
+	return path.resolve(trimmed)
+}
+
+/**
+ * Returns the program and arguments that run a command in a sandbox.
+ *
+ * Bubblewrap shows the whole file system read-only and only the workspace
+ * folders and the writable paths can be written to. Containers only see the
+ * workspace folders and the writable paths, mounted at the same paths as on
+ * the host so that the paths in the output of commands are the same.
+ */
+export function getSandboxInvocation(
+	command: string,
+	{
+		cwd,
+		workspacePaths,
+		config,
+		containerName = `roo-code-${crypto.randomUUID()}`,
+	}: { cwd: string; workspacePaths: string[]; config: SandboxConfig; containerName?: string },
+): SandboxInvocation {
+	const writablePaths = [
+		...new Set([
+			...workspacePaths,
+			...config.writablePaths.filter((p) => p.trim()).map((p) => resolveSandboxPath(p)),
+		]),
+	]
+
+	if (config.backend === "bwrap") {
+		return {
+			file: "bwrap",
+			args: [
+				"--ro-bind",
+				"/",
+				"/",
+				"--dev",
+				"/dev",
+				"--proc",
+				"/proc",
+				"--tmpfs",
+				"/tmp",
+				// Writable paths that don't exist are skipped rather than failing.
+				...writablePaths.flatMap((p) => [workspacePaths.includes(p) ? "--bind" : "--bind-try", p, p]),
+				...(config.network ? [] : ["--unshare-net"]),
+				"--unshare-pid",
+				"--die-with-parent",
+				// Keeps commands from injecting input into the terminal of VS Code.
+				"--new-session",
+				"--chdir",
+				cwd,
+				"--",
+				"/bin/sh",
+				"-c",
+				command,
+			],
+		}
+	}
+
+	// Docker runs containers as root unless told otherwise, which would leave
+	// files in the workspace that the user can't change. Rootless Podman maps
+	// its root to the user already.
+	const user =
+		config.backend === "docker" && process.platform !== "win32"
+			? ["--user", `${os.userInfo().uid}:${os.userInfo().gid}`]
+			: []
+
+	return {
+		file: config.backend,
+		containerName,
+		args: [
+			"run",
+			"--rm",
+			"--init",
+			"--name",
+			containerName,
+			...(config.network ? [] : ["--network", "none"]),
+			...user,
+			...writablePaths.flatMap((p) => ["--volume", `${p}:${p}`]),
+			"--workdir",
+			cwd,
+			config.image,
+			"sh",
+			"-c",
+			command,
+		],
+	}
+}
+
+/**
+ * Returns the program and arguments that stop a container. Signals sent to
+ * the client of the container runtime are passed on to the container, except
+ * for `SIGKILL`, which would leave the container running, so containers are
+ * stopped through the runtime instead.
+ */
+export function getContainerStopInvocation(
+	{ file, containerName }: Required<Pick<SandboxInvocation, "file" | "containerName">>,
+	signal: NodeJS.Signals,
+): SandboxInvocation {
+	return {
+		file,
+		args: signal === "SIGKILL" ? ["rm", "--force", containerName] : ["kill", "--signal", signal, containerName],
+	}
+}
+
+/**
+ * Describes a sandbox for the results of commands, e.g. `bwrap sandbox with
+ * the network disabled`
+ */
+export function describeSandbox({ backend, network, image }: SandboxConfig): string {
+	const sandbox = backend === "bwrap" ? "bwrap sandbox" : `${backend} container (${image})`
+	return `${sandbox} with the network ${network ? "enabled" : "disabled"}`
+}
@@ -2,8 +2,7 @@ import * as vscode from "vscode"
 import * as path from "path"
 import { listFiles } from "../../services/glob/list-files"
 import { ClineProvider } from "../../core/webview/ClineProvider"
-import { toRelativePath } from "../../utils/path"
-import { getWorkspacePath } from "../../utils/path"
+import { getOtherWorkspaceRoots, getWorkspacePath, toWorkspaceRelativePath } from "../../utils/path"
 import { logger } from "../../utils/logging"
 
 const MAX_INITIAL_FILES = 1_000
@@ -31,11 +30,14 @@ class WorkspaceTracker {
 			return
 		}
 		const tempCwd = this.cwd
-		const [files, _] = await listFiles(tempCwd, true, MAX_INITIAL_FILES)
-		if (this.prevWorkSpacePath !== tempCwd) {
-			return
+		// The files of the other roots of a multi-root workspace can be mentioned too
+		for (const rootPath of [tempCwd, ...getOtherWorkspaceRoots(tempCwd).map((root) => root.path)]) {
+			const [files, _] = await listFiles(rootPath, true, MAX_INITIAL_FILES)
+			if (this.prevWorkSpacePath !== tempCwd) {
+				return
+			}
+			files.slice(0, MAX_INITIAL_FILES).forEach((file) => this.filePaths.add(this.normalizeFilePath(file)))
 		}
-		files.slice(0, MAX_INITIAL_FILES).forEach((file) => this.filePaths.add(this.normalizeFilePath(file)))
 		this.workspaceDidUpdate()
 	}
 
@@ -44,14 +46,26 @@ class WorkspaceTracker {
 		this.prevWorkSpacePath = this.cwd
 		this.disposables.push(
 			watcher.onDidCreate(async (uri) => {
+				this.providerRef.deref()?.codeIndexManager?.scheduleUpdate(uri.fsPath)
+				this.providerRef.deref()?.repoMapManager?.recordChange(uri.fsPath)
 				await this.addFilePath(uri.fsPath)
 				this.workspaceDidUpdate()
 			}),
 		)
 
+		// Keep the codebase index and the repository map in sync with edited files
+		this.disposables.push(
+			watcher.onDidChange((uri) => {
+				this.providerRef.deref()?.codeIndexManager?.scheduleUpdate(uri.fsPath)
+				this.providerRef.deref()?.repoMapManager?.recordChange(uri.fsPath)
+			}),
+		)
+
 		// Renaming files triggers a delete and create event
 		this.disposables.push(
 			watcher.onDidDelete(async (uri) => {
+				this.providerRef.deref()?.codeIndexManager?.scheduleRemoval(uri.fsPath)
+				this.providerRef.deref()?.repoMapManager?.recordChange(uri.fsPath)
 				if (await this.removeFilePath(uri.fsPath)) {
 					this.workspaceDidUpdate()
 				}
@@ -82,7 +96,7 @@ class WorkspaceTracker {
 					.map((tab) => ({
 						label: tab.label,
 						isActive: tab.isActive,
-						path: toRelativePath((tab.input as vscode.TabInputText).uri.fsPath, this.cwd || ""),
+						path: toWorkspaceRelativePath((tab.input as vscode.TabInputText).uri.fsPath, this.cwd || ""),
 					}))
 
 				groupTabs.forEach((tab) => (tab.isActive ? acc.unshift(tab) : acc.push(tab)))
@@ -106,6 +120,7 @@ class WorkspaceTracker {
 				this.filePaths.clear()
 				this.prevWorkSpacePath = this.cwd
 				this.initializeFilePaths()
+				this.providerRef.deref()?.updateCodeIndexConfiguration()
 			}
 		}, 300) // Debounce for 300ms
 	}
@@ -119,7 +134,7 @@ class WorkspaceTracker {
 				return
 			}
 
-			const relativeFilePaths = Array.from(this.filePaths).map((file) => toRelativePath(file, this.cwd))
+			const relativeFilePaths = Array.from(this.filePaths).map((file) => toWorkspaceRelativePath(file, this.cwd))
 			this.providerRef.deref()?.postMessageToWebview({
 				type: "workspaceUpdated",
 				filePaths: relativeFilePaths,
@@ -6,28 +6,31 @@ import { getWorkspacePath } from "../../../utils/path"
 
 // Mock functions - must be defined before jest.mock calls
 const mockOnDidCreate = jest.fn()
+const mockOnDidChange = jest.fn()
 const mockOnDidDelete = jest.fn()
 const mockDispose = jest.fn()
 
 // Store registered tab change callback
 let registeredTabChangeCallback: (() => Promise<void>) | null = null
 
+// The other roots of a multi-root workspace
+let mockOtherRoots: { name: string; path: string }[] = []
+
 // Mock workspace path
 jest.mock("../../../utils/path", () => ({
 	getWorkspacePath: jest.fn().mockReturnValue("/test/workspace"),
-	toRelativePath: jest.fn((path, cwd) => {
-		// Handle both Windows and POSIX paths by using path.relative
-		const relativePath = require("path").relative(cwd, path)
-		// Convert to forward slashes for consistency
-		let normalizedPath = relativePath.replace(/\\/g, "/")
-		// Add trailing slash if original path had one
-		return path.endsWith("/") ? normalizedPath + "/" : normalizedPath
-	}),
+	getOtherWorkspaceRoots: jest.fn(() => mockOtherRoots),
+	toWorkspaceRelativePath: jest.fn((filePath, cwd) =>
+		jest
+			.requireActual("../../../utils/path")
+			.toWorkspaceRelativePath(filePath, cwd, [{ name: "test", path: cwd }, ...mockOtherRoots]),
+	),
 }))
 
 // Mock watcher - must be defined after mockDispose but before jest.mock("vscode")
 const mockWatcher = {
 	onDidCreate: mockOnDidCreate.mockReturnValue({ dispose: mockDispose }),
+	onDidChange: mockOnDidChange.mockReturnValue({ dispose: mockDispose }),
 	onDidDelete: mockOnDidDelete.mockReturnValue({ dispose: mockDispose }),
 	dispose: mockDispose,
 }
@@ -72,6 +75,7 @@ describe("WorkspaceTracker", () => {
 
 		// Reset all mock implementations
 		registeredTabChangeCallback = null
+		mockOtherRoots = []
 
 		// Reset workspace path mock
 		;(getWorkspacePath as jest.Mock).mockReturnValue("/test/workspace")
@@ -79,6 +83,7 @@ describe("WorkspaceTracker", () => {
 		// Create provider mock
 		mockProvider = {
 			postMessageToWebview: jest.fn().mockResolvedValue(undefined),
+			updateCodeIndexConfiguration: jest.fn().mockResolvedValue(undefined),
 		} as unknown as ClineProvider & { postMessageToWebview: jest.Mock }
 
 		// Create tracker instance
@@ -103,6 +108,22 @@ describe("WorkspaceTracker", () => {
 		expect((mockProvider.postMessageToWebview as jest.Mock).mock.calls[0][0].filePaths).toHaveLength(2)
 	})
 
+	it("should initialize with the files of all workspace roots", async () => {
+		mockOtherRoots = [{ name: "backend", path: "/test/backend" }]
+		;(listFiles as jest.Mock).mockImplementation(async (dirPath: string) => [[`${dirPath}/index.ts`], false])
+
+		await workspaceTracker.initializeFilePaths()
+		jest.runAllTimers()
+
+		expect(listFiles).toHaveBeenCalledWith("/test/workspace", true, 1_000)
+		expect(listFiles).toHaveBeenCalledWith("/test/backend", true, 1_000)
+		expect(mockProvider.postMessageToWebview).toHaveBeenCalledWith({
+			type: "workspaceUpdated",
+			filePaths: ["index.ts", "backend:index.ts"],
+			openedTabs: [],
+		})
+	})
+
 	it("should handle file creation events", async () => {
 		// Get the creation callback and call it
 		const [[callback]] = mockOnDidCreate.mock.calls
@@ -135,6 +156,40 @@ describe("WorkspaceTracker", () => {
 		})
 	})
 
+	it("should forward file events to the codebase index", async () => {
+		const codeIndexManager = { scheduleUpdate: jest.fn(), scheduleRemoval: jest.fn() }
+		Object.assign(mockProvider, { codeIndexManager })
+
+		const [[createCallback]] = mockOnDidCreate.mock.calls
+		const [[changeCallback]] = mockOnDidChange.mock.calls
+		const [[deleteCallback]] = mockOnDidDelete.mock.calls
+		await createCallback({ fsPath: "/test/workspace/created.ts" })
+		changeCallback({ fsPath: "/test/workspace/changed.ts" })
+		await deleteCallback({ fsPath: "/test/workspace/deleted.ts" })
+
+		expect(codeIndexManager.scheduleUpdate).toHaveBeenCalledWith("/test/workspace/created.ts")
+		expect(codeIndexManager.scheduleUpdate).toHaveBeenCalledWith("/test/workspace/changed.ts")
+		expect(codeIndexManager.scheduleRemoval).toHaveBeenCalledWith("/test/workspace/deleted.ts")
+	})
+
+	it("should forward file events to the repository map", async () => {
+		const repoMapManager = { recordChange: jest.fn() }
+		Object.assign(mockProvider, { repoMapManager })
+
+		const [[createCallback]] = mockOnDidCreate.mock.calls
+		const [[changeCallback]] = mockOnDidChange.mock.calls
+		const [[deleteCallback]] = mockOnDidDelete.mock.calls
+		await createCallback({ fsPath: "/test/workspace/created.ts" })
+		changeCallback({ fsPath: "/test/workspace/changed.ts" })
+		await deleteCallback({ fsPath: "/test/workspace/deleted.ts" })
+
+		expect(repoMapManager.recordChange.mock.calls).toEqual([
+			["/test/workspace/created.ts"],
+			["/test/workspace/changed.ts"],
+			["/test/workspace/deleted.ts"],
+		])
+	})
+
 	it("should handle directory paths correctly", async () => {
 		// Mock stat to return directory type
 		;(vscode.workspace.fs.stat as jest.Mock).mockResolvedValueOnce({ type: 2 }) // FileType.Directory = 2
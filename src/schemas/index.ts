@@ -57,6 +57,45 @@ export type CheckpointStorage = z.infer<typeof checkpointStoragesSchema>
 export const isCheckpointStorage = (value: string): value is CheckpointStorage =>
 	checkpointStorages.includes(value as CheckpointStorage)
 
+/**
+ * ContextManagementStrategy
+ */
+
+export const contextManagementStrategies = ["truncate", "condense"] as const
+
+export const contextManagementStrategiesSchema = z.enum(contextManagementStrategies)
+
+export type ContextManagementStrategy = z.infer<typeof contextManagementStrategiesSchema>
+
+export const isContextManagementStrategy = (value: string): value is ContextManagementStrategy =>
+	contextManagementStrategies.includes(value as ContextManagementStrategy)
+
+/**
+ * DiagnosticsScope
+ */
+
+export const diagnosticsScopes = ["editedFiles", "workspace"] as const
+
+export const diagnosticsScopesSchema = z.enum(diagnosticsScopes)
+
+export type DiagnosticsScope = z.infer<typeof diagnosticsScopesSchema>
+
+export const isDiagnosticsScope = (value: string): value is DiagnosticsScope =>
+	diagnosticsScopes.includes(value as DiagnosticsScope)
+
+/**
+ * CommandSandbox
+ */
+
+export const commandSandboxes = ["none", "bwrap", "docker", "podman"] as const
+
+export const commandSandboxesSchema = z.enum(commandSandboxes)
+
+export type CommandSandbox = z.infer<typeof commandSandboxesSchema>
+
+export const isCommandSandbox = (value: string): value is CommandSandbox =>
+	commandSandboxes.includes(value as CommandSandbox)
+
 /**
  * Language
  */
@@ -105,6 +144,16 @@ export const reasoningEffortsSchema = z.enum(reasoningEfforts)
 
 export type ReasoningEffort = z.infer<typeof reasoningEffortsSchema>
 
+/**
+ * DiffStrategyName
+ */
+
+export const diffStrategyNames = ["multi-search-and-replace", "unified"] as const
+
+export const diffStrategyNamesSchema = z.enum(diffStrategyNames)
+
+export type DiffStrategyName = z.infer<typeof diffStrategyNamesSchema>
+
 /**
  * ModelInfo
  */
@@ -125,6 +174,7 @@ export const modelInfoSchema = z.object({
 	minTokensPerCachePoint: z.number().optional(),
 	maxCachePoints: z.number().optional(),
 	cachableFields: z.array(z.string()).optional(),
+	diffStrategy: diffStrategyNamesSchema.optional(),
 })
 
 export type ModelInfo = z.infer<typeof modelInfoSchema>
@@ -157,6 +207,7 @@ export const historyItemSchema = z.object({
 	totalCost: z.number(),
 	size: z.number().optional(),
 	workspace: z.string().optional(),
+	checkpointRemote: z.string().optional(),
 })
 
 export type HistoryItem = z.infer<typeof historyItemSchema>
@@ -227,6 +278,7 @@ export const modeConfigSchema = z.object({
 	customInstructions: z.string().optional(),
 	groups: groupEntryArraySchema,
 	source: z.enum(["global", "project"]).optional(),
+	diffStrategy: diffStrategyNamesSchema.optional(),
 })
 
 export type ModeConfig = z.infer<typeof modeConfigSchema>
@@ -284,11 +336,61 @@ export const customSupportPromptsSchema = z.record(z.string(), z.string().option
 
 export type CustomSupportPrompts = z.infer<typeof customSupportPromptsSchema>
 
+/**
+ * CommandPolicy
+ */
+
+export const commandRulesSchema = z.object({
+	allow: z.array(z.string()).optional(),
+	deny: z.array(z.string()).optional(),
+})
+
+export type CommandRules = z.infer<typeof commandRulesSchema>
+
+export const commandPolicySchema = commandRulesSchema.extend({
+	modes: z.record(z.string(), commandRulesSchema).optional(),
+})
+
+export type CommandPolicy = z.infer<typeof commandPolicySchema>
+
+/**
+ * VerificationConfig
+ */
+
+export const verificationConfigSchema = z.object({
+	commands: z.array(z.string().min(1)),
+	maxRetries: z.number().int().min(0).optional(),
+})
+
+export type VerificationConfig = z.infer<typeof verificationConfigSchema>
+
+/**
+ * BudgetLimits
+ */
+
+export const budgetLimitsSchema = z.object({
+	maxCost: z.number().optional(),
+	maxTokensIn: z.number().optional(),
+	maxRequests: z.number().optional(),
+})
+
+export type BudgetLimits = z.infer<typeof budgetLimitsSchema>
+
+// API usage of all tasks, bucketed by hour.
+export const budgetUsageSchema = z.object({
+	hour: z.number(),
+	cost: z.number(),
+	tokensIn: z.number(),
+	requests: z.number(),
+})
+
+export type BudgetUsage = z.infer<typeof budgetUsageSchema>
+
 /**
  * ExperimentId
  */
 
-export const experimentIds = ["search_and_replace", "insert_content", "powerSteering"] as const
+export const experimentIds = ["search_and_replace", "insert_content", "powerSteering", "nativeToolCalling"] as const
 
 export const experimentIdsSchema = z.enum(experimentIds)
 
@@ -302,6 +404,7 @@ const experimentsSchema = z.object({
 	search_and_replace: z.boolean(),
 	insert_content: z.boolean(),
 	powerSteering: z.boolean(),
+	nativeToolCalling: z.boolean(),
 })
 
 export type Experiments = z.infer<typeof experimentsSchema>
@@ -502,6 +605,10 @@ export const globalSettingsSchema = z.object({
 	currentApiConfigName: z.string().optional(),
 	listApiConfigMeta: z.array(apiConfigMetaSchema).optional(),
 	pinnedApiConfigs: z.record(z.string(), z.boolean()).optional(),
+	apiConfigFallbacks: z.record(z.string(), z.array(z.string())).optional(),
+	modeApiConfigFallbacks: z.record(z.string(), z.array(z.string())).optional(),
+	apiFailoverThreshold: z.number().optional(),
+	apiFailoverCooldownSeconds: z.number().optional(),
 
 	lastShownAnnouncementId: z.string().optional(),
 	customInstructions: z.string().optional(),
@@ -521,6 +628,11 @@ export const globalSettingsSchema = z.object({
 	alwaysAllowSubtasks: z.boolean().optional(),
 	alwaysAllowExecute: z.boolean().optional(),
 	allowedCommands: z.array(z.string()).optional(),
+	deniedCommands: z.array(z.string()).optional(),
+
+	taskBudget: budgetLimitsSchema.optional(),
+	dailyBudget: budgetLimitsSchema.optional(),
+	budgetUsage: z.array(budgetUsageSchema).optional(),
 
 	browserToolEnabled: z.boolean().optional(),
 	browserViewportSize: z.string().optional(),
@@ -541,6 +653,19 @@ export const globalSettingsSchema = z.object({
 	maxWorkspaceFiles: z.number().optional(),
 	showRooIgnoredFiles: z.boolean().optional(),
 	maxReadFileLine: z.number().optional(),
+	contextManagementStrategy: contextManagementStrategiesSchema.optional(),
+	condensingApiConfigId: z.string().optional(),
+	diagnosticsEnabled: z.boolean().optional(),
+	diagnosticsDelayMs: z.number().optional(),
+	diagnosticsIncludeWarnings: z.boolean().optional(),
+	diagnosticsScope: diagnosticsScopesSchema.optional(),
+	repoMapEnabled: z.boolean().optional(),
+	repoMapMaxTokens: z.number().optional(),
+	repoMapModes: z.array(z.string()).optional(),
+
+	codebaseIndexEnabled: z.boolean().optional(),
+	codebaseIndexEmbedderBaseUrl: z.string().optional(),
+	codebaseIndexEmbedderModelId: z.string().optional(),
 
 	terminalOutputLineLimit: z.number().optional(),
 	terminalShellIntegrationTimeout: z.number().optional(),
@@ -551,6 +676,11 @@ export const globalSettingsSchema = z.object({
 	terminalZshP10k: z.boolean().optional(),
 	terminalZdotdir: z.boolean().optional(),
 
+	modeCommandSandboxes: z.record(z.string(), commandSandboxesSchema).optional(),
+	commandSandboxNetworkEnabled: z.boolean().optional(),
+	commandSandboxWritablePaths: z.array(z.string()).optional(),
+	commandSandboxImage: z.string().optional(),
+
 	rateLimitSeconds: z.number().optional(),
 	diffEnabled: z.boolean().optional(),
 	fuzzyMatchThreshold: z.number().optional(),
@@ -579,6 +709,10 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	currentApiConfigName: undefined,
 	listApiConfigMeta: undefined,
 	pinnedApiConfigs: undefined,
+	apiConfigFallbacks: undefined,
+	modeApiConfigFallbacks: undefined,
+	apiFailoverThreshold: undefined,
+	apiFailoverCooldownSeconds: undefined,
 
 	lastShownAnnouncementId: undefined,
 	customInstructions: undefined,
@@ -598,6 +732,11 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	alwaysAllowSubtasks: undefined,
 	alwaysAllowExecute: undefined,
 	allowedCommands: undefined,
+	deniedCommands: undefined,
+
+	taskBudget: undefined,
+	dailyBudget: undefined,
+	budgetUsage: undefined,
 
 	browserToolEnabled: undefined,
 	browserViewportSize: undefined,
@@ -617,6 +756,19 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	maxWorkspaceFiles: undefined,
 	showRooIgnoredFiles: undefined,
 	maxReadFileLine: undefined,
+	contextManagementStrategy: undefined,
+	condensingApiConfigId: undefined,
+	diagnosticsEnabled: undefined,
+	diagnosticsDelayMs: undefined,
+	diagnosticsIncludeWarnings: undefined,
+	diagnosticsScope: undefined,
+	repoMapEnabled: undefined,
+	repoMapMaxTokens: undefined,
+	repoMapModes: undefined,
+
+	codebaseIndexEnabled: undefined,
+	codebaseIndexEmbedderBaseUrl: undefined,
+	codebaseIndexEmbedderModelId: undefined,
 
 	terminalOutputLineLimit: undefined,
 	terminalShellIntegrationTimeout: undefined,
@@ -627,6 +779,11 @@ const globalSettingsRecord: GlobalSettingsRecord = {
 	terminalZshP10k: undefined,
 	terminalZdotdir: undefined,
 
+	modeCommandSandboxes: undefined,
+	commandSandboxNetworkEnabled: undefined,
+	commandSandboxWritablePaths: undefined,
+	commandSandboxImage: undefined,
+
 	rateLimitSeconds: undefined,
 	diffEnabled: undefined,
 	fuzzyMatchThreshold: undefined,
@@ -729,6 +886,7 @@ export const clineAsks = [
 	"resume_task",
 	"resume_completed_task",
 	"mistake_limit_reached",
+	"budget_limit_reached",
 	"browser_action_launch",
 	"use_mcp_server",
 	"finishTask",
@@ -767,6 +925,9 @@ export const clineSays = [
 	"checkpoint_saved",
 	"rooignore_error",
 	"diff_error",
+	"condense_context",
+	"api_provider_switched",
+	"verification",
 ] as const
 
 export const clineSaySchema = z.enum(clineSays)
@@ -22,8 +22,13 @@ export enum TaskCommandName {
 	StartNewTask = "StartNewTask",
 	CancelTask = "CancelTask",
 	CloseTask = "CloseTask",
+	RespondToAsk = "RespondToAsk",
 }
 
+export const taskAskResponses = ["yesButtonClicked", "noButtonClicked", "messageResponse"] as const
+
+export type TaskAskResponse = (typeof taskAskResponses)[number]
+
 export const taskCommandSchema = z.discriminatedUnion("commandName", [
 	z.object({
 		commandName: z.literal(TaskCommandName.StartNewTask),
@@ -32,6 +37,7 @@ export const taskCommandSchema = z.discriminatedUnion("commandName", [
 			text: z.string(),
 			images: z.array(z.string()).optional(),
 			newTab: z.boolean().optional(),
+			restoreConfiguration: z.boolean().optional(),
 		}),
 	}),
 	z.object({
@@ -42,6 +48,14 @@ export const taskCommandSchema = z.discriminatedUnion("commandName", [
 		commandName: z.literal(TaskCommandName.CloseTask),
 		data: z.string(),
 	}),
+	z.object({
+		commandName: z.literal(TaskCommandName.RespondToAsk),
+		data: z.object({
+			taskId: z.string(),
+			response: z.enum(taskAskResponses),
+			text: z.string().optional(),
+		}),
+	}),
 ])
 
 export type TaskCommand = z.infer<typeof taskCommandSchema>
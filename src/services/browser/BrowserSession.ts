@@ -1,15 +1,37 @@
 import * as vscode from "vscode"
 import * as fs from "fs/promises"
 import * as path from "path"
-import { Browser, Page, ScreenshotOptions, TimeoutError, launch, connect } from "puppeteer-core"
+import {
+	Browser,
+	ElementHandle,
+	KeyInput,
+	Page,
+	ScreenshotOptions,
+	SerializedAXNode,
+	TimeoutError,
+	launch,
+	connect,
+} from "puppeteer-core"
 // @ts-ignore
 import PCR from "puppeteer-chromium-resolver"
 import pWaitFor from "p-wait-for"
 import delay from "delay"
 import axios from "axios"
-import { fileExistsAtPath } from "../../utils/fs"
+import { createDirectoriesForFile, fileExistsAtPath } from "../../utils/fs"
 import { BrowserActionResult } from "../../shared/ExtensionMessage"
 import { discoverChromeHostUrl, tryChromeHostUrl } from "./browserDiscovery"
+import { ELEMENT_REF_ATTRIBUTE, ELEMENT_REF_ROLES, formatAccessibilitySnapshot, resolveSelector } from "./elements"
+import { BrowserRecorder, ConsoleFilter, NetworkFilter, formatConsoleLog, formatNetworkLog, toHar } from "./recorder"
+
+// Elements are targeted either by the coordinates of a screenshot or by a
+// selector.
+export type ElementTarget = {
+	coordinate?: string
+	selector?: string
+}
+
+const ELEMENT_TIMEOUT_MS = 5_000
+const WAIT_FOR_TIMEOUT_MS = 10_000
 
 interface PCRStats {
 	puppeteer: { launch: typeof launch }
@@ -22,6 +44,9 @@ export class BrowserSession {
 	private page?: Page
 	private currentMousePosition?: string
 	private lastConnectionAttempt?: number
+	private nextElementRef = 1
+	private elementRefs = new Map<string, { role: string; name: string }>()
+	private recorder = new BrowserRecorder()
 
 	constructor(context: vscode.ExtensionContext) {
 		this.context = context
@@ -160,6 +185,9 @@ export class BrowserSession {
 	async launchBrowser(): Promise<void> {
 		console.log("launch browser called")
 
+		// Every browser session has its own recording.
+		this.recorder.clear()
+
 		// Check if remote browser connection is enabled
 		const remoteBrowserEnabled = this.context.globalState.get("remoteBrowserEnabled") as boolean | undefined
 
@@ -213,15 +241,23 @@ export class BrowserSession {
 		this.browser = undefined
 		this.page = undefined
 		this.currentMousePosition = undefined
+		this.nextElementRef = 1
+		this.elementRefs.clear()
 	}
 
-	async doAction(action: (page: Page) => Promise<void>): Promise<BrowserActionResult> {
+	private requirePage(): Page {
 		if (!this.page) {
 			throw new Error(
 				"Browser is not launched. This may occur if the browser was automatically closed by a non-`browser_action` tool.",
 			)
 		}
 
+		return this.page
+	}
+
+	async doAction(action: (page: Page) => Promise<void>): Promise<BrowserActionResult> {
+		const page = this.requirePage()
+
 		const logs: string[] = []
 		let lastLogTs = Date.now()
 
@@ -240,11 +276,11 @@ export class BrowserSession {
 		}
 
 		// Add the listeners
-		this.page.on("console", consoleListener)
-		this.page.on("pageerror", errorListener)
+		page.on("console", consoleListener)
+		page.on("pageerror", errorListener)
 
 		try {
-			await action(this.page)
+			await action(page)
 		} catch (err) {
 			if (!(err instanceof TimeoutError)) {
 				logs.push(`[Error] ${err.toString()}`)
@@ -268,7 +304,7 @@ export class BrowserSession {
 			// },
 		}
 
-		let screenshotBase64 = await this.page.screenshot({
+		let screenshotBase64 = await page.screenshot({
 			...options,
 			type: "webp",
 			quality: ((await this.context.globalState.get("screenshotQuality")) as number | undefined) ?? 75,
@@ -277,7 +313,7 @@ export class BrowserSession {
 
 		if (!screenshotBase64) {
 			console.log("webp screenshot failed, trying png")
-			screenshotBase64 = await this.page.screenshot({
+			screenshotBase64 = await page.screenshot({
 				...options,
 				type: "png",
 			})
@@ -289,13 +325,14 @@ export class BrowserSession {
 		}
 
 		// this.page.removeAllListeners() <- causes the page to crash!
-		this.page.off("console", consoleListener)
-		this.page.off("pageerror", errorListener)
+		page.off("console", consoleListener)
+		page.off("pageerror", errorListener)
 
 		return {
 			screenshot,
 			logs: logs.join("\n"),
-			currentUrl: this.page.url(),
+			currentUrl: page.url(),
+			currentTitle: await page.title().catch(() => undefined),
 			currentMousePosition: this.currentMousePosition,
 		}
 	}
@@ -337,6 +374,7 @@ export class BrowserSession {
 
 		// Set the new page as the active page
 		this.page = newPage
+		this.recorder.attach(newPage)
 
 		// Navigate to the URL
 		const result = await this.doAction(async (page) => {
@@ -382,6 +420,7 @@ export class BrowserSession {
 
 			// Update the active page
 			this.page = existingPage
+			this.recorder.attach(existingPage)
 			existingPage.bringToFront()
 
 			// Navigate to the new URL if it's different]
@@ -486,20 +525,317 @@ export class BrowserSession {
 		page.off("request", requestListener)
 	}
 
-	async click(coordinate: string): Promise<BrowserActionResult> {
+	/**
+	 * Finds the element matching a selector, waiting a bit for it to appear
+	 */
+	private async getElement(page: Page, selector: string): Promise<ElementHandle<Element>> {
+		try {
+			const element = await page.waitForSelector(resolveSelector(selector), { timeout: ELEMENT_TIMEOUT_MS })
+
+			if (element) {
+				return element
+			}
+		} catch (error) {
+			if (!(error instanceof TimeoutError)) {
+				throw error
+			}
+		}
+
+		throw new Error(`No element matches the selector: ${selector}`)
+	}
+
+	/**
+	 * Returns the coordinate of a target, which is the center of the element
+	 * for selectors
+	 */
+	private async getCoordinate(page: Page, { coordinate, selector }: ElementTarget): Promise<string> {
+		if (!selector) {
+			return coordinate!
+		}
+
+		const element = await this.getElement(page, selector)
+
+		try {
+			await element.scrollIntoView()
+			const box = await element.boundingBox()
+
+			if (!box) {
+				throw new Error(`The element is not visible: ${selector}`)
+			}
+
+			return `${Math.round(box.x + box.width / 2)},${Math.round(box.y + box.height / 2)}`
+		} finally {
+			await element.dispose()
+		}
+	}
+
+	async click(target: ElementTarget): Promise<BrowserActionResult> {
 		return this.doAction(async (page) => {
-			await this.handleMouseInteraction(page, coordinate, async (x, y) => {
+			await this.handleMouseInteraction(page, await this.getCoordinate(page, target), async (x, y) => {
 				await page.mouse.click(x, y)
 			})
 		})
 	}
 
-	async type(text: string): Promise<BrowserActionResult> {
+	async type(text: string, selector?: string): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			if (selector) {
+				// Typing into an element focuses it first.
+				const element = await this.getElement(page, selector)
+				await element.type(text)
+				await element.dispose()
+			} else {
+				await page.keyboard.type(text)
+			}
+		})
+	}
+
+	/**
+	 * Presses a key or a chord like `Control+Shift+P`, optionally after
+	 * focusing an element
+	 */
+	async press(keys: string, selector?: string): Promise<BrowserActionResult> {
 		return this.doAction(async (page) => {
-			await page.keyboard.type(text)
+			if (selector) {
+				const element = await this.getElement(page, selector)
+				await element.focus()
+				await element.dispose()
+			}
+
+			// A trailing "+" is the plus key itself, as in `Control++`.
+			const chord = keys.split(/\+(?!$)/).map((key) => key.trim() as KeyInput)
+			const key = chord.pop()!
+
+			for (const modifier of chord) {
+				await page.keyboard.down(modifier)
+			}
+
+			await page.keyboard.press(key)
+
+			for (const modifier of chord.reverse()) {
+				await page.keyboard.up(modifier)
+			}
+
+			await this.waitTillHTMLStable(page, 2_000)
 		})
 	}
 
+	/**
+	 * Selects the option of a `<select>` element with the given value or label
+	 */
+	async selectOption(selector: string, option: string): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			const element = await this.getElement(page, selector)
+
+			try {
+				const value = await element.evaluate((select, option) => {
+					if (!(select instanceof HTMLSelectElement)) {
+						return null
+					}
+
+					const match = Array.from(select.options).find(
+						({ value, label, text }) => value === option || label === option || text.trim() === option,
+					)
+
+					return match?.value
+				}, option)
+
+				if (value === null) {
+					throw new Error(`The element is not a <select>: ${selector}`)
+				}
+
+				if (value === undefined) {
+					throw new Error(`No option "${option}" in ${selector}`)
+				}
+
+				await element.select(value)
+			} finally {
+				await element.dispose()
+			}
+		})
+	}
+
+	/**
+	 * Sets the file of an `<input type="file">` element
+	 */
+	async uploadFile(selector: string, absolutePath: string): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			const element = (await this.getElement(page, selector)) as ElementHandle<HTMLInputElement>
+
+			try {
+				await element.uploadFile(absolutePath)
+			} finally {
+				await element.dispose()
+			}
+		})
+	}
+
+	/**
+	 * Waits for an element to appear, or for some text to show up on the page
+	 */
+	async waitFor({ selector, text }: { selector?: string; text?: string }): Promise<BrowserActionResult> {
+		return this.doAction(async (page) => {
+			try {
+				if (selector) {
+					await page.waitForSelector(resolveSelector(selector), { timeout: WAIT_FOR_TIMEOUT_MS })
+				} else {
+					await page.waitForFunction(
+						(text) => document.body?.innerText.includes(text),
+						{ timeout: WAIT_FOR_TIMEOUT_MS },
+						text ?? "",
+					)
+				}
+			} catch (error) {
+				if (error instanceof TimeoutError) {
+					throw new Error(
+						`Timed out after ${WAIT_FOR_TIMEOUT_MS / 1000}s waiting for ${selector ? `the selector ${selector}` : `the text "${text}"`}`,
+					)
+				}
+
+				throw error
+			}
+		})
+	}
+
+	/**
+	 * Captures the accessibility tree of the page, giving the interactive
+	 * elements refs that can be used as selectors
+	 */
+	async snapshot(): Promise<BrowserActionResult> {
+		let snapshot = ""
+
+		const result = await this.doAction(async (page) => {
+			const root = await page.accessibility.snapshot({ interestingOnly: true })
+
+			if (!root) {
+				snapshot = "(The page has no accessibility tree.)"
+				return
+			}
+
+			const refs = new Map<SerializedAXNode, string>()
+			await this.assignElementRefs(root, refs)
+			snapshot = formatAccessibilitySnapshot(root, refs)
+		})
+
+		return { ...result, snapshot }
+	}
+
+	private async assignElementRefs(node: SerializedAXNode, refs: Map<SerializedAXNode, string>) {
+		if (ELEMENT_REF_ROLES.has(node.role)) {
+			const element = await node.elementHandle().catch(() => null)
+
+			if (element) {
+				const candidate = `e${this.nextElementRef}`
+
+				// Elements that already have a ref keep it.
+				const ref = await element
+					.evaluate(
+						(element, attribute, candidate) => {
+							if (!(element instanceof Element)) {
+								return undefined
+							}
+
+							if (!element.hasAttribute(attribute)) {
+								element.setAttribute(attribute, candidate)
+							}
+
+							return element.getAttribute(attribute) ?? undefined
+						},
+						ELEMENT_REF_ATTRIBUTE,
+						candidate,
+					)
+					.catch(() => undefined)
+
+				await element.dispose()
+
+				if (ref) {
+					refs.set(node, ref)
+					this.elementRefs.set(ref, { role: node.role, name: node.name ?? "" })
+				}
+
+				if (ref === candidate) {
+					this.nextElementRef++
+				}
+			}
+		}
+
+		for (const child of node.children ?? []) {
+			await this.assignElementRefs(child, refs)
+		}
+	}
+
+	/**
+	 * Lists the requests of the session, optionally filtered by URL pattern and
+	 * status
+	 */
+	async networkLog(filter: NetworkFilter): Promise<BrowserActionResult> {
+		const page = this.requirePage()
+		const entries = await this.recorder.getNetworkEntries(filter)
+
+		return {
+			output: formatNetworkLog(entries),
+			currentUrl: page.url(),
+			currentMousePosition: this.currentMousePosition,
+		}
+	}
+
+	/**
+	 * Lists the console messages and uncaught exceptions of the session,
+	 * optionally filtered by source URL pattern and text
+	 */
+	async consoleLog(filter: ConsoleFilter): Promise<BrowserActionResult> {
+		const page = this.requirePage()
+
+		return {
+			output: formatConsoleLog(this.recorder.getConsoleEntries(filter)),
+			currentUrl: page.url(),
+			currentMousePosition: this.currentMousePosition,
+		}
+	}
+
+	/**
+	 * Returns the requests of the session as the content of a HAR file, so
+	 * that it can be approved before it is saved with `exportHar`
+	 */
+	async createHar(): Promise<{ content: string; requestCount: number }> {
+		this.requirePage()
+		const entries = await this.recorder.getNetworkEntries()
+		const har = toHar(entries, {
+			name: "Roo Code",
+			version: this.context.extension?.packageJSON?.version ?? "unknown",
+		})
+
+		return { content: JSON.stringify(har, null, 2), requestCount: entries.length }
+	}
+
+	/**
+	 * Saves a HAR file created by `createHar`
+	 */
+	async exportHar(
+		absolutePath: string,
+		{ content, requestCount }: { content: string; requestCount: number },
+	): Promise<BrowserActionResult> {
+		const page = this.requirePage()
+
+		await createDirectoriesForFile(absolutePath)
+		await fs.writeFile(absolutePath, content)
+
+		return {
+			output: `Saved ${requestCount} requests to ${absolutePath}`,
+			currentUrl: page.url(),
+			currentMousePosition: this.currentMousePosition,
+		}
+	}
+
+	/**
+	 * Returns the role and name a snapshot gave the element of an element ref
+	 * selector
+	 */
+	describeElementRef(selector: string): { role: string; name: string } | undefined {
+		const trimmed = selector.trim()
+		return trimmed.startsWith("ref=") ? this.elementRefs.get(trimmed.slice("ref=".length).trim()) : undefined
+	}
+
 	/**
 	 * Scrolls the page by the specified amount
 	 */
@@ -529,9 +865,9 @@ export class BrowserSession {
 		})
 	}
 
-	async hover(coordinate: string): Promise<BrowserActionResult> {
+	async hover(target: ElementTarget): Promise<BrowserActionResult> {
 		return this.doAction(async (page) => {
-			await this.handleMouseInteraction(page, coordinate, async (x, y) => {
+			await this.handleMouseInteraction(page, await this.getCoordinate(page, target), async (x, y) => {
 				await page.mouse.move(x, y)
 				// Small delay to allow any hover effects to appear
 				await delay(300)
@@ -0,0 +1,77 @@
+// npx jest src/services/browser/__tests__/elements.test.ts
+
+import type { SerializedAXNode } from "puppeteer-core"
+
+import { formatAccessibilitySnapshot, resolveSelector } from "../elements"
+
+describe("resolveSelector", () => {
+	it("resolves element refs", () => {
+		expect(resolveSelector("ref=e12")).toBe('[data-roo-ref="e12"]')
+	})
+
+	it("resolves text selectors", () => {
+		expect(resolveSelector('text=Say "hi"')).toBe('::-p-text("Say \\"hi\\"")')
+	})
+
+	it("passes other selectors through", () => {
+		expect(resolveSelector(" #submit ")).toBe("#submit")
+		expect(resolveSelector("aria/Sign in[role=button]")).toBe("aria/Sign in[role=button]")
+	})
+})
+
+describe("formatAccessibilitySnapshot", () => {
+	const node = (properties: Partial<SerializedAXNode>) => properties as SerializedAXNode
+
+	it("formats roles, names, refs and properties", () => {
+		const button = node({ role: "button", name: "Submit", disabled: true })
+		const checkbox = node({ role: "checkbox", name: "Remember me", checked: false })
+		const root = node({
+			role: "RootWebArea",
+			name: "Login",
+			children: [node({ role: "heading", name: "Sign in", level: 1 }), checkbox, button],
+		})
+
+		const refs = new Map([
+			[checkbox, "e1"],
+			[button, "e2"],
+		])
+
+		expect(formatAccessibilitySnapshot(root, refs)).toBe(
+			[
+				'- RootWebArea "Login"',
+				'  - heading "Sign in" [level=1]',
+				'  - checkbox "Remember me" [ref=e1] [not checked]',
+				'  - button "Submit" [ref=e2] [disabled]',
+			].join("\n"),
+		)
+	})
+
+	it("leaves out unnamed containers and repeated text", () => {
+		const root = node({
+			role: "RootWebArea",
+			name: "",
+			children: [
+				node({
+					role: "generic",
+					name: "",
+					children: [
+						node({ role: "link", name: "Home", children: [node({ role: "StaticText", name: "Home" })] }),
+					],
+				}),
+			],
+		})
+
+		expect(formatAccessibilitySnapshot(root, new Map())).toBe(["- RootWebArea", '  - link "Home"'].join("\n"))
+	})
+
+	it("truncates long snapshots", () => {
+		const root = node({
+			role: "list",
+			children: Array.from({ length: 600 }, (_, i) => node({ role: "listitem", name: `Item ${i}` })),
+		})
+
+		const lines = formatAccessibilitySnapshot(root, new Map()).split("\n")
+		expect(lines).toHaveLength(501)
+		expect(lines[500]).toContain("101 more elements omitted")
+	})
+})
@@ -0,0 +1,159 @@
+// npx jest src/services/browser/__tests__/recorder.test.ts
+
+import {
+	ConsoleEntry,
+	NetworkEntry,
+	filterConsoleEntries,
+	filterNetworkEntries,
+	formatNetworkLog,
+	matchesUrlPattern,
+	toHar,
+} from "../recorder"
+
+const entry = (properties: Partial<NetworkEntry>): NetworkEntry => ({
+	url: "http://localhost:3000/",
+	method: "GET",
+	resourceType: "document",
+	requestHeaders: {},
+	startedAt: Date.UTC(2025, 0, 1),
+	...properties,
+})
+
+describe("matchesUrlPattern", () => {
+	it("matches substrings", () => {
+		expect(matchesUrlPattern("http://localhost:3000/api/users", "/api/")).toBe(true)
+		expect(matchesUrlPattern("http://localhost:3000/users", "/api/")).toBe(false)
+	})
+
+	it("matches patterns with wildcards", () => {
+		expect(matchesUrlPattern("http://localhost:3000/api/users?page=2", "*/api/*")).toBe(true)
+		expect(matchesUrlPattern("http://localhost:3000/app.js", "*.js")).toBe(true)
+		expect(matchesUrlPattern("http://localhost:3000/app.json", "*.js")).toBe(false)
+	})
+})
+
+describe("filterNetworkEntries", () => {
+	const ok = entry({ url: "http://localhost:3000/api/users", status: 200 })
+	const notFound = entry({ url: "http://localhost:3000/api/teams", status: 404 })
+	const serverError = entry({ url: "http://localhost:3000/app.js", status: 503 })
+	const failed = entry({ url: "http://localhost:4000/api/events", failure: "net::ERR_CONNECTION_REFUSED" })
+	const entries = [ok, notFound, serverError, failed]
+
+	it("filters by status code and class", () => {
+		expect(filterNetworkEntries(entries, { status: "404" })).toEqual([notFound])
+		expect(filterNetworkEntries(entries, { status: "5xx" })).toEqual([serverError])
+	})
+
+	it("filters failed requests", () => {
+		expect(filterNetworkEntries(entries, { status: "failed" })).toEqual([notFound, serverError, failed])
+	})
+
+	it("combines URL and status filters", () => {
+		expect(filterNetworkEntries(entries, { url: "*/api/*", status: "failed" })).toEqual([notFound, failed])
+	})
+})
+
+describe("filterConsoleEntries", () => {
+	const log: ConsoleEntry = { timestamp: 0, type: "log", text: "Loaded", url: "http://localhost:3000/app.js" }
+	const error: ConsoleEntry = {
+		timestamp: 0,
+		type: "error",
+		text: "Request failed",
+		url: "http://localhost:3000/api.js",
+	}
+	const exception: ConsoleEntry = { timestamp: 0, type: "pageerror", text: "TypeError: x is undefined" }
+
+	it("filters by text, including the message type", () => {
+		expect(filterConsoleEntries([log, error, exception], { text: "error" })).toEqual([error, exception])
+	})
+
+	it("filters by source URL", () => {
+		expect(filterConsoleEntries([log, error, exception], { url: "api.js" })).toEqual([error])
+	})
+})
+
+describe("formatNetworkLog", () => {
+	it("includes bodies when few requests match", () => {
+		const log = formatNetworkLog([
+			entry({
+				url: "http://localhost:3000/api/login",
+				method: "POST",
+				resourceType: "fetch",
+				postData: '{"user":"admin"}',
+				status: 401,
+				statusText: "Unauthorized",
+				body: '{"error":"Invalid password"}',
+				bodySize: 28,
+				finishedAt: Date.UTC(2025, 0, 1) + 42,
+			}),
+		])
+
+		expect(log).toBe(
+			[
+				"POST http://localhost:3000/api/login -> 401 Unauthorized (fetch, 28 B, 42 ms)",
+				'Request body:\n{"user":"admin"}',
+				'Response body:\n{"error":"Invalid password"}',
+			].join("\n"),
+		)
+	})
+
+	it("leaves out bodies when many requests match", () => {
+		const log = formatNetworkLog(Array.from({ length: 6 }, () => entry({ status: 200, body: "<html>" })))
+
+		expect(log).not.toContain("<html>")
+		expect(log).toContain("narrow the filter")
+	})
+})
+
+describe("toHar", () => {
+	it("converts entries to HAR entries", () => {
+		const har = toHar(
+			[
+				entry({
+					url: "http://localhost:3000/api/users?page=2",
+					requestHeaders: { accept: "application/json" },
+					status: 200,
+					statusText: "OK",
+					mimeType: "application/json",
+					body: "[]",
+					bodySize: 2,
+					finishedAt: Date.UTC(2025, 0, 1) + 10,
+				}),
+				entry({ url: "http://localhost:4000/", failure: "net::ERR_CONNECTION_REFUSED" }),
+			],
+			{ name: "Roo Code", version: "1.0.0" },
+		)
+
+		expect(har.log.version).toBe("1.2")
+		expect(har.log.entries[0]).toMatchObject({
+			startedDateTime: "2025-01-01T00:00:00.000Z",
+			time: 10,
+			request: {
+				method: "GET",
+				headers: [{ name: "accept", value: "application/json" }],
+				queryString: [{ name: "page", value: "2" }],
+			},
+			response: { status: 200, content: { size: 2, mimeType: "application/json", text: "[]" } },
+		})
+		expect(har.log.entries[1]).toMatchObject({ response: { status: 0 }, _error: "net::ERR_CONNECTION_REFUSED" })
+	})
+	it("redacts credentials in headers", () => {
+		const har = toHar(
+			[
+				entry({
+					requestHeaders: { accept: "*/*", Authorization: "Bearer secret", cookie: "session=secret" },
+					responseHeaders: { "set-cookie": "session=secret; HttpOnly", "content-type": "text/html" },
+				}),
+			],
+			{ name: "Roo Code", version: "1.0.0" },
+		)
+
+		expect(JSON.stringify(har)).not.toContain("secret")
+		expect(har.log.entries[0].request.headers).toEqual([
+			{ name: "accept", value: "*/*" },
+			{ name: "Authorization", value: "[redacted]" },
+			{ name: "cookie", value: "[redacted]" },
+		])
+		expect(har.log.entries[0].response.headers).toContainEqual({ name: "content-type", value: "text/html" })
+	})
+})
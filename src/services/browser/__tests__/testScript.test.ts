@@ -0,0 +1,137 @@
+// npx jest src/services/browser/__tests__/testScript.test.ts
+
+import { ClineMessage } from "../../../shared/ExtensionMessage"
+import { generateTestScript, parseBrowserSession } from "../testScript"
+
+const messages: ClineMessage[] = [
+	{ ts: 1, type: "ask", ask: "browser_action_launch", text: "http://localhost:3000/login" },
+	{ ts: 2, type: "say", say: "browser_action_result", text: "" },
+	{
+		ts: 3,
+		type: "say",
+		say: "browser_action_result",
+		text: JSON.stringify({ screenshot: "data:", currentUrl: "x" }),
+	},
+	{
+		ts: 4,
+		type: "say",
+		say: "browser_action",
+		text: JSON.stringify({ action: "type", selector: "#email", text: "admin@example.com" }),
+	},
+	{ ts: 5, type: "say", say: "browser_action_result", text: JSON.stringify({ screenshot: "data:" }) },
+	{
+		ts: 6,
+		type: "say",
+		say: "browser_action",
+		text: JSON.stringify({ action: "click", selector: "ref=e3", element: { role: "button", name: "Sign in" } }),
+	},
+	{
+		ts: 7,
+		type: "say",
+		say: "browser_action_result",
+		text: JSON.stringify({
+			screenshot: "data:",
+			currentUrl: "http://localhost:3000/dashboard",
+			currentTitle: "Dashboard",
+			currentMousePosition: "450,300",
+		}),
+	},
+	{ ts: 8, type: "say", say: "browser_action", text: JSON.stringify({ action: "click", selector: "ref=e9" }) },
+	{
+		ts: 9,
+		type: "say",
+		say: "browser_action_result",
+		text: JSON.stringify({
+			screenshot: "data:",
+			currentUrl: "http://localhost:3000/dashboard",
+			currentTitle: "Dashboard",
+			currentMousePosition: "20,40",
+		}),
+	},
+	{ ts: 10, type: "say", say: "browser_action", text: JSON.stringify({ action: "network_log" }) },
+	{
+		ts: 11,
+		type: "say",
+		say: "browser_action_result",
+		text: JSON.stringify({ output: "(No matching requests)", currentUrl: "http://localhost:3000/other" }),
+	},
+	{ ts: 12, type: "say", say: "browser_action", text: JSON.stringify({ action: "close" }) },
+]
+
+describe("parseBrowserSession", () => {
+	it("pairs actions with their results", () => {
+		const steps = parseBrowserSession(messages)
+
+		expect(steps.map(({ action }) => action.action)).toEqual([
+			"launch",
+			"type",
+			"click",
+			"click",
+			"network_log",
+			"close",
+		])
+		expect(steps[0].action.url).toBe("http://localhost:3000/login")
+		expect(steps[2].result?.currentTitle).toBe("Dashboard")
+		expect(steps[5].result).toBeUndefined()
+	})
+})
+
+describe("generateTestScript", () => {
+	const steps = parseBrowserSession(messages)
+	const viewport = { width: 900, height: 600 }
+
+	it("generates a Playwright test", () => {
+		expect(generateTestScript({ steps, framework: "playwright", viewport })).toBe(
+			[
+				`import { test, expect } from "@playwright/test"`,
+				``,
+				`test.use({ viewport: { width: 900, height: 600 } })`,
+				``,
+				`test("browser session at http://localhost:3000/login", async ({ page }) => {`,
+				`\tawait page.goto("http://localhost:3000/login")`,
+				`\tawait page.locator("#email").fill("admin@example.com")`,
+				`\tawait page.getByRole("button", { name: "Sign in", exact: true }).click()`,
+				`\tawait page.mouse.click(20, 40)`,
+				``,
+				`\tawait expect(page).toHaveURL("http://localhost:3000/dashboard")`,
+				`\tawait expect(page).toHaveTitle("Dashboard")`,
+				`})`,
+				``,
+			].join("\n"),
+		)
+	})
+
+	it("generates a Puppeteer test", () => {
+		const script = generateTestScript({ steps, framework: "puppeteer", viewport })
+
+		expect(script).toContain(`await page.goto("http://localhost:3000/login", { waitUntil: "networkidle2" })`)
+		expect(script).toContain(`\t\tawait page.locator("aria/Sign in[role=\\"button\\"]").click()`)
+		expect(script).toContain(`\t\tassert.equal(page.url(), "http://localhost:3000/dashboard")`)
+		expect(script).toContain(`\t\tassert.equal(await page.title(), "Dashboard")`)
+		expect(script).toContain(`\t\tawait browser.close()`)
+	})
+
+	it("converts text selectors and key combinations", () => {
+		const steps = parseBrowserSession([
+			{ ts: 1, type: "ask", ask: "browser_action_launch", text: "http://localhost:3000" },
+			{
+				ts: 2,
+				type: "say",
+				say: "browser_action",
+				text: JSON.stringify({ action: "press", selector: "text=Search", text: "Control+A" }),
+			},
+		])
+
+		expect(generateTestScript({ steps, framework: "playwright", viewport })).toContain(
+			`await page.getByText("Search").press("Control+A")`,
+		)
+		expect(generateTestScript({ steps, framework: "puppeteer", viewport })).toContain(
+			[
+				`\t\tawait page.focus("::-p-text(\\"Search\\")")`,
+				`\t\tawait page.keyboard.down("Control")`,
+				`\t\tawait page.keyboard.press("A")`,
+				`\t\tawait page.keyboard.up("Control")`,
+			].join("\n"),
+		)
+	})
+})
@@ -0,0 +1,111 @@
+import type { SerializedAXNode } from "puppeteer-core"
+
+// Elements that were given a ref by a snapshot keep it in this attribute, so
+// that the ref stays the same in later snapshots of the page.
+export const ELEMENT_REF_ATTRIBUTE = "data-roo-ref"
+
+// Only the elements that can be interacted with are given refs. Everything
+// else can be targeted with text and ARIA selectors.
+export const ELEMENT_REF_ROLES = new Set([
+	"button",
+	"checkbox",
+	"combobox",
+	"link",
+	"listbox",
+	"menuitem",
+	"menuitemcheckbox",
+	"menuitemradio",
+	"option",
+	"radio",
+	"searchbox",
+	"slider",
+	"spinbutton",
+	"switch",
+	"tab",
+	"textbox",
+	"treeitem",
+])
+
+const MAX_SNAPSHOT_LINES = 500
+
+/**
+ * Converts the selectors accepted by `browser_action` to selectors Puppeteer
+ * understands: `ref=e12` targets an element from a snapshot, `text=Sign in`
+ * the smallest element containing the text, and anything else is passed on
+ * as is, which covers CSS selectors as well as Puppeteer's `aria/` and
+ * `::-p-*` selectors.
+ */
+export function resolveSelector(selector: string): string {
+	const trimmed = selector.trim()
+
+	if (trimmed.startsWith("ref=")) {
+		return `[${ELEMENT_REF_ATTRIBUTE}="${trimmed.slice("ref=".length).trim()}"]`
+	}
+
+	if (trimmed.startsWith("text=")) {
+		return `::-p-text(${JSON.stringify(trimmed.slice("text=".length).trim())})`
+	}
+
+	return trimmed
+}
+
+const formatProperties = (node: SerializedAXNode) => {
+	const properties: string[] = []
+
+	if (node.value !== undefined && node.value !== "") {
+		properties.push(`value=${JSON.stringify(String(node.value))}`)
+	}
+
+	if (node.level !== undefined) {
+		properties.push(`level=${node.level}`)
+	}
+
+	for (const key of ["checked", "pressed"] as const) {
+		if (node[key] !== undefined) {
+			properties.push(node[key] === "mixed" ? `${key}=mixed` : node[key] ? key : `not ${key}`)
+		}
+	}
+
+	for (const key of ["selected", "expanded", "disabled", "required", "focused"] as const) {
+		if (node[key]) {
+			properties.push(key)
+		}
+	}
+
+	return properties.map((property) => ` [${property}]`).join("")
+}
+
+/**
+ * Formats an accessibility tree as an indented list with one element per
+ * line, e.g. `- button "Submit" [ref=e3] [disabled]`. Generic containers
+ * without a name are left out, as is text that repeats its parent's name.
+ */
+export function formatAccessibilitySnapshot(root: SerializedAXNode, refs: Map<SerializedAXNode, string>): string {
+	const lines: string[] = []
+
+	const visit = (node: SerializedAXNode, depth: number, parent?: SerializedAXNode) => {
+		const isContainer = (node.role === "generic" || node.role === "none") && !node.name
+		const isRepeatedText = node.role === "StaticText" && node.name === parent?.name
+
+		if (!isContainer && !isRepeatedText) {
+			const name = node.name ? ` ${JSON.stringify(node.name)}` : ""
+			const ref = refs.has(node) ? ` [ref=${refs.get(node)}]` : ""
+			lines.push(`${"  ".repeat(depth)}- ${node.role}${name}${ref}${formatProperties(node)}`)
+		}
+
+		for (const child of node.children ?? []) {
+			visit(child, isContainer || isRepeatedText ? depth : depth + 1, node)
+		}
+	}
+
+	visit(root, 0)
+
+	if (lines.length > MAX_SNAPSHOT_LINES) {
+		return [
+			...lines.slice(0, MAX_SNAPSHOT_LINES),
+			`(${lines.length - MAX_SNAPSHOT_LINES} more elements omitted, use text or ARIA selectors to target them)`,
+		].join("\n")
+	}
+
+	return lines.join("\n")
+}
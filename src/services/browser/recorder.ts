@@ -0,0 +1,393 @@
+import type { ConsoleMessage, HTTPRequest, HTTPResponse, Page } from "puppeteer-core"
+
+// Response bodies are only kept for text content, and only up to this size.
+const MAX_BODY_BYTES = 64 * 1024
+const TEXT_MIME_TYPE = /json|text|xml|javascript|graphql|x-www-form-urlencoded/i
+
+// The oldest entries are dropped once a session has recorded this many.
+const MAX_NETWORK_ENTRIES = 1_000
+const MAX_CONSOLE_ENTRIES = 1_000
+
+// Queries list at most this many entries, and only show bodies when they
+// match a handful of requests.
+const MAX_LISTED_ENTRIES = 100
+const MAX_ENTRIES_WITH_BODIES = 5
+const MAX_LISTED_BODY_CHARS = 2_000
+
+export type NetworkEntry = {
+	url: string
+	method: string
+	resourceType: string
+	requestHeaders: Record<string, string>
+	postData?: string
+	startedAt: number
+	finishedAt?: number
+	status?: number
+	statusText?: string
+	responseHeaders?: Record<string, string>
+	mimeType?: string
+	body?: string
+	bodySize?: number
+	bodyTruncated?: boolean
+	failure?: string
+}
+
+export type ConsoleEntry = {
+	timestamp: number
+	// Console message types, or `pageerror` for uncaught exceptions.
+	type: string
+	text: string
+	url?: string
+}
+
+export type NetworkFilter = {
+	url?: string
+	status?: string
+}
+
+export type ConsoleFilter = {
+	url?: string
+	text?: string
+}
+
+/**
+ * Matches a URL against a pattern, which is a glob with `*` wildcards if it
+ * has any and a substring of the URL otherwise
+ */
+export function matchesUrlPattern(url: string, pattern: string): boolean {
+	if (!pattern.includes("*")) {
+		return url.includes(pattern)
+	}
+
+	const source = pattern
+		.split("*")
+		.map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+		.join(".*")
+
+	return new RegExp(`^${source}$`).test(url)
+}
+
+/**
+ * Matches the status of a request against a status filter: a status code like
+ * `404`, a class of status codes like `4xx`, or `failed` for requests that
+ * failed or got an error status
+ */
+export function matchesStatus(entry: NetworkEntry, filter: string): boolean {
+	const status = filter.trim().toLowerCase()
+
+	if (status === "failed") {
+		return entry.failure !== undefined || (entry.status !== undefined && entry.status >= 400)
+	}
+
+	if (/^[1-5]xx$/.test(status)) {
+		return entry.status !== undefined && Math.floor(entry.status / 100) === Number(status[0])
+	}
+
+	return entry.status !== undefined && String(entry.status) === status
+}
+
+export function filterNetworkEntries(entries: NetworkEntry[], { url, status }: NetworkFilter): NetworkEntry[] {
+	return entries.filter(
+		(entry) => (!url || matchesUrlPattern(entry.url, url)) && (!status || matchesStatus(entry, status)),
+	)
+}
+
+export function filterConsoleEntries(entries: ConsoleEntry[], { url, text }: ConsoleFilter): ConsoleEntry[] {
+	const search = text?.toLowerCase()
+
+	return entries.filter(
+		(entry) =>
+			(!url || (entry.url !== undefined && matchesUrlPattern(entry.url, url))) &&
+			(!search || `[${entry.type}] ${entry.text}`.toLowerCase().includes(search)),
+	)
+}
+
+const formatBytes = (bytes: number) => (bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`)
+
+const formatBody = (body: string, truncated?: boolean) => {
+	const shown = body.length > MAX_LISTED_BODY_CHARS ? body.slice(0, MAX_LISTED_BODY_CHARS) : body
+	return truncated || shown !== body ? `${shown}\n(truncated)` : shown
+}
+
+const formatNetworkEntry = (entry: NetworkEntry, withBodies: boolean) => {
+	const status = entry.failure
+		? `FAILED (${entry.failure})`
+		: entry.status !== undefined
+			? `${entry.status}${entry.statusText ? ` ${entry.statusText}` : ""}`
+			: "PENDING"
+
+	const details = [
+		entry.resourceType,
+		entry.bodySize !== undefined ? formatBytes(entry.bodySize) : undefined,
+		entry.finishedAt !== undefined ? `${entry.finishedAt - entry.startedAt} ms` : undefined,
+	].filter(Boolean)
+
+	const lines = [`${entry.method} ${entry.url} -> ${status} (${details.join(", ")})`]
+
+	if (withBodies) {
+		if (entry.postData) {
+			lines.push(`Request body:\n${formatBody(entry.postData)}`)
+		}
+
+		if (entry.body) {
+			lines.push(`Response body:\n${formatBody(entry.body, entry.bodyTruncated)}`)
+		}
+	}
+
+	return lines.join("\n")
+}
+
+/**
+ * Lists network requests, one per line, with the request and response bodies
+ * when only a few requests are listed
+ */
+export function formatNetworkLog(entries: NetworkEntry[]): string {
+	if (entries.length === 0) {
+		return "(No matching requests)"
+	}
+
+	const listed = entries.slice(-MAX_LISTED_ENTRIES)
+	const withBodies = listed.length <= MAX_ENTRIES_WITH_BODIES
+	const lines = listed.map((entry) => formatNetworkEntry(entry, withBodies))
+
+	if (entries.length > listed.length) {
+		lines.unshift(`(${entries.length - listed.length} earlier requests omitted)`)
+	}
+
+	if (!withBodies) {
+		lines.push(
+			`(Bodies are shown when at most ${MAX_ENTRIES_WITH_BODIES} requests match, narrow the filter to see them)`,
+		)
+	}
+
+	return lines.join(withBodies ? "\n\n" : "\n")
+}
+
+export function formatConsoleLog(entries: ConsoleEntry[]): string {
+	if (entries.length === 0) {
+		return "(No matching console messages)"
+	}
+
+	const listed = entries.slice(-MAX_LISTED_ENTRIES)
+	const lines = listed.map(({ type, text, url }) => `[${type}] ${text}${url ? ` (${url})` : ""}`)
+
+	if (entries.length > listed.length) {
+		lines.unshift(`(${entries.length - listed.length} earlier messages omitted)`)
+	}
+
+	return lines.join("\n")
+}
+
+// HAR files are often shared, so the credentials in these headers are left out.
+const REDACTED_HAR_HEADERS = new Set(["authorization", "proxy-authorization", "cookie", "set-cookie", "x-api-key"])
+
+const toHarHeaders = (headers: Record<string, string> = {}) =>
+	Object.entries(headers).map(([name, value]) => ({
+		name,
+		value: REDACTED_HAR_HEADERS.has(name.toLowerCase()) ? "[redacted]" : value,
+	}))
+
+const toHarQueryString = (url: string) => {
+	try {
+		return Array.from(new URL(url).searchParams, ([name, value]) => ({ name, value }))
+	} catch (error) {
+		return []
+	}
+}
+
+/**
+ * Converts network entries to a HAR 1.2 log
+ */
+export function toHar(entries: NetworkEntry[], creator: { name: string; version: string }) {
+	return {
+		log: {
+			version: "1.2",
+			creator,
+			pages: [],
+			entries: entries.map((entry) => {
+				const time = entry.finishedAt !== undefined ? entry.finishedAt - entry.startedAt : 0
+
+				return {
+					startedDateTime: new Date(entry.startedAt).toISOString(),
+					time,
+					request: {
+						method: entry.method,
+						url: entry.url,
+						httpVersion: "HTTP/1.1",
+						cookies: [],
+						headers: toHarHeaders(entry.requestHeaders),
+						queryString: toHarQueryString(entry.url),
+						...(entry.postData !== undefined && {
+							postData: {
+								mimeType: entry.requestHeaders["content-type"] ?? "",
+								text: entry.postData,
+							},
+						}),
+						headersSize: -1,
+						bodySize: entry.postData !== undefined ? Buffer.byteLength(entry.postData) : 0,
+					},
+					response: {
+						status: entry.status ?? 0,
+						statusText: entry.statusText ?? "",
+						httpVersion: "HTTP/1.1",
+						cookies: [],
+						headers: toHarHeaders(entry.responseHeaders),
+						content: {
+							size: entry.bodySize ?? 0,
+							mimeType: entry.mimeType ?? "",
+							...(entry.body !== undefined && { text: entry.body }),
+							...(entry.bodyTruncated && { comment: `Truncated to ${MAX_BODY_BYTES} bytes` }),
+						},
+						redirectURL: entry.responseHeaders?.["location"] ?? "",
+						headersSize: -1,
+						bodySize: entry.bodySize ?? -1,
+					},
+					cache: {},
+					timings: { send: 0, wait: time, receive: 0 },
+					_resourceType: entry.resourceType,
+					...(entry.failure !== undefined && { _error: entry.failure }),
+				}
+			}),
+		},
+	}
+}
+
+/**
+ * Records the network traffic and console messages of the pages of a browser
+ * session
+ */
+export class BrowserRecorder {
+	private networkEntries: NetworkEntry[] = []
+	private consoleEntries: ConsoleEntry[] = []
+	private requests = new WeakMap<HTTPRequest, NetworkEntry>()
+	private pages = new WeakSet<Page>()
+	private pendingBodies = new Set<Promise<void>>()
+
+	/**
+	 * Starts recording a page, unless it is recorded already
+	 */
+	attach(page: Page) {
+		if (this.pages.has(page)) {
+			return
+		}
+
+		this.pages.add(page)
+		page.on("request", (request) => this.onRequest(request))
+		page.on("response", (response) => this.onResponse(response))
+		page.on("requestfinished", (request) => this.onRequestEnd(request))
+		page.on("requestfailed", (request) => this.onRequestEnd(request, request.failure()?.errorText ?? "failed"))
+		page.on("console", (message) => this.onConsole(message))
+		page.on("pageerror", (error) => {
+			this.addConsoleEntry({
+				timestamp: Date.now(),
+				type: "pageerror",
+				text: error instanceof Error ? (error.stack ?? error.message) : String(error),
+			})
+		})
+	}
+
+	/**
+	 * Forgets everything recorded so far. Pages that are attached keep being
+	 * recorded.
+	 */
+	clear() {
+		this.networkEntries = []
+		this.consoleEntries = []
+		this.requests = new WeakMap()
+		this.pendingBodies.clear()
+	}
+
+	async getNetworkEntries(filter: NetworkFilter = {}): Promise<NetworkEntry[]> {
+		await Promise.allSettled(this.pendingBodies)
+		return filterNetworkEntries(this.networkEntries, filter)
+	}
+
+	getConsoleEntries(filter: ConsoleFilter = {}): ConsoleEntry[] {
+		return filterConsoleEntries(this.consoleEntries, filter)
+	}
+
+	private onRequest(request: HTTPRequest) {
+		const entry: NetworkEntry = {
+			url: request.url(),
+			method: request.method(),
+			resourceType: request.resourceType(),
+			requestHeaders: request.headers(),
+			postData: request.postData(),
+			startedAt: Date.now(),
+		}
+
+		this.requests.set(request, entry)
+		this.networkEntries.push(entry)
+
+		if (this.networkEntries.length > MAX_NETWORK_ENTRIES) {
+			this.networkEntries.shift()
+		}
+	}
+
+	private onResponse(response: HTTPResponse) {
+		const entry = this.requests.get(response.request())
+
+		if (!entry) {
+			return
+		}
+
+		const headers = response.headers()
+		entry.status = response.status()
+		entry.statusText = response.statusText()
+		entry.responseHeaders = headers
+		entry.mimeType = headers["content-type"]?.split(";")[0].trim()
+
+		// Redirects have no body, and the bodies of binary content aren't useful
+		// for debugging.
+		if (response.status() >= 300 && response.status() < 400) {
+			return
+		}
+
+		if (!entry.mimeType || !TEXT_MIME_TYPE.test(entry.mimeType)) {
+			return
+		}
+
+		const pending = response
+			.buffer()
+			.then((buffer) => {
+				entry.bodySize = buffer.length
+				entry.bodyTruncated = buffer.length > MAX_BODY_BYTES
+				entry.body = buffer.subarray(0, MAX_BODY_BYTES).toString("utf8")
+			})
+			.catch(() => {})
+			.finally(() => this.pendingBodies.delete(pending))
+
+		this.pendingBodies.add(pending)
+	}
+
+	private onRequestEnd(request: HTTPRequest, failure?: string) {
+		const entry = this.requests.get(request)
+
+		if (!entry) {
+			return
+		}
+
+		entry.finishedAt = Date.now()
+
+		if (failure) {
+			entry.failure = failure
+		}
+	}
+
+	private onConsole(message: ConsoleMessage) {
+		this.addConsoleEntry({
+			timestamp: Date.now(),
+			type: message.type(),
+			text: message.text(),
+			url: message.location()?.url || undefined,
+		})
+	}
+
+	private addConsoleEntry(entry: ConsoleEntry) {
+		this.consoleEntries.push(entry)
+
+		if (this.consoleEntries.length > MAX_CONSOLE_ENTRIES) {
+			this.consoleEntries.shift()
+		}
+	}
+}
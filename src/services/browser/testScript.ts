@@ -0,0 +1,253 @@
+import { BrowserActionResult, ClineMessage, ClineSayBrowserAction } from "../../shared/ExtensionMessage"
+import { resolveSelector } from "./elements"
+
+export type TestFramework = "puppeteer" | "playwright"
+
+export type BrowserSessionStep = {
+	action: ClineSayBrowserAction
+	result?: BrowserActionResult
+}
+
+/**
+ * Collects the actions of a browser session and the results they had from
+ * the messages of a task
+ */
+export function parseBrowserSession(messages: ClineMessage[]): BrowserSessionStep[] {
+	const steps: BrowserSessionStep[] = []
+
+	for (const message of messages) {
+		if (message.partial) {
+			continue
+		}
+
+		if (message.type === "ask" && message.ask === "browser_action_launch") {
+			steps.push({ action: { action: "launch", url: message.text } })
+		} else if (message.say === "browser_action" && message.text) {
+			steps.push({ action: JSON.parse(message.text) as ClineSayBrowserAction })
+		} else if (message.say === "browser_action_result" && message.text) {
+			const step = steps.at(-1)
+
+			if (step && !step.result) {
+				step.result = JSON.parse(message.text) as BrowserActionResult
+			}
+		}
+	}
+
+	return steps
+}
+
+const quote = (value: string) => JSON.stringify(value)
+
+const ARIA_SELECTOR = /^aria\/(.*?)(?:\[role=["']?([\w-]+)["']?\])?$/
+
+/**
+ * Returns the selector a test can use for the target of an action. Element
+ * refs only exist in the browser session they were made in, so they are
+ * replaced by the role and name of the element.
+ */
+function getStableSelector({ selector, element }: ClineSayBrowserAction): string | undefined {
+	if (!selector?.trim().startsWith("ref=")) {
+		return selector?.trim()
+	}
+
+	return element ? `aria/${element.name}[role="${element.role}"]` : undefined
+}
+
+function getPuppeteerLocator(selector: string) {
+	return `page.locator(${quote(resolveSelector(selector))})`
+}
+
+function getPlaywrightLocator(selector: string) {
+	if (selector.startsWith("text=")) {
+		return `page.getByText(${quote(selector.slice("text=".length).trim())})`
+	}
+
+	const aria = selector.match(ARIA_SELECTOR)
+
+	if (aria) {
+		const [, name, role] = aria
+		return role
+			? `page.getByRole(${quote(role)}, { name: ${quote(name)}, exact: true })`
+			: `page.getByLabel(${quote(name)}, { exact: true })`
+	}
+
+	return `page.locator(${quote(selector)})`
+}
+
+/**
+ * Returns the statements that repeat a step, or a comment if it can't be
+ * repeated
+ */
+function getStepStatements(step: BrowserSessionStep, framework: TestFramework): string[] {
+	const { action, url, coordinate, text, size, path } = step.action
+	const selector = getStableSelector(step.action)
+	const locator = selector
+		? framework === "puppeteer"
+			? getPuppeteerLocator(selector)
+			: getPlaywrightLocator(selector)
+		: undefined
+
+	// Actions on elements that can't be targeted by a selector fall back to the
+	// position the mouse was moved to.
+	const position = coordinate ?? step.result?.currentMousePosition
+	const [x, y] = position?.split(",").map(Number) ?? []
+	const unconverted = `// Could not convert the ${action} action on ${step.action.selector}`
+
+	switch (action) {
+		case "launch":
+			return framework === "puppeteer"
+				? [`await page.goto(${quote(url!)}, { waitUntil: "networkidle2" })`]
+				: [`await page.goto(${quote(url!)})`]
+		case "click":
+			return locator
+				? [`await ${locator}.click()`]
+				: position
+					? [`await page.mouse.click(${x}, ${y})`]
+					: [unconverted]
+		case "hover":
+			return locator
+				? [`await ${locator}.hover()`]
+				: position
+					? [`await page.mouse.move(${x}, ${y})`]
+					: [unconverted]
+		case "type":
+			if (step.action.selector && !locator) {
+				return [unconverted]
+			}
+
+			return locator ? [`await ${locator}.fill(${quote(text!)})`] : [`await page.keyboard.type(${quote(text!)})`]
+		case "press": {
+			if (step.action.selector && !locator) {
+				return [unconverted]
+			}
+
+			if (framework === "playwright") {
+				return [
+					locator ? `await ${locator}.press(${quote(text!)})` : `await page.keyboard.press(${quote(text!)})`,
+				]
+			}
+
+			const chord = text!.split(/\+(?!$)/).map((key) => key.trim())
+			const key = chord.pop()!
+
+			return [
+				...(selector ? [`await page.focus(${quote(resolveSelector(selector))})`] : []),
+				...chord.map((modifier) => `await page.keyboard.down(${quote(modifier)})`),
+				`await page.keyboard.press(${quote(key)})`,
+				...chord.reverse().map((modifier) => `await page.keyboard.up(${quote(modifier)})`),
+			]
+		}
+		case "select_option":
+			if (!selector) {
+				return [unconverted]
+			}
+
+			return framework === "puppeteer"
+				? [`await page.select(${quote(resolveSelector(selector))}, ${quote(text!)})`]
+				: [`await ${locator}.selectOption(${quote(text!)})`]
+		case "upload_file":
+			if (!selector) {
+				return [unconverted]
+			}
+
+			return framework === "puppeteer"
+				? [
+						`await page.waitForSelector(${quote(resolveSelector(selector))}).then((input) => input.uploadFile(${quote(path!)}))`,
+					]
+				: [`await ${locator}.setInputFiles(${quote(path!)})`]
+		case "wait_for":
+			if (step.action.selector) {
+				if (!selector) {
+					return [unconverted]
+				}
+
+				return framework === "puppeteer"
+					? [`await page.waitForSelector(${quote(resolveSelector(selector))})`]
+					: [`await ${locator}.waitFor()`]
+			}
+
+			return framework === "puppeteer"
+				? [`await page.waitForFunction((text) => document.body.innerText.includes(text), {}, ${quote(text!)})`]
+				: [`await page.getByText(${quote(text!)}).first().waitFor()`]
+		case "scroll_down":
+			return [`await page.evaluate(() => window.scrollBy(0, window.innerHeight))`]
+		case "scroll_up":
+			return [`await page.evaluate(() => window.scrollBy(0, -window.innerHeight))`]
+		case "resize": {
+			const [width, height] = size!.split(",").map(Number)
+			return framework === "puppeteer"
+				? [`await page.setViewport({ width: ${width}, height: ${height} })`]
+				: [`await page.setViewportSize({ width: ${width}, height: ${height} })`]
+		}
+		default:
+			// Actions that only inspect the page or the session don't change it.
+			return []
+	}
+}
+
+/**
+ * Converts a browser session to a test that repeats its actions and checks
+ * that it ends on the same URL with the same title. Puppeteer tests run with
+ * Node's test runner, Playwright tests with Playwright Test.
+ */
+export function generateTestScript({
+	steps,
+	framework,
+	viewport,
+}: {
+	steps: BrowserSessionStep[]
+	framework: TestFramework
+	viewport: { width: number; height: number }
+}): string {
+	const launch = steps.find((step) => step.action.action === "launch")
+	const name = launch?.action.url ? `browser session at ${launch.action.url}` : "browser session"
+	const statements = steps.flatMap((step) => getStepStatements(step, framework))
+	const final = [...steps].reverse().find((step) => step.result?.screenshot)?.result
+
+	const indent = (lines: string[], depth: number) =>
+		lines.map((line) => (line ? `${"\t".repeat(depth)}${line}` : line))
+
+	if (framework === "puppeteer") {
+		const assertions = [
+			...(final?.currentUrl ? [`assert.equal(page.url(), ${quote(final.currentUrl)})`] : []),
+			...(final?.currentTitle !== undefined
+				? [`assert.equal(await page.title(), ${quote(final.currentTitle)})`]
+				: []),
+		]
+
+		return [
+			`import { test } from "node:test"`,
+			`import assert from "node:assert/strict"`,
+			`import puppeteer from "puppeteer"`,
+			``,
+			`test(${quote(name)}, async () => {`,
+			`\tconst browser = await puppeteer.launch()`,
+			`\tconst page = await browser.newPage()`,
+			`\tawait page.setViewport({ width: ${viewport.width}, height: ${viewport.height} })`,
+			``,
+			`\ttry {`,
+			...indent([...statements, ...(assertions.length > 0 ? ["", ...assertions] : [])], 2),
+			`\t} finally {`,
+			`\t\tawait browser.close()`,
+			`\t}`,
+			`})`,
+			``,
+		].join("\n")
+	}
+
+	const assertions = [
+		...(final?.currentUrl ? [`await expect(page).toHaveURL(${quote(final.currentUrl)})`] : []),
+		...(final?.currentTitle !== undefined ? [`await expect(page).toHaveTitle(${quote(final.currentTitle)})`] : []),
+	]
+
+	return [
+		`import { test, expect } from "@playwright/test"`,
+		``,
+		`test.use({ viewport: { width: ${viewport.width}, height: ${viewport.height} } })`,
+		``,
+		`test(${quote(name)}, async ({ page }) => {`,
+		...indent([...statements, ...(assertions.length > 0 ? ["", ...assertions] : [])], 1),
+		`})`,
+		``,
+	].join("\n")
+}
@@ -0,0 +1,215 @@
+import * as path from "path"
+import EventEmitter from "events"
+
+import { parseRootQualifiedPath, WorkspaceRoot } from "../../utils/path"
+
+import { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
+import { ShadowCheckpointService } from "./ShadowCheckpointService"
+import { CheckpointDiff, CheckpointEventMap, MultiRootCheckpointServiceOptions } from "./types"
+
+const ROOT_CHECKPOINT_TRAILER = "Root-Checkpoint"
+const ROOT_CHECKPOINT_REGEX = new RegExp(`^${ROOT_CHECKPOINT_TRAILER}: (\\S+) (.+)$`, "gm")
+
+type RootCheckpointService = {
+	root: WorkspaceRoot
+	service: ShadowCheckpointService
+}
+
+/**
+ * Saves and restores checkpoints of all roots of a multi-root workspace
+ * together.
+ *
+ * Every root has its own shadow git repo. The checkpoints of the root the task
+ * runs in identify the checkpoints of the whole workspace: their commit
+ * messages reference the checkpoints of the other roots that were saved with
+ * them, and the files of the other roots are reported with root-qualified
+ * paths.
+ */
+export class MultiRootCheckpointService extends EventEmitter {
+	public static create({
+		taskId,
+		workspaceDir,
+		shadowDir,
+		otherRoots,
+		log = console.log,
+	}: MultiRootCheckpointServiceOptions) {
+		const primary = RepoPerTaskCheckpointService.create({ taskId, workspaceDir, shadowDir, log })
+
+		// The repos of the other roots are kept next to the one of the task's
+		// root, so that they are deleted with it.
+		const others = otherRoots.map((root) => ({
+			root,
+			service: new RepoPerTaskCheckpointService(
+				taskId,
+				path.join(primary.checkpointsDir, "roots", ShadowCheckpointService.hashWorkspaceDir(root.path)),
+				root.path,
+				log,
+			),
+		}))
+
+		return new MultiRootCheckpointService(primary, others)
+	}
+
+	constructor(
+		private readonly primary: ShadowCheckpointService,
+		private readonly others: RootCheckpointService[],
+	) {
+		super()
+
+		this.forward(primary, "initialize")
+		this.forward(primary, "checkpoint")
+		this.forward(primary, "restore")
+		this.forward(primary, "restoreFiles")
+		this.forward(primary, "error")
+
+		for (const { service } of others) {
+			this.forward(service, "error")
+		}
+	}
+
+	public get workspaceDir() {
+		return this.primary.workspaceDir
+	}
+
+	public get baseHash() {
+		return this.primary.baseHash
+	}
+
+	public get isInitialized() {
+		return this.primary.isInitialized && this.others.every(({ service }) => service.isInitialized)
+	}
+
+	public async initShadowGit(onInit?: () => Promise<void>) {
+		// The task's root is initialized last since its `initialize` event
+		// signals that checkpoints can be saved.
+		for (const { service } of this.others) {
+			await service.initShadowGit()
+		}
+
+		return this.primary.initShadowGit(onInit)
+	}
+
+	public async saveCheckpoint(message: string) {
+		let didChangeOtherRoots = false
+
+		for (const { service } of this.others) {
+			didChangeOtherRoots = !!(await service.saveCheckpoint(message)) || didChangeOtherRoots
+		}
+
+		const trailers = this.others.map(
+			({ root, service }) => `${ROOT_CHECKPOINT_TRAILER}: ${service.currentHash} ${root.path}`,
+		)
+
+		// A change in any root makes a new checkpoint of the workspace.
+		return this.primary.saveCheckpoint(`${message}\n\n${trailers.join("\n")}`, {
+			allowEmpty: didChangeOtherRoots,
+		})
+	}
+
+	public async restoreCheckpoint(commitHash: string) {
+		for (const { service, hash } of await this.getRootCheckpoints(commitHash)) {
+			await service.restoreCheckpoint(hash)
+		}
+
+		await this.primary.restoreCheckpoint(commitHash)
+	}
+
+	public async restoreFiles(commitHash: string, relPaths: string[]) {
+		const roots = this.others.map(({ root }) => root)
+		const primaryPaths = relPaths.filter((relPath) => !parseRootQualifiedPath(relPath, roots))
+
+		for (const { root, service, hash } of await this.getRootCheckpoints(commitHash)) {
+			const rootPaths = relPaths
+				.map((relPath) => parseRootQualifiedPath(relPath, roots))
+				.filter((rootQualifiedPath) => rootQualifiedPath?.root === root)
+				.map((rootQualifiedPath) => rootQualifiedPath!.relPath)
+
+			if (rootPaths.length > 0) {
+				await service.restoreFiles(hash, rootPaths)
+			}
+		}
+
+		await this.primary.restoreFiles(commitHash, primaryPaths)
+	}
+
+	public async getChangedFiles({ from, to }: { from: string; to?: string }): Promise<string[]> {
+		const files = await this.primary.getChangedFiles({ from, to })
+		const fromCheckpoints = await this.getRootCheckpoints(from)
+		const toCheckpoints = to ? await this.getRootCheckpoints(to) : undefined
+
+		for (const [index, { root, service, hash }] of fromCheckpoints.entries()) {
+			const rootFiles = await service.getChangedFiles({ from: hash, to: toCheckpoints?.[index].hash })
+			files.push(...rootFiles.map((file) => `${root.name}:${file}`))
+		}
+
+		return files
+	}
+
+	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
+		const diffs = await this.primary.getDiff({ from, to })
+		const fromCheckpoints = from ? await this.getRootCheckpoints(from) : undefined
+		const toCheckpoints = to ? await this.getRootCheckpoints(to) : undefined
+
+		for (const [index, { root, service }] of this.others.entries()) {
+			const rootDiffs = await service.getDiff({
+				from: fromCheckpoints?.[index].hash,
+				to: toCheckpoints?.[index].hash,
+			})
+
+			diffs.push(
+				...rootDiffs.map((diff) => ({
+					...diff,
+					paths: { ...diff.paths, relative: `${root.name}:${diff.paths.relative}` },
+				})),
+			)
+		}
+
+		return diffs
+	}
+
+	/**
+	 * Returns the checkpoints of the other roots that were saved with the given
+	 * checkpoint of the task's root. Checkpoints without references, like the
+	 * initial commit, belong to the initial commits of the other roots.
+	 */
+	private async getRootCheckpoints(commitHash: string) {
+		const message = await this.primary.getCheckpointMessage(commitHash)
+		const hashes = new Map<string, string>()
+
+		for (const [, hash, rootPath] of message.matchAll(ROOT_CHECKPOINT_REGEX)) {
+			hashes.set(rootPath, hash)
+		}
+
+		return Promise.all(
+			this.others.map(async ({ root, service }) => ({
+				root,
+				service,
+				hash: hashes.get(root.path) ?? (await service.getInitialHash()),
+			})),
+		)
+	}
+
+	private forward<K extends keyof CheckpointEventMap>(service: ShadowCheckpointService, event: K) {
+		service.on(event, (data) => this.emit(event, data))
+	}
+
+	/**
+	 * EventEmitter
+	 */
+
+	override emit<K extends keyof CheckpointEventMap>(event: K, data: CheckpointEventMap[K]) {
+		return super.emit(event, data)
+	}
+
+	override on<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.on(event, listener)
+	}
+
+	override off<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.off(event, listener)
+	}
+
+	override once<K extends keyof CheckpointEventMap>(event: K, listener: (data: CheckpointEventMap[K]) => void) {
+		return super.once(event, listener)
+	}
+}
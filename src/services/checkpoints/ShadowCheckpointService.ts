@@ -40,6 +40,11 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return !!this.git
 	}
 
+	// The checkpoint that the workspace was last saved to or restored from.
+	public get currentHash() {
+		return this._checkpoints[this._checkpoints.length - 1] ?? this.baseHash
+	}
+
 	constructor(taskId: string, checkpointsDir: string, workspaceDir: string, log: (message: string) => void) {
 		super()
 
@@ -89,10 +94,7 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		} else {
 			this.log(`[${this.constructor.name}#initShadowGit] creating shadow git repo at ${this.checkpointsDir}`)
 			await git.init()
-			await git.addConfig("core.worktree", this.workspaceDir) // Sets the working tree to the current workspace.
-			await git.addConfig("commit.gpgSign", "false") // Disable commit signing for shadow repo.
-			await git.addConfig("user.name", "Roo Code")
-			await git.addConfig("user.email", "noreply@example.com")
+			await ShadowCheckpointService.configureShadowGit(git, this.workspaceDir)
 			await this.writeExcludeFile()
 			await this.stageAll(git)
 			const { commit } = await git.commit("initial commit", { "--allow-empty": null })
@@ -200,7 +202,10 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return this.shadowGitConfigWorktree
 	}
 
-	public async saveCheckpoint(message: string): Promise<CheckpointResult | undefined> {
+	public async saveCheckpoint(
+		message: string,
+		{ allowEmpty = false }: { allowEmpty?: boolean } = {},
+	): Promise<CheckpointResult | undefined> {
 		try {
 			this.log(`[${this.constructor.name}#saveCheckpoint] starting checkpoint save`)
 
@@ -210,9 +215,9 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 
 			const startTime = Date.now()
 			await this.stageAll(this.git)
-			const result = await this.git.commit(message)
+			const result = await this.git.commit(message, allowEmpty ? { "--allow-empty": null } : {})
 			const isFirst = this._checkpoints.length === 0
-			const fromHash = this._checkpoints[this._checkpoints.length - 1] ?? this.baseHash!
+			const fromHash = this.currentHash!
 			const toHash = result.commit || fromHash
 			this._checkpoints.push(toHash)
 			const duration = Date.now() - startTime
@@ -268,6 +273,66 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		}
 	}
 
+	public async restoreFiles(commitHash: string, relPaths: string[]) {
+		try {
+			this.log(`[${this.constructor.name}#restoreFiles] starting restore of ${relPaths.length} file(s)`)
+
+			if (!this.git) {
+				throw new Error("Shadow git repo not initialized")
+			}
+
+			for (const relPath of relPaths) {
+				const absPath = path.resolve(this.workspaceDir, relPath)
+
+				if (!absPath.startsWith(this.workspaceDir + path.sep)) {
+					throw new Error(`Cannot restore a file outside of the workspace: ${relPath}`)
+				}
+			}
+
+			const start = Date.now()
+
+			// Files that didn't exist at the checkpoint are removed; all others
+			// are checked out from it.
+			const tracked = relPaths.length
+				? (await this.git.raw(["ls-tree", "-r", "--name-only", commitHash, "--", ...relPaths]))
+						.split("\n")
+						.filter(Boolean)
+				: []
+
+			if (tracked.length > 0) {
+				await this.git.raw(["checkout", commitHash, "--", ...tracked])
+			}
+
+			for (const relPath of relPaths.filter((relPath) => !tracked.includes(relPath))) {
+				await fs.rm(path.join(this.workspaceDir, relPath), { force: true })
+			}
+
+			const duration = Date.now() - start
+			this.emit("restoreFiles", { type: "restoreFiles", commitHash, paths: relPaths, duration })
+			this.log(
+				`[${this.constructor.name}#restoreFiles] restored ${relPaths.length} file(s) from ${commitHash} in ${duration}ms`,
+			)
+		} catch (e) {
+			const error = e instanceof Error ? e : new Error(String(e))
+			this.log(`[${this.constructor.name}#restoreFiles] failed to restore files: ${error.message}`)
+			this.emit("error", { type: "error", error })
+			throw error
+		}
+	}
+
+	public async getChangedFiles({ from, to }: { from: string; to?: string }): Promise<string[]> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		// Stage all changes so that untracked files are compared as well.
+		await this.stageAll(this.git)
+
+		const range = to ? [`${from}..${to}`] : [from]
+		const { files } = await this.git.diffSummary(["--no-renames", ...range])
+		return files.map((file) => file.file)
+	}
+
 	public async getDiff({ from, to }: { from?: string; to?: string }): Promise<CheckpointDiff[]> {
 		if (!this.git) {
 			throw new Error("Shadow git repo not initialized")
@@ -276,7 +341,7 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		const result = []
 
 		if (!from) {
-			from = (await this.git.raw(["rev-list", "--max-parents=0", "HEAD"])).trim()
+			from = await this.getInitialHash()
 		}
 
 		// Stage all changes so that untracked files appear in diff summary.
@@ -302,6 +367,22 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 		return result
 	}
 
+	public async getInitialHash(): Promise<string> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		return (await this.git.raw(["rev-list", "--max-parents=0", "HEAD"])).trim()
+	}
+
+	public async getCheckpointMessage(commitHash: string): Promise<string> {
+		if (!this.git) {
+			throw new Error("Shadow git repo not initialized")
+		}
+
+		return this.git.raw(["log", "-1", "--format=%B", commitHash])
+	}
+
 	/**
 	 * EventEmitter
 	 */
@@ -326,6 +407,13 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 	 * Storage
 	 */
 
+	private static async configureShadowGit(git: SimpleGit, workspaceDir: string) {
+		await git.addConfig("core.worktree", workspaceDir) // Sets the working tree to the current workspace.
+		await git.addConfig("commit.gpgSign", "false") // Disable commit signing for shadow repo.
+		await git.addConfig("user.name", "Roo Code")
+		await git.addConfig("user.email", "noreply@example.com")
+	}
+
 	public static hashWorkspaceDir(workspaceDir: string) {
 		return crypto.createHash("sha256").update(workspaceDir).digest("hex").toString().slice(0, 8)
 	}
@@ -452,4 +540,158 @@ export abstract class ShadowCheckpointService extends EventEmitter {
 			return true
 		}
 	}
+
+	/**
+	 * Remote
+	 */
+
+	private static readonly remoteTasksPrefix = "refs/roo-tasks/"
+
+	// The checkpoints of a task are pushed as a branch, like the branches of
+	// the workspace repos, and the files that describe the task are committed
+	// to a ref of their own.
+	private static remoteRefs(taskId: string) {
+		return { checkpoints: `refs/heads/roo-${taskId}`, task: `${this.remoteTasksPrefix}${taskId}` }
+	}
+
+	private static async withTempRepo<T>(callback: (git: SimpleGit, dir: string) => Promise<T>) {
+		const dir = await fs.mkdtemp(path.join(os.tmpdir(), "roo-checkpoints-"))
+
+		try {
+			const git = simpleGit(dir)
+			await git.init()
+			await this.configureShadowGit(git, dir)
+			return await callback(git, dir)
+		} finally {
+			await fs.rm(dir, { recursive: true, force: true })
+		}
+	}
+
+	/**
+	 * Pushes the checkpoints of a task and the given files describing it to a
+	 * git remote, replacing any earlier export of the task. The checkpoints of
+	 * the other roots of a multi-root workspace are not pushed.
+	 */
+	public static async pushTask({
+		taskId,
+		globalStorageDir,
+		workspaceDir,
+		remote,
+		files,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		workspaceDir: string
+		remote: string
+		files: Record<string, string>
+	}) {
+		const storage = await this.getTaskStorage({ taskId, globalStorageDir, workspaceDir })
+
+		if (!storage) {
+			throw new Error(`No checkpoints found for task ${taskId}`)
+		}
+
+		const refs = this.remoteRefs(taskId)
+
+		const [repoDir, source] =
+			storage === "task"
+				? [this.taskRepoDir({ taskId, globalStorageDir }), "HEAD"]
+				: [this.workspaceRepoDir({ globalStorageDir, workspaceDir }), `roo-${taskId}`]
+
+		await simpleGit(repoDir).raw(["push", "--force", "--", remote, `${source}:${refs.checkpoints}`])
+
+		await this.withTempRepo(async (git, dir) => {
+			for (const [fileName, content] of Object.entries(files)) {
+				await fs.writeFile(path.join(dir, fileName), content)
+			}
+
+			await git.add(".")
+			await git.commit(`task ${taskId}`)
+			await git.raw(["push", "--force", "--", remote, `HEAD:${refs.task}`])
+		})
+
+		console.log(`[${this.name}#pushTask.${taskId}] pushed ${storage} checkpoints to ${remote}`)
+	}
+
+	/**
+	 * Lists the tasks that were pushed to a git remote, along with the content
+	 * of one of their files.
+	 */
+	public static async listRemoteTasks(remote: string, fileName: string) {
+		return this.withTempRepo(async (git) => {
+			await git.raw(["fetch", "--", remote, `+${this.remoteTasksPrefix}*:${this.remoteTasksPrefix}*`])
+
+			const refs = (await git.raw(["for-each-ref", "--format=%(refname)", this.remoteTasksPrefix]))
+				.split("\n")
+				.filter(Boolean)
+
+			const tasks: { taskId: string; content: string }[] = []
+
+			for (const ref of refs) {
+				const taskId = ref.slice(this.remoteTasksPrefix.length)
+
+				// Task ids name directories, so anything but a plain id is skipped.
+				if (!/^[\w-]+$/.test(taskId)) {
+					continue
+				}
+
+				const content = await git.show([`${ref}:${fileName}`]).catch(() => undefined)
+
+				if (content !== undefined) {
+					tasks.push({ taskId, content })
+				}
+			}
+
+			return tasks
+		})
+	}
+
+	/**
+	 * Fetches the checkpoints of a task from a git remote into the task's
+	 * shadow repo, which then belongs to the given workspace, and returns the
+	 * files that were pushed with them.
+	 */
+	public static async importTask({
+		taskId,
+		globalStorageDir,
+		workspaceDir,
+		remote,
+	}: {
+		taskId: string
+		globalStorageDir: string
+		workspaceDir: string
+		remote: string
+	}) {
+		const refs = this.remoteRefs(taskId)
+		const taskRepoDir = this.taskRepoDir({ taskId, globalStorageDir })
+		await fs.mkdir(taskRepoDir, { recursive: true })
+		const git = simpleGit(taskRepoDir)
+
+		if (!(await fileExistsAtPath(path.join(taskRepoDir, ".git")))) {
+			await git.init()
+		}
+
+		await this.configureShadowGit(git, workspaceDir)
+
+		// Only the index is updated, the workspace is left as it is until a
+		// checkpoint is restored.
+		const branch = (await git.raw(["symbolic-ref", "HEAD"])).trim()
+		await git.raw(["fetch", "--update-head-ok", "--", remote, `+${refs.checkpoints}:${branch}`])
+		await git.raw(["reset", "--mixed", "--quiet"])
+
+		const files = await this.withTempRepo(async (tempGit) => {
+			await tempGit.raw(["fetch", "--", remote, refs.task])
+			const fileNames = (await tempGit.raw(["ls-tree", "--name-only", "FETCH_HEAD"])).split("\n").filter(Boolean)
+			const files: Record<string, string> = {}
+
+			for (const fileName of fileNames) {
+				files[fileName] = await tempGit.show([`FETCH_HEAD:${fileName}`])
+			}
+
+			return files
+		})
+
+		console.log(`[${this.name}#importTask.${taskId}] imported checkpoints from ${remote} into ${taskRepoDir}`)
+		return files
+	}
 }
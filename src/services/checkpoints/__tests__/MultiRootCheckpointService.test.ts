@@ -0,0 +1,106 @@
+// npx jest src/services/checkpoints/__tests__/MultiRootCheckpointService.test.ts
+
+import fs from "fs/promises"
+import path from "path"
+import os from "os"
+
+import { MultiRootCheckpointService } from "../MultiRootCheckpointService"
+
+jest.mock("globby", () => ({
+	globby: jest.fn().mockResolvedValue([]),
+}))
+
+const tmpDir = path.join(os.tmpdir(), "MultiRootCheckpointService")
+
+describe("MultiRootCheckpointService", () => {
+	let frontendDir: string
+	let backendDir: string
+	let service: MultiRootCheckpointService
+
+	beforeEach(async () => {
+		const baseDir = path.join(tmpDir, `${Date.now()}`)
+		frontendDir = path.join(baseDir, "frontend")
+		backendDir = path.join(baseDir, "backend")
+		await fs.mkdir(frontendDir, { recursive: true })
+		await fs.mkdir(backendDir, { recursive: true })
+		await fs.writeFile(path.join(frontendDir, "app.ts"), "frontend v1")
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v1")
+
+		service = MultiRootCheckpointService.create({
+			taskId: "test-task",
+			workspaceDir: frontendDir,
+			shadowDir: path.join(baseDir, "shadow"),
+			otherRoots: [{ name: "backend", path: backendDir }],
+			log: () => {},
+		})
+
+		await service.initShadowGit()
+	})
+
+	afterAll(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("saves a checkpoint when only another root changed", async () => {
+		const onCheckpoint = jest.fn()
+		service.on("checkpoint", onCheckpoint)
+
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v2")
+		const result = await service.saveCheckpoint("Checkpoint")
+
+		expect(result?.commit).toBeTruthy()
+		expect(onCheckpoint).toHaveBeenCalledWith(expect.objectContaining({ toHash: result!.commit }))
+		expect(await service.saveCheckpoint("No changes")).toBeUndefined()
+	})
+
+	it("restores all roots to the same checkpoint", async () => {
+		await fs.writeFile(path.join(frontendDir, "app.ts"), "frontend v2")
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v2")
+		const checkpoint = await service.saveCheckpoint("Checkpoint 1")
+
+		await fs.writeFile(path.join(frontendDir, "app.ts"), "frontend v3")
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v3")
+		await fs.writeFile(path.join(backendDir, "new.ts"), "new")
+		await service.saveCheckpoint("Checkpoint 2")
+
+		await service.restoreCheckpoint(checkpoint!.commit)
+
+		expect(await fs.readFile(path.join(frontendDir, "app.ts"), "utf8")).toBe("frontend v2")
+		expect(await fs.readFile(path.join(backendDir, "server.ts"), "utf8")).toBe("backend v2")
+		await expect(fs.access(path.join(backendDir, "new.ts"))).rejects.toThrow()
+
+		await service.restoreCheckpoint(service.baseHash!)
+
+		expect(await fs.readFile(path.join(frontendDir, "app.ts"), "utf8")).toBe("frontend v1")
+		expect(await fs.readFile(path.join(backendDir, "server.ts"), "utf8")).toBe("backend v1")
+	})
+
+	it("reports the changes of other roots with root-qualified paths", async () => {
+		await fs.writeFile(path.join(frontendDir, "app.ts"), "frontend v2")
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v2")
+		const checkpoint = await service.saveCheckpoint("Checkpoint")
+
+		expect(await service.getChangedFiles({ from: service.baseHash!, to: checkpoint!.commit })).toEqual([
+			"app.ts",
+			"backend:server.ts",
+		])
+
+		const diffs = await service.getDiff({ to: checkpoint!.commit })
+		expect(
+			diffs.map(({ paths, content }) => [paths.relative, paths.absolute, content.before, content.after]),
+		).toEqual([
+			["app.ts", path.join(frontendDir, "app.ts"), "frontend v1", "frontend v2"],
+			["backend:server.ts", path.join(backendDir, "server.ts"), "backend v1", "backend v2"],
+		])
+	})
+
+	it("restores files of other roots given by root-qualified paths", async () => {
+		await fs.writeFile(path.join(frontendDir, "app.ts"), "frontend v2")
+		await fs.writeFile(path.join(backendDir, "server.ts"), "backend v2")
+
+		await service.restoreFiles(service.baseHash!, ["backend:server.ts"])
+
+		expect(await fs.readFile(path.join(frontendDir, "app.ts"), "utf8")).toBe("frontend v2")
+		expect(await fs.readFile(path.join(backendDir, "server.ts"), "utf8")).toBe("backend v1")
+	})
+})
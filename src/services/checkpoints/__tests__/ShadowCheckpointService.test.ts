@@ -147,6 +147,77 @@ describe.each([
 		})
 	})
 
+	describe(`${klass.name}#getChangedFiles`, () => {
+		it("lists the files changed between two checkpoints", async () => {
+			await fs.writeFile(testFile, "Ahoy, world!")
+			const commit1 = await service.saveCheckpoint("Ahoy, world!")
+
+			await fs.writeFile(path.join(service.workspaceDir, "new.txt"), "New file content")
+			const commit2 = await service.saveCheckpoint("Add new file")
+
+			expect(await service.getChangedFiles({ from: commit1!.commit, to: commit2!.commit })).toEqual(["new.txt"])
+			expect(await service.getChangedFiles({ from: service.baseHash!, to: commit2!.commit })).toEqual([
+				"new.txt",
+				"test.txt",
+			])
+		})
+
+		it("lists the files changed since a checkpoint, including untracked files", async () => {
+			await fs.writeFile(testFile, "Ahoy, world!")
+			const commit = await service.saveCheckpoint("Ahoy, world!")
+
+			await fs.writeFile(path.join(service.workspaceDir, "untracked.txt"), "Untracked content")
+
+			expect(await service.getChangedFiles({ from: commit!.commit })).toEqual(["untracked.txt"])
+		})
+	})
+
+	describe(`${klass.name}#restoreFiles`, () => {
+		it("restores only the given files", async () => {
+			const otherFile = path.join(service.workspaceDir, "other.txt")
+			await fs.writeFile(otherFile, "Other content")
+			const commit = await service.saveCheckpoint("Add other file")
+
+			await fs.writeFile(testFile, "Changed test file")
+			await fs.writeFile(otherFile, "Changed other file")
+			await service.saveCheckpoint("Change both files")
+
+			await service.restoreFiles(commit!.commit, ["test.txt"])
+
+			expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+			expect(await fs.readFile(otherFile, "utf-8")).toBe("Changed other file")
+		})
+
+		it("removes files that did not exist at the checkpoint", async () => {
+			const commit = await service.saveCheckpoint("Nothing changed")
+			const newFile = path.join(service.workspaceDir, "new.txt")
+			await fs.writeFile(newFile, "New file content")
+
+			await service.restoreFiles(commit?.commit ?? service.baseHash!, ["new.txt"])
+
+			expect(await fileExistsAtPath(newFile)).toBe(false)
+			expect(await fs.readFile(testFile, "utf-8")).toBe("Hello, world!")
+		})
+
+		it("refuses to restore files outside of the workspace", async () => {
+			await expect(service.restoreFiles(service.baseHash!, ["../outside.txt"])).rejects.toThrow(
+				"outside of the workspace",
+			)
+		})
+
+		it("emits a restoreFiles event", async () => {
+			const restoreFilesHandler = jest.fn()
+			service.on("restoreFiles", restoreFilesHandler)
+
+			await fs.writeFile(testFile, "Changed test file")
+			await service.restoreFiles(service.baseHash!, ["test.txt"])
+
+			expect(restoreFilesHandler).toHaveBeenCalledWith(
+				expect.objectContaining({ type: "restoreFiles", commitHash: service.baseHash, paths: ["test.txt"] }),
+			)
+		})
+	})
+
 	describe(`${klass.name}#saveCheckpoint`, () => {
 		it("creates a checkpoint if there are pending changes", async () => {
 			await fs.writeFile(testFile, "Ahoy, world!")
@@ -728,4 +799,79 @@ describe("ShadowCheckpointService", () => {
 			expect(storage).toBeUndefined()
 		})
 	})
+
+	describe("pushTask / importTask", () => {
+		const remoteDir = path.join(tmpDir, "remote.git")
+		const otherGlobalStorageDir = path.join(tmpDir, "other-global-storage-dir")
+		const otherWorkspaceDir = path.join(tmpDir, "other-workspace-dir")
+
+		beforeEach(async () => {
+			await fs.mkdir(remoteDir, { recursive: true })
+			await simpleGit(remoteDir).init(true)
+			await fs.mkdir(otherWorkspaceDir, { recursive: true })
+		})
+
+		afterEach(async () => {
+			await fs.rm(remoteDir, { recursive: true, force: true })
+			await fs.rm(otherGlobalStorageDir, { recursive: true, force: true })
+			await fs.rm(otherWorkspaceDir, { recursive: true, force: true })
+		})
+
+		it("shares the checkpoints and files of a task through a remote", async () => {
+			await fs.writeFile(path.join(workspaceDir, "app.ts"), "v1")
+
+			const service = RepoPerTaskCheckpointService.create({
+				taskId,
+				shadowDir: globalStorageDir,
+				workspaceDir,
+				log: () => {},
+			})
+
+			await service.initShadowGit()
+			await fs.writeFile(path.join(workspaceDir, "app.ts"), "v2")
+			const checkpoint = await service.saveCheckpoint("Checkpoint")
+
+			const files = { "history_item.json": '{"id":"test-task-storage"}', "ui_messages.json": "[]" }
+			await ShadowCheckpointService.pushTask({ taskId, globalStorageDir, workspaceDir, remote: remoteDir, files })
+
+			expect(await ShadowCheckpointService.listRemoteTasks(remoteDir, "history_item.json")).toEqual([
+				{ taskId, content: files["history_item.json"] },
+			])
+
+			const imported = await ShadowCheckpointService.importTask({
+				taskId,
+				globalStorageDir: otherGlobalStorageDir,
+				workspaceDir: otherWorkspaceDir,
+				remote: remoteDir,
+			})
+
+			expect(imported).toEqual(files)
+
+			const importedService = RepoPerTaskCheckpointService.create({
+				taskId,
+				shadowDir: otherGlobalStorageDir,
+				workspaceDir: otherWorkspaceDir,
+				log: () => {},
+			})
+
+			await importedService.initShadowGit()
+			expect(importedService.baseHash).toBe(checkpoint!.commit)
+			expect(await fs.readdir(otherWorkspaceDir)).toEqual([])
+
+			await importedService.restoreCheckpoint(checkpoint!.commit)
+			expect(await fs.readFile(path.join(otherWorkspaceDir, "app.ts"), "utf8")).toBe("v2")
+		})
+
+		it("throws when the task has no checkpoints", async () => {
+			await expect(
+				ShadowCheckpointService.pushTask({
+					taskId,
+					globalStorageDir,
+					workspaceDir,
+					remote: remoteDir,
+					files: {},
+				}),
+			).rejects.toThrow(`No checkpoints found for task ${taskId}`)
+		})
+	})
 })
@@ -1,4 +1,5 @@
-export type { CheckpointServiceOptions } from "./types"
+export type { CheckpointServiceOptions, MultiRootCheckpointServiceOptions } from "./types"
 
 export { RepoPerTaskCheckpointService } from "./RepoPerTaskCheckpointService"
 export { RepoPerWorkspaceCheckpointService } from "./RepoPerWorkspaceCheckpointService"
+export { MultiRootCheckpointService } from "./MultiRootCheckpointService"
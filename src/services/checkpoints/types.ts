@@ -1,5 +1,7 @@
 import { CommitResult, SimpleGit } from "simple-git"
 
+import type { WorkspaceRoot } from "../../utils/path"
+
 export type CheckpointResult = Partial<CommitResult> & Pick<CommitResult, "commit">
 
 export type CheckpointDiff = {
@@ -31,5 +33,10 @@ export interface CheckpointEventMap {
 		duration: number
 	}
 	restore: { type: "restore"; commitHash: string; duration: number }
+	restoreFiles: { type: "restoreFiles"; commitHash: string; paths: string[]; duration: number }
 	error: { type: "error"; error: Error }
 }
+
+export interface MultiRootCheckpointServiceOptions extends CheckpointServiceOptions {
+	otherRoots: WorkspaceRoot[]
+}
@@ -0,0 +1,309 @@
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+import { getCodeIndexDirectoryPath } from "../../shared/storagePathManager"
+import { listFiles } from "../glob/list-files"
+import { extensions as supportedExtensions } from "../tree-sitter"
+import { LanguageParser, loadRequiredLanguageParsers } from "../tree-sitter/languageParser"
+import { textParsers } from "../tree-sitter/textParsers"
+import { chunkFile } from "./chunker"
+import { CodeIndexStore } from "./CodeIndexStore"
+import { OpenAiCompatibleEmbedder } from "./embedder"
+import { CodeIndexState, CodeSearchResult, Embedder, EmbedderConfig } from "./types"
+
+const MAX_INDEXED_FILES = 5_000
+const MAX_FILE_SIZE_BYTES = 1024 * 1024
+const UPDATE_DEBOUNCE_MS = 2_000
+const SAVE_INTERVAL_FILES = 50
+
+export type CodeIndexConfig = EmbedderConfig & {
+	enabled: boolean
+}
+
+type PendingChange = "update" | "remove"
+
+/**
+ * Maintains the semantic code index of a workspace: the workspace is indexed
+ * once when the index is enabled and afterwards kept in sync with the file
+ * change events forwarded by the `WorkspaceTracker`.
+ *
+ * There is one instance per workspace, shared by all webviews.
+ */
+export class CodeIndexManager {
+	private static instances = new Map<string, CodeIndexManager>()
+
+	static getInstance(globalStoragePath: string, workspacePath: string): CodeIndexManager {
+		let instance = this.instances.get(workspacePath)
+
+		if (!instance) {
+			instance = new CodeIndexManager(globalStoragePath, workspacePath)
+			this.instances.set(workspacePath, instance)
+		}
+
+		return instance
+	}
+
+	static disposeAll() {
+		this.instances.forEach((instance) => instance.dispose())
+		this.instances.clear()
+	}
+
+	private configKey?: string
+	private store?: CodeIndexStore
+	private embedder?: Embedder
+	private rooIgnoreController?: RooIgnoreController
+	private languageParsers: LanguageParser = {}
+	private pendingChanges = new Map<string, PendingChange>()
+	private flushTimer?: NodeJS.Timeout
+	private queue: Promise<void> = Promise.resolve()
+	private _state: CodeIndexState = "disabled"
+	private _error?: string
+
+	constructor(
+		private readonly globalStoragePath: string,
+		private readonly workspacePath: string,
+		private readonly createEmbedder: (config: EmbedderConfig) => Embedder = (config) =>
+			new OpenAiCompatibleEmbedder(config),
+	) {}
+
+	get state() {
+		return this._state
+	}
+
+	get error() {
+		return this._error
+	}
+
+	/**
+	 * Applies the index settings. Enabling the index (or changing the
+	 * embedding model) loads the persisted index and brings it up to date.
+	 */
+	async configure(config: CodeIndexConfig) {
+		const configKey = JSON.stringify(config)
+
+		if (configKey === this.configKey) {
+			return
+		}
+
+		this.configKey = configKey
+		this.pendingChanges.clear()
+
+		if (!config.enabled || !config.baseUrl || !config.modelId) {
+			this.store = undefined
+			this.embedder = undefined
+			this.setState("disabled")
+			return
+		}
+
+		const storeDir = await getCodeIndexDirectoryPath(this.globalStoragePath)
+		const workspaceId = crypto.createHash("sha256").update(this.workspacePath).digest("hex").slice(0, 16)
+		const store = new CodeIndexStore(path.join(storeDir, `${workspaceId}.json`), config.modelId)
+		await store.load()
+
+		if (!this.rooIgnoreController) {
+			this.rooIgnoreController = new RooIgnoreController(this.workspacePath)
+			await this.rooIgnoreController.initialize()
+		}
+
+		this.store = store
+		this.embedder = this.createEmbedder(config)
+		this.enqueue(() => this.indexWorkspace())
+	}
+
+	/**
+	 * Re-indexes the file at `absolutePath` shortly after it was created or
+	 * changed.
+	 */
+	scheduleUpdate(absolutePath: string) {
+		this.scheduleChange(absolutePath, "update")
+	}
+
+	scheduleRemoval(absolutePath: string) {
+		this.scheduleChange(absolutePath, "remove")
+	}
+
+	/**
+	 * Returns the chunks most relevant to the query, optionally limited to a
+	 * directory relative to the workspace.
+	 */
+	async search(query: string, directory?: string, limit = 10): Promise<CodeSearchResult[]> {
+		if (!this.store || !this.embedder) {
+			throw new Error("The codebase index is not enabled. It can be enabled in the Roo Code settings.")
+		}
+
+		const [vector] = await this.embedder.embed([query])
+		return this.store.search(vector, limit, directory ? this.toRelativePath(directory) : undefined)
+	}
+
+	/**
+	 * Waits until all queued indexing work has finished.
+	 */
+	async waitForIdle() {
+		await this.queue
+	}
+
+	dispose() {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer)
+		}
+
+		this.pendingChanges.clear()
+		this.rooIgnoreController?.dispose()
+		this.rooIgnoreController = undefined
+	}
+
+	private setState(state: CodeIndexState, error?: string) {
+		this._state = state
+		this._error = error
+	}
+
+	private enqueue(work: () => Promise<void>) {
+		this.queue = this.queue.then(work).catch((error) => {
+			console.error(`[CodeIndexManager] indexing failed: ${error instanceof Error ? error.message : error}`)
+			this.setState("error", error instanceof Error ? error.message : String(error))
+		})
+	}
+
+	private scheduleChange(absolutePath: string, change: PendingChange) {
+		if (!this.store || !this.isIndexable(absolutePath)) {
+			return
+		}
+
+		this.pendingChanges.set(this.toRelativePath(absolutePath), change)
+
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer)
+		}
+
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = undefined
+			this.enqueue(() => this.applyPendingChanges())
+		}, UPDATE_DEBOUNCE_MS)
+	}
+
+	private async applyPendingChanges() {
+		const store = this.store
+		const changes = [...this.pendingChanges]
+		this.pendingChanges.clear()
+
+		if (!store || changes.length === 0) {
+			return
+		}
+
+		for (const [relPath, change] of changes) {
+			if (change === "remove") {
+				store.removeFile(relPath)
+			} else {
+				await this.indexFile(store, relPath)
+			}
+		}
+
+		await store.save()
+	}
+
+	private async indexWorkspace() {
+		const store = this.store
+
+		if (!store) {
+			return
+		}
+
+		this.setState("indexing")
+
+		const [files] = await listFiles(this.workspacePath, true, MAX_INDEXED_FILES)
+		const relPaths = new Set(
+			files.filter((file) => this.isIndexable(file)).map((file) => this.toRelativePath(file)),
+		)
+
+		for (const relPath of store.getFilePaths()) {
+			if (!relPaths.has(relPath)) {
+				store.removeFile(relPath)
+			}
+		}
+
+		let changedFiles = 0
+
+		for (const relPath of relPaths) {
+			// Stop if the index was disabled or reconfigured in the meantime.
+			if (this.store !== store) {
+				return
+			}
+
+			if ((await this.indexFile(store, relPath)) && ++changedFiles % SAVE_INTERVAL_FILES === 0) {
+				await store.save()
+			}
+		}
+
+		await store.save()
+		this.setState("ready")
+	}
+
+	/**
+	 * Embeds the chunks of a file unless its content is unchanged since it
+	 * was last indexed. Returns whether the index changed.
+	 */
+	private async indexFile(store: CodeIndexStore, relPath: string): Promise<boolean> {
+		const absolutePath = path.join(this.workspacePath, relPath)
+		let content: string
+
+		try {
+			const stats = await fs.stat(absolutePath)
+
+			if (!stats.isFile() || stats.size > MAX_FILE_SIZE_BYTES) {
+				return store.removeFile(relPath)
+			}
+
+			content = await fs.readFile(absolutePath, "utf8")
+		} catch {
+			return store.removeFile(relPath)
+		}
+
+		const hash = crypto.createHash("sha256").update(content).digest("hex")
+
+		if (store.getHash(relPath) === hash) {
+			return false
+		}
+
+		const chunks = chunkFile(relPath, content, await this.getLanguageParsers(relPath))
+		const vectors = chunks.length
+			? await this.embedder!.embed(chunks.map((chunk) => `${chunk.filePath}\n${chunk.content}`))
+			: []
+
+		store.setFile(
+			relPath,
+			hash,
+			chunks.map((chunk, i) => ({ ...chunk, vector: vectors[i] })),
+		)
+
+		return true
+	}
+
+	private async getLanguageParsers(relPath: string): Promise<LanguageParser> {
+		const ext = path.extname(relPath).toLowerCase()
+
+		if (!textParsers[ext] && !this.languageParsers[ext.slice(1)]) {
+			Object.assign(this.languageParsers, await loadRequiredLanguageParsers([relPath]))
+		}
+
+		return this.languageParsers
+	}
+
+	private isIndexable(filePath: string) {
+		const absolutePath = path.resolve(this.workspacePath, filePath)
+		const relPath = path.relative(this.workspacePath, absolutePath)
+
+		return (
+			!filePath.endsWith("/") &&
+			!relPath.startsWith("..") &&
+			!path.isAbsolute(relPath) &&
+			supportedExtensions.includes(path.extname(absolutePath).toLowerCase()) &&
+			(this.rooIgnoreController?.validateAccess(absolutePath) ?? true)
+		)
+	}
+
+	private toRelativePath(filePath: string) {
+		return path.relative(this.workspacePath, path.resolve(this.workspacePath, filePath)).toPosix()
+	}
+}
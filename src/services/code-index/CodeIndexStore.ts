@@ -0,0 +1,126 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { fileExistsAtPath } from "../../utils/fs"
+import { CodeSearchResult, IndexedChunk } from "./types"
+
+const STORE_VERSION = 1
+
+type IndexedFile = {
+	hash: string
+	chunks: IndexedChunk[]
+}
+
+type StoreFile = {
+	version: number
+	modelId: string
+	files: Record<string, IndexedFile>
+}
+
+/**
+ * Keeps the embedded chunks of one workspace in memory and persists them as
+ * JSON so that the index survives restarts.
+ */
+export class CodeIndexStore {
+	private files = new Map<string, IndexedFile>()
+
+	constructor(
+		private readonly filePath: string,
+		private modelId: string,
+	) {}
+
+	/**
+	 * Loads the persisted index. An index created with another embedding
+	 * model is discarded since its vectors aren't comparable.
+	 */
+	async load() {
+		this.files.clear()
+
+		if (!(await fileExistsAtPath(this.filePath))) {
+			return
+		}
+
+		try {
+			const store: StoreFile = JSON.parse(await fs.readFile(this.filePath, "utf8"))
+
+			if (store.version === STORE_VERSION && store.modelId === this.modelId) {
+				this.files = new Map(Object.entries(store.files))
+			}
+		} catch (error) {
+			console.error(`[CodeIndexStore] failed to load ${this.filePath}: ${error}`)
+		}
+	}
+
+	async save() {
+		const store: StoreFile = {
+			version: STORE_VERSION,
+			modelId: this.modelId,
+			files: Object.fromEntries(this.files),
+		}
+
+		await fs.mkdir(path.dirname(this.filePath), { recursive: true })
+		await fs.writeFile(this.filePath, JSON.stringify(store))
+	}
+
+	async clear() {
+		this.files.clear()
+		await fs.rm(this.filePath, { force: true })
+	}
+
+	getHash(filePath: string): string | undefined {
+		return this.files.get(filePath)?.hash
+	}
+
+	getFilePaths(): string[] {
+		return [...this.files.keys()]
+	}
+
+	setFile(filePath: string, hash: string, chunks: IndexedChunk[]) {
+		this.files.set(filePath, { hash, chunks })
+	}
+
+	removeFile(filePath: string): boolean {
+		return this.files.delete(filePath)
+	}
+
+	get chunkCount() {
+		let count = 0
+		this.files.forEach(({ chunks }) => (count += chunks.length))
+		return count
+	}
+
+	/**
+	 * Returns the chunks most similar to the query vector, optionally limited
+	 * to files below `directory`.
+	 */
+	search(vector: number[], limit: number, directory?: string): CodeSearchResult[] {
+		const prefix = directory ? directory.replace(/\/+$/, "") + "/" : ""
+		const results: CodeSearchResult[] = []
+
+		for (const [filePath, { chunks }] of this.files) {
+			if (prefix && !filePath.startsWith(prefix)) {
+				continue
+			}
+
+			for (const { vector: chunkVector, ...chunk } of chunks) {
+				results.push({ ...chunk, score: cosineSimilarity(vector, chunkVector) })
+			}
+		}
+
+		return results.sort((a, b) => b.score - a.score).slice(0, limit)
+	}
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+	let dot = 0
+	let normA = 0
+	let normB = 0
+
+	for (let i = 0; i < Math.min(a.length, b.length); i++) {
+		dot += a[i] * b[i]
+		normA += a[i] * a[i]
+		normB += b[i] * b[i]
+	}
+
+	return normA && normB ? dot / Math.sqrt(normA * normB) : 0
+}
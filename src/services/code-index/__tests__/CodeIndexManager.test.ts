@@ -0,0 +1,154 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { listFiles } from "../../glob/list-files"
+import { CodeIndexManager } from "../CodeIndexManager"
+import { Embedder } from "../types"
+
+jest.mock("../../glob/list-files", () => ({
+	listFiles: jest.fn(),
+}))
+
+jest.mock("../../tree-sitter/languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn().mockResolvedValue({}),
+}))
+
+jest.mock("../../../core/ignore/RooIgnoreController", () => ({
+	RooIgnoreController: jest.fn().mockImplementation(() => ({
+		initialize: jest.fn().mockResolvedValue(undefined),
+		validateAccess: (filePath: string) => !filePath.includes("secret"),
+		dispose: jest.fn(),
+	})),
+}))
+
+// Embeds a text as the number of occurrences of each keyword.
+const KEYWORDS = ["apple", "banana", "cherry"]
+
+class KeywordEmbedder implements Embedder {
+	embeddedTexts: string[] = []
+
+	async embed(texts: string[]) {
+		this.embeddedTexts.push(...texts)
+		return texts.map((text) => KEYWORDS.map((keyword) => text.split(keyword).length - 1))
+	}
+}
+
+describe("CodeIndexManager", () => {
+	let storageDir: string
+	let workspaceDir: string
+	let embedder: KeywordEmbedder
+	let manager: CodeIndexManager
+
+	const config = { enabled: true, baseUrl: "http://localhost:11434/v1", modelId: "test-model" }
+
+	const writeWorkspaceFile = async (relPath: string, content: string) => {
+		const absolutePath = path.join(workspaceDir, relPath)
+		await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+		await fs.writeFile(absolutePath, content)
+		return absolutePath
+	}
+
+	const mockWorkspaceFiles = (...relPaths: string[]) =>
+		(listFiles as jest.Mock).mockResolvedValue([relPaths.map((relPath) => path.join(workspaceDir, relPath)), false])
+
+	beforeEach(async () => {
+		storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "code-index-storage-"))
+		workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "code-index-workspace-"))
+		embedder = new KeywordEmbedder()
+		manager = new CodeIndexManager(storageDir, workspaceDir, () => embedder)
+
+		await writeWorkspaceFile("src/apple.ts", "apple apple\napple\napple")
+		await writeWorkspaceFile("src/banana.ts", "banana\nbanana\nbanana")
+		await writeWorkspaceFile("secret/cherry.ts", "cherry\ncherry\ncherry")
+		await writeWorkspaceFile("notes.txt", "apple")
+		mockWorkspaceFiles("src/apple.ts", "src/banana.ts", "secret/cherry.ts", "notes.txt", "src/")
+	})
+
+	afterEach(async () => {
+		manager.dispose()
+		jest.useRealTimers()
+		await fs.rm(storageDir, { recursive: true, force: true })
+		await fs.rm(workspaceDir, { recursive: true, force: true })
+	})
+
+	it("is disabled until it is configured", async () => {
+		expect(manager.state).toBe("disabled")
+		await expect(manager.search("apple")).rejects.toThrow("not enabled")
+	})
+
+	it("indexes supported, non-ignored files and searches them", async () => {
+		await manager.configure(config)
+		await manager.waitForIdle()
+
+		expect(manager.state).toBe("ready")
+		expect(embedder.embeddedTexts.map((text) => text.split("\n")[0])).toEqual(["src/apple.ts", "src/banana.ts"])
+
+		const [result] = await manager.search("banana")
+		expect(result).toMatchObject({ filePath: "src/banana.ts", startLine: 1, endLine: 3 })
+	})
+
+	it("limits the search to a directory", async () => {
+		await writeWorkspaceFile("lib/banana.ts", "banana\nbanana\nbanana")
+		mockWorkspaceFiles("src/banana.ts", "lib/banana.ts")
+
+		await manager.configure(config)
+		await manager.waitForIdle()
+
+		const results = await manager.search("banana", path.join(workspaceDir, "lib"))
+		expect(results.map(({ filePath }) => filePath)).toEqual(["lib/banana.ts"])
+	})
+
+	it("only embeds changed files when the persisted index is reloaded", async () => {
+		await manager.configure(config)
+		await manager.waitForIdle()
+
+		await writeWorkspaceFile("src/banana.ts", "banana\ncherry\nbanana")
+		embedder.embeddedTexts = []
+
+		const reloaded = new CodeIndexManager(storageDir, workspaceDir, () => embedder)
+		await reloaded.configure(config)
+		await reloaded.waitForIdle()
+
+		expect(embedder.embeddedTexts).toEqual(["src/banana.ts\nbanana\ncherry\nbanana"])
+		reloaded.dispose()
+	})
+
+	it("applies file changes after a debounce", async () => {
+		await manager.configure(config)
+		await manager.waitForIdle()
+
+		jest.useFakeTimers()
+		const created = await writeWorkspaceFile("src/cherry.ts", "cherry\ncherry\ncherry")
+		manager.scheduleUpdate(created)
+		manager.scheduleRemoval(path.join(workspaceDir, "src/apple.ts"))
+		manager.scheduleUpdate(path.join(workspaceDir, "secret/cherry.ts"))
+		jest.advanceTimersByTime(2_000)
+		jest.useRealTimers()
+		await manager.waitForIdle()
+
+		const results = await manager.search("cherry apple", undefined, 10)
+		expect(results.map(({ filePath }) => filePath).sort()).toEqual(["src/banana.ts", "src/cherry.ts"])
+	})
+
+	it("disables the index when it is turned off", async () => {
+		await manager.configure(config)
+		await manager.waitForIdle()
+		await manager.configure({ ...config, enabled: false })
+
+		expect(manager.state).toBe("disabled")
+		await expect(manager.search("apple")).rejects.toThrow("not enabled")
+	})
+
+	it("reports embedding errors", async () => {
+		embedder.embed = jest.fn().mockRejectedValue(new Error("connection refused"))
+		const consoleError = jest.spyOn(console, "error").mockImplementation(() => {})
+
+		await manager.configure(config)
+		await manager.waitForIdle()
+
+		expect(manager.state).toBe("error")
+		expect(manager.error).toBe("connection refused")
+		consoleError.mockRestore()
+	})
+})
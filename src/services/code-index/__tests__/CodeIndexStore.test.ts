@@ -0,0 +1,92 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { CodeIndexStore, cosineSimilarity } from "../CodeIndexStore"
+import { IndexedChunk } from "../types"
+
+const chunk = (filePath: string, startLine: number, vector: number[]): IndexedChunk => ({
+	filePath,
+	startLine,
+	endLine: startLine + 5,
+	content: `content of ${filePath}:${startLine}`,
+	vector,
+})
+
+describe("CodeIndexStore", () => {
+	let tmpDir: string
+	let storePath: string
+
+	beforeEach(async () => {
+		tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), "code-index-store-"))
+		storePath = path.join(tmpDir, "index.json")
+	})
+
+	afterEach(async () => {
+		await fs.rm(tmpDir, { recursive: true, force: true })
+	})
+
+	it("ranks chunks by similarity to the query vector", () => {
+		const store = new CodeIndexStore(storePath, "model")
+		store.setFile("a.ts", "hash-a", [chunk("a.ts", 1, [1, 0]), chunk("a.ts", 10, [0, 1])])
+		store.setFile("b.ts", "hash-b", [chunk("b.ts", 1, [0.9, 0.1])])
+
+		const results = store.search([1, 0], 2)
+
+		expect(results.map(({ filePath, startLine }) => `${filePath}:${startLine}`)).toEqual(["a.ts:1", "b.ts:1"])
+		expect(results[0].score).toBeCloseTo(1)
+		expect(results[0]).not.toHaveProperty("vector")
+	})
+
+	it("limits the search to a directory", () => {
+		const store = new CodeIndexStore(storePath, "model")
+		store.setFile("src/a.ts", "hash-a", [chunk("src/a.ts", 1, [1, 0])])
+		store.setFile("srcold/b.ts", "hash-b", [chunk("srcold/b.ts", 1, [1, 0])])
+
+		expect(store.search([1, 0], 10, "src").map(({ filePath }) => filePath)).toEqual(["src/a.ts"])
+		expect(store.search([1, 0], 10, "src/").map(({ filePath }) => filePath)).toEqual(["src/a.ts"])
+	})
+
+	it("persists the index between sessions", async () => {
+		const store = new CodeIndexStore(storePath, "model")
+		store.setFile("a.ts", "hash-a", [chunk("a.ts", 1, [1, 0])])
+		await store.save()
+
+		const reloaded = new CodeIndexStore(storePath, "model")
+		await reloaded.load()
+
+		expect(reloaded.getHash("a.ts")).toBe("hash-a")
+		expect(reloaded.chunkCount).toBe(1)
+	})
+
+	it("discards an index created with another embedding model", async () => {
+		const store = new CodeIndexStore(storePath, "model")
+		store.setFile("a.ts", "hash-a", [chunk("a.ts", 1, [1, 0])])
+		await store.save()
+
+		const reloaded = new CodeIndexStore(storePath, "other-model")
+		await reloaded.load()
+
+		expect(reloaded.getFilePaths()).toEqual([])
+	})
+
+	it("removes files and clears the persisted index", async () => {
+		const store = new CodeIndexStore(storePath, "model")
+		store.setFile("a.ts", "hash-a", [chunk("a.ts", 1, [1, 0])])
+		await store.save()
+
+		expect(store.removeFile("a.ts")).toBe(true)
+		expect(store.removeFile("a.ts")).toBe(false)
+
+		await store.clear()
+		await expect(fs.access(storePath)).rejects.toThrow()
+	})
+})
+
+describe("cosineSimilarity", () => {
+	it("handles orthogonal and zero vectors", () => {
+		expect(cosineSimilarity([1, 0], [0, 1])).toBe(0)
+		expect(cosineSimilarity([0, 0], [1, 1])).toBe(0)
+		expect(cosineSimilarity([2, 2], [1, 1])).toBeCloseTo(1)
+	})
+})
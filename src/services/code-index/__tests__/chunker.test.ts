@@ -0,0 +1,105 @@
+import { LanguageParser } from "../../tree-sitter/languageParser"
+import { chunkFile, MAX_CHUNK_LINES } from "../chunker"
+
+type FakeCapture = { name: string; start: number; end: number; text?: string }
+
+// Builds a parser whose query returns the given captures for any input.
+const fakeParsers = (ext: string, captures: FakeCapture[]): LanguageParser =>
+	({
+		[ext]: {
+			parser: { parse: () => ({ rootNode: {} }) },
+			query: {
+				captures: () =>
+					captures.map(({ name, start, end, text }) => ({
+						name,
+						node: { startPosition: { row: start }, endPosition: { row: end }, text },
+					})),
+			},
+		},
+	}) as unknown as LanguageParser
+
+const numberedLines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`).join("\n")
+
+describe("chunkFile", () => {
+	it("creates a chunk for every top-level definition", () => {
+		const content = numberedLines(20)
+		const parsers = fakeParsers("ts", [
+			{ name: "definition.function", start: 0, end: 4 },
+			{ name: "name.definition.function", start: 0, end: 0, text: "first" },
+			{ name: "definition.class", start: 10, end: 15 },
+			{ name: "name.definition.class", start: 10, end: 10, text: "Second" },
+			{ name: "definition.method", start: 11, end: 14 },
+			{ name: "name.definition.method", start: 11, end: 11, text: "method" },
+		])
+
+		const chunks = chunkFile("src/file.ts", content, parsers)
+
+		expect(chunks).toEqual([
+			{
+				filePath: "src/file.ts",
+				identifier: "first",
+				startLine: 1,
+				endLine: 5,
+				content: "line 1\nline 2\nline 3\nline 4\nline 5",
+			},
+			expect.objectContaining({ identifier: "Second", startLine: 11, endLine: 16 }),
+		])
+	})
+
+	it("ignores definitions that are too small to be useful", () => {
+		const parsers = fakeParsers("ts", [
+			{ name: "definition.function", start: 0, end: 0 },
+			{ name: "definition.function", start: 2, end: 6 },
+		])
+
+		const chunks = chunkFile("file.ts", numberedLines(10), parsers)
+
+		expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([[3, 7]])
+	})
+
+	it("splits large definitions into their nested definitions", () => {
+		const length = MAX_CHUNK_LINES + 50
+		const parsers = fakeParsers("ts", [
+			{ name: "definition.class", start: 0, end: length - 1 },
+			{ name: "name.definition.class", start: 0, end: 0, text: "Big" },
+			{ name: "definition.method", start: 5, end: 20 },
+			{ name: "name.definition.method", start: 5, end: 5, text: "a" },
+			{ name: "definition.method", start: 120, end: 140 },
+			{ name: "name.definition.method", start: 120, end: 120, text: "b" },
+		])
+
+		const chunks = chunkFile("file.ts", numberedLines(length), parsers)
+
+		expect(chunks.map(({ identifier, startLine, endLine }) => [identifier, startLine, endLine])).toEqual([
+			["Big", 1, MAX_CHUNK_LINES],
+			["a", 6, 21],
+			["b", 121, 141],
+		])
+	})
+
+	it("falls back to fixed windows when there are no definitions", () => {
+		const length = MAX_CHUNK_LINES + 10
+		const chunks = chunkFile("config.ts", numberedLines(length), {})
+
+		expect(chunks.map(({ startLine, endLine }) => [startLine, endLine])).toEqual([
+			[1, MAX_CHUNK_LINES],
+			[MAX_CHUNK_LINES + 1, length],
+		])
+		expect(chunks[0].identifier).toBeUndefined()
+	})
+
+	it("chunks markdown files by section", () => {
+		const content = ["# Intro", "text", "more text", "", "# Usage", "step one", "step two", "step three"].join("\n")
+
+		const chunks = chunkFile("README.md", content, {})
+
+		expect(chunks.map(({ identifier, startLine }) => [identifier, startLine])).toEqual([
+			["Intro", 1],
+			["Usage", 5],
+		])
+	})
+
+	it("returns no chunks for empty files", () => {
+		expect(chunkFile("empty.ts", "\n  \n", {})).toEqual([])
+	})
+})
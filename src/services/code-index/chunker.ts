@@ -0,0 +1,131 @@
+import * as path from "path"
+
+import { LanguageParser } from "../tree-sitter/languageParser"
+import { textParsers } from "../tree-sitter/textParsers"
+import { CodeChunk } from "./types"
+
+// Definitions shorter than this are too small to be worth embedding on their own.
+const MIN_CHUNK_LINES = 3
+
+// Larger definitions are split into their nested definitions (e.g. a class
+// into its methods) and windows are used for files without definitions.
+export const MAX_CHUNK_LINES = 100
+
+const MAX_CHUNK_CHARS = 4_000
+
+type Capture = {
+	name: string
+	node: { startPosition: { row: number }; endPosition: { row: number }; text?: unknown }
+}
+
+type Range = { start: number; end: number; identifier?: string }
+
+const contains = (outer: Range, inner: Range) =>
+	outer.start <= inner.start && inner.end <= outer.end && (outer.start !== inner.start || outer.end !== inner.end)
+
+/**
+ * Splits a file into chunks for the semantic code index using the same
+ * tree-sitter captures as `list_code_definition_names`.
+ *
+ * Every top-level definition becomes a chunk. Definitions that are longer
+ * than `MAX_CHUNK_LINES` are additionally split into the definitions nested
+ * inside them. Files without any definitions (e.g. configuration files) are
+ * split into windows of `MAX_CHUNK_LINES` lines.
+ */
+export function chunkFile(filePath: string, content: string, languageParsers: LanguageParser): CodeChunk[] {
+	if (!content.trim()) {
+		return []
+	}
+
+	const lines = content.split("\n")
+	const ext = path.extname(filePath).toLowerCase()
+	let captures: Capture[] = []
+
+	if (textParsers[ext]) {
+		captures = textParsers[ext](content)
+	} else {
+		const { parser, query } = languageParsers[ext.slice(1)] ?? {}
+
+		if (parser && query) {
+			try {
+				captures = query.captures(parser.parse(content).rootNode)
+			} catch (error) {
+				console.error(`[chunkFile] failed to parse ${filePath}: ${error}`)
+			}
+		}
+	}
+
+	const ranges = getDefinitionRanges(captures)
+	const chunks: CodeChunk[] = []
+
+	const toChunk = ({ start, end, identifier }: Range): CodeChunk => {
+		const endLine = Math.min(end, start + MAX_CHUNK_LINES - 1)
+
+		return {
+			filePath,
+			identifier,
+			startLine: start + 1,
+			endLine: endLine + 1,
+			content: lines
+				.slice(start, endLine + 1)
+				.join("\n")
+				.slice(0, MAX_CHUNK_CHARS),
+		}
+	}
+
+	const visit = (range: Range, candidates: Range[]) => {
+		chunks.push(toChunk(range))
+
+		if (range.end - range.start + 1 <= MAX_CHUNK_LINES) {
+			return
+		}
+
+		const nested = candidates.filter((candidate) => contains(range, candidate))
+		outermost(nested).forEach((child) => visit(child, nested))
+	}
+
+	outermost(ranges).forEach((range) => visit(range, ranges))
+
+	if (chunks.length === 0) {
+		for (let start = 0; start < lines.length; start += MAX_CHUNK_LINES) {
+			chunks.push(toChunk({ start, end: Math.min(lines.length, start + MAX_CHUNK_LINES) - 1 }))
+		}
+	}
+
+	return chunks.filter((chunk) => chunk.content.trim().length > 0)
+}
+
+function getDefinitionRanges(captures: Capture[]): Range[] {
+	const names = captures
+		.filter(({ name, node }) => name.startsWith("name.definition") && typeof node.text === "string")
+		.sort((a, b) => a.node.startPosition.row - b.node.startPosition.row)
+
+	const ranges = new Map<string, Range>()
+
+	for (const { name, node } of captures) {
+		if (!name.startsWith("definition.")) {
+			continue
+		}
+
+		const start = node.startPosition.row
+		const end = node.endPosition.row
+		const key = `${start}-${end}`
+
+		if (end - start + 1 < MIN_CHUNK_LINES || ranges.has(key)) {
+			continue
+		}
+
+		// The first name inside a definition is the name of the definition
+		// itself; nested definitions come after it.
+		const identifier = names.find(({ node }) => node.startPosition.row >= start && node.endPosition.row <= end)
+			?.node.text as string | undefined
+
+		ranges.set(key, { start, end, identifier })
+	}
+
+	return [...ranges.values()].sort((a, b) => a.start - b.start || b.end - a.end)
+}
+
+function outermost(ranges: Range[]): Range[] {
+	return ranges.filter((range) => !ranges.some((other) => contains(other, range)))
+}
@@ -0,0 +1,55 @@
+import { Embedder, EmbedderConfig } from "./types"
+
+const BATCH_SIZE = 32
+
+type EmbeddingsResponse = {
+	data: { index: number; embedding: number[] }[]
+}
+
+/**
+ * Creates embeddings with an OpenAI-compatible `/embeddings` endpoint. This
+ * covers OpenAI itself as well as local servers like Ollama or LM Studio.
+ */
+export class OpenAiCompatibleEmbedder implements Embedder {
+	constructor(private readonly config: EmbedderConfig) {}
+
+	async embed(texts: string[]): Promise<number[][]> {
+		const vectors: number[][] = []
+
+		for (let i = 0; i < texts.length; i += BATCH_SIZE) {
+			vectors.push(...(await this.embedBatch(texts.slice(i, i + BATCH_SIZE))))
+		}
+
+		return vectors
+	}
+
+	private async embedBatch(input: string[]): Promise<number[][]> {
+		const url = `${this.config.baseUrl.replace(/\/+$/, "")}/embeddings`
+
+		const response = await fetch(url, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+			},
+			body: JSON.stringify({ model: this.config.modelId, input }),
+		})
+
+		if (!response.ok) {
+			const details = await response.text().catch(() => "")
+			throw new Error(
+				`Embedding request to ${url} failed with ${response.status}: ${details || response.statusText}`,
+			)
+		}
+
+		const { data } = (await response.json()) as EmbeddingsResponse
+
+		if (!Array.isArray(data) || data.length !== input.length) {
+			throw new Error(
+				`Embedding request to ${url} returned ${data?.length ?? 0} embeddings for ${input.length} inputs`,
+			)
+		}
+
+		return [...data].sort((a, b) => a.index - b.index).map(({ embedding }) => embedding)
+	}
+}
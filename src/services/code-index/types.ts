@@ -0,0 +1,31 @@
+/**
+ * A piece of a source file (usually a function or class) that is embedded as
+ * a whole. Paths are relative to the workspace and use forward slashes.
+ */
+export interface CodeChunk {
+	filePath: string
+	identifier?: string
+	startLine: number
+	endLine: number
+	content: string
+}
+
+export interface IndexedChunk extends CodeChunk {
+	vector: number[]
+}
+
+export interface CodeSearchResult extends CodeChunk {
+	score: number
+}
+
+export interface EmbedderConfig {
+	baseUrl: string
+	modelId: string
+	apiKey?: string
+}
+
+export interface Embedder {
+	embed(texts: string[]): Promise<number[][]>
+}
+
+export type CodeIndexState = "disabled" | "indexing" | "ready" | "error"
@@ -1,8 +1,29 @@
-import { globby, Options } from "globby"
+import { globby, isGitIgnored, Options } from "globby"
 import os from "os"
 import * as path from "path"
 import { arePathsEqual } from "../../utils/path"
 
+// Directories left out of recursive listings, just in case there is no
+// .gitignore.
+const DIRS_TO_IGNORE = [
+	"node_modules",
+	"__pycache__",
+	"env",
+	"venv",
+	"target/dependency",
+	"build/dependencies",
+	"dist",
+	"out",
+	"bundle",
+	"vendor",
+	"tmp",
+	"temp",
+	"deps",
+	"pkg",
+	"Pods",
+	".*", // '!**/.*' excludes hidden directories, while '!**/.*/**' excludes only their contents. This way we are at least aware of the existence of hidden directories.
+]
+
 export async function listFiles(dirPath: string, recursive: boolean, limit: number): Promise<[string[], boolean]> {
 	const absolutePath = path.resolve(dirPath)
 	// Do not allow listing files in root or home directory, which cline tends to want to do when the user's prompt is vague.
@@ -17,24 +38,7 @@ export async function listFiles(dirPath: string, recursive: boolean, limit: numb
 		return [[homeDir], false]
 	}
 
-	const dirsToIgnore = [
-		"node_modules",
-		"__pycache__",
-		"env",
-		"venv",
-		"target/dependency",
-		"build/dependencies",
-		"dist",
-		"out",
-		"bundle",
-		"vendor",
-		"tmp",
-		"temp",
-		"deps",
-		"pkg",
-		"Pods",
-		".*", // '!**/.*' excludes hidden directories, while '!**/.*/**' excludes only their contents. This way we are at least aware of the existence of hidden directories.
-	].map((dir) => `${dirPath}/**/${dir}/**`)
+	const dirsToIgnore = DIRS_TO_IGNORE.map((dir) => `${dirPath}/**/${dir}/**`)
 
 	const options = {
 		cwd: dirPath,
@@ -50,6 +54,34 @@ export async function listFiles(dirPath: string, recursive: boolean, limit: numb
 	return [files, files.length >= limit]
 }
 
+/**
+ * Returns a filter for the files in `dirPath` that recursive listings leave
+ * out: files in the ignored directories and gitignored files.
+ */
+export async function createIgnoredFileFilter(dirPath: string): Promise<(absolutePath: string) => boolean> {
+	const isIgnoredByGit = await isGitIgnored({ cwd: dirPath }).catch((error) => {
+		console.error(`[createIgnoredFileFilter] failed to read the .gitignore files: ${error}`)
+		return () => false
+	})
+
+	return (absolutePath: string) => {
+		const relPath = path.relative(dirPath, absolutePath)
+
+		if (relPath.startsWith("..") || path.isAbsolute(relPath)) {
+			return false
+		}
+
+		const dirs = relPath.toPosix().split("/").slice(0, -1)
+		const joinedDirs = `/${dirs.join("/")}/`
+
+		return (
+			DIRS_TO_IGNORE.some((dir) =>
+				dir === ".*" ? dirs.some((name) => name.startsWith(".")) : joinedDirs.includes(`/${dir}/`),
+			) || isIgnoredByGit(absolutePath)
+		)
+	}
+}
+
 /*
 Breadth-first traversal of directory structure level by level up to a limit:
    - Queue-based approach ensures proper breadth-first traversal
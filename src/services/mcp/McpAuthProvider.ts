@@ -0,0 +1,159 @@
+import { z } from "zod"
+
+import { McpAuthStatus } from "../../shared/mcp"
+
+/**
+ * Supplies access tokens to a transport. `refreshAccessToken` is the hook the
+ * transport calls when the server rejects the current token (HTTP 401).
+ */
+export interface McpAuthProvider {
+	getAccessToken(): Promise<string | undefined>
+	refreshAccessToken(): Promise<string | undefined>
+}
+
+export const McpAuthConfigSchema = z.discriminatedUnion("type", [
+	z.object({
+		type: z.literal("bearer"),
+		token: z.string().min(1, "Token cannot be empty"),
+	}),
+	z.object({
+		type: z.literal("oauth2"),
+		tokenUrl: z.string().url("Token URL must be a valid URL format"),
+		clientId: z.string().min(1, "Client ID cannot be empty"),
+		clientSecret: z.string().optional(),
+		refreshToken: z.string().optional(),
+		scope: z.string().optional(),
+	}),
+])
+
+export type McpAuthConfig = z.infer<typeof McpAuthConfigSchema>
+
+type OAuthConfig = Extract<McpAuthConfig, { type: "oauth2" }>
+
+// Refresh tokens a bit before they actually expire to avoid racing the server.
+const TOKEN_EXPIRY_MARGIN_MS = 60_000
+
+/**
+ * Sends a static bearer token. It can't be refreshed, so a rejected token
+ * marks the server as unauthorized until the configuration is updated.
+ */
+export class BearerTokenProvider implements McpAuthProvider {
+	constructor(
+		private readonly token: string,
+		private readonly onStatusChange?: (status: McpAuthStatus) => void,
+	) {}
+
+	async getAccessToken() {
+		return this.token
+	}
+
+	async refreshAccessToken() {
+		this.onStatusChange?.("unauthorized")
+		return undefined
+	}
+}
+
+/**
+ * Obtains access tokens from an OAuth 2.0 token endpoint, using the refresh
+ * token grant if a refresh token is configured and the client credentials
+ * grant otherwise. Rotated refresh tokens are kept in memory only.
+ */
+export class OAuthTokenProvider implements McpAuthProvider {
+	private accessToken?: string
+	private expiresAt?: number
+	private refreshToken?: string
+	private pendingRequest?: Promise<string | undefined>
+
+	constructor(
+		private readonly config: OAuthConfig,
+		private readonly onStatusChange?: (status: McpAuthStatus) => void,
+	) {
+		this.refreshToken = config.refreshToken
+	}
+
+	async getAccessToken() {
+		if (this.accessToken && (!this.expiresAt || Date.now() < this.expiresAt - TOKEN_EXPIRY_MARGIN_MS)) {
+			return this.accessToken
+		}
+
+		return this.refreshAccessToken()
+	}
+
+	refreshAccessToken() {
+		// Concurrent requests that hit a 401 at the same time share one refresh.
+		if (!this.pendingRequest) {
+			this.pendingRequest = this.requestToken().finally(() => {
+				this.pendingRequest = undefined
+			})
+		}
+
+		return this.pendingRequest
+	}
+
+	private async requestToken(): Promise<string | undefined> {
+		const { tokenUrl, clientId, clientSecret, scope } = this.config
+		this.onStatusChange?.("refreshing")
+
+		const body = new URLSearchParams(
+			this.refreshToken
+				? { grant_type: "refresh_token", refresh_token: this.refreshToken }
+				: { grant_type: "client_credentials" },
+		)
+
+		body.set("client_id", clientId)
+
+		if (clientSecret) {
+			body.set("client_secret", clientSecret)
+		}
+
+		if (scope) {
+			body.set("scope", scope)
+		}
+
+		try {
+			const response = await fetch(tokenUrl, {
+				method: "POST",
+				headers: { "Content-Type": "application/x-www-form-urlencoded", Accept: "application/json" },
+				body,
+			})
+
+			if (!response.ok) {
+				throw new Error(`Token request failed with status ${response.status}`)
+			}
+
+			const data = await response.json()
+
+			if (typeof data.access_token !== "string") {
+				throw new Error("Token response did not include an access token")
+			}
+
+			this.accessToken = data.access_token
+			this.expiresAt = typeof data.expires_in === "number" ? Date.now() + data.expires_in * 1000 : undefined
+
+			if (typeof data.refresh_token === "string") {
+				this.refreshToken = data.refresh_token
+			}
+
+			this.onStatusChange?.("authenticated")
+			return this.accessToken
+		} catch (error) {
+			console.error(`Failed to obtain an access token from ${tokenUrl}:`, error)
+			this.accessToken = undefined
+			this.expiresAt = undefined
+			this.onStatusChange?.("unauthorized")
+			return undefined
+		}
+	}
+}
+
+export function createAuthProvider(
+	config: McpAuthConfig,
+	onStatusChange?: (status: McpAuthStatus) => void,
+): McpAuthProvider {
+	switch (config.type) {
+		case "bearer":
+			return new BearerTokenProvider(config.token, onStatusChange)
+		case "oauth2":
+			return new OAuthTokenProvider(config, onStatusChange)
+	}
+}
@@ -30,11 +30,13 @@ import {
 } from "../../shared/mcp"
 import { fileExistsAtPath } from "../../utils/fs"
 import { arePathsEqual } from "../../utils/path"
+import { createAuthProvider, McpAuthConfigSchema } from "./McpAuthProvider"
+import { StreamableHttpClientTransport, StreamableHttpError } from "./StreamableHttpClientTransport"
 
 export type McpConnection = {
 	server: McpServer
 	client: Client
-	transport: StdioClientTransport | SSEClientTransport
+	transport: StdioClientTransport | SSEClientTransport | StreamableHttpClientTransport
 }
 
 // Base configuration schema for common settings
@@ -46,11 +48,13 @@ const BaseConfigSchema = z.object({
 })
 
 // Custom error messages for better user feedback
-const typeErrorMessage = "Server type must be either 'stdio' or 'sse'"
+const typeErrorMessage = "Server type must be either 'stdio', 'sse' or 'streamable-http'"
 const stdioFieldsErrorMessage =
 	"For 'stdio' type servers, you must provide a 'command' field and can optionally include 'args' and 'env'"
 const sseFieldsErrorMessage =
 	"For 'sse' type servers, you must provide a 'url' field and can optionally include 'headers'"
+const streamableHttpFieldsErrorMessage =
+	"For 'streamable-http' type servers, you must provide a 'url' field and can optionally include 'headers' and 'auth'"
 const mixedFieldsErrorMessage =
 	"Cannot mix 'stdio' and 'sse' fields. For 'stdio' use 'command', 'args', and 'env'. For 'sse' use 'url' and 'headers'"
 const missingFieldsErrorMessage = "Server configuration must include either 'command' (for stdio) or 'url' (for sse)"
@@ -89,9 +93,27 @@ const createServerTypeSchema = () => {
 				type: "sse" as const,
 			}))
 			.refine((data) => data.type === undefined || data.type === "sse", { message: typeErrorMessage }),
+		// Streamable HTTP config (has url field and an explicit type)
+		BaseConfigSchema.extend({
+			type: z.enum(["streamable-http"]),
+			url: z.string().url("URL must be a valid URL format"),
+			headers: z.record(z.string()).optional(),
+			auth: McpAuthConfigSchema.optional(),
+			// Ensure no stdio fields are present
+			command: z.undefined().optional(),
+			args: z.undefined().optional(),
+			env: z.undefined().optional(),
+		}),
 	])
 }
 
+// Backoff for reconnecting streamable-http servers whose connection dropped
+const RECONNECT_INITIAL_DELAY_MS = 1000
+const RECONNECT_MAX_DELAY_MS = 30_000
+const MAX_RECONNECT_ATTEMPTS = 5
+// A connection that stays up this long gets a fresh set of reconnection attempts.
+const RECONNECT_RESET_AFTER_MS = 60_000
+
 // Server configuration schema with automatic type inference and validation
 export const ServerConfigSchema = createServerTypeSchema()
 
@@ -110,6 +132,9 @@ export class McpHub {
 	connections: McpConnection[] = []
 	isConnecting: boolean = false
 	private refCount: number = 0 // Reference counter for active clients
+	private reconnectTimers: Map<string, NodeJS.Timeout> = new Map()
+	private reconnectAttempts: Map<string, number> = new Map()
+	private connectedAt: Map<string, number> = new Map()
 
 	constructor(provider: ClineProvider) {
 		this.providerRef = new WeakRef(provider)
@@ -167,7 +192,7 @@ export class McpHub {
 			} else {
 				throw new Error(missingFieldsErrorMessage)
 			}
-		} else if (config.type !== "stdio" && config.type !== "sse") {
+		} else if (config.type !== "stdio" && config.type !== "sse" && config.type !== "streamable-http") {
 			throw new Error(typeErrorMessage)
 		}
 
@@ -178,6 +203,9 @@ export class McpHub {
 		if (config.type === "sse" && !hasSseFields) {
 			throw new Error(sseFieldsErrorMessage)
 		}
+		if (config.type === "streamable-http" && !hasSseFields) {
+			throw new Error(streamableHttpFieldsErrorMessage)
+		}
 
 		// Validate the config against the schema
 		try {
@@ -444,7 +472,7 @@ export class McpHub {
 				},
 			)
 
-			let transport: StdioClientTransport | SSEClientTransport
+			let transport: StdioClientTransport | SSEClientTransport | StreamableHttpClientTransport
 
 			if (config.type === "stdio") {
 				transport = new StdioClientTransport({
@@ -506,6 +534,36 @@ export class McpHub {
 					console.error(`No stderr stream for ${name}`)
 				}
 				transport.start = async () => {} // No-op now, .connect() won't fail
+			} else if (config.type === "streamable-http") {
+				const authProvider = config.auth
+					? createAuthProvider(config.auth, async (authStatus) => {
+							const connection = this.findConnection(name, source)
+							if (connection) {
+								connection.server.authStatus = authStatus
+								await this.notifyWebviewOfServerChanges()
+							}
+						})
+					: undefined
+
+				transport = new StreamableHttpClientTransport(new URL(config.url), {
+					headers: config.headers,
+					authProvider,
+				})
+
+				// Errors reported as `StreamableHttpError` mean the transport
+				// gave up and closed itself; anything else is informational.
+				transport.onerror = async (error) => {
+					console.error(`Transport error for "${name}":`, error)
+					const connection = this.findConnection(name, source)
+					if (connection) {
+						this.appendErrorMessage(connection, error.message)
+						if (error instanceof StreamableHttpError) {
+							connection.server.status = "disconnected"
+							this.handleStreamableHttpFailure(connection, error)
+						}
+					}
+					await this.notifyWebviewOfServerChanges()
+				}
 			} else {
 				// SSE connection
 				const sseOptions = {
@@ -554,6 +612,11 @@ export class McpHub {
 			await client.connect(transport)
 			connection.server.status = "connected"
 			connection.server.error = ""
+			this.connectedAt.set(this.getReconnectKey(name, source), Date.now())
+
+			if (config.type === "streamable-http" && config.auth) {
+				connection.server.authStatus = "authenticated"
+			}
 
 			// Initial fetch of tools and resources
 			connection.server.tools = await this.fetchToolsList(name, source)
@@ -565,11 +628,96 @@ export class McpHub {
 			if (connection) {
 				connection.server.status = "disconnected"
 				this.appendErrorMessage(connection, error instanceof Error ? error.message : `${error}`)
+
+				if (config.type === "streamable-http") {
+					this.handleStreamableHttpFailure(connection, error)
+				}
 			}
 			throw error
 		}
 	}
 
+	/**
+	 * Decides what to do after a streamable-http connection failed: auth
+	 * failures need the user to fix the credentials, anything else (network
+	 * errors, expired sessions, dropped streams) is retried with backoff.
+	 */
+	private handleStreamableHttpFailure(connection: McpConnection, error: unknown) {
+		const { name, source = "global" } = connection.server
+
+		if (error instanceof StreamableHttpError && !error.isRecoverable) {
+			connection.server.authStatus = "unauthorized"
+			return
+		}
+
+		this.scheduleReconnect(name, source)
+	}
+
+	private getReconnectKey(name: string, source: "global" | "project") {
+		return `${source}:${name}`
+	}
+
+	private scheduleReconnect(name: string, source: "global" | "project") {
+		const key = this.getReconnectKey(name, source)
+
+		if (this.isDisposed || this.reconnectTimers.has(key)) {
+			return
+		}
+
+		// Only a connection that stayed up for a while counts as recovered;
+		// otherwise a server that keeps dropping it would be reconnected forever.
+		const connectedAt = this.connectedAt.get(key)
+		this.connectedAt.delete(key)
+
+		if (connectedAt !== undefined && Date.now() - connectedAt >= RECONNECT_RESET_AFTER_MS) {
+			this.reconnectAttempts.delete(key)
+		}
+
+		const attempt = this.reconnectAttempts.get(key) ?? 0
+
+		if (attempt >= MAX_RECONNECT_ATTEMPTS) {
+			const connection = this.findConnection(name, source)
+			if (connection) {
+				this.appendErrorMessage(connection, `Giving up after ${MAX_RECONNECT_ATTEMPTS} reconnection attempts`)
+			}
+			return
+		}
+
+		this.reconnectAttempts.set(key, attempt + 1)
+
+		const timer = setTimeout(
+			async () => {
+				this.reconnectTimers.delete(key)
+				const connection = this.findConnection(name, source)
+
+				if (!connection || this.isDisposed) {
+					return
+				}
+
+				try {
+					const config = this.validateServerConfig(JSON.parse(connection.server.config), name)
+					await this.connectToServer(name, config, source)
+				} catch (error) {
+					console.error(`Failed to reconnect to MCP server "${name}":`, error)
+				}
+
+				await this.notifyWebviewOfServerChanges()
+			},
+			Math.min(RECONNECT_INITIAL_DELAY_MS * 2 ** attempt, RECONNECT_MAX_DELAY_MS),
+		)
+
+		this.reconnectTimers.set(key, timer)
+	}
+
+	private clearReconnectTimer(name: string, source?: "global" | "project") {
+		const sources = source ? [source] : (["global", "project"] as const)
+
+		for (const key of sources.map((s) => this.getReconnectKey(name, s))) {
+			clearTimeout(this.reconnectTimers.get(key))
+			this.reconnectTimers.delete(key)
+		}
+	}
+
 	private appendErrorMessage(connection: McpConnection, error: string) {
 		const MAX_ERROR_LENGTH = 1000
 		const newError = connection.server.error ? `${connection.server.error}\n${error}` : error
@@ -691,6 +839,8 @@ export class McpHub {
 	}
 
 	async deleteConnection(name: string, source?: "global" | "project"): Promise<void> {
+		this.clearReconnectTimer(name, source)
+
 		// If source is provided, only delete connections from that source
 		const connections = source
 			? this.connections.filter((conn) => conn.server.name === name && conn.server.source === source)
@@ -863,6 +1013,11 @@ export class McpHub {
 					// Validate the config
 					const validatedConfig = this.validateServerConfig(parsedConfig, serverName)
 
+					// A manual restart gets a fresh set of automatic reconnection attempts
+					this.reconnectAttempts.delete(
+						this.getReconnectKey(serverName, connection.server.source || "global"),
+					)
+
 					// Try to connect again using validated config
 					await this.connectToServer(serverName, validatedConfig, connection.server.source || "global")
 					vscode.window.showInformationMessage(t("common:info.mcp_server_connected", { serverName }))
@@ -1277,6 +1432,8 @@ export class McpHub {
 		console.log("McpHub: Disposing...")
 		this.isDisposed = true
 		this.removeAllFileWatchers()
+		this.reconnectTimers.forEach((timer) => clearTimeout(timer))
+		this.reconnectTimers.clear()
 		for (const connection of this.connections) {
 			try {
 				await this.deleteConnection(connection.server.name, connection.server.source)
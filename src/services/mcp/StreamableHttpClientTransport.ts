@@ -0,0 +1,352 @@
+import { createParser, EventSourceMessage } from "eventsource-parser"
+import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js"
+import { JSONRPCMessage, JSONRPCMessageSchema } from "@modelcontextprotocol/sdk/types.js"
+
+import { McpAuthProvider } from "./McpAuthProvider"
+
+export class StreamableHttpError extends Error {
+	constructor(
+		public readonly code: number | undefined,
+		message: string,
+	) {
+		super(code === undefined ? message : `${message} (HTTP ${code})`)
+		this.name = "StreamableHttpError"
+	}
+
+	/**
+	 * Whether reconnecting could succeed without the user changing anything.
+	 * Authentication failures need new credentials.
+	 */
+	get isRecoverable() {
+		return this.code !== 401 && this.code !== 403
+	}
+}
+
+export type StreamableHttpClientTransportOptions = {
+	headers?: Record<string, string>
+	authProvider?: McpAuthProvider
+	/** Initial delay before reopening the server-to-client event stream. */
+	reconnectInitialDelayMs?: number
+	/** Upper bound for the exponential reconnect delay. */
+	reconnectMaxDelayMs?: number
+	/** Number of consecutive failed attempts after which the transport gives up. */
+	reconnectMaxRetries?: number
+	/** How long the event stream has to stay open to count as recovered. */
+	reconnectResetAfterMs?: number
+}
+
+const SESSION_ID_HEADER = "mcp-session-id"
+
+/**
+ * Client transport for the MCP Streamable HTTP transport: every message is
+ * POSTed to a single endpoint, which answers with either a JSON body or an
+ * SSE stream. The session id assigned by the server is sent back on every
+ * request, and server-initiated messages are received on a long-lived GET
+ * stream that is reopened with exponential backoff when it drops.
+ */
+export class StreamableHttpClientTransport implements Transport {
+	private abortController?: AbortController
+	private _sessionId?: string
+	private lastEventId?: string
+	private reconnectAttempts = 0
+	private reconnectTimeout?: NodeJS.Timeout
+	private isClosed = false
+
+	private readonly headers: Record<string, string>
+	private readonly authProvider?: McpAuthProvider
+	private readonly reconnectInitialDelayMs: number
+	private readonly reconnectMaxDelayMs: number
+	private readonly reconnectMaxRetries: number
+	private readonly reconnectResetAfterMs: number
+
+	onclose?: () => void
+	onerror?: (error: Error) => void
+	onmessage?: (message: JSONRPCMessage) => void
+
+	constructor(
+		private readonly url: URL,
+		options: StreamableHttpClientTransportOptions = {},
+	) {
+		this.headers = options.headers ?? {}
+		this.authProvider = options.authProvider
+		this.reconnectInitialDelayMs = options.reconnectInitialDelayMs ?? 1000
+		this.reconnectMaxDelayMs = options.reconnectMaxDelayMs ?? 30_000
+		this.reconnectMaxRetries = options.reconnectMaxRetries ?? 5
+		this.reconnectResetAfterMs = options.reconnectResetAfterMs ?? 60_000
+	}
+
+	get sessionId() {
+		return this._sessionId
+	}
+
+	async start() {
+		if (this.abortController) {
+			throw new Error("StreamableHttpClientTransport already started")
+		}
+
+		this.abortController = new AbortController()
+	}
+
+	async send(message: JSONRPCMessage) {
+		const response = await this.request("POST", {
+			headers: { "Content-Type": "application/json", Accept: "application/json, text/event-stream" },
+			body: JSON.stringify(message),
+		})
+
+		if (response.status === 202) {
+			// The server only acknowledges notifications and responses. Once the
+			// client has finished initializing we can listen for server-initiated
+			// messages.
+			if ("method" in message && message.method === "notifications/initialized") {
+				void this.openEventStream()
+			}
+
+			return
+		}
+
+		const contentType = response.headers.get("content-type") ?? ""
+
+		if (contentType.includes("text/event-stream")) {
+			// Responses (and any interleaved requests or notifications) arrive on
+			// the stream; don't block the sender while it's being read.
+			void this.readEventStream(response).catch((error) => this.handleStreamError(error))
+		} else if (contentType.includes("application/json")) {
+			const data = await response.json()
+
+			for (const item of Array.isArray(data) ? data : [data]) {
+				this.handleMessage(item)
+			}
+		} else {
+			await response.body?.cancel()
+		}
+	}
+
+	async close() {
+		if (this.isClosed) {
+			return
+		}
+
+		this.isClosed = true
+		clearTimeout(this.reconnectTimeout)
+		this.abortController?.abort()
+
+		if (this._sessionId) {
+			// Let the server release the session. Servers that don't support
+			// explicit termination answer 405, which is fine.
+			try {
+				const headers = await this.getHeaders()
+				await fetch(this.url, { method: "DELETE", headers })
+			} catch (error) {
+				console.error(`Failed to terminate MCP session ${this._sessionId}:`, error)
+			}
+
+			this._sessionId = undefined
+		}
+
+		this.onclose?.()
+	}
+
+	private async getHeaders(extra: Record<string, string> = {}) {
+		const headers: Record<string, string> = { ...this.headers, ...extra }
+		const token = await this.authProvider?.getAccessToken()
+
+		if (token) {
+			headers["Authorization"] = `Bearer ${token}`
+		}
+
+		if (this._sessionId) {
+			headers[SESSION_ID_HEADER] = this._sessionId
+		}
+
+		return headers
+	}
+
+	/**
+	 * Sends a request, refreshing the access token and retrying once if the
+	 * server rejects it, and keeps track of the session id.
+	 */
+	private async request(method: "GET" | "POST", init: { headers: Record<string, string>; body?: string }) {
+		if (!this.abortController || this.isClosed) {
+			throw new StreamableHttpError(undefined, "Transport is not started")
+		}
+
+		const signal = this.abortController.signal
+		let response = await fetch(this.url, {
+			method,
+			body: init.body,
+			headers: await this.getHeaders(init.headers),
+			signal,
+		})
+
+		if (response.status === 401 && this.authProvider) {
+			await response.body?.cancel()
+
+			if (await this.authProvider.refreshAccessToken()) {
+				response = await fetch(this.url, {
+					method,
+					body: init.body,
+					headers: await this.getHeaders(init.headers),
+					signal,
+				})
+			}
+		}
+
+		const sessionId = response.headers.get(SESSION_ID_HEADER)
+
+		if (sessionId) {
+			this._sessionId = sessionId
+		}
+
+		if (response.ok || (method === "GET" && response.status === 405)) {
+			return response
+		}
+
+		const text = await response.text().catch(() => "")
+
+		if (response.status === 404 && this._sessionId) {
+			// The server no longer knows our session; the client has to
+			// initialize a new one.
+			this._sessionId = undefined
+			const error = new StreamableHttpError(404, "MCP session expired")
+			this.fail(error)
+			throw error
+		}
+
+		throw new StreamableHttpError(
+			response.status,
+			`Error ${method === "GET" ? "opening stream" : "sending message"}: ${text || response.statusText}`,
+		)
+	}
+
+	private async openEventStream() {
+		if (this.isClosed) {
+			return
+		}
+
+		let openedAt: number | undefined
+
+		try {
+			const response = await this.request("GET", {
+				headers: {
+					Accept: "text/event-stream",
+					...(this.lastEventId ? { "last-event-id": this.lastEventId } : {}),
+				},
+			})
+
+			if (response.status === 405) {
+				// The server doesn't offer a stream for server-initiated messages.
+				await response.body?.cancel()
+				return
+			}
+
+			openedAt = Date.now()
+			await this.readEventStream(response)
+
+			// The server closed the stream; reopen it.
+			this.onEventStreamClosed(openedAt)
+			this.scheduleReconnect()
+		} catch (error) {
+			this.onEventStreamClosed(openedAt)
+			this.handleStreamError(error, true)
+		}
+	}
+
+	/**
+	 * Only a stream that stayed open for a while counts as recovered;
+	 * otherwise a server that keeps closing it would be reopened forever.
+	 */
+	private onEventStreamClosed(openedAt?: number) {
+		if (openedAt !== undefined && Date.now() - openedAt >= this.reconnectResetAfterMs) {
+			this.reconnectAttempts = 0
+		}
+	}
+
+	private async readEventStream(response: Response) {
+		if (!response.body) {
+			return
+		}
+
+		const parser = createParser({
+			onEvent: (event: EventSourceMessage) => {
+				if (event.id) {
+					this.lastEventId = event.id
+				}
+
+				if (!event.event || event.event === "message") {
+					try {
+						this.handleMessage(JSON.parse(event.data))
+					} catch (error) {
+						this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+					}
+				}
+			},
+		})
+
+		const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+
+		while (true) {
+			const { value, done } = await reader.read()
+
+			if (done) {
+				break
+			}
+
+			parser.feed(value)
+		}
+	}
+
+	private handleMessage(data: unknown) {
+		try {
+			this.onmessage?.(JSONRPCMessageSchema.parse(data))
+		} catch (error) {
+			this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+		}
+	}
+
+	private handleStreamError(error: unknown, reconnect = false) {
+		if (this.isClosed) {
+			return
+		}
+
+		if (error instanceof StreamableHttpError && !error.isRecoverable) {
+			this.fail(error)
+			return
+		}
+
+		this.onerror?.(error instanceof Error ? error : new Error(String(error)))
+
+		if (reconnect) {
+			this.scheduleReconnect()
+		}
+	}
+
+	private scheduleReconnect() {
+		if (this.isClosed) {
+			return
+		}
+
+		if (this.reconnectAttempts >= this.reconnectMaxRetries) {
+			this.fail(
+				new StreamableHttpError(
+					undefined,
+					`Event stream disconnected after ${this.reconnectMaxRetries} reconnection attempts`,
+				),
+			)
+
+			return
+		}
+
+		const delay = Math.min(this.reconnectInitialDelayMs * 2 ** this.reconnectAttempts, this.reconnectMaxDelayMs)
+		this.reconnectAttempts++
+		this.reconnectTimeout = setTimeout(() => void this.openEventStream(), delay)
+	}
+
+	/**
+	 * Reports an error the transport can't recover from by itself and closes
+	 * it, so that the owner can decide whether to reconnect.
+	 */
+	private fail(error: StreamableHttpError) {
+		this.onerror?.(error)
+		void this.close()
+	}
+}
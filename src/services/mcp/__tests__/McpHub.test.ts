@@ -562,4 +562,49 @@ describe("McpHub", () => {
 			})
 		})
 	})
+
+	describe("streamable-http configuration", () => {
+		it("should accept streamable-http servers with headers and auth", () => {
+			const config = ServerConfigSchema.parse({
+				type: "streamable-http",
+				url: "https://mcp.example.com/mcp",
+				headers: { "X-Team": "platform" },
+				auth: {
+					type: "oauth2",
+					tokenUrl: "https://auth.example.com/token",
+					clientId: "roo",
+				},
+			})
+
+			expect(config.type).toBe("streamable-http")
+			expect(config).toHaveProperty("auth.type", "oauth2")
+		})
+
+		it("should reject invalid auth configurations", () => {
+			const invalidConfigs = [
+				{ type: "streamable-http", url: "https://mcp.example.com/mcp", auth: { type: "basic" } },
+				{ type: "streamable-http", url: "https://mcp.example.com/mcp", auth: { type: "bearer", token: "" } },
+				{
+					type: "streamable-http",
+					url: "https://mcp.example.com/mcp",
+					auth: { type: "oauth2", clientId: "roo" },
+				},
+			]
+
+			invalidConfigs.forEach((config) => {
+				expect(() => ServerConfigSchema.parse(config)).toThrow()
+			})
+		})
+
+		it("should require a url for streamable-http servers", () => {
+			expect(() => (mcpHub as any).validateServerConfig({ type: "streamable-http" })).toThrow(
+				"For 'streamable-http' type servers, you must provide a 'url' field",
+			)
+		})
+
+		it("should not treat servers without an explicit type as streamable-http", () => {
+			const config = ServerConfigSchema.parse({ url: "https://mcp.example.com/sse" })
+			expect(config.type).toBe("sse")
+		})
+	})
 })
@@ -0,0 +1,264 @@
+// npx jest src/services/mcp/__tests__/StreamableHttpClientTransport.test.ts
+
+import { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js"
+
+import { McpAuthProvider } from "../McpAuthProvider"
+import { StreamableHttpClientTransport, StreamableHttpError } from "../StreamableHttpClientTransport"
+
+const url = new URL("https://mcp.example.com/mcp")
+
+const initializeRequest: JSONRPCMessage = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+}
+
+const initializeResult: JSONRPCMessage = {
+	jsonrpc: "2.0",
+	id: 1,
+	result: { protocolVersion: "2025-03-26", capabilities: {}, serverInfo: { name: "server", version: "1.0.0" } },
+}
+
+const jsonResponse = (body: unknown, headers: Record<string, string> = {}, status = 200) =>
+	new Response(JSON.stringify(body), { status, headers: { "content-type": "application/json", ...headers } })
+
+const sseResponse = (events: string) =>
+	new Response(events, { status: 200, headers: { "content-type": "text/event-stream" } })
+
+describe("StreamableHttpClientTransport", () => {
+	let fetchMock: jest.Mock
+	const originalFetch = global.fetch
+	const originalConsoleError = console.error
+
+	beforeEach(() => {
+		fetchMock = jest.fn()
+		global.fetch = fetchMock
+		console.error = jest.fn()
+	})
+
+	afterEach(() => {
+		global.fetch = originalFetch
+		console.error = originalConsoleError
+	})
+
+	const getRequest = (index: number) => {
+		const [, init] = fetchMock.mock.calls[index]
+		return { method: init.method, headers: init.headers as Record<string, string>, body: init.body }
+	}
+
+	it("should deliver JSON responses and remember the session id", async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(initializeResult, { "mcp-session-id": "session-1" }))
+			.mockResolvedValueOnce(jsonResponse({ jsonrpc: "2.0", id: 2, result: {} }))
+
+		const transport = new StreamableHttpClientTransport(url, { headers: { "X-Team": "platform" } })
+		const onmessage = jest.fn()
+		transport.onmessage = onmessage
+		await transport.start()
+
+		await transport.send(initializeRequest)
+		expect(onmessage).toHaveBeenCalledWith(initializeResult)
+		expect(transport.sessionId).toBe("session-1")
+		expect(getRequest(0).headers["X-Team"]).toBe("platform")
+		expect(getRequest(0).headers["mcp-session-id"]).toBeUndefined()
+
+		await transport.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })
+		expect(getRequest(1).headers["mcp-session-id"]).toBe("session-1")
+	})
+
+	it("should deliver messages from SSE responses", async () => {
+		fetchMock.mockResolvedValueOnce(
+			sseResponse(`event: message\nid: 1\ndata: ${JSON.stringify(initializeResult)}\n\n`),
+		)
+
+		const transport = new StreamableHttpClientTransport(url)
+		const received = new Promise((resolve) => (transport.onmessage = resolve))
+		await transport.start()
+		await transport.send(initializeRequest)
+
+		await expect(received).resolves.toEqual(initializeResult)
+	})
+
+	it("should refresh the access token and retry when the server responds with 401", async () => {
+		const authProvider: McpAuthProvider = {
+			getAccessToken: jest.fn().mockResolvedValueOnce("expired").mockResolvedValue("fresh"),
+			refreshAccessToken: jest.fn().mockResolvedValue("fresh"),
+		}
+
+		fetchMock
+			.mockResolvedValueOnce(new Response(null, { status: 401 }))
+			.mockResolvedValueOnce(jsonResponse(initializeResult))
+
+		const transport = new StreamableHttpClientTransport(url, { authProvider })
+		await transport.start()
+		await transport.send(initializeRequest)
+
+		expect(authProvider.refreshAccessToken).toHaveBeenCalledTimes(1)
+		expect(getRequest(0).headers["Authorization"]).toBe("Bearer expired")
+		expect(getRequest(1).headers["Authorization"]).toBe("Bearer fresh")
+	})
+
+	it("should fail with a non-recoverable error if the token can't be refreshed", async () => {
+		const authProvider: McpAuthProvider = {
+			getAccessToken: jest.fn().mockResolvedValue("expired"),
+			refreshAccessToken: jest.fn().mockResolvedValue(undefined),
+		}
+
+		fetchMock.mockResolvedValueOnce(new Response(null, { status: 401 }))
+
+		const transport = new StreamableHttpClientTransport(url, { authProvider })
+		await transport.start()
+
+		const error = await transport.send(initializeRequest).catch((e) => e)
+		expect(error).toBeInstanceOf(StreamableHttpError)
+		expect(error.code).toBe(401)
+		expect(error.isRecoverable).toBe(false)
+		expect(fetchMock).toHaveBeenCalledTimes(1)
+	})
+
+	it("should report an expired session and close", async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(initializeResult, { "mcp-session-id": "session-1" }))
+			.mockResolvedValueOnce(new Response("Session not found", { status: 404 }))
+
+		const transport = new StreamableHttpClientTransport(url)
+		const onerror = jest.fn()
+		const onclose = jest.fn()
+		transport.onerror = onerror
+		transport.onclose = onclose
+		await transport.start()
+		await transport.send(initializeRequest)
+
+		await expect(transport.send({ jsonrpc: "2.0", id: 2, method: "tools/list" })).rejects.toThrow(
+			"MCP session expired",
+		)
+
+		expect(onerror).toHaveBeenCalledWith(expect.objectContaining({ code: 404, isRecoverable: true }))
+		expect(onclose).toHaveBeenCalled()
+		expect(transport.sessionId).toBeUndefined()
+	})
+
+	it("should open the event stream after initialization and terminate the session on close", async () => {
+		fetchMock
+			.mockResolvedValueOnce(jsonResponse(initializeResult, { "mcp-session-id": "session-1" }))
+			.mockResolvedValueOnce(new Response(null, { status: 202 }))
+			.mockResolvedValueOnce(new Response(null, { status: 405 }))
+			.mockResolvedValueOnce(new Response(null, { status: 200 }))
+
+		const transport = new StreamableHttpClientTransport(url)
+		await transport.start()
+		await transport.send(initializeRequest)
+		await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" })
+
+		// Let the background GET complete.
+		await new Promise((resolve) => setImmediate(resolve))
+		expect(getRequest(2).method).toBe("GET")
+		expect(getRequest(2).headers["Accept"]).toBe("text/event-stream")
+
+		await transport.close()
+		expect(getRequest(3).method).toBe("DELETE")
+		expect(getRequest(3).headers["mcp-session-id"]).toBe("session-1")
+	})
+
+	it("should reopen a dropped event stream with backoff and give up eventually", async () => {
+		jest.useFakeTimers()
+
+		try {
+			fetchMock.mockImplementation(async (_url, init) =>
+				init.method === "GET" ? sseResponse("") : new Response(null, { status: 202 }),
+			)
+
+			const transport = new StreamableHttpClientTransport(url, {
+				reconnectInitialDelayMs: 100,
+				reconnectMaxRetries: 2,
+			})
+
+			const onerror = jest.fn()
+			transport.onerror = onerror
+			await transport.start()
+			await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" })
+
+			// Initial stream, two reconnects, then the transport gives up.
+			await jest.advanceTimersByTimeAsync(1000)
+
+			const gets = fetchMock.mock.calls.filter(([, init]) => init.method === "GET")
+			expect(gets).toHaveLength(3)
+			expect(onerror).toHaveBeenCalledWith(expect.objectContaining({ isRecoverable: true }))
+		} finally {
+			jest.useRealTimers()
+		}
+	})
+
+	it("should give up on a stream that keeps closing even if it delivers events", async () => {
+		jest.useFakeTimers()
+
+		try {
+			fetchMock.mockImplementation(async (_url, init) =>
+				init.method === "GET"
+					? sseResponse(`data: ${JSON.stringify({ jsonrpc: "2.0", method: "notifications/ping" })}\n\n`)
+					: new Response(null, { status: 202 }),
+			)
+
+			const transport = new StreamableHttpClientTransport(url, {
+				reconnectInitialDelayMs: 100,
+				reconnectMaxRetries: 2,
+			})
+
+			const onmessage = jest.fn()
+			transport.onmessage = onmessage
+			transport.onerror = jest.fn()
+			await transport.start()
+			await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" })
+
+			await jest.advanceTimersByTimeAsync(1000)
+
+			expect(fetchMock.mock.calls.filter(([, init]) => init.method === "GET")).toHaveLength(3)
+			expect(onmessage).toHaveBeenCalledTimes(3)
+		} finally {
+			jest.useRealTimers()
+		}
+	})
+
+	it("should reset the reconnect attempts once a stream stayed open for a while", async () => {
+		jest.useFakeTimers()
+
+		try {
+			// Every other stream stays open long enough to count as recovered.
+			let streams = 0
+			const longLivedStream = () =>
+				new ReadableStream({
+					start(controller) {
+						setTimeout(() => controller.close(), 1000)
+					},
+				})
+
+			fetchMock.mockImplementation(async (_url, init) =>
+				init.method === "GET"
+					? new Response(streams++ % 2 ? longLivedStream() : "", {
+							status: 200,
+							headers: { "content-type": "text/event-stream" },
+						})
+					: new Response(null, { status: 202 }),
+			)
+
+			const transport = new StreamableHttpClientTransport(url, {
+				reconnectInitialDelayMs: 100,
+				reconnectMaxRetries: 2,
+				reconnectResetAfterMs: 1000,
+			})
+
+			const onerror = jest.fn()
+			transport.onerror = onerror
+			await transport.start()
+			await transport.send({ jsonrpc: "2.0", method: "notifications/initialized" })
+
+			await jest.advanceTimersByTimeAsync(5000)
+
+			expect(fetchMock.mock.calls.filter(([, init]) => init.method === "GET").length).toBeGreaterThan(3)
+			expect(onerror).not.toHaveBeenCalled()
+		} finally {
+			jest.useRealTimers()
+		}
+	})
+})
@@ -0,0 +1,303 @@
+import * as crypto from "crypto"
+import * as fs from "fs/promises"
+import * as path from "path"
+import { Tiktoken } from "js-tiktoken/lite"
+import o200kBase from "js-tiktoken/ranks/o200k_base"
+
+import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
+import { getRepoMapDirectoryPath } from "../../shared/storagePathManager"
+import { getHeadCommit } from "../../utils/git"
+import { createIgnoredFileFilter, listFiles } from "../glob/list-files"
+import { countWordMatches } from "../ripgrep"
+import { extensions as supportedExtensions } from "../tree-sitter"
+import { loadRequiredLanguageParsers } from "../tree-sitter/languageParser"
+import { findTopLevelDefinitions } from "../tree-sitter/symbols"
+import { textParsers } from "../tree-sitter/textParsers"
+
+const MAX_MAPPED_FILES = 1_000
+const MAX_FILE_SIZE_BYTES = 1024 * 1024
+const MAX_LINE_LENGTH = 200
+
+// Names this short (e.g. `id` or `db`) are everywhere, so their matches
+// aren't counted as references.
+const MIN_REFERENCED_NAME_LENGTH = 3
+const IDENTIFIER_REGEX = /^[\p{L}_$][\p{L}\p{N}_$]*$/u
+
+// Changes to this many files since the map was built make it stale, even if
+// no commit was made in the meantime.
+const SIGNIFICANT_CHANGE_COUNT = 20
+
+type CountReferences = (
+	directoryPath: string,
+	names: string[],
+	rooIgnoreController?: RooIgnoreController,
+) => Promise<Map<string, number>>
+
+type MappedDefinition = {
+	relPath: string
+	name: string
+	startLine: number
+	endLine: number
+	text: string
+	score: number
+}
+
+type CachedRepoMap = {
+	commit?: string
+	maxTokens: number
+	map: string
+}
+
+let encoder: Tiktoken | undefined
+
+const countTokens = (text: string) => {
+	encoder ??= new Tiktoken(o200kBase)
+	return encoder.encode(text).length
+}
+
+/**
+ * Builds the repository map of a workspace: its top-level definitions, ranked
+ * by how often their names occur in the workspace and trimmed to a token
+ * budget.
+ *
+ * The map is cached per commit and built again when HEAD moves or after
+ * significant changes reported by the `WorkspaceTracker`. There is one
+ * instance per workspace, shared by all tasks, but every task keeps the map
+ * it started with.
+ */
+export class RepoMapManager {
+	private static instances = new Map<string, RepoMapManager>()
+
+	static getInstance(globalStoragePath: string, workspacePath: string): RepoMapManager {
+		let instance = this.instances.get(workspacePath)
+
+		if (!instance) {
+			instance = new RepoMapManager(globalStoragePath, workspacePath)
+			this.instances.set(workspacePath, instance)
+		}
+
+		return instance
+	}
+
+	static disposeAll() {
+		this.instances.forEach((instance) => instance.dispose())
+		this.instances.clear()
+	}
+
+	private cache?: CachedRepoMap
+	private didLoadCache = false
+	private changedFiles = new Set<string>()
+	// Changes to files that aren't mapped, e.g. gitignored ones, are ignored.
+	private isIgnoredFile?: (absolutePath: string) => boolean
+	private rooIgnoreController?: RooIgnoreController
+	private queue: Promise<unknown> = Promise.resolve()
+
+	constructor(
+		private readonly globalStoragePath: string,
+		private readonly workspacePath: string,
+		private readonly countReferences: CountReferences = countWordMatches,
+	) {}
+
+	/**
+	 * Returns the map of the workspace, built with at most `maxTokens` tokens.
+	 */
+	async getRepoMap(maxTokens: number): Promise<string> {
+		// Requests are queued so that concurrent tasks share one build.
+		const result = this.queue.then(() => this.getOrBuildRepoMap(maxTokens))
+		this.queue = result.catch(() => {})
+		return result
+	}
+
+	/**
+	 * Records that a file was created, changed or deleted. The map is built
+	 * again once enough files of a supported type changed.
+	 */
+	recordChange(absolutePath: string) {
+		if (this.isMappable(absolutePath) && !this.isIgnoredFile?.(absolutePath)) {
+			this.changedFiles.add(this.toRelativePath(absolutePath))
+		}
+	}
+
+	dispose() {
+		this.changedFiles.clear()
+		this.rooIgnoreController?.dispose()
+		this.rooIgnoreController = undefined
+	}
+
+	private async getOrBuildRepoMap(maxTokens: number): Promise<string> {
+		const commit = await getHeadCommit(this.workspacePath)
+
+		if (!this.didLoadCache) {
+			this.didLoadCache = true
+			this.cache = await this.loadCache()
+		}
+
+		if (
+			this.cache &&
+			this.cache.commit === commit &&
+			this.cache.maxTokens === maxTokens &&
+			this.changedFiles.size < SIGNIFICANT_CHANGE_COUNT
+		) {
+			this.isIgnoredFile ??= await createIgnoredFileFilter(this.workspacePath)
+			return this.cache.map
+		}
+
+		// Changes made while the map is built count towards the next build.
+		this.changedFiles.clear()
+		// The .gitignore files may have changed too.
+		this.isIgnoredFile = await createIgnoredFileFilter(this.workspacePath)
+
+		const map = formatRepoMap(await this.rankDefinitions(), maxTokens)
+		this.cache = { commit, maxTokens, map }
+
+		// Maps of a workspace without commits can't be matched to its files
+		// later on, so they're only kept in memory.
+		if (commit) {
+			await fs.writeFile(await this.getCachePath(), JSON.stringify(this.cache)).catch((error) => {
+				console.error(`[RepoMapManager] failed to save the repository map: ${error}`)
+			})
+		}
+
+		return map
+	}
+
+	private async rankDefinitions(): Promise<MappedDefinition[]> {
+		if (!this.rooIgnoreController) {
+			this.rooIgnoreController = new RooIgnoreController(this.workspacePath)
+			await this.rooIgnoreController.initialize()
+		}
+
+		const [files] = await listFiles(this.workspacePath, true, MAX_MAPPED_FILES)
+		const mappableFiles = files.filter((file) => this.isMappable(file))
+		const languageParsers = await loadRequiredLanguageParsers(
+			mappableFiles.filter((file) => !textParsers[path.extname(file).toLowerCase()]),
+		)
+
+		const definitions: MappedDefinition[] = []
+
+		for (const file of mappableFiles) {
+			let content: string
+
+			try {
+				const stats = await fs.stat(file)
+
+				if (!stats.isFile() || stats.size > MAX_FILE_SIZE_BYTES) {
+					continue
+				}
+
+				content = await fs.readFile(file, "utf8")
+			} catch {
+				continue
+			}
+
+			const lines = content.split("\n")
+
+			for (const { name, startLine, endLine } of findTopLevelDefinitions(file, content, languageParsers) ?? []) {
+				definitions.push({
+					relPath: this.toRelativePath(file),
+					name,
+					startLine,
+					endLine,
+					text: lines[startLine].trimEnd().slice(0, MAX_LINE_LENGTH),
+					score: 0,
+				})
+			}
+		}
+
+		const definitionCounts = new Map<string, number>()
+
+		for (const { name } of definitions) {
+			definitionCounts.set(name, (definitionCounts.get(name) ?? 0) + 1)
+		}
+
+		const names = [...definitionCounts.keys()].filter(
+			(name) => name.length >= MIN_REFERENCED_NAME_LENGTH && IDENTIFIER_REGEX.test(name),
+		)
+
+		const references = await this.countReferences(this.workspacePath, names, this.rooIgnoreController).catch(
+			(error) => {
+				console.error(`[RepoMapManager] failed to count references: ${error}`)
+				return new Map<string, number>()
+			},
+		)
+
+		// The definitions themselves are matches of their names too, and the
+		// references to a name are split between all definitions of it.
+		for (const definition of definitions) {
+			const count = definitionCounts.get(definition.name)!
+			definition.score = Math.max(0, (references.get(definition.name) ?? 0) - count) / count
+		}
+
+		return definitions.sort(
+			(a, b) => b.score - a.score || a.relPath.localeCompare(b.relPath) || a.startLine - b.startLine,
+		)
+	}
+
+	private async loadCache(): Promise<CachedRepoMap | undefined> {
+		try {
+			return JSON.parse(await fs.readFile(await this.getCachePath(), "utf8"))
+		} catch {
+			return undefined
+		}
+	}
+
+	private async getCachePath() {
+		const cacheDir = await getRepoMapDirectoryPath(this.globalStoragePath)
+		const workspaceId = crypto.createHash("sha256").update(this.workspacePath).digest("hex").slice(0, 16)
+		return path.join(cacheDir, `${workspaceId}.json`)
+	}
+
+	private isMappable(filePath: string) {
+		const absolutePath = path.resolve(this.workspacePath, filePath)
+		const relPath = path.relative(this.workspacePath, absolutePath)
+
+		return (
+			!filePath.endsWith("/") &&
+			!relPath.startsWith("..") &&
+			!path.isAbsolute(relPath) &&
+			supportedExtensions.includes(path.extname(absolutePath).toLowerCase()) &&
+			(this.rooIgnoreController?.validateAccess(absolutePath) ?? true)
+		)
+	}
+
+	private toRelativePath(filePath: string) {
+		return path.relative(this.workspacePath, path.resolve(this.workspacePath, filePath)).toPosix()
+	}
+}
+
+/**
+ * Formats the highest ranked definitions that fit into the token budget like
+ * the output of `list_code_definition_names`, grouped by file. The files are
+ * ordered by their highest ranked definition.
+ */
+function formatRepoMap(definitions: MappedDefinition[], maxTokens: number): string {
+	const files = new Map<string, MappedDefinition[]>()
+	let tokens = 0
+
+	for (const definition of definitions) {
+		const header = files.has(definition.relPath) ? "" : `# ${definition.relPath}\n`
+		const cost = countTokens(header + formatDefinition(definition))
+
+		if (tokens + cost > maxTokens) {
+			continue
+		}
+
+		tokens += cost
+		files.set(definition.relPath, [...(files.get(definition.relPath) ?? []), definition])
+	}
+
+	return [...files]
+		.map(
+			([relPath, fileDefinitions]) =>
+				`# ${relPath}\n` +
+				fileDefinitions
+					.sort((a, b) => a.startLine - b.startLine)
+					.map(formatDefinition)
+					.join(""),
+		)
+		.join("\n")
+		.trimEnd()
+}
+
+const formatDefinition = ({ startLine, endLine, text }: MappedDefinition) =>
+	`${startLine + 1}--${endLine + 1} | ${text}\n`
@@ -0,0 +1,177 @@
+import * as fs from "fs/promises"
+import * as os from "os"
+import * as path from "path"
+
+import { isGitIgnored } from "globby"
+
+import { listFiles } from "../../glob/list-files"
+import { getHeadCommit } from "../../../utils/git"
+import { RepoMapManager } from "../RepoMapManager"
+
+jest.mock("globby", () => ({
+	isGitIgnored: jest.fn(),
+}))
+
+jest.mock("../../glob/list-files", () => ({
+	...jest.requireActual("../../glob/list-files"),
+	listFiles: jest.fn(),
+}))
+
+jest.mock("../../tree-sitter/languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn().mockResolvedValue({}),
+}))
+
+jest.mock("../../../utils/git", () => ({
+	getHeadCommit: jest.fn(),
+}))
+
+jest.mock("../../../core/ignore/RooIgnoreController", () => ({
+	RooIgnoreController: jest.fn().mockImplementation(() => ({
+		initialize: jest.fn().mockResolvedValue(undefined),
+		validateAccess: (filePath: string) => !filePath.includes("secret"),
+		dispose: jest.fn(),
+	})),
+}))
+
+describe("RepoMapManager", () => {
+	let storageDir: string
+	let workspaceDir: string
+	let countReferences: jest.Mock
+	let manager: RepoMapManager
+
+	const writeWorkspaceFile = async (relPath: string, content: string) => {
+		const absolutePath = path.join(workspaceDir, relPath)
+		await fs.mkdir(path.dirname(absolutePath), { recursive: true })
+		await fs.writeFile(absolutePath, content)
+		return absolutePath
+	}
+
+	beforeEach(async () => {
+		storageDir = await fs.mkdtemp(path.join(os.tmpdir(), "repo-map-storage-"))
+		workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), "repo-map-workspace-"))
+		countReferences = jest.fn().mockResolvedValue(
+			new Map([
+				["format_name", 3],
+				["handler", 2],
+				["unused_helper", 1],
+				["read_secret", 9],
+			]),
+		)
+		manager = new RepoMapManager(storageDir, workspaceDir, countReferences)
+		;(isGitIgnored as jest.Mock).mockResolvedValue((filePath: string) => filePath.includes("generated"))
+		;(getHeadCommit as jest.Mock).mockResolvedValue("commit-1")
+
+		await writeWorkspaceFile(
+			"src/util.lua",
+			"function format_name(user)\n  return user.name\nend\n\nfunction unused_helper()\n  return nil\nend\n",
+		)
+		await writeWorkspaceFile(
+			"src/app.lua",
+			"local handler = function(event)\n  return format_name(event.user)\nend\n",
+		)
+		await writeWorkspaceFile("secret/keys.lua", "function read_secret()\n  return 42\nend\n")
+		await writeWorkspaceFile("notes.txt", "format_name")
+
+		const relPaths = ["src/", "src/app.lua", "src/util.lua", "secret/keys.lua", "notes.txt"]
+		;(listFiles as jest.Mock).mockResolvedValue([
+			relPaths.map((relPath) => path.join(workspaceDir, relPath)),
+			false,
+		])
+	})
+
+	afterEach(async () => {
+		manager.dispose()
+		await fs.rm(storageDir, { recursive: true, force: true })
+		await fs.rm(workspaceDir, { recursive: true, force: true })
+	})
+
+	it("ranks the top-level definitions of supported, non-ignored files by their references", async () => {
+		expect(await manager.getRepoMap(1024)).toBe(
+			[
+				"# src/util.lua",
+				"1--3 | function format_name(user)",
+				"5--7 | function unused_helper()",
+				"",
+				"# src/app.lua",
+				"1--3 | local handler = function(event)",
+			].join("\n"),
+		)
+
+		expect(countReferences).toHaveBeenCalledWith(
+			workspaceDir,
+			expect.arrayContaining(["format_name", "unused_helper", "handler"]),
+			expect.anything(),
+		)
+		expect(countReferences.mock.calls[0][1]).not.toContain("read_secret")
+	})
+
+	it("leaves out the lowest ranked definitions that don't fit into the token budget", async () => {
+		expect(await manager.getRepoMap(20)).toBe("# src/util.lua\n1--3 | function format_name(user)")
+	})
+
+	it("reuses the map until HEAD moves to another commit", async () => {
+		const map = await manager.getRepoMap(1024)
+		expect(await manager.getRepoMap(1024)).toBe(map)
+		expect(countReferences).toHaveBeenCalledTimes(1)
+		;(getHeadCommit as jest.Mock).mockResolvedValue("commit-2")
+		await manager.getRepoMap(1024)
+		expect(countReferences).toHaveBeenCalledTimes(2)
+	})
+
+	it("builds the map again after significant changes to the workspace", async () => {
+		await manager.getRepoMap(1024)
+
+		// Changes to files without definitions don't count.
+		for (let i = 0; i < 30; i++) {
+			manager.recordChange(path.join(workspaceDir, `notes-${i}.txt`))
+		}
+
+		for (let i = 0; i < 19; i++) {
+			manager.recordChange(path.join(workspaceDir, `src/module-${i}.lua`))
+		}
+
+		await manager.getRepoMap(1024)
+		expect(countReferences).toHaveBeenCalledTimes(1)
+
+		manager.recordChange(path.join(workspaceDir, "src/module-19.lua"))
+		await manager.getRepoMap(1024)
+		expect(countReferences).toHaveBeenCalledTimes(2)
+	})
+
+	it("ignores changes to files that aren't listed, like gitignored ones", async () => {
+		await manager.getRepoMap(1024)
+
+		for (let i = 0; i < 10; i++) {
+			manager.recordChange(path.join(workspaceDir, `node_modules/pkg/module-${i}.lua`))
+			manager.recordChange(path.join(workspaceDir, `generated/module-${i}.lua`))
+			manager.recordChange(path.join(workspaceDir, `.cache/module-${i}.lua`))
+		}
+
+		await manager.getRepoMap(1024)
+		expect(countReferences).toHaveBeenCalledTimes(1)
+	})
+
+	it("loads the map of the same commit from disk", async () => {
+		const map = await manager.getRepoMap(1024)
+		const otherManager = new RepoMapManager(storageDir, workspaceDir, countReferences)
+
+		expect(await otherManager.getRepoMap(1024)).toBe(map)
+		expect(countReferences).toHaveBeenCalledTimes(1)
+	})
+
+	it("ranks all definitions equally if the references can't be counted", async () => {
+		countReferences.mockRejectedValue(new Error("Could not find ripgrep binary"))
+		jest.spyOn(console, "error").mockImplementation(() => {})
+
+		expect(await manager.getRepoMap(1024)).toBe(
+			[
+				"# src/app.lua",
+				"1--3 | local handler = function(event)",
+				"",
+				"# src/util.lua",
+				"1--3 | function format_name(user)",
+				"5--7 | function unused_helper()",
+			].join("\n"),
+		)
+	})
+})
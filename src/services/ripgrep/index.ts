@@ -5,6 +5,7 @@ import * as fs from "fs"
 import * as readline from "readline"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
 import { fileExistsAtPath } from "../../utils/fs"
+import { toWorkspaceRelativePath } from "../../utils/path"
 /*
 This file provides functionality to perform regex searches on files using ripgrep.
 Inspired by: https://github.com/DiscreteTom/vscode-ripgrep-utils
@@ -220,6 +221,86 @@ export async function regexSearchFiles(
 	return formatResults(filteredResults, cwd)
 }
 
+/**
+ * Counts how often each of the given words occurs in the files of a directory,
+ * as a whole word. Like other searches, it skips files ignored by git and the
+ * files blocked by the .rooignore file.
+ */
+export async function countWordMatches(
+	directoryPath: string,
+	words: string[],
+	rooIgnoreController?: RooIgnoreController,
+): Promise<Map<string, number>> {
+	const vscodeAppRoot = vscode.env.appRoot
+	const rgPath = await getBinPath(vscodeAppRoot)
+
+	if (!rgPath) {
+		throw new Error("Could not find ripgrep binary")
+	}
+
+	const counts = new Map<string, number>()
+
+	if (words.length === 0) {
+		return counts
+	}
+
+	// Every match is printed as the file path, a NUL byte and the matched word.
+	// The words are read from stdin since there may be too many for arguments.
+	const args = [
+		"--only-matching",
+		"--word-regexp",
+		"--fixed-strings",
+		"--with-filename",
+		"--null",
+		"--no-line-number",
+		"--no-heading",
+		"--color",
+		"never",
+		"--max-filesize",
+		"1M",
+		"--file",
+		"-",
+		directoryPath,
+	]
+
+	const allowedFiles = new Map<string, boolean>()
+	const isAllowed = (file: string) => {
+		let allowed = allowedFiles.get(file)
+
+		if (allowed === undefined) {
+			allowed = rooIgnoreController?.validateAccess(file) ?? true
+			allowedFiles.set(file, allowed)
+		}
+
+		return allowed
+	}
+
+	return new Promise((resolve, reject) => {
+		const rgProcess = childProcess.spawn(rgPath, args)
+		const rl = readline.createInterface({ input: rgProcess.stdout, crlfDelay: Infinity })
+
+		rl.on("line", (line) => {
+			const separator = line.indexOf("\0")
+
+			if (separator === -1 || !isAllowed(line.slice(0, separator))) {
+				return
+			}
+
+			const word = line.slice(separator + 1)
+			counts.set(word, (counts.get(word) ?? 0) + 1)
+		})
+
+		// Unreadable files are reported on stderr but don't fail the count.
+		rl.on("close", () => resolve(counts))
+
+		rgProcess.on("error", (error) => {
+			reject(new Error(`ripgrep process error: ${error.message}`))
+		})
+
+		rgProcess.stdin.end(words.join("\n"))
+	})
+}
+
 function formatResults(fileResults: SearchFileResult[], cwd: string): string {
 	const groupedResults: { [key: string]: SearchResult[] } = {}
 
@@ -233,7 +314,7 @@ function formatResults(fileResults: SearchFileResult[], cwd: string): string {
 
 	// Group results by file name
 	fileResults.slice(0, MAX_RESULTS).forEach((file) => {
-		const relativeFilePath = path.relative(cwd, file.file)
+		const relativeFilePath = toWorkspaceRelativePath(file.file, cwd)
 		if (!groupedResults[relativeFilePath]) {
 			groupedResults[relativeFilePath] = []
 
@@ -103,6 +103,31 @@ describe("Language Parser", () => {
 			expect(parsers.kts.query).toBeDefined()
 		})
 
+		it("should load parsers for Scala, Elixir, Zig, OCaml, CSS and TOML files", async () => {
+			const files = ["test.scala", "test.ex", "test.exs", "test.zig", "test.ml", "test.scss", "test.toml"]
+			const parsers = await loadRequiredLanguageParsers(files)
+
+			for (const language of ["scala", "elixir", "zig", "ocaml", "css", "toml"]) {
+				expect(ParserMock.Language.load).toHaveBeenCalledWith(
+					expect.stringContaining(`tree-sitter-${language}.wasm`),
+				)
+			}
+
+			expect(Object.keys(parsers)).toEqual(["scala", "ex", "exs", "zig", "ml", "scss", "toml"])
+		})
+
+		it("should load the TypeScript parser for the script blocks of markup files", async () => {
+			const files = ["test.html", "test.vue", "test.svelte"]
+			const parsers = await loadRequiredLanguageParsers(files)
+
+			expect(ParserMock.Language.load).toHaveBeenCalledWith(
+				expect.stringContaining("tree-sitter-typescript.wasm"),
+			)
+			expect(parsers.html).toBeDefined()
+			expect(parsers.vue).toBeDefined()
+			expect(parsers.svelte).toBeDefined()
+		})
+
 		it("should throw error for unsupported file extensions", async () => {
 			const files = ["test.unsupported"]
 
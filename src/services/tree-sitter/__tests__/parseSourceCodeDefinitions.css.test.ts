@@ -0,0 +1,95 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { cssQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample CSS content for tests covering:
+// - rule sets (including selector lists)
+// - media queries
+// - keyframes
+const sampleCssContent = `
+:root {
+  --primary: #1e88e5;
+  --spacing: 8px;
+  --radius: 4px;
+}
+
+/* Buttons */
+.button,
+.button--primary {
+  padding: var(--spacing);
+  border-radius: var(--radius);
+  color: var(--primary);
+}
+
+@media (max-width: 600px) {
+  .button {
+    width: 100%;
+    padding: 4px;
+  }
+}
+
+@keyframes fade-in {
+  from {
+    opacity: 0;
+  }
+  to {
+    opacity: 1;
+  }
+}
+
+a { color: inherit; }
+`
+
+// Css test options
+const cssOptions = {
+	language: "css",
+	wasmFile: "tree-sitter-css.wasm",
+	queryString: cssQuery,
+	extKey: "css",
+	content: sampleCssContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with CSS", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse CSS rule sets", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.css", sampleCssContent, cssOptions)
+
+		expect(result).toContain("2--6 | :root {")
+		expect(result).toContain("9--14 | .button,")
+	})
+
+	it("should parse CSS media queries and the rule sets inside them", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.css", sampleCssContent, cssOptions)
+
+		expect(result).toContain("16--21 | @media (max-width: 600px) {")
+		expect(result).toContain("17--20 |   .button {")
+	})
+
+	it("should parse CSS keyframes", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.css", sampleCssContent, cssOptions)
+
+		expect(result).toContain("23--30 | @keyframes fade-in {")
+	})
+
+	it("should skip single-line rule sets", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.css", sampleCssContent, cssOptions)
+
+		expect(result).not.toContain("a { color: inherit; }")
+	})
+})
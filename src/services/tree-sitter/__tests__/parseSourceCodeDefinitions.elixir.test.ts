@@ -0,0 +1,115 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { elixirQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample Elixir content for tests covering:
+// - module, protocol and implementation definitions
+// - public and private functions
+// - functions with guards
+// - macros
+const sampleElixirContent = `
+defmodule MyApp.Accounts do
+  @moduledoc """
+  Manages user accounts.
+  """
+
+  defstruct [:name, :email]
+
+  # Creates a user from the given attributes
+  def create_user(attrs) do
+    attrs
+    |> validate()
+    |> insert()
+  end
+
+  def admin?(%{role: role}) when role in [:admin, :owner] do
+    true
+    |> tap(&IO.inspect/1)
+  end
+
+  defp validate(attrs) do
+    attrs
+    |> Map.take([:name, :email])
+    |> Map.put_new(:role, :member)
+  end
+
+  defmacro debug(expr) do
+    quote do
+      IO.inspect(unquote(expr))
+    end
+  end
+
+  def insert(attrs), do: {:ok, attrs}
+end
+
+defprotocol MyApp.Printable do
+  @doc "Prints the data"
+  def print(data)
+  def width(data)
+end
+
+defimpl MyApp.Printable, for: Map do
+  def print(map) do
+    map
+    |> inspect()
+  end
+
+  def width(_map), do: 80
+end
+`
+
+// Elixir test options
+const elixirOptions = {
+	language: "elixir",
+	wasmFile: "tree-sitter-elixir.wasm",
+	queryString: elixirQuery,
+	extKey: "ex",
+	content: sampleElixirContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with Elixir", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse Elixir modules, protocols and implementations", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ex", sampleElixirContent, elixirOptions)
+
+		expect(result).toContain("2--34 | defmodule MyApp.Accounts do")
+		expect(result).toContain("36--40 | defprotocol MyApp.Printable do")
+		expect(result).toContain("42--49 | defimpl MyApp.Printable, for: Map do")
+	})
+
+	it("should parse Elixir public and private functions", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ex", sampleElixirContent, elixirOptions)
+
+		expect(result).toContain("10--14 |   def create_user(attrs) do")
+		expect(result).toContain("21--25 |   defp validate(attrs) do")
+		expect(result).toContain("43--46 |   def print(map) do")
+	})
+
+	it("should parse Elixir functions with guards", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ex", sampleElixirContent, elixirOptions)
+
+		expect(result).toContain("16--19 |   def admin?(%{role: role}) when role in [:admin, :owner] do")
+	})
+
+	it("should parse Elixir macros", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ex", sampleElixirContent, elixirOptions)
+
+		expect(result).toContain("27--31 |   defmacro debug(expr) do")
+	})
+})
@@ -0,0 +1,149 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { typescriptQuery } from "../queries"
+import { extractScriptBlocks } from "../scriptBlocks"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Markup files are parsed for the definitions in their script blocks with the
+// TypeScript grammar. The loaded parsers only see the script blocks, which is
+// reproduced here with extractScriptBlocks.
+
+// Sample Vue single-file component with a template, a script and a style block
+const sampleVueContent = `
+<template>
+  <div class="counter">
+    <button @click="increment">{{ count }}</button>
+  </div>
+</template>
+
+<script setup lang="ts">
+import { ref } from "vue"
+
+interface CounterProps {
+  start: number
+  step?: number
+}
+
+const props = defineProps<CounterProps>()
+const count = ref(props.start)
+
+function increment() {
+  count.value += props.step ?? 1
+  emit("change", count.value)
+}
+</script>
+
+<style scoped>
+.counter {
+  display: flex;
+}
+</style>
+`
+
+// Sample Svelte component with a module script and an instance script
+const sampleSvelteContent = `
+<script context="module">
+  export function formatPrice(cents) {
+    const euros = cents / 100
+    return euros.toFixed(2) + " €"
+  }
+</script>
+
+<script>
+  export let items = []
+
+  function total() {
+    return items.reduce((sum, item) => {
+      return sum + item.price
+    }, 0)
+  }
+</script>
+
+{#each items as item}
+  <p>{item.name}: {formatPrice(item.price)}</p>
+{/each}
+`
+
+// Sample HTML page with an inline script and a JSON data block
+const sampleHtmlContent = `
+<!DOCTYPE html>
+<html>
+  <head>
+    <script type="application/ld+json">
+      { "@type": "WebSite", "name": "Example" }
+    </script>
+  </head>
+  <body>
+    <script>
+      class Carousel {
+        constructor(element) {
+          this.element = element
+        }
+
+        next() {
+          this.index++
+        }
+      }
+    </script>
+  </body>
+</html>
+`
+
+const markupOptions = (extKey: string) => ({
+	language: "typescript",
+	wasmFile: "tree-sitter-typescript.wasm",
+	queryString: typescriptQuery,
+	extKey,
+})
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with markup files", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse the script block of Vue components", async () => {
+		const result = await testParseSourceCodeDefinitions(
+			"/test/file.vue",
+			extractScriptBlocks(sampleVueContent),
+			markupOptions("vue"),
+		)
+
+		expect(result).toContain("11--14 | interface CounterProps {")
+		expect(result).toContain("19--22 | function increment() {")
+		expect(result).not.toContain("counter")
+	})
+
+	it("should parse every script block of Svelte components", async () => {
+		const result = await testParseSourceCodeDefinitions(
+			"/test/file.svelte",
+			extractScriptBlocks(sampleSvelteContent),
+			markupOptions("svelte"),
+		)
+
+		expect(result).toContain("|   export function formatPrice(cents) {")
+		expect(result).toContain("|   function total() {")
+	})
+
+	it("should parse the inline scripts of HTML pages", async () => {
+		const result = await testParseSourceCodeDefinitions(
+			"/test/file.html",
+			extractScriptBlocks(sampleHtmlContent),
+			markupOptions("html"),
+		)
+
+		expect(result).toContain("|       class Carousel {")
+		expect(result).not.toContain("WebSite")
+	})
+})
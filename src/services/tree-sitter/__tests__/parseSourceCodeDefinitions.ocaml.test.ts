@@ -0,0 +1,95 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { ocamlQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample OCaml content for tests covering:
+// - type definitions
+// - module and module type definitions
+// - let bindings (including recursive functions)
+// - class definitions
+const sampleOcamlContent = `
+(* Shapes and their areas *)
+type shape =
+  | Circle of float
+  | Square of float
+  | Rectangle of float * float
+
+module Geometry = struct
+  let area = function
+    | Circle r -> 3.14 *. r *. r
+    | Square s -> s *. s
+    | Rectangle (w, h) -> w *. h
+end
+
+module type SHAPE = sig
+  type t
+  val area : t -> float
+  val name : string
+end
+
+let rec factorial n =
+  if n <= 1 then 1
+  else
+    n * factorial (n - 1)
+
+class counter = object
+  val mutable count = 0
+  method incr =
+    count <- count + 1;
+    count
+end
+`
+
+// Ocaml test options
+const ocamlOptions = {
+	language: "ocaml",
+	wasmFile: "tree-sitter-ocaml.wasm",
+	queryString: ocamlQuery,
+	extKey: "ml",
+	content: sampleOcamlContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with OCaml", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse OCaml type definitions", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ml", sampleOcamlContent, ocamlOptions)
+
+		expect(result).toContain("3--6 | type shape =")
+	})
+
+	it("should parse OCaml modules and module types", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ml", sampleOcamlContent, ocamlOptions)
+
+		expect(result).toContain("8--13 | module Geometry = struct")
+		expect(result).toContain("15--19 | module type SHAPE = sig")
+	})
+
+	it("should parse OCaml let bindings", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ml", sampleOcamlContent, ocamlOptions)
+
+		expect(result).toContain("9--12 |   let area = function")
+		expect(result).toContain("21--24 | let rec factorial n =")
+	})
+
+	it("should parse OCaml classes", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.ml", sampleOcamlContent, ocamlOptions)
+
+		expect(result).toContain("26--31 | class counter = object")
+	})
+})
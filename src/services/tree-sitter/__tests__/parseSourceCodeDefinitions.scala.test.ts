@@ -0,0 +1,126 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { scalaQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample Scala content for tests covering:
+// - traits
+// - case classes and generic classes
+// - objects
+// - function definitions
+// - var definitions
+// - type definitions
+const sampleScalaContent = `
+package com.example.shapes
+
+import scala.math.Pi
+
+// A shape with an area and a perimeter
+trait Shape {
+  def area: Double
+  def perimeter: Double
+  def describe: String = s"Shape with area $area"
+}
+
+// A circle given by its radius
+case class Circle(radius: Double) extends Shape {
+  def area: Double = Pi * radius * radius
+
+  def perimeter: Double =
+    2 * Pi * radius
+}
+
+// Factory and helpers for shapes
+object Shapes {
+  val unit: Circle = Circle(1.0)
+
+  def largest(shapes: Seq[Shape]): Option[Shape] = {
+    if (shapes.isEmpty) None
+    else Some(shapes.maxBy(_.area))
+  }
+
+  def totalArea(shapes: Seq[Shape]): Double = {
+    shapes
+      .map(_.area)
+      .sum
+  }
+}
+
+class Registry[T](initial: List[T]) {
+  var items: List[T] = List(
+    initial.head,
+    initial.last
+  )
+
+  def register(item: T): Unit = {
+    items = item :: items
+  }
+}
+
+type ShapeList =
+  List[
+    Shape
+  ]
+`
+
+// Scala test options
+const scalaOptions = {
+	language: "scala",
+	wasmFile: "tree-sitter-scala.wasm",
+	queryString: scalaQuery,
+	extKey: "scala",
+	content: sampleScalaContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with Scala", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse Scala traits and classes", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scala", sampleScalaContent, scalaOptions)
+
+		expect(result).toContain("7--11 | trait Shape {")
+		expect(result).toContain("14--19 | case class Circle(radius: Double) extends Shape {")
+		expect(result).toContain("37--46 | class Registry[T](initial: List[T]) {")
+	})
+
+	it("should parse Scala objects", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scala", sampleScalaContent, scalaOptions)
+
+		expect(result).toContain("22--35 | object Shapes {")
+	})
+
+	it("should parse Scala function definitions", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scala", sampleScalaContent, scalaOptions)
+
+		expect(result).toContain("25--28 |   def largest(shapes: Seq[Shape]): Option[Shape] = {")
+		expect(result).toContain("30--34 |   def totalArea(shapes: Seq[Shape]): Double = {")
+	})
+
+	it("should parse Scala variables and type definitions", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scala", sampleScalaContent, scalaOptions)
+
+		expect(result).toContain("38--41 |   var items: List[T] = List(")
+		expect(result).toContain("48--51 | type ShapeList =")
+	})
+
+	it("should skip definitions shorter than the minimum number of lines", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scala", sampleScalaContent, scalaOptions)
+
+		expect(result).not.toContain("def perimeter")
+		expect(result).not.toContain("val unit")
+	})
+})
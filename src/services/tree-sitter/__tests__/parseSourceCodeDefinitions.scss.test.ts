@@ -0,0 +1,80 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { cssQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample SCSS content for tests covering:
+// - nested rule sets (including parent selectors)
+// - mixins
+// - functions
+const sampleScssContent = `
+$primary: #1e88e5;
+
+@mixin flex-center($direction: row) {
+  display: flex;
+  flex-direction: $direction;
+  align-items: center;
+}
+
+.card {
+  color: $primary;
+  padding: 16px;
+
+  &:hover {
+    color: darken($primary, 10%);
+    box-shadow: none;
+  }
+
+  .title {
+    @include flex-center;
+    font-weight: bold;
+  }
+}
+
+@function spacing($n) {
+  $base: 8px;
+  @return $n * $base;
+}
+`
+
+// Scss test options
+const scssOptions = {
+	language: "css",
+	wasmFile: "tree-sitter-css.wasm",
+	queryString: cssQuery,
+	extKey: "scss",
+	content: sampleScssContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with SCSS", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse SCSS nested rule sets", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scss", sampleScssContent, scssOptions)
+
+		expect(result).toContain("10--23 | .card {")
+		expect(result).toContain("14--17 |   &:hover {")
+		expect(result).toContain("19--22 |   .title {")
+	})
+
+	it("should parse SCSS mixins and functions", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.scss", sampleScssContent, scssOptions)
+
+		expect(result).toContain("4--8 | @mixin flex-center($direction: row) {")
+		expect(result).toContain("25--28 | @function spacing($n) {")
+	})
+})
@@ -0,0 +1,76 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { tomlQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample TOML content for tests covering:
+// - tables (including dotted keys)
+// - arrays of tables
+// - top-level keys
+const sampleTomlContent = `
+title = "Example"
+description = """
+A multi-line
+description of the project
+"""
+
+[package]
+name = "demo"
+version = "0.1.0"
+edition = "2021"
+
+[dependencies]
+serde = { version = "1", features = ["derive"] }
+tokio = "1"
+anyhow = "1"
+
+[[bin]]
+name = "demo"
+path = "src/main.rs"
+test = false
+
+[profile.release]
+lto = true
+`
+
+// Toml test options
+const tomlOptions = {
+	language: "toml",
+	wasmFile: "tree-sitter-toml.wasm",
+	queryString: tomlQuery,
+	extKey: "toml",
+	content: sampleTomlContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with TOML", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse TOML tables and arrays of tables", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.toml", sampleTomlContent, tomlOptions)
+
+		expect(result).toContain("| [package]")
+		expect(result).toContain("| [dependencies]")
+		expect(result).toContain("| [[bin]]")
+	})
+
+	it("should parse multi-line top-level keys", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.toml", sampleTomlContent, tomlOptions)
+
+		expect(result).toContain('3--6 | description = """')
+		expect(result).not.toContain('title = "Example"')
+	})
+})
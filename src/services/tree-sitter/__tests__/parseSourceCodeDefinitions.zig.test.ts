@@ -0,0 +1,97 @@
+import { describe, expect, it, jest, beforeEach } from "@jest/globals"
+import { zigQuery } from "../queries"
+import { testParseSourceCodeDefinitions } from "./helpers"
+
+// Sample Zig content for tests covering:
+// - struct, enum and union declarations
+// - function declarations (including methods)
+// - test declarations
+const sampleZigContent = `
+const std = @import("std");
+
+/// A point in 2D space
+pub const Point = struct {
+    x: i32,
+    y: i32,
+
+    pub fn add(self: Point, other: Point) Point {
+        return .{
+            .x = self.x + other.x,
+            .y = self.y + other.y,
+        };
+    }
+};
+
+pub const Direction = enum {
+    north,
+    east,
+    south,
+    west,
+};
+
+const Value = union(enum) {
+    int: i64,
+    float: f64,
+    text: []const u8,
+};
+
+pub fn main() !void {
+    const p = Point{ .x = 1, .y = 2 };
+    std.debug.print("{}\\n", .{p});
+}
+
+test "add points" {
+    const a = Point{ .x = 1, .y = 2 };
+    const b = a.add(a);
+    try std.testing.expectEqual(@as(i32, 2), b.x);
+}
+`
+
+// Zig test options
+const zigOptions = {
+	language: "zig",
+	wasmFile: "tree-sitter-zig.wasm",
+	queryString: zigQuery,
+	extKey: "zig",
+	content: sampleZigContent,
+}
+
+// Mock file system operations
+jest.mock("fs/promises")
+
+// Mock loadRequiredLanguageParsers
+jest.mock("../languageParser", () => ({
+	loadRequiredLanguageParsers: jest.fn(),
+}))
+
+// Mock fileExistsAtPath to return true for our test paths
+jest.mock("../../../utils/fs", () => ({
+	fileExistsAtPath: jest.fn().mockImplementation(() => Promise.resolve(true)),
+}))
+
+describe("parseSourceCodeDefinitionsForFile with Zig", () => {
+	beforeEach(() => {
+		jest.clearAllMocks()
+	})
+
+	it("should parse Zig struct, enum and union declarations", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.zig", sampleZigContent, zigOptions)
+
+		expect(result).toContain("5--15 | pub const Point = struct {")
+		expect(result).toContain("17--22 | pub const Direction = enum {")
+		expect(result).toContain("24--28 | const Value = union(enum) {")
+	})
+
+	it("should parse Zig function declarations", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.zig", sampleZigContent, zigOptions)
+
+		expect(result).toContain("9--14 |     pub fn add(self: Point, other: Point) Point {")
+		expect(result).toContain("30--33 | pub fn main() !void {")
+	})
+
+	it("should parse Zig test declarations", async () => {
+		const result = await testParseSourceCodeDefinitions("/test/file.zig", sampleZigContent, zigOptions)
+
+		expect(result).toContain('35--39 | test "add points" {')
+	})
+})
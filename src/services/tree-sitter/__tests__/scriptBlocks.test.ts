@@ -0,0 +1,41 @@
+import { extractScriptBlocks } from "../scriptBlocks"
+
+describe("extractScriptBlocks", () => {
+	it("keeps the script blocks at their positions and blanks out the rest", () => {
+		const content = [
+			"<template>",
+			"  <div>{{ count }}</div>",
+			"</template>",
+			'<script lang="ts">',
+			"const count = 1",
+			"</script>",
+		].join("\n")
+
+		const lines = extractScriptBlocks(content).split("\n")
+
+		expect(lines).toHaveLength(6)
+		expect(lines[4]).toBe("const count = 1")
+		expect(lines[0].trim()).toBe("")
+		expect(lines[1]).toHaveLength("  <div>{{ count }}</div>".length)
+		expect(lines[1].trim()).toBe("")
+	})
+
+	it("extracts every script block, including module scripts", () => {
+		const content =
+			'<script context="module">export const a = 1</script>\n<p>text</p>\n<script type="module">let b = 2</script>'
+
+		const result = extractScriptBlocks(content)
+
+		expect(result).toHaveLength(content.length)
+		expect(result.indexOf("export const a = 1")).toBe(content.indexOf("export const a = 1"))
+		expect(result.indexOf("let b = 2")).toBe(content.indexOf("let b = 2"))
+		expect(result).not.toContain("text")
+	})
+
+	it("skips script blocks that contain templates or data", () => {
+		const content =
+			'<script type="text/x-template"><div>{{ a }}</div></script>\n<script type="application/ld+json">{"a": 1}</script>'
+
+		expect(extractScriptBlocks(content).trim()).toBe("")
+	})
+})
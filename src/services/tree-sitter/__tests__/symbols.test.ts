@@ -0,0 +1,90 @@
+// npx jest src/services/tree-sitter/__tests__/symbols.test.ts
+
+import { LanguageParser } from "../languageParser"
+import { findSymbolDefinitions, findTopLevelDefinitions } from "../symbols"
+
+type FakeCapture = { name: string; start: number; end: number; text?: string }
+
+// Builds a parser whose query returns the given captures for any input.
+const fakeParsers = (ext: string, captures: FakeCapture[]): LanguageParser =>
+	({
+		[ext]: {
+			parser: { parse: () => ({ rootNode: {} }) },
+			query: {
+				captures: () =>
+					captures.map(({ name, start, end, text }) => ({
+						name,
+						node: { startPosition: { row: start }, endPosition: { row: end }, text },
+					})),
+			},
+		},
+	}) as unknown as LanguageParser
+
+const parsers = fakeParsers("ts", [
+	{ name: "definition.class", start: 0, end: 20 },
+	{ name: "name.definition.class", start: 0, end: 0, text: "UserService" },
+	{ name: "definition.method", start: 2, end: 8 },
+	{ name: "name.definition.method", start: 2, end: 2, text: "save" },
+	{ name: "definition.method", start: 10, end: 19 },
+	{ name: "name.definition.method", start: 10, end: 10, text: "load" },
+	{ name: "definition.class", start: 22, end: 30 },
+	{ name: "name.definition.class", start: 22, end: 22, text: "OrderService" },
+	{ name: "definition.method", start: 24, end: 28 },
+	{ name: "name.definition.method", start: 24, end: 24, text: "save" },
+	{ name: "definition.function", start: 32, end: 35 },
+	{ name: "name.definition.function", start: 32, end: 32, text: "main" },
+])
+
+describe("findSymbolDefinitions", () => {
+	it("finds a top-level definition by name", () => {
+		expect(findSymbolDefinitions("src/app.ts", "", parsers, "main")).toEqual([
+			{ name: "main", startLine: 32, endLine: 35 },
+		])
+	})
+
+	it("finds a nested definition by its qualified name", () => {
+		expect(findSymbolDefinitions("src/app.ts", "", parsers, "UserService.save")).toEqual([
+			{ name: "UserService.save", startLine: 2, endLine: 8 },
+		])
+		expect(findSymbolDefinitions("src/app.ts", "", parsers, "OrderService.save")).toEqual([
+			{ name: "OrderService.save", startLine: 24, endLine: 28 },
+		])
+	})
+
+	it("returns every definition of an unqualified ambiguous name", () => {
+		const definitions = findSymbolDefinitions("src/app.ts", "", parsers, "save")
+
+		expect(definitions?.map(({ startLine }) => startLine)).toEqual([2, 24])
+	})
+
+	it("returns no definitions for unknown symbols", () => {
+		expect(findSymbolDefinitions("src/app.ts", "", parsers, "UserService.delete")).toEqual([])
+		expect(findSymbolDefinitions("src/app.ts", "", parsers, "OrderService.load")).toEqual([])
+	})
+
+	it("finds markdown sections by their heading", () => {
+		const content = "# Guide\n\nIntro\n\n## Setup\n\nSteps\n"
+
+		expect(findSymbolDefinitions("README.md", content, {}, "Setup")).toEqual([
+			expect.objectContaining({ startLine: 4 }),
+		])
+	})
+
+	it("returns undefined for file types without a query", () => {
+		expect(findSymbolDefinitions("notes.txt", "", {}, "main")).toBeUndefined()
+	})
+})
+
+describe("findTopLevelDefinitions", () => {
+	it("returns the named definitions that aren't nested in another definition", () => {
+		expect(findTopLevelDefinitions("src/app.ts", "", parsers)).toEqual([
+			{ name: "UserService", startLine: 0, endLine: 20 },
+			{ name: "OrderService", startLine: 22, endLine: 30 },
+			{ name: "main", startLine: 32, endLine: 35 },
+		])
+	})
+
+	it("returns undefined for file types without a query", () => {
+		expect(findTopLevelDefinitions("notes.txt", "", {})).toBeUndefined()
+	})
+})
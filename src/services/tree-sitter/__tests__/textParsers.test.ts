@@ -0,0 +1,233 @@
+import { parseHaskell, parseHcl, parseLua, parseShell, parseSql, parseYaml } from "../textParsers"
+import { MockCapture } from "../markdownParser"
+
+// The name, kind and 0-based line range of every definition capture.
+const definitions = (captures: MockCapture[]) =>
+	captures
+		.filter(({ name }) => name.startsWith("definition."))
+		.map(({ name, node }) => [
+			node.text,
+			name.slice("definition.".length),
+			node.startPosition.row,
+			node.endPosition.row,
+		])
+
+describe("parseYaml", () => {
+	it("parses the top-level keys of every document", () => {
+		const content = `# CI workflow
+name: CI
+on:
+  push:
+    branches: [main]
+
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: npm test
+# Shared environment
+"env":
+  NODE_ENV: test
+---
+kind: Service
+`
+
+		expect(definitions(parseYaml(content))).toEqual([
+			["name", "key", 1, 1],
+			["on", "key", 2, 4],
+			["jobs", "key", 6, 10],
+			["env", "key", 12, 13],
+			["kind", "key", 15, 15],
+		])
+	})
+})
+
+describe("parseHcl", () => {
+	it("parses top-level blocks and attributes", () => {
+		const content = `terraform {
+  required_version = ">= 1.5"
+}
+
+variable "region" {
+  type    = string
+  default = "eu-west-1" # {
+}
+
+resource "aws_s3_bucket" "logs" {
+  bucket = "logs-\${var.region}"
+
+  lifecycle {
+    prevent_destroy = true
+  }
+}
+
+policy = <<EOF
+{ "Version": "2012-10-17"
+EOF
+
+tags = {
+  team = "platform"
+}
+`
+
+		expect(definitions(parseHcl(content))).toEqual([
+			["terraform", "terraform", 0, 2],
+			["region", "variable", 4, 7],
+			["logs", "resource", 9, 15],
+			["policy", "attribute", 17, 19],
+			["tags", "attribute", 21, 23],
+		])
+	})
+})
+
+describe("parseSql", () => {
+	it("parses CREATE statements", () => {
+		const content = `-- Users of the application
+CREATE TABLE IF NOT EXISTS public."users" (
+  id SERIAL PRIMARY KEY,
+  name TEXT NOT NULL DEFAULT 'unknown;'
+);
+
+create unique index users_name_idx on users (name);
+
+CREATE OR REPLACE FUNCTION touch_updated_at() RETURNS trigger AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT * FROM users;
+`
+
+		expect(definitions(parseSql(content))).toEqual([
+			["users", "table", 1, 4],
+			["users_name_idx", "index", 6, 6],
+			["touch_updated_at", "function", 8, 13],
+		])
+	})
+
+	it("ends statements at custom delimiters and GO lines", () => {
+		const content = `DELIMITER //
+CREATE PROCEDURE add_user(IN name VARCHAR(50))
+BEGIN
+  INSERT INTO users (name) VALUES (name);
+END //
+DELIMITER ;
+
+CREATE VIEW [dbo].[active_users] AS
+SELECT * FROM users WHERE active = 1
+GO
+`
+
+		expect(definitions(parseSql(content))).toEqual([
+			["add_user", "procedure", 1, 4],
+			["active_users", "view", 7, 8],
+		])
+	})
+})
+
+describe("parseHaskell", () => {
+	it("parses top-level declarations", () => {
+		const content = `module Shapes (Shape (..), area) where
+
+import Data.List (sortOn)
+
+-- | A shape
+data Shape
+  = Circle Double
+  | Square Double
+  deriving (Show, Eq)
+
+class HasArea a where
+  area :: a -> Double
+
+instance HasArea Shape where
+  area (Circle r) = pi * r * r
+  area (Square s) = s * s
+
+largest :: [Shape] -> Maybe Shape
+largest [] = Nothing
+largest shapes =
+  Just (last (sortOn area shapes))
+
+(<+>) :: Shape -> Shape -> Double
+a <+> b = area a + area b
+`
+
+		expect(definitions(parseHaskell(content))).toEqual([
+			["Shape", "data", 5, 8],
+			["HasArea", "class", 10, 11],
+			["HasArea", "instance", 13, 15],
+			["largest", "function", 17, 20],
+			["<+>", "function", 22, 23],
+		])
+	})
+})
+
+describe("parseLua", () => {
+	it("parses top-level functions", () => {
+		const content = `local M = {}
+
+function M.greet(name)
+  if name == "end" then
+    return "bye"
+  end
+  return "hi " .. name -- end
+end
+
+function M:reset()
+  for i = 1, #self.items do
+    self.items[i] = nil
+  end
+end
+
+local handler = function(event)
+  local text = [[
+    end
+  ]]
+end
+
+return M
+`
+
+		expect(definitions(parseLua(content))).toEqual([
+			["greet", "function", 2, 7],
+			["reset", "method", 9, 13],
+			["handler", "function", 15, 19],
+		])
+	})
+})
+
+describe("parseShell", () => {
+	it("parses functions", () => {
+		const content = `#!/usr/bin/env bash
+BUILD_DIR="\${BUILD_DIR:-dist}"
+
+# Removes the build output
+clean() {
+  rm -rf "\${BUILD_DIR}" # }
+}
+
+function build
+{
+  clean
+  cat <<EOF
+}
+EOF
+}
+
+function short() { echo "short"; }
+
+case "$1" in
+  build) build ;;
+esac
+`
+
+		expect(definitions(parseShell(content))).toEqual([
+			["clean", "function", 4, 6],
+			["build", "function", 8, 14],
+			["short", "function", 16, 16],
+		])
+	})
+})
@@ -3,10 +3,10 @@ import * as path from "path"
 import { listFiles } from "../glob/list-files"
 import { LanguageParser, loadRequiredLanguageParsers } from "./languageParser"
 import { fileExistsAtPath } from "../../utils/fs"
-import { parseMarkdown, formatMarkdownCaptures } from "./markdownParser"
+import { textParsers } from "./textParsers"
 import { RooIgnoreController } from "../../core/ignore/RooIgnoreController"
 
-const extensions = [
+export const extensions = [
 	"js",
 	"jsx",
 	"ts",
@@ -31,11 +31,41 @@ const extensions = [
 	// Kotlin
 	"kt",
 	"kts",
+	"scala",
+	"sc",
+	// Elixir
+	"ex",
+	"exs",
+	"lua",
+	"zig",
+	// OCaml
+	"ml",
+	// Bash
+	"sh",
+	"bash",
+	// Haskell
+	"hs",
+	"sql",
+	// Markup files, parsed for their script blocks
+	"html",
+	"htm",
+	"vue",
+	"svelte",
+	"css",
+	"scss",
 	// Markdown
 	"md",
 	"markdown",
 	// JSON
 	"json",
+	"toml",
+	// YAML
+	"yml",
+	"yaml",
+	// Terraform and HCL
+	"tf",
+	"tfvars",
+	"hcl",
 ].map((e) => `.${e}`)
 
 export async function parseSourceCodeDefinitionsForFile(
@@ -55,8 +85,9 @@ export async function parseSourceCodeDefinitionsForFile(
 		return undefined
 	}
 
-	// Special case for markdown files
-	if (ext === ".md" || ext === ".markdown") {
+	// Special case for file types without a tree-sitter grammar, e.g. markdown
+	const parseText = textParsers[ext]
+	if (parseText) {
 		// Check if we have permission to access this file
 		if (rooIgnoreController && !rooIgnoreController.validateAccess(filePath)) {
 			return undefined
@@ -68,14 +99,14 @@ export async function parseSourceCodeDefinitionsForFile(
 		// Split the file content into individual lines
 		const lines = fileContent.split("\n")
 
-		// Parse markdown content to get captures
-		const markdownCaptures = parseMarkdown(fileContent)
+		// Parse the content to get captures
+		const textCaptures = parseText(fileContent)
 
 		// Process the captures
-		const markdownDefinitions = processCaptures(markdownCaptures, lines, 4)
+		const textDefinitions = processCaptures(textCaptures, lines, 4)
 
-		if (markdownDefinitions) {
-			return `# ${path.basename(filePath)}\n${markdownDefinitions}`
+		if (textDefinitions) {
+			return `# ${path.basename(filePath)}\n${textDefinitions}`
 		}
 		return undefined
 	}
@@ -114,24 +145,24 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 	// Filter filepaths for access if controller is provided
 	const allowedFilesToParse = rooIgnoreController ? rooIgnoreController.filterPaths(filesToParse) : filesToParse
 
-	// Separate markdown files from other files
-	const markdownFiles: string[] = []
+	// Separate files without a tree-sitter grammar (e.g. markdown) from other files
+	const textFiles: string[] = []
 	const otherFiles: string[] = []
 
 	for (const file of allowedFilesToParse) {
 		const ext = path.extname(file).toLowerCase()
-		if (ext === ".md" || ext === ".markdown") {
-			markdownFiles.push(file)
+		if (textParsers[ext]) {
+			textFiles.push(file)
 		} else {
 			otherFiles.push(file)
 		}
 	}
 
-	// Load language parsers only for non-markdown files
+	// Load language parsers only for the other files
 	const languageParsers = await loadRequiredLanguageParsers(otherFiles)
 
-	// Process markdown files
-	for (const file of markdownFiles) {
+	// Process files without a tree-sitter grammar
+	for (const file of textFiles) {
 		// Check if we have permission to access this file
 		if (rooIgnoreController && !rooIgnoreController.validateAccess(file)) {
 			continue
@@ -144,17 +175,17 @@ export async function parseSourceCodeForDefinitionsTopLevel(
 			// Split the file content into individual lines
 			const lines = fileContent.split("\n")
 
-			// Parse markdown content to get captures
-			const markdownCaptures = parseMarkdown(fileContent)
+			// Parse the content to get captures
+			const textCaptures = textParsers[path.extname(file).toLowerCase()](fileContent)
 
 			// Process the captures
-			const markdownDefinitions = processCaptures(markdownCaptures, lines, 4)
+			const textDefinitions = processCaptures(textCaptures, lines, 4)
 
-			if (markdownDefinitions) {
-				result += `# ${path.relative(dirPath, file).toPosix()}\n${markdownDefinitions}\n`
+			if (textDefinitions) {
+				result += `# ${path.relative(dirPath, file).toPosix()}\n${textDefinitions}\n`
 			}
 		} catch (error) {
-			console.log(`Error parsing markdown file: ${error}\n`)
+			console.log(`Error parsing file: ${error}\n`)
 		}
 	}
 
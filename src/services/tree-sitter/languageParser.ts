@@ -15,7 +15,14 @@ import {
 	phpQuery,
 	swiftQuery,
 	kotlinQuery,
+	scalaQuery,
+	elixirQuery,
+	zigQuery,
+	ocamlQuery,
+	cssQuery,
+	tomlQuery,
 } from "./queries"
+import { extractScriptBlocks } from "./scriptBlocks"
 
 export interface LanguageParser {
 	[key: string]: {
@@ -28,6 +35,16 @@ async function loadLanguage(langName: string) {
 	return await Parser.Language.load(path.join(__dirname, `tree-sitter-${langName}.wasm`))
 }
 
+/**
+ * Parses only the script blocks of markup files, so the definitions of their
+ * scripts can be found with the TypeScript grammar and query.
+ */
+class ScriptBlockParser extends Parser {
+	override parse(input: string | Parser.Input, oldTree?: Parser.Tree, options?: Parser.Options): Parser.Tree {
+		return super.parse(typeof input === "string" ? extractScriptBlocks(input) : input, oldTree, options)
+	}
+}
+
 let isParserInitialized = false
 
 async function initializeParser() {
@@ -128,10 +145,44 @@ export async function loadRequiredLanguageParsers(filesToParse: string[]): Promi
 				language = await loadLanguage("kotlin")
 				query = language.query(kotlinQuery)
 				break
+			case "scala":
+			case "sc":
+				language = await loadLanguage("scala")
+				query = language.query(scalaQuery)
+				break
+			case "ex":
+			case "exs":
+				language = await loadLanguage("elixir")
+				query = language.query(elixirQuery)
+				break
+			case "zig":
+				language = await loadLanguage("zig")
+				query = language.query(zigQuery)
+				break
+			case "ml":
+				language = await loadLanguage("ocaml")
+				query = language.query(ocamlQuery)
+				break
+			case "css":
+			case "scss":
+				language = await loadLanguage("css")
+				query = language.query(cssQuery)
+				break
+			case "toml":
+				language = await loadLanguage("toml")
+				query = language.query(tomlQuery)
+				break
+			case "html":
+			case "htm":
+			case "vue":
+			case "svelte":
+				language = await loadLanguage("typescript")
+				query = language.query(typescriptQuery)
+				break
 			default:
 				throw new Error(`Unsupported language: ${ext}`)
 		}
-		const parser = new Parser()
+		const parser = ["html", "htm", "vue", "svelte"].includes(ext) ? new ScriptBlockParser() : new Parser()
 		parser.setLanguage(language)
 		parsers[ext] = { parser, query }
 	}
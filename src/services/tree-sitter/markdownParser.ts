@@ -21,7 +21,7 @@ interface MockNode {
 /**
  * Interface to mimic tree-sitter capture structure
  */
-interface MockCapture {
+export interface MockCapture {
 	node: MockNode
 	name: string
 }
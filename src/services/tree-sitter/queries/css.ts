@@ -0,0 +1,21 @@
+/*
+- rule sets (including nested SCSS rules)
+- media, supports and keyframes statements
+- SCSS mixins and functions
+*/
+export default `
+(rule_set
+  (selectors) @name.definition.selector) @definition.selector
+
+(media_statement) @definition.media
+
+(supports_statement) @definition.supports
+
+(keyframes_statement
+  (keyframes_name) @name.definition.keyframes) @definition.keyframes
+
+(at_rule
+  (at_keyword) @_keyword
+  (keyword_query) @name.definition.mixin
+  (#match? @_keyword "^@(mixin|function)$")) @definition.mixin
+`
@@ -0,0 +1,25 @@
+/*
+- module, protocol and implementation definitions
+- function and macro definitions (public and private, with guards)
+*/
+export default `
+(call
+  target: (identifier) @_keyword
+  (arguments
+    (alias) @name.definition.module)
+  (#match? @_keyword "^(defmodule|defprotocol|defimpl)$")) @definition.module
+
+(call
+  target: (identifier) @_keyword
+  (arguments
+    [
+      (identifier) @name.definition.function
+      (call
+        target: (identifier) @name.definition.function)
+      (binary_operator
+        left: (call
+          target: (identifier) @name.definition.function)
+        operator: "when")
+    ])
+  (#match? @_keyword "^(def|defp|defdelegate|defguard|defguardp|defmacro|defmacrop|defn|defnp)$")) @definition.function
+`
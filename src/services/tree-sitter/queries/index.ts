@@ -12,3 +12,9 @@ export { default as csharpQuery } from "./c-sharp"
 export { default as goQuery } from "./go"
 export { default as swiftQuery } from "./swift"
 export { default as kotlinQuery } from "./kotlin"
+export { default as scalaQuery } from "./scala"
+export { default as elixirQuery } from "./elixir"
+export { default as zigQuery } from "./zig"
+export { default as ocamlQuery } from "./ocaml"
+export { default as cssQuery } from "./css"
+export { default as tomlQuery } from "./toml"
@@ -0,0 +1,34 @@
+/*
+- value definitions (let bindings)
+- type definitions
+- module and module type definitions
+- class definitions and methods
+- exception definitions
+*/
+export default `
+(value_definition
+  (let_binding
+    pattern: (value_name) @name.definition.function)) @definition.function
+
+(type_definition
+  (type_binding
+    name: (type_constructor) @name.definition.type)) @definition.type
+
+(module_definition
+  (module_binding
+    name: (module_name) @name.definition.module)) @definition.module
+
+(module_type_definition
+  name: (module_type_name) @name.definition.interface) @definition.interface
+
+(class_definition
+  (class_binding
+    name: (class_name) @name.definition.class)) @definition.class
+
+(method_definition
+  name: (method_name) @name.definition.method) @definition.method
+
+(exception_definition
+  (constructor_declaration
+    (constructor_name) @name.definition.exception)) @definition.exception
+`
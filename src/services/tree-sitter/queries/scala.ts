@@ -0,0 +1,33 @@
+/*
+- class definitions (including case classes)
+- object definitions
+- trait definitions
+- function definitions and declarations
+- val and var definitions
+- type definitions
+*/
+export default `
+(class_definition
+  name: (identifier) @name.definition.class) @definition.class
+
+(object_definition
+  name: (identifier) @name.definition.object) @definition.object
+
+(trait_definition
+  name: (identifier) @name.definition.trait) @definition.trait
+
+(function_definition
+  name: (identifier) @name.definition.function) @definition.function
+
+(function_declaration
+  name: (identifier) @name.definition.function) @definition.function
+
+(val_definition
+  pattern: (identifier) @name.definition.variable) @definition.variable
+
+(var_definition
+  pattern: (identifier) @name.definition.variable) @definition.variable
+
+(type_definition
+  name: (type_identifier) @name.definition.type) @definition.type
+`
@@ -0,0 +1,27 @@
+/*
+- tables and arrays of tables
+- top-level keys
+*/
+export default `
+(table
+  [
+    (bare_key)
+    (quoted_key)
+    (dotted_key)
+  ] @name.definition.table) @definition.table
+
+(table_array_element
+  [
+    (bare_key)
+    (quoted_key)
+    (dotted_key)
+  ] @name.definition.table) @definition.table
+
+(document
+  (pair
+    [
+      (bare_key)
+      (quoted_key)
+      (dotted_key)
+    ] @name.definition.key) @definition.key)
+`
@@ -0,0 +1,25 @@
+/*
+- function declarations
+- struct, enum and union declarations
+- test declarations
+*/
+export default `
+(function_declaration
+  name: (identifier) @name.definition.function) @definition.function
+
+(variable_declaration
+  (identifier) @name.definition.struct
+  (struct_declaration)) @definition.struct
+
+(variable_declaration
+  (identifier) @name.definition.enum
+  (enum_declaration)) @definition.enum
+
+(variable_declaration
+  (identifier) @name.definition.union
+  (union_declaration)) @definition.union
+
+(test_declaration
+  (string
+    (string_content) @name.definition.test)) @definition.test
+`
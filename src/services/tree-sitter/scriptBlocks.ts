@@ -0,0 +1,37 @@
+/**
+ * Script blocks of markup files (HTML, Vue and Svelte components), which are
+ * parsed with the TypeScript grammar.
+ */
+
+const SCRIPT_BLOCK_REGEX = /(<script\b[^>]*>)([\s\S]*?)<\/script\s*>/gi
+
+// Script blocks with a type that isn't JavaScript contain templates or data.
+const SCRIPT_TYPE_REGEX = /\btype\s*=\s*["']?([^"'\s>]+)/i
+const JAVASCRIPT_TYPES = ["module", "text/javascript", "application/javascript", "text/typescript"]
+
+const blank = (text: string) => text.replace(/[^\n]/g, " ")
+
+/**
+ * Blanks out everything but the content of the script blocks of a markup
+ * file. Line breaks are kept, so the rows and columns of the script code stay
+ * the same as in the file.
+ */
+export function extractScriptBlocks(content: string): string {
+	let result = ""
+	let lastIndex = 0
+
+	for (const match of content.matchAll(SCRIPT_BLOCK_REGEX)) {
+		const [, openingTag, script] = match
+		const type = SCRIPT_TYPE_REGEX.exec(openingTag)?.[1].toLowerCase()
+
+		if (type && !JAVASCRIPT_TYPES.includes(type)) {
+			continue
+		}
+
+		const scriptStart = match.index! + openingTag.length
+		result += blank(content.slice(lastIndex, scriptStart)) + script
+		lastIndex = scriptStart + script.length
+	}
+
+	return result + blank(content.slice(lastIndex))
+}
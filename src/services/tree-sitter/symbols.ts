@@ -0,0 +1,168 @@
+import * as fs from "fs/promises"
+import * as path from "path"
+
+import { extensions } from "."
+import { LanguageParser, loadRequiredLanguageParsers } from "./languageParser"
+import { textParsers } from "./textParsers"
+
+type Capture = {
+	name: string
+	node: { startPosition: { row: number }; endPosition: { row: number }; text?: unknown }
+}
+
+type Definition = { start: number; end: number; name?: string }
+
+/**
+ * A definition found by `findSymbolDefinitions`. Lines are 0-based and
+ * inclusive.
+ */
+export type SymbolDefinition = { name: string; startLine: number; endLine: number }
+
+const contains = (outer: Definition, inner: Definition) =>
+	outer.start <= inner.start && inner.end <= outer.end && (outer.start !== inner.start || outer.end !== inner.end)
+
+/**
+ * Finds the definitions of a symbol in a file using the tree-sitter queries of
+ * `list_code_definition_names`.
+ *
+ * The symbol is either a plain name (`save`) or a name qualified with the
+ * names of the definitions enclosing it (`UserService.save`). Several
+ * definitions are returned when the symbol is ambiguous, e.g. for overloads.
+ *
+ * @returns The matching definitions in file order, or `undefined` if the file
+ * type has no tree-sitter query
+ */
+export function findSymbolDefinitions(
+	filePath: string,
+	content: string,
+	languageParsers: LanguageParser,
+	symbol: string,
+): SymbolDefinition[] | undefined {
+	const definitions = parseDefinitions(filePath, content, languageParsers)
+
+	if (!definitions) {
+		return undefined
+	}
+
+	const segments = symbol
+		.split(".")
+		.map((segment) => segment.trim())
+		.filter(Boolean)
+
+	if (segments.length === 0) {
+		return []
+	}
+
+	const matches: SymbolDefinition[] = []
+
+	for (const definition of definitions) {
+		if (definition.name !== segments[segments.length - 1]) {
+			continue
+		}
+
+		// Enclosing definitions from the innermost to the outermost one.
+		const parents = definitions
+			.filter((other) => other.name && contains(other, definition))
+			.sort((a, b) => b.start - a.start || a.end - b.end)
+			.map(({ name }) => name)
+
+		const qualifiers = segments.slice(0, -1).reverse()
+
+		if (qualifiers.every((qualifier, i) => parents[i] === qualifier)) {
+			matches.push({ name: symbol, startLine: definition.start, endLine: definition.end })
+		}
+	}
+
+	return matches
+}
+
+/**
+ * Reads a file and finds the definitions of a symbol in it, loading the
+ * tree-sitter parser of the file type on demand.
+ */
+export async function findSymbolDefinitionsInFile(
+	filePath: string,
+	symbol: string,
+): Promise<SymbolDefinition[] | undefined> {
+	const ext = path.extname(filePath).toLowerCase()
+
+	if (!extensions.includes(ext)) {
+		return undefined
+	}
+
+	const content = await fs.readFile(filePath, "utf8")
+	const languageParsers = textParsers[ext] ? {} : await loadRequiredLanguageParsers([filePath])
+
+	return findSymbolDefinitions(filePath, content, languageParsers, symbol)
+}
+
+/**
+ * Finds the named definitions of a file that aren't nested in another
+ * definition, e.g. the classes and functions of a module but not their
+ * methods.
+ *
+ * @returns The definitions in file order, or `undefined` if the file type has
+ * no tree-sitter query
+ */
+export function findTopLevelDefinitions(
+	filePath: string,
+	content: string,
+	languageParsers: LanguageParser,
+): SymbolDefinition[] | undefined {
+	const definitions = parseDefinitions(filePath, content, languageParsers)
+
+	return definitions
+		?.filter((definition) => !definitions.some((other) => other.name && contains(other, definition)))
+		.flatMap(({ name, start, end }) => (name ? [{ name, startLine: start, endLine: end }] : []))
+}
+
+function parseDefinitions(
+	filePath: string,
+	content: string,
+	languageParsers: LanguageParser,
+): Definition[] | undefined {
+	const ext = path.extname(filePath).toLowerCase()
+
+	if (textParsers[ext]) {
+		return getDefinitions(textParsers[ext](content))
+	}
+
+	const { parser, query } = languageParsers[ext.slice(1)] ?? {}
+
+	if (!parser || !query) {
+		return undefined
+	}
+
+	return getDefinitions(query.captures(parser.parse(content).rootNode))
+}
+
+function getDefinitions(captures: Capture[]): Definition[] {
+	const names = captures
+		.filter(({ name, node }) => name.startsWith("name.definition") && typeof node.text === "string")
+		.sort((a, b) => a.node.startPosition.row - b.node.startPosition.row)
+
+	const definitions = new Map<string, Definition>()
+
+	for (const { name, node } of captures) {
+		if (!name.startsWith("definition.")) {
+			continue
+		}
+
+		const start = node.startPosition.row
+		const end = node.endPosition.row
+		const key = `${start}-${end}`
+
+		if (definitions.has(key)) {
+			continue
+		}
+
+		// The first name inside a definition is the name of the definition
+		// itself; nested definitions come after it.
+		const identifier = names.find(({ node }) => node.startPosition.row >= start && node.endPosition.row <= end)
+			?.node.text as string | undefined
+
+		definitions.set(key, { start, end, name: identifier })
+	}
+
+	return [...definitions.values()].sort((a, b) => a.start - b.start || b.end - a.end)
+}
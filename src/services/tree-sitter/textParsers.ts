@@ -0,0 +1,451 @@
+/**
+ * Parsers for file types without a (working) tree-sitter grammar in
+ * tree-sitter-wasms. Like the markdown parser, they find definitions line by
+ * line and return captures that are compatible with the tree-sitter captures
+ * of parseFile.
+ */
+
+import { MockCapture, parseMarkdown } from "./markdownParser"
+
+type TextDefinition = { name: string; kind: string; startLine: number; endLine: number }
+
+/**
+ * Turns definitions into pairs of name and definition captures, like the
+ * captures of the tree-sitter queries.
+ */
+function toCaptures(definitions: TextDefinition[]): MockCapture[] {
+	return definitions.flatMap(({ name, kind, startLine, endLine }) => {
+		const node = { startPosition: { row: startLine }, endPosition: { row: endLine }, text: name }
+
+		return [
+			{ node, name: `name.definition.${kind}` },
+			{ node, name: `definition.${kind}` },
+		]
+	})
+}
+
+/**
+ * Moves the end of a definition before the blank and comment lines that
+ * separate it from the next one.
+ */
+function trimEnd(lines: string[], startLine: number, endLine: number, isComment: (line: string) => boolean) {
+	while (endLine > startLine && (lines[endLine].trim() === "" || isComment(lines[endLine]))) {
+		endLine--
+	}
+
+	return endLine
+}
+
+/**
+ * Parses the top-level keys of a YAML file, including those of every document
+ * in a multi-document file.
+ *
+ * The YAML grammar of tree-sitter-wasms fails to parse with web-tree-sitter.
+ */
+export function parseYaml(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const keyRegex = /^("[^"]*"|'[^']*'|[^\s#\-?:&*!|>'"%@`{[][^:#]*?)\s*:(\s|$)/
+	const isComment = (line: string) => line.trimStart().startsWith("#")
+	const isDocumentMarker = (line: string) => /^(---|\.\.\.)(\s|$)/.test(line)
+	const definitions: TextDefinition[] = []
+
+	for (let i = 0; i < lines.length; i++) {
+		const match = keyRegex.exec(lines[i])
+
+		if (!match) {
+			continue
+		}
+
+		// The value of a key ends before the next line that isn't indented.
+		let end = i + 1
+
+		while (
+			end < lines.length &&
+			!isDocumentMarker(lines[end]) &&
+			(lines[end].trim() === "" || isComment(lines[end]) || /^[\s-]/.test(lines[end]))
+		) {
+			end++
+		}
+
+		const name = match[1].replace(/^["']|["']$/g, "")
+		definitions.push({ name, kind: "key", startLine: i, endLine: trimEnd(lines, i, end - 1, isComment) })
+		i = end - 1
+	}
+
+	return toCaptures(definitions)
+}
+
+/**
+ * Parses the top-level blocks (`resource "aws_s3_bucket" "logs" { ... }`) and
+ * attributes of an HCL file, e.g. a Terraform configuration.
+ *
+ * Blocks are named after their last label, or their type if they have no
+ * labels (`locals`, `terraform`).
+ */
+export function parseHcl(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const blockRegex = /^([A-Za-z_][\w-]*)((?:\s+(?:"[^"]*"|[A-Za-z_][\w-]*))*)\s*\{/
+	const attributeRegex = /^([A-Za-z_][\w-]*)\s*=/
+	const isComment = (line: string) => /^\s*(#|\/\/)/.test(line)
+	const definitions: TextDefinition[] = []
+
+	let inBlockComment = false
+
+	for (let i = 0; i < lines.length; i++) {
+		if (inBlockComment || lines[i].trimStart().startsWith("/*")) {
+			inBlockComment = !lines[i].includes("*/")
+			continue
+		}
+
+		const block = blockRegex.exec(lines[i])
+		const attribute = block ? undefined : attributeRegex.exec(lines[i])
+
+		if (!block && !attribute) {
+			continue
+		}
+
+		const end = findHclEnd(lines, i)
+
+		if (block) {
+			const labels = block[2].match(/"[^"]*"|[A-Za-z_][\w-]*/g)?.map((label) => label.replace(/"/g, "")) ?? []
+			definitions.push({ name: labels.at(-1) ?? block[1], kind: block[1], startLine: i, endLine: end })
+		} else {
+			definitions.push({ name: attribute![1], kind: "attribute", startLine: i, endLine: end })
+		}
+
+		i = end
+	}
+
+	return toCaptures(definitions)
+}
+
+/**
+ * The last line of the block or attribute starting at a line, found by
+ * matching its braces and brackets outside of strings, comments and heredocs.
+ */
+function findHclEnd(lines: string[], startLine: number): number {
+	let depth = 0
+
+	for (let i = startLine; i < lines.length; i++) {
+		const code = lines[i]
+			.replace(/"(?:[^"\\]|\\.)*"/g, '""')
+			.replace(/(#|\/\/).*$/, "")
+			.replace(/\/\*.*?\*\//g, "")
+
+		for (const char of code) {
+			if (char === "{" || char === "[" || char === "(") {
+				depth++
+			} else if (char === "}" || char === "]" || char === ")") {
+				depth--
+			}
+		}
+
+		const heredoc = /<<-?([A-Za-z_]\w*)\s*$/.exec(code)
+
+		if (heredoc) {
+			while (i + 1 < lines.length && lines[i + 1].trim() !== heredoc[1]) {
+				i++
+			}
+
+			i++
+		}
+
+		if (depth <= 0) {
+			return Math.min(i, lines.length - 1)
+		}
+	}
+
+	return lines.length - 1
+}
+
+/**
+ * Parses the `CREATE` statements of a SQL file (tables, views, functions,
+ * procedures, indexes, triggers, types, ...).
+ *
+ * Statements end at the first `;` outside of strings, comments and
+ * dollar-quoted bodies, or at the delimiter set with `DELIMITER` (MySQL) or a
+ * `GO` line (SQL Server).
+ */
+export function parseSql(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const createRegex =
+		/^\s*CREATE\s+(?:OR\s+(?:REPLACE|ALTER)\s+)?(?:(?:GLOBAL|LOCAL|TEMP|TEMPORARY|UNLOGGED|UNIQUE|MATERIALIZED|RECURSIVE|DEFINER\s*=\s*\S+)\s+)*(TABLE|VIEW|FUNCTION|PROCEDURE|PROC|INDEX|TRIGGER|TYPE|SEQUENCE|SCHEMA|DOMAIN)\s+(?:CONCURRENTLY\s+)?(?:IF\s+NOT\s+EXISTS\s+)?((?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[^\s(;.]+)(?:\.(?:"[^"]+"|`[^`]+`|\[[^\]]+\]|[^\s(;.]+))*)/i
+	const definitions: TextDefinition[] = []
+
+	let delimiter = ";"
+
+	for (let i = 0; i < lines.length; i++) {
+		const delimiterMatch = /^\s*DELIMITER\s+(\S+)/i.exec(lines[i])
+
+		if (delimiterMatch) {
+			delimiter = delimiterMatch[1]
+			continue
+		}
+
+		const match = createRegex.exec(lines[i])
+
+		if (!match) {
+			continue
+		}
+
+		// Qualified names (`public.users`) are named after their last part.
+		const name = match[2]
+			.split(".")
+			.at(-1)!
+			.replace(/^["`[]|["`\]]$/g, "")
+		const kind = match[1].toLowerCase() === "proc" ? "procedure" : match[1].toLowerCase()
+		const end = findSqlStatementEnd(lines, i, delimiter)
+
+		definitions.push({ name, kind, startLine: i, endLine: end })
+		i = end
+	}
+
+	return toCaptures(definitions)
+}
+
+function findSqlStatementEnd(lines: string[], startLine: number, delimiter: string): number {
+	let quote: string | undefined
+	let dollarTag: string | undefined
+	let inBlockComment = false
+
+	for (let i = startLine; i < lines.length; i++) {
+		const line = lines[i]
+
+		if (i > startLine && !quote && !dollarTag && !inBlockComment && /^\s*GO\s*$/i.test(line)) {
+			return i - 1
+		}
+
+		for (let j = 0; j < line.length; j++) {
+			const rest = line.slice(j)
+
+			if (inBlockComment) {
+				if (rest.startsWith("*/")) {
+					inBlockComment = false
+					j++
+				}
+			} else if (quote) {
+				if (line[j] === quote) {
+					quote = undefined
+				}
+			} else if (dollarTag) {
+				if (rest.startsWith(dollarTag)) {
+					j += dollarTag.length - 1
+					dollarTag = undefined
+				}
+			} else if (rest.startsWith("--")) {
+				break
+			} else if (rest.startsWith("/*")) {
+				inBlockComment = true
+				j++
+			} else if (line[j] === "'" || line[j] === '"' || line[j] === "`") {
+				quote = line[j]
+			} else if (delimiter === ";" && /^\$\w*\$/.test(rest)) {
+				dollarTag = /^\$\w*\$/.exec(rest)![0]
+				j += dollarTag.length - 1
+			} else if (rest.startsWith(delimiter)) {
+				return i
+			}
+		}
+	}
+
+	return lines.length - 1
+}
+
+/**
+ * Parses the top-level declarations of a Haskell module: data types,
+ * newtypes, type synonyms and families, classes, instances and functions.
+ *
+ * A declaration ends before the next line that isn't indented. The type
+ * signature and the equations of a function are one definition.
+ */
+export function parseHaskell(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const isComment = (line: string) => /^\s*(--|\{-)/.test(line)
+	const typeRegex = /^(data|newtype|type|class|instance)\s+(?:family\s+|instance\s+)?(?:.*=>\s*)?\(?([A-Z][\w']*)/
+	const functionRegex = /^(?:\(([^)\s]+)\)|([a-z_][\w']*))(?=\s|::|=|$)/
+	// Equations of operators, e.g. `a <+> b = ...` or ``a `plus` b = ...``.
+	const infixRegex = /^[a-z_][\w']*\s+(?:([!#$%&*+./<=>?@\\^|~:-]+)|`([a-z_][\w']*)`)\s/
+	const definitions: TextDefinition[] = []
+
+	let inBlockComment = false
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i]
+
+		if (inBlockComment || line.startsWith("{-")) {
+			inBlockComment = !line.includes("-}")
+			continue
+		}
+
+		if (line.trim() === "" || /^\s/.test(line) || isComment(line) || /^(module|import)\b/.test(line)) {
+			continue
+		}
+
+		let name: string
+		let kind: string
+		const type = typeRegex.exec(line)
+		const fn = type ? undefined : functionRegex.exec(line)
+		const infix = type ? undefined : infixRegex.exec(line)
+		const operator = infix?.[1] ?? infix?.[2]
+
+		if (type) {
+			kind = { data: "data", newtype: "data", type: "type", class: "class", instance: "instance" }[type[1]]!
+			name = type[2]
+		} else if (operator && operator !== "=" && operator !== "::") {
+			kind = "function"
+			name = operator
+		} else if (fn) {
+			kind = "function"
+			name = fn[1] ?? fn[2]
+		} else {
+			continue
+		}
+
+		let end = i + 1
+
+		while (end < lines.length && (lines[end].trim() === "" || /^\s/.test(lines[end]) || isComment(lines[end]))) {
+			end++
+		}
+
+		const previous = definitions.at(-1)
+
+		// Equations of the function declared or defined on the previous lines.
+		if (kind === "function" && previous?.kind === "function" && previous.name === name) {
+			previous.endLine = trimEnd(lines, i, end - 1, isComment)
+		} else {
+			definitions.push({ name, kind, startLine: i, endLine: trimEnd(lines, i, end - 1, isComment) })
+		}
+
+		i = end - 1
+	}
+
+	return toCaptures(definitions)
+}
+
+/**
+ * Parses the top-level functions of a Lua file, including module functions
+ * (`function M.greet()`), methods and functions assigned to variables.
+ *
+ * The Lua grammar of tree-sitter-wasms keeps the state of its scanner between
+ * parses, so only the first file parsed with it would be parsed correctly.
+ */
+export function parseLua(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const functionRegex = /^\s*(?:local\s+)?function\s+([\w.:]+)|^\s*(?:local\s+)?([\w.]+)\s*=\s*function\b/
+	const definitions: TextDefinition[] = []
+
+	let depth = 0
+	let longBracket: string | undefined
+	let current: TextDefinition | undefined
+
+	for (let i = 0; i < lines.length; i++) {
+		let code = lines[i]
+
+		// Skip the rest of long strings and comments (`[[ ... ]]`, `[==[ ... ]==]`).
+		if (longBracket) {
+			const end = code.indexOf(longBracket)
+
+			if (end === -1) {
+				continue
+			}
+
+			code = code.slice(end + longBracket.length)
+			longBracket = undefined
+		}
+
+		const match = depth === 0 ? functionRegex.exec(code) : null
+
+		if (match) {
+			const name = (match[1] ?? match[2]).split(/[.:]/).at(-1)!
+			current = { name, kind: match[1]?.includes(":") ? "method" : "function", startLine: i, endLine: i }
+		}
+
+		code = code.replace(/"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'/g, '""')
+		const longStart = /(?:--)?\[(=*)\[/.exec(code)
+
+		if (longStart && !code.slice(longStart.index).includes(`]${longStart[1]}]`)) {
+			longBracket = `]${longStart[1]}]`
+			code = code.slice(0, longStart.index)
+		}
+
+		code = code.replace(/(?:--)?\[(=*)\[.*?\]\1\]/g, "").replace(/--.*$/, "")
+
+		depth += (code.match(/\b(function|if|do|repeat)\b/g) ?? []).length
+		depth -= (code.match(/\b(end|until)\b/g) ?? []).length
+
+		if (current && depth <= 0) {
+			current.endLine = i
+			definitions.push(current)
+			current = undefined
+			depth = 0
+		}
+	}
+
+	return toCaptures(definitions)
+}
+
+/**
+ * Parses the functions of a shell script (`build() { ... }`,
+ * `function deploy { ... }`).
+ *
+ * The Bash grammar of tree-sitter-wasms fails on `case` statements.
+ */
+export function parseShell(content: string): MockCapture[] {
+	const lines = content.split("\n")
+	const functionRegex = /^\s*(?:function\s+([\w:.-]+)\s*(?:\(\s*\))?|([\w:.-]+)\s*\(\s*\))\s*\{?/
+	const definitions: TextDefinition[] = []
+
+	let depth = 0
+	let heredoc: string | undefined
+	let current: TextDefinition | undefined
+
+	for (let i = 0; i < lines.length; i++) {
+		if (heredoc) {
+			if (lines[i].replace(/^\t+/, "") === heredoc) {
+				heredoc = undefined
+			}
+
+			continue
+		}
+
+		const match = depth === 0 ? functionRegex.exec(lines[i]) : null
+
+		if (match) {
+			current = { name: match[1] ?? match[2], kind: "function", startLine: i, endLine: i }
+		}
+
+		const code = lines[i].replace(/'[^']*'|"(?:[^"\\]|\\.)*"/g, '""').replace(/(^|\s)#.*$/, "")
+
+		depth += (code.match(/\{/g) ?? []).length - (code.match(/\}/g) ?? []).length
+		heredoc = /<<-?\s*['"]?(\w+)['"]?/.exec(code)?.[1]
+
+		// The body of a function may start on the next line.
+		if (current && depth <= 0 && !(i === current.startLine && !code.includes("{"))) {
+			current.endLine = i
+			definitions.push(current)
+			current = undefined
+			depth = 0
+		}
+	}
+
+	return toCaptures(definitions)
+}
+
+/**
+ * The parsers of the file types that aren't parsed with tree-sitter, by file
+ * extension.
+ */
+export const textParsers: Record<string, (content: string) => MockCapture[]> = {
+	".md": parseMarkdown,
+	".markdown": parseMarkdown,
+	".yml": parseYaml,
+	".yaml": parseYaml,
+	".tf": parseHcl,
+	".tfvars": parseHcl,
+	".hcl": parseHcl,
+	".sql": parseSql,
+	".hs": parseHaskell,
+	".lua": parseLua,
+	".sh": parseShell,
+	".bash": parseShell,
+}
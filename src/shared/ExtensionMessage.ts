@@ -6,6 +6,9 @@ import {
 	HistoryItem,
 	ModeConfig,
 	CheckpointStorage,
+	ContextManagementStrategy,
+	DiagnosticsScope,
+	CommandPolicy,
 	TelemetrySetting,
 	ExperimentId,
 	ClineAsk,
@@ -58,6 +61,7 @@ export interface ExtensionMessage {
 		| "updateCustomMode"
 		| "deleteCustomMode"
 		| "currentCheckpointUpdated"
+		| "checkpointFiles"
 		| "showHumanRelayDialog"
 		| "humanRelayResponse"
 		| "humanRelayCancel"
@@ -119,6 +123,10 @@ export type ExtensionState = Pick<
 	| "currentApiConfigName"
 	| "listApiConfigMeta"
 	| "pinnedApiConfigs"
+	| "apiConfigFallbacks"
+	| "modeApiConfigFallbacks"
+	| "apiFailoverThreshold"
+	| "apiFailoverCooldownSeconds"
 	// | "lastShownAnnouncementId"
 	| "customInstructions"
 	// | "taskHistory" // Optional in GlobalSettings, required here.
@@ -136,6 +144,9 @@ export type ExtensionState = Pick<
 	| "alwaysAllowSubtasks"
 	| "alwaysAllowExecute"
 	| "allowedCommands"
+	| "deniedCommands"
+	| "taskBudget"
+	| "dailyBudget"
 	| "browserToolEnabled"
 	| "browserViewportSize"
 	| "screenshotQuality"
@@ -151,6 +162,18 @@ export type ExtensionState = Pick<
 	// | "maxWorkspaceFiles" // Optional in GlobalSettings, required here.
 	// | "showRooIgnoredFiles" // Optional in GlobalSettings, required here.
 	// | "maxReadFileLine" // Optional in GlobalSettings, required here.
+	// | "contextManagementStrategy" // Optional in GlobalSettings, required here.
+	| "condensingApiConfigId"
+	// | "diagnosticsEnabled" // Optional in GlobalSettings, required here.
+	// | "diagnosticsDelayMs" // Optional in GlobalSettings, required here.
+	// | "diagnosticsIncludeWarnings" // Optional in GlobalSettings, required here.
+	// | "diagnosticsScope" // Optional in GlobalSettings, required here.
+	// | "repoMapEnabled" // Optional in GlobalSettings, required here.
+	// | "repoMapMaxTokens" // Optional in GlobalSettings, required here.
+	| "repoMapModes"
+	| "codebaseIndexEnabled"
+	| "codebaseIndexEmbedderBaseUrl"
+	| "codebaseIndexEmbedderModelId"
 	| "terminalOutputLineLimit"
 	| "terminalShellIntegrationTimeout"
 	| "terminalCommandDelay"
@@ -159,6 +182,10 @@ export type ExtensionState = Pick<
 	| "terminalZshOhMy"
 	| "terminalZshP10k"
 	| "terminalZdotdir"
+	| "modeCommandSandboxes"
+	| "commandSandboxNetworkEnabled"
+	| "commandSandboxWritablePaths"
+	| "commandSandboxImage"
 	| "diffEnabled"
 	| "fuzzyMatchThreshold"
 	// | "experiments" // Optional in GlobalSettings, required here.
@@ -191,6 +218,17 @@ export type ExtensionState = Pick<
 	maxWorkspaceFiles: number // Maximum number of files to include in current working directory details (0-500)
 	showRooIgnoredFiles: boolean // Whether to show .rooignore'd files in listings
 	maxReadFileLine: number // Maximum number of lines to read from a file before truncating
+	contextManagementStrategy: ContextManagementStrategy // How to free up space when the context window is full
+	diagnosticsEnabled: boolean // Whether to report new problems after file edits
+	diagnosticsDelayMs: number // Maximum time to wait for language servers to update diagnostics after an edit
+	diagnosticsIncludeWarnings: boolean // Whether new warnings are reported besides new errors
+	diagnosticsScope: DiagnosticsScope // Which files new problems are reported for
+	repoMapEnabled: boolean // Whether a map of the repository's most referenced definitions is added to the system prompt
+	repoMapMaxTokens: number // Token budget of the repository map
+	codebaseIndexEmbedderApiKey?: string // Stored as a secret, hence not part of the global settings
+	projectCommandPolicy?: CommandPolicy // Command policy shared by the project in .roo/command-policy.json
+	dailyBudgetUsage?: BudgetTotals // API usage of all tasks in the last 24 hours
+	backgroundProcesses?: BackgroundProcessInfo[] // Background processes of the current task
 
 	experiments: Record<ExperimentId, boolean> // Map of experiment IDs to their enabled state
 
@@ -217,12 +255,22 @@ export interface ClineSayTool {
 		| "editedExistingFile"
 		| "appliedDiff"
 		| "newFileCreated"
+		| "renamedSymbol"
+		| "appliedCodeAction"
+		| "listCodeActions"
 		| "readFile"
 		| "fetchInstructions"
 		| "listFilesTopLevel"
 		| "listFilesRecursive"
 		| "listCodeDefinitionNames"
 		| "searchFiles"
+		| "codebaseSearch"
+		| "goToDefinition"
+		| "findReferences"
+		| "getHover"
+		| "searchWorkspaceSymbols"
+		| "readProcessOutput"
+		| "stopProcess"
 		| "switchMode"
 		| "newTask"
 		| "finishTask"
@@ -231,9 +279,33 @@ export interface ClineSayTool {
 	content?: string
 	regex?: string
 	filePattern?: string
+	query?: string
+	symbol?: string
+	newName?: string
+	codeAction?: string
+	processName?: string
 	mode?: string
 	reason?: string
 	isOutsideWorkspace?: boolean
+	batchDiffs?: BatchDiffItem[]
+}
+
+export type BackgroundProcessStatus = "running" | "exited" | "stopped"
+
+export interface BackgroundProcessInfo {
+	name: string
+	command: string
+	cwd: string
+	status: BackgroundProcessStatus
+	exitCode?: number
+	startedAt: number
+	endedAt?: number
+	unreadLines: number
+}
+
+export interface BatchDiffItem {
+	path: string
+	diff: string
 }
 
 // Must keep in sync with system prompt.
@@ -242,6 +314,14 @@ export const browserActions = [
 	"click",
 	"hover",
 	"type",
+	"press",
+	"select_option",
+	"upload_file",
+	"wait_for",
+	"snapshot",
+	"network_log",
+	"console_log",
+	"export_har",
 	"scroll_down",
 	"scroll_up",
 	"resize",
@@ -252,15 +332,25 @@ export type BrowserAction = (typeof browserActions)[number]
 
 export interface ClineSayBrowserAction {
 	action: BrowserAction
+	url?: string
 	coordinate?: string
+	selector?: string
+	// The role and name of the element an element ref selector targets.
+	element?: { role: string; name: string }
+	status?: string
 	size?: string
 	text?: string
+	path?: string
 }
 
 export type BrowserActionResult = {
 	screenshot?: string
 	logs?: string
+	snapshot?: string
+	// The text result of the actions that query the session, like `network_log`.
+	output?: string
 	currentUrl?: string
+	currentTitle?: string
 	currentMousePosition?: string
 }
 
@@ -283,4 +373,44 @@ export interface ClineApiReqInfo {
 	streamingFailedMessage?: string
 }
 
+export interface ClineApiProviderSwitchInfo {
+	from: string
+	to: string
+	modelId: string
+	reason: "failed" | "cooldown"
+}
+
+export type BudgetMetric = "cost" | "tokensIn" | "requests"
+
+export type BudgetTotals = Record<BudgetMetric, number>
+
+export interface ClineBudgetLimitInfo {
+	scope: "task" | "daily"
+	metric: BudgetMetric
+	limit: number
+	value: number
+}
+
+export type ClineVerificationStepStatus = "pending" | "running" | "passed" | "failed" | "skipped"
+
+export interface ClineVerificationStep {
+	command: string
+	status: ClineVerificationStepStatus
+	exitCode?: number
+}
+
+export interface ClineVerificationInfo {
+	attempt: number
+	maxRetries: number
+	steps: ClineVerificationStep[]
+}
+
 export type ClineApiReqCancelReason = "streaming_failed" | "user_cancelled"
+
+export interface ClineContextCondenseInfo {
+	summary?: string
+	cost: number
+	prevContextTokens: number
+	newContextTokens: number
+	error?: string
+}
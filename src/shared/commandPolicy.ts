@@ -0,0 +1,250 @@
+import { parse } from "shell-quote"
+
+import { CommandPolicy, CommandRules } from "../schemas"
+
+type ShellToken = string | { op: string } | { command: string }
+
+/** Operators that end a command: chains, pipelines, background jobs and ( … ) groups. */
+const COMMAND_SEPARATORS = ["&&", "||", ";", ";;", "|", "|&", "&", "(", ")", "<(", ">("]
+
+/**
+ * Replace every `$(…)` and `` `…` `` in a command with a placeholder and
+ * collect the commands they contain. Parentheses are matched, so nested
+ * subshells end up in the commands of their outer subshell.
+ */
+function extractSubshells(command: string, subshells: string[][]): string {
+	let result = ""
+	let i = 0
+
+	while (i < command.length) {
+		if (command.startsWith("$(", i)) {
+			let depth = 1
+			let end = i + 2
+
+			while (end < command.length && depth > 0) {
+				if (command[end] === "(") depth++
+				else if (command[end] === ")") depth--
+				end++
+			}
+
+			subshells.push(parseCommand(command.slice(i + 2, depth > 0 ? end : end - 1)))
+			result += `__SUBSH_${subshells.length - 1}__`
+			i = end
+		} else if (command[i] === "`") {
+			const end = command.indexOf("`", i + 1)
+			const inner = end === -1 ? command.slice(i + 1) : command.slice(i + 1, end)
+
+			subshells.push(parseCommand(inner))
+			result += `__SUBSH_${subshells.length - 1}__`
+			i = end === -1 ? command.length : end + 1
+		} else {
+			result += command[i]
+			i++
+		}
+	}
+
+	return result
+}
+
+/**
+ * Split a command string into individual sub-commands by
+ * chaining operators (&&, ||, ;, |, &), newlines and ( … ) groups.
+ *
+ * Uses shell-quote to properly handle:
+ * - Quoted strings (preserves quotes)
+ * - Subshell commands ($(cmd) or `cmd`), whose commands are split as well
+ * - PowerShell redirections (2>&1)
+ * - Chain operators (&&, ||, ;, |, &)
+ */
+export function parseCommand(command: string): string[] {
+	if (!command?.trim()) return []
+
+	// First handle subshell commands
+	const subshells: string[][] = []
+	let processedCommand = extractSubshells(command, subshells)
+
+	// Then handle PowerShell redirections (and `&>`) by temporarily replacing them
+	const redirections: string[] = []
+	processedCommand = processedCommand.replace(/\d*>&\d*|&>>?/g, (match) => {
+		redirections.push(match)
+		return `__REDIR_${redirections.length - 1}__`
+	})
+
+	// Then handle quoted strings
+	const quotes: string[] = []
+	processedCommand = processedCommand.replace(/"[^"]*"/g, (match) => {
+		quotes.push(match)
+		return `__QUOTE_${quotes.length - 1}__`
+	})
+
+	// Newlines outside of quoted strings end a command like `;` does
+	processedCommand = processedCommand.replace(/\r?\n/g, " ; ")
+
+	const tokens = parse(processedCommand) as ShellToken[]
+	const commands: string[] = []
+	let currentCommand: string[] = []
+
+	for (const token of tokens) {
+		if (typeof token === "object" && "op" in token) {
+			// Chain operator - split command
+			if (COMMAND_SEPARATORS.includes(token.op)) {
+				if (currentCommand.length > 0) {
+					commands.push(currentCommand.join(" "))
+					currentCommand = []
+				}
+			} else {
+				// Other operators (e.g. >) are part of the command
+				currentCommand.push(token.op)
+			}
+		} else if (typeof token === "string") {
+			// Check if it contains subshell placeholders, also within a quoted string
+			const text = token.replace(/__QUOTE_(\d+)__/g, (_, i) => quotes[parseInt(i)])
+			const subshellPlaceholders = text.match(/__SUBSH_\d+__/g)
+
+			if (subshellPlaceholders) {
+				if (currentCommand.length > 0) {
+					commands.push(currentCommand.join(" "))
+					currentCommand = []
+				}
+				for (const placeholder of subshellPlaceholders) {
+					commands.push(...subshells[parseInt(placeholder.replace(/\D/g, ""))])
+				}
+			} else {
+				currentCommand.push(token)
+			}
+		}
+	}
+
+	// Add any remaining command
+	if (currentCommand.length > 0) {
+		commands.push(currentCommand.join(" "))
+	}
+
+	// Restore quotes and redirections
+	return commands.map((cmd) => {
+		let result = cmd
+		// Restore quotes
+		result = result.replace(/__QUOTE_(\d+)__/g, (_, i) => quotes[parseInt(i)])
+		// Restore redirections
+		result = result.replace(/__REDIR_(\d+)__/g, (_, i) => redirections[parseInt(i)])
+		return result
+	})
+}
+
+/**
+ * Check if a single command matches a command policy pattern:
+ * - `/regex/flags` is matched as a regular expression.
+ * - Patterns containing `*` or `?` are globs that must match the whole command.
+ * - Any other pattern matches commands starting with it, case-insensitively.
+ */
+export function matchesCommandPattern(command: string, pattern: string): boolean {
+	const trimmedCommand = command.trim()
+	const trimmedPattern = pattern.trim()
+
+	if (!trimmedCommand || !trimmedPattern) return false
+
+	const regexMatch = trimmedPattern.match(/^\/(.+)\/([a-z]*)$/)
+
+	if (regexMatch) {
+		try {
+			return new RegExp(regexMatch[1], regexMatch[2]).test(trimmedCommand)
+		} catch {
+			// An invalid regular expression never matches.
+			return false
+		}
+	}
+
+	if (/[*?]/.test(trimmedPattern)) {
+		const source = trimmedPattern
+			.split("")
+			.map((char) => (char === "*" ? ".*" : char === "?" ? "." : char.replace(/[.+^${}()|[\]\\]/g, "\\$&")))
+			.join("")
+
+		return new RegExp(`^${source}$`, "is").test(trimmedCommand)
+	}
+
+	return trimmedCommand.toLowerCase().startsWith(trimmedPattern.toLowerCase())
+}
+
+export type CommandPolicyDecision =
+	| { action: "allow" }
+	| { action: "ask" }
+	| { action: "deny"; command: string; rule: string }
+
+type RuleMatch = { action: "allow" | "deny"; rule: string }
+
+function matchRules(command: string, rules: CommandRules | undefined): RuleMatch | undefined {
+	const denyRule = rules?.deny?.find((rule) => matchesCommandPattern(command, rule))
+
+	if (denyRule) {
+		return { action: "deny", rule: denyRule }
+	}
+
+	const allowRule = rules?.allow?.find((rule) => matchesCommandPattern(command, rule))
+	return allowRule ? { action: "allow", rule: allowRule } : undefined
+}
+
+/**
+ * Decides whether a command may be auto-approved ("allow"), needs the user's
+ * approval ("ask") or must not be run at all ("deny").
+ *
+ * Every sub-command of a chain, pipeline or subshell is checked on its own
+ * and the most restrictive result wins. For each sub-command the rules of the
+ * current mode take precedence over the global rules, and within a set of
+ * rules deny rules take precedence over allow rules.
+ */
+export function getCommandPolicyDecision(command: string, policy: CommandPolicy, mode?: string): CommandPolicyDecision {
+	if (!command?.trim()) return { action: "allow" }
+
+	const modeRules = mode ? policy.modes?.[mode] : undefined
+	const allowsEverything = [...(policy.allow ?? []), ...(modeRules?.allow ?? [])].some((rule) => rule.trim() === "*")
+	let isAllowed = true
+
+	for (const subCommand of parseCommand(command)) {
+		// Remove simple PowerShell-like redirections (e.g. 2>&1) before checking
+		const cmd = subCommand.replace(/\d*>&\d*/, "").trim()
+		const match = matchRules(cmd, modeRules) ?? matchRules(cmd, policy)
+
+		if (match?.action === "deny") {
+			return { action: "deny", command: cmd, rule: match.rule }
+		}
+
+		isAllowed &&= match?.action === "allow"
+	}
+
+	// Subshells are never auto-approved unless everything is allowed.
+	if (!allowsEverything && (command.includes("$(") || command.includes("`"))) {
+		return { action: "ask" }
+	}
+
+	return isAllowed || allowsEverything ? { action: "allow" } : { action: "ask" }
+}
+
+/**
+ * Decides on a command given the user's own rules and the policy that the
+ * project shares in `.roo/command-policy.json`.
+ *
+ * A project policy comes with the repository, so it can only restrict what
+ * the user allows. The user's deny rules are checked first and are final.
+ * The project's deny rules deny commands the user didn't deny. The project's
+ * allow rules only lift the project's own deny rules, e.g. for a mode. They
+ * never auto-approve a command that the user's allow rules don't.
+ */
+export function getCommandDecision(
+	command: string,
+	{
+		allowedCommands,
+		deniedCommands,
+		projectPolicy,
+		mode,
+	}: { allowedCommands?: string[]; deniedCommands?: string[]; projectPolicy?: CommandPolicy; mode?: string },
+): CommandPolicyDecision {
+	const userDecision = getCommandPolicyDecision(command, { allow: allowedCommands, deny: deniedCommands })
+
+	if (userDecision.action === "deny" || !projectPolicy) {
+		return userDecision
+	}
+
+	const projectDecision = getCommandPolicyDecision(command, projectPolicy, mode)
+	return projectDecision.action === "deny" ? projectDecision : userDecision
+}
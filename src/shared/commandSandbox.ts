@@ -0,0 +1,13 @@
+import { CommandSandbox } from "../schemas"
+
+// Container image that sandboxed commands run in when none is configured.
+export const DEFAULT_COMMAND_SANDBOX_IMAGE = "node:lts"
+
+/**
+ * The sandbox that commands run in for a mode, `none` if they run in a
+ * terminal
+ */
+export const getCommandSandboxForMode = (
+	mode: string,
+	{ modeCommandSandboxes }: { modeCommandSandboxes?: Record<string, CommandSandbox> },
+): CommandSandbox => modeCommandSandboxes?.[mode] ?? "none"
@@ -8,6 +8,7 @@ import { ClineMessage } from "./ExtensionMessage"
  * This function processes 'api_req_started' messages that have been combined with their
  * corresponding 'api_req_finished' messages by the combineApiRequests function.
  * It extracts and sums up the tokensIn, tokensOut, cacheWrites, cacheReads, and cost from these messages.
+ * The cost of 'condense_context' messages is added to the total cost as well.
  *
  * @param messages - An array of ClineMessage objects to process.
  * @returns An ApiMetrics object containing totalTokensIn, totalTokensOut, totalCacheWrites, totalCacheReads, totalCost, and contextTokens.
@@ -77,6 +78,17 @@ export function getApiMetrics(messages: ClineMessage[]) {
 			} catch (error) {
 				console.error("Error parsing JSON:", error)
 			}
+		} else if (message.type === "say" && message.say === "condense_context" && message.text) {
+			// Summarizing the context is billed separately from the task's API requests
+			try {
+				const { cost } = JSON.parse(message.text)
+
+				if (typeof cost === "number") {
+					result.totalCost += cost
+				}
+			} catch (error) {
+				console.error("Error parsing JSON:", error)
+			}
 		}
 	})
 
@@ -1,7 +1,10 @@
+export type McpAuthStatus = "authenticated" | "refreshing" | "unauthorized"
+
 export type McpServer = {
 	name: string
 	config: string
 	status: "connected" | "connecting" | "disconnected"
+	authStatus?: McpAuthStatus // Only set for servers with an `auth` configuration
 	error?: string
 	tools?: McpTool[]
 	resources?: McpResource[]
@@ -0,0 +1,11 @@
+// Default token budget of the repository map in the system prompt.
+export const DEFAULT_REPO_MAP_MAX_TOKENS = 1024
+
+/**
+ * Whether the repository map is added to the system prompt of a mode. Without
+ * a list of modes, the map is added in every mode.
+ */
+export const isRepoMapEnabledForMode = (
+	mode: string,
+	{ repoMapEnabled, repoMapModes }: { repoMapEnabled?: boolean; repoMapModes?: string[] },
+) => (repoMapEnabled ?? false) && (repoMapModes?.includes(mode) ?? true)
@@ -76,6 +76,26 @@ export async function getCacheDirectoryPath(globalStoragePath: string): Promise<
 	return cacheDir
 }
 
+/**
+ * Gets the directory path for the semantic code indexes of all workspaces
+ */
+export async function getCodeIndexDirectoryPath(globalStoragePath: string): Promise<string> {
+	const basePath = await getStorageBasePath(globalStoragePath)
+	const codeIndexDir = path.join(basePath, "code-index")
+	await fs.mkdir(codeIndexDir, { recursive: true })
+	return codeIndexDir
+}
+
+/**
+ * Gets the directory path for the cached repository maps of all workspaces
+ */
+export async function getRepoMapDirectoryPath(globalStoragePath: string): Promise<string> {
+	const basePath = await getStorageBasePath(globalStoragePath)
+	const repoMapDir = path.join(basePath, "repo-map")
+	await fs.mkdir(repoMapDir, { recursive: true })
+	return repoMapDir
+}
+
 /**
  * Prompts the user to set a custom storage path
  * Displays an input box allowing the user to enter a custom path
@@ -9,13 +9,22 @@ export type ToolGroupConfig = {
 // Map of tool slugs to their display names
 export const TOOL_DISPLAY_NAMES = {
 	execute_command: "run commands",
+	read_process_output: "read process output",
+	stop_process: "stop processes",
 	read_file: "read files",
 	fetch_instructions: "fetch instructions",
 	write_to_file: "write files",
 	apply_diff: "apply changes",
+	rename_symbol: "rename symbols",
+	apply_code_action: "apply code actions",
 	search_files: "search files",
 	list_files: "list files",
 	list_code_definition_names: "list definitions",
+	codebase_search: "search the codebase",
+	go_to_definition: "go to definitions",
+	find_references: "find references",
+	get_hover: "get hover information",
+	search_workspace_symbols: "search workspace symbols",
 	browser_action: "use a browser",
 	use_mcp_tool: "use mcp tools",
 	access_mcp_resource: "access mcp resources",
@@ -30,16 +39,34 @@ export type { ToolGroup }
 // Define available tool groups
 export const TOOL_GROUPS: Record<ToolGroup, ToolGroupConfig> = {
 	read: {
-		tools: ["read_file", "fetch_instructions", "search_files", "list_files", "list_code_definition_names"],
+		tools: [
+			"read_file",
+			"fetch_instructions",
+			"search_files",
+			"list_files",
+			"list_code_definition_names",
+			"codebase_search",
+			"go_to_definition",
+			"find_references",
+			"get_hover",
+			"search_workspace_symbols",
+		],
 	},
 	edit: {
-		tools: ["apply_diff", "write_to_file", "insert_content", "search_and_replace"],
+		tools: [
+			"apply_diff",
+			"write_to_file",
+			"insert_content",
+			"search_and_replace",
+			"rename_symbol",
+			"apply_code_action",
+		],
 	},
 	browser: {
 		tools: ["browser_action"],
 	},
 	command: {
-		tools: ["execute_command"],
+		tools: ["execute_command", "read_process_output", "stop_process"],
 	},
 	mcp: {
 		tools: ["use_mcp_tool", "access_mcp_resource"],
@@ -1,5 +1,5 @@
 import { jest } from "@jest/globals"
-import { searchCommits, getCommitInfo, getWorkingState, GitCommit } from "../git"
+import { searchCommits, getCommitInfo, getWorkingState, getHeadCommit, GitCommit } from "../git"
 import { ExecException } from "child_process"
 
 type ExecFunction = (
@@ -341,4 +341,26 @@ describe("git utils", () => {
 			expect(result).toBe("Not a git repository")
 		})
 	})
+
+	describe("getHeadCommit", () => {
+		it("should return the hash of the checked out commit", async () => {
+			exec.mockImplementation((command: string, options: { cwd?: string }, callback: Function) => {
+				if (command === "git rev-parse HEAD") {
+					callback(null, { stdout: "abc123def456\n", stderr: "" })
+				} else {
+					callback(new Error("Unexpected command"))
+				}
+			})
+
+			expect(await getHeadCommit(cwd)).toBe("abc123def456")
+		})
+
+		it("should return undefined outside of a git repository", async () => {
+			exec.mockImplementation((command: string, options: { cwd?: string }, callback: Function) => {
+				callback(new Error("not a git repository"))
+			})
+
+			expect(await getHeadCommit(cwd)).toBeUndefined()
+		})
+	})
 })
@@ -2,7 +2,14 @@
 import os from "os"
 import * as path from "path"
 
-import { arePathsEqual, getReadablePath, getWorkspacePath } from "../path"
+import {
+	arePathsEqual,
+	getReadablePath,
+	getWorkspacePath,
+	parseRootQualifiedPath,
+	resolveWorkspacePath,
+	toWorkspaceRelativePath,
+} from "../path"
 
 // Mock modules
 
@@ -170,4 +177,44 @@ describe("Path Utilities", () => {
 			expect(getReadablePath(cwd, filePath)).toBe("src/file.txt")
 		})
 	})
+
+	describe("multi-root workspaces", () => {
+		const frontend = { name: "frontend", path: path.resolve("/repos/frontend") }
+		const backend = { name: "backend", path: path.resolve("/repos/backend") }
+		const roots = [frontend, backend]
+
+		it("should parse root-qualified paths", () => {
+			expect(parseRootQualifiedPath("backend:src/app.ts", roots)).toEqual({
+				root: backend,
+				relPath: "src/app.ts",
+			})
+			expect(parseRootQualifiedPath("backend:/src/app.ts", roots)).toEqual({
+				root: backend,
+				relPath: "src/app.ts",
+			})
+			expect(parseRootQualifiedPath("unknown:src/app.ts", roots)).toBeUndefined()
+			expect(parseRootQualifiedPath("src/app.ts", roots)).toBeUndefined()
+		})
+
+		it("should resolve root-qualified paths in their root", () => {
+			expect(resolveWorkspacePath(frontend.path, "backend:src/app.ts", roots)).toBe(
+				path.join(backend.path, "src", "app.ts"),
+			)
+			expect(resolveWorkspacePath(frontend.path, "src/app.ts", roots)).toBe(
+				path.join(frontend.path, "src", "app.ts"),
+			)
+		})
+
+		it("should qualify paths in other roots with the name of their root", () => {
+			expect(toWorkspaceRelativePath(path.join(backend.path, "src", "app.ts"), frontend.path, roots)).toBe(
+				"backend:src/app.ts",
+			)
+			expect(toWorkspaceRelativePath(path.join(frontend.path, "src", "app.ts"), frontend.path, roots)).toBe(
+				"src/app.ts",
+			)
+			expect(toWorkspaceRelativePath(path.resolve("/elsewhere/app.ts"), frontend.path, roots)).toBe(
+				path.relative(frontend.path, path.resolve("/elsewhere/app.ts")).toPosix(),
+			)
+		})
+	})
 })
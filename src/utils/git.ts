@@ -89,6 +89,19 @@ export async function searchCommits(query: string, cwd: string): Promise<GitComm
 	}
 }
 
+/**
+ * Returns the hash of the commit checked out in a directory, or `undefined` if
+ * the directory isn't part of a git repository with commits.
+ */
+export async function getHeadCommit(cwd: string): Promise<string | undefined> {
+	try {
+		const { stdout } = await execAsync("git rev-parse HEAD", { cwd })
+		return stdout.trim() || undefined
+	} catch (error) {
+		return undefined
+	}
+}
+
 export async function getCommitInfo(hash: string, cwd: string): Promise<string> {
 	try {
 		const isInstalled = await checkGitInstalled()
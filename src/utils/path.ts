@@ -82,7 +82,7 @@ function normalizePath(p: string): string {
 export function getReadablePath(cwd: string, relPath?: string): string {
 	relPath = relPath || ""
 	// path.resolve is flexible in that it will resolve relative paths like '../../' to the cwd and even ignore the cwd if the relPath is actually an absolute path
-	const absolutePath = path.resolve(cwd, relPath)
+	const absolutePath = resolveWorkspacePath(cwd, relPath)
 	if (arePathsEqual(cwd, path.join(os.homedir(), "Desktop"))) {
 		// User opened vscode without a workspace, so cwd is the Desktop. Show the full absolute path to keep the user aware of where files are being created
 		return absolutePath.toPosix()
@@ -94,10 +94,14 @@ export function getReadablePath(cwd: string, relPath?: string): string {
 		const normalizedRelPath = path.relative(cwd, absolutePath)
 		if (absolutePath.includes(cwd)) {
 			return normalizedRelPath.toPosix()
-		} else {
-			// we are outside the cwd, so show the absolute path (useful for when cline passes in '../../' for example)
-			return absolutePath.toPosix()
 		}
+		// files in the other roots of a multi-root workspace are shown with the name of their root
+		const root = getWorkspaceRootForPath(absolutePath, getWorkspaceRoots())
+		if (root && !arePathsEqual(root.path, cwd)) {
+			return `${root.name}:${path.relative(root.path, absolutePath).toPosix()}`
+		}
+		// we are outside the cwd, so show the absolute path (useful for when cline passes in '../../' for example)
+		return absolutePath.toPosix()
 	}
 }
 
@@ -115,3 +119,79 @@ export const getWorkspacePath = (defaultCwdPath = "") => {
 	}
 	return cwdPath
 }
+
+export type WorkspaceRoot = {
+	name: string
+	path: string
+}
+
+/**
+ * Returns the folders of the workspace. A multi-root workspace has a root for
+ * every folder, while the tasks run in the root returned by `getWorkspacePath`.
+ */
+export const getWorkspaceRoots = (): WorkspaceRoot[] =>
+	vscode.workspace.workspaceFolders?.map((folder) => ({ name: folder.name, path: folder.uri.fsPath })) ?? []
+
+/**
+ * Returns the workspace roots other than `cwd`, whose files are referred to
+ * with root-qualified paths.
+ */
+export const getOtherWorkspaceRoots = (cwd: string) =>
+	getWorkspaceRoots().filter((root) => !arePathsEqual(root.path, cwd))
+
+/**
+ * Returns the innermost workspace root that contains the given absolute path.
+ */
+export const getWorkspaceRootForPath = <T extends WorkspaceRoot>(absolutePath: string, roots: T[]) =>
+	roots
+		.filter((root) => isPathInside(root.path, absolutePath))
+		.sort((a, b) => b.path.length - a.path.length)
+		.at(0)
+
+const isPathInside = (dirPath: string, filePath: string) => {
+	const relPath = path.relative(dirPath, filePath)
+	return !relPath.startsWith("..") && !path.isAbsolute(relPath)
+}
+
+/**
+ * Parses a root-qualified path like `backend:src/app.ts`, which refers to
+ * `src/app.ts` in the workspace root named `backend`. Returns `undefined` if
+ * the path doesn't start with the name of a root.
+ */
+export const parseRootQualifiedPath = (filePath: string, roots = getWorkspaceRoots()) => {
+	const separatorIndex = filePath.indexOf(":")
+
+	if (separatorIndex <= 0) {
+		return undefined
+	}
+
+	const name = filePath.slice(0, separatorIndex)
+	const root = roots.find((root) => root.name === name)
+	return root ? { root, relPath: filePath.slice(separatorIndex + 1).replace(/^[\\/]+/, "") } : undefined
+}
+
+/**
+ * Resolves a path given by the model or the user to an absolute path. Paths
+ * are relative to `cwd` unless they are absolute or root-qualified.
+ */
+export const resolveWorkspacePath = (cwd: string, filePath: string, roots = getWorkspaceRoots()) => {
+	const rootQualifiedPath = parseRootQualifiedPath(filePath, roots)
+
+	return rootQualifiedPath
+		? path.resolve(rootQualifiedPath.root.path, rootQualifiedPath.relPath)
+		: path.resolve(cwd, filePath)
+}
+
+/**
+ * Like `toRelativePath`, but paths in the other roots of a multi-root
+ * workspace are qualified with the name of their root.
+ */
+export const toWorkspaceRelativePath = (filePath: string, cwd: string, roots = getWorkspaceRoots()) => {
+	const root = getWorkspaceRootForPath(filePath, roots)
+
+	if (!root || isPathInside(cwd, filePath)) {
+		return toRelativePath(filePath, cwd)
+	}
+
+	return `${root.name}:${toRelativePath(filePath, root.path)}`
+}
@@ -103,3 +103,6 @@ export const VSCodeRadio: React.FC<VSCodeProps> = ({ children, value, checked, o
 
 export const VSCodeRadioGroup: React.FC<VSCodeProps> = ({ children, onChange, ...props }) =>
 	React.createElement("div", { role: "radiogroup", onChange, ...props }, children)
+
+export const VSCodeProgressRing: React.FC<VSCodeProps> = ({ ...props }) =>
+	React.createElement("div", { role: "progressbar", ...props })
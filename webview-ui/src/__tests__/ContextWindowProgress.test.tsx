@@ -20,6 +20,7 @@ jest.mock("../context/ExtensionStateContext", () => ({
 			number: 1,
 			size: 1024,
 		},
+		clineMessages: [],
 	})),
 }))
 
@@ -0,0 +1,67 @@
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+import { useTranslation } from "react-i18next"
+
+import { BackgroundProcessInfo, BackgroundProcessStatus } from "../../../../src/shared/ExtensionMessage"
+import { vscode } from "../../utils/vscode"
+import { cn } from "@/lib/utils"
+
+const STATUS_ICONS: Record<BackgroundProcessStatus, string> = {
+	running: "codicon-loading codicon-modifier-spin",
+	exited: "codicon-circle-large-outline text-vscode-descriptionForeground",
+	stopped: "codicon-circle-slash text-vscode-descriptionForeground",
+}
+
+interface BackgroundProcessesProps {
+	processes: BackgroundProcessInfo[]
+}
+
+/**
+ * Lists the background processes of the current task, with a button to stop
+ * the ones that are running
+ */
+export const BackgroundProcesses = ({ processes }: BackgroundProcessesProps) => {
+	const { t } = useTranslation()
+
+	if (processes.length === 0) {
+		return null
+	}
+
+	return (
+		<div className="mx-3 mt-1 px-2 py-1 rounded-xs bg-vscode-editor-background" data-testid="background-processes">
+			<div className="text-xs font-bold uppercase text-vscode-descriptionForeground">
+				{t("chat:backgroundProcesses.title")}
+			</div>
+			<ul className="flex flex-col list-none m-0 p-0">
+				{processes.map(({ name, command, status, exitCode }) => (
+					<li
+						key={name}
+						className={cn("flex items-center gap-2 min-w-0", status !== "running" && "opacity-70")}
+						data-testid={`background-process-${name}`}>
+						<span
+							className={cn("codicon shrink-0", STATUS_ICONS[status])}
+							title={t(`chat:backgroundProcesses.status.${status}`)}
+						/>
+						<span className="font-bold shrink-0">{name}</span>
+						<code className="truncate" title={command}>
+							{command}
+						</code>
+						{status === "exited" && exitCode !== undefined && (
+							<span className="shrink-0 text-vscode-descriptionForeground">
+								{t("chat:backgroundProcesses.exitCode", { exitCode })}
+							</span>
+						)}
+						{status === "running" && (
+							<VSCodeButton
+								appearance="icon"
+								className="ml-auto shrink-0"
+								title={t("chat:backgroundProcesses.stop")}
+								onClick={() => vscode.postMessage({ type: "stopBackgroundProcess", text: name })}>
+								<span className="codicon codicon-debug-stop" />
+							</VSCodeButton>
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+}
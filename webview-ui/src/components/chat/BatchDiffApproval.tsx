@@ -0,0 +1,59 @@
+import { memo, useState } from "react"
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+import { useTranslation } from "react-i18next"
+
+import { BatchDiffItem } from "../../../../src/shared/ExtensionMessage"
+import CodeAccordian from "../common/CodeAccordian"
+
+interface BatchDiffApprovalProps {
+	files: BatchDiffItem[]
+	isLoading?: boolean
+	// Only set while the user is being asked to approve the changes.
+	onSelectionChange?: (selection: Record<string, boolean>) => void
+}
+
+export const BatchDiffApproval = memo(({ files, isLoading, onSelectionChange }: BatchDiffApprovalProps) => {
+	const { t } = useTranslation()
+	const [expandedFiles, setExpandedFiles] = useState<Record<string, boolean>>({})
+	const [selection, setSelection] = useState<Record<string, boolean>>({})
+
+	const isSelected = (path: string) => selection[path] ?? true
+
+	const toggleSelected = (path: string) => {
+		const newSelection = Object.fromEntries(
+			files.map((file) => [file.path, file.path === path ? !isSelected(path) : isSelected(file.path)]),
+		)
+
+		setSelection(newSelection)
+		onSelectionChange?.(newSelection)
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			{files.map((file) => (
+				<div key={file.path} className="flex items-start gap-2" data-testid="batch-diff-file">
+					{onSelectionChange && (
+						<VSCodeCheckbox
+							className="mt-2"
+							checked={isSelected(file.path)}
+							title={t("chat:fileOperations.includeFile")}
+							onChange={() => toggleSelected(file.path)}
+							data-testid={`batch-diff-checkbox-${file.path}`}
+						/>
+					)}
+					<div className="grow min-w-0">
+						<CodeAccordian
+							isLoading={isLoading}
+							diff={file.diff}
+							path={file.path}
+							isExpanded={expandedFiles[file.path] ?? false}
+							onToggleExpand={() =>
+								setExpandedFiles((prev) => ({ ...prev, [file.path]: !prev[file.path] }))
+							}
+						/>
+					</div>
+				</div>
+			))}
+		</div>
+	)
+})
@@ -246,6 +246,20 @@ const BrowserSessionRow = memo((props: BrowserSessionRowProps) => {
 				<span style={{ fontWeight: "bold" }}>
 					<>{t("chat:browser.rooWantsToUse")}</>
 				</span>
+				{!isBrowsing && pages.length > 0 && (
+					<VSCodeButton
+						appearance="icon"
+						title={t("chat:browser.saveAsTest")}
+						style={{ marginLeft: "auto" }}
+						onClick={() =>
+							vscode.postMessage({
+								type: "saveBrowserSessionAsTest",
+								timestamps: messages.map(({ ts }) => ts),
+							})
+						}>
+						<span className="codicon codicon-beaker" />
+					</VSCodeButton>
+				)}
 			</div>
 			<div
 				style={{
@@ -464,8 +478,12 @@ const BrowserSessionRowContent = ({
 					return (
 						<BrowserActionBox
 							action={browserAction.action}
+							url={browserAction.url}
 							coordinate={browserAction.coordinate}
+							selector={browserAction.selector}
+							status={browserAction.status}
 							text={browserAction.text}
+							path={browserAction.path}
 						/>
 					)
 
@@ -501,12 +519,20 @@ const BrowserSessionRowContent = ({
 
 const BrowserActionBox = ({
 	action,
+	url,
 	coordinate,
+	selector,
+	status,
 	text,
+	path,
 }: {
 	action: BrowserAction
+	url?: string
 	coordinate?: string
+	selector?: string
+	status?: string
 	text?: string
+	path?: string
 }) => {
 	const { t } = useTranslation()
 	const getBrowserActionText = (action: BrowserAction, coordinate?: string, text?: string) => {
@@ -514,9 +540,35 @@ const BrowserActionBox = ({
 			case "launch":
 				return t("chat:browser.actions.launch", { url: text })
 			case "click":
-				return t("chat:browser.actions.click", { coordinate: coordinate?.replace(",", ", ") })
+				return selector
+					? t("chat:browser.actions.clickElement", { selector })
+					: t("chat:browser.actions.click", { coordinate: coordinate?.replace(",", ", ") })
+			case "hover":
+				return selector
+					? t("chat:browser.actions.hoverElement", { selector })
+					: t("chat:browser.actions.hover", { coordinate: coordinate?.replace(",", ", ") })
 			case "type":
 				return t("chat:browser.actions.type", { text })
+			case "press":
+				return t("chat:browser.actions.press", { key: text })
+			case "select_option":
+				return t("chat:browser.actions.selectOption", { option: text, selector })
+			case "upload_file":
+				return t("chat:browser.actions.uploadFile", { path, selector })
+			case "wait_for":
+				return t("chat:browser.actions.waitFor", { target: selector ?? `"${text}"` })
+			case "snapshot":
+				return t("chat:browser.actions.snapshot")
+			case "network_log":
+				return t("chat:browser.actions.networkLog", {
+					filter: [url, status].filter(Boolean).join(", ") || t("chat:browser.actions.allEntries"),
+				})
+			case "console_log":
+				return t("chat:browser.actions.consoleLog", {
+					filter: [url, text].filter(Boolean).join(", ") || t("chat:browser.actions.allEntries"),
+				})
+			case "export_har":
+				return t("chat:browser.actions.exportHar", { path })
 			case "scroll_down":
 				return t("chat:browser.actions.scrollDown")
 			case "scroll_up":
@@ -5,8 +5,10 @@ import { useSize } from "react-use"
 import { useCopyToClipboard } from "../../utils/clipboard"
 import { useTranslation, Trans } from "react-i18next"
 import {
+	ClineApiProviderSwitchInfo,
 	ClineApiReqInfo,
 	ClineAskUseMcpServer,
+	ClineBudgetLimitInfo,
 	ClineMessage,
 	ClineSayTool,
 } from "../../../../src/shared/ExtensionMessage"
@@ -14,6 +16,7 @@ import { COMMAND_OUTPUT_STRING } from "../../../../src/shared/combineCommandSequ
 import { useExtensionState } from "../../context/ExtensionStateContext"
 import { findMatchingResourceOrTemplate } from "../../utils/mcp"
 import { vscode } from "../../utils/vscode"
+import { formatBudgetValue } from "../../utils/format"
 import CodeAccordian, { removeLeadingNonAlphanumeric } from "../common/CodeAccordian"
 import CodeBlock, { CODE_BLOCK_BG_COLOR } from "../common/CodeBlock"
 import CommandOutputViewer from "../common/CommandOutputViewer"
@@ -24,6 +27,9 @@ import McpResourceRow from "../mcp/McpResourceRow"
 import McpToolRow from "../mcp/McpToolRow"
 import { highlightMentions } from "./TaskHeader"
 import { CheckpointSaved } from "./checkpoints/CheckpointSaved"
+import { ContextCondenseRow } from "./ContextCondenseRow"
+import { VerificationRow } from "./VerificationRow"
+import { BatchDiffApproval } from "./BatchDiffApproval"
 import FollowUpSuggest from "./FollowUpSuggest"
 
 interface ChatRowProps {
@@ -35,6 +41,7 @@ interface ChatRowProps {
 	onToggleExpand: () => void
 	onHeightChange: (isTaller: boolean) => void
 	onSuggestionClick?: (answer: string, event?: React.MouseEvent) => void
+	onBatchFileSelectionChange?: (selection: Record<string, boolean>) => void
 }
 
 interface ChatRowContentProps extends Omit<ChatRowProps, "onHeightChange"> {}
@@ -82,6 +89,7 @@ export const ChatRowContent = ({
 	isStreaming,
 	onToggleExpand,
 	onSuggestionClick,
+	onBatchFileSelectionChange,
 }: ChatRowContentProps) => {
 	const { t } = useTranslation()
 	const { mcpServers, alwaysAllowMcp, currentCheckpoint } = useExtensionState()
@@ -135,6 +143,15 @@ export const ChatRowContent = ({
 						style={{ color: errorColor, marginBottom: "-1.5px" }}></span>,
 					<span style={{ color: errorColor, fontWeight: "bold" }}>{t("chat:troubleMessage")}</span>,
 				]
+			case "budget_limit_reached":
+				return [
+					<span
+						className="codicon codicon-warning"
+						style={{ color: "var(--vscode-editorWarning-foreground)", marginBottom: "-1.5px" }}></span>,
+					<span style={{ color: "var(--vscode-editorWarning-foreground)", fontWeight: "bold" }}>
+						{t("chat:budgetLimitReached.title")}
+					</span>,
+				]
 			case "command":
 				return [
 					isCommandExecuting ? (
@@ -272,6 +289,28 @@ export const ChatRowContent = ({
 		switch (tool.tool) {
 			case "editedExistingFile":
 			case "appliedDiff":
+				if (tool.batchDiffs) {
+					return (
+						<>
+							<div style={headerStyle}>
+								{toolIcon("diff")}
+								<span style={{ fontWeight: "bold" }}>
+									{t("chat:fileOperations.wantsToEditMultiple", { count: tool.batchDiffs.length })}
+								</span>
+							</div>
+							<BatchDiffApproval
+								files={tool.batchDiffs}
+								isLoading={message.partial}
+								onSelectionChange={
+									message.type === "ask" && isLast && !message.partial
+										? onBatchFileSelectionChange
+										: undefined
+								}
+							/>
+						</>
+					)
+				}
+
 				return (
 					<>
 						<div style={headerStyle}>
@@ -474,6 +513,162 @@ export const ChatRowContent = ({
 						/>
 					</>
 				)
+			case "codebaseSearch":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("search")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={
+										message.type === "ask"
+											? "chat:directoryOperations.wantsToSearchCodebase"
+											: "chat:directoryOperations.didSearchCodebase"
+									}
+									components={{ code: <code>{tool.query}</code> }}
+									values={{ query: tool.query }}
+								/>
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path={tool.path ?? "."}
+							language="markdown"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
+			case "goToDefinition":
+			case "findReferences":
+			case "getHover": {
+				const [icon, action] = {
+					goToDefinition: ["symbol-method", "GoToDefinition"],
+					findReferences: ["references", "FindReferences"],
+					getHover: ["info", "GetHover"],
+				}[tool.tool]
+
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(icon)}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={`chat:languageServer.${message.type === "ask" ? "wantsTo" : "did"}${action}`}
+									components={{ code: <code>{tool.symbol}</code> }}
+									values={{ symbol: tool.symbol }}
+								/>
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path={tool.path!}
+							language="markdown"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
+			}
+			case "searchWorkspaceSymbols":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("symbol-class")}
+							<span style={{ fontWeight: "bold" }}>
+								<Trans
+									i18nKey={
+										message.type === "ask"
+											? "chat:languageServer.wantsToSearchSymbols"
+											: "chat:languageServer.didSearchSymbols"
+									}
+									components={{ code: <code>{tool.query}</code> }}
+									values={{ query: tool.query }}
+								/>
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path="."
+							language="markdown"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
+			case "renamedSymbol":
+			case "appliedCodeAction":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon(tool.tool === "renamedSymbol" ? "symbol-key" : "lightbulb")}
+							<span style={{ fontWeight: "bold" }}>
+								{tool.tool === "renamedSymbol" ? (
+									<Trans
+										i18nKey={`chat:languageServer.${message.type === "ask" ? "wantsToRename" : "didRename"}`}
+										components={{ code: <code /> }}
+										values={{ symbol: tool.symbol, newName: tool.newName }}
+									/>
+								) : (
+									<Trans
+										i18nKey={`chat:languageServer.${message.type === "ask" ? "wantsToApplyCodeAction" : "didApplyCodeAction"}`}
+										components={{ code: <code>{tool.codeAction}</code> }}
+										values={{ action: tool.codeAction }}
+									/>
+								)}
+							</span>
+						</div>
+						<BatchDiffApproval
+							files={tool.batchDiffs ?? []}
+							isLoading={message.partial}
+							onSelectionChange={
+								message.type === "ask" && isLast && !message.partial
+									? onBatchFileSelectionChange
+									: undefined
+							}
+						/>
+					</>
+				)
+			case "listCodeActions":
+				return (
+					<>
+						<div style={headerStyle}>
+							{toolIcon("lightbulb")}
+							<span style={{ fontWeight: "bold" }}>
+								{message.type === "ask"
+									? t("chat:languageServer.wantsToListCodeActions")
+									: t("chat:languageServer.didListCodeActions")}
+							</span>
+						</div>
+						<CodeAccordian
+							code={tool.content!}
+							path={tool.path!}
+							language="markdown"
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					</>
+				)
+			case "readProcessOutput":
+			case "stopProcess": {
+				const action = tool.tool === "readProcessOutput" ? "Read" : "Stop"
+				return (
+					<div style={headerStyle}>
+						{toolIcon(tool.tool === "readProcessOutput" ? "output" : "debug-stop")}
+						<span style={{ fontWeight: "bold" }}>
+							<Trans
+								i18nKey={
+									message.type === "ask"
+										? `chat:backgroundProcesses.wantsTo${action}`
+										: `chat:backgroundProcesses.did${action}`
+								}
+								components={{ code: <code>{tool.processName}</code> }}
+								values={{ name: tool.processName }}
+							/>
+						</span>
+					</div>
+				)
+			}
 			case "switchMode":
 				return (
 					<>
@@ -1004,6 +1199,32 @@ export const ChatRowContent = ({
 							</div>
 						</>
 					)
+				case "condense_context":
+					return (
+						<ContextCondenseRow
+							text={message.text}
+							partial={message.partial}
+							isExpanded={isExpanded}
+							onToggleExpand={onToggleExpand}
+						/>
+					)
+				case "verification":
+					return <VerificationRow text={message.text} partial={message.partial} />
+				case "api_provider_switched": {
+					const { from, to, modelId, reason }: ClineApiProviderSwitchInfo = JSON.parse(message.text || "{}")
+
+					return (
+						<div className="flex items-center gap-2.5">
+							<span className="codicon codicon-arrow-swap" />
+							<span className="font-bold">
+								{reason === "cooldown"
+									? t("chat:apiProviderSwitched.restored", { to })
+									: t("chat:apiProviderSwitched.failedOver", { from, to })}
+							</span>
+							<span className="text-vscode-descriptionForeground truncate">{modelId}</span>
+						</div>
+					)
+				}
 				case "checkpoint_saved":
 					return (
 						<CheckpointSaved
@@ -1040,6 +1261,25 @@ export const ChatRowContent = ({
 							<p style={{ ...pStyle, color: "var(--vscode-errorForeground)" }}>{message.text}</p>
 						</>
 					)
+				case "budget_limit_reached": {
+					const { scope, metric, limit, value }: ClineBudgetLimitInfo = JSON.parse(message.text || "{}")
+
+					return (
+						<>
+							<div style={headerStyle}>
+								{icon}
+								{title}
+							</div>
+							<p style={pStyle}>
+								{t(`chat:budgetLimitReached.${scope}`, {
+									metric: t(`chat:budgetLimitReached.metrics.${metric}`),
+									limit: formatBudgetValue(metric, limit),
+									value: formatBudgetValue(metric, value),
+								})}
+							</p>
+						</>
+					)
+				}
 				case "command":
 					const splitMessage = (text: string) => {
 						const outputIndex = text.indexOf(COMMAND_OUTPUT_STRING)
@@ -25,6 +25,7 @@ import BrowserSessionRow from "./BrowserSessionRow"
 import ChatRow from "./ChatRow"
 import ChatTextArea from "./ChatTextArea"
 import TaskHeader from "./TaskHeader"
+import { BackgroundProcesses } from "./BackgroundProcesses"
 import AutoApproveMenu from "./AutoApproveMenu"
 import { AudioType } from "../../../../src/shared/WebviewMessage"
 import { validateCommand } from "../../utils/command-validation"
@@ -61,6 +62,8 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 		alwaysAllowExecute,
 		alwaysAllowMcp,
 		allowedCommands,
+		deniedCommands,
+		projectCommandPolicy,
 		writeDelayMs,
 		mode,
 		setMode,
@@ -69,6 +72,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 		alwaysAllowSubtasks,
 		customModes,
 		telemetrySetting,
+		backgroundProcesses,
 	} = useExtensionState()
 
 	//const task = messages.length > 0 ? (messages[0].say === "task" ? messages[0] : undefined) : undefined) : undefined
@@ -85,6 +89,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 	// we need to hold on to the ask because useEffect > lastMessage will always let us know when an ask comes in and handle it, but by the time handleMessage is called, the last message might not be the ask anymore (it could be a say that followed)
 	const [clineAsk, setClineAsk] = useState<ClineAsk | undefined>(undefined)
 	const [enableButtons, setEnableButtons] = useState<boolean>(false)
+	const [batchFileSelection, setBatchFileSelection] = useState<Record<string, boolean>>()
 	const [primaryButtonText, setPrimaryButtonText] = useState<string | undefined>(undefined)
 	const [secondaryButtonText, setSecondaryButtonText] = useState<string | undefined>(undefined)
 	const [didClickCancel, setDidClickCancel] = useState(false)
@@ -137,6 +142,14 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 							setPrimaryButtonText(t("chat:proceedAnyways.title"))
 							setSecondaryButtonText(t("chat:startNewTask.title"))
 							break
+						case "budget_limit_reached":
+							playSound("progress_loop")
+							setTextAreaDisabled(false)
+							setClineAsk("budget_limit_reached")
+							setEnableButtons(true)
+							setPrimaryButtonText(t("chat:proceedAnyways.title"))
+							setSecondaryButtonText(t("chat:startNewTask.title"))
+							break
 						case "followup":
 							setTextAreaDisabled(isPartial)
 							setClineAsk("followup")
@@ -160,6 +173,8 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 								case "editedExistingFile":
 								case "appliedDiff":
 								case "newFileCreated":
+								case "renamedSymbol":
+								case "appliedCodeAction":
 									setPrimaryButtonText(t("chat:save.title"))
 									setSecondaryButtonText(t("chat:reject.title"))
 									break
@@ -350,6 +365,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 						case "resume_task":
 						case "resume_completed_task":
 						case "mistake_limit_reached":
+						case "budget_limit_reached":
 							vscode.postMessage({ type: "askResponse", askResponse: "messageResponse", text, images })
 							break
 						// There is no other case that a textfield should be enabled.
@@ -394,8 +410,20 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 				case "use_mcp_server":
 				case "resume_task":
 				case "mistake_limit_reached":
-					// Only send text/images if they exist
-					if (trimmedInput || (images && images.length > 0)) {
+				case "budget_limit_reached":
+					if (
+						clineAsk === "tool" &&
+						batchFileSelection &&
+						Object.values(batchFileSelection).some((selected) => !selected)
+					) {
+						// Only some of the files of a batched edit were approved.
+						vscode.postMessage({
+							type: "askResponse",
+							askResponse: "objectResponse",
+							text: JSON.stringify(batchFileSelection),
+						})
+					} else if (trimmedInput || (images && images.length > 0)) {
+						// Only send text/images if they exist
 						vscode.postMessage({
 							type: "askResponse",
 							askResponse: "yesButtonClicked",
@@ -421,8 +449,9 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 			setTextAreaDisabled(true)
 			setClineAsk(undefined)
 			setEnableButtons(false)
+			setBatchFileSelection(undefined)
 		},
-		[clineAsk, startNewTask],
+		[clineAsk, startNewTask, batchFileSelection],
 	)
 
 	const handleSecondaryButtonClick = useCallback(
@@ -437,6 +466,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 			switch (clineAsk) {
 				case "api_req_failed":
 				case "mistake_limit_reached":
+				case "budget_limit_reached":
 				case "resume_task":
 					startNewTask()
 					break
@@ -467,6 +497,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 			setTextAreaDisabled(true)
 			setClineAsk(undefined)
 			setEnableButtons(false)
+			setBatchFileSelection(undefined)
 		},
 		[clineAsk, startNewTask, isStreaming],
 	)
@@ -609,6 +640,13 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 				"listFilesRecursive",
 				"listCodeDefinitionNames",
 				"searchFiles",
+				"codebaseSearch",
+				"goToDefinition",
+				"findReferences",
+				"getHover",
+				"searchWorkspaceSymbols",
+				"readProcessOutput",
+				"listCodeActions",
 			].includes(tool.tool)
 		}
 		return false
@@ -620,7 +658,13 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 				return true
 			}
 			const tool = JSON.parse(message.text)
-			return ["editedExistingFile", "appliedDiff", "newFileCreated"].includes(tool.tool)
+			return [
+				"editedExistingFile",
+				"appliedDiff",
+				"newFileCreated",
+				"renamedSymbol",
+				"appliedCodeAction",
+			].includes(tool.tool)
 		}
 		return false
 	}, [])
@@ -647,9 +691,13 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 	const isAllowedCommand = useCallback(
 		(message: ClineMessage | undefined): boolean => {
 			if (message?.type !== "ask") return false
-			return validateCommand(message.text || "", allowedCommands || [])
+			return validateCommand(message.text || "", allowedCommands || [], {
+				deniedCommands,
+				projectPolicy: projectCommandPolicy,
+				mode,
+			})
 		},
-		[allowedCommands],
+		[allowedCommands, deniedCommands, projectCommandPolicy, mode],
 	)
 
 	const isAutoApproved = useCallback(
@@ -694,6 +742,10 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 					return alwaysAllowModeSwitch
 				}
 
+				if (tool?.tool === "stopProcess") {
+					return alwaysAllowExecute
+				}
+
 				if (["newTask", "finishTask"].includes(tool?.tool)) {
 					return alwaysAllowSubtasks
 				}
@@ -767,6 +819,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 					switch (lastMessage.ask) {
 						case "api_req_failed":
 						case "mistake_limit_reached":
+						case "budget_limit_reached":
 							playSound("progress_loop")
 							break
 						case "followup":
@@ -1071,6 +1124,7 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 					isLast={index === groupedMessages.length - 1}
 					onHeightChange={handleRowHeightChange}
 					isStreaming={isStreaming}
+					onBatchFileSelectionChange={setBatchFileSelection}
 					onSuggestionClick={(answer: string, event?: React.MouseEvent) => {
 						if (event?.shiftKey) {
 							// Always append to existing text, don't overwrite
@@ -1188,6 +1242,8 @@ const ChatView = ({ isHidden, showAnnouncement, hideAnnouncement, showHistoryVie
 						onClose={handleTaskCloseButtonClick}
 					/>
 
+					<BackgroundProcesses processes={backgroundProcesses ?? []} />
+
 					{/* Checkpoint warning message */}
 					{showCheckpointWarning && (
 						<div className="px-3">
@@ -0,0 +1,59 @@
+import { VSCodeBadge, VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
+import { useTranslation } from "react-i18next"
+
+import { ClineContextCondenseInfo } from "../../../../src/shared/ExtensionMessage"
+import { formatLargeNumber } from "../../utils/format"
+import MarkdownBlock from "../common/MarkdownBlock"
+
+interface ContextCondenseRowProps {
+	text?: string
+	partial?: boolean
+	isExpanded: boolean
+	onToggleExpand: () => void
+}
+
+export const ContextCondenseRow = ({ text, partial, isExpanded, onToggleExpand }: ContextCondenseRowProps) => {
+	const { t } = useTranslation()
+
+	if (partial || !text) {
+		return (
+			<div className="flex items-center gap-2.5">
+				<VSCodeProgressRing className="size-4" />
+				<span className="font-bold">{t("chat:contextCondense.condensing")}</span>
+			</div>
+		)
+	}
+
+	const { summary, cost, prevContextTokens, newContextTokens, error }: ClineContextCondenseInfo = JSON.parse(text)
+
+	return (
+		<div>
+			<div
+				className="flex items-center justify-between gap-2.5 cursor-pointer select-none"
+				onClick={summary ? onToggleExpand : undefined}>
+				<div className="flex items-center gap-2.5 grow">
+					<span className="codicon codicon-compress" />
+					<span className="font-bold">
+						{t(error ? "chat:contextCondense.truncated" : "chat:contextCondense.title")}
+					</span>
+					<span className="text-vscode-descriptionForeground">
+						{t("chat:contextCondense.tokens", {
+							prev: formatLargeNumber(prevContextTokens),
+							new: formatLargeNumber(newContextTokens),
+						})}
+					</span>
+					<VSCodeBadge style={{ opacity: cost > 0 ? 1 : 0 }}>${Number(cost || 0).toFixed(4)}</VSCodeBadge>
+				</div>
+				{summary && <span className={`codicon codicon-chevron-${isExpanded ? "up" : "down"}`} />}
+			</div>
+			{error && (
+				<div className="mt-2 text-vscode-errorForeground">{t("chat:contextCondense.error", { error })}</div>
+			)}
+			{summary && isExpanded && (
+				<div className="mt-2 px-3 py-1 bg-vscode-editor-background border border-vscode-border rounded-xs">
+					<MarkdownBlock markdown={summary} />
+				</div>
+			)}
+		</div>
+	)
+}
@@ -5,11 +5,12 @@ import prettyBytes from "pretty-bytes"
 import { useTranslation } from "react-i18next"
 
 import { vscode } from "@/utils/vscode"
-import { formatLargeNumber } from "@/utils/format"
+import { formatBudgetValue, formatLargeNumber } from "@/utils/format"
 import { calculateTokenDistribution, getMaxTokensForModel } from "@/utils/model-utils"
 import { Button } from "@/components/ui"
 
-import { ClineMessage } from "../../../../src/shared/ExtensionMessage"
+import { BudgetMetric, ClineMessage } from "../../../../src/shared/ExtensionMessage"
+import { BUDGET_LIMIT_KEYS } from "../../../../src/shared/budget"
 import { mentionRegexGlobal } from "../../../../src/shared/context-mentions"
 import { HistoryItem } from "../../../../src/shared/HistoryItem"
 
@@ -17,6 +18,7 @@ import { useExtensionState } from "../../context/ExtensionStateContext"
 import Thumbnails from "../common/Thumbnails"
 import { normalizeApiConfiguration } from "../settings/ApiOptions"
 import { DeleteTaskDialog } from "../history/DeleteTaskDialog"
+import { CheckpointTimeline } from "./checkpoints/CheckpointTimeline"
 
 interface TaskHeaderProps {
 	task: ClineMessage
@@ -42,7 +44,7 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	onClose,
 }) => {
 	const { t } = useTranslation()
-	const { apiConfiguration, currentTaskItem } = useExtensionState()
+	const { apiConfiguration, currentTaskItem, taskBudget, dailyBudget, dailyBudgetUsage } = useExtensionState()
 	const { selectedModelInfo } = useMemo(() => normalizeApiConfiguration(apiConfiguration), [apiConfiguration])
 	const [isTaskExpanded, setIsTaskExpanded] = useState(true)
 	const [isTextExpanded, setIsTextExpanded] = useState(false)
@@ -51,6 +53,11 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 	const textRef = useRef<HTMLDivElement>(null)
 	const contextWindow = selectedModelInfo?.contextWindow || 1
 
+	const dailyLimits = (Object.keys(BUDGET_LIMIT_KEYS) as BudgetMetric[]).flatMap((metric) => {
+		const limit = dailyBudget?.[BUDGET_LIMIT_KEYS[metric]]
+		return limit && limit > 0 ? [{ metric, limit, value: dailyBudgetUsage?.[metric] ?? 0 }] : []
+	})
+
 	/*
 	When dealing with event listeners in React components that depend on state
 	variables, we face a challenge. We want our listener to always use the most
@@ -343,10 +350,31 @@ const TaskHeader: React.FC<TaskHeaderProps> = ({
 									<div className="flex items-center gap-1">
 										<span className="font-bold">{t("chat:task.apiCost")}</span>
 										<span>${totalCost?.toFixed(4)}</span>
+										{!!taskBudget?.maxCost && (
+											<span className="text-vscode-descriptionForeground">
+												/ {formatBudgetValue("cost", taskBudget.maxCost)}
+											</span>
+										)}
 									</div>
 									<TaskActions item={currentTaskItem} />
 								</div>
 							)}
+
+							{dailyLimits.length > 0 && (
+								<div className="flex items-center gap-1 flex-wrap" data-testid="daily-budget">
+									<span className="font-bold">{t("chat:task.dailyBudget")}</span>
+									{dailyLimits.map(({ metric, limit, value }) => (
+										<span
+											key={metric}
+											className={value >= limit ? "text-vscode-errorForeground" : undefined}>
+											{t(`chat:task.budgetUsage.${metric}`, {
+												value: formatBudgetValue(metric, value),
+												limit: formatBudgetValue(metric, limit),
+											})}
+										</span>
+									))}
+								</div>
+							)}
 						</div>
 					</>
 				)}
@@ -379,10 +407,25 @@ export const highlightMentions = (text?: string, withShadow = true) => {
 
 const TaskActions = ({ item }: { item: HistoryItem | undefined }) => {
 	const [deleteTaskId, setDeleteTaskId] = useState<string | null>(null)
+	const [isTimelineOpen, setIsTimelineOpen] = useState(false)
 	const { t } = useTranslation()
+	const { clineMessages } = useExtensionState()
+	const hasCheckpoints = clineMessages.some(({ say }) => say === "checkpoint_saved")
 
 	return (
 		<div className="flex flex-row gap-1">
+			{hasCheckpoints && (
+				<>
+					<Button
+						variant="ghost"
+						size="sm"
+						title={t("chat:checkpoint.timeline.title")}
+						onClick={() => setIsTimelineOpen(true)}>
+						<span className="codicon codicon-git-commit" />
+					</Button>
+					<CheckpointTimeline open={isTimelineOpen} onOpenChange={setIsTimelineOpen} />
+				</>
+			)}
 			<Button
 				variant="ghost"
 				size="sm"
@@ -0,0 +1,81 @@
+import { VSCodeProgressRing } from "@vscode/webview-ui-toolkit/react"
+import { useTranslation } from "react-i18next"
+
+import { ClineVerificationInfo, ClineVerificationStepStatus } from "../../../../src/shared/ExtensionMessage"
+import { cn } from "@/lib/utils"
+
+const STEP_ICONS: Record<ClineVerificationStepStatus, string> = {
+	pending: "codicon-circle-large-outline text-vscode-descriptionForeground",
+	running: "codicon-loading codicon-modifier-spin",
+	passed: "codicon-pass text-vscode-charts-green",
+	failed: "codicon-error text-vscode-errorForeground",
+	skipped: "codicon-circle-slash text-vscode-descriptionForeground",
+}
+
+interface VerificationRowProps {
+	text?: string
+	partial?: boolean
+}
+
+export const VerificationRow = ({ text, partial }: VerificationRowProps) => {
+	const { t } = useTranslation()
+
+	if (!text) {
+		return null
+	}
+
+	const { attempt, maxRetries, steps }: ClineVerificationInfo = JSON.parse(text)
+	const failed = steps.some(({ status }) => status === "failed")
+
+	return (
+		<div data-testid="verification-row">
+			<div className="flex items-center gap-2.5">
+				{partial ? (
+					<VSCodeProgressRing className="size-4" />
+				) : (
+					<span
+						className={cn(
+							"codicon",
+							failed
+								? "codicon-error text-vscode-errorForeground"
+								: "codicon-pass text-vscode-charts-green",
+						)}
+					/>
+				)}
+				<span className="font-bold">
+					{t(
+						partial
+							? "chat:verification.running"
+							: failed
+								? "chat:verification.failed"
+								: "chat:verification.passed",
+					)}
+				</span>
+				{attempt > 1 && (
+					<span className="text-vscode-descriptionForeground">
+						{t("chat:verification.attempt", { attempt, total: maxRetries + 1 })}
+					</span>
+				)}
+			</div>
+			<ul className="mt-2 ml-1 flex flex-col gap-1 list-none p-0">
+				{steps.map(({ command, status, exitCode }, index) => (
+					<li
+						key={index}
+						className={cn("flex items-center gap-2", status === "skipped" && "opacity-60")}
+						data-testid={`verification-step-${status}`}>
+						<span
+							className={cn("codicon", STEP_ICONS[status])}
+							title={t(`chat:verification.status.${status}`)}
+						/>
+						<code className="truncate">{command}</code>
+						{status === "failed" && exitCode !== undefined && (
+							<span className="text-vscode-descriptionForeground shrink-0">
+								{t("chat:verification.exitCode", { exitCode })}
+							</span>
+						)}
+					</li>
+				))}
+			</ul>
+		</div>
+	)
+}
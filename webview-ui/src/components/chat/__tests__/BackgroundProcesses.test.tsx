@@ -0,0 +1,50 @@
+// npx jest src/components/chat/__tests__/BackgroundProcesses.test.tsx
+
+import { fireEvent, render, screen } from "@testing-library/react"
+
+import { BackgroundProcessInfo } from "../../../../../src/shared/ExtensionMessage"
+import { vscode } from "../../../utils/vscode"
+
+import { BackgroundProcesses } from "../BackgroundProcesses"
+
+jest.mock("../../../utils/vscode", () => ({
+	vscode: { postMessage: jest.fn() },
+}))
+
+describe("BackgroundProcesses", () => {
+	const processes: BackgroundProcessInfo[] = [
+		{ name: "dev", command: "npm run dev", cwd: "/app", status: "running", startedAt: 0, unreadLines: 3 },
+		{
+			name: "build",
+			command: "npm run build",
+			cwd: "/app",
+			status: "exited",
+			exitCode: 1,
+			startedAt: 0,
+			endedAt: 1,
+			unreadLines: 0,
+		},
+	]
+
+	it("renders nothing without processes", () => {
+		const { container } = render(<BackgroundProcesses processes={[]} />)
+		expect(container).toBeEmptyDOMElement()
+	})
+
+	it("lists the processes with their commands", () => {
+		render(<BackgroundProcesses processes={processes} />)
+
+		expect(screen.getByTestId("background-process-dev")).toHaveTextContent("npm run dev")
+		expect(screen.getByTestId("background-process-build")).toHaveTextContent("npm run build")
+	})
+
+	it("stops running processes", () => {
+		render(<BackgroundProcesses processes={processes} />)
+
+		const buttons = screen.getAllByRole("button")
+		expect(buttons).toHaveLength(1)
+
+		fireEvent.click(buttons[0])
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "stopBackgroundProcess", text: "dev" })
+	})
+})
@@ -0,0 +1,41 @@
+// npx jest src/components/chat/__tests__/BatchDiffApproval.test.tsx
+
+import { render, screen, fireEvent } from "@testing-library/react"
+
+import { BatchDiffApproval } from "../BatchDiffApproval"
+
+jest.mock("../../common/CodeAccordian", () => ({
+	__esModule: true,
+	default: ({ path, diff }: { path: string; diff: string }) => (
+		<div data-testid="code-accordian">
+			{path}: {diff}
+		</div>
+	),
+}))
+
+describe("BatchDiffApproval", () => {
+	const files = [
+		{ path: "src/a.ts", diff: "-a\n+b" },
+		{ path: "src/b.ts", diff: "-c\n+d" },
+	]
+
+	it("renders the diff of every file", () => {
+		render(<BatchDiffApproval files={files} />)
+
+		expect(screen.getAllByTestId("code-accordian")).toHaveLength(2)
+		expect(screen.queryByTestId("batch-diff-checkbox-src/a.ts")).not.toBeInTheDocument()
+	})
+
+	it("reports the files selected for approval", () => {
+		const onSelectionChange = jest.fn()
+		render(<BatchDiffApproval files={files} onSelectionChange={onSelectionChange} />)
+
+		expect(screen.getByTestId("batch-diff-checkbox-src/a.ts")).toBeChecked()
+
+		fireEvent.click(screen.getByTestId("batch-diff-checkbox-src/b.ts"))
+		expect(onSelectionChange).toHaveBeenLastCalledWith({ "src/a.ts": true, "src/b.ts": false })
+
+		fireEvent.click(screen.getByTestId("batch-diff-checkbox-src/b.ts"))
+		expect(onSelectionChange).toHaveBeenLastCalledWith({ "src/a.ts": true, "src/b.ts": true })
+	})
+})
@@ -0,0 +1,38 @@
+// npx jest src/components/chat/__tests__/VerificationRow.test.tsx
+
+import { render, screen } from "@testing-library/react"
+
+import { ClineVerificationInfo } from "../../../../../src/shared/ExtensionMessage"
+
+import { VerificationRow } from "../VerificationRow"
+
+describe("VerificationRow", () => {
+	const info: ClineVerificationInfo = {
+		attempt: 2,
+		maxRetries: 3,
+		steps: [
+			{ command: "npm run lint", status: "passed", exitCode: 0 },
+			{ command: "npm test", status: "failed", exitCode: 1 },
+			{ command: "npm run build", status: "skipped" },
+		],
+	}
+
+	it("shows the status of each verification step", () => {
+		render(<VerificationRow text={JSON.stringify(info)} />)
+
+		expect(screen.getByTestId("verification-step-passed")).toHaveTextContent("npm run lint")
+		expect(screen.getByTestId("verification-step-failed")).toHaveTextContent("npm test")
+		expect(screen.getByTestId("verification-step-skipped")).toHaveTextContent("npm run build")
+	})
+
+	it("shows the running step while the verification is in progress", () => {
+		render(
+			<VerificationRow
+				text={JSON.stringify({ ...info, steps: [{ command: "npm test", status: "running" }] })}
+				partial
+			/>,
+		)
+
+		expect(screen.getByTestId("verification-step-running")).toHaveTextContent("npm test")
+	})
+})
@@ -0,0 +1,186 @@
+import { useCallback, useEffect, useMemo, useState } from "react"
+import { useEvent } from "react-use"
+import { useTranslation } from "react-i18next"
+import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
+
+import { ExtensionMessage } from "../../../../../src/shared/ExtensionMessage"
+
+import { Button, Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui"
+import { useExtensionState } from "@/context/ExtensionStateContext"
+import { cn } from "@/lib/utils"
+
+import { vscode } from "../../../utils/vscode"
+import { checkpointSchema } from "./schema"
+
+type TimelineCheckpoint = {
+	ts: number
+	commitHash: string
+	isFirst: boolean
+}
+
+type CheckpointTimelineProps = {
+	open: boolean
+	onOpenChange: (open: boolean) => void
+}
+
+export const CheckpointTimeline = ({ open, onOpenChange }: CheckpointTimelineProps) => {
+	const { t } = useTranslation()
+	const { clineMessages, currentCheckpoint } = useExtensionState()
+
+	// Up to two selected checkpoints, in the order they were selected.
+	const [selected, setSelected] = useState<string[]>([])
+	const [changedFiles, setChangedFiles] = useState<string[]>()
+	const [filesToRestore, setFilesToRestore] = useState<string[]>([])
+
+	const checkpoints = useMemo(
+		() =>
+			clineMessages.flatMap(({ ts, say, text, checkpoint }): TimelineCheckpoint[] => {
+				const result = checkpointSchema.safeParse(checkpoint)
+				return say === "checkpoint_saved" && text && result.success
+					? [{ ts, commitHash: text, isFirst: result.data.isFirst }]
+					: []
+			}),
+		[clineMessages],
+	)
+
+	const selectedCheckpoints = checkpoints.filter(({ commitHash }) => selected.includes(commitHash))
+	const restoreFrom = selected.length === 1 ? selected[0] : undefined
+
+	useEffect(() => {
+		setChangedFiles(undefined)
+		setFilesToRestore([])
+
+		if (open && restoreFrom) {
+			vscode.postMessage({ type: "checkpointFiles", payload: { commitHash: restoreFrom } })
+		}
+	}, [open, restoreFrom])
+
+	useEvent("message", (event: MessageEvent) => {
+		const message: ExtensionMessage = event.data
+
+		if (message.type === "checkpointFiles" && message.text === restoreFrom) {
+			setChangedFiles(message.filePaths ?? [])
+			setFilesToRestore((files) => files.filter((file) => message.filePaths?.includes(file)))
+		}
+	})
+
+	const toggleCheckpoint = (commitHash: string) =>
+		setSelected((current) =>
+			current.includes(commitHash)
+				? current.filter((hash) => hash !== commitHash)
+				: [...current, commitHash].slice(-2),
+		)
+
+	const onCompare = useCallback(() => {
+		const [from, to] = selectedCheckpoints
+
+		vscode.postMessage({
+			type: "checkpointDiff",
+			payload: { ts: to.ts, previousCommitHash: from.commitHash, commitHash: to.commitHash, mode: "compare" },
+		})
+	}, [selectedCheckpoints])
+
+	const onRestoreFiles = useCallback(() => {
+		if (restoreFrom) {
+			vscode.postMessage({
+				type: "checkpointRestoreFiles",
+				payload: { commitHash: restoreFrom, paths: filesToRestore },
+			})
+		}
+	}, [restoreFrom, filesToRestore])
+
+	return (
+		<Dialog open={open} onOpenChange={onOpenChange}>
+			<DialogContent className="max-h-[80vh] overflow-y-auto">
+				<DialogHeader>
+					<DialogTitle>{t("chat:checkpoint.timeline.title")}</DialogTitle>
+					<DialogDescription>{t("chat:checkpoint.timeline.description")}</DialogDescription>
+				</DialogHeader>
+
+				{checkpoints.length === 0 ? (
+					<div className="text-vscode-descriptionForeground">{t("chat:checkpoint.timeline.empty")}</div>
+				) : (
+					<div className="flex flex-col" data-testid="checkpoint-timeline">
+						{checkpoints.map(({ ts, commitHash, isFirst }, index) => (
+							<div
+								key={commitHash + ts}
+								className={cn(
+									"flex items-center gap-2 px-2 py-1 cursor-pointer rounded-xs hover:bg-vscode-list-hoverBackground",
+									selected.includes(commitHash) && "bg-vscode-list-activeSelectionBackground",
+								)}
+								data-testid={`checkpoint-timeline-item-${index}`}
+								onClick={() => toggleCheckpoint(commitHash)}>
+								<span className="codicon codicon-git-commit text-blue-400" />
+								<span className="font-bold">
+									{isFirst ? t("chat:checkpoint.initial") : t("chat:checkpoint.regular")}
+								</span>
+								<span className="text-vscode-descriptionForeground text-sm">
+									{new Date(ts).toLocaleTimeString()}
+								</span>
+								{currentCheckpoint === commitHash && (
+									<span className="text-muted text-sm">{t("chat:checkpoint.current")}</span>
+								)}
+								<span className="grow" />
+								<span className="text-vscode-descriptionForeground text-xs font-mono">
+									{commitHash.slice(0, 7)}
+								</span>
+							</div>
+						))}
+					</div>
+				)}
+
+				{selected.length === 2 && (
+					<Button variant="secondary" onClick={onCompare} data-testid="checkpoint-timeline-compare">
+						{t("chat:checkpoint.timeline.compare")}
+					</Button>
+				)}
+
+				{restoreFrom && (
+					<div className="flex flex-col gap-2">
+						<div className="font-bold">{t("chat:checkpoint.timeline.changedFiles")}</div>
+						{changedFiles === undefined ? (
+							<div className="text-vscode-descriptionForeground">
+								{t("chat:checkpoint.timeline.loadingFiles")}
+							</div>
+						) : changedFiles.length === 0 ? (
+							<div className="text-vscode-descriptionForeground">
+								{t("chat:checkpoint.timeline.noChangedFiles")}
+							</div>
+						) : (
+							<>
+								{changedFiles.map((file) => (
+									<VSCodeCheckbox
+										key={file}
+										checked={filesToRestore.includes(file)}
+										onChange={(e: any) =>
+											setFilesToRestore((files) =>
+												e.target.checked
+													? [...files, file]
+													: files.filter((current) => current !== file),
+											)
+										}
+										data-testid={`checkpoint-timeline-file-${file}`}>
+										<span className="font-mono text-sm">{file}</span>
+									</VSCodeCheckbox>
+								))}
+								<Button
+									variant="secondary"
+									disabled={filesToRestore.length === 0}
+									onClick={onRestoreFiles}
+									data-testid="checkpoint-timeline-restore-files">
+									{t("chat:checkpoint.timeline.restoreFiles", { count: filesToRestore.length })}
+								</Button>
+							</>
+						)}
+					</div>
+				)}
+
+				{selected.length === 0 && checkpoints.length > 0 && (
+					<div className="text-vscode-descriptionForeground text-sm">
+						{t("chat:checkpoint.timeline.hint")}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	)
+}
@@ -0,0 +1,119 @@
+// npx jest src/components/chat/checkpoints/__tests__/CheckpointTimeline.test.tsx
+
+import { render, screen, fireEvent, act } from "@testing-library/react"
+
+import { vscode } from "@/utils/vscode"
+
+import { CheckpointTimeline } from "../CheckpointTimeline"
+
+jest.mock("@/utils/vscode", () => ({
+	vscode: { postMessage: jest.fn() },
+}))
+
+jest.mock("@/components/ui", () => ({
+	...jest.requireActual("@/components/ui"),
+	Dialog: ({ children, open }: any) => (open ? <div role="dialog">{children}</div> : null),
+	DialogContent: ({ children }: any) => <div>{children}</div>,
+	DialogHeader: ({ children }: any) => <div>{children}</div>,
+	DialogTitle: ({ children }: any) => <div>{children}</div>,
+	DialogDescription: ({ children }: any) => <div>{children}</div>,
+	Button: ({ children, onClick, disabled, "data-testid": dataTestId }: any) => (
+		<button onClick={onClick} disabled={disabled} data-testid={dataTestId}>
+			{children}
+		</button>
+	),
+}))
+
+jest.mock("@/context/ExtensionStateContext", () => ({
+	useExtensionState: () => ({
+		currentCheckpoint: "hash-2",
+		clineMessages: [
+			{ ts: 1, type: "say", say: "text", text: "Hello" },
+			{
+				ts: 2,
+				type: "say",
+				say: "checkpoint_saved",
+				text: "hash-1",
+				checkpoint: { isFirst: true, from: "base", to: "hash-1" },
+			},
+			{
+				ts: 3,
+				type: "say",
+				say: "checkpoint_saved",
+				text: "hash-2",
+				checkpoint: { isFirst: false, from: "hash-1", to: "hash-2" },
+			},
+			{
+				ts: 4,
+				type: "say",
+				say: "checkpoint_saved",
+				text: "hash-3",
+				checkpoint: { isFirst: false, from: "hash-2", to: "hash-3" },
+			},
+		],
+	}),
+}))
+
+const postChangedFiles = (commitHash: string, filePaths: string[]) =>
+	act(() => {
+		window.dispatchEvent(
+			new MessageEvent("message", { data: { type: "checkpointFiles", text: commitHash, filePaths } }),
+		)
+	})
+
+describe("CheckpointTimeline", () => {
+	beforeEach(() => {
+		jest.mocked(vscode.postMessage).mockClear()
+	})
+
+	it("lists all checkpoints of the task", () => {
+		render(<CheckpointTimeline open onOpenChange={() => {}} />)
+
+		expect(screen.getByTestId("checkpoint-timeline-item-0")).toBeInTheDocument()
+		expect(screen.getByTestId("checkpoint-timeline-item-2")).toBeInTheDocument()
+		expect(screen.queryByTestId("checkpoint-timeline-item-3")).not.toBeInTheDocument()
+	})
+
+	it("compares two selected checkpoints in chronological order", () => {
+		render(<CheckpointTimeline open onOpenChange={() => {}} />)
+
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-item-2"))
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-item-0"))
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-compare"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointDiff",
+			payload: { ts: 4, previousCommitHash: "hash-1", commitHash: "hash-3", mode: "compare" },
+		})
+	})
+
+	it("restores the chosen files from a single selected checkpoint", () => {
+		render(<CheckpointTimeline open onOpenChange={() => {}} />)
+
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-item-1"))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({ type: "checkpointFiles", payload: { commitHash: "hash-2" } })
+
+		postChangedFiles("hash-2", ["src/a.ts", "src/b.ts"])
+
+		const restoreButton = screen.getByTestId("checkpoint-timeline-restore-files")
+		expect(restoreButton).toBeDisabled()
+
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-file-src/b.ts"))
+		fireEvent.click(restoreButton)
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "checkpointRestoreFiles",
+			payload: { commitHash: "hash-2", paths: ["src/b.ts"] },
+		})
+	})
+
+	it("ignores changed files of other checkpoints", () => {
+		render(<CheckpointTimeline open onOpenChange={() => {}} />)
+
+		fireEvent.click(screen.getByTestId("checkpoint-timeline-item-1"))
+		postChangedFiles("hash-3", ["src/a.ts"])
+
+		expect(screen.queryByTestId("checkpoint-timeline-file-src/a.ts")).not.toBeInTheDocument()
+	})
+})
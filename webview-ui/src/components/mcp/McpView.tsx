@@ -8,7 +8,7 @@ import {
 	VSCodePanelView,
 } from "@vscode/webview-ui-toolkit/react"
 
-import { McpServer } from "../../../../src/shared/mcp"
+import { McpAuthStatus, McpServer } from "../../../../src/shared/mcp"
 
 import { vscode } from "@/utils/vscode"
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from "@/components/ui"
@@ -126,6 +126,20 @@ const McpView = ({ onDone }: McpViewProps) => {
 	)
 }
 
+type McpTransportType = "stdio" | "sse" | "streamable-http"
+
+const authStatusIcons: Record<McpAuthStatus, string> = {
+	authenticated: "lock",
+	refreshing: "sync",
+	unauthorized: "unlock",
+}
+
+const authStatusColors: Record<McpAuthStatus, string> = {
+	authenticated: "var(--vscode-testing-iconPassed)",
+	refreshing: "var(--vscode-charts-yellow)",
+	unauthorized: "var(--vscode-testing-iconFailed)",
+}
+
 const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowMcp?: boolean }) => {
 	const { t } = useAppTranslation()
 	const [isExpanded, setIsExpanded] = useState(false)
@@ -134,6 +148,7 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 		const configTimeout = JSON.parse(server.config)?.timeout
 		return configTimeout ?? 60 // Default 1 minute (60 seconds)
 	})
+	const transportType: McpTransportType = JSON.parse(server.config)?.type ?? "stdio"
 
 	const timeoutOptions = [
 		{ value: 15, label: t("mcp:networkTimeout.options.15seconds") },
@@ -225,6 +240,31 @@ const ServerRow = ({ server, alwaysAllowMcp }: { server: McpServer; alwaysAllowM
 							{server.source}
 						</span>
 					)}
+					<span
+						data-testid="mcp-server-transport"
+						style={{
+							marginLeft: "8px",
+							fontSize: "11px",
+							color: "var(--vscode-descriptionForeground)",
+						}}>
+						{t(`mcp:transport.${transportType}`)}
+					</span>
+					{server.authStatus && (
+						<span
+							data-testid="mcp-server-auth-status"
+							title={t(`mcp:authStatus.${server.authStatus}.description`)}
+							style={{
+								marginLeft: "8px",
+								fontSize: "11px",
+								color: authStatusColors[server.authStatus],
+							}}>
+							<span
+								className={`codicon codicon-${authStatusIcons[server.authStatus]}`}
+								style={{ fontSize: "11px", marginRight: "3px", verticalAlign: "middle" }}
+							/>
+							{t(`mcp:authStatus.${server.authStatus}.label`)}
+						</span>
+					)}
 				</span>
 				<div
 					style={{ display: "flex", alignItems: "center", marginRight: "8px" }}
@@ -25,6 +25,7 @@ import { supportPrompt, SupportPromptType } from "../../../../src/shared/support
 import { TOOL_GROUPS, ToolGroup } from "../../../../src/shared/tool-groups"
 import { vscode } from "../../utils/vscode"
 import { Tab, TabContent, TabHeader } from "../common/Tab"
+import { FallbackProfileList } from "../settings/FallbackProfileList"
 import i18next from "i18next"
 import { useAppTranslation } from "../../i18n/TranslationContext"
 import { Trans } from "react-i18next"
@@ -53,6 +54,7 @@ const PromptsView = ({ onDone }: PromptsViewProps) => {
 		currentApiConfigName,
 		enhancementApiConfigId,
 		setEnhancementApiConfigId,
+		modeApiConfigFallbacks,
 		mode,
 		customInstructions,
 		setCustomInstructions,
@@ -610,6 +612,23 @@ const PromptsView = ({ onDone }: PromptsViewProps) => {
 									{t("prompts:apiConfiguration.select")}
 								</div>
 							</div>
+							<div style={{ fontWeight: "bold", marginBottom: "4px" }}>
+								{t("prompts:apiConfiguration.fallbacks.title")}
+							</div>
+							<FallbackProfileList
+								value={modeApiConfigFallbacks?.[mode] ?? []}
+								listApiConfigMeta={listApiConfigMeta}
+								testIdPrefix={`${mode}-fallback-profile`}
+								onChange={(value) =>
+									vscode.postMessage({
+										type: "modeApiConfigFallbacks",
+										values: { ...modeApiConfigFallbacks, [mode]: value },
+									})
+								}
+							/>
+							<div className="text-xs mt-1.5 text-vscode-descriptionForeground">
+								{t("prompts:apiConfiguration.fallbacks.description")}
+							</div>
 						</div>
 
 						{/* Show tools for all modes */}
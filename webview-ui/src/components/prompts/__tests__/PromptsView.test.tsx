@@ -10,6 +10,18 @@ jest.mock("../../../utils/vscode", () => ({
 	},
 }))
 
+jest.mock("@/components/ui", () => ({
+	...jest.requireActual("@/components/ui"),
+	Select: ({ children, onValueChange }: any) => (
+		<div onClick={(e: any) => e.target.dataset.value && onValueChange(e.target.dataset.value)}>{children}</div>
+	),
+	SelectTrigger: ({ "data-testid": dataTestId }: any) => <div data-testid={dataTestId} />,
+	SelectValue: () => null,
+	SelectContent: ({ children }: any) => <div>{children}</div>,
+	SelectGroup: ({ children }: any) => <div>{children}</div>,
+	SelectItem: ({ children, value }: any) => <div data-value={value}>{children}</div>,
+}))
+
 const mockExtensionState = {
 	customModePrompts: {},
 	listApiConfigMeta: [
@@ -176,6 +188,17 @@ describe("PromptsView", () => {
 		})
 	})
 
+	it("adds a fallback profile for the current mode", () => {
+		renderPromptsView({ modeApiConfigFallbacks: { ask: ["config1"] } })
+
+		fireEvent.click(screen.getByText("Config 2", { selector: "[data-value]" }))
+
+		expect(vscode.postMessage).toHaveBeenCalledWith({
+			type: "modeApiConfigFallbacks",
+			values: { ask: ["config1"], code: ["config2"] },
+		})
+	})
+
 	it("handles clearing custom instructions correctly", async () => {
 		const setCustomInstructions = jest.fn()
 		renderPromptsView({
@@ -0,0 +1,105 @@
+import { useAppTranslation } from "@/i18n/TranslationContext"
+
+import { ApiConfigMeta } from "../../../../src/schemas"
+import {
+	DEFAULT_API_FAILOVER_COOLDOWN_SECONDS,
+	DEFAULT_API_FAILOVER_THRESHOLD,
+} from "../../../../src/shared/apiFailover"
+
+import { Slider } from "@/components/ui"
+
+import { SetCachedStateField } from "./types"
+import { FallbackProfileList } from "./FallbackProfileList"
+
+type ApiFailoverSettingsProps = {
+	currentApiConfigName?: string
+	listApiConfigMeta?: ApiConfigMeta[]
+	apiConfigFallbacks?: Record<string, string[]>
+	apiFailoverThreshold?: number
+	apiFailoverCooldownSeconds?: number
+	setCachedStateField: SetCachedStateField<
+		"apiConfigFallbacks" | "apiFailoverThreshold" | "apiFailoverCooldownSeconds"
+	>
+}
+
+export const ApiFailoverSettings = ({
+	currentApiConfigName,
+	listApiConfigMeta,
+	apiConfigFallbacks = {},
+	apiFailoverThreshold = DEFAULT_API_FAILOVER_THRESHOLD,
+	apiFailoverCooldownSeconds = DEFAULT_API_FAILOVER_COOLDOWN_SECONDS,
+	setCachedStateField,
+}: ApiFailoverSettingsProps) => {
+	const { t } = useAppTranslation()
+	const currentId = listApiConfigMeta?.find((config) => config.name === currentApiConfigName)?.id
+
+	if (!currentId) {
+		return null
+	}
+
+	const fallbacks = apiConfigFallbacks[currentId] ?? []
+
+	return (
+		<div className="flex flex-col gap-3">
+			<div>
+				<label className="block font-medium mb-1">{t("settings:providers.failover.label")}</label>
+				<FallbackProfileList
+					value={fallbacks}
+					listApiConfigMeta={listApiConfigMeta}
+					excludeId={currentId}
+					testIdPrefix="fallback-profile"
+					onChange={(value) =>
+						setCachedStateField("apiConfigFallbacks", { ...apiConfigFallbacks, [currentId]: value })
+					}
+				/>
+				<div className="text-vscode-descriptionForeground text-sm mt-1">
+					{t("settings:providers.failover.description")}
+				</div>
+			</div>
+
+			{fallbacks.length > 0 && (
+				<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+					<div>
+						<label className="block font-medium mb-1">
+							{t("settings:providers.failover.threshold.label")}
+						</label>
+						<div className="flex items-center gap-2">
+							<Slider
+								min={1}
+								max={10}
+								step={1}
+								value={[apiFailoverThreshold]}
+								onValueChange={([value]) => setCachedStateField("apiFailoverThreshold", value)}
+								data-testid="api-failover-threshold-slider"
+							/>
+							<span className="w-20">{apiFailoverThreshold}</span>
+						</div>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("settings:providers.failover.threshold.description")}
+						</div>
+					</div>
+
+					<div>
+						<label className="block font-medium mb-1">
+							{t("settings:providers.failover.cooldown.label")}
+						</label>
+						<div className="flex items-center gap-2">
+							<Slider
+								min={0}
+								max={3600}
+								step={30}
+								value={[apiFailoverCooldownSeconds]}
+								onValueChange={([value]) => setCachedStateField("apiFailoverCooldownSeconds", value)}
+								data-testid="api-failover-cooldown-slider"
+							/>
+							<span className="w-20">{apiFailoverCooldownSeconds}s</span>
+						</div>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("settings:providers.failover.cooldown.description")}
+						</div>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -24,6 +24,7 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	alwaysAllowSubtasks?: boolean
 	alwaysAllowExecute?: boolean
 	allowedCommands?: string[]
+	deniedCommands?: string[]
 	setCachedStateField: SetCachedStateField<
 		| "alwaysAllowReadOnly"
 		| "alwaysAllowReadOnlyOutsideWorkspace"
@@ -38,9 +39,69 @@ type AutoApproveSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "alwaysAllowSubtasks"
 		| "alwaysAllowExecute"
 		| "allowedCommands"
+		| "deniedCommands"
 	>
 }
 
+type CommandListProps = {
+	commands: string[]
+	placeholder: string
+	testIdPrefix: string
+	onChange: (commands: string[]) => void
+}
+
+const CommandList = ({ commands, placeholder, testIdPrefix, onChange }: CommandListProps) => {
+	const { t } = useAppTranslation()
+	const [commandInput, setCommandInput] = useState("")
+
+	const handleAddCommand = () => {
+		if (commandInput && !commands.includes(commandInput)) {
+			onChange([...commands, commandInput])
+			setCommandInput("")
+		}
+	}
+
+	return (
+		<>
+			<div className="flex gap-2">
+				<VSCodeTextField
+					value={commandInput}
+					onInput={(e: any) => setCommandInput(e.target.value)}
+					onKeyDown={(e: any) => {
+						if (e.key === "Enter") {
+							e.preventDefault()
+							handleAddCommand()
+						}
+					}}
+					placeholder={placeholder}
+					className="grow"
+					data-testid={`${testIdPrefix}-input`}
+				/>
+				<VSCodeButton onClick={handleAddCommand} data-testid={`add-${testIdPrefix}-button`}>
+					{t("settings:autoApprove.execute.addButton")}
+				</VSCodeButton>
+			</div>
+
+			<div className="flex flex-wrap gap-2">
+				{commands.map((cmd, index) => (
+					<div
+						key={index}
+						className="border border-vscode-input-border bg-primary text-primary-foreground flex items-center gap-1 rounded-xs px-1.5 p-0.5">
+						<span>{cmd}</span>
+						<VSCodeButton
+							appearance="icon"
+							className="text-primary-foreground"
+							data-testid={`remove-${testIdPrefix}-${index}`}
+							onClick={() => onChange(commands.filter((_, i) => i !== index))}>
+							<span className="codicon codicon-close" />
+						</VSCodeButton>
+					</div>
+				))}
+			</div>
+		</>
+	)
+}
+
 export const AutoApproveSettings = ({
 	alwaysAllowReadOnly,
 	alwaysAllowReadOnlyOutsideWorkspace,
@@ -55,22 +116,12 @@ export const AutoApproveSettings = ({
 	alwaysAllowSubtasks,
 	alwaysAllowExecute,
 	allowedCommands,
+	deniedCommands,
 	setCachedStateField,
 	className,
 	...props
 }: AutoApproveSettingsProps) => {
 	const { t } = useAppTranslation()
-	const [commandInput, setCommandInput] = useState("")
-
-	const handleAddCommand = () => {
-		const currentCommands = allowedCommands ?? []
-		if (commandInput && !currentCommands.includes(commandInput)) {
-			const newCommands = [...currentCommands, commandInput]
-			setCachedStateField("allowedCommands", newCommands)
-			setCommandInput("")
-			vscode.postMessage({ type: "allowedCommands", commands: newCommands })
-		}
-	}
 
 	return (
 		<div {...props}>
@@ -267,47 +318,38 @@ export const AutoApproveSettings = ({
 							</div>
 						</div>
 
-						<div className="flex gap-2">
-							<VSCodeTextField
-								value={commandInput}
-								onInput={(e: any) => setCommandInput(e.target.value)}
-								onKeyDown={(e: any) => {
-									if (e.key === "Enter") {
-										e.preventDefault()
-										handleAddCommand()
-									}
-								}}
-								placeholder={t("settings:autoApprove.execute.commandPlaceholder")}
-								className="grow"
-								data-testid="command-input"
-							/>
-							<VSCodeButton onClick={handleAddCommand} data-testid="add-command-button">
-								{t("settings:autoApprove.execute.addButton")}
-							</VSCodeButton>
-						</div>
+						<CommandList
+							commands={allowedCommands ?? []}
+							placeholder={t("settings:autoApprove.execute.commandPlaceholder")}
+							testIdPrefix="command"
+							onChange={(commands) => {
+								setCachedStateField("allowedCommands", commands)
+								vscode.postMessage({ type: "allowedCommands", commands })
+							}}
+						/>
+					</div>
+				)}
 
-						<div className="flex flex-wrap gap-2">
-							{(allowedCommands ?? []).map((cmd, index) => (
-								<div
-									key={index}
-									className="border border-vscode-input-border bg-primary text-primary-foreground flex items-center gap-1 rounded-xs px-1.5 p-0.5">
-									<span>{cmd}</span>
-									<VSCodeButton
-										appearance="icon"
-										className="text-primary-foreground"
-										data-testid={`remove-command-${index}`}
-										onClick={() => {
-											const newCommands = (allowedCommands ?? []).filter((_, i) => i !== index)
-											setCachedStateField("allowedCommands", newCommands)
-											vscode.postMessage({ type: "allowedCommands", commands: newCommands })
-										}}>
-										<span className="codicon codicon-close" />
-									</VSCodeButton>
-								</div>
-							))}
+				<div className="flex flex-col gap-3">
+					<div>
+						<label className="block font-medium mb-1" data-testid="denied-commands-heading">
+							{t("settings:autoApprove.execute.deniedCommands")}
+						</label>
+						<div className="text-vscode-descriptionForeground text-sm mt-1">
+							{t("settings:autoApprove.execute.deniedCommandsDescription")}
 						</div>
 					</div>
-				)}
+
+					<CommandList
+						commands={deniedCommands ?? []}
+						placeholder={t("settings:autoApprove.execute.deniedCommandPlaceholder")}
+						testIdPrefix="denied-command"
+						onChange={(commands) => {
+							setCachedStateField("deniedCommands", commands)
+							vscode.postMessage({ type: "deniedCommands", commands })
+						}}
+					/>
+				</div>
 			</Section>
 		</div>
 	)
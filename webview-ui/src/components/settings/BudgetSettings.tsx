@@ -0,0 +1,116 @@
+import { HTMLAttributes } from "react"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { Wallet } from "lucide-react"
+
+import { BudgetLimits } from "../../../../src/schemas"
+import { BudgetMetric, BudgetTotals } from "../../../../src/shared/ExtensionMessage"
+import { BUDGET_LIMIT_KEYS } from "../../../../src/shared/budget"
+
+import { cn } from "@/lib/utils"
+import { formatBudgetValue } from "@/utils/format"
+
+import { SetCachedStateField } from "./types"
+import { SectionHeader } from "./SectionHeader"
+import { Section } from "./Section"
+
+const BUDGET_METRICS = Object.keys(BUDGET_LIMIT_KEYS) as BudgetMetric[]
+
+type BudgetLimitFieldsProps = {
+	scope: "task" | "daily"
+	limits: BudgetLimits
+	onChange: (limits: BudgetLimits) => void
+}
+
+const BudgetLimitFields = ({ scope, limits, onChange }: BudgetLimitFieldsProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className="flex flex-col gap-2">
+			{BUDGET_METRICS.map((metric) => {
+				const key = BUDGET_LIMIT_KEYS[metric]
+
+				return (
+					<div key={metric} className="flex items-center gap-2">
+						<label className="w-40">{t(`settings:budget.metrics.${metric}`)}</label>
+						<VSCodeTextField
+							value={limits[key]?.toString() ?? ""}
+							placeholder={t("settings:budget.unlimited")}
+							onInput={(e: any) => {
+								const value = parseFloat(e.target.value)
+								onChange({ ...limits, [key]: Number.isFinite(value) && value > 0 ? value : undefined })
+							}}
+							data-testid={`${scope}-budget-${metric}-input`}
+						/>
+					</div>
+				)
+			})}
+		</div>
+	)
+}
+
+type BudgetSettingsProps = HTMLAttributes<HTMLDivElement> & {
+	taskBudget?: BudgetLimits
+	dailyBudget?: BudgetLimits
+	dailyBudgetUsage?: BudgetTotals
+	setCachedStateField: SetCachedStateField<"taskBudget" | "dailyBudget">
+}
+
+export const BudgetSettings = ({
+	taskBudget = {},
+	dailyBudget = {},
+	dailyBudgetUsage,
+	setCachedStateField,
+	className,
+	...props
+}: BudgetSettingsProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className={cn("flex flex-col gap-2", className)} {...props}>
+			<SectionHeader description={t("settings:budget.description")}>
+				<div className="flex items-center gap-2">
+					<Wallet className="w-4" />
+					<div>{t("settings:sections.budget")}</div>
+				</div>
+			</SectionHeader>
+
+			<Section>
+				<div>
+					<label className="block font-medium mb-1">{t("settings:budget.task.label")}</label>
+					<BudgetLimitFields
+						scope="task"
+						limits={taskBudget}
+						onChange={(limits) => setCachedStateField("taskBudget", limits)}
+					/>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:budget.task.description")}
+					</div>
+				</div>
+
+				<div>
+					<label className="block font-medium mb-1">{t("settings:budget.daily.label")}</label>
+					<BudgetLimitFields
+						scope="daily"
+						limits={dailyBudget}
+						onChange={(limits) => setCachedStateField("dailyBudget", limits)}
+					/>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:budget.daily.description")}
+					</div>
+					{dailyBudgetUsage && (
+						<div
+							className="text-vscode-descriptionForeground text-sm mt-1"
+							data-testid="daily-budget-usage">
+							{t("settings:budget.daily.usage", {
+								cost: formatBudgetValue("cost", dailyBudgetUsage.cost),
+								tokensIn: formatBudgetValue("tokensIn", dailyBudgetUsage.tokensIn),
+								requests: formatBudgetValue("requests", dailyBudgetUsage.requests),
+							})}
+						</div>
+					)}
+				</div>
+			</Section>
+		</div>
+	)
+}
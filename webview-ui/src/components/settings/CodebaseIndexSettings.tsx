@@ -0,0 +1,119 @@
+import { HTMLAttributes } from "react"
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { VSCodeCheckbox, VSCodeTextField } from "@vscode/webview-ui-toolkit/react"
+import { Search } from "lucide-react"
+
+import {
+	DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL,
+	DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID,
+} from "../../../../src/shared/codeIndex"
+
+import { cn } from "@/lib/utils"
+
+import { SetCachedStateField } from "./types"
+import { SectionHeader } from "./SectionHeader"
+import { Section } from "./Section"
+
+type CodebaseIndexSettingsProps = HTMLAttributes<HTMLDivElement> & {
+	codebaseIndexEnabled?: boolean
+	codebaseIndexEmbedderBaseUrl?: string
+	codebaseIndexEmbedderModelId?: string
+	codebaseIndexEmbedderApiKey?: string
+	setCachedStateField: SetCachedStateField<
+		| "codebaseIndexEnabled"
+		| "codebaseIndexEmbedderBaseUrl"
+		| "codebaseIndexEmbedderModelId"
+		| "codebaseIndexEmbedderApiKey"
+	>
+}
+
+export const CodebaseIndexSettings = ({
+	codebaseIndexEnabled,
+	codebaseIndexEmbedderBaseUrl,
+	codebaseIndexEmbedderModelId,
+	codebaseIndexEmbedderApiKey,
+	setCachedStateField,
+	className,
+	...props
+}: CodebaseIndexSettingsProps) => {
+	const { t } = useAppTranslation()
+
+	return (
+		<div className={cn("flex flex-col gap-2", className)} {...props}>
+			<SectionHeader description={t("settings:codebaseIndex.description")}>
+				<div className="flex items-center gap-2">
+					<Search className="w-4" />
+					<div>{t("settings:sections.codebaseIndex")}</div>
+				</div>
+			</SectionHeader>
+
+			<Section>
+				<div>
+					<VSCodeCheckbox
+						checked={codebaseIndexEnabled}
+						onChange={(e: any) => setCachedStateField("codebaseIndexEnabled", e.target.checked)}
+						data-testid="codebase-index-enabled-checkbox">
+						<label className="block font-medium mb-1">{t("settings:codebaseIndex.enable.label")}</label>
+					</VSCodeCheckbox>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:codebaseIndex.enable.description")}
+					</div>
+				</div>
+
+				{codebaseIndexEnabled && (
+					<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:codebaseIndex.baseUrl.label")}
+							</label>
+							<VSCodeTextField
+								value={codebaseIndexEmbedderBaseUrl ?? DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL}
+								onChange={(e: any) =>
+									setCachedStateField("codebaseIndexEmbedderBaseUrl", e.target.value)
+								}
+								placeholder={DEFAULT_CODE_INDEX_EMBEDDER_BASE_URL}
+								className="w-full"
+								data-testid="codebase-index-base-url-input"
+							/>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:codebaseIndex.baseUrl.description")}
+							</div>
+						</div>
+
+						<div>
+							<label className="block font-medium mb-1">{t("settings:codebaseIndex.model.label")}</label>
+							<VSCodeTextField
+								value={codebaseIndexEmbedderModelId ?? DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID}
+								onChange={(e: any) =>
+									setCachedStateField("codebaseIndexEmbedderModelId", e.target.value)
+								}
+								placeholder={DEFAULT_CODE_INDEX_EMBEDDER_MODEL_ID}
+								className="w-full"
+								data-testid="codebase-index-model-input"
+							/>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:codebaseIndex.model.description")}
+							</div>
+						</div>
+
+						<div>
+							<label className="block font-medium mb-1">{t("settings:codebaseIndex.apiKey.label")}</label>
+							<VSCodeTextField
+								type="password"
+								value={codebaseIndexEmbedderApiKey ?? ""}
+								onChange={(e: any) =>
+									setCachedStateField("codebaseIndexEmbedderApiKey", e.target.value)
+								}
+								className="w-full"
+								data-testid="codebase-index-api-key-input"
+							/>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:codebaseIndex.apiKey.description")}
+							</div>
+						</div>
+					</div>
+				)}
+			</Section>
+		</div>
+	)
+}
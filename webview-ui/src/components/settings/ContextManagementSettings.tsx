@@ -3,8 +3,11 @@ import { useAppTranslation } from "@/i18n/TranslationContext"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 import { Database } from "lucide-react"
 
+import { ApiConfigMeta, ContextManagementStrategy, DiagnosticsScope, ModeConfig } from "../../../../src/schemas"
+import { getAllModes } from "../../../../src/shared/modes"
+
 import { cn } from "@/lib/utils"
-import { Slider } from "@/components/ui"
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue, Slider } from "@/components/ui"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
@@ -15,21 +18,69 @@ type ContextManagementSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	maxWorkspaceFiles: number
 	showRooIgnoredFiles?: boolean
 	maxReadFileLine?: number
+	contextManagementStrategy?: ContextManagementStrategy
+	condensingApiConfigId?: string
+	listApiConfigMeta?: ApiConfigMeta[]
+	diagnosticsEnabled?: boolean
+	diagnosticsDelayMs?: number
+	diagnosticsIncludeWarnings?: boolean
+	diagnosticsScope?: DiagnosticsScope
+	repoMapEnabled?: boolean
+	repoMapMaxTokens?: number
+	repoMapModes?: string[]
+	customModes?: ModeConfig[]
 	setCachedStateField: SetCachedStateField<
-		"maxOpenTabsContext" | "maxWorkspaceFiles" | "showRooIgnoredFiles" | "maxReadFileLine"
+		| "maxOpenTabsContext"
+		| "maxWorkspaceFiles"
+		| "showRooIgnoredFiles"
+		| "maxReadFileLine"
+		| "contextManagementStrategy"
+		| "condensingApiConfigId"
+		| "diagnosticsEnabled"
+		| "diagnosticsDelayMs"
+		| "diagnosticsIncludeWarnings"
+		| "diagnosticsScope"
+		| "repoMapEnabled"
+		| "repoMapMaxTokens"
+		| "repoMapModes"
 	>
 }
 
+// Radix's `Select` doesn't allow empty values, so "use the current profile" needs a sentinel.
+const CURRENT_API_CONFIG = "-"
+
 export const ContextManagementSettings = ({
 	maxOpenTabsContext,
 	maxWorkspaceFiles,
 	showRooIgnoredFiles,
 	setCachedStateField,
 	maxReadFileLine,
+	contextManagementStrategy,
+	condensingApiConfigId,
+	listApiConfigMeta,
+	diagnosticsEnabled,
+	diagnosticsDelayMs,
+	diagnosticsIncludeWarnings,
+	diagnosticsScope,
+	repoMapEnabled,
+	repoMapMaxTokens,
+	repoMapModes,
+	customModes,
 	className,
 	...props
 }: ContextManagementSettingsProps) => {
 	const { t } = useAppTranslation()
+	const allModes = getAllModes(customModes)
+
+	// Without a list of modes, the repository map is added in every mode.
+	const toggleRepoMapMode = (slug: string, checked: boolean) => {
+		const enabledModes = repoMapModes ?? allModes.map((mode) => mode.slug)
+		const newModes = checked
+			? [...enabledModes.filter((mode) => mode !== slug), slug]
+			: enabledModes.filter((mode) => mode !== slug)
+		setCachedStateField("repoMapModes", newModes)
+	}
+
 	return (
 		<div className={cn("flex flex-col gap-2", className)} {...props}>
 			<SectionHeader description={t("settings:contextManagement.description")}>
@@ -127,6 +178,209 @@ export const ContextManagementSettings = ({
 						{t("settings:contextManagement.maxReadFile.description")}
 					</div>
 				</div>
+
+				<div>
+					<label className="block font-medium mb-1">{t("settings:contextManagement.strategy.label")}</label>
+					<Select
+						value={contextManagementStrategy ?? "truncate"}
+						onValueChange={(value) =>
+							setCachedStateField("contextManagementStrategy", value as ContextManagementStrategy)
+						}>
+						<SelectTrigger className="w-full" data-testid="context-management-strategy-select">
+							<SelectValue placeholder={t("settings:common.select")} />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectGroup>
+								<SelectItem value="truncate">
+									{t("settings:contextManagement.strategy.truncate")}
+								</SelectItem>
+								<SelectItem value="condense">
+									{t("settings:contextManagement.strategy.condense")}
+								</SelectItem>
+							</SelectGroup>
+						</SelectContent>
+					</Select>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:contextManagement.strategy.description")}
+					</div>
+				</div>
+
+				{contextManagementStrategy === "condense" && (
+					<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:contextManagement.condensingApiConfig.label")}
+							</label>
+							<Select
+								value={condensingApiConfigId || CURRENT_API_CONFIG}
+								onValueChange={(value) =>
+									setCachedStateField(
+										"condensingApiConfigId",
+										value === CURRENT_API_CONFIG ? "" : value,
+									)
+								}>
+								<SelectTrigger className="w-full" data-testid="condensing-api-config-select">
+									<SelectValue placeholder={t("settings:common.select")} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectGroup>
+										<SelectItem value={CURRENT_API_CONFIG}>
+											{t("settings:contextManagement.condensingApiConfig.useCurrentConfig")}
+										</SelectItem>
+										{(listApiConfigMeta || []).map((config) => (
+											<SelectItem key={config.id} value={config.id}>
+												{config.name}
+											</SelectItem>
+										))}
+									</SelectGroup>
+								</SelectContent>
+							</Select>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.condensingApiConfig.description")}
+							</div>
+						</div>
+					</div>
+				)}
+
+				<div>
+					<VSCodeCheckbox
+						checked={diagnosticsEnabled ?? true}
+						onChange={(e: any) => setCachedStateField("diagnosticsEnabled", e.target.checked)}
+						data-testid="diagnostics-enabled-checkbox">
+						<label className="block font-medium mb-1">
+							{t("settings:contextManagement.diagnostics.label")}
+						</label>
+					</VSCodeCheckbox>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:contextManagement.diagnostics.description")}
+					</div>
+				</div>
+
+				{(diagnosticsEnabled ?? true) && (
+					<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:contextManagement.diagnostics.delay.label")}
+							</label>
+							<div className="flex items-center gap-2">
+								<Slider
+									min={0}
+									max={10000}
+									step={250}
+									value={[diagnosticsDelayMs ?? 2000]}
+									onValueChange={([value]) => setCachedStateField("diagnosticsDelayMs", value)}
+									data-testid="diagnostics-delay-slider"
+								/>
+								<span className="w-20">{diagnosticsDelayMs ?? 2000}ms</span>
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.diagnostics.delay.description")}
+							</div>
+						</div>
+
+						<div>
+							<VSCodeCheckbox
+								checked={diagnosticsIncludeWarnings ?? false}
+								onChange={(e: any) =>
+									setCachedStateField("diagnosticsIncludeWarnings", e.target.checked)
+								}
+								data-testid="diagnostics-include-warnings-checkbox">
+								<label className="block font-medium mb-1">
+									{t("settings:contextManagement.diagnostics.includeWarnings.label")}
+								</label>
+							</VSCodeCheckbox>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.diagnostics.includeWarnings.description")}
+							</div>
+						</div>
+
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:contextManagement.diagnostics.scope.label")}
+							</label>
+							<Select
+								value={diagnosticsScope ?? "workspace"}
+								onValueChange={(value) =>
+									setCachedStateField("diagnosticsScope", value as DiagnosticsScope)
+								}>
+								<SelectTrigger className="w-full" data-testid="diagnostics-scope-select">
+									<SelectValue placeholder={t("settings:common.select")} />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectGroup>
+										<SelectItem value="workspace">
+											{t("settings:contextManagement.diagnostics.scope.workspace")}
+										</SelectItem>
+										<SelectItem value="editedFiles">
+											{t("settings:contextManagement.diagnostics.scope.editedFiles")}
+										</SelectItem>
+									</SelectGroup>
+								</SelectContent>
+							</Select>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.diagnostics.scope.description")}
+							</div>
+						</div>
+					</div>
+				)}
+
+				<div>
+					<VSCodeCheckbox
+						checked={repoMapEnabled ?? false}
+						onChange={(e: any) => setCachedStateField("repoMapEnabled", e.target.checked)}
+						data-testid="repo-map-enabled-checkbox">
+						<label className="block font-medium mb-1">
+							{t("settings:contextManagement.repoMap.label")}
+						</label>
+					</VSCodeCheckbox>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:contextManagement.repoMap.description")}
+					</div>
+				</div>
+
+				{repoMapEnabled && (
+					<div className="flex flex-col gap-3 pl-3 border-l-2 border-vscode-button-background">
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:contextManagement.repoMap.maxTokens.label")}
+							</label>
+							<div className="flex items-center gap-2">
+								<Slider
+									min={256}
+									max={8192}
+									step={256}
+									value={[repoMapMaxTokens ?? 1024]}
+									onValueChange={([value]) => setCachedStateField("repoMapMaxTokens", value)}
+									data-testid="repo-map-max-tokens-slider"
+								/>
+								<span className="w-20">{repoMapMaxTokens ?? 1024}</span>
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.repoMap.maxTokens.description")}
+							</div>
+						</div>
+
+						<div>
+							<label className="block font-medium mb-1">
+								{t("settings:contextManagement.repoMap.modes.label")}
+							</label>
+							<div className="flex flex-wrap gap-x-4 gap-y-1">
+								{allModes.map(({ slug, name }) => (
+									<VSCodeCheckbox
+										key={slug}
+										checked={repoMapModes?.includes(slug) ?? true}
+										onChange={(e: any) => toggleRepoMapMode(slug, e.target.checked)}
+										data-testid={`repo-map-mode-${slug}-checkbox`}>
+										{name}
+									</VSCodeCheckbox>
+								))}
+							</div>
+							<div className="text-vscode-descriptionForeground text-sm mt-1">
+								{t("settings:contextManagement.repoMap.modes.description")}
+							</div>
+						</div>
+					</div>
+				)}
 			</Section>
 		</div>
 	)
@@ -0,0 +1,80 @@
+import { useAppTranslation } from "@/i18n/TranslationContext"
+import { VSCodeButton } from "@vscode/webview-ui-toolkit/react"
+
+import { ApiConfigMeta } from "../../../../src/schemas"
+
+import { Select, SelectContent, SelectGroup, SelectItem, SelectTrigger, SelectValue } from "@/components/ui"
+
+type FallbackProfileListProps = {
+	// Ordered ids of the fallback profiles.
+	value: string[]
+	listApiConfigMeta?: ApiConfigMeta[]
+	// The profile the fallbacks are for, which can't be its own fallback.
+	excludeId?: string
+	testIdPrefix: string
+	onChange: (value: string[]) => void
+}
+
+export const FallbackProfileList = ({
+	value,
+	listApiConfigMeta = [],
+	excludeId,
+	testIdPrefix,
+	onChange,
+}: FallbackProfileListProps) => {
+	const { t } = useAppTranslation()
+
+	const available = listApiConfigMeta.filter((config) => config.id !== excludeId && !value.includes(config.id))
+	const getName = (id: string) => listApiConfigMeta.find((config) => config.id === id)?.name
+
+	const move = (index: number, offset: number) => {
+		const next = [...value]
+		;[next[index], next[index + offset]] = [next[index + offset], next[index]]
+		onChange(next)
+	}
+
+	return (
+		<div className="flex flex-col gap-2">
+			{value.map((id, index) => (
+				<div key={id} className="flex items-center gap-2" data-testid={`${testIdPrefix}-${index}`}>
+					<span className="text-vscode-descriptionForeground w-4">{index + 1}.</span>
+					<span className="grow truncate">
+						{getName(id) ?? t("settings:providers.failover.missingProfile")}
+					</span>
+					<VSCodeButton
+						appearance="icon"
+						disabled={index === 0}
+						title={t("settings:providers.failover.moveUp")}
+						data-testid={`${testIdPrefix}-move-up-${index}`}
+						onClick={() => move(index, -1)}>
+						<span className="codicon codicon-arrow-up" />
+					</VSCodeButton>
+					<VSCodeButton
+						appearance="icon"
+						title={t("settings:providers.failover.remove")}
+						data-testid={`${testIdPrefix}-remove-${index}`}
+						onClick={() => onChange(value.filter((_, i) => i !== index))}>
+						<span className="codicon codicon-close" />
+					</VSCodeButton>
+				</div>
+			))}
+
+			{available.length > 0 && (
+				<Select value="" onValueChange={(id) => onChange([...value, id])}>
+					<SelectTrigger className="w-full" data-testid={`${testIdPrefix}-add`}>
+						<SelectValue placeholder={t("settings:providers.failover.add")} />
+					</SelectTrigger>
+					<SelectContent>
+						<SelectGroup>
+							{available.map((config) => (
+								<SelectItem key={config.id} value={config.id}>
+									{config.name}
+								</SelectItem>
+							))}
+						</SelectGroup>
+					</SelectContent>
+				</Select>
+			)}
+		</div>
+	)
+}
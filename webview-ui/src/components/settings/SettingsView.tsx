@@ -2,11 +2,13 @@ import { forwardRef, memo, useCallback, useEffect, useImperativeHandle, useMemo,
 import { useAppTranslation } from "@/i18n/TranslationContext"
 import {
 	CheckCheck,
+	Wallet,
 	SquareMousePointer,
 	Webhook,
 	GitBranch,
 	Bell,
 	Database,
+	Search,
 	SquareTerminal,
 	Cog,
 	FlaskConical,
@@ -43,12 +45,15 @@ import { Tab, TabContent, TabHeader } from "../common/Tab"
 import { SetCachedStateField, SetExperimentEnabled } from "./types"
 import { SectionHeader } from "./SectionHeader"
 import ApiConfigManager from "./ApiConfigManager"
+import { ApiFailoverSettings } from "./ApiFailoverSettings"
 import ApiOptions from "./ApiOptions"
 import { AutoApproveSettings } from "./AutoApproveSettings"
 import { BrowserSettings } from "./BrowserSettings"
 import { CheckpointSettings } from "./CheckpointSettings"
 import { NotificationSettings } from "./NotificationSettings"
 import { ContextManagementSettings } from "./ContextManagementSettings"
+import { CodebaseIndexSettings } from "./CodebaseIndexSettings"
+import { BudgetSettings } from "./BudgetSettings"
 import { TerminalSettings } from "./TerminalSettings"
 import { AdvancedSettings } from "./AdvancedSettings"
 import { ExperimentalSettings } from "./ExperimentalSettings"
@@ -63,10 +68,12 @@ export interface SettingsViewRef {
 const sectionNames = [
 	"providers",
 	"autoApprove",
+	"budget",
 	"browser",
 	"checkpoints",
 	"notifications",
 	"contextManagement",
+	"codebaseIndex",
 	"terminal",
 	"advanced",
 	"experimental",
@@ -100,6 +107,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		alwaysAllowReadOnly,
 		alwaysAllowReadOnlyOutsideWorkspace,
 		allowedCommands,
+		deniedCommands,
 		language,
 		alwaysAllowBrowser,
 		alwaysAllowExecute,
@@ -135,10 +143,34 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		terminalZshOhMy,
 		terminalZshP10k,
 		terminalZdotdir,
+		modeCommandSandboxes,
+		commandSandboxNetworkEnabled,
+		commandSandboxWritablePaths,
+		commandSandboxImage,
 		writeDelayMs,
 		showRooIgnoredFiles,
 		remoteBrowserEnabled,
 		maxReadFileLine,
+		contextManagementStrategy,
+		condensingApiConfigId,
+		diagnosticsEnabled,
+		diagnosticsDelayMs,
+		diagnosticsIncludeWarnings,
+		diagnosticsScope,
+		repoMapEnabled,
+		repoMapMaxTokens,
+		repoMapModes,
+		customModes,
+		codebaseIndexEnabled,
+		codebaseIndexEmbedderBaseUrl,
+		codebaseIndexEmbedderModelId,
+		codebaseIndexEmbedderApiKey,
+		apiConfigFallbacks,
+		apiFailoverThreshold,
+		apiFailoverCooldownSeconds,
+		taskBudget,
+		dailyBudget,
+		dailyBudgetUsage,
 	} = cachedState
 
 	// Make sure apiConfiguration is initialized and managed by SettingsView.
@@ -227,6 +259,7 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "alwaysAllowBrowser", bool: alwaysAllowBrowser })
 			vscode.postMessage({ type: "alwaysAllowMcp", bool: alwaysAllowMcp })
 			vscode.postMessage({ type: "allowedCommands", commands: allowedCommands ?? [] })
+			vscode.postMessage({ type: "deniedCommands", commands: deniedCommands ?? [] })
 			vscode.postMessage({ type: "browserToolEnabled", bool: browserToolEnabled })
 			vscode.postMessage({ type: "soundEnabled", bool: soundEnabled })
 			vscode.postMessage({ type: "ttsEnabled", bool: ttsEnabled })
@@ -249,6 +282,13 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "terminalZshOhMy", bool: terminalZshOhMy })
 			vscode.postMessage({ type: "terminalZshP10k", bool: terminalZshP10k })
 			vscode.postMessage({ type: "terminalZdotdir", bool: terminalZdotdir })
+			vscode.postMessage({ type: "modeCommandSandboxes", values: modeCommandSandboxes ?? {} })
+			vscode.postMessage({ type: "commandSandboxNetworkEnabled", bool: commandSandboxNetworkEnabled })
+			vscode.postMessage({
+				type: "commandSandboxWritablePaths",
+				paths: (commandSandboxWritablePaths ?? []).map((p) => p.trim()).filter(Boolean),
+			})
+			vscode.postMessage({ type: "commandSandboxImage", text: commandSandboxImage?.trim() })
 			vscode.postMessage({ type: "mcpEnabled", bool: mcpEnabled })
 			vscode.postMessage({ type: "alwaysApproveResubmit", bool: alwaysApproveResubmit })
 			vscode.postMessage({ type: "requestDelaySeconds", value: requestDelaySeconds })
@@ -256,7 +296,25 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 			vscode.postMessage({ type: "maxWorkspaceFiles", value: maxWorkspaceFiles ?? 200 })
 			vscode.postMessage({ type: "showRooIgnoredFiles", bool: showRooIgnoredFiles })
 			vscode.postMessage({ type: "maxReadFileLine", value: maxReadFileLine ?? 500 })
+			vscode.postMessage({ type: "contextManagementStrategy", text: contextManagementStrategy ?? "truncate" })
+			vscode.postMessage({ type: "condensingApiConfigId", text: condensingApiConfigId })
+			vscode.postMessage({ type: "diagnosticsEnabled", bool: diagnosticsEnabled })
+			vscode.postMessage({ type: "diagnosticsDelayMs", value: diagnosticsDelayMs })
+			vscode.postMessage({ type: "diagnosticsIncludeWarnings", bool: diagnosticsIncludeWarnings })
+			vscode.postMessage({ type: "diagnosticsScope", text: diagnosticsScope ?? "workspace" })
+			vscode.postMessage({ type: "repoMapEnabled", bool: repoMapEnabled })
+			vscode.postMessage({ type: "repoMapMaxTokens", value: repoMapMaxTokens })
+			vscode.postMessage({ type: "repoMapModes", ids: repoMapModes })
+			vscode.postMessage({ type: "codebaseIndexEmbedderBaseUrl", text: codebaseIndexEmbedderBaseUrl })
+			vscode.postMessage({ type: "codebaseIndexEmbedderModelId", text: codebaseIndexEmbedderModelId })
+			vscode.postMessage({ type: "codebaseIndexEmbedderApiKey", text: codebaseIndexEmbedderApiKey })
+			vscode.postMessage({ type: "codebaseIndexEnabled", bool: codebaseIndexEnabled })
 			vscode.postMessage({ type: "currentApiConfigName", text: currentApiConfigName })
+			vscode.postMessage({ type: "apiConfigFallbacks", values: apiConfigFallbacks ?? {} })
+			vscode.postMessage({ type: "apiFailoverThreshold", value: apiFailoverThreshold })
+			vscode.postMessage({ type: "apiFailoverCooldownSeconds", value: apiFailoverCooldownSeconds })
+			vscode.postMessage({ type: "taskBudget", values: taskBudget ?? {} })
+			vscode.postMessage({ type: "dailyBudget", values: dailyBudget ?? {} })
 			vscode.postMessage({ type: "updateExperimental", values: experiments })
 			vscode.postMessage({ type: "alwaysAllowModeSwitch", bool: alwaysAllowModeSwitch })
 			vscode.postMessage({ type: "alwaysAllowSubtasks", bool: alwaysAllowSubtasks })
@@ -288,10 +346,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 
 	const providersRef = useRef<HTMLDivElement>(null)
 	const autoApproveRef = useRef<HTMLDivElement>(null)
+	const budgetRef = useRef<HTMLDivElement>(null)
 	const browserRef = useRef<HTMLDivElement>(null)
 	const checkpointsRef = useRef<HTMLDivElement>(null)
 	const notificationsRef = useRef<HTMLDivElement>(null)
 	const contextManagementRef = useRef<HTMLDivElement>(null)
+	const codebaseIndexRef = useRef<HTMLDivElement>(null)
 	const terminalRef = useRef<HTMLDivElement>(null)
 	const advancedRef = useRef<HTMLDivElement>(null)
 	const experimentalRef = useRef<HTMLDivElement>(null)
@@ -302,10 +362,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		() => [
 			{ id: "providers", icon: Webhook, ref: providersRef },
 			{ id: "autoApprove", icon: CheckCheck, ref: autoApproveRef },
+			{ id: "budget", icon: Wallet, ref: budgetRef },
 			{ id: "browser", icon: SquareMousePointer, ref: browserRef },
 			{ id: "checkpoints", icon: GitBranch, ref: checkpointsRef },
 			{ id: "notifications", icon: Bell, ref: notificationsRef },
 			{ id: "contextManagement", icon: Database, ref: contextManagementRef },
+			{ id: "codebaseIndex", icon: Search, ref: codebaseIndexRef },
 			{ id: "terminal", icon: SquareTerminal, ref: terminalRef },
 			{ id: "advanced", icon: Cog, ref: advancedRef },
 			{ id: "experimental", icon: FlaskConical, ref: experimentalRef },
@@ -315,10 +377,12 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 		[
 			providersRef,
 			autoApproveRef,
+			budgetRef,
 			browserRef,
 			checkpointsRef,
 			notificationsRef,
 			contextManagementRef,
+			codebaseIndexRef,
 			terminalRef,
 			advancedRef,
 			experimentalRef,
@@ -428,6 +492,14 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 							errorMessage={errorMessage}
 							setErrorMessage={setErrorMessage}
 						/>
+						<ApiFailoverSettings
+							currentApiConfigName={currentApiConfigName}
+							listApiConfigMeta={listApiConfigMeta}
+							apiConfigFallbacks={apiConfigFallbacks}
+							apiFailoverThreshold={apiFailoverThreshold}
+							apiFailoverCooldownSeconds={apiFailoverCooldownSeconds}
+							setCachedStateField={setCachedStateField}
+						/>
 					</Section>
 				</div>
 
@@ -446,6 +518,16 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						alwaysAllowSubtasks={alwaysAllowSubtasks}
 						alwaysAllowExecute={alwaysAllowExecute}
 						allowedCommands={allowedCommands}
+						deniedCommands={deniedCommands}
+						setCachedStateField={setCachedStateField}
+					/>
+				</div>
+
+				<div ref={budgetRef}>
+					<BudgetSettings
+						taskBudget={taskBudget}
+						dailyBudget={dailyBudget}
+						dailyBudgetUsage={dailyBudgetUsage}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -485,6 +567,27 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						maxWorkspaceFiles={maxWorkspaceFiles ?? 200}
 						showRooIgnoredFiles={showRooIgnoredFiles}
 						maxReadFileLine={maxReadFileLine}
+						contextManagementStrategy={contextManagementStrategy}
+						condensingApiConfigId={condensingApiConfigId}
+						diagnosticsEnabled={diagnosticsEnabled}
+						diagnosticsDelayMs={diagnosticsDelayMs}
+						diagnosticsIncludeWarnings={diagnosticsIncludeWarnings}
+						diagnosticsScope={diagnosticsScope}
+						repoMapEnabled={repoMapEnabled}
+						repoMapMaxTokens={repoMapMaxTokens}
+						repoMapModes={repoMapModes}
+						customModes={customModes}
+						listApiConfigMeta={listApiConfigMeta}
+						setCachedStateField={setCachedStateField}
+					/>
+				</div>
+
+				<div ref={codebaseIndexRef}>
+					<CodebaseIndexSettings
+						codebaseIndexEnabled={codebaseIndexEnabled}
+						codebaseIndexEmbedderBaseUrl={codebaseIndexEmbedderBaseUrl}
+						codebaseIndexEmbedderModelId={codebaseIndexEmbedderModelId}
+						codebaseIndexEmbedderApiKey={codebaseIndexEmbedderApiKey}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
@@ -499,6 +602,11 @@ const SettingsView = forwardRef<SettingsViewRef, SettingsViewProps>(({ onDone, t
 						terminalZshOhMy={terminalZshOhMy}
 						terminalZshP10k={terminalZshP10k}
 						terminalZdotdir={terminalZdotdir}
+						modeCommandSandboxes={modeCommandSandboxes}
+						commandSandboxNetworkEnabled={commandSandboxNetworkEnabled}
+						commandSandboxWritablePaths={commandSandboxWritablePaths}
+						commandSandboxImage={commandSandboxImage}
+						customModes={customModes}
 						setCachedStateField={setCachedStateField}
 					/>
 				</div>
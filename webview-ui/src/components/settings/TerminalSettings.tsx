@@ -3,8 +3,22 @@ import { useAppTranslation } from "@/i18n/TranslationContext"
 import { SquareTerminal } from "lucide-react"
 import { VSCodeCheckbox } from "@vscode/webview-ui-toolkit/react"
 
+import { CommandSandbox, ModeConfig, commandSandboxes } from "../../../../src/schemas"
+import { DEFAULT_COMMAND_SANDBOX_IMAGE, getCommandSandboxForMode } from "../../../../src/shared/commandSandbox"
+import { getAllModes } from "../../../../src/shared/modes"
+
 import { cn } from "@/lib/utils"
-import { Slider } from "@/components/ui"
+import {
+	Input,
+	Select,
+	SelectContent,
+	SelectGroup,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+	Slider,
+	Textarea,
+} from "@/components/ui"
 
 import { SetCachedStateField } from "./types"
 import { SectionHeader } from "./SectionHeader"
@@ -19,6 +33,11 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 	terminalZshOhMy?: boolean
 	terminalZshP10k?: boolean
 	terminalZdotdir?: boolean
+	modeCommandSandboxes?: Record<string, CommandSandbox>
+	commandSandboxNetworkEnabled?: boolean
+	commandSandboxWritablePaths?: string[]
+	commandSandboxImage?: string
+	customModes?: ModeConfig[]
 	setCachedStateField: SetCachedStateField<
 		| "terminalOutputLineLimit"
 		| "terminalShellIntegrationTimeout"
@@ -28,6 +47,10 @@ type TerminalSettingsProps = HTMLAttributes<HTMLDivElement> & {
 		| "terminalZshOhMy"
 		| "terminalZshP10k"
 		| "terminalZdotdir"
+		| "modeCommandSandboxes"
+		| "commandSandboxNetworkEnabled"
+		| "commandSandboxWritablePaths"
+		| "commandSandboxImage"
 	>
 }
 
@@ -40,11 +63,17 @@ export const TerminalSettings = ({
 	terminalZshOhMy,
 	terminalZshP10k,
 	terminalZdotdir,
+	modeCommandSandboxes,
+	commandSandboxNetworkEnabled,
+	commandSandboxWritablePaths,
+	commandSandboxImage,
+	customModes,
 	setCachedStateField,
 	className,
 	...props
 }: TerminalSettingsProps) => {
 	const { t } = useAppTranslation()
+	const allModes = getAllModes(customModes)
 
 	return (
 		<div className={cn("flex flex-col gap-2", className)} {...props}>
@@ -176,6 +205,84 @@ export const TerminalSettings = ({
 						{t("settings:terminal.zdotdir.description")}
 					</div>
 				</div>
+
+				<div>
+					<label className="block font-medium mb-1">{t("settings:terminal.sandbox.label")}</label>
+					<div className="text-vscode-descriptionForeground text-sm mb-2">
+						{t("settings:terminal.sandbox.description")}
+					</div>
+					<div className="flex flex-col gap-1">
+						{allModes.map((mode) => (
+							<div key={mode.slug} className="flex items-center gap-2">
+								<span className="w-1/3 truncate">{mode.name}</span>
+								<Select
+									value={getCommandSandboxForMode(mode.slug, { modeCommandSandboxes })}
+									onValueChange={(value) =>
+										setCachedStateField("modeCommandSandboxes", {
+											...modeCommandSandboxes,
+											[mode.slug]: value as CommandSandbox,
+										})
+									}>
+									<SelectTrigger
+										className="flex-1"
+										data-testid={`command-sandbox-select-${mode.slug}`}>
+										<SelectValue placeholder={t("settings:common.select")} />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectGroup>
+											{commandSandboxes.map((sandbox) => (
+												<SelectItem key={sandbox} value={sandbox}>
+													{t(`settings:terminal.sandbox.backends.${sandbox}`)}
+												</SelectItem>
+											))}
+										</SelectGroup>
+									</SelectContent>
+								</Select>
+							</div>
+						))}
+					</div>
+				</div>
+
+				<div>
+					<VSCodeCheckbox
+						checked={commandSandboxNetworkEnabled ?? false}
+						onChange={(e: any) => setCachedStateField("commandSandboxNetworkEnabled", e.target.checked)}
+						data-testid="command-sandbox-network-checkbox">
+						<span className="font-medium">{t("settings:terminal.sandbox.network.label")}</span>
+					</VSCodeCheckbox>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:terminal.sandbox.network.description")}
+					</div>
+				</div>
+
+				<div>
+					<label className="block font-medium mb-1">
+						{t("settings:terminal.sandbox.writablePaths.label")}
+					</label>
+					<Textarea
+						className="font-mono"
+						rows={3}
+						value={(commandSandboxWritablePaths ?? []).join("\n")}
+						onChange={(e) => setCachedStateField("commandSandboxWritablePaths", e.target.value.split("\n"))}
+						data-testid="command-sandbox-writable-paths"
+					/>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:terminal.sandbox.writablePaths.description")}
+					</div>
+				</div>
+
+				<div>
+					<label className="block font-medium mb-1">{t("settings:terminal.sandbox.image.label")}</label>
+					<Input
+						value={commandSandboxImage ?? ""}
+						placeholder={DEFAULT_COMMAND_SANDBOX_IMAGE}
+						onChange={(e) => setCachedStateField("commandSandboxImage", e.target.value)}
+						data-testid="command-sandbox-image"
+					/>
+					<div className="text-vscode-descriptionForeground text-sm mt-1">
+						{t("settings:terminal.sandbox.image.description")}
+					</div>
+				</div>
 			</Section>
 		</div>
 	)
